@@ -0,0 +1,185 @@
+/**
+ * Row-level error collection tests for effect-csv
+ *
+ * Tests errorMode: "collect" for parse and parseStream
+ */
+
+import { Chunk, Effect, Either, Schema, Stream } from "effect";
+import { describe, expect, it } from "vitest";
+import { parse, parseTsv } from "../../src/api.js";
+import { parseStream } from "../../src/CsvStream.js";
+import { ParseError, ValidationError } from "../../src/errors.js";
+
+const UserSchema = Schema.Struct({
+  id: Schema.NumberFromString,
+  name: Schema.String,
+});
+
+const UsersSchema = Schema.Array(UserSchema);
+
+describe("Row-level error collection", () => {
+  describe("parse()", () => {
+    it("should keep valid rows and reject the rest", async () => {
+      const csv = "id,name\n1,Alice\nx,Bob\n3,Carol,extra\n4,Dave";
+
+      const result = await Effect.runPromise(
+        parse(UsersSchema, csv, { errorMode: "collect" })
+      );
+
+      expect(result.valid).toEqual([
+        { id: 1, name: "Alice" },
+        { id: 4, name: "Dave" },
+      ]);
+      expect(
+        result.rejected.map(({ row, line, raw }) => [row, line, raw])
+      ).toEqual([
+        [2, 3, "x,Bob"],
+        [3, 4, "3,Carol,extra"],
+      ]);
+      expect(result.rejected[0]?.error).toBeInstanceOf(ValidationError);
+      expect(result.rejected[1]?.error).toBeInstanceOf(ParseError);
+      expect(result.rejected[1]?.error.message).toContain("Too many fields");
+    });
+
+    it("should report lines across quoted line breaks and skipped lines", async () => {
+      const csv =
+        'id,name\r\n1,"Alice\r\nSmith"\r\n\r\n# note\r\nnope,Bob\r\n3,"Carol"';
+
+      const result = await Effect.runPromise(
+        parse(UsersSchema, csv, { errorMode: "collect", comment: "#" })
+      );
+
+      expect(result.valid).toEqual([
+        { id: 1, name: "Alice\r\nSmith" },
+        { id: 3, name: "Carol" },
+      ]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0]).toMatchObject({
+        row: 2,
+        line: 6,
+        raw: "nope,Bob",
+      });
+    });
+
+    it("should reject rows with too few fields", async () => {
+      const csv = "id,name\n1\n2,Bob";
+
+      const result = await Effect.runPromise(
+        parse(UsersSchema, csv, { errorMode: "collect" })
+      );
+
+      expect(result.valid).toEqual([{ id: 2, name: "Bob" }]);
+      expect(result.rejected[0]?.error.message).toContain("Too few fields");
+    });
+
+    it("should collect rows without a header", async () => {
+      const schema = Schema.Array(
+        Schema.Tuple(Schema.String, Schema.NumberFromString)
+      );
+
+      const result = await Effect.runPromise(
+        parse(schema, "a,1\nb,two\nc,3", {
+          errorMode: "collect",
+          header: false,
+        })
+      );
+
+      expect(result.valid).toEqual([
+        ["a", 1],
+        ["c", 3],
+      ]);
+      expect(result.rejected.map((rejected) => rejected.row)).toEqual([2]);
+    });
+
+    it("should validate rows of a refined array schema one at a time", async () => {
+      const schema = UsersSchema.pipe(Schema.minItems(1));
+
+      const result = await Effect.runPromise(
+        parse(schema, "id,name\n1,Alice\nx,Bob", { errorMode: "collect" })
+      );
+
+      expect(result.valid).toEqual([{ id: 1, name: "Alice" }]);
+      expect(result.rejected).toHaveLength(1);
+    });
+
+    it("should collect TSV rows", async () => {
+      const result = await Effect.runPromise(
+        parseTsv(UsersSchema, "id\tname\n1\tAlice\nx\tBob", {
+          errorMode: "collect",
+        })
+      );
+
+      expect(result.valid).toEqual([{ id: 1, name: "Alice" }]);
+      expect(result.rejected[0]?.raw).toBe("x\tBob");
+    });
+
+    it("should still fail on the first bad row by default", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(parse(UsersSchema, "id,name\n1,Alice\nx,Bob"))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+  });
+
+  describe("parseStream()", () => {
+    it("should emit valid and rejected rows numbered across chunks", async () => {
+      const chunks = Stream.make("id,name\n1,Alice\nx,Bob\n", "3,Carol\n4");
+
+      const results = Chunk.toReadonlyArray(
+        await Effect.runPromise(
+          Stream.runCollect(
+            parseStream(UserSchema, chunks, { errorMode: "collect" })
+          )
+        )
+      );
+
+      expect(
+        results.filter(Either.isRight).map((result) => result.right)
+      ).toEqual([
+        { id: 1, name: "Alice" },
+        { id: 3, name: "Carol" },
+      ]);
+      expect(
+        results
+          .filter(Either.isLeft)
+          .map(({ left }) => [left.row, left.line, left.raw])
+      ).toEqual([
+        [2, 3, "x,Bob"],
+        [4, 5, "4"],
+      ]);
+    });
+
+    it("should read records split across chunks", async () => {
+      const chunks = Stream.make(
+        "id,na",
+        "me\r",
+        "\n1,Al",
+        'ice\n2,"Bob\n',
+        'by"\nx,',
+        "Carol\r\n3,Dave"
+      );
+
+      const results = Chunk.toReadonlyArray(
+        await Effect.runPromise(
+          Stream.runCollect(
+            parseStream(UserSchema, chunks, { errorMode: "collect" })
+          )
+        )
+      );
+
+      expect(
+        results.filter(Either.isRight).map((result) => result.right)
+      ).toEqual([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob\nby" },
+        { id: 3, name: "Dave" },
+      ]);
+      expect(
+        results
+          .filter(Either.isLeft)
+          .map(({ left }) => [left.row, left.line, left.raw])
+      ).toEqual([[3, 5, "x,Carol"]]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Column mapping tests for effect-csv
+ *
+ * Tests header aliases, positional columns, sentinels and transforms
+ */
+
+import { Chunk, Effect, Option, Schema, Stream } from "effect";
+import { describe, expect, it } from "vitest";
+import { parse, stringify } from "../../src/api.js";
+import { parseStream, stringifyStream } from "../../src/CsvStream.js";
+import type { ColumnMapping } from "../../src/columns.js";
+
+const ContactSchema = Schema.Array(
+  Schema.Struct({
+    email: Schema.String,
+    name: Schema.String,
+    age: Schema.OptionFromSelf(Schema.NumberFromString),
+    spend: Schema.Number,
+  })
+);
+
+const columns: ColumnMapping = {
+  name: { header: "Full Name" },
+  email: { header: ["E-mail", "email_address"] },
+  age: { header: "Age", missing: ["N/A", ""] },
+  spend: {
+    header: "Spend (USD)",
+    decode: (value) => Number(value.replace("$", "")),
+    encode: (value) => `$${value}`,
+  },
+};
+
+describe("Column mapping", () => {
+  describe("parse()", () => {
+    it("should map header aliases, sentinels and transforms", async () => {
+      const csv = [
+        "Full Name,email_address,Age,Spend (USD)",
+        "Alice,alice@example.com,34,$12.50",
+        "Bob,bob@example.com,N/A,$3",
+        "Carol,carol@example.com,,$0",
+      ].join("\n");
+
+      const result = await Effect.runPromise(
+        parse(ContactSchema, csv, { columns })
+      );
+
+      expect(result).toEqual([
+        {
+          name: "Alice",
+          email: "alice@example.com",
+          age: Option.some(34),
+          spend: 12.5,
+        },
+        {
+          name: "Bob",
+          email: "bob@example.com",
+          age: Option.none(),
+          spend: 3,
+        },
+        {
+          name: "Carol",
+          email: "carol@example.com",
+          age: Option.none(),
+          spend: 0,
+        },
+      ]);
+    });
+
+    it("should match headers ignoring case and surrounding spaces", async () => {
+      const schema = Schema.Array(
+        Schema.Struct({ email: Schema.String, name: Schema.String })
+      );
+
+      const result = await Effect.runPromise(
+        parse(schema, " e-MAIL ,NAME\nalice@example.com,Alice", {
+          columns: { email: { header: "E-mail" }, name: {} },
+        })
+      );
+
+      expect(result).toEqual([{ email: "alice@example.com", name: "Alice" }]);
+    });
+
+    it("should keep unmapped columns under their own names", async () => {
+      const schema = Schema.Array(
+        Schema.Struct({ email: Schema.String, plan: Schema.String })
+      );
+
+      const result = await Effect.runPromise(
+        parse(schema, "E-mail,plan\nalice@example.com,pro", {
+          columns: { email: { header: "E-mail" } },
+        })
+      );
+
+      expect(result).toEqual([{ email: "alice@example.com", plan: "pro" }]);
+    });
+
+    it("should select columns by position in header-less files", async () => {
+      const schema = Schema.Array(
+        Schema.Struct({ id: Schema.NumberFromString, name: Schema.String })
+      );
+
+      const result = await Effect.runPromise(
+        parse(schema, "x,1,Alice\ny,2,Bob", {
+          header: false,
+          columns: { id: { index: 1 }, name: { index: 2 } },
+        })
+      );
+
+      expect(result).toEqual([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+      ]);
+    });
+
+    it("should map rows before collecting errors", async () => {
+      const csv = "Full Name,E-mail,Age,Spend (USD)\nAlice,a@x.io,abc,$1";
+
+      const result = await Effect.runPromise(
+        parse(ContactSchema, csv, { columns, errorMode: "collect" })
+      );
+
+      expect(result.valid).toEqual([]);
+      expect(result.rejected[0]?.raw).toBe("Alice,a@x.io,abc,$1");
+    });
+  });
+
+  describe("stringify()", () => {
+    it("should write vendor column names in mapping order", async () => {
+      const contacts = [
+        {
+          email: "alice@example.com",
+          name: "Alice",
+          age: Option.some(34),
+          spend: 12.5,
+        },
+        {
+          email: "bob@example.com",
+          name: "Bob",
+          age: Option.none(),
+          spend: 3,
+        },
+      ];
+
+      const csv = await Effect.runPromise(
+        stringify(ContactSchema, contacts, { columns })
+      );
+
+      expect(csv).toBe(
+        [
+          "Full Name,E-mail,Age,Spend (USD)",
+          "Alice,alice@example.com,34,$12.5",
+          "Bob,bob@example.com,N/A,$3",
+        ].join("\n")
+      );
+    });
+
+    it("should round-trip through the same mapping", async () => {
+      const csv = [
+        "Full Name,E-mail,Age,Spend (USD)",
+        "Alice,alice@example.com,34,$12.5",
+        "Bob,bob@example.com,N/A,$3",
+      ].join("\n");
+
+      const contacts = await Effect.runPromise(
+        parse(ContactSchema, csv, { columns })
+      );
+      const written = await Effect.runPromise(
+        stringify(ContactSchema, contacts, { columns })
+      );
+
+      expect(written).toBe(csv);
+    });
+
+    it("should place header-less columns by position", async () => {
+      const schema = Schema.Array(
+        Schema.Struct({ id: Schema.Number, name: Schema.String })
+      );
+
+      const csv = await Effect.runPromise(
+        stringify(schema, [{ id: 1, name: "Alice" }], {
+          header: false,
+          columns: { id: { index: 1 }, name: { index: 2 } },
+        })
+      );
+
+      expect(csv).toBe(",1,Alice");
+    });
+  });
+
+  describe("streams", () => {
+    it("should map columns when parsing and stringifying streams", async () => {
+      const itemSchema = Schema.Struct({
+        email: Schema.String,
+        plan: Schema.String,
+      });
+      const mapping: ColumnMapping = { email: { header: "E-mail" } };
+
+      const parsed = await Effect.runPromise(
+        Stream.runCollect(
+          parseStream(itemSchema, Stream.make("E-mail,plan\na@x.io,pro"), {
+            columns: mapping,
+          })
+        )
+      );
+      const written = await Effect.runPromise(
+        Stream.runCollect(
+          stringifyStream(itemSchema, Stream.fromIterable(parsed), {
+            columns: mapping,
+          })
+        )
+      );
+
+      expect(Chunk.toReadonlyArray(parsed)).toEqual([
+        { email: "a@x.io", plan: "pro" },
+      ]);
+      expect(Chunk.toReadonlyArray(written)).toEqual([
+        "E-mail,plan\na@x.io,pro",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Dialect sniffing tests for effect-csv
+ */
+
+import { Effect, Either } from "effect";
+import { describe, expect, it } from "vitest";
+import { DelimiterError } from "../../src/errors.js";
+import { sniff } from "../../src/sniff.js";
+
+describe("sniff()", () => {
+  it("should detect a comma-separated file with a header", async () => {
+    const dialect = await Effect.runPromise(
+      sniff("id,name,score\n1,Alice,9.5\n2,Bob,7\n3,Carol,8.25\n")
+    );
+
+    expect(dialect).toEqual({
+      delimiter: ",",
+      quote: '"',
+      header: true,
+      encoding: "utf-8",
+      bom: false,
+      lineEnding: "\n",
+      confidence: 1,
+    });
+  });
+
+  it("should prefer semicolons when commas are decimal separators", async () => {
+    const dialect = await Effect.runPromise(
+      sniff("name;price\r\nTea;1,50\r\nCoffee;2,75\r\nCake;12,00\r\n")
+    );
+
+    expect(dialect.delimiter).toBe(";");
+    expect(dialect.lineEnding).toBe("\r\n");
+    expect(dialect.header).toBe(true);
+  });
+
+  it("should detect tabs, pipes and single quotes", async () => {
+    const tabs = await Effect.runPromise(sniff("a\tb\n1\t2\n3\t4"));
+    const pipes = await Effect.runPromise(sniff("a|b|c\n1|2|3\n4|5|6"));
+    const quoted = await Effect.runPromise(
+      sniff("'name','note'\n'Alice','a, b'\n'Bob','c, d, e'")
+    );
+
+    expect(tabs.delimiter).toBe("\t");
+    expect(pipes.delimiter).toBe("|");
+    expect(quoted).toMatchObject({ delimiter: ",", quote: "'" });
+  });
+
+  it("should not mistake a data row for a header", async () => {
+    const dialect = await Effect.runPromise(sniff("1,2,3\n4,5,6\n7,8,9"));
+
+    expect(dialect.header).toBe(false);
+  });
+
+  it("should detect byte order marks and encodings", async () => {
+    const utf8 = await Effect.runPromise(
+      sniff(Buffer.from("\uFEFFa,b\n1,2", "utf-8"))
+    );
+    const utf16 = await Effect.runPromise(
+      sniff(
+        Buffer.concat([
+          Buffer.from([0xff, 0xfe]),
+          Buffer.from("a;b\n1;2", "utf16le"),
+        ])
+      )
+    );
+    const latin1 = await Effect.runPromise(
+      sniff(Buffer.from("name,city\nJosé,Zürich\n", "latin1"))
+    );
+
+    expect(utf8).toMatchObject({
+      encoding: "utf-8",
+      bom: true,
+      delimiter: ",",
+    });
+    expect(utf16).toMatchObject({
+      encoding: "utf-16le",
+      bom: true,
+      delimiter: ";",
+    });
+    expect(latin1).toMatchObject({ encoding: "windows-1252", bom: false });
+  });
+
+  it("should report lower confidence for ragged or single-column input", async () => {
+    const ragged = await Effect.runPromise(
+      sniff("a,b,c\n1,2,3\n4,5\n6,7,8\n9")
+    );
+    const single = await Effect.runPromise(sniff("name\nAlice\nBob"));
+
+    expect(ragged.confidence).toBeLessThan(1);
+    expect(ragged.delimiter).toBe(",");
+    expect(single.confidence).toBeLessThanOrEqual(0.5);
+  });
+
+  it("should ignore a truncated last record in the sample", async () => {
+    const dialect = await Effect.runPromise(
+      sniff("a,b\n1,2\n3,4\n5", { sampleSize: 10 })
+    );
+
+    expect(dialect.confidence).toBe(1);
+  });
+
+  it("should fail with DelimiterError for empty input", async () => {
+    const result = await Effect.runPromise(Effect.either(sniff("\n\n")));
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(DelimiterError);
+    }
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Workbook tests for effect-csv
+ *
+ * Round-trips XLSX and ODS workbooks through stringifyWorkbook and
+ * parseSheet
+ */
+
+import { Effect, Either, Schema } from "effect";
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { ods } from "../../src/backends/ods.js";
+import {
+  StringifyError,
+  ValidationError,
+  WorkbookError,
+} from "../../src/errors.js";
+import {
+  listSheets,
+  parseSheet,
+  stringifyWorkbook,
+} from "../../src/workbook.js";
+
+const SalesSchema = Schema.Array(
+  Schema.Struct({
+    region: Schema.String,
+    amount: Schema.Number,
+    closed: Schema.DateFromSelf,
+    paid: Schema.Boolean,
+    note: Schema.optional(Schema.String),
+  })
+);
+
+const AnySchema = Schema.Unknown;
+
+const sales = [
+  {
+    region: "North",
+    amount: 1250.5,
+    closed: new Date("2024-01-15T00:00:00Z"),
+    paid: true,
+    note: "first <deal> & more",
+  },
+  {
+    region: "South",
+    amount: 980,
+    closed: new Date("2024-02-29T13:45:00Z"),
+    paid: false,
+  },
+];
+
+const workbook = () =>
+  Effect.runPromise(
+    stringifyWorkbook({
+      Q1: sales,
+      Totals: [
+        ["Total", 2230.5],
+        ["Count", 2],
+      ],
+    })
+  );
+
+describe("Workbook API Functions", () => {
+  describe("listSheets()", () => {
+    it("should list sheet names in order", async () => {
+      const bytes = await workbook();
+      const names = await Effect.runPromise(listSheets(bytes));
+      expect(names).toEqual(["Q1", "Totals"]);
+    });
+
+    it("should fail with WorkbookError for non-XLSX input", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(listSheets(strToU8("id,name\n1,Alice")))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(WorkbookError);
+      }
+    });
+  });
+
+  describe("parseSheet()", () => {
+    it("should read typed numbers, dates and booleans", async () => {
+      const bytes = await workbook();
+      const result = await Effect.runPromise(parseSheet(SalesSchema, bytes));
+      expect(result).toEqual(sales);
+    });
+
+    it("should select sheets by name and index", async () => {
+      const bytes = await workbook();
+      const byName = await Effect.runPromise(
+        parseSheet(AnySchema, bytes, { sheet: "Totals", header: false })
+      );
+      const byIndex = await Effect.runPromise(
+        parseSheet(AnySchema, bytes, { sheet: 1, header: false })
+      );
+      expect(byName).toEqual([
+        ["Total", 2230.5],
+        ["Count", 2],
+      ]);
+      expect(byIndex).toEqual(byName);
+    });
+
+    it("should fail with WorkbookError for a missing sheet", async () => {
+      const bytes = await workbook();
+      const result = await Effect.runPromise(
+        Effect.either(parseSheet(AnySchema, bytes, { sheet: "Q2" }))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(WorkbookError);
+        expect(result.left.message).toContain("Q2");
+      }
+    });
+
+    it("should report the cell of a validation failure", async () => {
+      const bytes = await Effect.runPromise(
+        stringifyWorkbook({
+          Q1: [
+            { region: "North", amount: 10 },
+            { region: "South", amount: "n/a" },
+          ],
+        })
+      );
+      const schema = Schema.Array(
+        Schema.Struct({ region: Schema.String, amount: Schema.Number })
+      );
+      const result = await Effect.runPromise(
+        Effect.either(parseSheet(schema, bytes))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        const error = result.left;
+        expect(error).toBeInstanceOf(ValidationError);
+        if (error instanceof ValidationError) {
+          expect(error.cell).toBe("B3");
+          expect(error.message).toContain('sheet "Q1", cell B3');
+        }
+      }
+    });
+
+    it("should read shared strings and sparse cells", async () => {
+      const declaration = '<?xml version="1.0" encoding="UTF-8"?>';
+      const bytes = zipSync({
+        "_rels/.rels": strToU8(
+          `${declaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+        ),
+        "xl/workbook.xml": strToU8(
+          `${declaration}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>`
+        ),
+        "xl/_rels/workbook.xml.rels": strToU8(
+          `${declaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/></Relationships>`
+        ),
+        "xl/sharedStrings.xml": strToU8(
+          `${declaration}<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>name</t></si><si><t>score</t></si><si><r><t>Al</t></r><r><t>ice</t></r></si></sst>`
+        ),
+        "xl/worksheets/sheet1.xml": strToU8(
+          `${declaration}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row><row r="4"><c r="A4" t="s"><v>2</v></c><c r="C4"><v>42</v></c></row></sheetData></worksheet>`
+        ),
+      });
+      const result = await Effect.runPromise(parseSheet(AnySchema, bytes));
+      expect(result).toEqual([{ name: "Alice", score: 42 }]);
+    });
+  });
+
+  describe("stringifyWorkbook()", () => {
+    it("should reject invalid sheet names", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(stringifyWorkbook({ "Q1/Q2": [["a"]] }))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(StringifyError);
+      }
+    });
+
+    it("should report the cell of an unwritable value", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          stringifyWorkbook({ Data: [{ id: 1, tags: ["a", "b"] }] })
+        )
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.cell).toBe("B2");
+      }
+    });
+
+    it("should preserve control characters and escape-like text", async () => {
+      const rows = [["tab\there", "bell\u0007", "_x0041_"]];
+      const bytes = await Effect.runPromise(stringifyWorkbook({ Data: rows }));
+      const result = await Effect.runPromise(
+        parseSheet(AnySchema, bytes, { header: false })
+      );
+      expect(result).toEqual(rows);
+    });
+  });
+
+  describe("ODS backend", () => {
+    const odsWorkbook = () =>
+      Effect.runPromise(
+        stringifyWorkbook(
+          { Q1: sales, Totals: [["Total", 2230.5]] },
+          undefined,
+          ods
+        )
+      );
+
+    it("should round-trip typed cells", async () => {
+      const bytes = await odsWorkbook();
+      expect(await Effect.runPromise(listSheets(bytes, ods))).toEqual([
+        "Q1",
+        "Totals",
+      ]);
+      const result = await Effect.runPromise(
+        parseSheet(SalesSchema, bytes, undefined, ods)
+      );
+      expect(result).toEqual(sales);
+    });
+
+    it("should preserve spaces, tabs and line breaks", async () => {
+      const rows = [["  leading", "a   b\tc", "line 1\nline 2 ", "<&>"]];
+      const bytes = await Effect.runPromise(
+        stringifyWorkbook({ Data: rows }, { header: false }, ods)
+      );
+      const result = await Effect.runPromise(
+        parseSheet(AnySchema, bytes, { header: false }, ods)
+      );
+      expect(result).toEqual(rows);
+    });
+
+    it("should expand repeated rows and columns", async () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?><office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"><office:body><office:spreadsheet><table:table table:name="Data"><table:table-header-rows><table:table-row><table:table-cell office:value-type="string"><text:p>name</text:p></table:table-cell><table:table-cell table:number-columns-repeated="2"/><table:table-cell office:value-type="string"><text:p>share</text:p></table:table-cell></table:table-row></table:table-header-rows><table:table-row table:number-rows-repeated="2"><table:table-cell office:value-type="string" table:number-columns-spanned="2"><text:p>Al<text:s text:c="2"/>ice</text:p></table:table-cell><table:covered-table-cell/><table:table-cell/><table:table-cell office:value-type="percentage" office:value="0.25"/></table:table-row><table:table-row table:number-rows-repeated="1048573"><table:table-cell table:number-columns-repeated="1024"/></table:table-row></table:table></office:spreadsheet></office:body></office:document-content>`;
+      const bytes = zipSync({ "content.xml": strToU8(content) });
+      const result = await Effect.runPromise(
+        parseSheet(AnySchema, bytes, { header: false }, ods)
+      );
+      expect(result).toEqual([
+        ["name", undefined, undefined, "share"],
+        ["Al  ice", undefined, undefined, 0.25],
+        ["Al  ice", undefined, undefined, 0.25],
+      ]);
+    });
+
+    it("should report the cell of an unwritable value", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          stringifyWorkbook({ Data: [["ok", Number.NaN]] }, undefined, ods)
+        )
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(StringifyError);
+        expect(result.left.cell).toBe("B1");
+      }
+    });
+
+    it("should fail with WorkbookError for XLSX input", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(listSheets(await workbook(), ods))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(WorkbookError);
+      }
+    });
+  });
+});
@@ -1,12 +1,15 @@
-import { Effect, Schema, Stream } from "effect";
+import { type Either, type Schema, Stream } from "effect";
+import type { CollectOptions, FailOptions } from "./api.js";
+import { papaParse } from "./backends/papaparse.js";
 import type {
   CsvBackend,
   ParseOptions,
   StringifyOptions,
 } from "./backends/types.js";
-import { papaParse } from "./backends/papaparse.js";
+import { type RejectedRow, validateRow } from "./collect.js";
+import { mapRecord, unmapRecord } from "./columns.js";
+import type { ParseError, StringifyError, ValidationError } from "./errors.js";
 import { validateAgainstSchema } from "./schema.js";
-import type { ParseError, ValidationError, StringifyError } from "./errors.js";
 
 /**
  * Parse CSV stream row-by-row with schema validation
@@ -27,17 +30,48 @@ import type { ParseError, ValidationError, StringifyError } from "./errors.js";
  *   Stream.mapEffect((batch) => processUsers(batch))
  * )
  * ```
+ *
+ * With `errorMode: "collect"` the stream carries `Either.right` for valid
+ * rows and `Either.left` with a `RejectedRow` for the rest, numbered
+ * across chunks.
  */
-export const parseStream = <A, I, R>(
+export function parseStream<A, I, R>(
+  itemSchema: Schema.Schema<A, I, R>,
+  inputStream: Stream.Stream<string, ParseError>,
+  options?: FailOptions,
+  backend?: CsvBackend
+): Stream.Stream<A, ParseError | ValidationError, never>;
+export function parseStream<A, I, R>(
+  itemSchema: Schema.Schema<A, I, R>,
+  inputStream: Stream.Stream<string, ParseError>,
+  options: CollectOptions,
+  backend?: CsvBackend
+): Stream.Stream<Either.Either<A, RejectedRow>, ParseError, never>;
+export function parseStream<A, I, R>(
   itemSchema: Schema.Schema<A, I, R>,
   inputStream: Stream.Stream<string, ParseError>,
   options?: ParseOptions,
   backend: CsvBackend = papaParse
-): Stream.Stream<A, ParseError | ValidationError, never> =>
-  backend.parseStream(inputStream, options).pipe(
+): Stream.Stream<unknown, ParseError | ValidationError, never> {
+  if (options?.errorMode === "collect") {
+    return backend.parseRowsStream(inputStream, options).pipe(
+      Stream.map((row) =>
+        options.columns
+          ? { ...row, data: mapRecord(row.data, options.columns) }
+          : row
+      ),
+      // biome-ignore lint/suspicious/noExplicitAny: schema typing is generic
+      Stream.mapEffect((row) => validateRow(itemSchema as any, row))
+    ) as Stream.Stream<Either.Either<A, RejectedRow>, ParseError, never>;
+  }
+  return backend.parseStream(inputStream, options).pipe(
+    Stream.map((row) =>
+      options?.columns ? mapRecord(row, options.columns) : row
+    ),
     // biome-ignore lint/suspicious/noExplicitAny: schema typing is generic
     Stream.mapEffect((row) => validateAgainstSchema(itemSchema as any, row))
   ) as Stream.Stream<A, ParseError | ValidationError, never>;
+}
 
 /**
  * Stringify data stream to CSV
@@ -62,9 +96,13 @@ export const stringifyStream = <A, I, R>(
   options?: StringifyOptions,
   backend: CsvBackend = papaParse
 ): Stream.Stream<string, StringifyError, never> =>
-  // biome-ignore lint/suspicious/noExplicitAny: needs any for papaparse compatibility
-  backend.stringifyStream(dataStream as any, options) as Stream.Stream<
-    string,
-    StringifyError,
-    never
-  >;
+  backend.stringifyStream(
+    dataStream.pipe(
+      Stream.map((record) =>
+        options?.columns
+          ? unmapRecord(record, options.columns, options.header ?? true)
+          : record
+      )
+    ) as Stream.Stream<unknown, never>,
+    options
+  ) as Stream.Stream<string, StringifyError, never>;
@@ -1,16 +1,33 @@
-import { Effect, Schema } from "effect";
+import { Effect, type Schema } from "effect";
+import { papaParse } from "./backends/papaparse.js";
 import type {
   CsvBackend,
   ParseOptions,
   StringifyOptions,
 } from "./backends/types.js";
-import { papaParse } from "./backends/papaparse.js";
+import { type CollectedRows, collectRows, rowSchema } from "./collect.js";
+import { mapRecords, mapRows, unmapRecords } from "./columns.js";
+import type { ParseError, StringifyError, ValidationError } from "./errors.js";
 import { validateAgainstSchema, validateForStringify } from "./schema.js";
-import type { ParseError, ValidationError, StringifyError } from "./errors.js";
+
+/**
+ * Parse options for failing on the first bad row (the default)
+ */
+export type FailOptions = ParseOptions & { readonly errorMode?: "fail" };
+
+/**
+ * Parse options for collecting bad rows instead of failing
+ */
+export type CollectOptions = ParseOptions & { readonly errorMode: "collect" };
 
 /**
  * Parse CSV with schema validation
  *
+ * By default the first malformed row or schema mismatch fails the whole
+ * input. With `errorMode: "collect"` each row is validated on its own
+ * against the item schema of an array schema: valid rows are returned and
+ * the others are rejected with their row, line, raw text and error.
+ *
  * @example
  * ```typescript
  * const UserSchema = Schema.Array(
@@ -24,18 +41,45 @@ import type { ParseError, ValidationError, StringifyError } from "./errors.js";
  * const users = await Effect.runPromise(
  *   parse(UserSchema, csvString, { delimiter: ',' })
  * )
+ *
+ * const { valid, rejected } = await Effect.runPromise(
+ *   parse(UserSchema, csvString, { errorMode: "collect" })
+ * )
  * ```
  */
-export const parse = <A, I, R>(
+export function parse<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: string | Buffer,
+  options?: FailOptions,
+  backend?: CsvBackend
+): Effect.Effect<A, ParseError | ValidationError, R>;
+export function parse<A, I, R>(
+  schema: Schema.Schema<readonly A[], I, R>,
+  input: string | Buffer,
+  options: CollectOptions,
+  backend?: CsvBackend
+): Effect.Effect<CollectedRows<A>, ParseError, R>;
+export function parse<A, I, R>(
   schema: Schema.Schema<A, I, R>,
   input: string | Buffer,
   options?: ParseOptions,
   backend: CsvBackend = papaParse
-): Effect.Effect<A, ParseError | ValidationError, R> =>
-  backend.parse(input, options).pipe(
+): Effect.Effect<unknown, ParseError | ValidationError, R> {
+  if (options?.errorMode === "collect") {
+    return backend.parseRows(input, options).pipe(
+      Effect.map((rows) => mapRows(rows, options)),
+      Effect.flatMap((rows) =>
+        // biome-ignore lint/suspicious/noExplicitAny: schema typing is generic
+        collectRows(rowSchema(schema as any), rows)
+      )
+    ) as Effect.Effect<unknown, ParseError, R>;
+  }
+  return backend.parse(input, options).pipe(
+    Effect.map((rawData) => mapRecords(rawData, options)),
     // biome-ignore lint/suspicious/noExplicitAny: schema typing is generic
     Effect.flatMap((rawData) => validateAgainstSchema(schema as any, rawData))
   ) as Effect.Effect<A, ParseError | ValidationError, R>;
+}
 
 /**
  * Stringify data to CSV with schema validation
@@ -54,20 +98,42 @@ export const stringify = <A, I, R>(
   backend: CsvBackend = papaParse
 ): Effect.Effect<string, ValidationError | StringifyError, R> =>
   validateForStringify(schema, data).pipe(
-    // biome-ignore lint/suspicious/noExplicitAny: needs any for papaparse
-    Effect.flatMap(() => backend.stringify(data as any, options))
+    Effect.flatMap(() =>
+      backend.stringify(
+        unmapRecords(data as readonly unknown[], options),
+        options
+      )
+    )
   ) as Effect.Effect<string, ValidationError | StringifyError, R>;
 
 /**
  * Parse Tab-Separated Values (TSV)
  */
-export const parseTsv = <A, I, R>(
+export function parseTsv<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: string | Buffer,
+  options?: Omit<FailOptions, "delimiter">,
+  backend?: CsvBackend
+): Effect.Effect<A, ParseError | ValidationError, R>;
+export function parseTsv<A, I, R>(
+  schema: Schema.Schema<readonly A[], I, R>,
+  input: string | Buffer,
+  options: Omit<CollectOptions, "delimiter">,
+  backend?: CsvBackend
+): Effect.Effect<CollectedRows<A>, ParseError, R>;
+export function parseTsv<A, I, R>(
   schema: Schema.Schema<A, I, R>,
   input: string | Buffer,
   options?: Omit<ParseOptions, "delimiter">,
   backend: CsvBackend = papaParse
-): Effect.Effect<A, ParseError | ValidationError, R> =>
-  parse(schema, input, { ...options, delimiter: "\t" }, backend);
+): Effect.Effect<unknown, ParseError | ValidationError, R> {
+  return parse(
+    schema,
+    input,
+    { ...options, delimiter: "\t" } as FailOptions,
+    backend
+  );
+}
 
 /**
  * Stringify to Tab-Separated Values (TSV)
@@ -1,2 +1,11 @@
-export type { CsvBackend, ParseOptions, StringifyOptions } from "./types.js";
+export { ods } from "./ods.js";
 export { papaParse } from "./papaparse.js";
+export type {
+  CellValue,
+  CsvBackend,
+  ParseOptions,
+  SheetRow,
+  StringifyOptions,
+  WorkbookBackend,
+} from "./types.js";
+export { xlsx } from "./xlsx.js";
@@ -0,0 +1,52 @@
+import { Effect } from "effect";
+import { StringifyError, WorkbookError } from "../errors.js";
+import { OdsWorkbook } from "../ods/reader.js";
+import { writeOds } from "../ods/writer.js";
+import { CellError } from "../xlsx/cells.js";
+import type { WorkbookBackend } from "./types.js";
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * ODS (OpenDocument Spreadsheet) Workbook Backend
+ *
+ * Reads strings, numbers (including percentages and currencies), booleans,
+ * dates and times from each cell's value type. Repeated rows and columns
+ * are expanded.
+ */
+export const ods: WorkbookBackend = {
+  listSheets: (input) =>
+    Effect.try({
+      try: () => new OdsWorkbook(input).sheets,
+      catch: (error) =>
+        new WorkbookError({
+          message: toError(error).message,
+          cause: toError(error),
+        }),
+    }),
+
+  readSheet: (input, sheet) =>
+    Effect.try({
+      try: () => new OdsWorkbook(input).readSheet(sheet),
+      catch: (error) =>
+        new WorkbookError({
+          message: toError(error).message,
+          sheet,
+          cell: error instanceof CellError ? error.cell : undefined,
+          cause: toError(error),
+        }),
+    }),
+
+  writeWorkbook: (sheets) =>
+    Effect.try({
+      try: () => writeOds(sheets),
+      catch: (error) =>
+        new StringifyError({
+          message: toError(error).message,
+          reason: error instanceof CellError ? "type_error" : "unknown",
+          cell: error instanceof CellError ? error.cell : undefined,
+          cause: toError(error),
+        }),
+    }),
+};
@@ -1,8 +1,268 @@
-import { Effect, Stream, Chunk } from "effect";
+import { Chunk, Effect, Stream } from "effect";
 // biome-ignore lint/suspicious/noExplicitAny: papaparse
 import Papa from "papaparse";
-import type { CsvBackend, ParseOptions, StringifyOptions } from "./types.js";
 import { ParseError, StringifyError } from "../errors.js";
+import type { CsvBackend, CsvRow, ParseOptions } from "./types.js";
+
+const LINE_BREAK_PATTERN = /\r\n|\n|\r/g;
+const BYTE_ORDER_MARK = "\uFEFF";
+
+const decodeInput = (input: string | Buffer): string => {
+  const text = Buffer.isBuffer(input) ? input.toString("utf-8") : input;
+  return text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+};
+
+/** PapaParse escapes quotes by doubling them unless told otherwise */
+const quoteOptions = (options: ParseOptions) => ({
+  quoteChar: options.quote ?? '"',
+  escapeChar: options.escape ?? options.quote ?? '"',
+});
+
+/** Offsets at which each line of the text starts */
+const lineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (const match of text.matchAll(LINE_BREAK_PATTERN)) {
+    starts.push(match.index + match[0].length);
+  }
+  return starts;
+};
+
+/** 1-indexed line holding the character at `offset` */
+const lineAt = (starts: readonly number[], offset: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if ((starts[middle] ?? 0) <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low + 1;
+};
+
+const breakAt = (text: string, at: number): number => {
+  if (text.startsWith("\r\n", at)) {
+    return 2;
+  }
+  return text[at] === "\n" || text[at] === "\r" ? 1 : 0;
+};
+
+const breakBefore = (text: string, at: number): number => {
+  if (text[at - 1] === "\r") {
+    return 1;
+  }
+  if (text[at - 1] === "\n") {
+    return text[at - 2] === "\r" ? 2 : 1;
+  }
+  return 0;
+};
+
+/** Length of the blank or comment line starting at `at`, if skipped */
+const skippedLineAt = (
+  text: string,
+  at: number,
+  options: ParseOptions
+): number => {
+  if ((options.skipEmptyLines ?? true) && breakAt(text, at) > 0) {
+    return breakAt(text, at);
+  }
+  if (options.comment && text.startsWith(options.comment, at)) {
+    LINE_BREAK_PATTERN.lastIndex = at;
+    const next = LINE_BREAK_PATTERN.exec(text);
+    LINE_BREAK_PATTERN.lastIndex = 0;
+    return next ? next.index + next[0].length - at : text.length - at;
+  }
+  return 0;
+};
+
+/**
+ * Where a record's text lies between two PapaParse cursors. A cursor may
+ * or may not include the record's line break, and skipped blank and
+ * comment lines sit between records.
+ */
+const recordSpan = (
+  text: string,
+  from: number,
+  to: number,
+  options: ParseOptions
+): { readonly start: number; readonly end: number } => {
+  const end = to - Math.min(breakBefore(text, to), Math.max(to - from, 0));
+  let start = from + (from > 0 ? breakAt(text, from) : 0);
+  for (
+    let skipped = skippedLineAt(text, start, options);
+    skipped > 0 && start < end;
+    skipped = skippedLineAt(text, start, options)
+  ) {
+    start += skipped;
+  }
+  return { start: Math.min(start, end), end };
+};
+
+/** Header names, with repeats suffixed `_1`, `_2`... as PapaParse does */
+const headerFields = (
+  fields: readonly unknown[],
+  trim: boolean
+): readonly string[] => {
+  const seen = new Set<string>();
+  return fields.map((field) => {
+    const name = trim ? String(field).trim() : String(field);
+    let key = name;
+    for (let suffix = 1; seen.has(key); suffix++) {
+      key = `${name}_${suffix}`;
+    }
+    seen.add(key);
+    return key;
+  });
+};
+
+const fieldCountMessage = (
+  header: readonly string[] | undefined,
+  count: number
+): string | undefined => {
+  if (header === undefined || count === header.length) {
+    return;
+  }
+  return count > header.length
+    ? `Too many fields: expected ${header.length} fields but parsed ${count}`
+    : `Too few fields: expected ${header.length} fields but parsed ${count}`;
+};
+
+const toRow = (
+  result: Papa.ParseStepResult<unknown[]>,
+  header: readonly string[] | undefined,
+  position: Pick<CsvRow, "row" | "line" | "raw">
+): CsvRow => {
+  const fields = result.data;
+  const message =
+    result.errors.find((error) => error.type !== "Delimiter")?.message ??
+    fieldCountMessage(header, fields.length);
+  return {
+    ...position,
+    data: header
+      ? Object.fromEntries(
+          header
+            .slice(0, fields.length)
+            .map((key, index) => [key, fields[index]])
+        )
+      : fields,
+    error:
+      message === undefined
+        ? undefined
+        : new ParseError({
+            message,
+            row: position.row,
+            snippet: position.raw,
+          }),
+  };
+};
+
+/** Where a parse resumes: the header, delimiter and rows read so far */
+interface RowReader {
+  header: readonly string[] | undefined;
+  delimiter: string | undefined;
+  rows: number;
+  lines: number;
+}
+
+const rowReader = (): RowReader => ({
+  header: undefined,
+  delimiter: undefined,
+  rows: 0,
+  lines: 0,
+});
+
+/**
+ * Parse record by record. An undetectable delimiter is not a record error:
+ * PapaParse falls back to a comma and carries on. Rows and lines are
+ * numbered from where `reader` left off, so a stream can resume it.
+ */
+const readRows = (
+  text: string,
+  options: ParseOptions,
+  reader: RowReader = rowReader()
+): CsvRow[] => {
+  const starts = lineStarts(text);
+  const rows: CsvRow[] = [];
+  let position = 0;
+
+  Papa.parse<unknown[]>(text, {
+    delimiter: reader.delimiter ?? options.delimiter,
+    header: false,
+    skipEmptyLines: options.skipEmptyLines ?? true,
+    dynamicTyping: options.dynamicTyping ?? false,
+    ...quoteOptions(options),
+    comments: options.comment ?? false,
+    step: (result) => {
+      const span = recordSpan(text, position, result.meta.cursor, options);
+      position = result.meta.cursor;
+      reader.delimiter ??= result.meta.delimiter;
+      if ((options.header ?? true) && reader.header === undefined) {
+        reader.header = headerFields(result.data, options.trimFields ?? false);
+        return;
+      }
+      reader.rows += 1;
+      rows.push(
+        toRow(result, reader.header, {
+          row: reader.rows,
+          line: reader.lines + lineAt(starts, span.start),
+          raw: text.slice(span.start, span.end),
+        })
+      );
+    },
+  });
+  reader.lines += starts.length;
+  return rows;
+};
+
+/** Offset of the line break ending the comment line at `at`, if any */
+const commentEndAt = (
+  text: string,
+  at: number,
+  options: ParseOptions
+): number => {
+  if (!(options.comment && text.startsWith(options.comment, at))) {
+    return at;
+  }
+  LINE_BREAK_PATTERN.lastIndex = at;
+  const next = LINE_BREAK_PATTERN.exec(text);
+  LINE_BREAK_PATTERN.lastIndex = 0;
+  return next ? next.index : text.length;
+};
+
+/**
+ * The last line break that ends a record: outside quotes and comments, and
+ * not a trailing `\r` that may be half of a `\r\n`. Text after it may be a
+ * record cut off by the end of a stream chunk.
+ */
+const lastRecordBreak = (
+  text: string,
+  options: ParseOptions
+): { readonly end: number; readonly next: number } | undefined => {
+  const { quoteChar, escapeChar } = quoteOptions(options);
+  let found: { readonly end: number; readonly next: number } | undefined;
+  let quoted = false;
+  for (
+    let index = commentEndAt(text, 0, options);
+    index < text.length;
+    index++
+  ) {
+    const char = text[index];
+    const length = quoted ? 0 : breakAt(text, index);
+    if (quoted && char === escapeChar && escapeChar !== quoteChar) {
+      index += 1;
+    } else if (char === quoteChar) {
+      quoted = !quoted;
+    } else if (length > 0) {
+      if (char === "\n" || length === 2 || index + 1 < text.length) {
+        found = { end: index, next: index + length };
+      }
+      index = commentEndAt(text, index + length, options) - 1;
+    }
+  }
+  return found;
+};
 
 /**
  * PapaParse CSV Backend
@@ -20,6 +280,7 @@ export const papaParse: CsvBackend = {
         header: options.header ?? true,
         skipEmptyLines: options.skipEmptyLines ?? true,
         dynamicTyping: options.dynamicTyping ?? false,
+        ...quoteOptions(options),
         transformHeader: options.trimFields
           ? (h: string) => h.trim()
           : undefined,
@@ -54,6 +315,17 @@ export const papaParse: CsvBackend = {
       })
     ),
 
+  parseRows: (input, options = {}) =>
+    Effect.try({
+      try: () => readRows(decodeInput(input), options),
+      catch: (error) =>
+        new ParseError({
+          message: error instanceof Error ? error.message : String(error),
+          row: 0,
+          snippet: "",
+        }),
+    }),
+
   stringify: (data, options = {}) =>
     Effect.sync(() => {
       // biome-ignore lint/suspicious/noExplicitAny: PapaParse accepts any array
@@ -86,6 +358,41 @@ export const papaParse: CsvBackend = {
       Stream.flatMap((rows) => Stream.fromIterable(rows))
     ),
 
+  parseRowsStream: (inputStream, options = {}) =>
+    Stream.suspend(() => {
+      // Records may straddle chunks: parse up to the last complete record
+      // and carry the rest, with the header and numbering, to the next chunk
+      const reader = rowReader();
+      let pending: string | undefined;
+      const read = (text: string) =>
+        Effect.try({
+          try: () => readRows(text, options, reader),
+          catch: (error) =>
+            new ParseError({
+              message: error instanceof Error ? error.message : String(error),
+              row: reader.rows,
+              snippet: "",
+            }),
+        });
+      return inputStream.pipe(
+        Stream.mapEffect((chunk) => {
+          const text =
+            pending === undefined ? decodeInput(chunk) : pending + chunk;
+          const recordBreak = lastRecordBreak(text, options);
+          pending = text.slice(recordBreak?.next ?? 0);
+          return recordBreak === undefined
+            ? Effect.succeed([])
+            : read(text.slice(0, recordBreak.end));
+        }),
+        Stream.concat(
+          Stream.suspend(() =>
+            pending ? Stream.fromEffect(read(pending)) : Stream.empty
+          )
+        ),
+        Stream.flatMap((rows) => Stream.fromIterable(rows))
+      );
+    }),
+
   stringifyStream: (dataStream, options = {}) =>
     Stream.chunks(dataStream).pipe(
       Stream.mapEffect((chunk) =>
@@ -1,5 +1,6 @@
-import { Effect, Stream } from "effect";
-import type { ParseError, StringifyError } from "../errors.js";
+import type { Effect, Stream } from "effect";
+import type { ColumnMapping } from "../columns.js";
+import type { ParseError, StringifyError, WorkbookError } from "../errors.js";
 
 /**
  * Options for CSV parsing
@@ -13,6 +14,8 @@ export type ParseOptions = {
   readonly quote?: string; // Quote character (default: ")
   readonly escape?: string; // Escape character (default: ")
   readonly comment?: string; // Comment character (skip lines)
+  readonly errorMode?: "fail" | "collect"; // Default: "fail" (see parse)
+  readonly columns?: ColumnMapping; // Map columns to schema fields
 };
 
 /**
@@ -24,6 +27,18 @@ export type StringifyOptions = {
   readonly quote?: string | boolean; // Quote all fields or auto
   readonly escape?: string; // Escape character
   readonly lineEnding?: "\n" | "\r\n"; // Line ending (default: \n)
+  readonly columns?: ColumnMapping; // Map schema fields back to columns
+};
+
+/**
+ * A parsed CSV record with its position in the input
+ */
+export type CsvRow = {
+  readonly row: number; // 1-indexed record number (header excluded)
+  readonly line: number; // 1-indexed line the record starts on
+  readonly raw: string; // Record text as it appears in the input
+  readonly data: unknown; // Object keyed by header, or array of fields
+  readonly error?: ParseError | undefined; // Set when the record is malformed
 };
 
 /**
@@ -40,6 +55,15 @@ export interface CsvBackend {
     options?: ParseOptions
   ) => Effect.Effect<ReadonlyArray<unknown>, ParseError>;
 
+  /**
+   * Parse CSV record by record, reporting malformed records on the row
+   * instead of failing. Fails only if the input cannot be read at all.
+   */
+  readonly parseRows: (
+    input: string | Buffer,
+    options?: ParseOptions
+  ) => Effect.Effect<ReadonlyArray<CsvRow>, ParseError>;
+
   /**
    * Stringify array of records to CSV string
    */
@@ -56,6 +80,14 @@ export interface CsvBackend {
     options?: ParseOptions
   ) => Stream.Stream<unknown, ParseError>;
 
+  /**
+   * Parse CSV as a stream of records, numbered across chunks
+   */
+  readonly parseRowsStream: (
+    input: Stream.Stream<string, ParseError>,
+    options?: ParseOptions
+  ) => Stream.Stream<CsvRow, ParseError>;
+
   /**
    * Stringify data as a CSV stream
    */
@@ -64,3 +96,53 @@ export interface CsvBackend {
     options?: StringifyOptions
   ) => Stream.Stream<string, StringifyError>;
 }
+
+/**
+ * A typed spreadsheet cell value. Dates are cells whose number format
+ * displays a date or time.
+ */
+export type CellValue = string | number | boolean | Date;
+
+/**
+ * A non-empty sheet row. `cells` is indexed by 0-based column, with
+ * `undefined` for blank cells.
+ */
+export type SheetRow = {
+  readonly row: number; // 1-indexed row number in the sheet
+  readonly cells: ReadonlyArray<CellValue | undefined>;
+};
+
+/**
+ * Workbook Backend Interface
+ *
+ * Reads and writes spreadsheet workbooks as grids of typed cells
+ */
+export interface WorkbookBackend {
+  /**
+   * Names of the sheets in a workbook, in tab order
+   */
+  readonly listSheets: (
+    input: Uint8Array
+  ) => Effect.Effect<ReadonlyArray<string>, WorkbookError>;
+
+  /**
+   * Read one sheet by name or 0-based index (default: the first sheet)
+   */
+  readonly readSheet: (
+    input: Uint8Array,
+    sheet?: string | number
+  ) => Effect.Effect<
+    { readonly name: string; readonly rows: ReadonlyArray<SheetRow> },
+    WorkbookError
+  >;
+
+  /**
+   * Write sheets of cell rows to a workbook, in order
+   */
+  readonly writeWorkbook: (
+    sheets: ReadonlyArray<{
+      readonly name: string;
+      readonly rows: ReadonlyArray<ReadonlyArray<CellValue | undefined>>;
+    }>
+  ) => Effect.Effect<Uint8Array, StringifyError>;
+}
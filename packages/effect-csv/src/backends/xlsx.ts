@@ -0,0 +1,51 @@
+import { Effect } from "effect";
+import { StringifyError, WorkbookError } from "../errors.js";
+import { CellError } from "../xlsx/cells.js";
+import { XlsxWorkbook } from "../xlsx/reader.js";
+import { writeXlsx } from "../xlsx/writer.js";
+import type { WorkbookBackend } from "./types.js";
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * XLSX (Office Open XML) Workbook Backend
+ *
+ * Reads shared, inline and rich-text strings, numbers, booleans and dates
+ * (from the cell's number format, in both 1900 and 1904 date systems)
+ */
+export const xlsx: WorkbookBackend = {
+  listSheets: (input) =>
+    Effect.try({
+      try: () => new XlsxWorkbook(input).sheets.map((sheet) => sheet.name),
+      catch: (error) =>
+        new WorkbookError({
+          message: toError(error).message,
+          cause: toError(error),
+        }),
+    }),
+
+  readSheet: (input, sheet) =>
+    Effect.try({
+      try: () => new XlsxWorkbook(input).readSheet(sheet),
+      catch: (error) =>
+        new WorkbookError({
+          message: toError(error).message,
+          sheet,
+          cell: error instanceof CellError ? error.cell : undefined,
+          cause: toError(error),
+        }),
+    }),
+
+  writeWorkbook: (sheets) =>
+    Effect.try({
+      try: () => writeXlsx(sheets),
+      catch: (error) =>
+        new StringifyError({
+          message: toError(error).message,
+          reason: error instanceof CellError ? "type_error" : "unknown",
+          cell: error instanceof CellError ? error.cell : undefined,
+          cause: toError(error),
+        }),
+    }),
+};
@@ -0,0 +1,82 @@
+import { Effect, Either, ParseResult, Schema, SchemaAST } from "effect";
+import type { CsvRow } from "./backends/types.js";
+import type { ParseError, ValidationError } from "./errors.js";
+import { validateAgainstSchema } from "./schema.js";
+
+/**
+ * A record left out of the result in `errorMode: "collect"`
+ */
+export interface RejectedRow {
+  readonly row: number; // 1-indexed record number (header excluded)
+  readonly line: number; // 1-indexed line the record starts on
+  readonly raw: string; // Record text as it appears in the input
+  readonly error: ParseError | ValidationError;
+}
+
+/**
+ * Result of parsing with `errorMode: "collect"`
+ */
+export interface CollectedRows<A> {
+  readonly valid: readonly A[];
+  readonly rejected: readonly RejectedRow[];
+}
+
+/**
+ * The schema for one record of an array schema. `Schema.Array(Item)`
+ * yields `Item`; other array schemas decode a one-record array.
+ */
+export const rowSchema = <A, R>(
+  schema: Schema.Schema<readonly A[], unknown, R>
+): Schema.Schema<A, unknown, R> => {
+  const ast = schema.ast;
+  if (
+    SchemaAST.isTupleType(ast) &&
+    ast.elements.length === 0 &&
+    ast.rest.length === 1 &&
+    ast.rest[0]
+  ) {
+    return Schema.make(ast.rest[0].type) as Schema.Schema<A, unknown, R>;
+  }
+  const decodeRecords = ParseResult.decodeUnknown(schema);
+  return Schema.transformOrFail(Schema.Unknown, Schema.Unknown, {
+    strict: true,
+    decode: (record) =>
+      decodeRecords([record]).pipe(Effect.map(([value]) => value)),
+    encode: ParseResult.succeed,
+  }) as unknown as Schema.Schema<A, unknown, R>;
+};
+
+/**
+ * Validate one record, turning parse and schema failures into a rejection
+ */
+export const validateRow = <A, R>(
+  schema: Schema.Schema<A, unknown, R>,
+  row: CsvRow
+): Effect.Effect<Either.Either<A, RejectedRow>, never, R> => {
+  const reject = (error: ParseError | ValidationError): RejectedRow => ({
+    row: row.row,
+    line: row.line,
+    raw: row.raw,
+    error,
+  });
+  return row.error
+    ? Effect.succeed(Either.left(reject(row.error)))
+    : validateAgainstSchema(schema, row.data).pipe(
+        Effect.mapError(reject),
+        Effect.either
+      );
+};
+
+/**
+ * Validate every record, keeping the valid ones and collecting the rest
+ */
+export const collectRows = <A, R>(
+  schema: Schema.Schema<A, unknown, R>,
+  rows: readonly CsvRow[]
+): Effect.Effect<CollectedRows<A>, never, R> =>
+  Effect.forEach(rows, (row) => validateRow(schema, row)).pipe(
+    Effect.map((results) => ({
+      valid: results.filter(Either.isRight).map((result) => result.right),
+      rejected: results.filter(Either.isLeft).map((result) => result.left),
+    }))
+  );
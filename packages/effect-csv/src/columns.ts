@@ -0,0 +1,200 @@
+import { Option } from "effect";
+import type {
+  CsvRow,
+  ParseOptions,
+  StringifyOptions,
+} from "./backends/types.js";
+
+/**
+ * How one schema field maps to a CSV column
+ */
+export interface ColumnSpec {
+  readonly header?: string | readonly string[]; // Header and aliases; the first is written
+  readonly index?: number; // 0-based column position (for header-less files)
+  readonly missing?: readonly string[]; // Sentinels read as Option.none, e.g. ["N/A", ""]
+  readonly decode?: (value: string) => unknown; // Applied to the cell before schema decode
+  readonly encode?: (value: unknown) => unknown; // Applied to the value before writing
+}
+
+/**
+ * Column specs keyed by schema field name, in the vendor's column order
+ */
+export type ColumnMapping = Readonly<Record<string, ColumnSpec>>;
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase();
+
+const headerNames = (field: string, spec: ColumnSpec): readonly string[] => {
+  if (spec.header === undefined) {
+    return [field];
+  }
+  return typeof spec.header === "string" ? [spec.header] : spec.header;
+};
+
+/**
+ * The record key a field is read from: the first alias present (ignoring
+ * case and surrounding spaces), else the column at `index`
+ */
+const findKey = (
+  keys: readonly string[],
+  field: string,
+  spec: ColumnSpec
+): string | undefined => {
+  const normalized = keys.map(normalizeHeader);
+  for (const name of headerNames(field, spec)) {
+    const position = normalized.indexOf(normalizeHeader(name));
+    if (position !== -1) {
+      return keys[position];
+    }
+  }
+  return spec.index === undefined ? undefined : keys[spec.index];
+};
+
+const readCell = (value: unknown, spec: ColumnSpec): unknown => {
+  const text = typeof value === "string" ? value : String(value);
+  if (spec.missing?.includes(text.trim())) {
+    return Option.none();
+  }
+  const decoded = spec.decode ? spec.decode(text) : value;
+  return spec.missing ? Option.some(decoded) : decoded;
+};
+
+const writeCell = (value: unknown, spec: ColumnSpec): unknown => {
+  if (Option.isOption(value)) {
+    return Option.isNone(value)
+      ? (spec.missing?.[0] ?? "")
+      : writeCell(value.value, spec);
+  }
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return spec.encode ? spec.encode(value) : value;
+};
+
+const mapCells = (
+  cells: readonly unknown[],
+  mapping: ColumnMapping
+): Record<string, unknown> => {
+  const mapped: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(mapping)) {
+    const value = spec.index === undefined ? undefined : cells[spec.index];
+    if (value !== undefined) {
+      mapped[field] = readCell(value, spec);
+    }
+  }
+  return mapped;
+};
+
+const mapFields = (
+  fields: Readonly<Record<string, unknown>>,
+  mapping: ColumnMapping
+): Record<string, unknown> => {
+  const keys = Object.keys(fields);
+  const claimed = new Set<string>();
+  const mapped: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(mapping)) {
+    const key = findKey(keys, field, spec);
+    if (key !== undefined && fields[key] !== undefined) {
+      claimed.add(key);
+      mapped[field] = readCell(fields[key], spec);
+    }
+  }
+  for (const key of keys) {
+    if (!(claimed.has(key) || key in mapped)) {
+      mapped[key] = fields[key];
+    }
+  }
+  return mapped;
+};
+
+/**
+ * Rename a parsed record's columns to schema fields. Object records (with
+ * a header) keep their unmapped columns; array records (without one) are
+ * read by `index` only.
+ */
+export const mapRecord = (record: unknown, mapping: ColumnMapping): unknown => {
+  if (Array.isArray(record)) {
+    return mapCells(record, mapping);
+  }
+  if (typeof record === "object" && record !== null) {
+    return mapFields(record as Readonly<Record<string, unknown>>, mapping);
+  }
+  return record;
+};
+
+/**
+ * Lay out a record for writing: mapped fields under their first header
+ * name, in mapping order (or `index` order), then any unmapped fields.
+ * Without a header, records become arrays placed by `index`.
+ */
+export const unmapRecord = (
+  record: unknown,
+  mapping: ColumnMapping,
+  header: boolean
+): unknown => {
+  const fields = (record ?? {}) as Readonly<Record<string, unknown>>;
+  const columns = Object.entries(mapping)
+    .map(([field, spec], order) => ({
+      field,
+      spec,
+      position: spec.index ?? order,
+    }))
+    .sort((a, b) => a.position - b.position);
+  if (!header) {
+    const cells: unknown[] = [];
+    for (const { field, spec, position } of columns) {
+      cells[position] = writeCell(fields[field], spec);
+    }
+    return Array.from(cells, (cell) => cell ?? "");
+  }
+  const written: Record<string, unknown> = {};
+  for (const { field, spec } of columns) {
+    const [name = field] = headerNames(field, spec);
+    written[name] = writeCell(fields[field], spec);
+  }
+  for (const [field, value] of Object.entries(fields)) {
+    if (!(field in mapping)) {
+      written[field] = value;
+    }
+  }
+  return written;
+};
+
+/**
+ * Apply `options.columns` to parsed records, if given
+ */
+export const mapRecords = (
+  records: readonly unknown[],
+  options?: ParseOptions
+): readonly unknown[] => {
+  const mapping = options?.columns;
+  return mapping
+    ? records.map((record) => mapRecord(record, mapping))
+    : records;
+};
+
+/**
+ * Apply `options.columns` to the data of parsed rows, if given
+ */
+export const mapRows = (
+  rows: readonly CsvRow[],
+  options?: ParseOptions
+): readonly CsvRow[] => {
+  const mapping = options?.columns;
+  return mapping
+    ? rows.map((row) => ({ ...row, data: mapRecord(row.data, mapping) }))
+    : rows;
+};
+
+/**
+ * Lay out records for writing with `options.columns`, if given
+ */
+export const unmapRecords = (
+  records: readonly unknown[],
+  options?: StringifyOptions
+): readonly unknown[] => {
+  const mapping = options?.columns;
+  const header = options?.header ?? true;
+  return mapping
+    ? records.map((record) => unmapRecord(record, mapping, header))
+    : records;
+};
@@ -23,6 +23,7 @@ export class ValidationError extends Data.TaggedError("ValidationError")<{
   readonly fieldPath: string; // e.g., "users.0.email"
   readonly expected: unknown;
   readonly actual: unknown;
+  readonly cell?: string | undefined; // e.g., "B17" (workbooks only)
   readonly cause?: Error | undefined;
 }> {}
 
@@ -32,6 +33,7 @@ export class ValidationError extends Data.TaggedError("ValidationError")<{
 export class StringifyError extends Data.TaggedError("StringifyError")<{
   readonly message: string;
   readonly reason: "schema_mismatch" | "type_error" | "unknown";
+  readonly cell?: string | undefined; // e.g., "B17" (workbooks only)
   readonly cause?: Error | undefined;
 }> {}
 
@@ -55,3 +57,15 @@ export class DelimiterError extends Data.TaggedError("DelimiterError")<{
   readonly providedDelimiter?: string | undefined;
   readonly cause?: Error | undefined;
 }> {}
+
+/**
+ * WorkbookError - Unable to read a spreadsheet workbook
+ *
+ * e.g., not an XLSX file, missing sheet, undecodable cell
+ */
+export class WorkbookError extends Data.TaggedError("WorkbookError")<{
+  readonly message: string;
+  readonly sheet?: string | number | undefined;
+  readonly cell?: string | undefined; // e.g., "B17"
+  readonly cause?: Error | undefined;
+}> {}
@@ -5,24 +5,41 @@
  */
 
 // Convenience Functions
-export { parse, stringify, parseTsv, stringifyTsv } from "./api.js";
-
+export type { CollectOptions, FailOptions } from "./api.js";
+export { parse, parseTsv, stringify, stringifyTsv } from "./api.js";
+export { ods } from "./backends/ods.js";
+export { papaParse } from "./backends/papaparse.js";
+// Backends (for advanced usage)
+export type {
+  CellValue,
+  CsvBackend,
+  CsvRow,
+  ParseOptions,
+  SheetRow,
+  StringifyOptions,
+  WorkbookBackend,
+} from "./backends/types.js";
+export { xlsx } from "./backends/xlsx.js";
+export type { CollectedRows, RejectedRow } from "./collect.js";
+// Column Mapping
+export type { ColumnMapping, ColumnSpec } from "./columns.js";
 // Errors
 export {
-  ParseError,
-  ValidationError,
-  StringifyError,
   CsvStructureError,
   DelimiterError,
+  ParseError,
+  StringifyError,
+  ValidationError,
+  WorkbookError,
 } from "./errors.js";
-
 // Schema Utilities (for advanced usage)
 export { validateAgainstSchema, validateForStringify } from "./schema.js";
-
-// Backends (for advanced usage)
+// Dialect Detection
+export type { CsvDialect, SniffOptions } from "./sniff.js";
+export { sniff } from "./sniff.js";
 export type {
-  CsvBackend,
-  ParseOptions,
-  StringifyOptions,
-} from "./backends/types.js";
-export { papaParse } from "./backends/papaparse.js";
+  ParseSheetOptions,
+  StringifyWorkbookOptions,
+} from "./workbook.js";
+// Workbooks (XLSX and ODS)
+export { listSheets, parseSheet, stringifyWorkbook } from "./workbook.js";
@@ -0,0 +1,254 @@
+import type { Element, Node } from "@xmldom/xmldom";
+import { strFromU8, type Unzipped, unzipSync } from "fflate";
+import type { CellValue, SheetRow } from "../backends/types.js";
+import { CellError, cellRef } from "../xlsx/cells.js";
+import { child, children, parseXml } from "../xlsx/reader.js";
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const OFFICE_NAMESPACE = "urn:oasis:names:tc:opendocument:xmlns:office:1.0";
+const TABLE_NAMESPACE = "urn:oasis:names:tc:opendocument:xmlns:table:1.0";
+const TEXT_NAMESPACE = "urn:oasis:names:tc:opendocument:xmlns:text:1.0";
+const TIME_ZONE_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/;
+const DURATION_PATTERN =
+  /^(-)?P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+const WHITESPACE_RUN_PATTERN = /[ \t\r\n]+/g;
+const MS_PER_SECOND = 1000;
+const SECONDS_PER_MINUTE = 60;
+const SECONDS_PER_HOUR = 3600;
+const SECONDS_PER_DAY = 86_400;
+/** Times of day are read as dates on the spreadsheet epoch, like XLSX */
+const EPOCH = Date.UTC(1899, 11, 30);
+
+/** Cells of a row; covered cells are hidden by a merged cell */
+const CELL_ELEMENTS: ReadonlySet<string> = new Set([
+  "table-cell",
+  "covered-table-cell",
+]);
+
+/** Elements grouping rows inside a table */
+const ROW_GROUPS: ReadonlySet<string> = new Set([
+  "table-header-rows",
+  "table-rows",
+  "table-row-group",
+]);
+
+const repeated = (element: Element, attribute: string): number =>
+  Math.max(
+    1,
+    Number(element.getAttributeNS(TABLE_NAMESPACE, attribute) ?? "1") || 1
+  );
+
+/** Rows of a table, including those inside header rows and row groups */
+const tableRows = (table: Element): Element[] =>
+  Array.from(table.childNodes)
+    .filter((node): node is Element => node.nodeType === ELEMENT_NODE)
+    .flatMap((element) => {
+      if (element.localName === "table-row") {
+        return [element];
+      }
+      return ROW_GROUPS.has(element.localName ?? "") ? tableRows(element) : [];
+    });
+
+/**
+ * Text of a paragraph: runs of whitespace collapse to one space, while
+ * `<text:s>`, `<text:tab>` and `<text:line-break>` spell out spaces, tabs and
+ * line breaks
+ */
+const paragraphText = (node: Node): string =>
+  Array.from(node.childNodes)
+    .map((item) => {
+      if (item.nodeType === TEXT_NODE) {
+        return (item.nodeValue ?? "").replace(WHITESPACE_RUN_PATTERN, " ");
+      }
+      if (item.nodeType !== ELEMENT_NODE) {
+        return "";
+      }
+      const element = item as Element;
+      switch (element.localName) {
+        case "s":
+          return " ".repeat(
+            Number(element.getAttributeNS(TEXT_NAMESPACE, "c") ?? "1") || 1
+          );
+        case "tab":
+          return "\t";
+        case "line-break":
+          return "\n";
+        default:
+          return paragraphText(element);
+      }
+    })
+    .join("");
+
+const parseDate = (raw: string, ref: string): Date => {
+  // Dates without a time zone are read as UTC, like XLSX serials
+  const date = new Date(TIME_ZONE_PATTERN.test(raw) ? raw : `${raw}Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new CellError(`Invalid date "${raw}"`, ref);
+  }
+  return date;
+};
+
+const parseTime = (raw: string, ref: string): Date => {
+  const match = DURATION_PATTERN.exec(raw);
+  if (!match) {
+    throw new CellError(`Invalid time "${raw}"`, ref);
+  }
+  const [, sign, days, hours, minutes, seconds] = match;
+  const total =
+    Number(days ?? 0) * SECONDS_PER_DAY +
+    Number(hours ?? 0) * SECONDS_PER_HOUR +
+    Number(minutes ?? 0) * SECONDS_PER_MINUTE +
+    Number(seconds ?? 0);
+  return new Date(EPOCH + (sign ? -1 : 1) * Math.round(total * MS_PER_SECOND));
+};
+
+const parseNumber = (raw: string | null, ref: string): number => {
+  const value = Number(raw ?? "");
+  if (raw === null || raw.trim() === "" || Number.isNaN(value)) {
+    throw new CellError(`Invalid number "${raw ?? ""}"`, ref);
+  }
+  return value;
+};
+
+/**
+ * Typed value of a cell from its `office:value-type`; cells without one
+ * are blank
+ */
+const readCell = (cell: Element, ref: string): CellValue | undefined => {
+  const attribute = (name: string) =>
+    cell.getAttributeNS(OFFICE_NAMESPACE, name);
+  switch (attribute("value-type")) {
+    case "float":
+    case "percentage":
+    case "currency":
+      return parseNumber(attribute("value"), ref);
+    case "boolean":
+      return attribute("boolean-value") === "true";
+    case "date":
+      return parseDate(attribute("date-value") ?? "", ref);
+    case "time":
+      return parseTime(attribute("time-value") ?? "", ref);
+    case "string":
+      return (
+        attribute("string-value") ??
+        children(cell, "p").map(paragraphText).join("\n")
+      );
+    default:
+      return;
+  }
+};
+
+/**
+ * A workbook opened from ODS (OpenDocument Spreadsheet) bytes
+ */
+export class OdsWorkbook {
+  readonly sheets: readonly string[];
+  private readonly tables: readonly Element[];
+
+  constructor(bytes: Uint8Array) {
+    let files: Unzipped;
+    try {
+      files = unzipSync(bytes);
+    } catch (error) {
+      throw new Error(
+        `Not an ODS workbook: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const content = files["content.xml"];
+    if (!content) {
+      throw new Error("Not an ODS workbook: missing content.xml");
+    }
+    const document = parseXml(strFromU8(content), "content.xml");
+    const body = child(document, "body");
+    const spreadsheet = body && child(body, "spreadsheet");
+    if (!spreadsheet) {
+      throw new Error("Not an ODS workbook: content.xml has no spreadsheet");
+    }
+    this.tables = children(spreadsheet, "table");
+    this.sheets = this.tables.map(
+      (table) => table.getAttributeNS(TABLE_NAMESPACE, "name") ?? ""
+    );
+  }
+
+  /**
+   * Read a sheet by name or 0-based index, defaulting to the first sheet.
+   * Rows without any value are skipped.
+   *
+   * @throws Error if the sheet does not exist
+   * @throws CellError if a cell cannot be decoded
+   */
+  readSheet(selector: string | number | undefined): {
+    readonly name: string;
+    readonly rows: readonly SheetRow[];
+  } {
+    const index = this.findSheet(selector);
+    const name = this.sheets[index] ?? "";
+    try {
+      return { name, rows: this.readRows(this.tables[index] as Element) };
+    } catch (error) {
+      throw error instanceof CellError ? error.inSheet(name) : error;
+    }
+  }
+
+  private readRows(table: Element): SheetRow[] {
+    const rows: SheetRow[] = [];
+    let rowNumber = 1;
+    for (const row of tableRows(table)) {
+      const count = repeated(row, "number-rows-repeated");
+      const cells = this.readRow(row, rowNumber);
+      if (cells.some((cell) => cell !== undefined)) {
+        for (let offset = 0; offset < count; offset++) {
+          rows.push({
+            row: rowNumber + offset,
+            cells: offset === 0 ? cells : this.readRow(row, rowNumber + offset),
+          });
+        }
+      }
+      // Trailing blank rows are often repeated to the sheet's last row
+      rowNumber += count;
+    }
+    return rows;
+  }
+
+  private readRow(row: Element, rowNumber: number): (CellValue | undefined)[] {
+    const cells: (CellValue | undefined)[] = [];
+    let column = 0;
+    const rowCells = Array.from(row.childNodes).filter(
+      (node): node is Element =>
+        node.nodeType === ELEMENT_NODE &&
+        CELL_ELEMENTS.has((node as Element).localName ?? "")
+    );
+    for (const cell of rowCells) {
+      const count = repeated(cell, "number-columns-repeated");
+      const value = readCell(cell, cellRef(column, rowNumber));
+      if (value !== undefined) {
+        for (let offset = 0; offset < count; offset++) {
+          cells[column + offset] = value;
+        }
+      }
+      column += count;
+    }
+    return Array.from(cells);
+  }
+
+  private findSheet(selector: string | number | undefined): number {
+    if (typeof selector === "number") {
+      if (selector < 0 || selector >= this.sheets.length) {
+        throw new Error(
+          `No sheet at index ${selector}; the workbook has ${this.sheets.length} sheets`
+        );
+      }
+      return selector;
+    }
+    const index = selector === undefined ? 0 : this.sheets.indexOf(selector);
+    if (index === -1 || index >= this.sheets.length) {
+      throw new Error(
+        selector === undefined
+          ? "The workbook has no sheets"
+          : `No sheet named "${selector}"; the workbook has: ${this.sheets.join(", ")}`
+      );
+    }
+    return index;
+  }
+}
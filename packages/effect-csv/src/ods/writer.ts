@@ -0,0 +1,162 @@
+import { strToU8, zipSync } from "fflate";
+import type { CellValue } from "../backends/types.js";
+import { CellError, cellRef } from "../xlsx/cells.js";
+import { validateSheetName } from "../xlsx/writer.js";
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+const MIME_TYPE = "application/vnd.oasis.opendocument.spreadsheet";
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+].join(" ");
+
+const XML_SPECIAL_PATTERN = /[&<>"]/g;
+/** Leading spaces, and spaces after the first of a run, are spelled out */
+const SPACES_PATTERN = /^ +| {2,}/g;
+const MS_PER_DAY = 86_400_000;
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+
+/** Cell styles `ce1` (date) and `ce2` (date and time) */
+const STYLES = [
+  '<number:date-style style:name="N1"><number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/><number:text>-</number:text><number:day number:style="long"/></number:date-style>',
+  '<number:date-style style:name="N2"><number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/><number:text>-</number:text><number:day number:style="long"/><number:text> </number:text><number:hours number:style="long"/><number:text>:</number:text><number:minutes number:style="long"/><number:text>:</number:text><number:seconds number:style="long"/></number:date-style>',
+  '<style:style style:name="ce1" style:family="table-cell" style:data-style-name="N1"/>',
+  '<style:style style:name="ce2" style:family="table-cell" style:data-style-name="N2"/>',
+].join("");
+
+const MANIFEST = `${XML_DECLARATION}<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2"><manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${MIME_TYPE}"/><manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/></manifest:manifest>`;
+
+/** XML 1.0 cannot hold control characters other than tab and line feed */
+const hasControlCharacter = (text: string): boolean =>
+  Array.from(text).some((character) => {
+    const code = character.charCodeAt(0);
+    return code < 0x20 && code !== 0x09 && code !== 0x0a;
+  });
+
+const escapeXml = (text: string): string =>
+  text.replace(
+    XML_SPECIAL_PATTERN,
+    (character) => XML_ENTITIES[character] ?? ""
+  );
+
+/**
+ * One `<text:p>` per line. Readers collapse whitespace in paragraphs, so
+ * extra spaces and tabs are written as `<text:s>` and `<text:tab>`.
+ */
+const paragraphs = (text: string): string =>
+  text
+    .split("\n")
+    .map((line) => {
+      const encoded = escapeXml(line)
+        .replace(SPACES_PATTERN, (spaces, offset: number) =>
+          offset === 0
+            ? `<text:s text:c="${spaces.length}"/>`
+            : ` <text:s text:c="${spaces.length - 1}"/>`
+        )
+        .replaceAll("\t", "<text:tab/>");
+      return `<text:p>${encoded}</text:p>`;
+    })
+    .join("");
+
+const numberCell = (ref: string, value: number): string => {
+  if (!Number.isFinite(value)) {
+    throw new CellError(`Cannot write ${value} to a workbook`, ref);
+  }
+  return `<table:table-cell office:value-type="float" office:value="${value}"/>`;
+};
+
+const dateCell = (ref: string, value: Date): string => {
+  if (Number.isNaN(value.getTime())) {
+    throw new CellError("Cannot write an invalid date", ref);
+  }
+  // ODS dates have no time zone; they are written and read back as UTC
+  const iso = value.toISOString().slice(0, -1);
+  const style = value.getTime() % MS_PER_DAY === 0 ? "ce1" : "ce2";
+  return `<table:table-cell table:style-name="${style}" office:value-type="date" office:date-value="${iso}"/>`;
+};
+
+const stringCell = (ref: string, value: string): string => {
+  if (hasControlCharacter(value)) {
+    throw new CellError("Cannot write control characters to an ODS cell", ref);
+  }
+  return `<table:table-cell office:value-type="string">${paragraphs(value)}</table:table-cell>`;
+};
+
+const cellXml = (ref: string, value: CellValue | undefined): string => {
+  if (value === undefined) {
+    return "<table:table-cell/>";
+  }
+  if (typeof value === "string") {
+    return stringCell(ref, value);
+  }
+  if (typeof value === "number") {
+    return numberCell(ref, value);
+  }
+  if (typeof value === "boolean") {
+    return `<table:table-cell office:value-type="boolean" office:boolean-value="${value}"/>`;
+  }
+  return dateCell(ref, value);
+};
+
+const tableXml = (
+  name: string,
+  rows: readonly (readonly (CellValue | undefined)[])[]
+): string => {
+  const columns = Math.max(1, ...rows.map((cells) => cells.length));
+  const rowsXml = rows.map((cells, index) => {
+    const cellsXml = Array.from(cells, (value, column) =>
+      cellXml(cellRef(column, index + 1), value)
+    ).join("");
+    return `<table:table-row>${cellsXml || "<table:table-cell/>"}</table:table-row>`;
+  });
+  return `<table:table table:name="${escapeXml(name)}"><table:table-column table:number-columns-repeated="${columns}"/>${rowsXml.join("")}</table:table>`;
+};
+
+/**
+ * Build an ODS (OpenDocument Spreadsheet) package with one table per
+ * entry, in order. Dates are written without a time zone, as UTC.
+ *
+ * @throws Error if a sheet name is invalid or repeated
+ * @throws CellError if a value cannot be stored in a cell
+ */
+export const writeOds = (
+  sheets: readonly {
+    readonly name: string;
+    readonly rows: readonly (readonly (CellValue | undefined)[])[];
+  }[]
+): Uint8Array => {
+  const seen = new Set<string>();
+  for (const { name } of sheets) {
+    validateSheetName(name);
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`Duplicate sheet name "${name}"`);
+    }
+    seen.add(name.toLowerCase());
+  }
+
+  const tables = sheets.map((sheet) => {
+    try {
+      return tableXml(sheet.name, sheet.rows);
+    } catch (error) {
+      throw error instanceof CellError ? error.inSheet(sheet.name) : error;
+    }
+  });
+
+  // The mimetype entry must come first and be stored uncompressed
+  return zipSync({
+    mimetype: [strToU8(MIME_TYPE), { level: 0 }],
+    "META-INF/manifest.xml": strToU8(MANIFEST),
+    "content.xml": strToU8(
+      `${XML_DECLARATION}<office:document-content ${NAMESPACES} office:version="1.2"><office:automatic-styles>${STYLES}</office:automatic-styles><office:body><office:spreadsheet>${tables.join("")}</office:spreadsheet></office:body></office:document-content>`
+    ),
+  });
+};
@@ -0,0 +1,374 @@
+import { Effect } from "effect";
+import { DelimiterError } from "./errors.js";
+
+const DELIMITERS = [",", ";", "\t", "|", ":"] as const;
+const QUOTES = ['"', "'"] as const;
+const DEFAULT_SAMPLE_SIZE = 64 * 1024;
+const UTF16_PROBE_SIZE = 4096;
+const BYTE_ORDER_MARK = "\uFEFF";
+
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?)?/;
+const CRLF_PATTERN = /\r\n/g;
+const LF_PATTERN = /(?<!\r)\n/g;
+const CR_PATTERN = /\r(?!\n)/g;
+
+/**
+ * Options for sniffing
+ */
+export interface SniffOptions {
+  readonly sampleSize?: number; // Bytes or characters to inspect (default: 64 KiB)
+}
+
+/**
+ * The dialect of a CSV input, as detected by `sniff`
+ */
+export interface CsvDialect {
+  readonly delimiter: string;
+  readonly quote: string;
+  readonly header: boolean; // Whether the first row looks like a header
+  readonly encoding: "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+  readonly bom: boolean; // Whether the input starts with a byte order mark
+  readonly lineEnding: "\n" | "\r\n" | "\r";
+  readonly confidence: number; // 0 to 1: how consistently rows split
+}
+
+type Encoding = CsvDialect["encoding"];
+
+/**
+ * Splits text into records for one delimiter and quote candidate. The
+ * sample may end mid-record, so an unterminated last record is dropped.
+ */
+class RecordSplitter {
+  readonly records: string[][] = [];
+  quotedFields = 0;
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private fields: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  private fieldStart = true;
+
+  constructor(delimiter: string, quote: string) {
+    this.delimiter = delimiter;
+    this.quote = quote;
+  }
+
+  split(text: string, complete: boolean): readonly string[][] {
+    let index = 0;
+    while (index < text.length) {
+      index = this.inQuotes
+        ? this.quotedCharacter(text, index)
+        : this.character(text, index);
+    }
+    if (complete && !this.inQuotes) {
+      this.endRecord();
+    }
+    return this.records;
+  }
+
+  private quotedCharacter(text: string, index: number): number {
+    if (text[index] !== this.quote) {
+      this.field += text[index];
+      return index + 1;
+    }
+    if (text[index + 1] === this.quote) {
+      this.field += this.quote;
+      return index + 2;
+    }
+    this.inQuotes = false;
+    return index + 1;
+  }
+
+  private character(text: string, index: number): number {
+    const character = text[index] ?? "";
+    if (character === this.quote && this.fieldStart) {
+      this.inQuotes = true;
+      this.fieldStart = false;
+      this.quotedFields++;
+      return index + 1;
+    }
+    if (character === this.delimiter) {
+      this.endField();
+      return index + 1;
+    }
+    if (character === "\r" || character === "\n") {
+      this.endRecord();
+      return index + (text.startsWith("\r\n", index) ? 2 : 1);
+    }
+    this.field += character;
+    this.fieldStart = false;
+    return index + 1;
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = "";
+    this.fieldStart = true;
+  }
+
+  private endRecord(): void {
+    this.endField();
+    const blank = this.fields.length === 1 && this.fields[0] === "";
+    if (!blank) {
+      this.records.push(this.fields);
+    }
+    this.fields = [];
+  }
+}
+
+interface Candidate {
+  readonly delimiter: string;
+  readonly quote: string;
+  readonly records: readonly string[][];
+  readonly fieldCount: number; // Most common number of fields per record
+  readonly consistency: number; // Share of records with that many fields
+  readonly quotedFields: number;
+}
+
+const evaluate = (
+  text: string,
+  complete: boolean,
+  delimiter: string,
+  quote: string
+): Candidate => {
+  const splitter = new RecordSplitter(delimiter, quote);
+  const records = splitter.split(text, complete);
+  const counts = new Map<number, number>();
+  for (const record of records) {
+    counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+  }
+  let fieldCount = 0;
+  let frequency = 0;
+  for (const [count, seen] of counts) {
+    if (seen > frequency || (seen === frequency && count > fieldCount)) {
+      fieldCount = count;
+      frequency = seen;
+    }
+  }
+  return {
+    delimiter,
+    quote,
+    records,
+    fieldCount,
+    consistency: records.length === 0 ? 0 : frequency / records.length,
+    quotedFields: splitter.quotedFields,
+  };
+};
+
+/**
+ * Rank candidates: rows that split consistently into several fields, then
+ * more fields, then more quoted fields. Earlier candidates win ties.
+ */
+const isBetter = (candidate: Candidate, best: Candidate): boolean => {
+  const score = candidate.fieldCount > 1 ? candidate.consistency : 0;
+  const bestScore = best.fieldCount > 1 ? best.consistency : 0;
+  if (score !== bestScore) {
+    return score > bestScore;
+  }
+  if (candidate.fieldCount !== best.fieldCount) {
+    return candidate.fieldCount > best.fieldCount;
+  }
+  return candidate.quotedFields > best.quotedFields;
+};
+
+const bestCandidate = (text: string, complete: boolean): Candidate => {
+  const [first, ...others] = DELIMITERS.flatMap((delimiter) =>
+    QUOTES.map((quote) => evaluate(text, complete, delimiter, quote))
+  );
+  let best = first as Candidate;
+  for (const candidate of others) {
+    if (isBetter(candidate, best)) {
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+const valueKind = (value: string): string => {
+  const trimmed = value.trim();
+  if (NUMBER_PATTERN.test(trimmed)) {
+    return "number";
+  }
+  if (BOOLEAN_PATTERN.test(trimmed)) {
+    return "boolean";
+  }
+  return DATE_PATTERN.test(trimmed) ? "date" : "text";
+};
+
+/**
+ * How strongly a column suggests the first row is a header: +1 when the
+ * first cell differs in kind or length from a uniform body, -1 when it
+ * matches, 0 when the body says nothing.
+ */
+const columnVote = (heading: string, body: readonly string[]): number => {
+  const [kind, ...otherKinds] = new Set(body.map(valueKind));
+  if (kind !== undefined && kind !== "text" && otherKinds.length === 0) {
+    return valueKind(heading) === kind ? -1 : 1;
+  }
+  const [length, ...otherLengths] = new Set(body.map((value) => value.length));
+  if (length !== undefined && otherLengths.length === 0) {
+    return heading.length === length ? -1 : 1;
+  }
+  return 0;
+};
+
+const looksLikeHeader = (row: readonly string[]): boolean =>
+  new Set(row).size === row.length &&
+  row.every((cell) => cell.trim() !== "" && valueKind(cell) === "text");
+
+const detectHeader = (records: readonly string[][]): boolean => {
+  const [first, ...body] = records;
+  if (!first) {
+    return false;
+  }
+  let votes = 0;
+  for (const [column, heading] of first.entries()) {
+    const values = body
+      .map((record) => record[column] ?? "")
+      .filter((value) => value.trim() !== "");
+    votes += columnVote(heading, values);
+  }
+  return votes > 0 || (votes === 0 && looksLikeHeader(first));
+};
+
+const detectLineEnding = (text: string): CsvDialect["lineEnding"] => {
+  const crlf = text.match(CRLF_PATTERN)?.length ?? 0;
+  const lf = text.match(LF_PATTERN)?.length ?? 0;
+  const cr = text.match(CR_PATTERN)?.length ?? 0;
+  if (crlf >= lf && crlf >= cr && crlf > 0) {
+    return "\r\n";
+  }
+  return cr > lf ? "\r" : "\n";
+};
+
+/**
+ * Guess the encoding of bytes without a byte order mark: UTF-16 shows up
+ * as zero bytes in every other position, and anything that is not valid
+ * UTF-8 is taken to be Windows-1252.
+ */
+const guessEncoding = (bytes: Uint8Array): Encoding => {
+  const probe = bytes.subarray(0, UTF16_PROBE_SIZE);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (const [index, byte] of probe.entries()) {
+    if (byte === 0 && index % 2 === 0) {
+      evenZeros++;
+    } else if (byte === 0) {
+      oddZeros++;
+    }
+  }
+  const pairs = Math.max(Math.floor(probe.length / 2), 1);
+  if (oddZeros / pairs > 0.3 && oddZeros > evenZeros) {
+    return "utf-16le";
+  }
+  if (evenZeros / pairs > 0.3) {
+    return "utf-16be";
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+};
+
+const byteOrderMark = (
+  bytes: Uint8Array
+): { readonly encoding: Encoding; readonly length: number } | undefined => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: "utf-8", length: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: "utf-16le", length: 2 };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: "utf-16be", length: 2 };
+  }
+  return;
+};
+
+const decodeSample = (
+  input: string | Uint8Array,
+  sampleSize: number
+): {
+  readonly text: string;
+  readonly complete: boolean;
+  readonly encoding: Encoding;
+  readonly bom: boolean;
+} => {
+  if (typeof input === "string") {
+    const bom = input.startsWith(BYTE_ORDER_MARK);
+    const text = input.slice(bom ? 1 : 0, sampleSize + (bom ? 1 : 0));
+    return {
+      text,
+      complete: text.length + (bom ? 1 : 0) >= input.length,
+      encoding: "utf-8",
+      bom,
+    };
+  }
+  const mark = byteOrderMark(input);
+  const bytes = input.subarray(mark?.length ?? 0);
+  const encoding = mark?.encoding ?? guessEncoding(bytes);
+  const sample = bytes.subarray(0, sampleSize);
+  return {
+    text: new TextDecoder(encoding).decode(sample, { stream: true }),
+    complete: sample.length === bytes.length,
+    encoding,
+    bom: mark !== undefined,
+  };
+};
+
+/**
+ * Detect the dialect of a CSV input: delimiter, quote character, whether
+ * the first row is a header, encoding and byte order mark (for bytes;
+ * strings are reported as UTF-8), and line endings.
+ *
+ * The delimiter and quote are the candidates that split the sampled rows
+ * into the most consistent number of fields. `confidence` is the share of
+ * rows with that number of fields, halved when the sample holds a single
+ * row or no delimiter splits it.
+ *
+ * @example
+ * ```typescript
+ * const dialect = await Effect.runPromise(sniff(buffer))
+ * // { delimiter: ";", quote: '"', header: true, encoding: "utf-8",
+ * //   bom: true, lineEnding: "\r\n", confidence: 1 }
+ *
+ * const rows = await Effect.runPromise(
+ *   parse(Schema, buffer, {
+ *     delimiter: dialect.delimiter,
+ *     quote: dialect.quote,
+ *     header: dialect.header
+ *   })
+ * )
+ * ```
+ */
+export const sniff = (
+  input: string | Uint8Array,
+  options?: SniffOptions
+): Effect.Effect<CsvDialect, DelimiterError> =>
+  Effect.suspend(() => {
+    const sample = decodeSample(
+      input,
+      options?.sampleSize ?? DEFAULT_SAMPLE_SIZE
+    );
+    const best = bestCandidate(sample.text, sample.complete);
+    if (best.records.length === 0) {
+      return Effect.fail(
+        new DelimiterError({ message: "Cannot sniff an input with no rows" })
+      );
+    }
+    const certain = best.fieldCount > 1 && best.records.length > 1;
+    return Effect.succeed({
+      delimiter: best.delimiter,
+      quote: best.quote,
+      header: detectHeader(best.records),
+      encoding: sample.encoding,
+      bom: sample.bom,
+      lineEnding: detectLineEnding(sample.text),
+      confidence:
+        Math.round(best.consistency * (certain ? 1 : 0.5) * 100) / 100,
+    });
+  });
@@ -0,0 +1,254 @@
+import { Effect, ParseResult, type Schema } from "effect";
+import type { CellValue, SheetRow, WorkbookBackend } from "./backends/types.js";
+import { xlsx } from "./backends/xlsx.js";
+import {
+  StringifyError,
+  ValidationError,
+  type WorkbookError,
+} from "./errors.js";
+import { validateAgainstSchema } from "./schema.js";
+import { cellRef, columnName } from "./xlsx/cells.js";
+
+/**
+ * Options for reading a sheet
+ */
+export interface ParseSheetOptions {
+  readonly sheet?: string | number; // Name or 0-based index (default: first)
+  readonly header?: boolean; // Map first row to object keys (default: true)
+}
+
+/**
+ * Options for writing a workbook
+ */
+export interface StringifyWorkbookOptions {
+  readonly header?: boolean; // Header row for object rows (default: true)
+}
+
+/**
+ * Rows as handed to the schema, with the sheet position of each value
+ */
+interface SheetTable {
+  readonly records: readonly unknown[];
+  readonly rowNumbers: readonly number[];
+  readonly columns: ReadonlyMap<string, number>;
+}
+
+/**
+ * Header labels keyed to their columns. Blank headers fall back to the
+ * column letter and repeated ones get a `_1`, `_2`... suffix.
+ */
+const headerColumns = (
+  cells: ReadonlyArray<CellValue | undefined>
+): Map<string, number> => {
+  const columns = new Map<string, number>();
+  for (const [column, cell] of cells.entries()) {
+    const label =
+      cell === undefined
+        ? columnName(column)
+        : String(cell instanceof Date ? cell.toISOString() : cell).trim();
+    let key = label;
+    for (let suffix = 1; columns.has(key); suffix++) {
+      key = `${label}_${suffix}`;
+    }
+    columns.set(key, column);
+  }
+  return columns;
+};
+
+const toTable = (rows: readonly SheetRow[], header: boolean): SheetTable => {
+  if (!header) {
+    return {
+      records: rows.map((row) => row.cells),
+      rowNumbers: rows.map((row) => row.row),
+      columns: new Map(),
+    };
+  }
+  const [first, ...body] = rows;
+  const columns = headerColumns(first?.cells ?? []);
+  return {
+    // Blank cells are left out so optional fields decode as missing
+    records: body.map((row) =>
+      Object.fromEntries(
+        [...columns]
+          .map(([key, column]) => [key, row.cells[column]] as const)
+          .filter(([, value]) => value !== undefined)
+      )
+    ),
+    rowNumbers: body.map((row) => row.row),
+    columns,
+  };
+};
+
+/**
+ * Point a validation error at the cell holding the offending value
+ */
+const locateError = (
+  error: ValidationError,
+  table: SheetTable,
+  sheet: string
+): ValidationError => {
+  const parseError = error.cause as unknown;
+  if (!ParseResult.isParseError(parseError)) {
+    return error;
+  }
+  const [issue] = ParseResult.ArrayFormatter.formatErrorSync(parseError);
+  const [index, key] = issue?.path ?? [];
+  const row = typeof index === "number" ? table.rowNumbers[index] : undefined;
+  const column = typeof key === "number" ? key : table.columns.get(String(key));
+  if (row === undefined || column === undefined) {
+    return error;
+  }
+  const cell = cellRef(column, row);
+  return new ValidationError({
+    message: `${error.message} (sheet "${sheet}", cell ${cell})`,
+    fieldPath: issue?.path.join(".") ?? error.fieldPath,
+    expected: error.expected,
+    actual: error.actual,
+    cell,
+    cause: error.cause,
+  });
+};
+
+/**
+ * List the sheet names of a workbook, in tab order
+ */
+export const listSheets = (
+  input: Uint8Array,
+  backend: WorkbookBackend = xlsx
+): Effect.Effect<readonly string[], WorkbookError> => backend.listSheets(input);
+
+/**
+ * Parse a workbook sheet with schema validation
+ *
+ * Cells keep their spreadsheet types: numbers, booleans, strings and
+ * `Date`s for date-formatted cells, so use `Schema.Number` and
+ * `Schema.DateFromSelf` rather than their `FromString` variants.
+ * Validation errors carry the reference of the offending cell.
+ *
+ * @example
+ * ```typescript
+ * const SalesSchema = Schema.Array(
+ *   Schema.Struct({
+ *     region: Schema.String,
+ *     amount: Schema.Number,
+ *     closed: Schema.DateFromSelf
+ *   })
+ * )
+ *
+ * const sales = await Effect.runPromise(
+ *   parseSheet(SalesSchema, xlsxBuffer, { sheet: "Q1" })
+ * )
+ * ```
+ */
+export const parseSheet = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: Uint8Array,
+  options?: ParseSheetOptions,
+  backend: WorkbookBackend = xlsx
+): Effect.Effect<A, WorkbookError | ValidationError, R> =>
+  backend.readSheet(input, options?.sheet).pipe(
+    Effect.flatMap((sheet) => {
+      const table = toTable(sheet.rows, options?.header ?? true);
+      return validateAgainstSchema(
+        // biome-ignore lint/suspicious/noExplicitAny: schema typing is generic
+        schema as any,
+        table.records
+      ).pipe(Effect.mapError((error) => locateError(error, table, sheet.name)));
+    })
+  ) as Effect.Effect<A, WorkbookError | ValidationError, R>;
+
+const toCellValue = (
+  value: unknown,
+  sheet: string,
+  cell: string
+): CellValue | undefined => {
+  if (value === null || value === undefined) {
+    return;
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  if (typeof value === "bigint") {
+    return Number(value);
+  }
+  throw new StringifyError({
+    message: `Cannot write a value of type ${typeof value} to a workbook (sheet "${sheet}", cell ${cell})`,
+    reason: "type_error",
+    cell,
+  });
+};
+
+/**
+ * Lay out rows as cell grids: arrays as they are, objects under a header
+ * row of every key seen, in first-seen order.
+ */
+const toGrid = (
+  sheet: string,
+  rows: readonly unknown[],
+  header: boolean
+): ReadonlyArray<ReadonlyArray<CellValue | undefined>> => {
+  if (rows.every(Array.isArray)) {
+    return rows.map((cells, index) =>
+      (cells as readonly unknown[]).map((value, column) =>
+        toCellValue(value, sheet, cellRef(column, index + 1))
+      )
+    );
+  }
+  if (!rows.every((row) => typeof row === "object" && row !== null)) {
+    throw new StringifyError({
+      message: `Rows of sheet "${sheet}" must all be arrays or all be objects`,
+      reason: "schema_mismatch",
+    });
+  }
+  const records = rows as readonly Readonly<Record<string, unknown>>[];
+  const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const offset = header ? 2 : 1;
+  const body = records.map((record, index) =>
+    keys.map((key, column) =>
+      toCellValue(record[key], sheet, cellRef(column, index + offset))
+    )
+  );
+  return header ? [keys, ...body] : body;
+};
+
+/**
+ * Write rows to an XLSX workbook with one sheet per entry, in order
+ *
+ * Rows are either arrays of cells or objects, whose keys become a header
+ * row. Cells may be strings, numbers, booleans, `Date`s or empty
+ * (`null`/`undefined`).
+ *
+ * @example
+ * ```typescript
+ * const bytes = await Effect.runPromise(
+ *   stringifyWorkbook({
+ *     Users: [{ id: 1, name: "Alice", joined: new Date("2024-01-15") }],
+ *     Totals: [["Total", 1]]
+ *   })
+ * )
+ * ```
+ */
+export const stringifyWorkbook = (
+  sheets: Readonly<Record<string, readonly unknown[]>>,
+  options?: StringifyWorkbookOptions,
+  backend: WorkbookBackend = xlsx
+): Effect.Effect<Uint8Array, StringifyError> =>
+  Effect.try({
+    try: () =>
+      Object.entries(sheets).map(([name, rows]) => ({
+        name,
+        rows: toGrid(name, rows, options?.header ?? true),
+      })),
+    catch: (error) =>
+      error instanceof StringifyError
+        ? error
+        : new StringifyError({
+            message: String(error),
+            reason: "unknown",
+          }),
+  }).pipe(Effect.flatMap(backend.writeWorkbook));
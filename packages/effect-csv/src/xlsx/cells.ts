@@ -0,0 +1,123 @@
+/**
+ * Cell references, serial dates and number formats shared by the XLSX
+ * reader and writer
+ */
+
+const CELL_REF_PATTERN = /^\$?([A-Z]{1,3})\$?(\d+)$/i;
+const MS_PER_DAY = 86_400_000;
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+/**
+ * Excel treats 1900 as a leap year, so serials before 1 March 1900
+ * (serial 61) are one day off from the real calendar
+ */
+const FIRST_SERIAL_AFTER_LEAP_BUG = 61;
+
+/**
+ * Error about a single cell, carrying its A1-style reference
+ */
+export class CellError extends Error {
+  readonly reason: string;
+  readonly cell: string;
+  readonly sheet: string | undefined;
+
+  constructor(reason: string, cell: string, sheet?: string) {
+    super(
+      sheet === undefined
+        ? `${reason} (cell ${cell})`
+        : `${reason} (sheet "${sheet}", cell ${cell})`
+    );
+    this.reason = reason;
+    this.cell = cell;
+    this.sheet = sheet;
+  }
+
+  inSheet(sheet: string): CellError {
+    return new CellError(this.reason, this.cell, sheet);
+  }
+}
+
+/**
+ * Column letters for a 0-based column index: 0 → A, 25 → Z, 26 → AA
+ */
+export const columnName = (index: number): string => {
+  let name = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + digit) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return name;
+};
+
+/**
+ * 0-based column index for column letters: A → 0, AA → 26
+ */
+export const columnIndex = (name: string): number => {
+  let index = 0;
+  for (const letter of name.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * A1-style reference for a 0-based column and 1-based row
+ */
+export const cellRef = (column: number, row: number): string =>
+  `${columnName(column)}${row}`;
+
+/**
+ * Split an A1-style reference into a 0-based column and 1-based row
+ */
+export const parseCellRef = (
+  ref: string
+): { readonly column: number; readonly row: number } | undefined => {
+  const match = CELL_REF_PATTERN.exec(ref);
+  if (!(match?.[1] && match[2])) {
+    return;
+  }
+  return { column: columnIndex(match[1]), row: Number(match[2]) };
+};
+
+export const serialToDate = (serial: number, date1904: boolean): Date => {
+  if (date1904) {
+    return new Date(EPOCH_1904 + Math.round(serial * MS_PER_DAY));
+  }
+  const days = serial < FIRST_SERIAL_AFTER_LEAP_BUG ? serial + 1 : serial;
+  return new Date(EPOCH_1900 + Math.round(days * MS_PER_DAY));
+};
+
+export const dateToSerial = (date: Date): number => {
+  const serial = (date.getTime() - EPOCH_1900) / MS_PER_DAY;
+  return serial < FIRST_SERIAL_AFTER_LEAP_BUG ? serial - 1 : serial;
+};
+
+/** Built-in number formats that display dates or times */
+const BUILTIN_DATE_FORMATS: ReadonlySet<number> = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+const QUOTED_PATTERN = /"[^"]*"/g;
+const ESCAPED_PATTERN = /\\./g;
+const BRACKETED_PATTERN = /\[[^\]]*\]/g;
+const DATE_TOKEN_PATTERN = /[dmyhs]/i;
+
+/**
+ * Whether a number format displays its value as a date or time. Literal
+ * text, escapes and bracketed sections (colours, locales, elapsed time)
+ * are ignored.
+ */
+export const isDateFormat = (id: number, code: string | undefined): boolean => {
+  if (code === undefined) {
+    return BUILTIN_DATE_FORMATS.has(id);
+  }
+  const tokens = code
+    .split(";")[0]
+    ?.replace(QUOTED_PATTERN, "")
+    .replace(ESCAPED_PATTERN, "")
+    .replace(BRACKETED_PATTERN, "");
+  return tokens !== undefined && DATE_TOKEN_PATTERN.test(tokens);
+};
@@ -0,0 +1,316 @@
+import { posix } from "node:path";
+import { DOMParser, type Element, onErrorStopParsing } from "@xmldom/xmldom";
+import { strFromU8, type Unzipped, unzipSync } from "fflate";
+import type { CellValue, SheetRow } from "../backends/types.js";
+import {
+  CellError,
+  cellRef,
+  isDateFormat,
+  parseCellRef,
+  serialToDate,
+} from "./cells.js";
+
+const ELEMENT_NODE = 1;
+const ESCAPED_CHARACTER_PATTERN = /_x([0-9A-Fa-f]{4})_/g;
+const OFFICE_DOCUMENT_TYPE_PATTERN = /\/officeDocument$/;
+
+interface SheetEntry {
+  readonly name: string;
+  readonly path: string;
+}
+
+export const parseXml = (xml: string, path: string): Element => {
+  const document = new DOMParser({
+    onError: onErrorStopParsing,
+  }).parseFromString(xml, "text/xml");
+  if (!document.documentElement) {
+    throw new Error(`${path} is not valid XML`);
+  }
+  return document.documentElement;
+};
+
+export const children = (element: Element, localName: string): Element[] =>
+  Array.from(element.childNodes).filter(
+    (child): child is Element =>
+      child.nodeType === ELEMENT_NODE &&
+      (child as Element).localName === localName
+  );
+
+export const child = (
+  element: Element,
+  localName: string
+): Element | undefined => children(element, localName)[0];
+
+export const descendants = (element: Element, localName: string): Element[] =>
+  Array.from(element.getElementsByTagNameNS("*", localName));
+
+/** Undo the `_xHHHH_` escapes OOXML uses for characters XML cannot hold */
+const unescapeText = (text: string): string =>
+  text.replace(ESCAPED_CHARACTER_PATTERN, (_, hex: string) =>
+    String.fromCharCode(Number.parseInt(hex, 16))
+  );
+
+/** Text of a shared or inline string: plain `<t>` or rich-text runs */
+const stringItemText = (item: Element): string => {
+  const plain = child(item, "t");
+  if (plain) {
+    return unescapeText(plain.textContent ?? "");
+  }
+  return children(item, "r")
+    .map((run) => unescapeText(child(run, "t")?.textContent ?? ""))
+    .join("");
+};
+
+/** Resolve a relationship target against the part that references it */
+const resolveTarget = (fromPart: string, target: string): string =>
+  target.startsWith("/")
+    ? target.slice(1)
+    : posix.normalize(posix.join(posix.dirname(fromPart), target));
+
+const relationshipsPath = (part: string): string =>
+  posix.join(posix.dirname(part), "_rels", `${posix.basename(part)}.rels`);
+
+/**
+ * A workbook opened from XLSX bytes. Only the parts a sheet needs are
+ * parsed when it is read.
+ */
+export class XlsxWorkbook {
+  readonly sheets: readonly SheetEntry[];
+  private readonly files: Unzipped;
+  private readonly workbookPath: string;
+  private readonly date1904: boolean;
+  private sharedStrings: readonly string[] | undefined;
+  private dateStyles: readonly boolean[] | undefined;
+
+  constructor(bytes: Uint8Array) {
+    try {
+      this.files = unzipSync(bytes);
+    } catch (error) {
+      throw new Error(
+        `Not an XLSX workbook: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    this.workbookPath = this.officeDocumentPath();
+    const workbook = parseXml(this.text(this.workbookPath), this.workbookPath);
+    const properties = child(workbook, "workbookPr");
+    const date1904 = properties?.getAttribute("date1904");
+    this.date1904 = date1904 === "1" || date1904 === "true";
+    this.sheets = this.sheetEntries(workbook);
+  }
+
+  /**
+   * Read a sheet by name or 0-based index, defaulting to the first sheet.
+   * Rows without any value are skipped.
+   *
+   * @throws Error if the sheet does not exist
+   * @throws CellError if a cell cannot be decoded
+   */
+  readSheet(selector: string | number | undefined): {
+    readonly name: string;
+    readonly rows: readonly SheetRow[];
+  } {
+    const entry = this.findSheet(selector);
+    try {
+      return { name: entry.name, rows: this.readRows(entry) };
+    } catch (error) {
+      throw error instanceof CellError ? error.inSheet(entry.name) : error;
+    }
+  }
+
+  private readRows(entry: SheetEntry): SheetRow[] {
+    const sheet = parseXml(this.text(entry.path), entry.path);
+    const data = child(sheet, "sheetData");
+    const rows: SheetRow[] = [];
+    let rowNumber = 0;
+    for (const row of data ? children(data, "row") : []) {
+      rowNumber = Number(row.getAttribute("r")) || rowNumber + 1;
+      const cells = this.readRow(row, rowNumber);
+      if (cells.some((cell) => cell !== undefined)) {
+        rows.push({ row: rowNumber, cells });
+      }
+    }
+    return rows;
+  }
+
+  private readRow(row: Element, rowNumber: number): (CellValue | undefined)[] {
+    const cells: (CellValue | undefined)[] = [];
+    let column = -1;
+    for (const cell of children(row, "c")) {
+      const position = parseCellRef(cell.getAttribute("r") ?? "");
+      column = position ? position.column : column + 1;
+      cells[column] = this.readCell(cell, cellRef(column, rowNumber));
+    }
+    return Array.from(cells);
+  }
+
+  private readCell(cell: Element, ref: string): CellValue | undefined {
+    const type = cell.getAttribute("t") ?? "n";
+    if (type === "inlineStr") {
+      const inline = child(cell, "is");
+      return inline ? stringItemText(inline) : undefined;
+    }
+    const raw = child(cell, "v")?.textContent;
+    if (raw === undefined || raw === null || raw === "") {
+      return;
+    }
+    switch (type) {
+      case "s": {
+        const text = this.sharedString(Number(raw));
+        if (text === undefined) {
+          throw new CellError(`Missing shared string ${raw}`, ref);
+        }
+        return text;
+      }
+      case "str":
+      case "e":
+        return unescapeText(raw);
+      case "b":
+        return raw === "1" || raw === "true";
+      case "d":
+        return this.parseIsoDate(raw, ref);
+      default:
+        return this.parseNumber(cell, raw, ref);
+    }
+  }
+
+  private parseNumber(cell: Element, raw: string, ref: string): number | Date {
+    const value = Number(raw);
+    if (Number.isNaN(value)) {
+      throw new CellError(`Invalid number "${raw}"`, ref);
+    }
+    const style = Number(cell.getAttribute("s") ?? "0");
+    return this.isDateStyle(style) ? serialToDate(value, this.date1904) : value;
+  }
+
+  private parseIsoDate(raw: string, ref: string): Date {
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      throw new CellError(`Invalid date "${raw}"`, ref);
+    }
+    return date;
+  }
+
+  private findSheet(selector: string | number | undefined): SheetEntry {
+    const names = this.sheets.map((sheet) => sheet.name).join(", ");
+    if (typeof selector === "number") {
+      const entry = this.sheets[selector];
+      if (!entry) {
+        throw new Error(
+          `No sheet at index ${selector}; the workbook has ${this.sheets.length} sheets`
+        );
+      }
+      return entry;
+    }
+    const entry =
+      selector === undefined
+        ? this.sheets[0]
+        : this.sheets.find((sheet) => sheet.name === selector);
+    if (!entry) {
+      throw new Error(
+        selector === undefined
+          ? "The workbook has no sheets"
+          : `No sheet named "${selector}"; the workbook has: ${names}`
+      );
+    }
+    return entry;
+  }
+
+  private text(path: string): string {
+    const bytes = this.files[path];
+    if (!bytes) {
+      throw new Error(`Not an XLSX workbook: missing ${path}`);
+    }
+    return strFromU8(bytes);
+  }
+
+  private relationships(part: string): ReadonlyMap<string, Element> {
+    const path = relationshipsPath(part);
+    if (!this.files[path]) {
+      return new Map();
+    }
+    return new Map(
+      descendants(parseXml(this.text(path), path), "Relationship").map(
+        (relationship) => [relationship.getAttribute("Id") ?? "", relationship]
+      )
+    );
+  }
+
+  private officeDocumentPath(): string {
+    for (const relationship of this.relationships("").values()) {
+      const type = relationship.getAttribute("Type") ?? "";
+      if (OFFICE_DOCUMENT_TYPE_PATTERN.test(type)) {
+        return resolveTarget("", relationship.getAttribute("Target") ?? "");
+      }
+    }
+    return "xl/workbook.xml";
+  }
+
+  private sheetEntries(workbook: Element): SheetEntry[] {
+    const relationships = this.relationships(this.workbookPath);
+    return descendants(workbook, "sheet").map((sheet) => {
+      const name = sheet.getAttribute("name") ?? "";
+      const id =
+        sheet.getAttributeNS(
+          "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+          "id"
+        ) ?? sheet.getAttribute("r:id");
+      const target = relationships.get(id ?? "")?.getAttribute("Target");
+      if (!target) {
+        throw new Error(`Not an XLSX workbook: sheet "${name}" has no part`);
+      }
+      return { name, path: resolveTarget(this.workbookPath, target) };
+    });
+  }
+
+  private partOfType(type: string): string | undefined {
+    for (const relationship of this.relationships(this.workbookPath).values()) {
+      if ((relationship.getAttribute("Type") ?? "").endsWith(`/${type}`)) {
+        return resolveTarget(
+          this.workbookPath,
+          relationship.getAttribute("Target") ?? ""
+        );
+      }
+    }
+    return;
+  }
+
+  private sharedString(index: number): string | undefined {
+    if (this.sharedStrings === undefined) {
+      const path = this.partOfType("sharedStrings");
+      this.sharedStrings =
+        path && this.files[path]
+          ? descendants(parseXml(this.text(path), path), "si").map(
+              stringItemText
+            )
+          : [];
+    }
+    return this.sharedStrings[index];
+  }
+
+  private isDateStyle(index: number): boolean {
+    if (this.dateStyles === undefined) {
+      this.dateStyles = this.readDateStyles();
+    }
+    return this.dateStyles[index] ?? false;
+  }
+
+  /** For each cell style, whether its number format shows a date */
+  private readDateStyles(): readonly boolean[] {
+    const path = this.partOfType("styles");
+    if (!(path && this.files[path])) {
+      return [];
+    }
+    const styles = parseXml(this.text(path), path);
+    const formats = new Map(
+      descendants(styles, "numFmt").map((format) => [
+        Number(format.getAttribute("numFmtId")),
+        format.getAttribute("formatCode") ?? "",
+      ])
+    );
+    const cellFormats = child(styles, "cellXfs");
+    return (cellFormats ? children(cellFormats, "xf") : []).map((format) => {
+      const id = Number(format.getAttribute("numFmtId") ?? "0");
+      return isDateFormat(id, formats.get(id));
+    });
+  }
+}
@@ -0,0 +1,196 @@
+import { strToU8, zipSync } from "fflate";
+import type { CellValue } from "../backends/types.js";
+import { CellError, cellRef, dateToSerial } from "./cells.js";
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NAMESPACE =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NAMESPACE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NAMESPACE =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/** Sheet names are limited to 31 characters and may not contain these */
+const INVALID_SHEET_NAME_PATTERN = /[[\]:*?/\\]/;
+const MAX_SHEET_NAME_LENGTH = 31;
+const XML_SPECIAL_PATTERN = /[&<>"]/g;
+const ESCAPE_LIKE_PATTERN = /_(x[0-9A-Fa-f]{4}_)/g;
+const LEADING_OR_TRAILING_SPACE_PATTERN = /^\s|\s$/;
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+
+/** Style indexes in the generated styles part */
+const DATE_STYLE = 1;
+const DATE_TIME_STYLE = 2;
+const MS_PER_DAY = 86_400_000;
+
+const STYLES = `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NAMESPACE}"><fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+const escapeXml = (text: string): string =>
+  text.replace(
+    XML_SPECIAL_PATTERN,
+    (character) => XML_ENTITIES[character] ?? ""
+  );
+
+/**
+ * Escape characters XML 1.0 cannot hold as `_xHHHH_`, and literal text
+ * that looks like such an escape, so it reads back unchanged
+ */
+const encodeText = (text: string): string =>
+  escapeXml(
+    Array.from(text.replace(ESCAPE_LIKE_PATTERN, "_x005F_$1"), (character) => {
+      const code = character.charCodeAt(0);
+      const allowed = code >= 0x20 || code === 0x09 || code === 0x0a;
+      return allowed
+        ? character
+        : `_x${code.toString(16).toUpperCase().padStart(4, "0")}_`;
+    }).join("")
+  );
+
+export const validateSheetName = (name: string): void => {
+  if (name.trim() === "") {
+    throw new Error("Sheet names cannot be empty");
+  }
+  if (name.length > MAX_SHEET_NAME_LENGTH) {
+    throw new Error(
+      `Sheet name "${name}" is longer than ${MAX_SHEET_NAME_LENGTH} characters`
+    );
+  }
+  if (INVALID_SHEET_NAME_PATTERN.test(name)) {
+    throw new Error(`Sheet name "${name}" contains one of [ ] : * ? / \\`);
+  }
+};
+
+const numberCell = (ref: string, value: number, style?: number): string => {
+  if (!Number.isFinite(value)) {
+    throw new CellError(`Cannot write ${value} to a workbook`, ref);
+  }
+  const styleAttribute = style === undefined ? "" : ` s="${style}"`;
+  return `<c r="${ref}"${styleAttribute}><v>${value}</v></c>`;
+};
+
+const dateCell = (ref: string, value: Date): string => {
+  if (Number.isNaN(value.getTime())) {
+    throw new CellError("Cannot write an invalid date", ref);
+  }
+  const serial = dateToSerial(value);
+  if (serial < 0) {
+    throw new CellError("Cannot write a date before 1900", ref);
+  }
+  const style =
+    value.getTime() % MS_PER_DAY === 0 ? DATE_STYLE : DATE_TIME_STYLE;
+  return numberCell(ref, serial, style);
+};
+
+const stringCell = (ref: string, value: string): string => {
+  const space = LEADING_OR_TRAILING_SPACE_PATTERN.test(value)
+    ? ' xml:space="preserve"'
+    : "";
+  return `<c r="${ref}" t="inlineStr"><is><t${space}>${encodeText(value)}</t></is></c>`;
+};
+
+const cellXml = (ref: string, value: CellValue): string => {
+  if (typeof value === "string") {
+    return stringCell(ref, value);
+  }
+  if (typeof value === "number") {
+    return numberCell(ref, value);
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return dateCell(ref, value);
+};
+
+const sheetXml = (rows: readonly (readonly (CellValue | undefined)[])[]) => {
+  const rowsXml = rows.map((cells, index) => {
+    const row = index + 1;
+    const cellsXml = cells
+      .map((value, column) =>
+        value === undefined ? "" : cellXml(cellRef(column, row), value)
+      )
+      .join("");
+    return `<row r="${row}">${cellsXml}</row>`;
+  });
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NAMESPACE}"><sheetData>${rowsXml.join("")}</sheetData></worksheet>`;
+};
+
+/**
+ * Build an XLSX package with one worksheet per entry, in order. Strings
+ * are written inline, and dates as serial numbers with a date format.
+ *
+ * @throws Error if a sheet name is invalid or repeated
+ * @throws CellError if a value cannot be stored in a cell
+ */
+export const writeXlsx = (
+  sheets: readonly {
+    readonly name: string;
+    readonly rows: readonly (readonly (CellValue | undefined)[])[];
+  }[]
+): Uint8Array => {
+  const seen = new Set<string>();
+  for (const { name } of sheets) {
+    validateSheetName(name);
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`Duplicate sheet name "${name}"`);
+    }
+    seen.add(name.toLowerCase());
+  }
+
+  const worksheets = Object.fromEntries(
+    sheets.map((sheet, index) => {
+      try {
+        return [
+          `xl/worksheets/sheet${index + 1}.xml`,
+          strToU8(sheetXml(sheet.rows)),
+        ];
+      } catch (error) {
+        throw error instanceof CellError ? error.inSheet(sheet.name) : error;
+      }
+    })
+  );
+  const sheetEntries = sheets
+    .map(
+      (sheet, index) =>
+        `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join("");
+  const sheetRelationships = sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_TYPE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join("");
+  const sheetOverrides = sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+  const stylesId = `rId${sheets.length + 1}`;
+
+  return zipSync({
+    "[Content_Types].xml": strToU8(
+      `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetOverrides}</Types>`
+    ),
+    "_rels/.rels": strToU8(
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}"><Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    ),
+    "xl/workbook.xml": strToU8(
+      `${XML_DECLARATION}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}"><sheets>${sheetEntries}</sheets></workbook>`
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">${sheetRelationships}<Relationship Id="${stylesId}" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/></Relationships>`
+    ),
+    "xl/styles.xml": strToU8(STYLES),
+    ...worksheets,
+  });
+};
@@ -0,0 +1,110 @@
+import { Effect, Either, Layer } from "effect";
+import { JsonService } from "effect-json";
+import { describe, expect, it } from "vitest";
+import { HtmlError } from "../errors.js";
+import { HtmlService, HtmlServiceLayer } from "../service.js";
+
+const TestLayer = HtmlServiceLayer.pipe(Layer.provide(JsonService.Default));
+
+const run = <A>(f: (html: HtmlService) => Effect.Effect<A, HtmlError>) =>
+  Effect.runPromise(
+    Effect.either(HtmlService.pipe(Effect.flatMap(f))).pipe(
+      Effect.provide(TestLayer)
+    )
+  );
+
+const articlePage = `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>Understanding Fibers | Example Blog</title>
+  <script>window.analytics = {};</script>
+</head>
+<body>
+  <header class="site-header">
+    <a href="/">Example Blog</a>
+    <nav><a href="/posts">Posts</a> <a href="/about">About</a></nav>
+  </header>
+  <div class="layout">
+    <div class="sidebar">
+      <h3>Popular posts</h3>
+      <ul>
+        <li><a href="/a">Ten tips for faster builds</a></li>
+        <li><a href="/b">Why we moved to a monorepo</a></li>
+      </ul>
+    </div>
+    <article class="post-content">
+      <h1>Understanding Fibers</h1>
+      <p>Fibers are lightweight threads of execution, scheduled cooperatively by the runtime rather than by the operating system.</p>
+      <p>Because they are cheap, a program can start thousands of them, interrupt them safely, and wait for their results without blocking.</p>
+      <div class="ad-banner">Buy our course today, limited offer!</div>
+      <p>In the next post, we will look at how structured concurrency keeps fibers from leaking, and why that matters for servers.</p>
+    </article>
+  </div>
+  <div class="comments">
+    <p>Great post, thanks for writing this up! I learned a lot about fibers today.</p>
+  </div>
+  <footer>© 2026 Example Blog · <a href="/privacy">Privacy</a></footer>
+</body>
+</html>`;
+
+describe("HtmlService.extractMainContent", () => {
+  it("should keep the article and drop boilerplate", async () => {
+    const result = await run((html) => html.extractMainContent(articlePage));
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      const content = result.right;
+      expect(content.title).toBe("Understanding Fibers | Example Blog");
+      expect(content.text).toContain("Fibers are lightweight threads");
+      expect(content.text).toContain("structured concurrency");
+      expect(content.html).toContain("<h1>Understanding Fibers</h1>");
+      for (const boilerplate of [
+        "Popular posts",
+        "Buy our course",
+        "Great post",
+        "Privacy",
+        "window.analytics",
+      ]) {
+        expect(content.text).not.toContain(boilerplate);
+      }
+      expect(content.wordCount).toBe(content.text.split(" ").length);
+    }
+  });
+
+  it("should find content in pages without semantic markup", async () => {
+    const page = `
+      <body>
+        <div id="menu"><a href="/">Home</a> | <a href="/shop">Shop</a></div>
+        <div id="main">
+          <div>
+            <p>The quick brown fox jumps over the lazy dog, again and again, until the dog finally wakes up.</p>
+            <p>Nobody knows why the fox is so persistent, but scholars have written at length about it.</p>
+          </div>
+        </div>
+        <div class="links">
+          <a href="/1">Link one</a> <a href="/2">Link two</a> <a href="/3">Link three</a>
+        </div>
+      </body>`;
+    const result = await run((html) => html.extractMainContent(page));
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      expect(result.right.text).toContain("quick brown fox");
+      expect(result.right.text).toContain("scholars");
+      expect(result.right.text).not.toContain("Shop");
+      expect(result.right.text).not.toContain("Link one");
+    }
+  });
+
+  it("should fail with an HtmlError when there is no content", async () => {
+    const result = await run((html) =>
+      html.extractMainContent(
+        "<html><body><nav><a href='/'>Home</a></nav><script>x()</script></body></html>"
+      )
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(HtmlError);
+      expect(result.left.reason).toContain("no text outside boilerplate");
+    }
+  });
+});
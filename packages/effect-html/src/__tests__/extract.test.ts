@@ -0,0 +1,212 @@
+import { Effect, Either, Layer } from "effect";
+import { JsonService } from "effect-json";
+import { describe, expect, it } from "vitest";
+import type { ExtractOptions } from "../extract.js";
+import { HtmlService, HtmlServiceLayer } from "../service.js";
+
+const TestLayer = HtmlServiceLayer.pipe(Layer.provide(JsonService.Default));
+
+const run = <A, E>(
+  f: (service: HtmlService) => Effect.Effect<A, E>
+): Promise<A> =>
+  Effect.runPromise(
+    HtmlService.pipe(Effect.flatMap(f), Effect.provide(TestLayer))
+  );
+
+const extractLinks = (html: string, options?: ExtractOptions) =>
+  run((service) => service.extractLinks(html, options));
+
+const extractImages = (html: string, options?: ExtractOptions) =>
+  run((service) => service.extractImages(html, options));
+
+const extractTables = (html: string) =>
+  run((service) => service.extractTables(html));
+
+describe("HtmlService.extractLinks", () => {
+  it("should resolve hrefs and report rel tokens", async () => {
+    const links = await extractLinks(
+      `<a href="/docs" title=" Guide ">Read  the
+         docs</a>
+       <a href="https://other.example/" rel="Nofollow noopener">Other</a>
+       <map><area href="plan.html" alt="Floor plan"></map>
+       <a name="anchor">No href</a>`,
+      { baseUrl: "https://example.com/blog/post" }
+    );
+    expect(links).toEqual([
+      {
+        href: "https://example.com/docs",
+        text: "Read the docs",
+        title: "Guide",
+        rel: [],
+        nofollow: false,
+      },
+      {
+        href: "https://other.example/",
+        text: "Other",
+        title: undefined,
+        rel: ["nofollow", "noopener"],
+        nofollow: true,
+      },
+      {
+        href: "https://example.com/blog/plan.html",
+        text: "Floor plan",
+        title: undefined,
+        rel: [],
+        nofollow: false,
+      },
+    ]);
+  });
+
+  it("should use the document's base and keep relative hrefs without one", async () => {
+    const withBase = await extractLinks(
+      `<base href="https://cdn.example/a/"><a href="b">B</a>`
+    );
+    const withoutBase = await extractLinks(`<a href="b">B</a>`);
+    expect(withBase.map((link) => link.href)).toEqual([
+      "https://cdn.example/a/b",
+    ]);
+    expect(withoutBase.map((link) => link.href)).toEqual(["b"]);
+  });
+
+  it("should fail on an invalid base URL", async () => {
+    const result = await run((service) =>
+      Effect.either(service.extractLinks("<a href='x'>x</a>", { baseUrl: "/" }))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("HtmlService.extractImages", () => {
+  it("should read sources, srcset candidates, alt text and dimensions", async () => {
+    const images = await extractImages(
+      `<img src="hero.jpg" alt="" width="640" height="50%"
+            srcset="hero-480.jpg 480w, hero-960.jpg 960w">
+       <img data-src="/lazy.png" alt="Lazy" width="100px" title="Later">
+       <img srcset="a.png, b.png 2x">
+       <img alt="no source">`,
+      { baseUrl: "https://example.com/posts/" }
+    );
+    expect(images).toEqual([
+      {
+        src: "https://example.com/posts/hero.jpg",
+        alt: "",
+        title: undefined,
+        width: 640,
+        height: undefined,
+        srcset: [
+          {
+            url: "https://example.com/posts/hero-480.jpg",
+            width: 480,
+            density: undefined,
+          },
+          {
+            url: "https://example.com/posts/hero-960.jpg",
+            width: 960,
+            density: undefined,
+          },
+        ],
+      },
+      {
+        src: "https://example.com/lazy.png",
+        alt: "Lazy",
+        title: "Later",
+        width: 100,
+        height: undefined,
+        srcset: [],
+      },
+      {
+        src: "https://example.com/posts/a.png",
+        alt: undefined,
+        title: undefined,
+        width: undefined,
+        height: undefined,
+        srcset: [
+          {
+            url: "https://example.com/posts/a.png",
+            width: undefined,
+            density: undefined,
+          },
+          {
+            url: "https://example.com/posts/b.png",
+            width: undefined,
+            density: 2,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should keep commas inside srcset URLs", async () => {
+    const [image] = await extractImages(
+      `<img srcset="img.php?size=1,2 1x,other.png 1.5x">`
+    );
+    expect(image?.srcset.map(({ url, density }) => [url, density])).toEqual([
+      ["img.php?size=1,2", 1],
+      ["other.png", 1.5],
+    ]);
+  });
+});
+
+describe("HtmlService.extractTables", () => {
+  it("should return headers from thead and pad short rows", async () => {
+    const tables = await extractTables(
+      `<table>
+         <caption> Prices </caption>
+         <thead><tr><th>Item</th><th>Price</th><th>Notes</th></tr></thead>
+         <tbody>
+           <tr><td>Tea</td><td>2.50</td><td>Hot, <b>fresh</b></td></tr>
+           <tr><td>Cake</td><td>3</td></tr>
+         </tbody>
+       </table>`
+    );
+    expect(tables).toEqual([
+      {
+        caption: "Prices",
+        headers: ["Item", "Price", "Notes"],
+        rows: [
+          ["Tea", "2.50", "Hot, fresh"],
+          ["Cake", "3", ""],
+        ],
+      },
+    ]);
+  });
+
+  it("should repeat spanned cells so rows line up", async () => {
+    const [table] = await extractTables(
+      `<table>
+         <tr><th>Region</th><th colspan="2">Sales</th></tr>
+         <tr><td rowspan="2">North</td><td>Q1</td><td>10</td></tr>
+         <tr><td>Q2</td><td>12</td></tr>
+         <tr><td>South</td><td>Q1</td><td rowspan="3">7</td></tr>
+         <tr><td>South</td><td>Q2</td></tr>
+       </table>`
+    );
+    expect(table?.headers).toEqual(["Region", "Sales", "Sales"]);
+    expect(table?.rows).toEqual([
+      ["North", "Q1", "10"],
+      ["North", "Q2", "12"],
+      ["South", "Q1", "7"],
+      ["South", "Q2", "7"],
+    ]);
+  });
+
+  it("should leave headers empty without a header row and separate nested tables", async () => {
+    const tables = await extractTables(
+      `<table>
+         <tr><td>a</td><td><table><tr><td>inner</td></tr></table></td></tr>
+       </table>`
+    );
+    expect(tables).toEqual([
+      { caption: undefined, headers: [], rows: [["a", "inner"]] },
+      { caption: undefined, headers: [], rows: [["inner"]] },
+    ]);
+  });
+
+  it("should extract tables with more rows than fit in a call's arguments", async () => {
+    const [table] = await extractTables(
+      `<table><tr><th>n</th></tr>${"<tr><td>1</td></tr>".repeat(200_000)}</table>`
+    );
+    expect(table?.headers).toEqual(["n"]);
+    expect(table?.rows).toHaveLength(200_000);
+  }, 60_000);
+});
@@ -15,6 +15,13 @@ describe("HtmlService", () => {
         <meta property="og:title" content="Open Graph Title">
         <meta property="og:type" content="website">
         <link rel="icon" href="/favicon.ico">
+        <meta name="twitter:card" content="summary_large_image">
+        <meta property="twitter:site" content="@effect">
+        <link rel="canonical" href="https://example.com/test">
+        <link rel="alternate" hreflang="de" href="https://example.com/de/test">
+        <link rel="alternate" hreflang="x-default" href="https://example.com/test">
+        <link rel="alternate" type="application/rss+xml" title="Blog" href="/feed.xml">
+        <link rel="alternate" type="application/atom+xml" href="/atom.xml">
         <script type="application/ld+json">
           {
             "@context": "https://schema.org",
@@ -60,6 +67,28 @@ describe("HtmlService", () => {
     expect(result.favicon).toBe("/favicon.ico");
   });
 
+  it("should extract Twitter cards, canonical URL, alternates and feeds", async () => {
+    const program = Effect.gen(function* () {
+      const htmlService = yield* HtmlService;
+      return yield* htmlService.extractMetadata(htmlContent);
+    }).pipe(Effect.provide(TestLayer));
+
+    const result = await Effect.runPromise(program);
+    expect(result.twitter).toEqual({
+      card: "summary_large_image",
+      site: "@effect",
+    });
+    expect(result.canonical).toBe("https://example.com/test");
+    expect(result.alternates).toEqual([
+      { hreflang: "de", href: "https://example.com/de/test" },
+      { hreflang: "x-default", href: "https://example.com/test" },
+    ]);
+    expect(result.feeds).toEqual([
+      { type: "application/rss+xml", href: "/feed.xml", title: "Blog" },
+      { type: "application/atom+xml", href: "/atom.xml", title: undefined },
+    ]);
+  });
+
   it("should extract JSON-LD correctly", async () => {
     const program = Effect.gen(function* () {
       const htmlService = yield* HtmlService;
@@ -0,0 +1,130 @@
+import { Effect, Either, Layer } from "effect";
+import { JsonService } from "effect-json";
+import { describe, expect, it } from "vitest";
+import { HtmlError } from "../errors.js";
+import type { MarkdownOptions } from "../markdown.js";
+import { HtmlService, HtmlServiceLayer } from "../service.js";
+
+const TestLayer = HtmlServiceLayer.pipe(Layer.provide(JsonService.Default));
+
+const toMarkdown = (html: string, options?: MarkdownOptions) =>
+  Effect.runPromise(
+    Effect.either(
+      HtmlService.pipe(
+        Effect.flatMap((service) => service.toMarkdown(html, options))
+      )
+    ).pipe(Effect.provide(TestLayer))
+  );
+
+const lines = (...parts: readonly string[]) => Either.right(parts.join("\n"));
+
+describe("HtmlService.toMarkdown", () => {
+  it("should convert headings, paragraphs and inline formatting", async () => {
+    const result = await toMarkdown(
+      `<h1>Title</h1>
+       <p>Some <strong>bold</strong>, <em>italic</em> and <code>code</code> text.</p>
+       <h3> Sub   heading </h3>
+       <p>Line one<br>Line two</p>
+       <hr>`
+    );
+    expect(result).toEqual(
+      lines(
+        "# Title",
+        "",
+        "Some **bold**, _italic_ and `code` text.",
+        "",
+        "### Sub heading",
+        "",
+        "Line one\\",
+        "Line two",
+        "",
+        "---"
+      )
+    );
+  });
+
+  it("should convert nested and ordered lists", async () => {
+    const result = await toMarkdown(
+      `<ul>
+         <li>First</li>
+         <li>Second
+           <ol start="3"><li>Three</li><li>Four</li></ol>
+         </li>
+       </ul>`
+    );
+    expect(result).toEqual(
+      lines("- First", "- Second", "", "  3. Three", "  4. Four")
+    );
+  });
+
+  it("should convert tables", async () => {
+    const result = await toMarkdown(
+      `<table>
+         <thead><tr><th>Name</th><th>Notes</th></tr></thead>
+         <tbody>
+           <tr><td>Ada</td><td>a | b</td></tr>
+           <tr><td>Grace</td></tr>
+         </tbody>
+       </table>`
+    );
+    expect(result).toEqual(
+      lines(
+        "| Name | Notes |",
+        "| --- | --- |",
+        "| Ada | a \\| b |",
+        "| Grace |  |"
+      )
+    );
+  });
+
+  it("should convert code blocks with their language", async () => {
+    const result = await toMarkdown(
+      '<pre><code class="language-ts">const a = 1;\nconst b = `x`;\n</code></pre>'
+    );
+    expect(result).toEqual(
+      lines("```ts", "const a = 1;", "const b = `x`;", "```")
+    );
+  });
+
+  it("should resolve links and images against the base URL", async () => {
+    const result = await toMarkdown(
+      `<p><a href="/docs/intro" title="Intro">Docs</a>,
+          <a href="../up">up</a>,
+          <a href="https://other.example/x">external</a>,
+          <a href="javascript:alert(1)">unsafe</a>
+          <img src="img/logo.png" alt="Logo"></p>`,
+      { baseUrl: "https://example.com/blog/post/" }
+    );
+    expect(result).toEqual(
+      lines(
+        '[Docs](https://example.com/docs/intro "Intro"), [up](https://example.com/blog/up), [external](https://other.example/x), unsafe ![Logo](https://example.com/blog/post/img/logo.png)'
+      )
+    );
+  });
+
+  it("should use the document's base element", async () => {
+    const result = await toMarkdown(
+      `<html><head><base href="https://example.org/a/"></head>
+       <body><a href="b">link</a></body></html>`
+    );
+    expect(result).toEqual(lines("[link](https://example.org/a/b)"));
+  });
+
+  it("should convert blockquotes and drop scripts", async () => {
+    const result = await toMarkdown(
+      `<blockquote><p>Quoted</p><p>Twice</p></blockquote>
+       <script>alert("no")</script>
+       <p>a_b*c</p>`
+    );
+    expect(result).toEqual(lines("> Quoted", ">", "> Twice", "", "a\\_b\\*c"));
+  });
+
+  it("should fail with an HtmlError for an invalid base URL", async () => {
+    const result = await toMarkdown("<p>x</p>", { baseUrl: "not a url" });
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(HtmlError);
+      expect(result.left.reason).toContain('invalid base URL "not a url"');
+    }
+  });
+});
@@ -0,0 +1,223 @@
+import { load } from "cheerio";
+import { Effect, Either, Layer } from "effect";
+import { JsonService } from "effect-json";
+import { describe, expect, it } from "vitest";
+import {
+  type SanitizePolicy,
+  type SanitizePreset,
+  SanitizePresets,
+} from "../sanitize.js";
+import { HtmlService, HtmlServiceLayer } from "../service.js";
+
+const TestLayer = HtmlServiceLayer.pipe(Layer.provide(JsonService.Default));
+
+const sanitize = (html: string, policy: SanitizePolicy | SanitizePreset) =>
+  Effect.runPromise(
+    HtmlService.pipe(
+      Effect.flatMap((service) => service.sanitize(html, policy)),
+      Effect.provide(TestLayer)
+    )
+  );
+
+const URL_ATTRIBUTES = ["href", "src", "action", "formaction", "data", "cite"];
+const SCHEME_PATTERN = /^([a-z][a-z\d+.-]*):/i;
+const IGNORED_CHARACTERS = /[\s\p{Cc}]/gu;
+
+/** Known XSS vectors, mostly from the OWASP filter evasion cheat sheet */
+const XSS_CORPUS = [
+  "<script>alert(1)</script>",
+  "<SCRIPT SRC=https://xss.example/xss.js></SCRIPT>",
+  "<img src=x onerror=alert(1)>",
+  "<IMG SRC=JaVaScRiPt:alert('XSS')>",
+  '<IMG """><SCRIPT>alert("XSS")</SCRIPT>">',
+  "<svg onload=alert(1)>",
+  "<svg><script>alert(1)</script></svg>",
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href="jav&#x09;ascript:alert(1)">x</a>',
+  '<a href="jav&#x0A;ascript:alert(1)">x</a>',
+  '<a href=" &#14;  javascript:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="&#0000106&#0000097&#0000118&#0000097&#0000115&#0000099&#0000114&#0000105&#0000112&#0000116&#0000058alert(1)">x</a>',
+  '<a href="&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A;alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html,<script>alert(1)</script>">x</a>',
+  '<a href="https://ok.example" onmouseover="alert(1)">x</a>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  "<body onload=alert(1)>",
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<details open ontoggle="alert(1)">x</details>',
+  "<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>",
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  "<p><svg><style><img src=x onerror=alert(1)></style></svg></p>",
+  "<form><math><mtext></form><form><mglyph><style></math><img src onerror=alert(1)>",
+  "<form><button formaction=javascript:alert(1)>X</button></form>",
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">',
+  '<img src="x.png" srcset="javascript:alert(1) 1x, y.png 2x">',
+  "<!--<img src=x onerror=alert(1)>-->",
+  "<![CDATA[<script>alert(1)</script>]]>",
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:/">',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+  "<template><script>alert(1)</script></template>",
+  "<textarea></textarea><script>alert(1)</script>",
+  "<title><img src=x onerror=alert(1)></title>",
+  "<<script>script>alert(1)<</script>/script>",
+  '<a href="#" onclick="alert(1)" ONFOCUS="alert(2)">x</a>',
+  '<input autofocus onfocus="alert(1)">',
+  '<video><source onerror="alert(1)"></video>',
+  '<blockquote cite="javascript:alert(1)">q</blockquote>',
+  "<xmp><img src=x onerror=alert(1)></xmp>",
+] as const;
+
+const PRESETS = Object.keys(SanitizePresets) as readonly SanitizePreset[];
+
+/** Problems a browser would act on in sanitized output */
+const findUnsafe = (html: string, preset: SanitizePreset): string[] => {
+  const policy = SanitizePresets[preset];
+  const $ = load(html, null, false);
+  const problems: string[] = [];
+  for (const element of $("*").toArray()) {
+    if (!policy.allowedTags.includes(element.name)) {
+      problems.push(`<${element.name}>`);
+    }
+    for (const [name, value] of Object.entries(element.attribs)) {
+      const scheme = SCHEME_PATTERN.exec(value.replace(IGNORED_CHARACTERS, ""));
+      if (name.startsWith("on")) {
+        problems.push(name);
+      } else if (
+        URL_ATTRIBUTES.includes(name) &&
+        scheme?.[1] !== undefined &&
+        !policy.allowedSchemes.includes(scheme[1].toLowerCase())
+      ) {
+        problems.push(value);
+      }
+    }
+  }
+  return problems;
+};
+
+describe("HtmlService.sanitize", () => {
+  it("should keep allowed markup and report each removal", async () => {
+    const result = await sanitize(
+      `<p onclick="steal()">Hi <b>there</b> <blink>!</blink></p>
+       <a href="https://example.com" target="_blank" class="x">link</a>
+       <a href="javascript:alert(1)">bad</a><!-- note -->
+       <script>alert(1)</script>`,
+      "basic-formatting"
+    );
+    expect(result.html).toBe(
+      `<p>Hi <b>there</b> !</p>
+       <a href="https://example.com" target="_blank" rel="noopener">link</a>
+       <a>bad</a>
+       `
+    );
+    expect(result.removed).toEqual([
+      {
+        reason: "event-handler",
+        tag: "p",
+        attribute: "onclick",
+        value: "steal()",
+      },
+      {
+        reason: "tag-not-allowed",
+        tag: "blink",
+        attribute: undefined,
+        value: undefined,
+      },
+      {
+        reason: "attribute-not-allowed",
+        tag: "a",
+        attribute: "class",
+        value: "x",
+      },
+      {
+        reason: "unsafe-url",
+        tag: "a",
+        attribute: "href",
+        value: "javascript:alert(1)",
+      },
+      {
+        reason: "comment",
+        tag: undefined,
+        attribute: undefined,
+        value: undefined,
+      },
+      {
+        reason: "unsafe-element",
+        tag: "script",
+        attribute: undefined,
+        value: undefined,
+      },
+    ]);
+  });
+
+  it("should keep only text with the strict preset", async () => {
+    const result = await sanitize(
+      "<h1>Title</h1><p>Body &amp; <em>more</em> &lt;tags&gt;</p><style>p{}</style>",
+      "strict"
+    );
+    expect(result.html).toBe("TitleBody &amp; more &lt;tags&gt;");
+  });
+
+  it("should add noopener to an existing rel", async () => {
+    const result = await sanitize(
+      '<a href="/x" rel="nofollow">x</a><a href="/y" rel="NoOpener">y</a>',
+      "rich-content"
+    );
+    expect(result.html).toBe(
+      '<a href="/x" rel="nofollow noopener">x</a><a href="/y" rel="NoOpener">y</a>'
+    );
+  });
+
+  it("should apply custom policies", async () => {
+    const policy: SanitizePolicy = {
+      allowedTags: ["img", "span"],
+      allowedAttributes: { "*": ["class"], img: ["src", "onerror"] },
+      allowedSchemes: ["https", "data"],
+    };
+    const result = await sanitize(
+      `<span class="a" id="b"><img src="data:image/png;base64,AAAA" onerror="x()"><img src="http://insecure/x.png"></span>`,
+      policy
+    );
+    expect(result.html).toBe(
+      '<span class="a"><img src="data:image/png;base64,AAAA"><img></span>'
+    );
+    expect(result.removed.map(({ reason }) => reason)).toEqual([
+      "attribute-not-allowed",
+      "event-handler",
+      "unsafe-url",
+    ]);
+  });
+
+  it("should fail on an unknown preset", async () => {
+    const result = await Effect.runPromise(
+      HtmlService.pipe(
+        Effect.flatMap((service) =>
+          Effect.either(
+            service.sanitize("<p>x</p>", "lenient" as SanitizePreset)
+          )
+        ),
+        Effect.provide(TestLayer)
+      )
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+
+  describe("XSS corpus", () => {
+    for (const preset of PRESETS) {
+      it.each(
+        XSS_CORPUS
+      )(`should neutralize %s (${preset})`, async (vector) => {
+        const first = await sanitize(vector, preset);
+        expect(findUnsafe(first.html, preset)).toEqual([]);
+
+        // Output must survive re-parsing unchanged (no mutation XSS)
+        const second = await sanitize(first.html, preset);
+        expect(second.html).toBe(first.html);
+        expect(second.removed).toEqual([]);
+      });
+    }
+  });
+});
@@ -0,0 +1,304 @@
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+/**
+ * Elements that never hold article content.
+ */
+const NON_CONTENT_SELECTOR = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "object",
+  "embed",
+  "svg",
+  "canvas",
+  "form",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "nav",
+  "aside",
+  "footer",
+  "dialog",
+  "[role='navigation']",
+  "[role='banner']",
+  "[role='contentinfo']",
+  "[role='complementary']",
+  "[role='dialog']",
+  "[aria-hidden='true']",
+  "[hidden]",
+].join(", ");
+
+const UNLIKELY_PATTERN =
+  /ad-|ads\b|advert|banner|breadcrumb|combx|comment|community|cookie|consent|disqus|extra|foot|header|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|toolbar|widget/i;
+const MAYBE_CANDIDATE_PATTERN =
+  /and|article|body|column|content|main|shadow|post|entry|story|text/i;
+const POSITIVE_PATTERN =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_PATTERN =
+  /-ad-|hidden|banner|combx|comment|com-|contact|foot|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const WHITESPACE_PATTERN = /\s+/g;
+const COMMA_PATTERN = /[,，、]/g;
+const SENTENCE_END_PATTERN = /\.( |$)/;
+
+const PARAGRAPH_SELECTOR = "p, pre, td, blockquote";
+const BLOCK_SELECTOR =
+  "p, div, section, article, main, table, ul, ol, dl, pre, blockquote, h1, h2, h3, h4, h5, h6, figure";
+/** Containers dropped during cleanup when they are mostly links */
+const CONDITIONAL_SELECTOR = "div, section, ul, ol, table";
+const MEDIA_SELECTOR = "img, picture, video, audio, math";
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * The main readable content of a page.
+ */
+export interface ExtractedContent {
+  readonly title: string | undefined;
+  /** Cleaned HTML of the main content */
+  readonly html: string;
+  /** Plain text of the main content with whitespace collapsed */
+  readonly text: string;
+  readonly wordCount: number;
+}
+
+const normalizeText = (text: string): string =>
+  text.replace(WHITESPACE_PATTERN, " ").trim();
+
+const matchString = (element: Cheerio<Element>): string =>
+  `${element.attr("class") ?? ""} ${element.attr("id") ?? ""}`;
+
+const classWeight = (element: Cheerio<Element>): number => {
+  const names = matchString(element);
+  let weight = 0;
+  if (POSITIVE_PATTERN.test(names)) {
+    weight += 25;
+  }
+  if (NEGATIVE_PATTERN.test(names)) {
+    weight -= 25;
+  }
+  return weight;
+};
+
+const TAG_WEIGHTS: Readonly<Record<string, number>> = {
+  div: 5,
+  article: 5,
+  section: 3,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  address: -3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  dd: -3,
+  dt: -3,
+  li: -3,
+  form: -3,
+  h1: -5,
+  h2: -5,
+  h3: -5,
+  h4: -5,
+  h5: -5,
+  h6: -5,
+  th: -5,
+};
+
+/**
+ * Share of an element's text that sits inside links.
+ */
+const linkDensity = ($: CheerioAPI, element: Cheerio<AnyNode>): number => {
+  const length = normalizeText(element.text()).length;
+  if (length === 0) {
+    return 0;
+  }
+  const linkLength = element
+    .find("a")
+    .toArray()
+    .reduce((total, link) => total + normalizeText($(link).text()).length, 0);
+  return linkLength / length;
+};
+
+/**
+ * Strip nodes that are never content, and containers whose class or id
+ * marks them as page furniture.
+ */
+const removeBoilerplate = ($: CheerioAPI): void => {
+  $(NON_CONTENT_SELECTOR).remove();
+  $("header")
+    .filter((_, element) => $(element).closest("article, main").length === 0)
+    .remove();
+  $("div, section, span, ul, table")
+    .filter((_, element) => {
+      const names = matchString($(element));
+      return (
+        UNLIKELY_PATTERN.test(names) && !MAYBE_CANDIDATE_PATTERN.test(names)
+      );
+    })
+    .remove();
+};
+
+/**
+ * Elements whose own text counts as a paragraph: the usual paragraph tags
+ * plus divs used as paragraphs (no block-level children).
+ */
+const paragraphs = ($: CheerioAPI): Element[] => [
+  ...$(PARAGRAPH_SELECTOR).toArray(),
+  ...$("div")
+    .filter((_, element) => $(element).children(BLOCK_SELECTOR).length === 0)
+    .toArray(),
+];
+
+/**
+ * Score block containers by the paragraphs they hold: longer text with more
+ * commas scores higher, and each paragraph also credits its ancestors.
+ */
+const scoreCandidates = ($: CheerioAPI): Map<Element, number> => {
+  const scores = new Map<Element, number>();
+  const credit = (element: Element, amount: number) => {
+    const current =
+      scores.get(element) ??
+      (TAG_WEIGHTS[element.tagName] ?? 0) + classWeight($(element));
+    scores.set(element, current + amount);
+  };
+
+  for (const paragraph of paragraphs($)) {
+    const text = normalizeText($(paragraph).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      continue;
+    }
+    const score =
+      1 +
+      (text.match(COMMA_PATTERN)?.length ?? 0) +
+      Math.min(Math.floor(text.length / 100), 3);
+    $(paragraph)
+      .parents()
+      .slice(0, 3)
+      .each((level, ancestor) => {
+        if (ancestor.tagName !== "html") {
+          credit(ancestor, level === 0 ? score : score / (level * 2));
+        }
+      });
+  }
+
+  for (const [element, score] of scores) {
+    scores.set(element, score * (1 - linkDensity($, $(element))));
+  }
+  return scores;
+};
+
+const topCandidate = (scores: Map<Element, number>): Element | undefined => {
+  let best: Element | undefined;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (const [element, score] of scores) {
+    if (score > bestScore && element.tagName !== "body") {
+      best = element;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Whether a sibling of the top candidate belongs to the article too, e.g.
+ * a second column of paragraphs or a lone introductory paragraph.
+ */
+const isRelatedSibling = (
+  $: CheerioAPI,
+  sibling: Element,
+  scores: Map<Element, number>,
+  threshold: number
+): boolean => {
+  if ((scores.get(sibling) ?? 0) >= threshold) {
+    return true;
+  }
+  if (sibling.tagName !== "p") {
+    return false;
+  }
+  const text = normalizeText($(sibling).text());
+  const density = linkDensity($, $(sibling));
+  if (text.length > 80) {
+    return density < 0.25;
+  }
+  return density === 0 && SENTENCE_END_PATTERN.test(text);
+};
+
+const collectArticle = (
+  $: CheerioAPI,
+  top: Element,
+  scores: Map<Element, number>
+): Element[] => {
+  const topScore = scores.get(top) ?? 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  const siblings = $(top).parent().children().toArray();
+  return siblings.filter(
+    (sibling) =>
+      sibling === top || isRelatedSibling($, sibling, scores, threshold)
+  );
+};
+
+/**
+ * Drop link-heavy or empty containers left inside the chosen content.
+ */
+const cleanArticle = ($: CheerioAPI, root: Cheerio<AnyNode>): void => {
+  // Innermost first, so a parent is judged on what survives inside it
+  for (const element of root.find(CONDITIONAL_SELECTOR).toArray().reverse()) {
+    const node = $(element);
+    const text = normalizeText(node.text());
+    const hasMedia = node.find(MEDIA_SELECTOR).length > 0;
+    const weight = classWeight(node);
+    if (
+      (text.length === 0 && !hasMedia) ||
+      weight < 0 ||
+      (linkDensity($, node) > 0.5 && text.length < 500)
+    ) {
+      node.remove();
+    }
+  }
+  root
+    .find("p, span")
+    .filter(
+      (_, element) =>
+        normalizeText($(element).text()).length === 0 &&
+        $(element).find(MEDIA_SELECTOR).length === 0
+    )
+    .remove();
+};
+
+const documentTitle = ($: CheerioAPI): string | undefined =>
+  normalizeText(
+    $('meta[property="og:title"]').attr("content") ||
+      $("title").first().text() ||
+      $("h1").first().text()
+  ) || undefined;
+
+/**
+ * Find the main content of a parsed page using content-density scoring.
+ * The document is modified in place.
+ *
+ * @returns `undefined` when the page has no text at all
+ */
+export const extractContent = ($: CheerioAPI): ExtractedContent | undefined => {
+  const title = documentTitle($);
+  removeBoilerplate($);
+
+  const scores = scoreCandidates($);
+  const top = topCandidate(scores);
+  const nodes = top ? collectArticle($, top, scores) : $("body").toArray();
+  const root = $("<div></div>").append($(nodes).clone());
+  cleanArticle($, root);
+
+  const text = normalizeText(root.text());
+  if (text.length === 0) {
+    return;
+  }
+  return {
+    title,
+    html: (root.html() ?? "").trim(),
+    text,
+    wordCount: text.split(" ").length,
+  };
+};
@@ -0,0 +1,336 @@
+import type { CheerioAPI } from "cheerio";
+import type { Element } from "domhandler";
+import { documentBaseUrl, resolveUrl } from "./urls.js";
+
+/**
+ * Options for `extractLinks` and `extractImages`.
+ */
+export interface ExtractOptions {
+  /**
+   * URL that relative hrefs and image sources are resolved against.
+   * Defaults to the document's `<base href>`; without either, relative
+   * URLs are kept as written.
+   */
+  readonly baseUrl?: string | undefined;
+}
+
+export interface ExtractedLink {
+  readonly href: string;
+  readonly text: string;
+  readonly title: string | undefined;
+  /** Lower-cased `rel` tokens */
+  readonly rel: readonly string[];
+  readonly nofollow: boolean;
+}
+
+export interface ExtractedSrcsetCandidate {
+  readonly url: string;
+  /** Width descriptor, e.g. `480` for `480w` */
+  readonly width: number | undefined;
+  /** Pixel density descriptor, e.g. `2` for `2x` */
+  readonly density: number | undefined;
+}
+
+export interface ExtractedImage {
+  readonly src: string;
+  readonly alt: string | undefined;
+  readonly title: string | undefined;
+  readonly width: number | undefined;
+  readonly height: number | undefined;
+  readonly srcset: readonly ExtractedSrcsetCandidate[];
+}
+
+export interface ExtractedTable {
+  readonly caption: string | undefined;
+  readonly headers: readonly string[];
+  readonly rows: readonly (readonly string[])[];
+}
+
+const WHITESPACE_PATTERN = /\s+/g;
+const DIMENSION_PATTERN = /^\s*(\d+)(?:px)?\s*$/i;
+const WIDTH_DESCRIPTOR_PATTERN = /^(\d+)w$/;
+const DENSITY_DESCRIPTOR_PATTERN = /^(\d*\.?\d+)x$/;
+const TRAILING_COMMAS_PATTERN = /,+$/;
+const SRCSET_SEPARATOR_PATTERN = /[\s,]/;
+
+/** Upper bound on colspan and rowspan, as browsers clamp them */
+const MAX_SPAN = 1000;
+
+const normalizeText = (text: string): string =>
+  text.replace(WHITESPACE_PATTERN, " ").trim();
+
+const optionalText = (value: string | undefined): string | undefined =>
+  value === undefined ? undefined : normalizeText(value) || undefined;
+
+const baseUrlOf = ($: CheerioAPI, options: ExtractOptions): URL | undefined =>
+  documentBaseUrl(
+    $,
+    options.baseUrl === undefined ? undefined : new URL(options.baseUrl)
+  );
+
+// Links
+
+const relTokens = (rel: string | undefined): readonly string[] =>
+  (rel ?? "").toLowerCase().split(WHITESPACE_PATTERN).filter(Boolean);
+
+/**
+ * Every `<a href>` and `<area href>` in document order, with hrefs resolved.
+ *
+ * @throws TypeError if `options.baseUrl` is not an absolute URL
+ */
+export const collectLinks = (
+  $: CheerioAPI,
+  options: ExtractOptions = {}
+): readonly ExtractedLink[] => {
+  const base = baseUrlOf($, options);
+  return $("a[href], area[href]")
+    .toArray()
+    .map((element) => {
+      const node = $(element);
+      const rel = relTokens(element.attribs.rel);
+      return {
+        href: resolveUrl((element.attribs.href ?? "").trim(), base),
+        text:
+          element.tagName === "area"
+            ? normalizeText(element.attribs.alt ?? "")
+            : normalizeText(node.text()),
+        title: optionalText(element.attribs.title),
+        rel,
+        nofollow: rel.includes("nofollow"),
+      };
+    });
+};
+
+// Images
+
+const parseDimension = (value: string | undefined): number | undefined => {
+  const match = value === undefined ? null : DIMENSION_PATTERN.exec(value);
+  return match ? Number(match[1]) : undefined;
+};
+
+const parseDescriptor = (
+  url: string,
+  descriptor: string
+): ExtractedSrcsetCandidate => {
+  const token = descriptor.trim().toLowerCase();
+  const width = WIDTH_DESCRIPTOR_PATTERN.exec(token)?.[1];
+  const density = DENSITY_DESCRIPTOR_PATTERN.exec(token)?.[1];
+  return {
+    url,
+    width: width === undefined ? undefined : Number(width),
+    density: density === undefined ? undefined : Number(density),
+  };
+};
+
+/**
+ * Split a `srcset` attribute into candidates. URLs may contain commas, so
+ * a candidate's URL runs to the next whitespace, following the HTML
+ * specification's parsing rules.
+ */
+export const parseSrcset = (
+  srcset: string
+): readonly ExtractedSrcsetCandidate[] => {
+  const candidates: ExtractedSrcsetCandidate[] = [];
+  let position = 0;
+  while (position < srcset.length) {
+    while (
+      position < srcset.length &&
+      SRCSET_SEPARATOR_PATTERN.test(srcset.charAt(position))
+    ) {
+      position++;
+    }
+    const urlEnd = srcset.slice(position).search(WHITESPACE_PATTERN);
+    const end = urlEnd === -1 ? srcset.length : position + urlEnd;
+    const raw = srcset.slice(position, end);
+    position = end;
+    if (raw === "") {
+      break;
+    }
+    const url = raw.replace(TRAILING_COMMAS_PATTERN, "");
+    if (url !== raw) {
+      candidates.push(parseDescriptor(url, ""));
+      continue;
+    }
+    const descriptorEnd = srcset.indexOf(",", position);
+    const next = descriptorEnd === -1 ? srcset.length : descriptorEnd;
+    candidates.push(parseDescriptor(url, srcset.slice(position, next)));
+    position = next;
+  }
+  return candidates;
+};
+
+const toImage = (
+  element: Element,
+  base: URL | undefined
+): ExtractedImage | undefined => {
+  const srcset = parseSrcset(
+    element.attribs.srcset ?? element.attribs["data-srcset"] ?? ""
+  ).map((candidate) => ({
+    ...candidate,
+    url: resolveUrl(candidate.url, base),
+  }));
+  const src =
+    element.attribs.src?.trim() ||
+    element.attribs["data-src"]?.trim() ||
+    srcset[0]?.url;
+  if (!src) {
+    return;
+  }
+  return {
+    src: resolveUrl(src, base),
+    alt: element.attribs.alt,
+    title: optionalText(element.attribs.title),
+    width: parseDimension(element.attribs.width),
+    height: parseDimension(element.attribs.height),
+    srcset,
+  };
+};
+
+/**
+ * Every `<img>` with a source in document order. Lazy-loading `data-src`
+ * and `data-srcset` attributes are used when `src` and `srcset` are absent.
+ *
+ * @throws TypeError if `options.baseUrl` is not an absolute URL
+ */
+export const collectImages = (
+  $: CheerioAPI,
+  options: ExtractOptions = {}
+): readonly ExtractedImage[] => {
+  const base = baseUrlOf($, options);
+  return $("img")
+    .toArray()
+    .flatMap((element) => toImage(element, base) ?? []);
+};
+
+// Tables
+
+interface TableCell {
+  readonly element: Element;
+  readonly text: string;
+}
+
+interface PendingSpan {
+  readonly text: string;
+  remaining: number;
+}
+
+const spanOf = (value: string | undefined): number => {
+  const span = Number.parseInt(value ?? "1", 10);
+  return Number.isNaN(span) || span < 1 ? 1 : Math.min(span, MAX_SPAN);
+};
+
+/**
+ * Lays rows out on a grid, repeating the text of cells that span several
+ * columns or rows so every row lines up with the headers.
+ */
+class TableGrid {
+  readonly rows: string[][] = [];
+  private readonly pending = new Map<number, PendingSpan>();
+
+  addRow(cells: readonly TableCell[]): void {
+    const row: string[] = [];
+    let column = 0;
+    for (const { element, text } of cells) {
+      while (this.pending.has(column)) {
+        this.takePending(row, column);
+        column++;
+      }
+      const colspan = spanOf(element.attribs.colspan);
+      const rowspan = spanOf(element.attribs.rowspan);
+      for (let offset = 0; offset < colspan; offset++) {
+        row[column + offset] = text;
+        if (rowspan > 1) {
+          this.pending.set(column + offset, { text, remaining: rowspan - 1 });
+        }
+      }
+      column += colspan;
+    }
+    // Rowspans from earlier rows reaching past this row's last cell
+    const trailing = [...this.pending.keys()]
+      .filter((index) => index >= column)
+      .sort((a, b) => a - b);
+    for (const index of trailing) {
+      this.takePending(row, index);
+    }
+    this.rows.push(Array.from(row, (cell) => cell ?? ""));
+  }
+
+  private takePending(row: string[], column: number): void {
+    const span = this.pending.get(column);
+    if (span === undefined) {
+      return;
+    }
+    row[column] = span.text;
+    span.remaining--;
+    if (span.remaining === 0) {
+      this.pending.delete(column);
+    }
+  }
+}
+
+/** Merge several header rows into one label per column */
+const mergeHeaders = (rows: readonly (readonly string[])[]): string[] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: width }, (_, column) => {
+    const labels = rows
+      .map((row) => row[column] ?? "")
+      .filter(
+        (label, index, all) => label !== "" && all.indexOf(label) === index
+      );
+    return labels.join(" ");
+  });
+};
+
+const pad = (row: readonly string[], width: number): string[] =>
+  Array.from({ length: width }, (_, column) => row[column] ?? "");
+
+const toTable = ($: CheerioAPI, table: Element): ExtractedTable | undefined => {
+  const rows = $(table)
+    .find("tr")
+    .filter((_, row) => $(row).closest("table")[0] === table)
+    .toArray();
+  if (rows.length === 0) {
+    return;
+  }
+
+  const grid = new TableGrid();
+  for (const row of rows) {
+    grid.addRow(
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((element) => ({ element, text: normalizeText($(element).text()) }))
+    );
+  }
+
+  // Header rows come from <thead>, or a leading row made only of <th> cells
+  let headerRows = rows.map((row) => $(row).parent().is("thead"));
+  if (!headerRows.includes(true)) {
+    const cells = $(rows[0]).children("th, td");
+    headerRows = rows.map(
+      (_, index) => index === 0 && cells.length > 0 && !cells.is("td")
+    );
+  }
+
+  const hasHeaders = headerRows.includes(true);
+  const headers = mergeHeaders(grid.rows.filter((_, i) => headerRows[i]));
+  const body = grid.rows.filter((_, i) => !headerRows[i]);
+  const width = body.reduce(
+    (max, row) => Math.max(max, row.length),
+    headers.length
+  );
+  return {
+    caption: optionalText($(table).children("caption").first().text()),
+    headers: hasHeaders ? pad(headers, width) : [],
+    rows: body.map((row) => pad(row, width)),
+  };
+};
+
+/**
+ * Every `<table>` in document order as header and row arrays of cell text.
+ * Nested tables are returned separately from the table that holds them.
+ */
+export const collectTables = ($: CheerioAPI): readonly ExtractedTable[] =>
+  $("table")
+    .toArray()
+    .flatMap((table) => toTable($, table) ?? []);
@@ -8,7 +8,32 @@
 export { HtmlError } from "./errors.js";
 
 // Types and Schemas
-export { HtmlMetadataSchema } from "./schemas.js";
-export type { HtmlMetadata } from "./schemas.js";
+export type { ExtractOptions } from "./extract.js";
+export type { MarkdownOptions } from "./markdown.js";
+export {
+  type SanitizePolicy,
+  type SanitizePreset,
+  SanitizePresets,
+} from "./sanitize.js";
+export type {
+  HtmlMetadata,
+  Image,
+  Link,
+  MainContent,
+  SanitizeRemoval,
+  SanitizeResult,
+  SrcsetCandidate,
+  Table,
+} from "./schemas.js";
+export {
+  HtmlMetadataSchema,
+  ImageSchema,
+  LinkSchema,
+  MainContentSchema,
+  SanitizeRemovalSchema,
+  SanitizeResultSchema,
+  SrcsetCandidateSchema,
+  TableSchema,
+} from "./schemas.js";
 // Services (Dependency Injection)
 export { HtmlService, type HtmlServiceSchema } from "./service.js";
@@ -0,0 +1,343 @@
+import type { CheerioAPI } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import { documentBaseUrl, resolveUrl } from "./urls.js";
+
+/**
+ * Options for `toMarkdown`.
+ */
+export interface MarkdownOptions {
+  /**
+   * URL that relative links and image sources are resolved against.
+   * Defaults to the document's `<base href>`; without either, relative
+   * URLs are kept as written.
+   */
+  readonly baseUrl?: string | undefined;
+}
+
+interface RenderContext {
+  readonly baseUrl: URL | undefined;
+}
+
+const WHITESPACE_PATTERN = /\s+/g;
+const MARKDOWN_SPECIAL_PATTERN = /([\\`*_[\]])/g;
+const LEADING_SPACE_PATTERN = /\n[ \t]+/g;
+const TRAILING_SPACE_PATTERN = /[ \t]+$/gm;
+const EXCESS_NEWLINES_PATTERN = /\n{3,}/g;
+const BACKTICK_RUN_PATTERN = /`+/g;
+const LANGUAGE_PATTERN = /(?:^|\s)(?:language|lang)-(\S+)/;
+const PIPE_PATTERN = /\|/g;
+const UNSAFE_URL_PATTERN = /^\s*(?:javascript|vbscript|data):/i;
+const QUOTE_PATTERN = /"/g;
+const TRAILING_NEWLINE_PATTERN = /\n$/;
+
+const SKIPPED_TAGS: ReadonlySet<string> = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "button",
+  "input",
+  "select",
+  "textarea",
+]);
+
+const BLOCK_TAGS: ReadonlySet<string> = new Set([
+  "address",
+  "article",
+  "aside",
+  "body",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "main",
+  "nav",
+  "section",
+  "summary",
+]);
+
+const block = (content: string): string => {
+  const trimmed = content.trim();
+  return trimmed === "" ? "" : `\n\n${trimmed}\n\n`;
+};
+
+/** Inline content of a paragraph-like element on as few lines as it needs */
+const inlineBlock = (content: string): string =>
+  block(content.replace(LEADING_SPACE_PATTERN, "\n"));
+
+const isElement = (node: AnyNode): node is Element => node.type === "tag";
+
+const escapeText = (text: string): string =>
+  text.replace(MARKDOWN_SPECIAL_PATTERN, "\\$1");
+
+/** Emphasis markers must hug the text, so surrounding spaces move outside */
+const wrap = (marker: string, content: string): string => {
+  const trimmed = content.trim();
+  if (trimmed === "") {
+    return content;
+  }
+  const leading = content.startsWith(" ") ? " " : "";
+  const trailing = content.endsWith(" ") ? " " : "";
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+};
+
+const renderChildren = (
+  $: CheerioAPI,
+  node: AnyNode,
+  context: RenderContext
+): string =>
+  "children" in node
+    ? node.children.map((child) => renderNode($, child, context)).join("")
+    : "";
+
+const renderLink = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const text = renderChildren($, element, context).trim();
+  const href = element.attribs.href;
+  if (!href || href.startsWith("#") || UNSAFE_URL_PATTERN.test(href)) {
+    return text;
+  }
+  const title = element.attribs.title;
+  const suffix = title ? ` "${title.replace(QUOTE_PATTERN, '\\"')}"` : "";
+  return `[${text || resolveUrl(href, context.baseUrl)}](${resolveUrl(href, context.baseUrl)}${suffix})`;
+};
+
+const renderImage = (element: Element, context: RenderContext): string => {
+  const src = element.attribs.src;
+  if (!src || UNSAFE_URL_PATTERN.test(src)) {
+    return "";
+  }
+  const alt = escapeText(element.attribs.alt ?? "");
+  return `![${alt}](${resolveUrl(src, context.baseUrl)})`;
+};
+
+/**
+ * Fenced code block. The fence is longer than any backtick run inside the
+ * code, and the language comes from a `language-*` class when present.
+ */
+const renderPre = ($: CheerioAPI, element: Element): string => {
+  const node = $(element);
+  const code = node.children("code").first();
+  const classes = `${node.attr("class") ?? ""} ${code.attr("class") ?? ""}`;
+  const language = LANGUAGE_PATTERN.exec(classes)?.[1] ?? "";
+  const text = node.text().replace(TRAILING_NEWLINE_PATTERN, "");
+  const longestRun = (text.match(BACKTICK_RUN_PATTERN) ?? []).reduce(
+    (max, run) => Math.max(max, run.length),
+    2
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+};
+
+const renderInlineCode = ($: CheerioAPI, element: Element): string => {
+  const text = $(element).text();
+  const longestRun = (text.match(BACKTICK_RUN_PATTERN) ?? []).reduce(
+    (max, run) => Math.max(max, run.length),
+    0
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const renderList = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const ordered = element.tagName === "ol";
+  const start = Number.parseInt(element.attribs.start ?? "1", 10) || 1;
+  const items = element.children
+    .filter(
+      (child): child is Element => isElement(child) && child.name === "li"
+    )
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : "- ";
+      const [first = "", ...rest] = renderChildren($, item, context)
+        .replace(EXCESS_NEWLINES_PATTERN, "\n\n")
+        .trim()
+        .split("\n");
+      // Continuation lines, including nested lists, align with the content
+      const indent = " ".repeat(marker.length);
+      return [
+        `${marker}${first}`,
+        ...rest.map((line) => (line === "" ? "" : `${indent}${line}`)),
+      ].join("\n");
+    });
+  return block(items.join("\n"));
+};
+
+const renderBlockquote = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const content = renderChildren($, element, context)
+    .replace(EXCESS_NEWLINES_PATTERN, "\n\n")
+    .trim();
+  return block(
+    content
+      .split("\n")
+      .map((line) => (line === "" ? ">" : `> ${line}`))
+      .join("\n")
+  );
+};
+
+const renderCell = (
+  $: CheerioAPI,
+  cell: Element,
+  context: RenderContext
+): string =>
+  renderChildren($, cell, context)
+    .replace(WHITESPACE_PATTERN, " ")
+    .trim()
+    .replace(PIPE_PATTERN, "\\|");
+
+/**
+ * GitHub-flavoured table. The first row (from `thead` when present) is the
+ * header; short rows are padded to the widest row.
+ */
+const renderTable = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const rows = $(element)
+    .find("tr")
+    .filter((_, row) => $(row).closest("table")[0] === element)
+    .toArray()
+    .map((row) =>
+      $(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) => renderCell($, cell, context))
+    );
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  if (width === 0) {
+    return "";
+  }
+  const line = (cells: readonly string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const [header = [], ...body] = rows;
+  return block(
+    [
+      line(header),
+      `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+      ...body.map(line),
+    ].join("\n")
+  );
+};
+
+const renderHeading = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const level = Number(element.tagName.slice(1));
+  const text = renderChildren($, element, context)
+    .replace(WHITESPACE_PATTERN, " ")
+    .trim();
+  return text === "" ? "" : block(`${"#".repeat(level)} ${text}`);
+};
+
+const renderElement = (
+  $: CheerioAPI,
+  element: Element,
+  context: RenderContext
+): string => {
+  const tag = element.tagName;
+  switch (tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+      return renderHeading($, element, context);
+    case "p":
+      return inlineBlock(renderChildren($, element, context));
+    case "br":
+      return "\\\n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "strong":
+    case "b":
+      return wrap("**", renderChildren($, element, context));
+    case "em":
+    case "i":
+      return wrap("_", renderChildren($, element, context));
+    case "del":
+    case "s":
+    case "strike":
+      return wrap("~~", renderChildren($, element, context));
+    case "code":
+      return renderInlineCode($, element);
+    case "pre":
+      return renderPre($, element);
+    case "a":
+      return renderLink($, element, context);
+    case "img":
+      return renderImage(element, context);
+    case "ul":
+    case "ol":
+      return renderList($, element, context);
+    case "blockquote":
+      return renderBlockquote($, element, context);
+    case "table":
+      return renderTable($, element, context);
+    default:
+      if (SKIPPED_TAGS.has(tag)) {
+        return "";
+      }
+      return BLOCK_TAGS.has(tag)
+        ? block(renderChildren($, element, context))
+        : renderChildren($, element, context);
+  }
+};
+
+const renderNode = (
+  $: CheerioAPI,
+  node: AnyNode,
+  context: RenderContext
+): string => {
+  if (node.type === "text") {
+    return escapeText(node.data.replace(WHITESPACE_PATTERN, " "));
+  }
+  return isElement(node) ? renderElement($, node, context) : "";
+};
+
+/**
+ * Convert a parsed document to Markdown: headings, paragraphs, emphasis,
+ * nested lists, blockquotes, GitHub-flavoured tables and fenced code blocks.
+ * Scripts, styles and form controls are dropped.
+ *
+ * @throws TypeError if `options.baseUrl` is not an absolute URL
+ */
+export const renderMarkdown = (
+  $: CheerioAPI,
+  options: MarkdownOptions = {}
+): string => {
+  const explicitBase =
+    options.baseUrl === undefined ? undefined : new URL(options.baseUrl);
+  const root = $("body")[0] ?? $.root()[0];
+  const context = { baseUrl: documentBaseUrl($, explicitBase) };
+  const markdown = root ? renderNode($, root, context) : "";
+  return markdown
+    .replace(TRAILING_SPACE_PATTERN, "")
+    .replace(EXCESS_NEWLINES_PATTERN, "\n\n")
+    .trim();
+};
@@ -0,0 +1,351 @@
+import type { CheerioAPI } from "cheerio";
+import {
+  type AnyNode,
+  type Element,
+  hasChildren,
+  isTag,
+  isText,
+} from "domhandler";
+import { parseSrcset } from "./extract.js";
+
+/**
+ * What `sanitize` keeps. Anything not listed is removed and reported.
+ */
+export interface SanitizePolicy {
+  /** Lower-case tag names to keep. Other tags are unwrapped, keeping their text */
+  readonly allowedTags: readonly string[];
+  /**
+   * Attributes to keep per tag; the `"*"` entry applies to every allowed
+   * tag. Event handlers (`on*`) are removed even when listed.
+   */
+  readonly allowedAttributes: Readonly<Record<string, readonly string[]>>;
+  /** URL schemes allowed in `href`, `src` and other URL attributes */
+  readonly allowedSchemes: readonly string[];
+}
+
+/**
+ * Names of the built-in policies.
+ */
+export type SanitizePreset = "strict" | "basic-formatting" | "rich-content";
+
+type RemovalReason =
+  /** A tag outside the allowlist was unwrapped; its children were kept */
+  | "tag-not-allowed"
+  /** An element whose content is never safe to keep (script, iframe, ...) was removed */
+  | "unsafe-element"
+  | "attribute-not-allowed"
+  | "event-handler"
+  | "unsafe-url"
+  | "comment";
+
+interface Removal {
+  readonly reason: RemovalReason;
+  readonly tag: string | undefined;
+  readonly attribute: string | undefined;
+  readonly value: string | undefined;
+}
+
+export interface SanitizedHtml {
+  readonly html: string;
+  readonly removed: readonly Removal[];
+}
+
+const SAFE_SCHEMES = ["http", "https", "mailto", "tel"] as const;
+
+const BASIC_FORMATTING_TAGS = [
+  "a",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "del",
+  "em",
+  "i",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "strong",
+  "sub",
+  "sup",
+  "u",
+  "ul",
+] as const;
+
+const RICH_CONTENT_TAGS = [
+  ...BASIC_FORMATTING_TAGS,
+  "abbr",
+  "caption",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "img",
+  "kbd",
+  "mark",
+  "q",
+  "small",
+  "span",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+] as const;
+
+/**
+ * Built-in policies: `strict` keeps text only, `basic-formatting` keeps
+ * inline formatting, paragraphs, lists and links, and `rich-content` adds
+ * headings, images, tables and figures.
+ */
+export const SanitizePresets: Readonly<Record<SanitizePreset, SanitizePolicy>> =
+  {
+    strict: {
+      allowedTags: [],
+      allowedAttributes: {},
+      allowedSchemes: [],
+    },
+    "basic-formatting": {
+      allowedTags: BASIC_FORMATTING_TAGS,
+      allowedAttributes: {
+        a: ["href", "title", "target", "rel"],
+      },
+      allowedSchemes: SAFE_SCHEMES,
+    },
+    "rich-content": {
+      allowedTags: RICH_CONTENT_TAGS,
+      allowedAttributes: {
+        "*": ["title", "lang", "dir"],
+        a: ["href", "target", "rel"],
+        abbr: ["title"],
+        blockquote: ["cite"],
+        img: ["src", "srcset", "alt", "width", "height"],
+        ol: ["start", "reversed"],
+        q: ["cite"],
+        td: ["colspan", "rowspan"],
+        th: ["colspan", "rowspan", "scope"],
+      },
+      allowedSchemes: SAFE_SCHEMES,
+    },
+  };
+
+/**
+ * Elements removed together with their content when not allowed: their
+ * content is script, styling, a nested document or foreign markup rather
+ * than text a reader would miss.
+ */
+const UNSAFE_ELEMENTS: ReadonlySet<string> = new Set([
+  "applet",
+  "base",
+  "embed",
+  "frame",
+  "frameset",
+  "head",
+  "iframe",
+  "link",
+  "math",
+  "meta",
+  "noembed",
+  "noframes",
+  "noscript",
+  "object",
+  "plaintext",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+  "xmp",
+]);
+
+const URL_ATTRIBUTES: ReadonlySet<string> = new Set([
+  "action",
+  "background",
+  "cite",
+  "data",
+  "formaction",
+  "href",
+  "longdesc",
+  "ping",
+  "poster",
+  "src",
+  "xlink:href",
+]);
+
+const EVENT_HANDLER_PATTERN = /^on/i;
+const SCHEME_PATTERN = /^([a-z][a-z\d+.-]*):/i;
+const WHITESPACE_PATTERN = /\s+/;
+
+/**
+ * Browsers ignore control characters and spaces when reading a URL's
+ * scheme, so `java\tscript:` is still a `javascript:` URL.
+ */
+const stripIgnoredCharacters = (value: string): string =>
+  Array.from(value)
+    .filter((character) => {
+      const code = character.charCodeAt(0);
+      return code > 0x20 && (code < 0x7f || code > 0x9f);
+    })
+    .join("");
+
+const isUrlAllowed = (value: string, schemes: ReadonlySet<string>): boolean => {
+  const scheme = SCHEME_PATTERN.exec(stripIgnoredCharacters(value))?.[1];
+  return scheme === undefined || schemes.has(scheme.toLowerCase());
+};
+
+/**
+ * Walks a parsed fragment, recording removals in document order. Elements
+ * are unwrapped and removed only after the walk so it never sees a tree
+ * that is being modified.
+ */
+class Sanitizer {
+  readonly removed: Removal[] = [];
+  private readonly tags: ReadonlySet<string>;
+  private readonly schemes: ReadonlySet<string>;
+  private readonly attributes: Readonly<Record<string, readonly string[]>>;
+  private readonly toRemove: AnyNode[] = [];
+  private readonly toUnwrap: Element[] = [];
+
+  constructor(policy: SanitizePolicy) {
+    this.tags = new Set(policy.allowedTags.map((tag) => tag.toLowerCase()));
+    this.schemes = new Set(
+      policy.allowedSchemes.map((scheme) => scheme.toLowerCase())
+    );
+    this.attributes = policy.allowedAttributes;
+  }
+
+  run($: CheerioAPI): void {
+    const stack: AnyNode[] = [...$.root().contents().toArray()].reverse();
+    let node = stack.pop();
+    while (node !== undefined) {
+      if (this.visit(node) && hasChildren(node)) {
+        stack.push(...[...node.children].reverse());
+      }
+      node = stack.pop();
+    }
+
+    for (const removed of this.toRemove) {
+      $(removed).remove();
+    }
+    // Innermost first, so each unwrap moves already-final children
+    for (const element of this.toUnwrap.reverse()) {
+      $(element).replaceWith($(element).contents());
+    }
+  }
+
+  /** Returns whether the node's children should be visited */
+  private visit(node: AnyNode): boolean {
+    if (isText(node)) {
+      return false;
+    }
+    if (!isTag(node)) {
+      // Comments, CDATA and processing instructions
+      if (node.type === "comment") {
+        this.report("comment", undefined);
+      }
+      this.toRemove.push(node);
+      return false;
+    }
+
+    const tag = node.name.toLowerCase();
+    if (this.tags.has(tag)) {
+      this.sanitizeAttributes(node, tag);
+      return true;
+    }
+    if (UNSAFE_ELEMENTS.has(tag)) {
+      this.report("unsafe-element", tag);
+      this.toRemove.push(node);
+      return false;
+    }
+    this.report("tag-not-allowed", tag);
+    this.toUnwrap.push(node);
+    return true;
+  }
+
+  private sanitizeAttributes(element: Element, tag: string): void {
+    const allowed = new Set([
+      ...(this.attributes["*"] ?? []),
+      ...(this.attributes[tag] ?? []),
+    ]);
+    for (const [name, value] of Object.entries(element.attribs)) {
+      const reason = this.attributeProblem(name.toLowerCase(), value, allowed);
+      if (reason !== undefined) {
+        this.report(reason, tag, name, value);
+        delete element.attribs[name];
+      }
+    }
+    if ((tag === "a" || tag === "area") && element.attribs.href !== undefined) {
+      const rel = (element.attribs.rel ?? "")
+        .split(WHITESPACE_PATTERN)
+        .filter(Boolean);
+      if (!rel.some((token) => token.toLowerCase() === "noopener")) {
+        element.attribs.rel = [...rel, "noopener"].join(" ");
+      }
+    }
+  }
+
+  private attributeProblem(
+    name: string,
+    value: string,
+    allowed: ReadonlySet<string>
+  ): RemovalReason | undefined {
+    if (EVENT_HANDLER_PATTERN.test(name)) {
+      return "event-handler";
+    }
+    if (!allowed.has(name)) {
+      return "attribute-not-allowed";
+    }
+    if (URL_ATTRIBUTES.has(name) && !isUrlAllowed(value, this.schemes)) {
+      return "unsafe-url";
+    }
+    if (
+      name === "srcset" &&
+      !parseSrcset(value).every(({ url }) => isUrlAllowed(url, this.schemes))
+    ) {
+      return "unsafe-url";
+    }
+    return;
+  }
+
+  private report(
+    reason: RemovalReason,
+    tag: string | undefined,
+    attribute?: string,
+    value?: string
+  ): void {
+    this.removed.push({ reason, tag, attribute, value });
+  }
+}
+
+/**
+ * Sanitize a parsed fragment in place against `policy`.
+ *
+ * Tags outside the allowlist are unwrapped, except script-like and foreign
+ * elements, which are removed with their content. Attributes outside the
+ * allowlist, event handlers and URLs with disallowed schemes are dropped,
+ * comments are removed, and links get `rel="noopener"`.
+ */
+export const sanitizeFragment = (
+  $: CheerioAPI,
+  policy: SanitizePolicy
+): SanitizedHtml => {
+  const sanitizer = new Sanitizer(policy);
+  sanitizer.run($);
+  return { html: $.root().html() ?? "", removed: sanitizer.removed };
+};
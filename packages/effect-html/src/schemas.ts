@@ -6,6 +6,87 @@ export const HtmlMetadataSchema = Schema.Struct({
   keywords: Schema.Array(Schema.String),
   favicon: Schema.optional(Schema.String),
   openGraph: Schema.Record({ key: Schema.String, value: Schema.String }),
+  twitter: Schema.Record({ key: Schema.String, value: Schema.String }),
+  canonical: Schema.optional(Schema.String),
+  alternates: Schema.Array(
+    Schema.Struct({ hreflang: Schema.String, href: Schema.String })
+  ),
+  feeds: Schema.Array(
+    Schema.Struct({
+      type: Schema.String,
+      href: Schema.String,
+      title: Schema.optional(Schema.String),
+    })
+  ),
 });
 
 export type HtmlMetadata = Schema.Schema.Type<typeof HtmlMetadataSchema>;
+
+export const MainContentSchema = Schema.Struct({
+  title: Schema.optional(Schema.String),
+  html: Schema.String,
+  text: Schema.String,
+  wordCount: Schema.Number,
+});
+
+export type MainContent = Schema.Schema.Type<typeof MainContentSchema>;
+
+export const LinkSchema = Schema.Struct({
+  href: Schema.String,
+  text: Schema.String,
+  title: Schema.optional(Schema.String),
+  rel: Schema.Array(Schema.String),
+  nofollow: Schema.Boolean,
+});
+
+export type Link = Schema.Schema.Type<typeof LinkSchema>;
+
+export const SrcsetCandidateSchema = Schema.Struct({
+  url: Schema.String,
+  width: Schema.optional(Schema.Number),
+  density: Schema.optional(Schema.Number),
+});
+
+export type SrcsetCandidate = Schema.Schema.Type<typeof SrcsetCandidateSchema>;
+
+export const ImageSchema = Schema.Struct({
+  src: Schema.String,
+  alt: Schema.optional(Schema.String),
+  title: Schema.optional(Schema.String),
+  width: Schema.optional(Schema.Number),
+  height: Schema.optional(Schema.Number),
+  srcset: Schema.Array(SrcsetCandidateSchema),
+});
+
+export type Image = Schema.Schema.Type<typeof ImageSchema>;
+
+export const TableSchema = Schema.Struct({
+  caption: Schema.optional(Schema.String),
+  headers: Schema.Array(Schema.String),
+  rows: Schema.Array(Schema.Array(Schema.String)),
+});
+
+export type Table = Schema.Schema.Type<typeof TableSchema>;
+
+export const SanitizeRemovalSchema = Schema.Struct({
+  reason: Schema.Literal(
+    "tag-not-allowed",
+    "unsafe-element",
+    "attribute-not-allowed",
+    "event-handler",
+    "unsafe-url",
+    "comment"
+  ),
+  tag: Schema.optional(Schema.String),
+  attribute: Schema.optional(Schema.String),
+  value: Schema.optional(Schema.String),
+});
+
+export type SanitizeRemoval = Schema.Schema.Type<typeof SanitizeRemovalSchema>;
+
+export const SanitizeResultSchema = Schema.Struct({
+  html: Schema.String,
+  removed: Schema.Array(SanitizeRemovalSchema),
+});
+
+export type SanitizeResult = Schema.Schema.Type<typeof SanitizeResultSchema>;
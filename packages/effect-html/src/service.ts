@@ -1,9 +1,43 @@
 // biome-ignore lint: cheerio requires namespace import for tree shaking
 import * as cheerio from "cheerio";
-import { Effect } from "effect";
+import { Effect, Schema } from "effect";
 import { JsonService, validateAgainstSchema } from "effect-json";
+import { extractContent } from "./content.js";
 import { HtmlError } from "./errors.js";
-import { type HtmlMetadata, HtmlMetadataSchema } from "./schemas.js";
+import {
+  collectImages,
+  collectLinks,
+  collectTables,
+  type ExtractOptions,
+} from "./extract.js";
+import { type MarkdownOptions, renderMarkdown } from "./markdown.js";
+import {
+  type SanitizePolicy,
+  type SanitizePreset,
+  SanitizePresets,
+  sanitizeFragment,
+} from "./sanitize.js";
+import {
+  type HtmlMetadata,
+  HtmlMetadataSchema,
+  type Image,
+  ImageSchema,
+  type Link,
+  LinkSchema,
+  type MainContent,
+  MainContentSchema,
+  type SanitizeResult,
+  SanitizeResultSchema,
+  type Table,
+  TableSchema,
+} from "./schemas.js";
+
+/** Link types that mark an RSS, Atom or JSON feed */
+const FEED_TYPES: ReadonlySet<string> = new Set([
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+]);
 
 export interface HtmlServiceSchema {
   /**
@@ -14,7 +48,8 @@ export interface HtmlServiceSchema {
   ) => Effect.Effect<cheerio.CheerioAPI, HtmlError>;
 
   /**
-   * Extract metadata (title, description, etc.) from HTML content
+   * Extract metadata (title, description, Open Graph and Twitter card tags,
+   * canonical URL, hreflang alternates and feeds) from HTML content
    */
   readonly extractMetadata: (
     html: string,
@@ -24,6 +59,59 @@ export interface HtmlServiceSchema {
    * Extract JSON-LD data from HTML content
    */
   readonly extractJsonLd: (html: string) => Effect.Effect<unknown[], HtmlError>;
+
+  /**
+   * Extract the main readable content of a page, dropping navigation,
+   * footers, ads and other boilerplate by content-density scoring
+   */
+  readonly extractMainContent: (
+    html: string,
+  ) => Effect.Effect<MainContent, HtmlError>;
+
+  /**
+   * Convert HTML to Markdown, resolving links and images against
+   * `options.baseUrl`
+   */
+  readonly toMarkdown: (
+    html: string,
+    options?: MarkdownOptions,
+  ) => Effect.Effect<string, HtmlError>;
+
+  /**
+   * Extract every link with its href resolved against `options.baseUrl`,
+   * its `rel` tokens and whether it is marked `nofollow`
+   */
+  readonly extractLinks: (
+    html: string,
+    options?: ExtractOptions,
+  ) => Effect.Effect<readonly Link[], HtmlError>;
+
+  /**
+   * Extract every image with its source, `srcset` candidates, alt text and
+   * declared dimensions, resolving URLs against `options.baseUrl`
+   */
+  readonly extractImages: (
+    html: string,
+    options?: ExtractOptions,
+  ) => Effect.Effect<readonly Image[], HtmlError>;
+
+  /**
+   * Extract every table as header and row arrays of cell text, with spanned
+   * cells repeated so rows line up (ready for `effect-csv`'s `stringify`)
+   */
+  readonly extractTables: (
+    html: string,
+  ) => Effect.Effect<readonly Table[], HtmlError>;
+
+  /**
+   * Sanitize an HTML fragment against a policy or one of the presets
+   * (`"strict"`, `"basic-formatting"`, `"rich-content"`), reporting every
+   * tag, attribute and comment that was removed
+   */
+  readonly sanitize: (
+    html: string,
+    policy: SanitizePolicy | SanitizePreset,
+  ) => Effect.Effect<SanitizeResult, HtmlError>;
 }
 
 export class HtmlService extends Effect.Service<HtmlServiceSchema>()(
@@ -64,6 +152,24 @@ export class HtmlService extends Effect.Service<HtmlServiceSchema>()(
               $('link[rel="shortcut icon"]').attr("href") ||
               undefined,
             openGraph: {} as Record<string, string>,
+            twitter: {} as Record<string, string>,
+            canonical: $('link[rel~="canonical"]').attr("href") || undefined,
+            alternates: $('link[rel~="alternate"][hreflang][href]')
+              .toArray()
+              .map((element) => ({
+                hreflang: element.attribs.hreflang ?? "",
+                href: element.attribs.href ?? "",
+              })),
+            feeds: $('link[rel~="alternate"][href]')
+              .filter((_, element) =>
+                FEED_TYPES.has((element.attribs.type ?? "").toLowerCase()),
+              )
+              .toArray()
+              .map((element) => ({
+                type: (element.attribs.type ?? "").toLowerCase(),
+                href: element.attribs.href ?? "",
+                title: element.attribs.title || undefined,
+              })),
           };
 
           $('meta[property^="og:"]').each((_, element) => {
@@ -74,6 +180,18 @@ export class HtmlService extends Effect.Service<HtmlServiceSchema>()(
             }
           });
 
+          // Twitter cards use `name`, but `property` is common in the wild
+          $('meta[name^="twitter:"], meta[property^="twitter:"]').each(
+            (_, element) => {
+              const name =
+                $(element).attr("name") || $(element).attr("property");
+              const content = $(element).attr("content");
+              if (name && content) {
+                rawMetadata.twitter[name.replace("twitter:", "")] = content;
+              }
+            },
+          );
+
           return yield* validateAgainstSchema(
             HtmlMetadataSchema,
             rawMetadata,
@@ -113,10 +231,190 @@ export class HtmlService extends Effect.Service<HtmlServiceSchema>()(
           return results;
         });
 
+      const extractMainContent = (html: string) =>
+        Effect.gen(function* () {
+          const $ = yield* parse(html);
+          const content = yield* Effect.try({
+            try: () => extractContent($),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to extract main content: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+
+          if (content === undefined) {
+            return yield* Effect.fail(
+              new HtmlError({
+                reason:
+                  "Failed to extract main content: the document has no text outside boilerplate elements",
+              }),
+            );
+          }
+
+          return yield* validateAgainstSchema(MainContentSchema, content).pipe(
+            Effect.mapError(
+              (error) =>
+                new HtmlError({
+                  reason: `Main content validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                  cause: error,
+                }),
+            ),
+          );
+        });
+
+      const checkBaseUrl = (
+        action: string,
+        options: { readonly baseUrl?: string | undefined } | undefined,
+      ) =>
+        options?.baseUrl !== undefined && !URL.canParse(options.baseUrl)
+          ? Effect.fail(
+              new HtmlError({
+                reason: `Failed to ${action}: invalid base URL "${options.baseUrl}"`,
+              }),
+            )
+          : Effect.void;
+
+      const toMarkdown = (html: string, options?: MarkdownOptions) =>
+        Effect.gen(function* () {
+          yield* checkBaseUrl("convert HTML to Markdown", options);
+          const $ = yield* parse(html);
+          return yield* Effect.try({
+            try: () => renderMarkdown($, options),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to convert HTML to Markdown: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+        });
+
+      const extractLinks = (html: string, options?: ExtractOptions) =>
+        Effect.gen(function* () {
+          yield* checkBaseUrl("extract links", options);
+          const $ = yield* parse(html);
+          const links = yield* Effect.try({
+            try: () => collectLinks($, options),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to extract links: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+          return yield* validateAgainstSchema(
+            Schema.Array(LinkSchema),
+            links,
+          ).pipe(
+            Effect.mapError(
+              (error) =>
+                new HtmlError({
+                  reason: `Link validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                  cause: error,
+                }),
+            ),
+          );
+        });
+
+      const extractImages = (html: string, options?: ExtractOptions) =>
+        Effect.gen(function* () {
+          yield* checkBaseUrl("extract images", options);
+          const $ = yield* parse(html);
+          const images = yield* Effect.try({
+            try: () => collectImages($, options),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to extract images: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+          return yield* validateAgainstSchema(
+            Schema.Array(ImageSchema),
+            images,
+          ).pipe(
+            Effect.mapError(
+              (error) =>
+                new HtmlError({
+                  reason: `Image validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                  cause: error,
+                }),
+            ),
+          );
+        });
+
+      const extractTables = (html: string) =>
+        Effect.gen(function* () {
+          const $ = yield* parse(html);
+          const tables = yield* Effect.try({
+            try: () => collectTables($),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to extract tables: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+          return yield* validateAgainstSchema(
+            Schema.Array(TableSchema),
+            tables,
+          ).pipe(
+            Effect.mapError(
+              (error) =>
+                new HtmlError({
+                  reason: `Table validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                  cause: error,
+                }),
+            ),
+          );
+        });
+
+      const sanitize = (
+        html: string,
+        policy: SanitizePolicy | SanitizePreset,
+      ) =>
+        Effect.gen(function* () {
+          const resolved =
+            typeof policy === "string" ? SanitizePresets[policy] : policy;
+          if (resolved === undefined) {
+            return yield* Effect.fail(
+              new HtmlError({
+                reason: `Failed to sanitize HTML: unknown preset "${String(policy)}"`,
+              }),
+            );
+          }
+
+          const result = yield* Effect.try({
+            // Parsed as a fragment so no <html>/<body> wrapper is added
+            try: () =>
+              sanitizeFragment(cheerio.load(html, null, false), resolved),
+            catch: (error) =>
+              new HtmlError({
+                reason: `Failed to sanitize HTML: ${error instanceof Error ? error.message : String(error)}`,
+                cause: error,
+              }),
+          });
+          return yield* validateAgainstSchema(
+            SanitizeResultSchema,
+            result,
+          ).pipe(
+            Effect.mapError(
+              (error) =>
+                new HtmlError({
+                  reason: `Sanitize result validation failed: ${error instanceof Error ? error.message : String(error)}`,
+                  cause: error,
+                }),
+            ),
+          );
+        });
+
       return {
         parse,
         extractMetadata,
         extractJsonLd,
+        extractMainContent,
+        toMarkdown,
+        extractLinks,
+        extractImages,
+        extractTables,
+        sanitize,
       };
     }),
   },
@@ -0,0 +1,35 @@
+import type { CheerioAPI } from "cheerio";
+
+/**
+ * Resolve `url` against `base`, keeping it as written when there is no
+ * base or the result is not a valid URL.
+ */
+export const resolveUrl = (url: string, base: URL | undefined): string => {
+  if (base === undefined) {
+    return url;
+  }
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * The document's `<base href>`, resolved against `explicitBase`, or
+ * `explicitBase` itself when the document has no usable base.
+ */
+export const documentBaseUrl = (
+  $: CheerioAPI,
+  explicitBase: URL | undefined
+): URL | undefined => {
+  const href = $("base[href]").attr("href");
+  if (href === undefined) {
+    return explicitBase;
+  }
+  try {
+    return new URL(href, explicitBase);
+  } catch {
+    return explicitBase;
+  }
+};
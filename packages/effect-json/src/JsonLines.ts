@@ -8,18 +8,44 @@
  * as well as convenience functions for quick operations.
  */
 
-import { Effect, type Schema, Stream } from "effect";
+import { Effect, type Either, type Schema, Stream } from "effect";
 import { type JsonLinesParseError, ValidationError } from "./errors.js";
 import { validateAgainstSchema, validateForStringify } from "./schema.js";
+import {
+  type CollectedLines,
+  decodeBatch,
+  decodeStream,
+  type InvalidLine,
+  type JsonLinesParseOptions,
+  type NumberedLine,
+  parseLine,
+  splitLines,
+  streamLines,
+} from "./services/jsonlines/implementations/index.js";
 import {
   type JsonLinesStringifyOptions,
-  parseBatch,
-  parseStream,
   stringifyBatch,
 } from "./services/jsonlines/index.js";
 
+export type {
+  CollectedLines,
+  InvalidLine,
+  JsonLinesParseOptions,
+} from "./services/jsonlines/implementations/index.js";
 export type { JsonLinesStringifyOptions };
 
+/**
+ * Parse a line, then validate it against the schema
+ */
+const decodeLine =
+  <A, I, R>(schema: Schema.Schema<A, I, R>) =>
+  (
+    line: NumberedLine
+  ): Effect.Effect<A, JsonLinesParseError | ValidationError, R> =>
+    parseLine(line).pipe(
+      Effect.flatMap((raw) => validateAgainstSchema(schema, raw as I))
+    );
+
 /**
  * JsonLinesService - Service for JSON Lines format
  *
@@ -38,26 +64,10 @@ export class JsonLinesService extends Effect.Service<JsonLinesService>()(
          * Parse JSON Lines string with schema validation (batch)
          *
          * Parses a string containing newline-delimited JSON values into an array.
-         * Skips blank lines. Fails on first parse or validation error.
+         * Skips blank lines. Fails on first parse or validation error unless
+         * `onInvalid` says to skip or collect invalid lines.
          */
-        parseBatch: <A, I, R>(
-          schema: Schema.Schema<A, I, R>,
-          input: string
-        ): Effect.Effect<
-          ReadonlyArray<A>,
-          JsonLinesParseError | ValidationError,
-          R
-        > =>
-          Effect.gen(function* () {
-            const rawValues = yield* parseBatch(input);
-            // Validate each value against schema
-            const validated = yield* Effect.forEach(
-              rawValues,
-              (raw) => validateAgainstSchema(schema, raw as I),
-              { concurrency: "unbounded" }
-            );
-            return validated;
-          }),
+        parseBatch: parseJsonLines,
 
         /**
          * Stringify values to JSON Lines string with schema validation (batch)
@@ -112,15 +122,10 @@ export class JsonLinesService extends Effect.Service<JsonLinesService>()(
          *
          * Parses a stream of string chunks (which may split lines arbitrarily)
          * into a stream of validated values. Emits one value per complete JSON line.
-         * Fails stream on first parse or validation error.
+         * Fails stream on first parse or validation error unless `onInvalid`
+         * says to skip or collect invalid lines.
          */
-        parseStream: <A, I, R>(
-          schema: Schema.Schema<A, I, R>,
-          input: Stream.Stream<string, never, R>
-        ): Stream.Stream<A, JsonLinesParseError | ValidationError, R> =>
-          parseStream(input).pipe(
-            Stream.mapEffect((raw) => validateAgainstSchema(schema, raw as I))
-          ),
+        parseStream: streamParseJsonLines,
 
         /**
          * Stringify stream of values to JSON Lines with schema validation
@@ -168,7 +173,9 @@ export class JsonLinesService extends Effect.Service<JsonLinesService>()(
  * Parse JSON Lines string with schema validation (convenience function)
  *
  * Parses a string containing newline-delimited JSON values into an array.
- * Skips blank lines. Fails on first parse or validation error.
+ * Skips blank lines. Fails on first parse or validation error, unless
+ * `onInvalid` is "skip" (drop invalid lines) or "collect" (return them,
+ * with their line numbers, next to the valid values).
  *
  * @example
  * ```typescript
@@ -180,22 +187,40 @@ export class JsonLinesService extends Effect.Service<JsonLinesService>()(
  * const jsonl = '{"id":"1","message":"Started"}\n{"id":"2","message":"Done"}\n';
  * const events = await Effect.runPromise(parseJsonLines(Event, jsonl));
  * // events: [{ id: "1", message: "Started" }, { id: "2", message: "Done" }]
+ *
+ * const { valid, invalid } = await Effect.runPromise(
+ *   parseJsonLines(Event, '{"id":"1","message":"ok"}\n{oops\n', {
+ *     onInvalid: "collect",
+ *   })
+ * );
+ * // invalid: [{ lineNumber: 2, line: "{oops", error: JsonLinesParseError }]
  * ```
  */
-export const parseJsonLines = <A, I, R>(
+export function parseJsonLines<A, I, R>(
   schema: Schema.Schema<A, I, R>,
-  input: string
-): Effect.Effect<ReadonlyArray<A>, JsonLinesParseError | ValidationError, R> =>
-  Effect.gen(function* () {
-    const rawValues = yield* parseBatch(input);
-    // Validate each value against schema
-    const validated = yield* Effect.forEach(
-      rawValues,
-      (raw) => validateAgainstSchema(schema, raw as I),
-      { concurrency: "unbounded" }
-    );
-    return validated;
-  });
+  input: string,
+  options: JsonLinesParseOptions & { readonly onInvalid: "collect" }
+): Effect.Effect<
+  CollectedLines<A, JsonLinesParseError | ValidationError>,
+  never,
+  R
+>;
+export function parseJsonLines<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: string,
+  options?: JsonLinesParseOptions
+): Effect.Effect<readonly A[], JsonLinesParseError | ValidationError, R>;
+export function parseJsonLines<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: string,
+  options?: JsonLinesParseOptions
+): Effect.Effect<
+  readonly A[] | CollectedLines<A, JsonLinesParseError | ValidationError>,
+  JsonLinesParseError | ValidationError,
+  R
+> {
+  return decodeBatch(splitLines(input), decodeLine(schema), options?.onInvalid);
+}
 
 /**
  * Stringify values to JSON Lines string with schema validation (convenience function)
@@ -257,7 +282,9 @@ export const stringifyJsonLines = <A, I, R>(
  *
  * Parses a stream of string chunks (which may split lines arbitrarily)
  * into a stream of validated values. Emits one value per complete JSON line.
- * Fails stream on first parse or validation error.
+ * Fails stream on first parse or validation error, unless `onInvalid` is
+ * "skip" (drop invalid lines) or "collect" (emit `Either.right(value)` for
+ * valid lines and `Either.left(invalidLine)` for the others).
  *
  * @example
  * ```typescript
@@ -268,33 +295,40 @@ export const stringifyJsonLines = <A, I, R>(
  *
  * const events = streamParseJsonLines(Event, chunks);
  * const collected = await Effect.runPromise(Stream.runCollect(events));
- * ```
- */
-/**
- * Parse stream of JSON Lines chunks with schema validation (convenience function)
- *
- * Parses a stream of string chunks (which may split lines arbitrarily)
- * into a stream of validated values. Emits one value per complete JSON line.
- * Fails stream on first parse or validation error.
- *
- * @example
- * ```typescript
- * const chunks = Stream.fromIterable([
- *   '{"id":"1","message":"Started"}\n',
- *   '{"id":"2","message":"Done"}\n'
- * ]);
  *
- * const events = streamParseJsonLines(Event, chunks);
- * const collected = await Effect.runPromise(Stream.runCollect(events));
+ * // Keep going past bad lines in a large dataset
+ * const robust = streamParseJsonLines(Event, chunks, { onInvalid: "skip" });
  * ```
  */
-export const streamParseJsonLines = <A, I, R>(
+export function streamParseJsonLines<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: Stream.Stream<string, never, R>,
+  options: JsonLinesParseOptions & { readonly onInvalid: "collect" }
+): Stream.Stream<
+  Either.Either<A, InvalidLine<JsonLinesParseError | ValidationError>>,
+  never,
+  R
+>;
+export function streamParseJsonLines<A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  input: Stream.Stream<string, never, R>,
+  options?: JsonLinesParseOptions
+): Stream.Stream<A, JsonLinesParseError | ValidationError, R>;
+export function streamParseJsonLines<A, I, R>(
   schema: Schema.Schema<A, I, R>,
-  input: Stream.Stream<string, never, R>
-): Stream.Stream<A, JsonLinesParseError | ValidationError, R> =>
-  parseStream(input).pipe(
-    Stream.mapEffect((raw) => validateAgainstSchema(schema, raw as I))
+  input: Stream.Stream<string, never, R>,
+  options?: JsonLinesParseOptions
+): Stream.Stream<
+  A | Either.Either<A, InvalidLine<JsonLinesParseError | ValidationError>>,
+  JsonLinesParseError | ValidationError,
+  R
+> {
+  return decodeStream(
+    streamLines(input),
+    decodeLine(schema),
+    options?.onInvalid
   );
+}
 
 /**
  * Stringify stream of values to JSON Lines with schema validation (convenience function)
@@ -0,0 +1,232 @@
+/**
+ * Tests for the JSON Schema bridges
+ */
+
+import { Effect, Either, Option, Schema, SchemaAST } from "effect";
+import { describe, expect, it } from "vitest";
+import { fromJsonSchema, toJsonSchema } from "../json-schema.js";
+
+const convert = (document: unknown) => Effect.runSync(fromJsonSchema(document));
+
+const accepts = (document: unknown, value: unknown) =>
+  Either.isRight(Schema.decodeUnknownEither(convert(document))(value));
+
+describe("toJsonSchema", () => {
+  it("should describe the encoded side of a schema", async () => {
+    const SearchArgs = Schema.Struct({
+      query: Schema.String.annotations({ description: "Search terms" }),
+      limit: Schema.optional(Schema.NumberFromString),
+    });
+
+    const document = await Effect.runPromise(toJsonSchema(SearchArgs));
+
+    expect(document).toMatchObject({
+      type: "object",
+      required: ["query"],
+      properties: {
+        query: { type: "string", description: "Search terms" },
+        limit: { $ref: "#/$defs/NumberFromString" },
+      },
+      additionalProperties: false,
+    });
+    expect(document.$defs?.NumberFromString).toMatchObject({ type: "string" });
+  });
+
+  it("should honour the target dialect", async () => {
+    const document = await Effect.runPromise(
+      toJsonSchema(Schema.Tuple(Schema.String, Schema.Number), {
+        target: "jsonSchema2020-12",
+      })
+    );
+
+    expect(document).toMatchObject({
+      prefixItems: [{ type: "string" }, { type: "number" }],
+    });
+  });
+
+  it("should fail with JsonSchemaError for schemas with no JSON form", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(toJsonSchema(Schema.BigIntFromSelf))
+    );
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("JsonSchemaError");
+  });
+});
+
+describe("fromJsonSchema", () => {
+  it("should validate objects with required and optional properties", () => {
+    const document = {
+      type: "object",
+      properties: {
+        id: { type: "integer", minimum: 1 },
+        email: { type: "string", pattern: "^[^@]+@[^@]+$" },
+        nickname: { type: "string", maxLength: 8 },
+      },
+      required: ["id", "email"],
+      additionalProperties: false,
+    };
+
+    expect(accepts(document, { id: 1, email: "a@b.io" })).toBe(true);
+    expect(accepts(document, { id: 1, email: "a@b.io", nickname: "al" })).toBe(
+      true
+    );
+    expect(accepts(document, { id: 0, email: "a@b.io" })).toBe(false);
+    expect(accepts(document, { id: 1.5, email: "a@b.io" })).toBe(false);
+    expect(accepts(document, { id: 1, email: "nope" })).toBe(false);
+    expect(accepts(document, { id: 1 })).toBe(false);
+    expect(accepts(document, { id: 1, email: "a@b.io", extra: true })).toBe(
+      false
+    );
+  });
+
+  it("should keep additional properties unless they are disallowed", () => {
+    const schema = convert({
+      type: "object",
+      properties: { a: { type: "number" } },
+      additionalProperties: { type: "string" },
+    });
+
+    expect(Schema.decodeUnknownSync(schema)({ a: 1, b: "x" })).toEqual({
+      a: 1,
+      b: "x",
+    });
+    expect(
+      Either.isLeft(Schema.decodeUnknownEither(schema)({ a: 1, b: 2 }))
+    ).toBe(true);
+  });
+
+  it("should support enum, const, unions and nullable types", () => {
+    expect(accepts({ enum: ["a", "b", null] }, null)).toBe(true);
+    expect(accepts({ enum: ["a", "b"] }, "c")).toBe(false);
+    expect(accepts({ const: { x: [1] } }, { x: [1] })).toBe(true);
+    expect(accepts({ const: { x: [1] } }, { x: [2] })).toBe(false);
+    expect(accepts({ type: ["string", "null"] }, null)).toBe(true);
+    expect(accepts({ type: "string", nullable: true }, null)).toBe(true);
+    expect(
+      accepts({ anyOf: [{ type: "number" }, { type: "boolean" }] }, "x")
+    ).toBe(false);
+  });
+
+  it("should support arrays and tuples", () => {
+    expect(
+      accepts({ type: "array", items: { type: "number" }, minItems: 1 }, [])
+    ).toBe(false);
+    expect(
+      accepts(
+        {
+          type: "array",
+          prefixItems: [{ type: "string" }, { type: "number" }],
+          minItems: 2,
+          items: false,
+        },
+        ["a", 1]
+      )
+    ).toBe(true);
+    expect(
+      accepts(
+        {
+          type: "array",
+          items: [{ type: "string" }],
+          minItems: 1,
+          additionalItems: false,
+        },
+        ["a", "b"]
+      )
+    ).toBe(false);
+  });
+
+  it("should merge allOf members", () => {
+    const document = {
+      $defs: {
+        Named: {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["name"],
+        },
+      },
+      allOf: [
+        { $ref: "#/$defs/Named" },
+        { properties: { age: { type: "number" } }, required: ["age"] },
+      ],
+    };
+
+    expect(accepts(document, { name: "Ada", age: 36 })).toBe(true);
+    expect(accepts(document, { name: "Ada" })).toBe(false);
+  });
+
+  it("should resolve recursive references", () => {
+    const document = {
+      $ref: "#/$defs/Category",
+      $defs: {
+        Category: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            children: { type: "array", items: { $ref: "#/$defs/Category" } },
+          },
+          required: ["name", "children"],
+        },
+      },
+    };
+
+    expect(
+      accepts(document, {
+        name: "root",
+        children: [{ name: "leaf", children: [] }],
+      })
+    ).toBe(true);
+    expect(
+      accepts(document, { name: "root", children: [{ name: "leaf" }] })
+    ).toBe(false);
+  });
+
+  it("should round-trip schemas produced by toJsonSchema", async () => {
+    const Order = Schema.Struct({
+      id: Schema.String,
+      quantity: Schema.Int.pipe(Schema.between(1, 10)),
+      status: Schema.Literal("open", "closed"),
+      notes: Schema.optional(Schema.Array(Schema.String)),
+    });
+
+    const document = await Effect.runPromise(toJsonSchema(Order));
+
+    expect(accepts(document, { id: "a", quantity: 2, status: "open" })).toBe(
+      true
+    );
+    expect(accepts(document, { id: "a", quantity: 11, status: "open" })).toBe(
+      false
+    );
+    expect(accepts(document, { id: "a", quantity: 2, status: "paid" })).toBe(
+      false
+    );
+  });
+
+  it("should carry title and description as annotations", () => {
+    const schema = convert({ type: "string", description: "A user's name" });
+
+    expect(SchemaAST.getDescriptionAnnotation(schema.ast)).toEqual(
+      Option.some("A user's name")
+    );
+  });
+
+  it("should fail with the location of unsupported keywords", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        fromJsonSchema({
+          type: "object",
+          properties: { a: { not: { type: "string" } } },
+        })
+      )
+    );
+
+    expect(Either.isLeft(result) && result.left.path).toBe("/properties/a/not");
+  });
+
+  it("should fail for unresolvable references", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(fromJsonSchema({ $ref: "#/$defs/Missing" }))
+    );
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("JsonSchemaError");
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * JSON Lines file tests
+ *
+ * Tests the sidecar index, range reads and append-only writers
+ */
+
+import {
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Either } from "effect";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { JsonLinesFileError, JsonLinesParseError } from "../errors.js";
+import {
+  appendJsonLines,
+  buildIndex,
+  indexPath,
+  openAppender,
+  readRange,
+} from "../services/jsonlines/index.js";
+
+let directory: string;
+let file: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "effect-json-"));
+  file = join(directory, "data.jsonl");
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const rows = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, index) => ({ id: from + index }));
+
+const lines = (values: readonly unknown[]) =>
+  values.map((value) => `${JSON.stringify(value)}\n`).join("");
+
+describe("JSON Lines files", () => {
+  describe("buildIndex", () => {
+    it("indexes every newline-terminated line", async () => {
+      await writeFile(file, lines(rows(1, 5)));
+
+      const index = await Effect.runPromise(buildIndex(file));
+
+      expect(index.lineCount).toBe(5);
+      expect(index.indexedBytes).toBe((await stat(file)).size);
+      expect((await stat(indexPath(file))).size).toBe(88 + 5 * 8);
+    });
+
+    it("leaves an unterminated final line out of the index", async () => {
+      await writeFile(file, `${lines(rows(1, 2))}{"id":3}`);
+
+      const index = await Effect.runPromise(buildIndex(file));
+
+      expect(index.lineCount).toBe(2);
+    });
+
+    it("fails with JsonLinesFileError for a missing file", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(buildIndex(join(directory, "missing.jsonl")))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(JsonLinesFileError);
+        expect(result.left.operation).toBe("index");
+      }
+    });
+  });
+
+  describe("readRange", () => {
+    it("reads a range of lines", async () => {
+      await writeFile(file, lines(rows(1, 100)));
+
+      const result = await Effect.runPromise(readRange(file, 40, 3));
+
+      expect(result).toEqual(rows(40, 42));
+    });
+
+    it("stops at the end of the file", async () => {
+      await writeFile(file, lines(rows(1, 5)));
+
+      expect(await Effect.runPromise(readRange(file, 4, 10))).toEqual(
+        rows(4, 5)
+      );
+      expect(await Effect.runPromise(readRange(file, 10, 10))).toEqual([]);
+    });
+
+    it("reads an unterminated final line", async () => {
+      await writeFile(file, `${lines(rows(1, 2))}{"id":3}`);
+
+      const result = await Effect.runPromise(readRange(file, 2, 5));
+
+      expect(result).toEqual(rows(2, 3));
+    });
+
+    it("extends the index after the file is appended to", async () => {
+      await writeFile(file, lines(rows(1, 3)));
+      await Effect.runPromise(buildIndex(file));
+      await Effect.runPromise(appendJsonLines(file, rows(4, 6)));
+
+      const result = await Effect.runPromise(readRange(file, 3, 4));
+
+      expect(result).toEqual(rows(3, 6));
+      expect((await Effect.runPromise(buildIndex(file))).lineCount).toBe(6);
+    });
+
+    it("rebuilds the index after the file is rewritten", async () => {
+      await writeFile(file, lines(rows(1, 10)));
+      await Effect.runPromise(buildIndex(file));
+      await writeFile(file, lines(rows(100, 102)));
+
+      const result = await Effect.runPromise(readRange(file, 1, 5));
+
+      expect(result).toEqual(rows(100, 102));
+    });
+
+    it("rebuilds the index after a rewrite that keeps the size", async () => {
+      await writeFile(file, '{"id":1}\n{"id":2}\n{"id":3}\n');
+      await Effect.runPromise(buildIndex(file));
+      await writeFile(file, '{"id":1,"xyz":0}\n[2]\n[3,4]\n');
+
+      expect(await Effect.runPromise(readRange(file, 2, 2))).toEqual([
+        [2],
+        [3, 4],
+      ]);
+    });
+
+    it("rebuilds the index after a rewrite that grows the file", async () => {
+      await writeFile(file, lines(rows(1, 3)));
+      await Effect.runPromise(buildIndex(file));
+      await writeFile(file, `[1]\n${lines(rows(2, 6))}`);
+
+      expect(await Effect.runPromise(readRange(file, 1, 3))).toEqual([
+        [1],
+        ...rows(2, 3),
+      ]);
+    });
+
+    it("trusts an index whose file is unmodified since indexing", async () => {
+      await writeFile(file, lines(rows(1, 3)));
+      const past = new Date(Date.now() - 60_000);
+      await utimes(file, past, past);
+      await Effect.runPromise(buildIndex(file));
+      const indexed = (await stat(indexPath(file))).mtimeMs;
+
+      expect(await Effect.runPromise(readRange(file, 2, 1))).toEqual(
+        rows(2, 2)
+      );
+      expect((await stat(indexPath(file))).mtimeMs).toBe(indexed);
+    });
+
+    it("reports physical line numbers for invalid lines", async () => {
+      await writeFile(file, '{"id":1}\n\n{oops\n{"id":4}\n');
+
+      const failed = await Effect.runPromise(
+        Effect.either(readRange(file, 1, 4))
+      );
+      const collected = await Effect.runPromise(
+        readRange(file, 2, 3, { onInvalid: "collect" })
+      );
+
+      expect(Either.isLeft(failed)).toBe(true);
+      if (Either.isLeft(failed)) {
+        expect(failed.left).toBeInstanceOf(JsonLinesParseError);
+      }
+      expect(collected.valid).toEqual([{ id: 4 }]);
+      expect(collected.invalid[0]?.lineNumber).toBe(3);
+    });
+
+    it("rejects an invalid range", async () => {
+      await writeFile(file, lines(rows(1, 3)));
+
+      const result = await Effect.runPromise(
+        Effect.either(readRange(file, 0, 1))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(JsonLinesFileError);
+      }
+    });
+  });
+
+  describe("openAppender", () => {
+    it("creates the file and appends whole lines", async () => {
+      await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const appender = yield* openAppender(file);
+            yield* appender.append(rows(1, 2));
+            yield* appender.append([{ id: 3 }]);
+          })
+        )
+      );
+
+      expect(await readFile(file, "utf-8")).toBe(lines(rows(1, 3)));
+    });
+
+    it("truncates an incomplete trailing line on open", async () => {
+      await writeFile(file, `${lines(rows(1, 2))}{"id":`);
+
+      const recovered = await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const appender = yield* openAppender(file);
+            yield* appender.append([{ id: 3 }]);
+            return appender.recoveredBytes;
+          })
+        )
+      );
+
+      expect(recovered).toBe(6);
+      expect(await readFile(file, "utf-8")).toBe(lines(rows(1, 3)));
+    });
+
+    it("keeps a complete last record without a final newline", async () => {
+      await writeFile(file, '{"id":1}\n{"id":2}');
+
+      const recovered = await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const appender = yield* openAppender(file);
+            yield* appender.append([{ id: 3 }]);
+            return appender.recoveredBytes;
+          })
+        )
+      );
+
+      expect(recovered).toBe(0);
+      expect(await readFile(file, "utf-8")).toBe(lines(rows(1, 3)));
+    });
+
+    it("writes nothing when a value cannot be stringified", async () => {
+      await writeFile(file, lines(rows(1, 1)));
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      const result = await Effect.runPromise(
+        Effect.either(appendJsonLines(file, [{ id: 2 }, circular]))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      expect(await readFile(file, "utf-8")).toBe(lines(rows(1, 1)));
+    });
+
+    it("serializes concurrent appends", async () => {
+      await Effect.runPromise(
+        Effect.scoped(
+          Effect.gen(function* () {
+            const appender = yield* openAppender(file, { sync: false });
+            yield* Effect.forEach(
+              rows(1, 20),
+              (row) => appender.append([row]),
+              { concurrency: "unbounded" }
+            );
+          })
+        )
+      );
+
+      const written = (await readFile(file, "utf-8"))
+        .trimEnd()
+        .split("\n")
+        .map((line) => JSON.parse(line) as { id: number });
+      expect(written.map((row) => row.id).sort((a, b) => a - b)).toEqual(
+        rows(1, 20).map((row) => row.id)
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Invalid line policy tests
+ *
+ * Tests onInvalid "skip" | "collect" | "fail" for the raw and
+ * schema-validating JSON Lines parsers
+ */
+
+import { Chunk, Effect, Either, Schema, Stream } from "effect";
+import { describe, expect, it } from "vitest";
+import { JsonLinesParseError, ValidationError } from "../errors.js";
+import { parseJsonLines, streamParseJsonLines } from "../JsonLines.js";
+import { parseBatch, parseStream } from "../services/jsonlines/index.js";
+
+const Row = Schema.Struct({ id: Schema.Number });
+
+const input = '{"id":1}\n\n{oops\n{"id":"two"}\n{"id":3}\n';
+
+describe("onInvalid policies", () => {
+  describe("parseBatch", () => {
+    it("fails on the first invalid line by default", async () => {
+      const result = await Effect.runPromise(Effect.either(parseBatch(input)));
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(JsonLinesParseError);
+        expect(result.left.lineNumber).toBe(3);
+      }
+    });
+
+    it("skips invalid lines", async () => {
+      const result = await Effect.runPromise(
+        parseBatch(input, { onInvalid: "skip" })
+      );
+
+      expect(result).toEqual([{ id: 1 }, { id: "two" }, { id: 3 }]);
+    });
+
+    it("collects invalid lines with physical line numbers", async () => {
+      const result = await Effect.runPromise(
+        parseBatch(input, { onInvalid: "collect" })
+      );
+
+      expect(result.valid).toEqual([{ id: 1 }, { id: "two" }, { id: 3 }]);
+      expect(result.invalid).toHaveLength(1);
+      expect(result.invalid[0]?.lineNumber).toBe(3);
+      expect(result.invalid[0]?.line).toBe("{oops");
+      expect(result.invalid[0]?.error).toBeInstanceOf(JsonLinesParseError);
+    });
+
+    it("numbers CRLF lines like LF lines", async () => {
+      const result = await Effect.runPromise(
+        parseBatch('{"id":1}\r\n{oops\r\n', { onInvalid: "collect" })
+      );
+
+      expect(result.invalid[0]?.lineNumber).toBe(2);
+      expect(result.invalid[0]?.line).toBe("{oops");
+    });
+  });
+
+  describe("parseStream", () => {
+    const chunks = Stream.fromIterable(['{"id":1}\n\n{oo', 'ps\n{"id":3}']);
+
+    it("fails the stream by default", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(Stream.runCollect(parseStream(chunks)))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+
+    it("skips invalid lines", async () => {
+      const result = await Effect.runPromise(
+        Stream.runCollect(parseStream(chunks, { onInvalid: "skip" }))
+      );
+
+      expect(Chunk.toReadonlyArray(result)).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+
+    it("emits invalid lines as Either.left", async () => {
+      const result = Chunk.toReadonlyArray(
+        await Effect.runPromise(
+          Stream.runCollect(parseStream(chunks, { onInvalid: "collect" }))
+        )
+      );
+
+      expect(result.filter(Either.isRight).map((item) => item.right)).toEqual([
+        { id: 1 },
+        { id: 3 },
+      ]);
+      const invalid = result.filter(Either.isLeft).map((item) => item.left);
+      expect(invalid).toHaveLength(1);
+      expect(invalid[0]?.lineNumber).toBe(3);
+      expect(invalid[0]?.line).toBe("{oops");
+    });
+
+    it("can be run more than once", async () => {
+      const stream = parseStream(chunks, { onInvalid: "skip" });
+      const first = await Effect.runPromise(Stream.runCollect(stream));
+      const second = await Effect.runPromise(Stream.runCollect(stream));
+
+      expect(Chunk.toReadonlyArray(second)).toEqual(
+        Chunk.toReadonlyArray(first)
+      );
+    });
+  });
+
+  describe("with a schema", () => {
+    it("fails on validation errors by default", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(parseJsonLines(Row, '{"id":1}\n{"id":"two"}\n'))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it("skips lines that fail to parse or validate", async () => {
+      const result = await Effect.runPromise(
+        parseJsonLines(Row, input, { onInvalid: "skip" })
+      );
+
+      expect(result).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+
+    it("collects parse and validation errors", async () => {
+      const result = await Effect.runPromise(
+        parseJsonLines(Row, input, { onInvalid: "collect" })
+      );
+
+      expect(result.valid).toEqual([{ id: 1 }, { id: 3 }]);
+      expect(result.invalid.map((line) => line.lineNumber)).toEqual([3, 4]);
+      expect(result.invalid[0]?.error).toBeInstanceOf(JsonLinesParseError);
+      expect(result.invalid[1]?.error).toBeInstanceOf(ValidationError);
+    });
+
+    it("collects invalid lines from a stream", async () => {
+      const result = Chunk.toReadonlyArray(
+        await Effect.runPromise(
+          Stream.runCollect(
+            streamParseJsonLines(Row, Stream.make(input), {
+              onInvalid: "collect",
+            })
+          )
+        )
+      );
+
+      expect(result.filter(Either.isRight).map((item) => item.right)).toEqual([
+        { id: 1 },
+        { id: 3 },
+      ]);
+      expect(
+        result.filter(Either.isLeft).map((item) => item.left.lineNumber)
+      ).toEqual([3, 4]);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for JSON Patch (RFC 6902) support
+ */
+
+import { Effect, Either, Schema } from "effect";
+import { describe, expect, it } from "vitest";
+import { applyPatch, diff, type JsonPatch } from "../patch.js";
+
+const apply = (document: unknown, patch: unknown) =>
+  Effect.runSync(Effect.either(applyPatch(document, patch)));
+
+describe("applyPatch", () => {
+  it("should add object members and insert into arrays", () => {
+    expect(
+      apply({ foo: "bar" }, [{ op: "add", path: "/baz", value: "qux" }])
+    ).toEqual(Either.right({ foo: "bar", baz: "qux" }));
+    expect(
+      apply({ foo: ["bar", "baz"] }, [
+        { op: "add", path: "/foo/1", value: "qux" },
+      ])
+    ).toEqual(Either.right({ foo: ["bar", "qux", "baz"] }));
+    expect(
+      apply({ foo: ["bar"] }, [{ op: "add", path: "/foo/-", value: "baz" }])
+    ).toEqual(Either.right({ foo: ["bar", "baz"] }));
+  });
+
+  it("should add __proto__ as an own member without changing the prototype", () => {
+    const result = Either.getOrThrow(
+      apply({}, [{ op: "add", path: "/__proto__", value: { x: 1 } }])
+    ) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(JSON.stringify(result)).toBe('{"__proto__":{"x":1}}');
+    expect(result.x).toBeUndefined();
+  });
+
+  it("should remove, replace, move and copy values", () => {
+    const result = apply({ a: { b: 1, c: [1, 2, 3] }, d: "x" }, [
+      { op: "remove", path: "/a/c/1" },
+      { op: "replace", path: "/d", value: "y" },
+      { op: "move", from: "/a/b", path: "/e" },
+      { op: "copy", from: "/a/c", path: "/f" },
+    ]);
+
+    expect(result).toEqual(
+      Either.right({ a: { c: [1, 3] }, d: "y", e: 1, f: [1, 3] })
+    );
+  });
+
+  it("should compare values structurally in test operations", () => {
+    const document = { a: { x: 1, y: [1, 2] } };
+
+    expect(
+      apply(document, [{ op: "test", path: "/a", value: { y: [1, 2], x: 1 } }])
+    ).toEqual(Either.right(document));
+    expect(
+      Either.isLeft(apply(document, [{ op: "test", path: "/a/x", value: "1" }]))
+    ).toBe(true);
+  });
+
+  it("should report the failing operation and leave the input untouched", () => {
+    const document = { a: 1 };
+
+    const result = apply(document, [
+      { op: "replace", path: "/a", value: 2 },
+      { op: "remove", path: "/missing" },
+    ]);
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("PatchError");
+      expect(result.left.operation).toBe(1);
+      expect(result.left.op).toBe("remove");
+      expect(result.left.path).toBe("/missing");
+      expect(result.left.cause?.name).toBe("PointerError");
+    }
+    expect(document).toEqual({ a: 1 });
+  });
+
+  it("should reject moving a value into its own children", () => {
+    const result = apply({ a: { b: {} } }, [
+      { op: "move", from: "/a", path: "/a/b/c" },
+    ]);
+
+    expect(Either.isLeft(result) && result.left.op).toBe("move");
+  });
+
+  it("should reject malformed patches", () => {
+    const result = apply({}, [{ op: "frobnicate", path: "/a" }]);
+
+    expect(Either.isLeft(result) && result.left.message).toContain(
+      "Invalid JSON Patch"
+    );
+  });
+
+  describe("with a schema", () => {
+    const User = Schema.Struct({
+      name: Schema.String,
+      age: Schema.Number.pipe(Schema.nonNegative()),
+      joined: Schema.DateFromString,
+    });
+    const user = {
+      name: "Paul",
+      age: 40,
+      joined: new Date("2024-01-01T00:00:00.000Z"),
+    };
+
+    it("should patch the encoded form and decode the result", async () => {
+      const result = await Effect.runPromise(
+        applyPatch(
+          user,
+          [
+            {
+              op: "replace",
+              path: "/joined",
+              value: "2025-06-01T00:00:00.000Z",
+            },
+          ],
+          User
+        )
+      );
+
+      expect(result.joined).toEqual(new Date("2025-06-01T00:00:00.000Z"));
+    });
+
+    it("should fail with ValidationError when the result is invalid", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          applyPatch(user, [{ op: "replace", path: "/age", value: -1 }], User)
+        )
+      );
+
+      expect(Either.isLeft(result) && result.left._tag).toBe("ValidationError");
+    });
+  });
+});
+
+describe("diff", () => {
+  const patched = (before: unknown, patch: JsonPatch) =>
+    Effect.runSync(applyPatch(before, patch));
+
+  it("should return an empty patch for equal documents", () => {
+    expect(diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+
+  it("should diff object members", () => {
+    const before = { name: "Paul", age: 40, tags: ["a"] };
+    const after = { name: "Ada", tags: ["a"], email: "ada@example.com" };
+
+    const patch = diff(before, after);
+
+    expect(patch).toEqual<JsonPatch>([
+      { op: "remove", path: "/age" },
+      { op: "replace", path: "/name", value: "Ada" },
+      { op: "add", path: "/email", value: "ada@example.com" },
+    ]);
+    expect(patched(before, patch)).toEqual(after);
+  });
+
+  it("should emit a single add for an insertion into an array", () => {
+    const patch = diff([1, 2, 3, 4], [1, 2, 9, 3, 4]);
+
+    expect(patch).toEqual<JsonPatch>([{ op: "add", path: "/2", value: 9 }]);
+  });
+
+  it("should diff changed array elements in place", () => {
+    const before = [
+      { id: 1, done: false },
+      { id: 2, done: false },
+    ];
+    const after = [
+      { id: 1, done: false },
+      { id: 2, done: true },
+    ];
+
+    const patch = diff(before, after);
+
+    expect(patch).toEqual<JsonPatch>([
+      { op: "replace", path: "/1/done", value: true },
+    ]);
+    expect(patched(before, patch)).toEqual(after);
+  });
+
+  it("should round-trip arbitrary reorderings and type changes", () => {
+    const cases: ReadonlyArray<readonly [unknown, unknown]> = [
+      [
+        [1, 2, 3, 4, 5],
+        [5, 3, 1, "x", 2],
+      ],
+      [{ a: [1, 2] }, { a: { 0: 1 } }],
+      [
+        { "a/b": 1, "m~n": [] },
+        { "a/b": 2, "m~n": [null] },
+      ],
+      ["x", { a: 1 }],
+    ];
+
+    for (const [before, after] of cases) {
+      expect(patched(before, diff(before, after))).toEqual(after);
+    }
+  });
+});
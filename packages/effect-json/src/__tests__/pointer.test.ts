@@ -0,0 +1,150 @@
+/**
+ * Tests for JSON Pointer (RFC 6901) support
+ */
+
+import { Effect, Either } from "effect";
+import { describe, expect, it } from "vitest";
+import { PointerError } from "../errors.js";
+import {
+  formatPointer,
+  getPointer,
+  parsePointer,
+  setPointer,
+} from "../pointer.js";
+
+// Example document from RFC 6901, section 5
+const rfcDocument = {
+  foo: ["bar", "baz"],
+  "": 0,
+  "a/b": 1,
+  "c%d": 2,
+  "e^f": 3,
+  "g|h": 4,
+  "i\\j": 5,
+  'k"l': 6,
+  " ": 7,
+  "m~n": 8,
+};
+
+const get = (document: unknown, pointer: string) =>
+  Effect.runSync(Effect.either(getPointer(document, pointer)));
+
+describe("parsePointer / formatPointer", () => {
+  it("should unescape ~1 and ~0 in that order", () => {
+    expect(parsePointer("/a~1b/m~0n/~01")).toEqual(["a/b", "m~n", "~1"]);
+  });
+
+  it("should accept the URI fragment form", () => {
+    expect(parsePointer("#/c%25d")).toEqual(["c%d"]);
+    expect(parsePointer("#")).toEqual([]);
+  });
+
+  it("should reject pointers without a leading slash or with bad escapes", () => {
+    expect(() => parsePointer("foo")).toThrow(PointerError);
+    expect(() => parsePointer("/a~2")).toThrow(PointerError);
+  });
+
+  it("should escape tokens when formatting", () => {
+    expect(formatPointer(["a/b", "m~n", 0])).toBe("/a~1b/m~0n/0");
+    expect(parsePointer(formatPointer(["~1/"]))).toEqual(["~1/"]);
+  });
+});
+
+describe("getPointer", () => {
+  it("should resolve every pointer from the RFC 6901 examples", () => {
+    const expected: ReadonlyArray<readonly [string, unknown]> = [
+      ["", rfcDocument],
+      ["/foo", ["bar", "baz"]],
+      ["/foo/0", "bar"],
+      ["/", 0],
+      ["/a~1b", 1],
+      ["/c%d", 2],
+      ["/e^f", 3],
+      ["/g|h", 4],
+      ["/i\\j", 5],
+      ['/k"l', 6],
+      ["/ ", 7],
+      ["/m~0n", 8],
+    ];
+
+    for (const [pointer, value] of expected) {
+      expect(get(rfcDocument, pointer)).toEqual(Either.right(value));
+    }
+  });
+
+  it("should fail with not_found for missing members and indexes", () => {
+    const missing = get(rfcDocument, "/nope");
+    const outOfBounds = get(rfcDocument, "/foo/2");
+
+    expect(Either.isLeft(missing) && missing.left.reason).toBe("not_found");
+    expect(Either.isLeft(outOfBounds) && outOfBounds.left.reason).toBe(
+      "not_found"
+    );
+  });
+
+  it("should fail with syntax for non-numeric array indexes", () => {
+    const result = get(rfcDocument, "/foo/01");
+
+    expect(Either.isLeft(result) && result.left.reason).toBe("syntax");
+  });
+
+  it("should fail with invalid_target when descending into a scalar", () => {
+    const result = get({ a: 1 }, "/a/b");
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("PointerError");
+    expect(Either.isLeft(result) && result.left.reason).toBe("invalid_target");
+  });
+});
+
+describe("setPointer", () => {
+  it("should replace and create object members without mutating the input", async () => {
+    const document = { user: { name: "Paul" } };
+
+    const updated = await Effect.runPromise(
+      setPointer(document, "/user/email", "paul@example.com")
+    );
+
+    expect(updated).toEqual({
+      user: { name: "Paul", email: "paul@example.com" },
+    });
+    expect(document).toEqual({ user: { name: "Paul" } });
+  });
+
+  it("should set __proto__ as an own member", async () => {
+    const updated = (await Effect.runPromise(
+      setPointer({ a: 1 }, "/__proto__", { polluted: true })
+    )) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(updated)).toBe(Object.prototype);
+    expect(JSON.stringify(updated)).toBe(
+      '{"a":1,"__proto__":{"polluted":true}}'
+    );
+    expect(updated.polluted).toBeUndefined();
+  });
+
+  it("should replace array elements and append with -", async () => {
+    const replaced = await Effect.runPromise(
+      setPointer({ tags: ["a", "b"] }, "/tags/0", "z")
+    );
+    const appended = await Effect.runPromise(
+      setPointer({ tags: ["a"] }, "/tags/-", "b")
+    );
+
+    expect(replaced).toEqual({ tags: ["z", "b"] });
+    expect(appended).toEqual({ tags: ["a", "b"] });
+  });
+
+  it("should replace the whole document at the root pointer", async () => {
+    const result = await Effect.runPromise(setPointer({ a: 1 }, "", [1]));
+
+    expect(result).toEqual([1]);
+  });
+
+  it("should fail when the parent does not exist", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(setPointer({}, "/missing/child", 1))
+    );
+
+    expect(Either.isLeft(result) && result.left.reason).toBe("not_found");
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Source location tests for effect-json
+ *
+ * Tests mapping parse and validation errors back to the JSON/JSONC text
+ */
+
+import { Effect, Either, Schema } from "effect";
+import { describe, expect, it } from "vitest";
+import { parseJson, parseJsonc } from "../services/json/index.js";
+import { codeFrame, scanJson } from "../utils/source.js";
+
+const Config = Schema.Struct({
+  name: Schema.String,
+  port: Schema.Number,
+  hosts: Schema.Array(Schema.String),
+});
+
+describe("scanJson", () => {
+  it("should record the span of every value by JSON Pointer", () => {
+    const text = '{"a": [1, {"b~c": true}], "d/e": null}';
+    const { spans, error } = scanJson(text);
+
+    expect(error).toBeUndefined();
+    expect(spans.get("")).toEqual({ start: 0, end: text.length });
+    expect(spans.get("/a/0")).toEqual({ start: 7, end: 8 });
+    expect(
+      text.slice(spans.get("/a/1/b~0c")?.start, spans.get("/a/1/b~0c")?.end)
+    ).toBe("true");
+    expect(text.slice(spans.get("/d~1e")?.start, spans.get("/d~1e")?.end)).toBe(
+      "null"
+    );
+  });
+
+  it("should agree with JSON.parse on what is valid", () => {
+    const valid = ['"\\u00e9\\n"', "-0.5e+10", "[]", " {} ", '{"a":[{}]}'];
+    const invalid = ["", "01", "[1,]", "{'a': 1}", '"\\x"', "tru", "1 2", "{"];
+
+    for (const text of valid) {
+      expect(scanJson(text).error).toBeUndefined();
+    }
+    for (const text of invalid) {
+      expect(scanJson(text).error).toBeDefined();
+    }
+  });
+
+  it("should skip comments only in JSONC mode", () => {
+    const text = '// header\n{"a": /* inline */ 1}';
+
+    expect(scanJson(text).error?.index).toBe(0);
+    expect(scanJson(text, { comments: true }).error).toBeUndefined();
+    expect(scanJson("/* open", { comments: true }).error?.reason).toBe(
+      "Unterminated comment"
+    );
+  });
+
+  it("should scan deeply nested documents without overflowing the stack", () => {
+    const depth = 20_000;
+    const text = `${"[".repeat(depth)}1${"]".repeat(depth)}`;
+
+    const { spans, error } = scanJson(text);
+
+    expect(error).toBeUndefined();
+    expect(spans.get(`${"/0".repeat(depth)}`)).toEqual({
+      start: depth,
+      end: depth + 1,
+    });
+    expect(scanJson("[".repeat(depth)).error).toEqual({
+      index: depth,
+      reason: "Unexpected end of input",
+    });
+  });
+
+  it("should report unclosed deep nesting as a ParseError", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(parseJson(Schema.Unknown, "[".repeat(20_000)))
+    );
+
+    expect(Either.isLeft(result) && result.left).toMatchObject({
+      _tag: "ParseError",
+      line: 1,
+      column: 20_001,
+    });
+  });
+});
+
+describe("codeFrame", () => {
+  it("should keep tabs so the caret lines up", () => {
+    expect(codeFrame('{\n\t"a": x\n}', 8)).toBe(
+      ["  1 | {", '> 2 | \t"a": x', "    | \t     ^", "  3 | }"].join("\n")
+    );
+  });
+});
+
+describe("ValidationError locations", () => {
+  it("should point at the offending value in JSON text", async () => {
+    const text = '{\n  "name": "api",\n  "port": "8080",\n  "hosts": []\n}';
+
+    const result = await Effect.runPromise(
+      Effect.either(parseJson(Config, text))
+    );
+
+    expect(Either.isLeft(result) && result.left._tag).toBe("ValidationError");
+    if (Either.isLeft(result) && result.left._tag === "ValidationError") {
+      expect(result.left.locations).toEqual([
+        {
+          path: "/port",
+          line: 3,
+          column: 11,
+          endLine: 3,
+          endColumn: 17,
+          offset: 29,
+          length: 6,
+        },
+      ]);
+      expect(result.left.message).toContain("(at line 3, column 11)");
+    }
+  });
+
+  it("should point at array elements and skip over comments", async () => {
+    const text = [
+      "{",
+      '  "name": "api", // service name',
+      '  /* the port */ "port": 80,',
+      '  "hosts": ["a", 2]',
+      "}",
+    ].join("\n");
+
+    const result = await Effect.runPromise(
+      Effect.either(parseJsonc(Config, text))
+    );
+
+    if (Either.isLeft(result) && result.left._tag === "ValidationError") {
+      expect(result.left.locations?.[0]).toMatchObject({
+        path: "/hosts/1",
+        line: 4,
+        column: 18,
+      });
+    } else {
+      expect.fail("expected a ValidationError");
+    }
+  });
+
+  it("should locate values next to deeply nested ones", async () => {
+    const depth = 3000;
+    const text = `{"tree": ${"[".repeat(depth)}${"]".repeat(depth)}, "port": "80"}`;
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        parseJson(
+          Schema.Struct({ tree: Schema.Unknown, port: Schema.Number }),
+          text
+        )
+      )
+    );
+
+    if (Either.isLeft(result) && result.left._tag === "ValidationError") {
+      expect(result.left.locations?.[0]).toMatchObject({
+        path: "/port",
+        column: text.length - 4,
+      });
+    } else {
+      expect.fail("expected a ValidationError");
+    }
+  });
+
+  it("should report a missing property on the enclosing object", async () => {
+    const text = '{"name": "api", "hosts": []}';
+
+    const result = await Effect.runPromise(
+      Effect.either(parseJson(Config, text))
+    );
+
+    if (Either.isLeft(result) && result.left._tag === "ValidationError") {
+      expect(result.left.locations?.[0]).toMatchObject({
+        path: "",
+        line: 1,
+        column: 1,
+        length: text.length,
+      });
+    } else {
+      expect.fail("expected a ValidationError");
+    }
+  });
+});
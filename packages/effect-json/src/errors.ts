@@ -10,26 +10,47 @@ import { Data } from "effect";
 /**
  * ParseError - Thrown when JSON parsing fails
  *
- * Includes line/column information for debugging
+ * Includes line/column information for debugging. The JSON and JSONC
+ * backends also set the byte offset and render a code frame as snippet.
  */
 export class ParseError extends Data.TaggedError("ParseError")<{
   readonly message: string;
   readonly line: number;
   readonly column: number;
+  readonly offset?: number; // byte offset (UTF-8) of the error
   readonly snippet: string;
   readonly cause?: Error;
 }> {}
 
+/**
+ * Where a value sits in the source text
+ *
+ * Lines and columns are 1-indexed and count characters; offset and
+ * length count bytes (UTF-8).
+ */
+export interface SourceLocation {
+  readonly path: string; // JSON Pointer of the value, e.g. "/users/0/email"
+  readonly line: number;
+  readonly column: number;
+  readonly endLine: number;
+  readonly endColumn: number; // exclusive
+  readonly offset: number;
+  readonly length: number;
+}
+
 /**
  * ValidationError - Thrown when schema validation fails
  *
- * Includes schema path and expected vs actual information
+ * Includes schema path and expected vs actual information. When parsed
+ * from JSON or JSONC text, locations give the source position of each
+ * failing value.
  */
 export class ValidationError extends Data.TaggedError("ValidationError")<{
   readonly message: string;
   readonly schemaPath: string;
   readonly expected: unknown;
   readonly actual: unknown;
+  readonly locations?: readonly SourceLocation[];
   readonly cause?: Error;
 }> {}
 
@@ -59,3 +80,51 @@ export class JsonLinesParseError extends Data.TaggedError(
   readonly snippet: string; // error snippet from the line
   readonly cause?: Error;
 }> {}
+
+/**
+ * JsonLinesFileError - Thrown when a JSON Lines file or its index cannot
+ * be read or written
+ *
+ * Includes the file path and the operation that failed
+ */
+export class JsonLinesFileError extends Data.TaggedError("JsonLinesFileError")<{
+  readonly message: string;
+  readonly path: string;
+  readonly operation: "open" | "read" | "write" | "index";
+  readonly cause?: Error;
+}> {}
+
+/**
+ * PointerError - Thrown when a JSON Pointer (RFC 6901) cannot be resolved
+ *
+ * Includes the pointer and the reason it failed
+ */
+export class PointerError extends Data.TaggedError("PointerError")<{
+  readonly message: string;
+  readonly pointer: string;
+  readonly reason: "syntax" | "not_found" | "invalid_target";
+}> {}
+
+/**
+ * PatchError - Thrown when a JSON Patch (RFC 6902) cannot be applied
+ *
+ * Includes the index and op of the failing operation and its path
+ */
+export class PatchError extends Data.TaggedError("PatchError")<{
+  readonly message: string;
+  readonly operation: number; // 0-indexed position in the patch
+  readonly op: string;
+  readonly path: string;
+  readonly cause?: Error;
+}> {}
+
+/**
+ * JsonSchemaError - Thrown when converting to or from JSON Schema fails
+ *
+ * Includes the location in the JSON Schema document, as a JSON Pointer
+ */
+export class JsonSchemaError extends Data.TaggedError("JsonSchemaError")<{
+  readonly message: string;
+  readonly path: string;
+  readonly cause?: Error;
+}> {}
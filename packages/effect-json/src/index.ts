@@ -4,61 +4,95 @@
  * @packageDocumentation
  */
 
-// Services (Dependency Injection) and Convenience Functions
-export {
-  JsonService,
-  parseJson as parse,
-  parseJsonc,
-  parseSuperjson,
-  stringifyJson as stringify,
-  stringifyJsonc,
-  stringifySuperjson,
-  type JsonFormat,
-  type JsonServiceInterface,
-} from "./services/json/index.js";
-
-export {
-  JsonLinesService,
-  type JsonLinesServiceInterface,
-} from "./services/jsonlines/index.js";
-
-// JSON Lines API (convenience functions)
-export {
-  parseBatch as parseJsonLines,
-  parseStream as streamParseJsonLines,
-  stringifyStream as streamStringifyJsonLines,
-  stringifyBatch as stringifyJsonLines,
-  type JsonLinesStringifyOptions,
-} from "./services/jsonlines/index.js";
-
 // Errors
 export {
+  JsonLinesFileError,
   JsonLinesParseError,
+  JsonSchemaError,
   ParseError,
+  PatchError,
+  PointerError,
+  type SourceLocation,
   StringifyError,
   ValidationError,
 } from "./errors.js";
-
+// JSON Schema bridges
+export {
+  fromJsonSchema,
+  type JsonSchemaTarget,
+  type ToJsonSchemaOptions,
+  toJsonSchema,
+} from "./json-schema.js";
+export {
+  applyPatch,
+  diff,
+  type JsonPatch,
+  type JsonPatchOperation,
+  JsonPatchOperationSchema,
+  JsonPatchSchema,
+} from "./patch.js";
+// JSON Pointer (RFC 6901) and JSON Patch (RFC 6902)
+export {
+  formatPointer,
+  getPointer,
+  parsePointer,
+  setPointer,
+} from "./pointer.js";
 // Schema utilities
-export { validateAgainstSchema, validateForStringify } from "./schema.js";
 export {
-  formatParseError,
-  extractFieldPath,
-  extractExpected,
+  locateValidationError,
+  validateAgainstSchema,
+  validateForStringify,
+} from "./schema.js";
+export {
   extractActual,
-  getErrorMessage,
   extractErrorDetails,
+  extractExpected,
+  extractFieldPath,
+  formatParseError,
+  getErrorMessage,
   type ParseErrorDetails,
 } from "./schema-utils.js";
-
-// Testing utilities
-export { mockBackend as testMockBackend } from "./testing.js";
-
 // Backends (for advanced usage)
 export {
+  type Backend,
   jsonBackend,
   jsoncBackend,
   superjsonBackend,
   toonBackend,
-  type Backend,
 } from "./services/json/implementations/index.js";
+// Services (Dependency Injection) and Convenience Functions
+export {
+  type JsonFormat,
+  JsonService,
+  type JsonServiceInterface,
+  parseJson as parse,
+  parseJsonc,
+  parseSuperjson,
+  stringifyJson as stringify,
+  stringifyJsonc,
+  stringifySuperjson,
+} from "./services/json/index.js";
+// JSON Lines API (convenience functions)
+export {
+  appendJsonLines,
+  buildIndex as buildJsonLinesIndex,
+  type CollectedLines,
+  type InvalidLine,
+  type InvalidLinePolicy,
+  type JsonLinesAppender,
+  type JsonLinesAppendOptions,
+  type JsonLinesIndex,
+  type JsonLinesParseOptions,
+  JsonLinesService,
+  type JsonLinesServiceInterface,
+  type JsonLinesStringifyOptions,
+  openAppender as openJsonLinesAppender,
+  parseBatch as parseJsonLines,
+  parseStream as streamParseJsonLines,
+  readRange as readJsonLinesRange,
+  stringifyBatch as stringifyJsonLines,
+  stringifyStream as streamStringifyJsonLines,
+} from "./services/jsonlines/index.js";
+// Testing utilities
+export { mockBackend as testMockBackend } from "./testing.js";
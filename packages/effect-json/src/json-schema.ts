@@ -0,0 +1,529 @@
+/**
+ * JSON Schema bridges for effect-json
+ *
+ * `toJsonSchema` derives a JSON Schema document from an Effect Schema, so
+ * LLM tool definitions and external contracts come from one definition.
+ * `fromJsonSchema` goes the other way, turning a contract received from
+ * elsewhere into a Schema that validates (and reports) like any other.
+ */
+
+import { Effect, JSONSchema, Schema } from "effect";
+import { JsonSchemaError, PointerError } from "./errors.js";
+import { formatPointer, resolvePointer } from "./pointer.js";
+import { isJsonObject, jsonEqual } from "./utils/json.js";
+
+/**
+ * JSON Schema dialect to generate
+ */
+export type JsonSchemaTarget =
+  | "jsonSchema7"
+  | "jsonSchema2019-09"
+  | "jsonSchema2020-12"
+  | "openApi3.1";
+
+export interface ToJsonSchemaOptions {
+  readonly target?: JsonSchemaTarget; // Default: "jsonSchema7"
+}
+
+/**
+ * Keywords that change validation in ways a Schema built here cannot
+ * express. Documents using them are rejected rather than half-enforced.
+ */
+const UNSUPPORTED_KEYWORDS = [
+  "not",
+  "if",
+  "then",
+  "else",
+  "patternProperties",
+  "dependencies",
+  "dependentSchemas",
+  "dependentRequired",
+  "unevaluatedProperties",
+  "unevaluatedItems",
+  "propertyNames",
+  "contains",
+  "$dynamicRef",
+  "$recursiveRef",
+] as const;
+
+const ANNOTATION_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "$defs",
+  "definitions",
+  "$comment",
+  "title",
+  "description",
+  "default",
+  "examples",
+]);
+
+type AnySchema = Schema.Schema.AnyNoContext;
+type JsonSchemaNode = Readonly<Record<string, unknown>>;
+
+interface ConvertContext {
+  readonly root: unknown;
+  readonly refs: Map<string, AnySchema>;
+  readonly pending: Set<string>;
+}
+
+const fail = (path: string, message: string, cause?: Error): never => {
+  throw new JsonSchemaError({
+    message: `JSON Schema at "${path || "/"}": ${message}`,
+    path,
+    ...(cause ? { cause } : {}),
+  });
+};
+
+const at = (path: string, ...tokens: readonly (string | number)[]): string =>
+  `${path}${formatPointer(tokens)}`;
+
+const isPrimitive = (
+  value: unknown
+): value is string | number | boolean | null =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const constSchema = (value: unknown): AnySchema => {
+  if (isPrimitive(value)) {
+    return Schema.Literal(value);
+  }
+  return Schema.Unknown.pipe(
+    Schema.filter((input) => jsonEqual(input, value), {
+      message: () => `Expected ${JSON.stringify(value)}`,
+    })
+  );
+};
+
+const enumSchema = (values: unknown, path: string): AnySchema => {
+  if (!Array.isArray(values) || values.length === 0) {
+    return fail(path, "enum must be a non-empty array");
+  }
+  const members = values as readonly unknown[];
+  if (members.every(isPrimitive)) {
+    return Schema.Literal(...(members as [string | number | boolean | null]));
+  }
+  return Schema.Union(...members.map(constSchema));
+};
+
+const stringSchema = (node: JsonSchemaNode, path: string): AnySchema => {
+  let schema: Schema.Schema<string> = Schema.String;
+  if (typeof node.minLength === "number") {
+    schema = schema.pipe(Schema.minLength(node.minLength));
+  }
+  if (typeof node.maxLength === "number") {
+    schema = schema.pipe(Schema.maxLength(node.maxLength));
+  }
+  if (typeof node.pattern === "string") {
+    let pattern: RegExp | undefined;
+    try {
+      pattern = new RegExp(node.pattern, "u");
+    } catch (error) {
+      fail(at(path, "pattern"), "invalid regular expression", error as Error);
+    }
+    schema = schema.pipe(Schema.pattern(pattern as RegExp));
+  }
+  return schema;
+};
+
+const numberSchema = (node: JsonSchemaNode, integer: boolean): AnySchema => {
+  let schema: Schema.Schema<number> = integer ? Schema.Int : Schema.Number;
+  const exclusive = (bound: unknown, limit: unknown) =>
+    bound === true && typeof limit === "number";
+  if (typeof node.minimum === "number") {
+    schema = exclusive(node.exclusiveMinimum, node.minimum)
+      ? schema.pipe(Schema.greaterThan(node.minimum))
+      : schema.pipe(Schema.greaterThanOrEqualTo(node.minimum));
+  }
+  if (typeof node.maximum === "number") {
+    schema = exclusive(node.exclusiveMaximum, node.maximum)
+      ? schema.pipe(Schema.lessThan(node.maximum))
+      : schema.pipe(Schema.lessThanOrEqualTo(node.maximum));
+  }
+  if (typeof node.exclusiveMinimum === "number") {
+    schema = schema.pipe(Schema.greaterThan(node.exclusiveMinimum));
+  }
+  if (typeof node.exclusiveMaximum === "number") {
+    schema = schema.pipe(Schema.lessThan(node.exclusiveMaximum));
+  }
+  if (typeof node.multipleOf === "number") {
+    schema = schema.pipe(Schema.multipleOf(node.multipleOf));
+  }
+  return schema;
+};
+
+/**
+ * Tuple form: `prefixItems` (2019-09 and later) or an `items` array
+ * (draft-07), with `items` / `additionalItems` describing the rest
+ */
+const tupleSchema = (
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  const prefixKey = Array.isArray(node.prefixItems) ? "prefixItems" : "items";
+  const prefix = node[prefixKey] as readonly unknown[];
+  const restKey = prefixKey === "prefixItems" ? "items" : "additionalItems";
+  const required = typeof node.minItems === "number" ? node.minItems : 0;
+  const elements = prefix.map((item, index) => {
+    const element = convertNode(item, at(path, prefixKey, index), context);
+    return index < required ? element : Schema.optionalElement(element);
+  });
+  const rest = node[restKey];
+  if (rest === false) {
+    return Schema.Tuple(...elements);
+  }
+  const restSchema =
+    rest === undefined || rest === true
+      ? Schema.Unknown
+      : convertNode(rest, at(path, restKey), context);
+  return Schema.Tuple(elements, restSchema);
+};
+
+const arraySchema = (
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  if (Array.isArray(node.prefixItems) || Array.isArray(node.items)) {
+    return tupleSchema(node, path, context);
+  }
+  const item =
+    node.items === undefined
+      ? Schema.Unknown
+      : convertNode(node.items, at(path, "items"), context);
+  let schema: Schema.Schema<readonly unknown[], readonly unknown[]> =
+    Schema.Array(item);
+  if (typeof node.minItems === "number") {
+    schema = schema.pipe(Schema.minItems(node.minItems));
+  }
+  if (typeof node.maxItems === "number") {
+    schema = schema.pipe(Schema.maxItems(node.maxItems));
+  }
+  return schema;
+};
+
+const objectSchema = (
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  const properties = isJsonObject(node.properties) ? node.properties : {};
+  const required = new Set(
+    Array.isArray(node.required) ? (node.required as readonly string[]) : []
+  );
+  const fields: Record<string, AnySchema | Schema.optional<AnySchema>> = {};
+  for (const [name, property] of Object.entries(properties)) {
+    const field = convertNode(property, at(path, "properties", name), context);
+    fields[name] = required.has(name) ? field : Schema.optional(field);
+  }
+  for (const name of required) {
+    fields[name] ??= Schema.Unknown;
+  }
+  const additional = node.additionalProperties;
+  if (additional === false) {
+    return Schema.Struct(fields).annotations({
+      parseOptions: { onExcessProperty: "error" },
+    });
+  }
+  if (additional === undefined || additional === true) {
+    return Schema.Struct(
+      fields,
+      Schema.Record({ key: Schema.String, value: Schema.Unknown })
+    );
+  }
+  const value = convertNode(
+    additional,
+    at(path, "additionalProperties"),
+    context
+  );
+  return Schema.Struct(
+    fields,
+    Schema.Record({ key: Schema.String, value: Schema.Unknown })
+  ).pipe(
+    Schema.filter((input) => {
+      // An index signature would also apply to the declared properties
+      const extra = Object.keys(input).find(
+        (key) => !(key in fields || Schema.is(value)(input[key]))
+      );
+      return extra === undefined
+        ? undefined
+        : { path: [extra], message: `Unexpected value for "${extra}"` };
+    })
+  );
+};
+
+const TYPE_KEYWORDS: Readonly<Record<string, readonly string[]>> = {
+  array: ["items", "prefixItems", "minItems", "maxItems"],
+  object: ["properties", "required", "additionalProperties"],
+};
+
+/** The `type` a node implies when it has none, e.g. from `properties` */
+const impliedType = (node: JsonSchemaNode): string | undefined =>
+  Object.keys(TYPE_KEYWORDS).find((type) =>
+    TYPE_KEYWORDS[type]?.some((keyword) => keyword in node)
+  );
+
+const typedSchema = (
+  type: unknown,
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  switch (type) {
+    case "string":
+      return stringSchema(node, path);
+    case "number":
+    case "integer":
+      return numberSchema(node, type === "integer");
+    case "boolean":
+      return Schema.Boolean;
+    case "null":
+      return Schema.Null;
+    case "array":
+      return arraySchema(node, path, context);
+    case "object":
+      return objectSchema(node, path, context);
+    case undefined:
+      return Schema.Unknown;
+    default:
+      return fail(at(path, "type"), `unknown type ${JSON.stringify(type)}`);
+  }
+};
+
+/**
+ * Merge `allOf` members into their parent: properties and `required`
+ * are combined, and for other keywords the parent's own, then later
+ * members', win
+ */
+const mergeAllOf = (
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): JsonSchemaNode => {
+  if (!Array.isArray(node.allOf)) {
+    return fail(at(path, "allOf"), "allOf must be an array");
+  }
+  const { allOf, ...rest } = node;
+  const members = [
+    ...(allOf as readonly unknown[]).map((member, index) =>
+      resolveNode(member, at(path, "allOf", index), context)
+    ),
+    rest,
+  ];
+  const merged: Record<string, unknown> = {};
+  const properties: Record<string, unknown> = {};
+  const required: unknown[] = [];
+  for (const member of members) {
+    Object.assign(merged, member);
+    if (isJsonObject(member.properties)) {
+      Object.assign(properties, member.properties);
+    }
+    if (Array.isArray(member.required)) {
+      required.push(...member.required);
+    }
+  }
+  if (Object.keys(properties).length > 0) {
+    merged.properties = properties;
+  }
+  if (required.length > 0) {
+    merged.required = required;
+  }
+  return merged;
+};
+
+/** A node with a local `$ref` replaced by its target (one level) */
+const resolveNode = (
+  node: unknown,
+  path: string,
+  context: ConvertContext
+): JsonSchemaNode => {
+  if (!isJsonObject(node)) {
+    return fail(path, "allOf members must be schema objects");
+  }
+  return typeof node.$ref === "string"
+    ? (refTarget(node.$ref, path, context) as JsonSchemaNode)
+    : node;
+};
+
+const refTarget = (ref: string, path: string, context: ConvertContext) => {
+  if (!ref.startsWith("#")) {
+    return fail(
+      at(path, "$ref"),
+      `only local references are supported: ${ref}`
+    );
+  }
+  try {
+    return resolvePointer(context.root, ref);
+  } catch (error) {
+    const cause = error instanceof PointerError ? error : undefined;
+    return fail(at(path, "$ref"), `cannot resolve ${ref}`, cause);
+  }
+};
+
+/**
+ * A referenced schema, converted once. A reference reached again while
+ * its target is still being converted is recursive and becomes a suspend.
+ */
+const refSchema = (
+  ref: string,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  const cached = context.refs.get(ref);
+  if (cached) {
+    return cached;
+  }
+  if (context.pending.has(ref)) {
+    return Schema.suspend(() => context.refs.get(ref) as AnySchema);
+  }
+  context.pending.add(ref);
+  const target = refTarget(ref, path, context);
+  const schema = convertNode(target, ref.slice(1), context);
+  context.pending.delete(ref);
+  context.refs.set(ref, schema);
+  return schema;
+};
+
+const composedSchema = (
+  node: JsonSchemaNode,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  if (typeof node.$ref === "string") {
+    const { $ref, ...siblings } = node;
+    // Keywords beside a $ref (allowed from 2019-09) also apply
+    return Object.keys(siblings).some((key) => !ANNOTATION_KEYWORDS.has(key))
+      ? convertNode({ allOf: [{ $ref }], ...siblings }, path, context)
+      : refSchema($ref, path, context);
+  }
+  if ("allOf" in node) {
+    return convertNode(mergeAllOf(node, path, context), path, context);
+  }
+  if ("const" in node) {
+    return constSchema(node.const);
+  }
+  if ("enum" in node) {
+    return enumSchema(node.enum, at(path, "enum"));
+  }
+  const branches = node.anyOf ?? node.oneOf;
+  if (Array.isArray(branches)) {
+    const keyword = "anyOf" in node ? "anyOf" : "oneOf";
+    return Schema.Union(
+      ...branches.map((branch, index) =>
+        convertNode(branch, at(path, keyword, index), context)
+      )
+    );
+  }
+  if (Array.isArray(node.type)) {
+    return Schema.Union(
+      ...node.type.map((type) => typedSchema(type, node, path, context))
+    );
+  }
+  return typedSchema(node.type ?? impliedType(node), node, path, context);
+};
+
+/**
+ * Convert one JSON Schema node
+ *
+ * @throws JsonSchemaError if the node uses unsupported keywords
+ */
+const convertNode = (
+  node: unknown,
+  path: string,
+  context: ConvertContext
+): AnySchema => {
+  if (typeof node === "boolean") {
+    return node
+      ? Schema.Unknown
+      : Schema.Unknown.pipe(
+          Schema.filter(() => false, { message: () => "No value is allowed" })
+        );
+  }
+  if (!isJsonObject(node)) {
+    return fail(path, "expected a schema object or boolean");
+  }
+  const unsupported = UNSUPPORTED_KEYWORDS.find((keyword) => keyword in node);
+  if (unsupported) {
+    return fail(at(path, unsupported), `"${unsupported}" is not supported`);
+  }
+  let schema = composedSchema(node, path, context);
+  if (node.nullable === true) {
+    schema = Schema.NullOr(schema);
+  }
+  const annotations = {
+    ...(typeof node.title === "string" ? { title: node.title } : {}),
+    ...(typeof node.description === "string"
+      ? { description: node.description }
+      : {}),
+  };
+  return Object.keys(annotations).length > 0
+    ? schema.annotations(annotations)
+    : schema;
+};
+
+/**
+ * Generate a JSON Schema document from a schema
+ *
+ * Describes the encoded (JSON) side of the schema, e.g. a
+ * `Schema.NumberFromString` field becomes `{ "type": "string" }`.
+ *
+ * @example
+ * ```typescript
+ * const parameters = await Effect.runPromise(toJsonSchema(SearchArgs));
+ * const tool = { name: "search", description: "...", parameters };
+ * ```
+ */
+export const toJsonSchema = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  options?: ToJsonSchemaOptions
+): Effect.Effect<JSONSchema.JsonSchema7Root, JsonSchemaError> =>
+  Effect.try({
+    try: () =>
+      JSONSchema.make(
+        schema,
+        options?.target ? { target: options.target } : undefined
+      ),
+    catch: (error) =>
+      new JsonSchemaError({
+        message: `Cannot generate JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+        path: "",
+        ...(error instanceof Error ? { cause: error } : {}),
+      }),
+  });
+
+/**
+ * Build a schema that validates what a JSON Schema document describes
+ *
+ * Supports types, `properties` / `required` / `additionalProperties`,
+ * `items` and tuples, `enum` / `const`, `anyOf` / `oneOf` / `allOf`,
+ * local `$ref`s (including recursive ones) and the common string, number
+ * and array constraints. `title` and `description` become annotations.
+ * Documents using keywords that cannot be enforced (such as `not` or
+ * `if` / `then`) fail with a `JsonSchemaError` rather than validating
+ * loosely.
+ *
+ * @example
+ * ```typescript
+ * const schema = await Effect.runPromise(fromJsonSchema(contract));
+ * const order = await Effect.runPromise(parse(schema, body));
+ * ```
+ */
+export const fromJsonSchema = (
+  document: unknown
+): Effect.Effect<Schema.Schema<unknown>, JsonSchemaError> =>
+  Effect.try({
+    try: () =>
+      convertNode(document, "", {
+        root: document,
+        refs: new Map(),
+        pending: new Set(),
+      }) as Schema.Schema<unknown>,
+    catch: (error) =>
+      error instanceof JsonSchemaError
+        ? error
+        : new JsonSchemaError({
+            message: `Cannot convert JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+            path: "",
+            ...(error instanceof Error ? { cause: error } : {}),
+          }),
+  });
@@ -0,0 +1,490 @@
+/**
+ * JSON Patch (RFC 6902) support for effect-json
+ *
+ * `diff` computes a patch between two JSON documents and `applyPatch`
+ * applies one, optionally re-validating the result against a schema.
+ */
+
+import { Effect, Either, Schema } from "effect";
+import { PatchError, PointerError, ValidationError } from "./errors.js";
+import {
+  arrayIndex,
+  formatPointer,
+  parsePointer,
+  resolveParent,
+  resolvePointer,
+  setMember,
+} from "./pointer.js";
+import { validateAgainstSchema } from "./schema.js";
+import { formatParseError } from "./schema-utils.js";
+import { isJsonObject, jsonEqual } from "./utils/json.js";
+
+/** Arrays whose edit table would exceed this many cells are diffed by index */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Schema for one JSON Patch operation
+ */
+export const JsonPatchOperationSchema = Schema.Union(
+  Schema.Struct({
+    op: Schema.Literal("add"),
+    path: Schema.String,
+    value: Schema.Unknown,
+  }),
+  Schema.Struct({ op: Schema.Literal("remove"), path: Schema.String }),
+  Schema.Struct({
+    op: Schema.Literal("replace"),
+    path: Schema.String,
+    value: Schema.Unknown,
+  }),
+  Schema.Struct({
+    op: Schema.Literal("move"),
+    from: Schema.String,
+    path: Schema.String,
+  }),
+  Schema.Struct({
+    op: Schema.Literal("copy"),
+    from: Schema.String,
+    path: Schema.String,
+  }),
+  Schema.Struct({
+    op: Schema.Literal("test"),
+    path: Schema.String,
+    value: Schema.Unknown,
+  })
+);
+
+/**
+ * Schema for a JSON Patch document: an array of operations
+ */
+export const JsonPatchSchema = Schema.Array(JsonPatchOperationSchema);
+
+export type JsonPatchOperation = typeof JsonPatchOperationSchema.Type;
+export type JsonPatch = typeof JsonPatchSchema.Type;
+
+const cloneJson = <T>(value: T): T =>
+  value === undefined ? value : structuredClone(value);
+
+/**
+ * Insert or set a value, as `add` does
+ *
+ * @throws PointerError if the target's parent does not exist
+ */
+const addValue = (document: unknown, path: string, value: unknown): unknown => {
+  if (parsePointer(path).length === 0) {
+    return value;
+  }
+  const { parent, token } = resolveParent(document, path);
+  if (!Array.isArray(parent)) {
+    setMember(parent, token, value);
+    return document;
+  }
+  const index = arrayIndex(token, path) ?? parent.length;
+  if (index > parent.length) {
+    throw new PointerError({
+      message: `JSON Pointer "${path}": index ${token} is out of bounds`,
+      pointer: path,
+      reason: "not_found",
+    });
+  }
+  parent.splice(index, 0, value);
+  return document;
+};
+
+/**
+ * Remove an existing value, returning it
+ *
+ * @throws PointerError if the target does not exist
+ */
+const removeValue = (document: unknown, path: string): unknown => {
+  const value = resolvePointer(document, path);
+  const { parent, token } = resolveParent(document, path);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(token), 1);
+  } else {
+    delete parent[token];
+  }
+  return value;
+};
+
+const moveValue = (document: unknown, from: string, path: string): unknown => {
+  if (path !== from && path.startsWith(`${from}/`)) {
+    throw new Error("Cannot move a value into one of its own children");
+  }
+  if (path === from) {
+    resolvePointer(document, from);
+    return document;
+  }
+  return addValue(document, path, removeValue(document, from));
+};
+
+const testValue = (
+  document: unknown,
+  path: string,
+  value: unknown
+): unknown => {
+  if (!jsonEqual(resolvePointer(document, path), value)) {
+    throw new Error(`Value at "${path}" is not ${JSON.stringify(value)}`);
+  }
+  return document;
+};
+
+/**
+ * Apply one operation to a document, mutating it in place
+ *
+ * @throws PointerError or Error if the operation cannot be applied
+ */
+const applyOperation = (
+  document: unknown,
+  operation: JsonPatchOperation
+): unknown => {
+  switch (operation.op) {
+    case "add":
+      return addValue(document, operation.path, cloneJson(operation.value));
+    case "remove":
+      if (parsePointer(operation.path).length === 0) {
+        throw new Error("Cannot remove the whole document");
+      }
+      removeValue(document, operation.path);
+      return document;
+    case "replace":
+      if (parsePointer(operation.path).length > 0) {
+        removeValue(document, operation.path);
+      }
+      return addValue(document, operation.path, cloneJson(operation.value));
+    case "move":
+      return moveValue(document, operation.from, operation.path);
+    case "copy":
+      return addValue(
+        document,
+        operation.path,
+        cloneJson(resolvePointer(document, operation.from))
+      );
+    case "test":
+      return testValue(document, operation.path, operation.value);
+    default:
+      return document;
+  }
+};
+
+const decodePatch = (patch: unknown): Effect.Effect<JsonPatch, PatchError> =>
+  Schema.decodeUnknown(JsonPatchSchema)(patch).pipe(
+    Effect.mapError(
+      (parseError) =>
+        new PatchError({
+          message: `Invalid JSON Patch: ${formatParseError(parseError)}`,
+          operation: -1,
+          op: "",
+          path: "",
+          cause: parseError as unknown as Error,
+        })
+    )
+  );
+
+const applyOperations = (
+  document: unknown,
+  patch: JsonPatch
+): Either.Either<unknown, PatchError> => {
+  let current = cloneJson(document);
+  for (const [index, operation] of patch.entries()) {
+    try {
+      current = applyOperation(current, operation);
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      return Either.left(
+        new PatchError({
+          message: `Operation ${index} (${operation.op} "${operation.path}") failed: ${cause.message}`,
+          operation: index,
+          op: operation.op,
+          path: operation.path,
+          cause,
+        })
+      );
+    }
+  }
+  return Either.right(current);
+};
+
+/**
+ * Apply a JSON Patch to a document, atomically
+ *
+ * The input document is not modified. If any operation fails (including a
+ * failed `test`), no change is returned and the error names the operation.
+ *
+ * With a schema, the document is encoded with it first, so paths address
+ * the JSON form, and the patched result is decoded with it again: a patch
+ * that produces an invalid document fails with a `ValidationError`.
+ *
+ * @example
+ * ```typescript
+ * const user = await Effect.runPromise(
+ *   applyPatch(
+ *     { id: 1, name: "Paul" },
+ *     [{ op: "replace", path: "/name", value: "Ada" }],
+ *     UserSchema
+ *   )
+ * );
+ * ```
+ */
+export function applyPatch(
+  document: unknown,
+  patch: unknown
+): Effect.Effect<unknown, PatchError>;
+export function applyPatch<A, I, R>(
+  document: A,
+  patch: unknown,
+  schema: Schema.Schema<A, I, R>
+): Effect.Effect<A, PatchError | ValidationError, R>;
+export function applyPatch<A, I, R>(
+  document: unknown,
+  patch: unknown,
+  schema?: Schema.Schema<A, I, R>
+): Effect.Effect<unknown, PatchError | ValidationError, R> {
+  if (schema === undefined) {
+    return Effect.flatMap(decodePatch(patch), (operations) =>
+      applyOperations(document, operations)
+    );
+  }
+  return Effect.gen(function* () {
+    const operations = yield* decodePatch(patch);
+    const encoded = yield* Schema.encode(schema)(document as A).pipe(
+      Effect.mapError(
+        (parseError) =>
+          new ValidationError({
+            message: `Validation failed before patch: ${formatParseError(parseError)}`,
+            schemaPath: String(schema),
+            expected: schema,
+            actual: document,
+            cause: parseError as unknown as Error,
+          })
+      )
+    );
+    const patched = yield* applyOperations(encoded, operations);
+    return yield* validateAgainstSchema(schema, patched as I);
+  });
+}
+
+/**
+ * Edit script between two arrays: matching elements are kept, and an
+ * element removed where another is added becomes a nested diff
+ */
+const diffArrays = (
+  before: readonly unknown[],
+  after: readonly unknown[],
+  path: readonly (string | number)[],
+  operations: JsonPatchOperation[]
+): void => {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    jsonEqual(before[start], after[start])
+  ) {
+    start++;
+  }
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    jsonEqual(before[beforeEnd - 1], after[afterEnd - 1])
+  ) {
+    beforeEnd--;
+    afterEnd--;
+  }
+  const removed = before.slice(start, beforeEnd);
+  const added = after.slice(start, afterEnd);
+  if ((removed.length + 1) * (added.length + 1) > MAX_DIFF_CELLS) {
+    diffByIndex(removed, added, start, path, operations);
+    return;
+  }
+  editScript(removed, added, start, path, operations);
+};
+
+/** Longest common subsequence lengths of every pair of suffixes */
+const commonSuffixLengths = (
+  before: readonly unknown[],
+  after: readonly unknown[]
+): number[][] => {
+  const table = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    const row = table[i] as number[];
+    const next = table[i + 1] as number[];
+    for (let j = after.length - 1; j >= 0; j--) {
+      row[j] = jsonEqual(before[i], after[j])
+        ? (next[j + 1] as number) + 1
+        : Math.max(next[j] as number, row[j + 1] as number);
+    }
+  }
+  return table;
+};
+
+type EditStep = "keep" | "change" | "remove" | "add";
+
+/**
+ * The next step of a minimal edit script; elements that would be both
+ * removed and added become a `change` (a nested diff) instead
+ */
+const nextStep = (
+  table: readonly (readonly number[])[],
+  before: readonly unknown[],
+  after: readonly unknown[],
+  i: number,
+  j: number
+): EditStep => {
+  const length = (row: number, column: number) => table[row]?.[column] ?? 0;
+  if (j >= after.length) {
+    return "remove";
+  }
+  if (i >= before.length) {
+    return "add";
+  }
+  if (jsonEqual(before[i], after[j])) {
+    return "keep";
+  }
+  if (length(i + 1, j + 1) === length(i, j)) {
+    return "change";
+  }
+  return length(i + 1, j) >= length(i, j + 1) ? "remove" : "add";
+};
+
+const editScript = (
+  before: readonly unknown[],
+  after: readonly unknown[],
+  offset: number,
+  path: readonly (string | number)[],
+  operations: JsonPatchOperation[]
+): void => {
+  const table = commonSuffixLengths(before, after);
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    const index = offset + j;
+    switch (nextStep(table, before, after, i, j)) {
+      case "keep":
+        i++;
+        j++;
+        break;
+      case "change":
+        diffValues(before[i], after[j], [...path, index], operations);
+        i++;
+        j++;
+        break;
+      case "remove":
+        operations.push({
+          op: "remove",
+          path: formatPointer([...path, index]),
+        });
+        i++;
+        break;
+      default:
+        operations.push({
+          op: "add",
+          path: formatPointer([...path, index]),
+          value: cloneJson(after[j]),
+        });
+        j++;
+    }
+  }
+};
+
+const diffByIndex = (
+  before: readonly unknown[],
+  after: readonly unknown[],
+  offset: number,
+  path: readonly (string | number)[],
+  operations: JsonPatchOperation[]
+): void => {
+  const shared = Math.min(before.length, after.length);
+  for (let index = 0; index < shared; index++) {
+    diffValues(
+      before[index],
+      after[index],
+      [...path, offset + index],
+      operations
+    );
+  }
+  for (let index = before.length - 1; index >= shared; index--) {
+    operations.push({
+      op: "remove",
+      path: formatPointer([...path, offset + index]),
+    });
+  }
+  for (let index = shared; index < after.length; index++) {
+    operations.push({
+      op: "add",
+      path: formatPointer([...path, offset + index]),
+      value: cloneJson(after[index]),
+    });
+  }
+};
+
+const diffObjects = (
+  before: Readonly<Record<string, unknown>>,
+  after: Readonly<Record<string, unknown>>,
+  path: readonly (string | number)[],
+  operations: JsonPatchOperation[]
+): void => {
+  for (const key of Object.keys(before)) {
+    if (!Object.hasOwn(after, key)) {
+      operations.push({ op: "remove", path: formatPointer([...path, key]) });
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (Object.hasOwn(before, key)) {
+      diffValues(before[key], value, [...path, key], operations);
+    } else {
+      operations.push({
+        op: "add",
+        path: formatPointer([...path, key]),
+        value: cloneJson(value),
+      });
+    }
+  }
+};
+
+const diffValues = (
+  before: unknown,
+  after: unknown,
+  path: readonly (string | number)[],
+  operations: JsonPatchOperation[]
+): void => {
+  if (jsonEqual(before, after)) {
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, operations);
+  } else if (isJsonObject(before) && isJsonObject(after)) {
+    diffObjects(before, after, path, operations);
+  } else {
+    operations.push({
+      op: "replace",
+      path: formatPointer(path),
+      value: cloneJson(after),
+    });
+  }
+};
+
+/**
+ * Compute a JSON Patch that turns one document into another
+ *
+ * Objects are compared member by member and arrays by a longest common
+ * subsequence, so inserting into a list yields an `add` rather than a
+ * `replace` of every later element.
+ *
+ * @example
+ * ```typescript
+ * diff({ name: "Paul", tags: ["a"] }, { name: "Ada", tags: ["a", "b"] });
+ * // [
+ * //   { op: "replace", path: "/name", value: "Ada" },
+ * //   { op: "add", path: "/tags/1", value: "b" }
+ * // ]
+ * ```
+ */
+export const diff = (before: unknown, after: unknown): JsonPatch => {
+  const operations: JsonPatchOperation[] = [];
+  diffValues(before, after, [], operations);
+  return operations;
+};
@@ -0,0 +1,266 @@
+/**
+ * JSON Pointer (RFC 6901) support for effect-json
+ *
+ * Pointers address a value inside a JSON document, e.g. `/users/0/email`.
+ * The URI fragment form (`#/users/0/email`) is accepted as well.
+ */
+
+import { Effect } from "effect";
+import { PointerError } from "./errors.js";
+import { isJsonObject } from "./utils/json.js";
+
+const ARRAY_INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+const ESCAPE_PATTERN = /~[^01]|~$/;
+const TILDE_PATTERN = /~/g;
+const SLASH_PATTERN = /\//g;
+const ESCAPED_SLASH_PATTERN = /~1/g;
+const ESCAPED_TILDE_PATTERN = /~0/g;
+
+const decodeFragment = (pointer: string): string => {
+  try {
+    return decodeURIComponent(pointer.slice(1));
+  } catch {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}" is not a valid URI fragment`,
+      pointer,
+      reason: "syntax",
+    });
+  }
+};
+
+/**
+ * Split a pointer into its unescaped reference tokens
+ *
+ * @throws PointerError if the pointer is malformed
+ */
+export const parsePointer = (pointer: string): readonly string[] => {
+  const path = pointer.startsWith("#") ? decodeFragment(pointer) : pointer;
+  if (path === "") {
+    return [];
+  }
+  if (!path.startsWith("/")) {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}" must be empty or start with "/"`,
+      pointer,
+      reason: "syntax",
+    });
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((token) => {
+      if (ESCAPE_PATTERN.test(token)) {
+        throw new PointerError({
+          message: `JSON Pointer "${pointer}" has an invalid escape in "${token}"`,
+          pointer,
+          reason: "syntax",
+        });
+      }
+      return token
+        .replace(ESCAPED_SLASH_PATTERN, "/")
+        .replace(ESCAPED_TILDE_PATTERN, "~");
+    });
+};
+
+/**
+ * Build a pointer from reference tokens, escaping `~` and `/`
+ *
+ * @example
+ * formatPointer(["a/b", 0]) // "/a~1b/0"
+ */
+export const formatPointer = (tokens: readonly (string | number)[]): string =>
+  tokens
+    .map(
+      (token) =>
+        `/${String(token).replace(TILDE_PATTERN, "~0").replace(SLASH_PATTERN, "~1")}`
+    )
+    .join("");
+
+/**
+ * The array index a token refers to, or `undefined` for `-` (past the end)
+ *
+ * @throws PointerError if the token is not an index
+ */
+export const arrayIndex = (
+  token: string,
+  pointer: string
+): number | undefined => {
+  if (token === "-") {
+    return;
+  }
+  if (!ARRAY_INDEX_PATTERN.test(token)) {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}": "${token}" is not an array index`,
+      pointer,
+      reason: "syntax",
+    });
+  }
+  return Number(token);
+};
+
+const child = (current: unknown, token: string, pointer: string): unknown => {
+  if (Array.isArray(current)) {
+    const index = arrayIndex(token, pointer);
+    if (index === undefined || index >= current.length) {
+      throw new PointerError({
+        message: `JSON Pointer "${pointer}": index ${token} is out of bounds`,
+        pointer,
+        reason: "not_found",
+      });
+    }
+    return current[index];
+  }
+  if (!isJsonObject(current)) {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}": cannot descend into ${current === null ? "null" : `a ${typeof current}`}`,
+      pointer,
+      reason: "invalid_target",
+    });
+  }
+  if (!Object.hasOwn(current, token)) {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}": no member "${token}"`,
+      pointer,
+      reason: "not_found",
+    });
+  }
+  return current[token];
+};
+
+/**
+ * Resolve a pointer within a document
+ *
+ * @throws PointerError if the pointer is malformed or names no value
+ */
+export const resolvePointer = (document: unknown, pointer: string): unknown =>
+  parsePointer(pointer).reduce(
+    (current: unknown, token) => child(current, token, pointer),
+    document
+  );
+
+/**
+ * The container a pointer's last token refers into, and that token
+ *
+ * @throws PointerError if the parent does not exist or is not a container
+ */
+export const resolveParent = (
+  document: unknown,
+  pointer: string
+): {
+  readonly parent: unknown[] | Record<string, unknown>;
+  readonly token: string;
+} => {
+  const tokens = parsePointer(pointer);
+  const token = tokens.at(-1);
+  if (token === undefined) {
+    throw new PointerError({
+      message: "The root pointer has no parent",
+      pointer,
+      reason: "invalid_target",
+    });
+  }
+  const parent = resolvePointer(document, formatPointer(tokens.slice(0, -1)));
+  if (!(Array.isArray(parent) || isJsonObject(parent))) {
+    throw new PointerError({
+      message: `JSON Pointer "${pointer}": parent is not an object or array`,
+      pointer,
+      reason: "invalid_target",
+    });
+  }
+  return { parent: parent as unknown[] | Record<string, unknown>, token };
+};
+
+/**
+ * Create or replace an object member
+ *
+ * Defined rather than assigned, so a `__proto__` member becomes an own
+ * property instead of changing the object's prototype.
+ */
+export const setMember = (
+  object: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void => {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+const toPointerError =
+  (pointer: string) =>
+  (error: unknown): PointerError =>
+    error instanceof PointerError
+      ? error
+      : new PointerError({
+          message: `JSON Pointer "${pointer}": ${error instanceof Error ? error.message : String(error)}`,
+          pointer,
+          reason: "invalid_target",
+        });
+
+/**
+ * Get the value a JSON Pointer refers to
+ *
+ * @example
+ * ```typescript
+ * const email = await Effect.runPromise(
+ *   getPointer({ users: [{ email: "a@example.com" }] }, "/users/0/email")
+ * );
+ * // "a@example.com"
+ * ```
+ */
+export const getPointer = (
+  document: unknown,
+  pointer: string
+): Effect.Effect<unknown, PointerError> =>
+  Effect.try({
+    try: () => resolvePointer(document, pointer),
+    catch: toPointerError(pointer),
+  });
+
+/**
+ * Set the value a JSON Pointer refers to, returning a new document
+ *
+ * Object members are created or replaced. Array elements are replaced,
+ * and `-` (or the array length) appends. The parent must already exist;
+ * the input document is not modified.
+ *
+ * @example
+ * ```typescript
+ * const updated = await Effect.runPromise(
+ *   setPointer({ tags: ["a"] }, "/tags/-", "b")
+ * );
+ * // { tags: ["a", "b"] }
+ * ```
+ */
+export const setPointer = (
+  document: unknown,
+  pointer: string,
+  value: unknown
+): Effect.Effect<unknown, PointerError> =>
+  Effect.try({
+    try: () => {
+      if (parsePointer(pointer).length === 0) {
+        return value;
+      }
+      const copy = structuredClone(document);
+      const { parent, token } = resolveParent(copy, pointer);
+      if (Array.isArray(parent)) {
+        const index = arrayIndex(token, pointer) ?? parent.length;
+        if (index > parent.length) {
+          throw new PointerError({
+            message: `JSON Pointer "${pointer}": index ${token} is out of bounds`,
+            pointer,
+            reason: "not_found",
+          });
+        }
+        parent[index] = value;
+      } else {
+        setMember(parent, token, value);
+      }
+      return copy;
+    },
+    catch: toPointerError(pointer),
+  });
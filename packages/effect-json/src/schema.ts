@@ -4,9 +4,12 @@
  * Integrates Effect.Schema with effect-json error handling
  */
 
-import { Effect, Schema } from "effect";
-import { ValidationError } from "./errors.js";
+import { Effect, ParseResult, Schema } from "effect";
+import { type SourceLocation, ValidationError } from "./errors.js";
+import { formatPointer } from "./pointer.js";
 import { formatParseError } from "./schema-utils.js";
+import { getLineColumn } from "./utils/index.js";
+import { byteOffset, type SourceSpan, scanJson } from "./utils/source.js";
 
 /**
  * Validate data against a schema
@@ -54,3 +57,90 @@ export const validateForStringify = <A, I, R = never>(
       });
     })
   );
+
+/**
+ * The span of the value at a path, or of its nearest enclosing value
+ * (a missing property is reported on the object that lacks it)
+ */
+const findSpan = (
+  spans: ReadonlyMap<string, SourceSpan>,
+  path: readonly PropertyKey[]
+): { readonly pointer: string; readonly span: SourceSpan } | undefined => {
+  const tokens = path.filter(
+    (key): key is string | number => typeof key !== "symbol"
+  );
+  for (let length = tokens.length; length >= 0; length--) {
+    const pointer = formatPointer(tokens.slice(0, length));
+    const span = spans.get(pointer);
+    if (span) {
+      return { pointer, span };
+    }
+  }
+  return;
+};
+
+const toSourceLocation = (
+  source: string,
+  pointer: string,
+  span: SourceSpan
+): SourceLocation => {
+  const start = getLineColumn(source, span.start);
+  const end = getLineColumn(source, span.end);
+  const offset = byteOffset(source, span.start);
+  return {
+    path: pointer,
+    line: start.line,
+    column: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    offset,
+    length: byteOffset(source, span.end) - offset,
+  };
+};
+
+/**
+ * Map a ValidationError for parsed JSON text back to the source
+ *
+ * Adds the location of every failing value, and the first one to the
+ * message. Errors without schema issues are returned unchanged.
+ *
+ * @example
+ * ```typescript
+ * validateAgainstSchema(Config, JSON.parse(text)).pipe(
+ *   Effect.mapError((error) => locateValidationError(error, text))
+ * );
+ * // error.locations: [{ path: "/port", line: 3, column: 11, ... }]
+ * ```
+ */
+export const locateValidationError = (
+  error: ValidationError,
+  source: string,
+  options?: { readonly comments?: boolean }
+): ValidationError => {
+  if (!ParseResult.isParseError(error.cause)) {
+    return error;
+  }
+  const { spans } = scanJson(source, options);
+  const locations = new Map<string, SourceLocation>();
+  for (const issue of ParseResult.ArrayFormatter.formatErrorSync(error.cause)) {
+    const found = findSpan(spans, issue.path);
+    if (found && !locations.has(found.pointer)) {
+      locations.set(
+        found.pointer,
+        toSourceLocation(source, found.pointer, found.span)
+      );
+    }
+  }
+  const [first] = locations.values();
+  if (!first) {
+    return error;
+  }
+  return new ValidationError({
+    message: `${error.message} (at line ${first.line}, column ${first.column})`,
+    schemaPath: error.schemaPath,
+    expected: error.expected,
+    actual: error.actual,
+    locations: [...locations.values()],
+    cause: error.cause,
+  });
+};
@@ -78,6 +78,45 @@ describe("jsonBackend", () => {
         expect(result.left).toBeInstanceOf(ParseError);
       }
     });
+    it("should locate the error with line, column, offset and code frame", async () => {
+      const input = '{\n  "name": "Zoë",\n  "port": ,\n  "host": "x"\n}';
+      const result = await Effect.runPromise(
+        Effect.either(jsonBackend.parse(input))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        const error = result.left;
+        expect(error.line).toBe(3);
+        expect(error.column).toBe(11);
+        expect(error.offset).toBe(30); // "ë" is two bytes in UTF-8
+        expect(error.message).toBe('Unexpected token "," at line 3, column 11');
+        expect(error.snippet).toBe(
+          [
+            "  1 | {",
+            '  2 |   "name": "Zoë",',
+            '> 3 |   "port": ,',
+            "    |           ^",
+            '  4 |   "host": "x"',
+            "  5 | }",
+          ].join("\n")
+        );
+      }
+    });
+
+    it("should report trailing commas and unterminated strings", async () => {
+      const trailing = await Effect.runPromise(
+        Effect.either(jsonBackend.parse("[1, 2,\n]"))
+      );
+      const unterminated = await Effect.runPromise(
+        Effect.either(jsonBackend.parse('{"a": "b}'))
+      );
+
+      expect(Either.isLeft(trailing) && trailing.left.message).toBe(
+        "Trailing comma is not allowed at line 1, column 6"
+      );
+      expect(Either.isLeft(unterminated) && unterminated.left.column).toBe(7);
+    });
   });
 
   describe("stringify", () => {
@@ -126,7 +165,6 @@ describe("jsonBackend", () => {
     });
 
     it("should detect circular references", async () => {
-
       const circular: any = { id: 1 };
       circular.self = circular;
 
@@ -114,7 +114,25 @@ describe("jsoncBackend", () => {
       const result = await Effect.runPromise(Effect.either(effect));
 
       expect(result._tag).toBe("Left");
-      // Error should be reported, though line number may differ after comment stripping
+      if (result._tag === "Left") {
+        expect(result.left.line).toBe(5);
+        expect(result.left.column).toBe(3);
+      }
+    });
+
+    it("should report columns against the text with comments", async () => {
+      const jsonc = '{ /* note */ "id": 1 /* x */ "name": "Paul" }';
+      const result = await Effect.runPromise(
+        Effect.either(jsoncBackend.parse(jsonc))
+      );
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left.column).toBe(30);
+        expect(result.left.message).toBe(
+          'Expected "," or "}" at line 1, column 30'
+        );
+      }
     });
   });
 
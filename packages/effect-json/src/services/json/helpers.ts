@@ -4,7 +4,13 @@ import type {
   StringifyError,
   ValidationError,
 } from "../../errors.js";
-import { validateAgainstSchema, validateForStringify } from "../../schema.js";
+import {
+  locateValidationError,
+  validateAgainstSchema,
+  validateForStringify,
+} from "../../schema.js";
+// biome-ignore lint/suspicious/noShadowRestrictedNames: toString is an intentional utility function name
+import { toString } from "../../utils/index.js";
 import {
   type Backend,
   jsonBackend,
@@ -36,7 +42,16 @@ export const parse = <A, I>(
 ): Effect.Effect<A, ParseError | ValidationError> =>
   Effect.gen(function* () {
     const raw = yield* getBackend(format).parse(input);
-    const validated = yield* validateAgainstSchema(schema, raw as I);
+    const validated = yield* validateAgainstSchema(schema, raw as I).pipe(
+      Effect.mapError((error) =>
+        // Point at the offending values in JSON and JSONC text
+        format === "superjson"
+          ? error
+          : locateValidationError(error, toString(input), {
+              comments: format === "jsonc",
+            }),
+      ),
+    );
     return validated;
   });
 
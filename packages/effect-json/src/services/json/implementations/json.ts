@@ -5,45 +5,70 @@
 import { Effect } from "effect";
 import { ParseError, StringifyError } from "../../../errors.js";
 // biome-ignore lint/suspicious/noShadowRestrictedNames: toString is an intentional utility function name
-import { buildSnippet, getLineColumn, toString } from "../../../utils/index.js";
+import { getLineColumn, toString } from "../../../utils/index.js";
+import { byteOffset, codeFrame, scanJson } from "../../../utils/source.js";
 import type { Backend } from "./types.js";
 
 // Pre-compiled regex for position extraction to avoid repeated compilation
 const POSITION_REGEX = /position (\d+)/;
 
 /**
- * JSON Backend implementation
+ * Locate a syntax error in the source text and describe it
  *
- * Uses native JSON.parse and JSON.stringify with comprehensive error handling
+ * `JSON.parse` messages differ between engines and rarely carry a
+ * position, so the source is scanned again to find the first error.
+ * `comments` scans JSONC, where `text` is `source` with comments removed.
  */
-export const jsonBackend: Backend = {
-  parse: (input) =>
-    Effect.try({
-      try: () => JSON.parse(toString(input)) as unknown,
-      catch: (error) => {
-        const inputStr = toString(input);
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
+const toParseError = (
+  source: string,
+  error: unknown,
+  comments: boolean
+): ParseError => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const scanned = scanJson(source, { comments }).error;
 
-        // Try to extract position from error message
-        // Node.js/V8 format: "Unexpected token } in JSON at position 15"
-        const positionMatch = errorMessage.match(POSITION_REGEX);
-        const position = positionMatch
-          ? Number.parseInt(positionMatch[1] ?? "0", 10)
-          : 0;
+  // Fall back to the engine's position, e.g. V8's "... at position 15"
+  const positionMatch = errorMessage.match(POSITION_REGEX);
+  const index =
+    scanned?.index ??
+    (positionMatch ? Number.parseInt(positionMatch[1] ?? "0", 10) : 0);
+  const { line, column } = getLineColumn(source, index);
 
-        const { line, column } = getLineColumn(inputStr, position);
-        const snippet = buildSnippet(inputStr, position);
+  return new ParseError({
+    message: `${scanned?.reason ?? errorMessage} at line ${line}, column ${column}`,
+    line,
+    column,
+    offset: byteOffset(source, index),
+    snippet: codeFrame(source, index),
+    ...(error instanceof Error ? { cause: error } : {}),
+  });
+};
 
-        return new ParseError({
-          message: errorMessage,
-          line,
-          column,
-          snippet,
-          ...(error instanceof Error ? { cause: error } : {}),
-        });
-      },
-    }),
+/**
+ * Parse JSON text, reporting errors against the original source
+ *
+ * @internal Shared by the JSON and JSONC backends
+ */
+export const parseSource = (
+  source: string,
+  text: string,
+  comments: boolean
+): Effect.Effect<unknown, ParseError> =>
+  Effect.try({
+    try: () => JSON.parse(text) as unknown,
+    catch: (error) => toParseError(source, error, comments),
+  });
+
+/**
+ * JSON Backend implementation
+ *
+ * Uses native JSON.parse and JSON.stringify with comprehensive error handling
+ */
+export const jsonBackend: Backend = {
+  parse: (input) => {
+    const source = toString(input);
+    return parseSource(source, source, false);
+  },
 
   stringify: (value, options) =>
     Effect.try({
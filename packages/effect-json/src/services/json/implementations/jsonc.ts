@@ -6,19 +6,19 @@
 
 // biome-ignore lint/suspicious/noShadowRestrictedNames: toString is an intentional utility function name
 import { stripComments, toString } from "../../../utils/index.js";
-import { jsonBackend } from "./json.js";
+import { jsonBackend, parseSource } from "./json.js";
 import type { Backend } from "./types.js";
 
 /**
  * JSONC Backend implementation
  *
- * Strips comments while preserving line numbers for error reporting,
- * then delegates to JSON backend
+ * Strips comments, then parses like the JSON backend; errors are
+ * reported against the original text, comments included
  */
 export const jsoncBackend: Backend = {
   parse: (input) => {
-    const stripped = stripComments(toString(input));
-    return jsonBackend.parse(stripped);
+    const source = toString(input);
+    return parseSource(source, stripComments(source), true);
   },
 
   stringify: (value, options) =>
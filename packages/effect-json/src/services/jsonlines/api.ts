@@ -1,17 +1,14 @@
 import type { Effect, Stream } from "effect";
+import type { parseBatch, parseStream } from "./implementations/index.js";
 import type { JsonLinesStringifyOptions } from "./types.js";
 
 export interface JsonLinesServiceInterface {
-  readonly parseBatch: (
-    input: string | Buffer
-  ) => Effect.Effect<readonly unknown[], any>;
+  readonly parseBatch: typeof parseBatch;
   readonly stringifyBatch: (
     values: unknown[],
     options?: JsonLinesStringifyOptions
   ) => Effect.Effect<string, any>;
-  readonly parseStream: (
-    input: Stream.Stream<string>
-  ) => Stream.Stream<unknown, any>;
+  readonly parseStream: typeof parseStream;
   readonly stringifyStream: (
     input: Stream.Stream<unknown>,
     options?: JsonLinesStringifyOptions
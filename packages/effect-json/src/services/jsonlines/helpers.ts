@@ -1,3 +1,10 @@
+export {
+  appendJsonLines,
+  buildIndex,
+  indexPath,
+  openAppender,
+  readRange,
+} from "./implementations/file.js";
 export {
   parseBatch,
   parseStream,
@@ -0,0 +1,603 @@
+/**
+ * JSON Lines files - indexed range reads and append-only writers
+ *
+ * A sidecar index (`<file>.idx`) records the byte offset of every line,
+ * so a range of lines can be read without scanning the file up to it.
+ * The index also records the file's inode, size and modification time,
+ * and a SHA-256 digest of the bytes it covers. It is trusted as is while
+ * those are unchanged; otherwise the indexed bytes are hashed again, and
+ * the index is extended if they are intact (the file was appended to) or
+ * rebuilt if not (the file was rewritten).
+ */
+
+import { createHash, type Hash } from "node:crypto";
+import type { Stats } from "node:fs";
+import { constants, type FileHandle, open } from "node:fs/promises";
+import { Effect, type Scope } from "effect";
+import {
+  JsonLinesFileError,
+  type JsonLinesParseError,
+  StringifyError,
+} from "../../../errors.js";
+import {
+  type CollectedLines,
+  decodeBatch,
+  type JsonLinesParseOptions,
+  parseLine,
+  splitLines,
+} from "./index.js";
+
+/**
+ * Index layout, little-endian:
+ * "JLIX" | version (u32) | indexed bytes (u64) | line count (u64) |
+ * file size (u64) | file mtime in ms (f64) | file inode (f64) |
+ * index time in ms (f64) | SHA-256 of the indexed bytes (32 bytes) |
+ * one u64 start offset per indexed line
+ */
+const INDEX_MAGIC = "JLIX";
+const INDEX_VERSION = 2;
+const HEADER_SIZE = 88;
+const DIGEST_OFFSET = 56;
+const ENTRY_SIZE = 8;
+/** Modifications this close to indexing may share the indexed mtime */
+const RACY_WINDOW_MS = 2000;
+const CHUNK_SIZE = 1_048_576;
+const ENTRY_BATCH = 65_536;
+const NEWLINE = 0x0a;
+
+/**
+ * What a sidecar index covers
+ *
+ * Only newline-terminated lines are indexed. Bytes after the last
+ * newline (an unterminated final line) are read as one more line.
+ */
+export interface JsonLinesIndex {
+  readonly lineCount: number; // indexed (newline-terminated) lines
+  readonly indexedBytes: number; // bytes of the file the index covers
+}
+
+/**
+ * The index header: what the index covers, and the file it was built from
+ */
+interface IndexHeader extends JsonLinesIndex {
+  readonly size: number;
+  readonly mtimeMs: number;
+  readonly inode: number;
+  readonly indexedAtMs: number;
+  readonly digest: Buffer;
+}
+
+/**
+ * Options for append-only writers
+ */
+export interface JsonLinesAppendOptions {
+  readonly sync?: boolean; // fsync after every append (default: true)
+}
+
+/**
+ * Append-only JSON Lines writer
+ */
+export interface JsonLinesAppender {
+  readonly path: string;
+  readonly recoveredBytes: number; // truncated trailing line removed on open
+  readonly append: (
+    values: Iterable<unknown>
+  ) => Effect.Effect<void, JsonLinesFileError | StringifyError>;
+}
+
+/**
+ * Path of the sidecar index for a JSON Lines file
+ */
+export const indexPath = (file: string): string => `${file}.idx`;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const attempt = <A>(
+  path: string,
+  operation: JsonLinesFileError["operation"],
+  run: () => Promise<A>
+): Effect.Effect<A, JsonLinesFileError> =>
+  Effect.tryPromise({
+    try: run,
+    catch: (error) =>
+      new JsonLinesFileError({
+        message: `Failed to ${operation} ${path}: ${errorMessage(error)}`,
+        path,
+        operation,
+        ...(error instanceof Error ? { cause: error } : {}),
+      }),
+  });
+
+const isMissing = (error: unknown): boolean =>
+  error instanceof Error && "code" in error && error.code === "ENOENT";
+
+const readAt = async (
+  handle: FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+const writeAt = async (
+  handle: FileHandle,
+  buffer: Buffer,
+  position: number
+): Promise<void> => {
+  let written = 0;
+  while (written < buffer.length) {
+    const { bytesWritten } = await handle.write(
+      buffer,
+      written,
+      buffer.length - written,
+      position + written
+    );
+    written += bytesWritten;
+  }
+};
+
+const readHeader = async (
+  index: FileHandle
+): Promise<IndexHeader | undefined> => {
+  const header = await readAt(index, 0, HEADER_SIZE);
+  if (
+    header.length < HEADER_SIZE ||
+    header.toString("latin1", 0, 4) !== INDEX_MAGIC ||
+    header.readUInt32LE(4) !== INDEX_VERSION
+  ) {
+    return;
+  }
+  return {
+    indexedBytes: Number(header.readBigUInt64LE(8)),
+    lineCount: Number(header.readBigUInt64LE(16)),
+    size: Number(header.readBigUInt64LE(24)),
+    mtimeMs: header.readDoubleLE(32),
+    inode: header.readDoubleLE(40),
+    indexedAtMs: header.readDoubleLE(48),
+    digest: header.subarray(DIGEST_OFFSET),
+  };
+};
+
+const writeHeader = (index: FileHandle, info: IndexHeader) => {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write(INDEX_MAGIC, 0, "latin1");
+  header.writeUInt32LE(INDEX_VERSION, 4);
+  header.writeBigUInt64LE(BigInt(info.indexedBytes), 8);
+  header.writeBigUInt64LE(BigInt(info.lineCount), 16);
+  header.writeBigUInt64LE(BigInt(info.size), 24);
+  header.writeDoubleLE(info.mtimeMs, 32);
+  header.writeDoubleLE(info.inode, 40);
+  header.writeDoubleLE(info.indexedAtMs, 48);
+  info.digest.copy(header, DIGEST_OFFSET);
+  return writeAt(index, header, 0);
+};
+
+const writeEntries = (
+  index: FileHandle,
+  firstLine: number,
+  starts: readonly number[]
+) => {
+  const entries = Buffer.alloc(starts.length * ENTRY_SIZE);
+  for (const [position, start] of starts.entries()) {
+    entries.writeBigUInt64LE(BigInt(start), position * ENTRY_SIZE);
+  }
+  return writeAt(index, entries, HEADER_SIZE + firstLine * ENTRY_SIZE);
+};
+
+const readEntry = async (index: FileHandle, line: number): Promise<number> =>
+  Number(
+    (
+      await readAt(index, HEADER_SIZE + line * ENTRY_SIZE, ENTRY_SIZE)
+    ).readBigUInt64LE(0)
+  );
+
+/**
+ * Whether the file is the one indexed, unmodified since. A modification
+ * soon after indexing may not have changed the mtime, so such an index is
+ * checked against the file's contents instead.
+ */
+const isUnchanged = (header: IndexHeader, stats: Stats): boolean =>
+  stats.ino === header.inode &&
+  stats.size === header.size &&
+  stats.mtimeMs === header.mtimeMs &&
+  header.mtimeMs + RACY_WINDOW_MS < header.indexedAtMs;
+
+/**
+ * Hash the indexed bytes again; returns the hash, to extend over the rest
+ * of the file, if they are the ones the index was built from
+ */
+const verifyPrefix = async (
+  data: FileHandle,
+  header: IndexHeader,
+  stats: Stats
+): Promise<Hash | undefined> => {
+  if (stats.ino !== header.inode || header.indexedBytes > stats.size) {
+    return;
+  }
+  const hash = createHash("sha256");
+  for (let position = 0; position < header.indexedBytes; ) {
+    const chunk = await readAt(
+      data,
+      position,
+      Math.min(CHUNK_SIZE, header.indexedBytes - position)
+    );
+    if (chunk.length === 0) {
+      return;
+    }
+    hash.update(chunk);
+    position += chunk.length;
+  }
+  return hash.copy().digest().equals(header.digest) ? hash : undefined;
+};
+
+/**
+ * Index the lines completed since `from`, writing entries in batches and
+ * hashing the newly indexed bytes into `hash`
+ */
+const extendIndex = async (
+  data: FileHandle,
+  index: FileHandle,
+  from: JsonLinesIndex,
+  size: number,
+  hash: Hash
+): Promise<JsonLinesIndex> => {
+  let lineCount = from.lineCount;
+  let lineStart = from.indexedBytes;
+  let starts: number[] = [];
+  // Bytes after the last newline so far, hashed once their line ends
+  let unterminated: Buffer[] = [];
+  for (let position = from.indexedBytes; position < size; ) {
+    const chunk = await readAt(
+      data,
+      position,
+      Math.min(CHUNK_SIZE, size - position)
+    );
+    if (chunk.length === 0) {
+      break;
+    }
+    for (
+      let newline = chunk.indexOf(NEWLINE);
+      newline !== -1;
+      newline = chunk.indexOf(NEWLINE, newline + 1)
+    ) {
+      starts.push(lineStart);
+      lineStart = position + newline + 1;
+    }
+    const terminated = lineStart - position;
+    if (terminated > 0) {
+      for (const part of unterminated) {
+        hash.update(part);
+      }
+      hash.update(chunk.subarray(0, terminated));
+      unterminated = [];
+    }
+    unterminated.push(chunk.subarray(Math.max(terminated, 0)));
+    position += chunk.length;
+    if (starts.length >= ENTRY_BATCH) {
+      await writeEntries(index, lineCount, starts);
+      lineCount += starts.length;
+      starts = [];
+    }
+  }
+  await writeEntries(index, lineCount, starts);
+  return { lineCount: lineCount + starts.length, indexedBytes: lineStart };
+};
+
+const openIndex = async (file: string): Promise<FileHandle> => {
+  try {
+    return await open(indexPath(file), "r+");
+  } catch (error) {
+    if (isMissing(error)) {
+      return open(indexPath(file), "w+");
+    }
+    throw error;
+  }
+};
+
+/**
+ * Bring the sidecar index up to date with the file
+ */
+const syncIndex = async (
+  data: FileHandle,
+  index: FileHandle,
+  stats: Stats
+): Promise<JsonLinesIndex> => {
+  const header = await readHeader(index);
+  if (header && isUnchanged(header, stats)) {
+    return { lineCount: header.lineCount, indexedBytes: header.indexedBytes };
+  }
+  const verified = header && (await verifyPrefix(data, header, stats));
+  if (!verified) {
+    await index.truncate(0);
+  }
+  const hash = verified || createHash("sha256");
+  const info = await extendIndex(
+    data,
+    index,
+    (verified && header) || { lineCount: 0, indexedBytes: 0 },
+    stats.size,
+    hash
+  );
+  // The header is written last: entries past its line count are ignored
+  await writeHeader(index, {
+    ...info,
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    inode: stats.ino,
+    indexedAtMs: Date.now(),
+    digest: hash.digest(),
+  });
+  await index.sync();
+  return info;
+};
+
+const withIndex = async <A>(
+  file: string,
+  use: (
+    data: FileHandle,
+    index: FileHandle,
+    info: JsonLinesIndex,
+    size: number
+  ) => Promise<A>
+): Promise<A> => {
+  const data = await open(file, "r");
+  try {
+    const index = await openIndex(file);
+    try {
+      const stats = await data.stat();
+      return await use(
+        data,
+        index,
+        await syncIndex(data, index, stats),
+        stats.size
+      );
+    } finally {
+      await index.close();
+    }
+  } finally {
+    await data.close();
+  }
+};
+
+/**
+ * Text of lines [fromLine, fromLine + count), found through the index
+ */
+const readLines = (file: string, fromLine: number, count: number) =>
+  withIndex(file, async (data, index, info, size) => {
+    // Line lineCount + 1 is the unterminated tail, if any
+    const lineStart = (line: number) =>
+      line <= info.lineCount ? readEntry(index, line - 1) : info.indexedBytes;
+    const endLine = fromLine + count;
+    if (count === 0 || fromLine > info.lineCount + 1) {
+      return "";
+    }
+    const start = await lineStart(fromLine);
+    const end = endLine <= info.lineCount + 1 ? await lineStart(endLine) : size;
+    return (await readAt(data, start, end - start)).toString("utf-8");
+  });
+
+/**
+ * Build or update the sidecar index of a JSON Lines file
+ *
+ * Called by `readRange` as needed; call it up front to pay the cost of
+ * indexing a large file ahead of the first read.
+ */
+export const buildIndex = (
+  file: string
+): Effect.Effect<JsonLinesIndex, JsonLinesFileError> =>
+  attempt(file, "index", () => withIndex(file, async (_, __, info) => info));
+
+/**
+ * Read `count` lines starting at line `fromLine` (1-indexed)
+ *
+ * Seeks through the sidecar index (building or extending it first if the
+ * file changed) instead of scanning the file. Line numbers count blank
+ * lines, which are skipped, and match those in parse errors.
+ *
+ * @example
+ * ```typescript
+ * // Lines 1,000,001 to 1,000,100 of a large eval dataset
+ * const rows = await Effect.runPromise(
+ *   readRange("evals.jsonl", 1_000_001, 100)
+ * );
+ * ```
+ */
+export function readRange(
+  file: string,
+  fromLine: number,
+  count: number,
+  options: JsonLinesParseOptions & { readonly onInvalid: "collect" }
+): Effect.Effect<CollectedLines<unknown>, JsonLinesFileError>;
+export function readRange(
+  file: string,
+  fromLine: number,
+  count: number,
+  options?: JsonLinesParseOptions
+): Effect.Effect<readonly unknown[], JsonLinesFileError | JsonLinesParseError>;
+export function readRange(
+  file: string,
+  fromLine: number,
+  count: number,
+  options?: JsonLinesParseOptions
+): Effect.Effect<
+  readonly unknown[] | CollectedLines<unknown>,
+  JsonLinesFileError | JsonLinesParseError
+> {
+  if (!(Number.isInteger(fromLine) && fromLine >= 1 && count >= 0)) {
+    return Effect.fail(
+      new JsonLinesFileError({
+        message: `Invalid line range: ${count} lines from line ${fromLine}`,
+        path: file,
+        operation: "read",
+      })
+    );
+  }
+  return attempt(file, "read", () => readLines(file, fromLine, count)).pipe(
+    Effect.flatMap((text) =>
+      decodeBatch(splitLines(text, fromLine), parseLine, options?.onInvalid)
+    )
+  );
+}
+
+const lastNewline = async (
+  handle: FileHandle,
+  size: number
+): Promise<number> => {
+  for (let end = size; end > 0; end -= CHUNK_SIZE) {
+    const start = Math.max(0, end - CHUNK_SIZE);
+    const found = (await readAt(handle, start, end - start)).lastIndexOf(
+      NEWLINE
+    );
+    if (found !== -1) {
+      return start + found;
+    }
+  }
+  return -1;
+};
+
+const isJson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Remove a trailing line left incomplete by an interrupted write,
+ * returning the new file size. A last line that parses as JSON is a
+ * complete record missing only its newline, so the newline is added.
+ */
+const recoverTail = async (handle: FileHandle): Promise<number> => {
+  const { size } = await handle.stat();
+  if (size === 0) {
+    return 0;
+  }
+  const [last] = await readAt(handle, size - 1, 1);
+  if (last === NEWLINE) {
+    return size;
+  }
+  const lineStart = (await lastNewline(handle, size)) + 1;
+  const tail = await readAt(handle, lineStart, size - lineStart);
+  if (isJson(tail.toString("utf-8"))) {
+    await writeAt(handle, Buffer.of(NEWLINE), size);
+    await handle.sync();
+    return size + 1;
+  }
+  await handle.truncate(lineStart);
+  await handle.sync();
+  return lineStart;
+};
+
+const serialize = (
+  values: Iterable<unknown>
+): Effect.Effect<Buffer, StringifyError> =>
+  Effect.try({
+    try: () => {
+      const lines = Array.from(values, (value) => {
+        const line = JSON.stringify(value);
+        if (line === undefined) {
+          throw new TypeError(`${typeof value} is not a JSON value`);
+        }
+        return `${line}\n`;
+      });
+      return Buffer.from(lines.join(""), "utf-8");
+    },
+    catch: (error) => {
+      const message = errorMessage(error);
+      const lowerMessage = message.toLowerCase();
+      return new StringifyError({
+        message: `Failed to stringify JSONL: ${message}`,
+        reason:
+          lowerMessage.includes("circular") || lowerMessage.includes("cyclic")
+            ? "cycle"
+            : "type_error",
+        ...(error instanceof Error ? { cause: error } : {}),
+      });
+    },
+  });
+
+/**
+ * Open a JSON Lines file for appending, creating it if needed
+ *
+ * A trailing line left incomplete by a crash is truncated away first
+ * (see `recoveredBytes`); a complete last record without a final newline
+ * is kept and terminated. Each `append` writes whole lines and, unless
+ * `sync: false`, fsyncs before succeeding; if a write fails, the file is
+ * truncated back so no partial line remains. Appends are serialized.
+ *
+ * @example
+ * ```typescript
+ * const program = Effect.scoped(
+ *   Effect.gen(function* () {
+ *     const log = yield* openAppender("results.jsonl");
+ *     yield* log.append([{ id: 1, score: 0.93 }]);
+ *   })
+ * );
+ * ```
+ */
+export const openAppender = (
+  file: string,
+  options?: JsonLinesAppendOptions
+): Effect.Effect<JsonLinesAppender, JsonLinesFileError, Scope.Scope> =>
+  Effect.gen(function* () {
+    const handle = yield* Effect.acquireRelease(
+      attempt(file, "open", () =>
+        // biome-ignore lint/suspicious/noBitwiseOperators: open flags are a bit mask
+        open(file, constants.O_RDWR | constants.O_CREAT)
+      ),
+      (opened) => Effect.promise(() => opened.close().catch(() => undefined))
+    );
+    const size = yield* attempt(file, "open", () => handle.stat()).pipe(
+      Effect.map((stats) => stats.size)
+    );
+    let position = yield* attempt(file, "open", () => recoverTail(handle));
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const write = (buffer: Buffer) =>
+      attempt(file, "write", async () => {
+        try {
+          await writeAt(handle, buffer, position);
+          if (options?.sync ?? true) {
+            await handle.sync();
+          }
+        } catch (error) {
+          await handle.truncate(position).catch(() => undefined);
+          throw error;
+        }
+        position += buffer.length;
+      });
+
+    return {
+      path: file,
+      recoveredBytes: Math.max(0, size - position),
+      append: (values) =>
+        lock.withPermits(1)(
+          serialize(values).pipe(
+            Effect.flatMap((buffer) =>
+              buffer.length === 0 ? Effect.void : write(buffer)
+            )
+          )
+        ),
+    } satisfies JsonLinesAppender;
+  });
+
+/**
+ * Append values to a JSON Lines file (convenience function)
+ *
+ * Opens the file with `openAppender`, appends, and closes it again.
+ */
+export const appendJsonLines = (
+  file: string,
+  values: Iterable<unknown>,
+  options?: JsonLinesAppendOptions
+): Effect.Effect<void, JsonLinesFileError | StringifyError> =>
+  Effect.scoped(
+    Effect.flatMap(openAppender(file, options), (appender) =>
+      appender.append(values)
+    )
+  );
@@ -4,7 +4,7 @@
  * Supports both batch (array) and streaming parsing/stringifying
  */
 
-import { Effect, Stream } from "effect";
+import { Effect, Either, Stream } from "effect";
 import { JsonLinesParseError, ParseError } from "../../../errors.js";
 // biome-ignore lint/suspicious/noShadowRestrictedNames: toString is an intentional utility function name
 import { buildSnippet, getLineColumn, toString } from "../../../utils/index.js";
@@ -20,23 +20,73 @@ export interface JsonLinesStringifyOptions {
 }
 
 /**
- * Split input into lines, normalizing line endings
- * Removes empty/whitespace-only lines
+ * What to do with a line that fails to parse (or validate)
+ *
+ * - "fail": fail with the line's error (default)
+ * - "skip": drop the line and continue
+ * - "collect": continue, reporting the line alongside the valid values
  */
-const splitLines = (input: string): readonly string[] => {
-  const normalized = input.replace(/\r\n/g, "\n");
-  return normalized.split("\n").filter((line) => line.trim().length > 0);
-};
+export type InvalidLinePolicy = "skip" | "collect" | "fail";
+
+/**
+ * Options for parsing JSON Lines
+ */
+export interface JsonLinesParseOptions {
+  readonly onInvalid?: InvalidLinePolicy; // Default: "fail"
+}
+
+/**
+ * A line that failed to parse or validate
+ */
+export interface InvalidLine<E = JsonLinesParseError> {
+  readonly lineNumber: number; // 1-indexed line number in the input
+  readonly line: string; // raw text of the line
+  readonly error: E;
+}
+
+/**
+ * Result of parsing with `onInvalid: "collect"`
+ */
+export interface CollectedLines<A, E = JsonLinesParseError> {
+  readonly valid: readonly A[];
+  readonly invalid: readonly InvalidLine<E>[];
+}
+
+/**
+ * A non-blank line with its position in the input
+ */
+export interface NumberedLine {
+  readonly line: string;
+  readonly lineNumber: number;
+}
+
+const TRAILING_CR_REGEX = /\r$/;
+
+/**
+ * Split input into numbered lines, normalizing line endings
+ * Removes empty/whitespace-only lines; numbers count every line
+ */
+export const splitLines = (
+  input: string,
+  firstLineNumber = 1,
+): readonly NumberedLine[] =>
+  input
+    .split("\n")
+    .map((line, index) => ({
+      line: line.replace(TRAILING_CR_REGEX, ""),
+      lineNumber: firstLineNumber + index,
+    }))
+    .filter(({ line }) => line.trim().length > 0);
 
 /**
  * Parse a single line of JSON
  *
  * Returns Effect with JsonLinesParseError including line number
  */
-const parseLine = (
-  line: string,
-  lineNumber: number,
-): Effect.Effect<unknown, JsonLinesParseError> =>
+export const parseLine = ({
+  line,
+  lineNumber,
+}: NumberedLine): Effect.Effect<unknown, JsonLinesParseError> =>
   Effect.try({
     try: () => JSON.parse(line) as unknown,
     catch: (error) => {
@@ -64,27 +114,96 @@ const parseLine = (
   });
 
 /**
- * Parse entire JSONL string into array of values
+ * Decode lines according to an invalid line policy
  *
- * Skips blank lines, fails fast on first error
+ * @internal Shared by the raw and schema-validating parsers
  */
-export const parseBatch = (
-  input: string | Buffer,
-): Effect.Effect<readonly unknown[], JsonLinesParseError> => {
-  const inputStr = toString(input);
-  const lines = splitLines(inputStr);
+export const decodeBatch = <A, E, R>(
+  lines: readonly NumberedLine[],
+  decode: (line: NumberedLine) => Effect.Effect<A, E, R>,
+  onInvalid: InvalidLinePolicy = "fail",
+): Effect.Effect<readonly A[] | CollectedLines<A, E>, E, R> => {
+  if (onInvalid === "fail") {
+    return Effect.forEach(lines, decode, { concurrency: "unbounded" });
+  }
+  return Effect.forEach(lines, (line) => Effect.either(decode(line)), {
+    concurrency: "unbounded",
+  }).pipe(
+    Effect.map((results) => {
+      const valid: A[] = [];
+      const invalid: InvalidLine<E>[] = [];
+      for (const [index, result] of results.entries()) {
+        if (Either.isRight(result)) {
+          valid.push(result.right);
+        } else {
+          invalid.push({ ...(lines[index] as NumberedLine), error: result.left });
+        }
+      }
+      return onInvalid === "collect" ? { valid, invalid } : valid;
+    }),
+  );
+};
 
-  // If no valid lines, return empty array
-  if (lines.length === 0) {
-    return Effect.succeed([]);
+/**
+ * Decode a stream of lines according to an invalid line policy
+ *
+ * With "collect", emits `Either.right(value)` for valid lines and
+ * `Either.left(invalidLine)` for the others.
+ *
+ * @internal Shared by the raw and schema-validating parsers
+ */
+export const decodeStream = <A, E, E2, R, R2>(
+  lines: Stream.Stream<NumberedLine, E2, R2>,
+  decode: (line: NumberedLine) => Effect.Effect<A, E, R>,
+  onInvalid: InvalidLinePolicy = "fail",
+): Stream.Stream<A | Either.Either<A, InvalidLine<E>>, E | E2, R | R2> => {
+  switch (onInvalid) {
+    case "skip":
+      return lines.pipe(
+        Stream.mapEffect((line) => Effect.option(decode(line))),
+        Stream.filterMap((value) => value),
+      );
+    case "collect":
+      return lines.pipe(
+        Stream.mapEffect((line) =>
+          decode(line).pipe(
+            Effect.mapError((error) => ({ ...line, error })),
+            Effect.either,
+          ),
+        ),
+      );
+    default:
+      return lines.pipe(Stream.mapEffect(decode));
   }
+};
 
-  // Parse each line and collect results
-  return Effect.all(
-    lines.map((line, index) => parseLine(line, index + 1)),
-    { concurrency: "unbounded" },
+/**
+ * Parse entire JSONL string into array of values
+ *
+ * Skips blank lines. By default fails on the first invalid line; with
+ * `onInvalid` invalid lines can be skipped or collected instead.
+ */
+export function parseBatch(
+  input: string | Buffer,
+  options: JsonLinesParseOptions & { readonly onInvalid: "collect" },
+): Effect.Effect<CollectedLines<unknown>>;
+export function parseBatch(
+  input: string | Buffer,
+  options?: JsonLinesParseOptions,
+): Effect.Effect<readonly unknown[], JsonLinesParseError>;
+export function parseBatch(
+  input: string | Buffer,
+  options?: JsonLinesParseOptions,
+): Effect.Effect<
+  readonly unknown[] | CollectedLines<unknown>,
+  JsonLinesParseError
+> {
+  return decodeBatch(
+    splitLines(toString(input)),
+    parseLine,
+    options?.onInvalid,
   );
-};
+}
 
 /**
  * Stringify array of values to JSONL string
@@ -135,11 +254,9 @@ class LineBuffer {
   /**
    * Process incoming chunk and emit complete lines
    */
-  processChunk(
-    chunk: string,
-  ): ReadonlyArray<{ line: string; lineNumber: number }> {
+  processChunk(chunk: string): readonly NumberedLine[] {
     this.buffer += chunk;
-    const lines: Array<{ line: string; lineNumber: number }> = [];
+    const lines: NumberedLine[] = [];
 
     // Find all complete lines (up to last \n)
     const lastNewlineIndex = this.buffer.lastIndexOf("\n");
@@ -153,12 +270,14 @@ class LineBuffer {
     const completeText = this.buffer.slice(0, lastNewlineIndex);
     this.buffer = this.buffer.slice(lastNewlineIndex + 1);
 
-    // Split and filter
-    const splitLines = completeText.split("\n");
-    for (const line of splitLines) {
+    // Split and filter, counting blank lines too
+    for (const line of completeText.split("\n")) {
+      this.lineNumber++;
       if (line.trim().length > 0) {
-        this.lineNumber++;
-        lines.push({ line, lineNumber: this.lineNumber });
+        lines.push({
+          line: line.replace(TRAILING_CR_REGEX, ""),
+          lineNumber: this.lineNumber,
+        });
       }
     }
 
@@ -168,7 +287,7 @@ class LineBuffer {
   /**
    * Flush remaining buffer at end of stream
    */
-  flush(): ReadonlyArray<{ line: string; lineNumber: number }> {
+  flush(): readonly NumberedLine[] {
     if (this.buffer.trim().length > 0) {
       this.lineNumber++;
       return [{ line: this.buffer.trim(), lineNumber: this.lineNumber }];
@@ -178,29 +297,42 @@ class LineBuffer {
 }
 
 /**
- * Parse stream of string chunks into stream of parsed values
+ * Split a stream of string chunks into numbered lines
  *
  * Handles arbitrary chunk boundaries (may split lines mid-way)
  */
-export const parseStream = <R>(
-  input: Stream.Stream<string, never, R>,
-): Stream.Stream<unknown, JsonLinesParseError, R> => {
-  const buffer = new LineBuffer();
+export const streamLines = <E, R>(
+  input: Stream.Stream<string, E, R>,
+): Stream.Stream<NumberedLine, E, R> =>
+  Stream.suspend(() => {
+    const buffer = new LineBuffer();
+    return input.pipe(
+      Stream.mapConcat((chunk) => buffer.processChunk(chunk)),
+      Stream.concat(Stream.suspend(() => Stream.fromIterable(buffer.flush()))),
+    );
+  });
 
-  return input.pipe(
-    Stream.mapEffect((chunk) => {
-      const lines = buffer.processChunk(chunk);
-      return Effect.succeed(lines);
-    }),
-    Stream.flatMap((lines) => Stream.fromIterable(lines)),
-    Stream.concat(
-      Stream.fromEffect(Effect.succeed(buffer.flush())).pipe(
-        Stream.flatMap((lines) => Stream.fromIterable(lines)),
-      ),
-    ),
-    Stream.mapEffect(({ line, lineNumber }) => parseLine(line, lineNumber)),
-  );
-};
+/**
+ * Parse stream of string chunks into stream of parsed values
+ *
+ * Handles arbitrary chunk boundaries (may split lines mid-way). By default
+ * the stream fails on the first invalid line; with `onInvalid` invalid
+ * lines can be skipped, or collected as `Either.left` elements.
+ */
+export function parseStream<R>(
+  input: Stream.Stream<string, never, R>,
+  options: JsonLinesParseOptions & { readonly onInvalid: "collect" },
+): Stream.Stream<Either.Either<unknown, InvalidLine>, never, R>;
+export function parseStream<R>(
+  input: Stream.Stream<string, never, R>,
+  options?: JsonLinesParseOptions,
+): Stream.Stream<unknown, JsonLinesParseError, R>;
+export function parseStream<R>(
+  input: Stream.Stream<string, never, R>,
+  options?: JsonLinesParseOptions,
+): Stream.Stream<unknown, JsonLinesParseError, R> {
+  return decodeStream(streamLines(input), parseLine, options?.onInvalid);
+}
 
 /**
  * Stringify stream of values into stream of JSONL strings
@@ -1,9 +1,23 @@
 export type { JsonLinesServiceInterface } from "./api.js";
 export {
+  appendJsonLines,
+  buildIndex,
+  indexPath,
+  openAppender,
   parseBatch,
   parseStream,
+  readRange,
   stringifyBatch,
   stringifyStream,
 } from "./helpers.js";
 export { JsonLinesService } from "./service.js";
-export type { JsonLinesStringifyOptions } from "./types.js";
+export type {
+  CollectedLines,
+  InvalidLine,
+  InvalidLinePolicy,
+  JsonLinesAppender,
+  JsonLinesAppendOptions,
+  JsonLinesIndex,
+  JsonLinesParseOptions,
+  JsonLinesStringifyOptions,
+} from "./types.js";
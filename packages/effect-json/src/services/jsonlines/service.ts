@@ -15,12 +15,12 @@ export class JsonLinesService extends Effect.Service<JsonLinesService>()(
     dependencies: [],
     effect: Effect.gen(function* () {
       return {
-        parseBatch: (input: string | Buffer) => parseBatch(input),
+        parseBatch,
         stringifyBatch: (
           values: unknown[],
           options?: JsonLinesStringifyOptions
         ) => stringifyBatch(values, options),
-        parseStream: (input: Stream.Stream<string>) => parseStream(input),
+        parseStream,
         stringifyStream: (
           input: Stream.Stream<unknown>,
           options?: JsonLinesStringifyOptions
@@ -1,3 +1,12 @@
-import type { JsonLinesStringifyOptions } from "./implementations/index.js";
-
-export type { JsonLinesStringifyOptions };
+export type {
+  JsonLinesAppender,
+  JsonLinesAppendOptions,
+  JsonLinesIndex,
+} from "./implementations/file.js";
+export type {
+  CollectedLines,
+  InvalidLine,
+  InvalidLinePolicy,
+  JsonLinesParseOptions,
+  JsonLinesStringifyOptions,
+} from "./implementations/index.js";
@@ -2,6 +2,14 @@
  * Utility exports
  */
 
+export { isJsonObject, jsonEqual } from "./json.js";
+export {
+  byteOffset,
+  codeFrame,
+  type ScanResult,
+  type SourceSpan,
+  scanJson,
+} from "./source.js";
 export {
   buildSnippet,
   getLineColumn,
@@ -0,0 +1,37 @@
+/**
+ * JSON value utility functions for effect-json
+ */
+
+/**
+ * A JSON object: a non-null, non-array object
+ */
+export const isJsonObject = (
+  value: unknown
+): value is Readonly<Record<string, unknown>> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Structural equality of JSON values, as RFC 6902 `test` defines it:
+ * objects compare by members regardless of order, arrays element-wise
+ */
+export const jsonEqual = (left: unknown, right: unknown): boolean => {
+  if (left === right) {
+    return true;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((item, index) => jsonEqual(item, right[index]))
+    );
+  }
+  if (isJsonObject(left) && isJsonObject(right)) {
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every(
+        (key) => Object.hasOwn(right, key) && jsonEqual(left[key], right[key])
+      )
+    );
+  }
+  return false;
+};
@@ -0,0 +1,350 @@
+/**
+ * Source position utility functions for effect-json
+ *
+ * A validating scanner that finds where JSON (or JSONC) text goes wrong
+ * and where each value sits in it, so errors can point into the source.
+ */
+
+import { formatPointer } from "../pointer.js";
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+const WHITESPACE = new Set([" ", "\t", "\n", "\r"]);
+const ESCAPES = new Set(['"', "\\", "/", "b", "f", "n", "r", "t"]);
+const HEX_DIGITS = /^[0-9a-fA-F]{4}$/;
+const TRAILING_CR_PATTERN = /\r$/;
+const NON_TAB_PATTERN = /[^\t]/g;
+const FRAME_CONTEXT_LINES = 2;
+
+/**
+ * Where a value sits in the source text, as string indexes
+ */
+export interface SourceSpan {
+  readonly start: number;
+  readonly end: number; // exclusive
+}
+
+export interface ScanResult {
+  readonly spans: ReadonlyMap<string, SourceSpan>; // keyed by JSON Pointer
+  readonly error?: {
+    readonly index: number;
+    readonly reason: string;
+  };
+}
+
+class ScanFailure {
+  readonly index: number;
+  readonly reason: string;
+
+  constructor(index: number, reason: string) {
+    this.index = index;
+    this.reason = reason;
+  }
+}
+
+/**
+ * An array or object whose members are being scanned
+ */
+interface Container {
+  readonly close: "]" | "}";
+  readonly pointer: string;
+  readonly start: number;
+  position: number;
+}
+
+/**
+ * Scan of JSON text that records value spans and stops at the first
+ * syntax error. Mirrors `JSON.parse`, plus comments for JSONC. Open
+ * arrays and objects are kept on an explicit stack, so deep nesting
+ * cannot overflow the call stack.
+ */
+class JsonScanner {
+  readonly spans = new Map<string, SourceSpan>();
+  private readonly text: string;
+  private readonly comments: boolean;
+  private readonly open: Container[] = [];
+  private index = 0;
+
+  constructor(text: string, comments: boolean) {
+    this.text = text;
+    this.comments = comments;
+  }
+
+  document(): void {
+    this.values();
+    this.skipTrivia();
+    if (this.index < this.text.length) {
+      this.fail("Unexpected content after the JSON value");
+    }
+  }
+
+  private fail(reason: string, index = this.index): never {
+    throw new ScanFailure(index, reason);
+  }
+
+  private unexpected(): never {
+    if (this.index >= this.text.length) {
+      return this.fail("Unexpected end of input");
+    }
+    WORD_PATTERN.lastIndex = this.index;
+    const word = WORD_PATTERN.exec(this.text)?.[0];
+    const token = word ?? this.text[this.index];
+    return this.fail(`Unexpected token ${JSON.stringify(token)}`);
+  }
+
+  private skipTrivia(): void {
+    while (this.index < this.text.length) {
+      if (WHITESPACE.has(this.text[this.index] as string)) {
+        this.index++;
+      } else if (!(this.comments && this.skipComment())) {
+        return;
+      }
+    }
+  }
+
+  private skipComment(): boolean {
+    if (this.text.startsWith("//", this.index)) {
+      const end = this.text.indexOf("\n", this.index);
+      this.index = end === -1 ? this.text.length : end;
+      return true;
+    }
+    if (this.text.startsWith("/*", this.index)) {
+      const end = this.text.indexOf("*/", this.index + 2);
+      if (end === -1) {
+        this.fail("Unterminated comment");
+      }
+      this.index = end + 2;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Scan the document's values, depth first, until the outermost one ends
+   */
+  private values(): void {
+    let pointer: string | undefined = "";
+    while (pointer !== undefined) {
+      this.skipTrivia();
+      const start = this.index;
+      const char = this.text[this.index];
+      if (char === "{" || char === "[") {
+        pointer = this.container(char === "{" ? "}" : "]", pointer, start);
+        continue;
+      }
+      if (char === '"') {
+        this.string();
+      } else {
+        this.scalar();
+      }
+      this.spans.set(pointer, { start, end: this.index });
+      pointer = this.next();
+    }
+  }
+
+  /**
+   * Open an array or object; returns the pointer of the value to scan next
+   */
+  private container(
+    close: Container["close"],
+    pointer: string,
+    start: number
+  ): string | undefined {
+    this.index++;
+    this.skipTrivia();
+    if (this.text[this.index] === close) {
+      this.index++;
+      this.spans.set(pointer, { start, end: this.index });
+      return this.next();
+    }
+    const container = { close, pointer, start, position: 0 };
+    this.open.push(container);
+    return this.member(container);
+  }
+
+  /**
+   * Close the containers that end after a value, rejecting trailing
+   * commas; returns the pointer of the next member, if any is left
+   */
+  private next(): string | undefined {
+    for (
+      let container = this.open.at(-1);
+      container;
+      container = this.open.at(-1)
+    ) {
+      this.skipTrivia();
+      const char = this.text[this.index];
+      if (char === container.close) {
+        this.index++;
+        this.open.pop();
+        this.spans.set(container.pointer, {
+          start: container.start,
+          end: this.index,
+        });
+        continue;
+      }
+      if (char !== ",") {
+        this.fail(`Expected "," or "${container.close}"`);
+      }
+      const comma = this.index;
+      this.index++;
+      this.skipTrivia();
+      if (this.text[this.index] === container.close) {
+        this.fail("Trailing comma is not allowed", comma);
+      }
+      container.position++;
+      return this.member(container);
+    }
+    return;
+  }
+
+  /**
+   * Pointer of a container's next member, reading the property name of an
+   * object member
+   */
+  private member(container: Container): string {
+    if (container.close === "]") {
+      return container.pointer + formatPointer([container.position]);
+    }
+    this.skipTrivia();
+    if (this.text[this.index] !== '"') {
+      this.fail("Expected a property name in double quotes");
+    }
+    const key = this.string();
+    this.skipTrivia();
+    if (this.text[this.index] !== ":") {
+      this.fail('Expected ":" after property name');
+    }
+    this.index++;
+    return container.pointer + formatPointer([key]);
+  }
+
+  private scalar(): void {
+    const char = this.text[this.index] ?? "";
+    if (char === "-" || (char >= "0" && char <= "9")) {
+      NUMBER_PATTERN.lastIndex = this.index;
+      if (!NUMBER_PATTERN.test(this.text)) {
+        this.fail("Invalid number");
+      }
+      this.index = NUMBER_PATTERN.lastIndex;
+      return;
+    }
+    for (const literal of ["true", "false", "null"]) {
+      WORD_PATTERN.lastIndex = this.index;
+      if (WORD_PATTERN.exec(this.text)?.[0] === literal) {
+        this.index += literal.length;
+        return;
+      }
+    }
+    this.unexpected();
+  }
+
+  private string(): string {
+    const start = this.index;
+    this.index++;
+    while (this.index < this.text.length) {
+      const char = this.text[this.index] as string;
+      if (char === '"') {
+        this.index++;
+        return JSON.parse(this.text.slice(start, this.index)) as string;
+      }
+      if (char === "\\") {
+        this.escape();
+      } else if (char < " ") {
+        this.fail("Unescaped control character in string");
+      } else {
+        this.index++;
+      }
+    }
+    return this.fail("Unterminated string", start);
+  }
+
+  private escape(): void {
+    const char = this.text[this.index + 1] ?? "";
+    if (ESCAPES.has(char)) {
+      this.index += 2;
+    } else if (
+      char === "u" &&
+      HEX_DIGITS.test(this.text.slice(this.index + 2, this.index + 6))
+    ) {
+      this.index += 6;
+    } else {
+      this.fail("Invalid escape sequence in string");
+    }
+  }
+}
+
+/**
+ * Scan JSON text, returning the span of every value (by JSON Pointer) and
+ * the first syntax error, if any
+ *
+ * @example
+ * scanJson('{"a": [1, 2]}').spans.get("/a/1") // { start: 10, end: 11 }
+ */
+export const scanJson = (
+  text: string,
+  options?: { readonly comments?: boolean }
+): ScanResult => {
+  const scanner = new JsonScanner(text, options?.comments ?? false);
+  try {
+    scanner.document();
+    return { spans: scanner.spans };
+  } catch (error) {
+    if (error instanceof ScanFailure) {
+      return {
+        spans: scanner.spans,
+        error: { index: error.index, reason: error.reason },
+      };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Byte offset (UTF-8) of a string index
+ */
+export const byteOffset = (text: string, index: number): number =>
+  Buffer.byteLength(text.slice(0, index), "utf8");
+
+/**
+ * Render a code frame around a string index: numbered source lines with
+ * the error line marked and a caret under the error column
+ *
+ * @example
+ * codeFrame('{\n  "id": ,\n}', 10)
+ * // Returns:
+ * //   1 | {
+ * // > 2 |   "id": ,
+ * //     |         ^
+ * //   3 | }
+ */
+export const codeFrame = (text: string, index: number): string => {
+  const lines = text.split("\n");
+  let lineIndex = 0;
+  let lineStart = 0;
+  while (
+    lineIndex < lines.length - 1 &&
+    lineStart + (lines[lineIndex]?.length ?? 0) < index
+  ) {
+    lineStart += (lines[lineIndex]?.length ?? 0) + 1;
+    lineIndex++;
+  }
+  const first = Math.max(0, lineIndex - FRAME_CONTEXT_LINES);
+  const last = Math.min(lines.length - 1, lineIndex + FRAME_CONTEXT_LINES);
+  const gutterWidth = String(last + 1).length;
+  const frame: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const line = (lines[current] ?? "").replace(TRAILING_CR_PATTERN, "");
+    const number = String(current + 1).padStart(gutterWidth);
+    const marker = current === lineIndex ? ">" : " ";
+    frame.push(`${marker} ${number} |${line ? ` ${line}` : ""}`);
+    if (current === lineIndex) {
+      // Keep tabs so the caret lines up with the source
+      const indent = line
+        .slice(0, index - lineStart)
+        .replace(NON_TAB_PATTERN, " ");
+      frame.push(`  ${" ".repeat(gutterWidth)} | ${indent}^`);
+    }
+  }
+  return frame.join("\n");
+};
@@ -0,0 +1,507 @@
+import { Effect } from "effect";
+import { describe, expect, it } from "vitest";
+import { type LiquidContext, render } from "../../src/index.js";
+
+/**
+ * A selection of cases ported from the Shopify Liquid tag and variable
+ * tests; it is not a full port of the reference suite. Cases that rely on
+ * bracket lookups, or on Shopify's truthiness where only nil and false are
+ * falsy (this engine also treats 0, "" and empty collections as false),
+ * are left out.
+ */
+interface ConformanceCase {
+  readonly name: string;
+  readonly template: string;
+  readonly context?: LiquidContext;
+  readonly expected: string;
+}
+
+const suites: Record<string, readonly ConformanceCase[]> = {
+  output: [
+    {
+      name: "outputs string literals",
+      template: `{{ 'single' }} {{ "double" }}`,
+      expected: "single double",
+    },
+    {
+      name: "reads variables as filter arguments",
+      template: "{{ s | append: other }}|{{ s | append: o.suffix }}",
+      context: { s: "a", other: "b", o: { suffix: "c" } },
+      expected: "ab|ac",
+    },
+    {
+      name: "applies filters to literals",
+      template: `{{ "a" | upcase }}{{ 'b' | append: 'c' }}`,
+      expected: "Abc",
+    },
+    {
+      name: "outputs number, boolean and nil literals",
+      template: "{{ 42 }}|{{ -1.5 }}|{{ true }}|{{ false }}|{{ nil }}",
+      expected: "42|-1.5|true|false|",
+    },
+    {
+      name: "does not read literals from the context",
+      template: "{{ 'name' }}",
+      context: { name: "variable" },
+      expected: "name",
+    },
+    {
+      name: "outputs ranges",
+      template: "{{ (1..5) | join: ', ' }}",
+      expected: "1, 2, 3, 4, 5",
+    },
+  ],
+  if: [
+    {
+      name: "renders its body when true",
+      template:
+        " {% if true %} this text should go into the output {% endif %} ",
+      expected: "  this text should go into the output  ",
+    },
+    {
+      name: "skips its body when false",
+      template:
+        " {% if false %} this text should not go into the output {% endif %} ",
+      expected: "  ",
+    },
+    {
+      name: "renders else when false",
+      template: "{% if false %} NO {% else %} YES {% endif %}",
+      expected: " YES ",
+    },
+    {
+      name: "renders the first true elsif",
+      template:
+        "{% if false %}0{% elsif false %}1{% elsif true %}2{% else %}3{% endif %}",
+      expected: "2",
+    },
+    {
+      name: "reads variables",
+      template: "{% if var %} YES {% endif %}",
+      context: { var: true },
+      expected: " YES ",
+    },
+    {
+      name: "evaluates and",
+      template:
+        "{% if a and b %} YES {% endif %}|{% if a and c %} NO {% endif %}",
+      context: { a: true, b: true, c: false },
+      expected: " YES |",
+    },
+    {
+      name: "evaluates or",
+      template:
+        "{% if a or b %} YES {% endif %}|{% if b or c %} NO {% endif %}",
+      context: { a: true, b: false, c: false },
+      expected: " YES |",
+    },
+    {
+      name: "groups and and or from the right",
+      template:
+        "{% if true or false and false %} YES {% endif %}|{% if false and false or true %} NO {% endif %}",
+      expected: " YES |",
+    },
+    {
+      name: "compares numbers",
+      template:
+        "{% if 1 < 2 %}a{% endif %}{% if 2 <= 2 %}b{% endif %}{% if 3 > 2 %}c{% endif %}{% if 2 >= 3 %}d{% endif %}{% if 1 == 1 %}e{% endif %}{% if 1 != 2 %}f{% endif %}",
+      expected: "abcef",
+    },
+    {
+      name: "compares variables with literals",
+      template:
+        "{% if user.age >= 18 and user.name == 'Ada' %} adult {% endif %}",
+      context: { user: { age: 36, name: "Ada" } },
+      expected: " adult ",
+    },
+    {
+      name: "compares with empty",
+      template:
+        "{% if a == empty %}a{% endif %}{% if b == empty %}b{% endif %}{% if c == empty %}c{% endif %}{% if d != empty %}d{% endif %}{% if e == empty %}e{% endif %}",
+      context: { a: [], b: "", c: {}, d: [1] },
+      expected: "abcd",
+    },
+    {
+      name: "compares with blank",
+      template:
+        "{% if a == blank %}a{% endif %}{% if b == blank %}b{% endif %}{% if c == blank %}c{% endif %}{% if d == blank %}d{% endif %}",
+      context: { a: "  ", b: false, d: "text" },
+      expected: "abc",
+    },
+    {
+      name: "keeps and and or inside strings",
+      template:
+        "{% if a == 'and' and b == 'or' and c == 'foo and bar' and d == 'bar or baz' %} YES {% endif %}",
+      context: { a: "and", b: "or", c: "foo and bar", d: "bar or baz" },
+      expected: " YES ",
+    },
+    {
+      name: "finds substrings with contains",
+      template:
+        "{% if 'bob' contains 'o' %}yes{% endif %}{% if 'bob' contains 'f' %}no{% endif %}",
+      expected: "yes",
+    },
+    {
+      name: "finds array elements with contains",
+      template:
+        "{% if items contains 2 %}yes{% endif %}{% if items contains 5 %}no{% endif %}",
+      context: { items: [1, 2, 3] },
+      expected: "yes",
+    },
+  ],
+  unless: [
+    {
+      name: "renders its body when false",
+      template:
+        "{% unless false %} YES {% endunless %}|{% unless true %} NO {% endunless %}",
+      expected: " YES |",
+    },
+    {
+      name: "evaluates comparisons",
+      template: "{% unless count == 1 %} many {% endunless %}",
+      context: { count: 3 },
+      expected: " many ",
+    },
+    {
+      name: "renders else when true",
+      template:
+        "{% unless true %} NO {% else %} YES {% endunless %}|{% unless false %} YES {% else %} NO {% endunless %}",
+      expected: " YES | YES ",
+    },
+  ],
+  case: [
+    {
+      name: "renders the matching when",
+      template:
+        "{% case condition %}{% when 1 %} its 1 {% when 2 %} its 2 {% endcase %}",
+      context: { condition: 2 },
+      expected: " its 2 ",
+    },
+    {
+      name: "matches strings",
+      template:
+        '{% case condition %}{% when "string here" %} hit {% endcase %}',
+      context: { condition: "string here" },
+      expected: " hit ",
+    },
+    {
+      name: "renders nothing without a match",
+      template: "{% case condition %}{% when 1 %} its 1 {% endcase %}",
+      context: { condition: 2 },
+      expected: "",
+    },
+    {
+      name: "renders else without a match",
+      template:
+        "{% case condition %}{% when 5 %} hit {% else %} else {% endcase %}",
+      context: { condition: 6 },
+      expected: " else ",
+    },
+    {
+      name: "matches values separated by or",
+      template:
+        "{% case condition %}{% when 1 or 2 or 3 %} its 1 or 2 or 3 {% when 4 %} its 4 {% endcase %}",
+      context: { condition: 3 },
+      expected: " its 1 or 2 or 3 ",
+    },
+    {
+      name: "matches values separated by commas",
+      template:
+        "{% case condition %}{% when 1, 2, 3 %} its 1 or 2 or 3 {% when 4 %} its 4 {% endcase %}",
+      context: { condition: 4 },
+      expected: " its 4 ",
+    },
+  ],
+  assign: [
+    {
+      name: "applies filters to the value",
+      template:
+        "{% assign a = 'foo' | upcase %}{{ a }}|{% assign a = a | append: 'bar' %}{{ a }}",
+      expected: "FOO|FOObar",
+    },
+    {
+      name: "assigns literals",
+      template: "{% assign foo = 'bar' %}{{ foo }}|{% assign n = 42 %}{{ n }}",
+      expected: "bar|42",
+    },
+    {
+      name: "assigns variables",
+      template: "{% assign foo = values %}.{{ foo | first }}.",
+      context: { values: ["foo", "bar", "baz"] },
+      expected: ".foo.",
+    },
+    {
+      name: "assigns ranges",
+      template: "{% assign r = (1..3) %}{{ r | join: ',' }}",
+      expected: "1,2,3",
+    },
+  ],
+  raw: [
+    {
+      name: "keeps tags verbatim",
+      template: "{% raw %}{% comment %} test {% endcomment %}{% endraw %}",
+      expected: "{% comment %} test {% endcomment %}",
+    },
+    {
+      name: "keeps outputs verbatim",
+      template: "{% raw %}{{ test }}{% endraw %}",
+      expected: "{{ test }}",
+    },
+    {
+      name: "keeps unterminated tags verbatim",
+      template: "{% raw %} test {% invalid {% endraw %}",
+      expected: " test {% invalid ",
+    },
+    {
+      name: "keeps unterminated outputs verbatim",
+      template: "{% raw %} Foobar {{ invalid {% endraw %}{{ name }}",
+      context: { name: "after" },
+      expected: " Foobar {{ invalid after",
+    },
+  ],
+  comment: [
+    {
+      name: "drops its body",
+      template: "a{% comment %}b{% endcomment %}c",
+      expected: "ac",
+    },
+    {
+      name: "ignores tags in its body",
+      template: "a{% comment %}{% if x %}{% for %}{% endcomment %}b",
+      expected: "ab",
+    },
+  ],
+  echo: [
+    {
+      name: "outputs a variable",
+      template: "{% echo name %}",
+      context: { name: "liquid" },
+      expected: "liquid",
+    },
+    {
+      name: "applies filters",
+      template: "{% echo name | upcase %}",
+      context: { name: "liquid" },
+      expected: "LIQUID",
+    },
+  ],
+  liquid: [
+    {
+      name: "runs one tag per line",
+      template: "{% liquid\n  for item in items\n    echo item\n  endfor\n%}",
+      context: { items: [1, 2, 3] },
+      expected: "123",
+    },
+    {
+      name: "skips blank and comment lines",
+      template: "{% liquid\n\n  # a comment\n  echo name | upcase\n%}!",
+      context: { name: "hi" },
+      expected: "HI!",
+    },
+  ],
+  cycle: [
+    {
+      name: "cycles through its values",
+      template:
+        '{%cycle "one", "two"%} {%cycle "one", "two"%} {%cycle "one", "two"%}',
+      expected: "one two one",
+    },
+    {
+      name: "tracks each value list separately",
+      template:
+        "{%cycle 1,2%} {%cycle 1,2%} {%cycle 1,2%} {%cycle 1,2,3%} {%cycle 1,2,3%} {%cycle 1,2,3%} {%cycle 1,2,3%}",
+      expected: "1 2 1 1 2 3 1",
+    },
+    {
+      name: "tracks named groups by their value",
+      template:
+        '{%cycle var1: "one", "two" %} {%cycle var2: "one", "two" %} {%cycle var1: "one", "two" %} {%cycle var2: "one", "two" %}',
+      context: { var1: 1, var2: 2 },
+      expected: "one one two two",
+    },
+    {
+      name: "cycles across loop iterations",
+      template: '{% for item in items %}{% cycle "odd", "even" %}{% endfor %}',
+      context: { items: [1, 2, 3] },
+      expected: "oddevenodd",
+    },
+  ],
+  increment: [
+    {
+      name: "starts counters at zero",
+      template:
+        "{%increment port %} {%increment starboard%} {%increment port %} {%increment port%} {%increment starboard %}",
+      expected: "0 0 1 2 1",
+    },
+    {
+      name: "continues from variables of the same name",
+      template:
+        "{%increment port %} {%increment starboard%} {%increment port %} {%decrement port%} {%decrement starboard %}",
+      context: { port: 1, starboard: 5 },
+      expected: "1 5 2 2 5",
+    },
+    {
+      name: "binds the counter as a variable",
+      template: "{% increment port %}{% increment port %}{{ port }}",
+      expected: "012",
+    },
+  ],
+  decrement: [
+    {
+      name: "starts counters below zero",
+      template: "{%decrement port %} {%decrement port %}",
+      expected: "-1 -2",
+    },
+    {
+      name: "decrements variables of the same name",
+      template: "{%decrement port %}",
+      context: { port: 10 },
+      expected: "9",
+    },
+  ],
+  tablerow: [
+    {
+      name: "renders a single row by default",
+      template: "{% tablerow n in numbers %} yo {% endtablerow %}",
+      context: { numbers: [1, 2, 3, 4] },
+      expected:
+        '<tr class="row1">\n<td class="col1"> yo </td><td class="col2"> yo </td><td class="col3"> yo </td><td class="col4"> yo </td></tr>\n',
+    },
+    {
+      name: "wraps rows after cols cells",
+      template: "{% tablerow n in numbers cols:3 %} {{ n }} {% endtablerow %}",
+      context: { numbers: [1, 2, 3, 4, 5, 6] },
+      expected:
+        '<tr class="row1">\n<td class="col1"> 1 </td><td class="col2"> 2 </td><td class="col3"> 3 </td></tr>\n<tr class="row2"><td class="col1"> 4 </td><td class="col2"> 5 </td><td class="col3"> 6 </td></tr>\n',
+    },
+    {
+      name: "renders an empty row for empty collections",
+      template: "{% tablerow n in numbers cols:3 %} {{ n }} {% endtablerow %}",
+      context: { numbers: [] },
+      expected: '<tr class="row1">\n</tr>\n',
+    },
+    {
+      name: "applies offset and limit",
+      template:
+        "{% tablerow n in numbers cols:2 offset:1 limit:3 %}{{ n }}{% endtablerow %}",
+      context: { numbers: [1, 2, 3, 4, 5, 6] },
+      expected:
+        '<tr class="row1">\n<td class="col1">2</td><td class="col2">3</td></tr>\n<tr class="row2"><td class="col1">4</td></tr>\n',
+    },
+    {
+      name: "exposes tablerowloop",
+      template:
+        "{% tablerow n in numbers cols:2 %}{{ tablerowloop.col }}{{ tablerowloop.row }}{% endtablerow %}",
+      context: { numbers: [1, 2, 3] },
+      expected:
+        '<tr class="row1">\n<td class="col1">11</td><td class="col2">21</td></tr>\n<tr class="row2"><td class="col1">12</td></tr>\n',
+    },
+  ],
+  for: [
+    {
+      name: "iterates ranges",
+      template: "{%for item in (1..3) %} {{item}} {%endfor%}",
+      expected: " 1  2  3 ",
+    },
+    {
+      name: "reads range bounds from variables",
+      template: "{%for i in (1..foobar) %} {{ i }} {%endfor%}",
+      context: { foobar: 3 },
+      expected: " 1  2  3 ",
+    },
+    {
+      name: "iterates ranges in reverse",
+      template: "{% for i in (a..b) reversed %}{{ i }}{% endfor %}",
+      context: { a: 1, b: 5 },
+      expected: "54321",
+    },
+    {
+      name: "applies limit",
+      template: "{% for i in items limit:2 %}{{ i }}{% endfor %}",
+      context: { items: [1, 2, 3, 4] },
+      expected: "12",
+    },
+    {
+      name: "applies offset",
+      template: "{% for i in items offset:2 %}{{ i }}{% endfor %}",
+      context: { items: [1, 2, 3, 4] },
+      expected: "34",
+    },
+    {
+      name: "applies offset and limit together",
+      template: "{% for i in items limit:2 offset:1 %}{{ i }}{% endfor %}",
+      context: { items: [1, 2, 3, 4] },
+      expected: "23",
+    },
+    {
+      name: "iterates in reverse",
+      template: "{% for i in items reversed %}{{ i }}{% endfor %}",
+      context: { items: [1, 2, 3] },
+      expected: "321",
+    },
+    {
+      name: "renders else for empty collections",
+      template:
+        "{% for i in products %}{{ i }}{% else %}none{% endfor %}|{% for i in items %}{{ i }}{% else %}none{% endfor %}",
+      context: { products: [], items: [1, 2] },
+      expected: "none|12",
+    },
+    {
+      name: "renders nested loops",
+      template:
+        "{% for row in rows %}{% for cell in row %}{{ cell }}{% endfor %};{% endfor %}",
+      context: { rows: [[1, 2], [3]] },
+      expected: "12;3;",
+    },
+  ],
+  break: [
+    {
+      name: "stops the loop",
+      template:
+        "{% for i in items %}{% if i.stop %}{% break %}{% endif %}{{ i.n }}{% endfor %}",
+      context: { items: [{ n: 1 }, { n: 2, stop: true }, { n: 3 }] },
+      expected: "1",
+    },
+    {
+      name: "only stops the innermost loop",
+      template:
+        "{% for row in rows %}{% for i in row %}{% if i.stop %}{% break %}{% endif %}{{ i.n }}{% endfor %};{% endfor %}",
+      context: {
+        rows: [
+          [{ n: 1 }, { n: 2, stop: true }],
+          [{ n: 3 }, { n: 4 }],
+        ],
+      },
+      expected: "1;34;",
+    },
+    {
+      name: "ends the template outside of loops",
+      template: "before{% break %}after",
+      expected: "before",
+    },
+  ],
+  continue: [
+    {
+      name: "skips the rest of the iteration",
+      template:
+        "{% for i in items %}{% if i.skip %}{% continue %}{% endif %}{{ i.n }}{% endfor %}",
+      context: { items: [{ n: 1 }, { n: 2, skip: true }, { n: 3 }] },
+      expected: "13",
+    },
+  ],
+};
+
+describe("Liquid conformance", () => {
+  for (const [tag, cases] of Object.entries(suites)) {
+    describe(tag, () => {
+      for (const { name, template, context, expected } of cases) {
+        it(name, async () => {
+          const result = await Effect.runPromise(
+            render(template, context ?? {})
+          );
+          expect(result).toBe(expected);
+        });
+      }
+    });
+  }
+});
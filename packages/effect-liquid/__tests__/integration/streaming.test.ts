@@ -0,0 +1,257 @@
+import { Chunk, Deferred, Effect, Either, Layer, Stream } from "effect";
+import { describe, expect, it } from "vitest";
+import {
+  compile,
+  type LiquidContext,
+  type LiquidOptions,
+  LiquidService,
+  memoryLoaderLayer,
+  renderCompiled,
+  renderStream,
+} from "../../src/index.js";
+
+const collect = async (
+  template: string,
+  context: LiquidContext,
+  options?: LiquidOptions
+) => {
+  const compiled = await Effect.runPromise(compile(template));
+  return Chunk.toArray(
+    await Effect.runPromise(
+      Stream.runCollect(renderStream(compiled, context, options))
+    )
+  );
+};
+
+const partials = LiquidService.DefaultWithoutDependencies.pipe(
+  Layer.provide(
+    memoryLoaderLayer({
+      item: "<li>{{ item }}</li>",
+      card: "[{% if card.sale %}sale {% endif %}{{ card.name }}]",
+      base: "<html>{% block body %}empty{% endblock %}</html>",
+      page: "{% layout 'base' %}{% assign x = 1 %}{% block body %}<p>{{ text }}</p>{% endblock %}",
+    })
+  )
+);
+
+/** Chunks of a streamed render, and the output of a whole render */
+const collectWithPartials = (template: string, context: LiquidContext) =>
+  Effect.runPromise(
+    Effect.gen(function* () {
+      const service = yield* LiquidService;
+      const compiled = yield* service.compile(template);
+      const chunks = yield* Stream.runCollect(
+        service.renderStream(compiled, { ...context })
+      );
+      const whole = yield* service.renderCompiled(compiled, { ...context });
+      return { chunks: Chunk.toArray(chunks), whole };
+    }).pipe(Effect.provide(partials))
+  );
+
+describe("Streaming rendering", () => {
+  it("should emit the same output as renderCompiled", async () => {
+    const templates: [string, LiquidContext][] = [
+      ["Hello {{ name | upcase }}!", { name: "world" }],
+      [
+        "{% for i in items limit:2 reversed %}{{ forloop.index }}:{{ i }} {% endfor %}done",
+        { items: [1, 2, 3] },
+      ],
+      [
+        "{% for row in rows %}{% for i in row %}{% if i.stop %}{% break %}{% endif %}{{ i.n }}{% endfor %};{% endfor %}",
+        { rows: [[{ n: 1 }, { n: 2, stop: true }], [{ n: 3 }]] },
+      ],
+      [
+        "{% for i in items %}{% if i.skip %}{% continue %}{% endif %}{{ i.n }}{% endfor %}",
+        { items: [{ n: 1 }, { n: 2, skip: true }, { n: 3 }] },
+      ],
+      ["{% capture x %}{{ name }}{% endcapture %}[{{ x }}]", { name: "a" }],
+      [
+        "{% if n > 2 %}big{% elsif n > 1 %}{{ n }} mid{% else %}small{% endif %}",
+        { n: 2 },
+      ],
+      ["{% unless hidden %}<b>{{ name }}</b>{% endunless %}", { name: "a" }],
+      [
+        "{% case kind %}{% when 'a', 'b' %}{{ kind }}!{% else %}?{% endcase %}",
+        { kind: "b" },
+      ],
+      [
+        "{%- if name -%} {{ name }} {%- endif -%}|{% if true %} x {%- endif %}",
+        { name: "a" },
+      ],
+    ];
+
+    for (const [template, context] of templates) {
+      const compiled = await Effect.runPromise(compile(template));
+      const whole = await Effect.runPromise(renderCompiled(compiled, context));
+      const chunks = await collect(template, context);
+      expect(chunks.join("")).toBe(whole);
+    }
+  });
+
+  it("should emit each node and loop iteration as its own chunk", async () => {
+    const chunks = await collect(
+      "<ul>{% for item in items %}<li>{{ item }}</li>{% endfor %}</ul>{% assign x = 1 %}",
+      { items: ["a", "b"] }
+    );
+
+    expect(chunks).toEqual([
+      "<ul>",
+      "<li>",
+      "a",
+      "</li>",
+      "<li>",
+      "b",
+      "</li>",
+      "</ul>",
+    ]);
+  });
+
+  it("should stream the selected branch of if, unless and case", async () => {
+    expect(
+      await collect(
+        "{% if user %}Hi {{ user }}!{% else %}Bye{% endif %}{% unless user %}-{% endunless %}",
+        { user: "Ada" }
+      )
+    ).toEqual(["Hi ", "Ada", "!"]);
+    expect(
+      await collect(
+        "{% case n %}{% when 1 %}one {{ n }}{% else %}other{% endcase %}",
+        { n: 1 }
+      )
+    ).toEqual(["one ", "1"]);
+  });
+
+  it("should stream the templates of include, render and layout", async () => {
+    const included = await collectWithPartials(
+      "<ul>{% include 'item' for items %}</ul>",
+      { items: ["a", "b"] }
+    );
+    expect(included.chunks).toEqual([
+      "<ul>",
+      "<li>",
+      "a",
+      "</li>",
+      "<li>",
+      "b",
+      "</li>",
+      "</ul>",
+    ]);
+    expect(included.chunks.join("")).toBe(included.whole);
+
+    const rendered = await collectWithPartials(
+      "{% render 'card' for cards %}",
+      { cards: [{ name: "Lamp", sale: true }, { name: "Desk" }] }
+    );
+    expect(rendered.chunks).toEqual([
+      "[",
+      "sale ",
+      "Lamp",
+      "]",
+      "[",
+      "Desk",
+      "]",
+    ]);
+    expect(rendered.chunks.join("")).toBe(rendered.whole);
+
+    const layout = await collectWithPartials("{% layout 'page' %}", {
+      text: "Hello",
+    });
+    expect(layout.chunks).toEqual([
+      "<html>",
+      "<p>",
+      "Hello",
+      "</p>",
+      "</html>",
+    ]);
+    expect(layout.chunks.join("")).toBe(layout.whole);
+  });
+
+  it("should emit capture, tablerow and trimmed tags as one chunk", async () => {
+    const template =
+      "{% capture x %}{{ a }}{{ b }}{% endcapture %}{{ x }}|{%- if a %} {{ a }}{{ b }}{% endif %}|{% tablerow i in items %}{{ i }}{% endtablerow %}";
+    const context = { a: 1, b: 2, items: [1, 2] };
+    const compiled = await Effect.runPromise(compile(template));
+    const whole = await Effect.runPromise(renderCompiled(compiled, context));
+    const chunks = await collect(template, context);
+
+    expect(chunks.slice(0, 4)).toEqual(["12", "|", "12", "|"]);
+    expect(chunks).toHaveLength(5);
+    expect(chunks.join("")).toBe(whole);
+  });
+
+  it("should emit earlier chunks while an async filter is pending", async () => {
+    const received = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* LiquidService;
+        const compiled = yield* service.compile("Hi {{ name | wait }}");
+        const gate = yield* Deferred.make<void>();
+        const chunks: string[] = [];
+
+        yield* service
+          .renderStream(
+            compiled,
+            { name: "Ada" },
+            {
+              customFilters: {
+                wait: (input) => Effect.as(Deferred.await(gate), input),
+              },
+            }
+          )
+          .pipe(
+            // The filter only completes once the first chunk is consumed
+            Stream.runForEach((chunk) =>
+              Effect.sync(() => chunks.push(chunk)).pipe(
+                Effect.zipRight(Deferred.succeed(gate, undefined))
+              )
+            ),
+            Effect.timeout("1 second")
+          );
+
+        return chunks;
+      }).pipe(Effect.provide(LiquidService.Default))
+    );
+
+    expect(received).toEqual(["Hi ", "Ada"]);
+  });
+
+  it("should fail the stream once a render limit is exceeded", async () => {
+    const compiled = await Effect.runPromise(
+      compile("{% for i in items %}{{ i }}{% endfor %}")
+    );
+    const emitted: string[] = [];
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        renderStream(
+          compiled,
+          { items: [1, 2, 3, 4] },
+          { limits: { maxLoopIterations: 2 } }
+        ).pipe(
+          Stream.runForEach((chunk) => Effect.sync(() => emitted.push(chunk)))
+        )
+      )
+    );
+
+    expect(emitted).toEqual(["1", "2"]);
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.message).toBe(
+        "Render exceeded the limit of 2 loop iterations"
+      );
+    }
+  });
+
+  it("should render custom for and if tags as a single chunk", async () => {
+    const chunks = await collect(
+      "{% for i in items %}{{ i }}{% endfor %}{% if true %}{{ i }}{% endif %}",
+      { items: [1, 2] },
+      {
+        customTags: {
+          for: () => Effect.succeed("custom"),
+          if: () => Effect.succeed("when"),
+        },
+      }
+    );
+    expect(chunks).toEqual(["custom", "when"]);
+  });
+});
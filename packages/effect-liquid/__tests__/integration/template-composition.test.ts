@@ -0,0 +1,190 @@
+import { Effect, Either, Layer } from "effect";
+import { describe, expect, it } from "vitest";
+import {
+  type LiquidContext,
+  LiquidService,
+  memoryLoaderLayer,
+  render,
+} from "../../src/index.js";
+
+const templates: Record<string, string> = {
+  header: "<h1>{{ title }}</h1>{% assign seen = true %}",
+  "product-card": "[{{ product-card.name }}]",
+  card: "[{{ card.name }}|{{ note }}|{{ title }}]",
+  row: "{{ forloop.index }}:{{ row }};",
+  assigns: "{% assign leaked = 'yes' %}",
+  base: "<html>{% block head %}<title>Site</title>{% endblock %}{% block content %}empty{% endblock %}</html>",
+  page: "{% layout 'base' %}{% block content %}<main>{% block body %}default{% endblock %}</main>{% endblock %}",
+  self: "{% include 'self' %}",
+  ping: "{% render 'pong' %}",
+  pong: "{% render 'ping' %}",
+  looping: "{% layout 'looping' %}",
+  node: "({{ node.name }}{% for child in node.children %}{% render 'node', node: child %}{% endfor %})",
+  broken: "{{ unclosed",
+};
+
+// Chain of distinct partials, deeper than the nesting limit
+for (let i = 0; i <= 100; i++) {
+  templates[`level-${i}`] =
+    i === 100 ? "bottom" : `{% include 'level-${i + 1}' %}`;
+}
+
+const layer = LiquidService.DefaultWithoutDependencies.pipe(
+  Layer.provide(memoryLoaderLayer(templates))
+);
+
+const renderWith = (template: string, context: LiquidContext = {}) =>
+  Effect.runPromise(
+    Effect.flatMap(LiquidService, (service) =>
+      service.render(template, context)
+    ).pipe(Effect.provide(layer))
+  );
+
+const renderError = async (template: string, context: LiquidContext = {}) => {
+  const result = await Effect.runPromise(
+    Effect.either(
+      Effect.flatMap(LiquidService, (service) =>
+        service.render(template, context)
+      ).pipe(Effect.provide(layer))
+    )
+  );
+  if (Either.isRight(result)) {
+    throw new Error(`Expected rendering to fail, got ${result.right}`);
+  }
+  return result.left;
+};
+
+describe("Template composition", () => {
+  describe("include", () => {
+    it("should render the partial in the current scope", async () => {
+      const result = await renderWith(
+        "{% include 'header' %}{% if seen %}!{% endif %}",
+        { title: "Home" }
+      );
+      expect(result).toBe("<h1>Home</h1>!");
+    });
+
+    it("should bind with and keyword arguments", async () => {
+      const result = await renderWith(
+        "{% include 'card' with product as card, note: 'sale' %}",
+        { product: { name: "Lamp" }, title: "Shop" }
+      );
+      expect(result).toBe("[Lamp|sale|Shop]");
+    });
+
+    it("should default the alias to the template name", async () => {
+      const result = await renderWith(
+        "{% include 'product-card' with item %}",
+        {
+          item: { name: "Desk" },
+        }
+      );
+      expect(result).toBe("[Desk]");
+    });
+
+    it("should render once per item with for", async () => {
+      const result = await renderWith(
+        "{% include 'card' for items as card %}",
+        {
+          items: [{ name: "A" }, { name: "B" }],
+        }
+      );
+      expect(result).toBe("[A||][B||]");
+    });
+  });
+
+  describe("render", () => {
+    it("should isolate the partial from the caller's variables", async () => {
+      const result = await renderWith(
+        "{% render 'card' with product as card %}{% render 'assigns' %}{{ leaked }}",
+        { product: { name: "Lamp" }, title: "hidden", note: "hidden" }
+      );
+      expect(result).toBe("[Lamp||]");
+    });
+
+    it("should render themselves recursively over finite data", async () => {
+      const result = await renderWith("{% render 'node', node: tree %}", {
+        tree: {
+          name: "root",
+          children: [
+            { name: "a", children: [{ name: "a1", children: [] }] },
+            { name: "b", children: [] },
+          ],
+        },
+      });
+      expect(result).toBe("(root(a(a1))(b))");
+    });
+
+    it("should expose forloop when iterating", async () => {
+      const result = await renderWith("{% render 'row' for rows %}", {
+        rows: ["a", "b", "c"],
+      });
+      expect(result).toBe("1:a;2:b;3:c;");
+    });
+  });
+
+  describe("layout", () => {
+    it("should fill layout blocks and keep defaults", async () => {
+      const result = await renderWith(
+        "{% layout 'base' %}{% block content %}Hi {{ name }}{% endblock %}",
+        { name: "Ada" }
+      );
+      expect(result).toBe("<html><title>Site</title>Hi Ada</html>");
+    });
+
+    it("should let the innermost template win across layout chains", async () => {
+      const result = await renderWith(
+        "{% layout 'page' %}{% assign who = 'Ada' %}ignored{% block body %}Hi {{ who }}{% endblock %}{% block head %}<title>Page</title>{% endblock %}"
+      );
+      expect(result).toBe(
+        "<html><title>Page</title><main>Hi Ada</main></html>"
+      );
+    });
+
+    it("should pass layout arguments", async () => {
+      const result = await renderWith(
+        "{% layout 'header', title: 'Welcome' %}"
+      );
+      expect(result).toBe("<h1>Welcome</h1>");
+    });
+  });
+
+  describe("errors", () => {
+    it("should stop unbounded recursion at the nesting depth limit", async () => {
+      const direct = await renderError("{% include 'self' %}");
+      const indirect = await renderError("{% render 'ping' %}");
+
+      expect(direct.message).toBe(
+        "Template nesting exceeds the maximum depth of 100 at 'self'"
+      );
+      expect(indirect.message).toContain("maximum depth of 100");
+    });
+
+    it("should detect layout cycles", async () => {
+      const layout = await renderError("{% include 'looping' %}");
+      expect(layout.message).toBe(
+        "Circular layout reference: looping -> looping"
+      );
+    });
+
+    it("should enforce the nesting depth limit", async () => {
+      const error = await renderError("{% include 'level-0' %}");
+      expect(error.message).toContain("maximum depth of 100");
+    });
+
+    it("should report missing and unparsable templates", async () => {
+      const missing = await renderError("{% render 'nope' %}");
+      const broken = await renderError("{% render 'broken' %}");
+
+      expect(missing.message).toBe("Template not found: nope");
+      expect(broken.message).toContain("Failed to parse template 'broken'");
+    });
+
+    it("should fail without a configured loader", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(render("{% include 'header' %}", {}))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Effect, Either, Schema } from "effect";
+import { describe, expect, it } from "vitest";
+import { analyze, checkTemplate } from "../../src/index.js";
+
+const analyzeTemplate = (template: string) =>
+  Effect.runPromise(analyze(template));
+
+const checkError = async (template: string, schema: Schema.Schema.Any) => {
+  const result = await Effect.runPromise(
+    Effect.either(checkTemplate(template, schema))
+  );
+  if (Either.isRight(result)) {
+    throw new Error("Expected the schema check to fail");
+  }
+  return result.left;
+};
+
+class User extends Schema.Class<User>("User")({
+  name: Schema.String,
+  email: Schema.optional(Schema.String),
+}) {}
+
+const Context = Schema.Struct({
+  user: User,
+  items: Schema.Array(Schema.Struct({ title: Schema.String })),
+  settings: Schema.Record({ key: Schema.String, value: Schema.Number }),
+  greeting: Schema.String,
+});
+
+describe("Template analysis", () => {
+  it("should list free variables and their property paths", async () => {
+    const analysis = await analyzeTemplate(
+      "{{ greeting }}, {{ user.name | upcase }}! {{ user.email }}"
+    );
+
+    expect(analysis.variables).toEqual(["greeting", "user"]);
+    expect(analysis.references.map((ref) => ref.path)).toEqual([
+      ["greeting"],
+      ["user", "name"],
+      ["user", "email"],
+    ]);
+    expect(analysis.filters).toEqual(["upcase"]);
+  });
+
+  it("should scope loop variables to the loop body", async () => {
+    const analysis = await analyzeTemplate(
+      "{% for item in items %}{{ item.title }}{{ forloop.index }}{% endfor %}{{ item }}"
+    );
+
+    expect(analysis.loopVariables).toEqual(["item"]);
+    expect(analysis.references.map((ref) => ref.name)).toEqual([
+      "items",
+      "item.title",
+      "item",
+    ]);
+    expect(analysis.references[1]?.path).toEqual(["items", "*", "title"]);
+  });
+
+  it("should read filter arguments and loop options", async () => {
+    const analysis = await analyzeTemplate(
+      "{% for item in items limit: lim offset: page.start %}{{ item.tags | join: sep }}{% endfor %}{% assign label = title | append: suffix %}"
+    );
+
+    expect(analysis.variables).toEqual([
+      "items",
+      "lim",
+      "page",
+      "sep",
+      "title",
+      "suffix",
+    ]);
+    expect(analysis.filters).toEqual(["join", "append"]);
+  });
+
+  it("should treat counters and emptiness keywords as bound", async () => {
+    const analysis = await analyzeTemplate(
+      "{% increment counter %}{{ counter }}{% if name == empty or name != blank %}{% endif %}"
+    );
+
+    expect(analysis.variables).toEqual(["name"]);
+  });
+
+  it("should treat assigned and captured names as locals", async () => {
+    const analysis = await analyzeTemplate(
+      "{% assign total = count | plus: 1 %}{% capture label %}{{ title }}{% endcapture %}{{ total }}{{ label }}"
+    );
+
+    expect(analysis.assigned).toEqual(["total", "label"]);
+    expect(analysis.variables).toEqual(["count", "title"]);
+  });
+
+  it("should read condition operands but not literals or operators", async () => {
+    const analysis = await analyzeTemplate(
+      "{% if user.admin and tags contains 'beta' %}{{ name | append: 42 }}{% endif %}{{ 3 }}"
+    );
+
+    expect(analysis.variables).toEqual(["user", "tags", "name"]);
+  });
+
+  it("should not read literal outputs as variables", async () => {
+    const analysis = await analyzeTemplate(
+      "{{ 'hello' | upcase }}{{ \"hi\" }}{{ 42 }}{{ true }}{{ (1..n) | join: ',' }}"
+    );
+
+    expect(analysis.variables).toEqual(["n"]);
+    expect(analysis.filters).toEqual(["upcase", "join"]);
+  });
+
+  it("should list partials and the variables passed to them", async () => {
+    const analysis = await analyzeTemplate(
+      "{% render 'card' with product as card %}{% include 'row' for rows %}"
+    );
+
+    expect(analysis.partials).toEqual(["card", "row"]);
+    expect(analysis.variables).toEqual(["product", "rows"]);
+  });
+
+  it("should record node positions", async () => {
+    const analysis = await analyzeTemplate("Hi\n  {{ name }}");
+    expect(analysis.references[0]).toMatchObject({ line: 2, column: 3 });
+  });
+});
+
+describe("Schema checking", () => {
+  it("should accept templates that only read declared fields", async () => {
+    const analysis = await Effect.runPromise(
+      checkTemplate(
+        "{{ greeting }} {{ user.name }} {{ user.email }} {{ settings.theme }} {{ greeting.size }}{% for item in items %}{{ item.title }}{% endfor %}{{ items.first.title }}{{ items.size }}",
+        Context
+      )
+    );
+
+    expect(analysis.variables).toEqual([
+      "greeting",
+      "user",
+      "settings",
+      "items",
+    ]);
+  });
+
+  it("should report undeclared variables with their location", async () => {
+    const error = await checkError(
+      "{{ user.name }}\n{% if user.role %}{{ missing }}{% endif %}",
+      Context
+    );
+
+    expect(error._tag).toBe("LiquidSchemaError");
+    expect(error).toMatchObject({ line: 2, column: 1 });
+    expect(error.message).toBe(
+      "Template reads variables not declared by the schema: 'user.role' (line 2, column 1), 'missing' (line 2, column 19)"
+    );
+    if (error._tag === "LiquidSchemaError") {
+      expect(error.undeclared.map((ref) => ref.name)).toEqual([
+        "user.role",
+        "missing",
+      ]);
+    }
+  });
+
+  it("should reject unknown properties of array items", async () => {
+    const error = await checkError(
+      "{% for item in items %}{{ item.title }}{% endfor %}{{ items.first.price }}",
+      Context
+    );
+    expect(error.message).toContain("'items.first.price'");
+  });
+
+  it("should check properties read through loop variables", async () => {
+    const error = await checkError(
+      "{% for item in items %}{{ item.title }}{{ item.cost }}{% endfor %}",
+      Context
+    );
+    expect(error.message).toBe(
+      "Template reads variables not declared by the schema: 'item.cost' (line 1, column 40)"
+    );
+  });
+
+  it("should fail on templates that do not parse", async () => {
+    const error = await checkError("{{ unclosed", Context);
+    expect(error._tag).toBe("LiquidParseError");
+  });
+});
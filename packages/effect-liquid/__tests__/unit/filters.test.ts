@@ -43,6 +43,15 @@ describe("Filters", () => {
       );
       expect(result2).toBe("test");
     });
+
+    it("should pass comma-separated filter arguments", async () => {
+      const result = await Effect.runPromise(
+        render("{{ text | replace: 'world', 'there' }}", {
+          text: "hello world",
+        })
+      );
+      expect(result).toBe("hello there");
+    });
   });
 
   describe("Array filters", () => {
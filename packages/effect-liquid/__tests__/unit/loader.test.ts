@@ -0,0 +1,179 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Either } from "effect";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  makeFileSystemLoader,
+  makeMemoryLoader,
+  makeTemplateCache,
+  type TemplateLoaderSchema,
+} from "../../src/loader.js";
+
+describe("Template loaders", () => {
+  describe("makeMemoryLoader", () => {
+    const loader = makeMemoryLoader({ greeting: "Hello {{ name }}" });
+
+    it("should load templates by name", async () => {
+      const source = await Effect.runPromise(loader.load("greeting"));
+      expect(source).toBe("Hello {{ name }}");
+    });
+
+    it("should fail with LiquidLoaderError for unknown names", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(loader.load("toString"))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("LiquidLoaderError");
+        expect(result.left.template).toBe("toString");
+      }
+    });
+  });
+
+  describe("makeFileSystemLoader", () => {
+    let root = "";
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), "effect-liquid-"));
+      await writeFile(join(root, "header.liquid"), "<h1>{{ title }}</h1>");
+      await writeFile(join(root, "footer.html"), "<footer/>");
+    });
+
+    afterAll(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it("should append the default extension", async () => {
+      const loader = makeFileSystemLoader({ root });
+      const source = await Effect.runPromise(loader.load("header"));
+      expect(source).toBe("<h1>{{ title }}</h1>");
+    });
+
+    it("should keep explicit extensions", async () => {
+      const loader = makeFileSystemLoader({ root, extension: ".txt" });
+      const source = await Effect.runPromise(loader.load("footer.html"));
+      expect(source).toBe("<footer/>");
+    });
+
+    it("should report missing files as not found", async () => {
+      const loader = makeFileSystemLoader({ root });
+      const result = await Effect.runPromise(
+        Effect.either(loader.load("missing"))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.message).toBe("Template not found: missing");
+      }
+    });
+
+    it("should reject names outside the root", async () => {
+      const loader = makeFileSystemLoader({ root });
+      const result = await Effect.runPromise(
+        Effect.either(loader.load("../secret"))
+      );
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.message).toContain("escapes the loader root");
+      }
+    });
+  });
+
+  describe("makeTemplateCache", () => {
+    const countingLoader = (templates: Record<string, string>) => {
+      const loads: string[] = [];
+      const memory = makeMemoryLoader(templates);
+      const loader: TemplateLoaderSchema = {
+        load: (name) =>
+          Effect.sync(() => loads.push(name)).pipe(
+            Effect.zipRight(memory.load(name))
+          ),
+      };
+      return { loader, loads };
+    };
+
+    it("should parse each template once", async () => {
+      const { loader, loads } = countingLoader({ card: "{{ title }}" });
+      const [first, second] = await Effect.runPromise(
+        Effect.flatMap(makeTemplateCache(loader), (cache) =>
+          Effect.all([cache.get("card"), cache.get("card")])
+        )
+      );
+      expect(loads).toEqual(["card"]);
+      expect(second).toBe(first);
+      expect(first[0]).toMatchObject({ type: "variable", name: "title" });
+    });
+
+    it("should reload invalidated templates", async () => {
+      const { loader, loads } = countingLoader({ a: "a", b: "b" });
+      await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* makeTemplateCache(loader);
+          yield* cache.get("a");
+          yield* cache.get("b");
+          yield* cache.invalidate("a");
+          yield* cache.get("a");
+          yield* cache.get("b");
+          yield* cache.invalidate();
+          yield* cache.get("b");
+        })
+      );
+      expect(loads).toEqual(["a", "b", "a", "b"]);
+    });
+
+    it("should not cache failures", async () => {
+      const { loader, loads } = countingLoader({});
+      await Effect.runPromise(
+        Effect.flatMap(makeTemplateCache(loader), (cache) =>
+          Effect.all([
+            Effect.either(cache.get("missing")),
+            Effect.either(cache.get("missing")),
+          ])
+        )
+      );
+      expect(loads).toEqual(["missing", "missing"]);
+    });
+
+    it("should reload templates whose version changed", async () => {
+      const templates: Record<string, string> = { card: "{{ title }}" };
+      const { loader, loads } = countingLoader(templates);
+      const versioned: TemplateLoaderSchema = {
+        ...loader,
+        version: (name) => Effect.sync(() => templates[name] ?? ""),
+      };
+      const [first, second, third] = await Effect.runPromise(
+        Effect.gen(function* () {
+          const cache = yield* makeTemplateCache(versioned);
+          const before = yield* cache.get("card");
+          const unchanged = yield* cache.get("card");
+          templates.card = "{{ name }}";
+          return [before, unchanged, yield* cache.get("card")];
+        })
+      );
+      expect(loads).toEqual(["card", "card"]);
+      expect(second).toBe(first);
+      expect(third[0]).toMatchObject({ type: "variable", name: "name" });
+    });
+
+    it("should pick up edited files", async () => {
+      const root = await mkdtemp(join(tmpdir(), "effect-liquid-"));
+      const file = join(root, "card.liquid");
+      try {
+        await writeFile(file, "old");
+        const nodes = await Effect.runPromise(
+          Effect.gen(function* () {
+            const cache = yield* makeTemplateCache(
+              makeFileSystemLoader({ root })
+            );
+            yield* cache.get("card");
+            yield* Effect.promise(() => writeFile(file, "edited"));
+            return yield* cache.get("card");
+          })
+        );
+        expect(nodes[0]).toMatchObject({ type: "text", value: "edited" });
+      } finally {
+        await rm(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
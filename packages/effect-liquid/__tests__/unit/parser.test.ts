@@ -1,4 +1,4 @@
-import { Effect } from "effect";
+import { Effect, Either } from "effect";
 import { describe, expect, it } from "vitest";
 import { parse } from "../../src/index.js";
 import { LiquidParseError } from "../../src/errors.js";
@@ -55,6 +55,74 @@ describe("Parser", () => {
     });
   });
 
+  it("should parse literal outputs and ranges", async () => {
+    const result = await Effect.runPromise(
+      parse("{{ 'a' | upcase }}{% for i in (1..n) %}{% endfor %}")
+    );
+    expect(result[0]).toMatchObject({
+      type: "variable",
+      name: "",
+      expression: { type: "literal", value: "a" },
+      filters: [{ name: "upcase", args: [] }],
+    });
+    expect(result[1]).toMatchObject({
+      type: "tag",
+      name: "for",
+      args: [
+        "i",
+        "in",
+        {
+          type: "range",
+          start: { type: "literal", value: 1 },
+          end: { type: "path", path: "n" },
+        },
+      ],
+    });
+  });
+
+  it("should parse conditions", async () => {
+    const result = await Effect.runPromise(
+      parse("{% if a > 1 or b and c contains 'x' %}{% endif %}")
+    );
+    expect(result[0]).toMatchObject({
+      args: [
+        {
+          type: "or",
+          left: {
+            type: "comparison",
+            operator: ">",
+            left: { type: "path", path: "a" },
+            right: { type: "literal", value: 1 },
+          },
+          right: {
+            type: "and",
+            left: { type: "path", path: "b" },
+            right: {
+              type: "comparison",
+              operator: "contains",
+              left: { type: "path", path: "c" },
+              right: { type: "literal", value: "x" },
+            },
+          },
+        },
+      ],
+      paths: ["a", "b", "c"],
+    });
+  });
+
+  it("should fail on characters that start no token", async () => {
+    for (const template of [
+      "{{ a ^ b }}",
+      "{% if a ; b %}{% endif %}",
+      "{% for i in (1..5 %}{% endfor %}",
+    ]) {
+      const result = await Effect.runPromise(Effect.either(parse(template)));
+      expect(Either.isLeft(result) && result.left).toBeInstanceOf(
+        LiquidParseError
+      );
+    }
+  });
+
   it("should parse a simple tag", async () => {
     const result = await Effect.runPromise(parse("{% assign x = 1 %}"));
     expect(result).toHaveLength(1);
@@ -64,6 +132,70 @@ describe("Parser", () => {
     });
   });
 
+  it("should parse include arguments", async () => {
+    const result = await Effect.runPromise(
+      parse("{% include 'card' with product as item, size: 2, tone: dark %}")
+    );
+    expect(result).toEqual([
+      {
+        type: "include",
+        template: "card",
+        with: {
+          size: { type: "literal", value: 2 },
+          tone: { type: "path", path: "dark" },
+        },
+        subject: { type: "path", path: "product" },
+        alias: "item",
+        position: 0,
+        line: 1,
+        column: 1,
+      },
+    ]);
+  });
+
+  it("should parse render with a for clause", async () => {
+    const result = await Effect.runPromise(
+      parse("{% render 'row' for rows %}after")
+    );
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      type: "render",
+      template: "row",
+      for: "rows",
+    });
+    expect(result[1]).toMatchObject({ type: "text", value: "after" });
+  });
+
+  it("should parse a layout with nested blocks", async () => {
+    const result = await Effect.runPromise(
+      parse(
+        "{% layout 'base' %}{% block main %}a{% block inner %}b{% endblock %}{% endblock %}"
+      )
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      type: "layout",
+      template: "base",
+      body: [
+        {
+          type: "block",
+          name: "main",
+          body: [
+            { type: "text", value: "a" },
+            { type: "block", name: "inner" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should reject unquoted template names and unclosed blocks", async () => {
+    const unquoted = await Effect.runPromiseExit(parse("{% include card %}"));
+    const unclosed = await Effect.runPromiseExit(parse("{% block main %}a"));
+    expect(unquoted._tag).toBe("Failure");
+    expect(unclosed._tag).toBe("Failure");
+  });
+
   it("should fail on invalid syntax", async () => {
     const result = await Effect.runPromiseExit(parse("{{ invalid"));
     expect(result._tag).toBe("Failure");
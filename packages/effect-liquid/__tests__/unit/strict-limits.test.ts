@@ -0,0 +1,187 @@
+import { Effect, Either, Layer, TestClock, TestContext } from "effect";
+import { describe, expect, it } from "vitest";
+import {
+  type LiquidContext,
+  type LiquidOptions,
+  LiquidService,
+  memoryLoaderLayer,
+  render,
+} from "../../src/index.js";
+
+const renderError = async (
+  template: string,
+  context: LiquidContext,
+  options: LiquidOptions
+) => {
+  const result = await Effect.runPromise(
+    Effect.either(render(template, context, options))
+  );
+  if (Either.isRight(result)) {
+    throw new Error("Expected the render to fail");
+  }
+  return result.left;
+};
+
+describe("Strict mode", () => {
+  it("should render undefined variables and unknown filters leniently by default", async () => {
+    const result = await Effect.runPromise(
+      render("{{ missing }}|{{ name | shout }}", { name: "a" })
+    );
+    expect(result).toBe("|a");
+  });
+
+  it("should fail on undefined variables with strictVariables", async () => {
+    const error = await renderError(
+      "Hi\n{{ user.email }}",
+      { user: { name: "Ada" } },
+      { strictVariables: true }
+    );
+
+    expect(error._tag).toBe("LiquidRenderError");
+    expect(error.message).toBe("Undefined variable: user.email");
+    expect(error).toMatchObject({ position: 3 });
+  });
+
+  it("should accept defined variables that are null with strictVariables", async () => {
+    const result = await Effect.runPromise(
+      render("[{{ note }}]", { note: null }, { strictVariables: true })
+    );
+    expect(result).toBe("[]");
+  });
+
+  it("should output literals without looking them up with strictVariables", async () => {
+    const result = await Effect.runPromise(
+      render(
+        `{{ 'a' }}|{{ "a" | upcase }}|{{ 5 }}|{{ (1..3) | join: "," }}`,
+        {},
+        { strictVariables: true }
+      )
+    );
+    expect(result).toBe("a|A|5|1,2,3");
+  });
+
+  it("should fail on undefined loop collections with strictVariables", async () => {
+    const error = await renderError(
+      "{% for item in items %}{{ item }}{% endfor %}",
+      {},
+      { strictVariables: true }
+    );
+    expect(error.message).toContain("Undefined variable: items");
+  });
+
+  it("should fail on unknown filters with strictFilters", async () => {
+    const error = await renderError(
+      "{{ name | shout }}",
+      { name: "a" },
+      { strictFilters: true }
+    );
+    expect(error.message).toContain("shout");
+  });
+
+  it("should enable both checks with strict", async () => {
+    await expect(
+      renderError("{{ missing }}", {}, { strict: true })
+    ).resolves.toMatchObject({ message: "Undefined variable: missing" });
+    await expect(
+      renderError("{{ name | shout }}", { name: "a" }, { strict: true })
+    ).resolves.toMatchObject({ _tag: "LiquidRenderError" });
+  });
+
+  it("should apply to renders through the service", async () => {
+    const result = await Effect.runPromise(
+      Effect.flatMap(LiquidService, (service) =>
+        Effect.either(service.render("{{ missing }}", {}, { strict: true }))
+      ).pipe(Effect.provide(LiquidService.Default))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("Render limits", () => {
+  it("should stop once the output exceeds maxOutputSize", async () => {
+    const error = await renderError(
+      "{% for item in items %}{{ item }}{% endfor %}",
+      { items: ["aaaa", "bbbb", "cccc"] },
+      { limits: { maxOutputSize: 10 } }
+    );
+    expect(error.message).toBe(
+      "Render output exceeded the limit of 10 characters"
+    );
+  });
+
+  it("should count iterations of nested loops towards maxLoopIterations", async () => {
+    const template =
+      "{% for row in items %}{% for cell in items %}{{ cell }}{% endfor %}{% endfor %}";
+    const context = { items: [1, 2, 3] };
+
+    const error = await renderError(template, context, {
+      limits: { maxLoopIterations: 5 },
+    });
+    expect(error.message).toBe(
+      "Render exceeded the limit of 5 loop iterations"
+    );
+
+    const result = await Effect.runPromise(
+      render(template, context, { limits: { maxLoopIterations: 12 } })
+    );
+    expect(result).toBe("123123123");
+  });
+
+  it("should count iterations of partials rendered for each item", async () => {
+    const result = await Effect.runPromise(
+      Effect.flatMap(LiquidService, (service) =>
+        Effect.either(
+          service.render(
+            "{% render 'row' for rows %}",
+            { rows: [1, 2, 3] },
+            { limits: { maxLoopIterations: 2 } }
+          )
+        )
+      ).pipe(
+        Effect.provide(
+          LiquidService.DefaultWithoutDependencies.pipe(
+            Layer.provide(memoryLoaderLayer({ row: "{{ row }}" }))
+          )
+        )
+      )
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.message).toBe(
+        "Render exceeded the limit of 2 loop iterations"
+      );
+    }
+  });
+
+  it("should stop once the render runs longer than maxRenderTime", async () => {
+    const slow = (input: unknown) =>
+      Effect.as(TestClock.adjust("60 millis"), input);
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* LiquidService;
+        return yield* Effect.either(
+          service.render(
+            "{% for item in items %}{{ item | slow }}{% endfor %}",
+            { items: [1, 2, 3] },
+            {
+              customFilters: { slow },
+              limits: { maxRenderTime: "100 millis" },
+            }
+          )
+        );
+      }).pipe(
+        Effect.provide(LiquidService.Default),
+        Effect.provide(TestContext.TestContext)
+      )
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.message).toBe(
+        "Render exceeded the time limit of 100ms"
+      );
+    }
+  });
+});
@@ -0,0 +1,421 @@
+import { Effect, Schema, type SchemaAST } from "effect";
+import type {
+  ArgumentExpression,
+  AstNode,
+  CycleNode,
+  FilterNode,
+  IncludeNode,
+  LayoutNode,
+  RenderNode,
+  TagNode,
+  VariableNode,
+} from "./ast.js";
+import { LiquidSchemaError } from "./errors.js";
+import type { TemplateAnalysis, VariableReference } from "./types.js";
+
+const NUMERIC = /^\d+$/;
+
+/**
+ * Path segment standing for any element of a collection, used for reads
+ * through loop variables: `item.title` in a loop over `items` reads
+ * `items.*.title`.
+ */
+const ELEMENT = "*";
+
+/**
+ * Properties Liquid resolves on arrays and strings.
+ */
+const ARRAY_PROPERTIES = new Set(["size", "first", "last"]);
+
+/**
+ * Keywords compared against rather than read from the context.
+ */
+const KEYWORDS = new Set(["empty", "blank"]);
+
+/**
+ * Names bound inside a loop body, mapped to the context path of the
+ * elements they hold; forloop and loops over ranges or locals have none.
+ */
+type Locals = ReadonlyMap<string, readonly string[] | undefined>;
+
+/**
+ * Mutable state collected while walking a template.
+ */
+interface AnalysisState {
+  readonly references: VariableReference[];
+  readonly filters: Set<string>;
+  readonly loopVariables: Set<string>;
+  readonly assigned: Set<string>;
+  readonly counters: Set<string>;
+  readonly partials: Set<string>;
+}
+
+/**
+ * Context path read by a variable path, or undefined when it reads a
+ * local name. Paths through loop variables continue from the elements of
+ * the loop's collection.
+ */
+function contextPath(
+  state: AnalysisState,
+  name: string,
+  locals: Locals
+): readonly string[] | undefined {
+  const [root = "", ...rest] = name.split(".");
+  if (locals.has(root)) {
+    const element = locals.get(root);
+    return element === undefined ? undefined : [...element, ...rest];
+  }
+  if (
+    root === "" ||
+    KEYWORDS.has(root) ||
+    state.assigned.has(root) ||
+    state.counters.has(root)
+  ) {
+    return undefined;
+  }
+  return [root, ...rest];
+}
+
+function reference(
+  state: AnalysisState,
+  name: string,
+  node: AstNode,
+  locals: Locals
+): void {
+  const path = contextPath(state, name, locals);
+  // Loop variables themselves are checked through their collection
+  if (path === undefined || (locals.has(name) && !name.includes("."))) {
+    return;
+  }
+
+  state.references.push({
+    name,
+    path,
+    ...(node.position !== undefined && { position: node.position }),
+    ...(node.line !== undefined && { line: node.line }),
+    ...(node.column !== undefined && { column: node.column }),
+  });
+}
+
+function referenceArgument(
+  state: AnalysisState,
+  argument: unknown,
+  node: AstNode,
+  locals: Locals
+): void {
+  const expression = argument as ArgumentExpression | undefined;
+  if (expression?.type === "path") {
+    reference(state, expression.path, node, locals);
+  } else if (expression?.type === "range") {
+    referenceArgument(state, expression.start, node, locals);
+    referenceArgument(state, expression.end, node, locals);
+  }
+}
+
+/**
+ * Records the filters applied by an output or assign tag and the variables
+ * passed to them as arguments.
+ */
+function analyzeFilters(
+  state: AnalysisState,
+  filters: readonly FilterNode[] | undefined,
+  node: AstNode,
+  locals: Locals
+): void {
+  for (const filter of filters ?? []) {
+    state.filters.add(filter.name);
+    for (const argument of filter.args) {
+      referenceArgument(state, argument, node, locals);
+    }
+  }
+}
+
+function analyzeVariable(
+  state: AnalysisState,
+  node: VariableNode,
+  locals: Locals
+): void {
+  if (node.expression === undefined) {
+    reference(state, node.name, node, locals);
+  } else {
+    referenceArgument(state, node.expression, node, locals);
+  }
+  analyzeFilters(state, node.filters, node, locals);
+}
+
+/**
+ * {% for item in collection limit: n offset: n %}: the collection and the
+ * options are read in the enclosing scope, the loop variable and forloop
+ * are bound inside the body. tablerow binds tablerowloop instead.
+ */
+function analyzeFor(state: AnalysisState, node: TagNode, locals: Locals): void {
+  const variable = String(node.args[0] ?? "");
+  const collection = node.args[2];
+  const options = node.args.slice(3);
+  const isPath = (argument: unknown): argument is string =>
+    typeof argument === "string" && node.paths?.includes(argument) === true;
+  const read = (argument: unknown) => {
+    if (isPath(argument)) {
+      reference(state, argument, node, locals);
+    } else {
+      referenceArgument(state, argument, node, locals);
+    }
+  };
+
+  read(collection);
+  for (const [index, option] of options.entries()) {
+    if (option === "limit" || option === "offset" || option === "cols") {
+      read(options[index + 1]);
+    }
+  }
+
+  const collectionPath = isPath(collection)
+    ? contextPath(state, collection, locals)
+    : undefined;
+  const loop = node.name === "tablerow" ? "tablerowloop" : "forloop";
+  state.loopVariables.add(variable);
+  analyzeNodes(
+    state,
+    node.body,
+    new Map([
+      ...locals,
+      [variable, collectionPath && [...collectionPath, ELEMENT]],
+      [loop, undefined],
+    ])
+  );
+}
+
+function analyzeTag(state: AnalysisState, node: TagNode, locals: Locals): void {
+  const target = String(node.args[0] ?? "");
+
+  switch (node.name) {
+    case "for":
+    case "tablerow":
+      analyzeFor(state, node, locals);
+      return;
+    case "increment":
+    case "decrement":
+      // Counters are not read from the render context, but bind their name
+      state.counters.add(target);
+      return;
+    case "assign":
+      for (const path of node.paths?.slice(1) ?? []) {
+        reference(state, path, node, locals);
+      }
+      analyzeFilters(state, node.filters, node, locals);
+      state.assigned.add(target);
+      return;
+    case "capture":
+      analyzeNodes(state, node.body, locals);
+      state.assigned.add(target);
+      return;
+    default:
+      for (const path of node.paths ?? []) {
+        reference(state, path, node, locals);
+      }
+      analyzeNodes(state, node.body, locals);
+  }
+}
+
+function analyzePartial(
+  state: AnalysisState,
+  node: IncludeNode | RenderNode | LayoutNode,
+  locals: Locals
+): void {
+  state.partials.add(node.template);
+  for (const value of Object.values(node.with ?? {})) {
+    referenceArgument(state, value, node, locals);
+  }
+  if (node.type === "layout") {
+    analyzeNodes(state, node.body, locals);
+    return;
+  }
+  referenceArgument(state, node.subject, node, locals);
+  if (node.for !== undefined) {
+    reference(state, node.for, node, locals);
+  }
+}
+
+function analyzeNodes(
+  state: AnalysisState,
+  nodes: readonly AstNode[],
+  locals: Locals
+): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "variable":
+        analyzeVariable(state, node as VariableNode, locals);
+        break;
+      case "tag":
+        analyzeTag(state, node as TagNode, locals);
+        break;
+      case "cycle":
+        for (const value of [
+          ...(node as CycleNode).values,
+          (node as CycleNode).group,
+        ]) {
+          referenceArgument(state, value, node, locals);
+        }
+        break;
+      case "include":
+      case "render":
+      case "layout":
+        analyzePartial(
+          state,
+          node as IncludeNode | RenderNode | LayoutNode,
+          locals
+        );
+        break;
+      default:
+        if ("body" in node && Array.isArray(node.body)) {
+          analyzeNodes(state, node.body, locals);
+        }
+    }
+  }
+}
+
+/**
+ * Collects the variables, filters, local names and partials of a parsed
+ * template. Partials are listed but not loaded, so variables they read on
+ * their own are not included.
+ */
+export function analyzeTemplate(nodes: readonly AstNode[]): TemplateAnalysis {
+  const state: AnalysisState = {
+    references: [],
+    filters: new Set(),
+    loopVariables: new Set(),
+    assigned: new Set(),
+    counters: new Set(),
+    partials: new Set(),
+  };
+  analyzeNodes(state, nodes, new Map());
+
+  return {
+    variables: [
+      ...new Set(state.references.map((ref) => ref.path[0] ?? ref.name)),
+    ],
+    references: state.references,
+    filters: [...state.filters],
+    loopVariables: [...state.loopVariables],
+    assigned: [...state.assigned],
+    partials: [...state.partials],
+  };
+}
+
+function declaresElement(
+  ast: SchemaAST.TupleType,
+  head: string,
+  rest: readonly string[]
+): boolean {
+  if (head === "size") {
+    return rest.length === 0;
+  }
+  if (head === ELEMENT) {
+    return [...ast.elements, ...ast.rest].some((element) =>
+      declares(element.type, rest)
+    );
+  }
+
+  const index = NUMERIC.test(head) ? Number(head) : undefined;
+  if (index === undefined && !ARRAY_PROPERTIES.has(head)) {
+    return false;
+  }
+
+  const element =
+    (index === undefined ? undefined : ast.elements[index]?.type) ??
+    ast.rest[0]?.type ??
+    ast.elements[0]?.type;
+  return element !== undefined && declares(element, rest);
+}
+
+function declaresProperty(
+  ast: SchemaAST.TypeLiteral,
+  head: string,
+  rest: readonly string[]
+): boolean {
+  const property = ast.propertySignatures.find(
+    (signature) => signature.name === head
+  );
+  if (property !== undefined) {
+    return declares(property.type, rest);
+  }
+  return ast.indexSignatures.some((signature) =>
+    declares(signature.type, rest)
+  );
+}
+
+/**
+ * Whether a value of the given schema type has the property path.
+ * Types the analysis cannot see into, such as declarations without a
+ * struct behind them, accept any path.
+ */
+function declares(ast: SchemaAST.AST, path: readonly string[]): boolean {
+  const [head, ...rest] = path;
+  if (head === undefined) {
+    return true;
+  }
+
+  switch (ast._tag) {
+    case "TypeLiteral":
+      return declaresProperty(ast, head, rest);
+    case "TupleType":
+      return declaresElement(ast, head, rest);
+    case "Union":
+      return ast.types.some((member) => declares(member, path));
+    case "Suspend":
+      return declares(ast.f(), path);
+    case "Refinement":
+      return declares(ast.from, path);
+    case "Transformation":
+      return declares(ast.to, path);
+    case "Declaration": {
+      const [struct] = ast.typeParameters;
+      return struct?._tag === "TypeLiteral" ? declares(struct, path) : true;
+    }
+    case "StringKeyword":
+      return head === "size" && rest.length === 0;
+    case "AnyKeyword":
+    case "UnknownKeyword":
+    case "ObjectKeyword":
+      return true;
+    default:
+      return false;
+  }
+}
+
+function formatReference(ref: VariableReference): string {
+  return ref.line === undefined
+    ? `'${ref.name}'`
+    : `'${ref.name}' (line ${ref.line}, column ${ref.column})`;
+}
+
+/**
+ * Checks the references of an analysis against a schema for the render
+ * context, failing with every reference the schema does not declare.
+ */
+export function checkAnalysis(
+  analysis: TemplateAnalysis,
+  schema: Schema.Schema.Any
+): Effect.Effect<TemplateAnalysis, LiquidSchemaError> {
+  const ast = Schema.typeSchema(schema).ast;
+  const undeclared = analysis.references.filter(
+    (ref) => !declares(ast, ref.path)
+  );
+  const [first] = undeclared;
+
+  if (first === undefined) {
+    return Effect.succeed(analysis);
+  }
+
+  return Effect.fail(
+    new LiquidSchemaError({
+      message: `Template reads variables not declared by the schema: ${undeclared
+        .map(formatReference)
+        .join(", ")}`,
+      undeclared,
+      ...(first.position !== undefined && { position: first.position }),
+      ...(first.line !== undefined && { line: first.line }),
+      ...(first.column !== undefined && { column: first.column }),
+    })
+  );
+}
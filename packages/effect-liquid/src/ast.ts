@@ -22,7 +22,10 @@ export interface TextNode extends AstNode {
  */
 export interface VariableNode extends AstNode {
   readonly type: "variable";
+  /** Variable path; empty when a literal or range is output instead */
   readonly name: string;
+  /** Literal or range written in place of a variable: {{ 'text' }} */
+  readonly expression?: ArgumentExpression;
   readonly filters?: readonly FilterNode[];
 }
 
@@ -41,6 +44,10 @@ export interface TagNode extends AstNode {
   readonly type: "tag";
   readonly name: string;
   readonly args: readonly unknown[];
+  /** Arguments written as variable paths rather than literals */
+  readonly paths?: readonly string[];
+  /** Filters applied to the value of an assign tag */
+  readonly filters?: readonly FilterNode[];
   readonly body: readonly AstNode[];
   readonly trimLeft?: boolean;
   readonly trimRight?: boolean;
@@ -123,23 +130,105 @@ export interface CommentNode extends AstNode {
   readonly content: string;
 }
 
+/**
+ * Value written in a tag or output, kept apart from plain values so that
+ * quoted strings and variable paths stay distinguishable. Ranges are
+ * written `(start..end)` and include both bounds.
+ */
+export type ArgumentExpression =
+  | { readonly type: "literal"; readonly value: unknown }
+  | { readonly type: "path"; readonly path: string }
+  | {
+      readonly type: "range";
+      readonly start: ArgumentExpression;
+      readonly end: ArgumentExpression;
+    };
+
+/**
+ * Operators comparing two values in a condition.
+ */
+export type ComparisonOperator =
+  | "=="
+  | "!="
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  | "contains";
+
+/**
+ * Condition of an if, elsif or unless tag. As in Shopify Liquid, `and` and
+ * `or` have equal precedence and group from the right: `a or b and c`
+ * reads as `a or (b and c)`.
+ */
+export type ConditionExpression =
+  | ArgumentExpression
+  | {
+      readonly type: "comparison";
+      readonly operator: ComparisonOperator;
+      readonly left: ArgumentExpression;
+      readonly right: ArgumentExpression;
+    }
+  | {
+      readonly type: "and" | "or";
+      readonly left: ConditionExpression;
+      readonly right: ConditionExpression;
+    };
+
 /**
  * Include tag node: {% include 'template' %}
+ * Renders the template in the including template's scope.
  */
 export interface IncludeNode extends AstNode {
   readonly type: "include";
   readonly template: string;
   readonly with?: Record<string, unknown>;
   readonly for?: string;
+  readonly subject?: ArgumentExpression;
+  readonly alias?: string;
 }
 
 /**
  * Render tag node: {% render 'template' %}
+ * Renders the template in an isolated scope holding only its arguments.
  */
 export interface RenderNode extends AstNode {
   readonly type: "render";
   readonly template: string;
   readonly with?: Record<string, unknown>;
+  readonly for?: string;
+  readonly subject?: ArgumentExpression;
+  readonly alias?: string;
+}
+
+/**
+ * Layout tag node: {% layout 'template' %}
+ * The rest of the template supplies block overrides for the layout.
+ */
+export interface LayoutNode extends AstNode {
+  readonly type: "layout";
+  readonly template: string;
+  readonly with?: Record<string, unknown>;
+  readonly body: readonly AstNode[];
+}
+
+/**
+ * Block tag node: {% block name %}...{% endblock %}
+ */
+export interface BlockNode extends AstNode {
+  readonly type: "block";
+  readonly name: string;
+  readonly body: readonly AstNode[];
+}
+
+/**
+ * Cycle tag node: {% cycle 'odd', 'even' %} or {% cycle group: 'a', 'b' %}
+ * Each render of the tag outputs the next value of its group.
+ */
+export interface CycleNode extends AstNode {
+  readonly type: "cycle";
+  readonly group?: ArgumentExpression;
+  readonly values: readonly ArgumentExpression[];
 }
 
 /**
@@ -157,4 +246,7 @@ export type LiquidAstNode =
   | CaptureNode
   | CommentNode
   | IncludeNode
-  | RenderNode;
+  | RenderNode
+  | LayoutNode
+  | BlockNode
+  | CycleNode;
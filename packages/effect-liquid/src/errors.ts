@@ -1,4 +1,5 @@
 import { Data } from "effect";
+import type { VariableReference } from "./types.js";
 
 /**
  * Represents an error that occurs when parsing a Liquid template.
@@ -46,3 +47,24 @@ export class LiquidContextError extends Data.TaggedError("LiquidContextError")<{
   readonly path: string;
   readonly cause?: unknown;
 }> {}
+
+/**
+ * Represents an error that occurs when a template loader cannot provide a template.
+ */
+export class LiquidLoaderError extends Data.TaggedError("LiquidLoaderError")<{
+  readonly message: string;
+  readonly template: string;
+  readonly cause?: unknown;
+}> {}
+
+/**
+ * Represents template variable references that a context schema does not declare.
+ * The location fields point at the first undeclared reference.
+ */
+export class LiquidSchemaError extends Data.TaggedError("LiquidSchemaError")<{
+  readonly message: string;
+  readonly undeclared: readonly VariableReference[];
+  readonly position?: number;
+  readonly line?: number;
+  readonly column?: number;
+}> {}
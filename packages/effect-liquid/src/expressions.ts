@@ -0,0 +1,166 @@
+import { Effect } from "effect";
+import type { ArgumentExpression, ConditionExpression } from "./ast.js";
+import { LiquidRenderError } from "./errors.js";
+import type { LiquidContext } from "./types.js";
+import { compareValues, resolveVariable, toNumber } from "./utils/context.js";
+import { isTruthy } from "./utils/helpers.js";
+
+/**
+ * Ranges are built as arrays; larger ones fail rather than exhaust memory.
+ */
+const MAX_RANGE_SIZE = 1_000_000;
+
+const EXPRESSION_TYPES = new Set([
+  "literal",
+  "path",
+  "range",
+  "comparison",
+  "and",
+  "or",
+]);
+
+const isEmptyCollection = (value: unknown): boolean =>
+  typeof value === "string" || Array.isArray(value)
+    ? value.length === 0
+    : typeof value === "object" &&
+      value !== null &&
+      Object.keys(value).length === 0;
+
+/**
+ * Tests for the `empty` and `blank` keywords, which compare by content:
+ * `x == empty` holds for empty strings, arrays and objects, and
+ * `x == blank` also for nil, false and whitespace-only strings.
+ */
+const EMPTINESS_KEYWORDS: ReadonlyMap<string, (value: unknown) => boolean> =
+  new Map([
+    ["empty", isEmptyCollection],
+    [
+      "blank",
+      (value) =>
+        value === null ||
+        value === undefined ||
+        value === false ||
+        (typeof value === "string"
+          ? value.trim().length === 0
+          : isEmptyCollection(value)),
+    ],
+  ]);
+
+const emptinessTest = (expression: ArgumentExpression) =>
+  expression.type === "path"
+    ? EMPTINESS_KEYWORDS.get(expression.path)
+    : undefined;
+
+/**
+ * Whether a value is a parsed expression rather than a plain value.
+ */
+export function isExpression(value: unknown): value is ConditionExpression {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    EXPRESSION_TYPES.has(String(value.type))
+  );
+}
+
+/**
+ * Resolves a variable path, reporting failures as render errors.
+ */
+export function lookup(
+  context: LiquidContext,
+  path: string
+): Effect.Effect<unknown, LiquidRenderError> {
+  return resolveVariable(context, path).pipe(
+    Effect.mapError(
+      (error) => new LiquidRenderError({ message: error.message, cause: error })
+    )
+  );
+}
+
+function bound(
+  expression: ArgumentExpression,
+  context: LiquidContext
+): Effect.Effect<number, LiquidRenderError> {
+  return Effect.flatMap(evaluate(expression, context), (value) => {
+    const number = toNumber(value);
+    return number === null
+      ? Effect.fail(
+          new LiquidRenderError({
+            message: `Range bounds must be numbers, got ${JSON.stringify(value) ?? "nothing"}`,
+          })
+        )
+      : Effect.succeed(Math.trunc(number));
+  });
+}
+
+function range(
+  start: ArgumentExpression,
+  end: ArgumentExpression,
+  context: LiquidContext
+): Effect.Effect<number[], LiquidRenderError> {
+  return Effect.gen(function* () {
+    const first = yield* bound(start, context);
+    const last = yield* bound(end, context);
+    const size = Math.max(0, last - first + 1);
+    if (size > MAX_RANGE_SIZE) {
+      return yield* Effect.fail(
+        new LiquidRenderError({
+          message: `Range (${first}..${last}) exceeds ${MAX_RANGE_SIZE} items`,
+        })
+      );
+    }
+    return Array.from({ length: size }, (_, index) => first + index);
+  });
+}
+
+/**
+ * Evaluates a parsed expression: ranges yield arrays of integers,
+ * comparisons and `and`/`or` yield booleans. Plain values are passed
+ * through unchanged.
+ */
+export function evaluate(
+  value: unknown,
+  context: LiquidContext
+): Effect.Effect<unknown, LiquidRenderError> {
+  if (!isExpression(value)) {
+    return Effect.succeed(value);
+  }
+
+  switch (value.type) {
+    case "literal":
+      return Effect.succeed(value.value);
+    case "path":
+      return lookup(context, value.path);
+    case "range":
+      return range(value.start, value.end, context);
+    case "comparison":
+      return Effect.gen(function* () {
+        const test = emptinessTest(value.right) ?? emptinessTest(value.left);
+        if (
+          test !== undefined &&
+          (value.operator === "==" || value.operator === "!=")
+        ) {
+          const operand = emptinessTest(value.right) ? value.left : value.right;
+          const matches = test(yield* evaluate(operand, context));
+          return value.operator === "==" ? matches : !matches;
+        }
+        const left = yield* evaluate(value.left, context);
+        const right = yield* evaluate(value.right, context);
+        return compareValues(left, value.operator, right);
+      });
+    case "and":
+      return Effect.flatMap(evaluate(value.left, context), (left) =>
+        isTruthy(left)
+          ? Effect.map(evaluate(value.right, context), isTruthy)
+          : Effect.succeed(false)
+      );
+    case "or":
+      return Effect.flatMap(evaluate(value.left, context), (left) =>
+        isTruthy(left)
+          ? Effect.succeed(true)
+          : Effect.map(evaluate(value.right, context), isTruthy)
+      );
+    default:
+      return Effect.succeed(value);
+  }
+}
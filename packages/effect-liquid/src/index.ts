@@ -4,13 +4,15 @@
  * @packageDocumentation
  */
 
-import { Effect } from "effect";
-import type { LiquidContext } from "./types.js";
+import { Effect, type Schema, Stream } from "effect";
+import type { LiquidContext, LiquidOptions } from "./types.js";
 import { LiquidParseError, LiquidRenderError } from "./errors.js";
 import { LiquidService, LiquidServiceLayer } from "./service.js";
 
 // Services (Dependency Injection)
 export * from "./service.js";
+export * from "./loader.js";
+export * from "./analyzer.js";
 
 // Types and Schemas
 export * from "./types.js";
@@ -40,13 +42,18 @@ export const parse = (template: string) =>
  *
  * @param template The Liquid template string to render
  * @param context The variable context for rendering
+ * @param options Strictness, resource limits and per-render filters and tags
  * @returns An Effect that resolves to the rendered string or fails with a LiquidParseError or LiquidRenderError
  */
-export const render = (template: string, context: LiquidContext) =>
+export const render = (
+  template: string,
+  context: LiquidContext,
+  options?: LiquidOptions
+) =>
   Effect.provide(
     Effect.gen(function* () {
       const service = yield* LiquidService;
-      return yield* service.render(template, context);
+      return yield* service.render(template, context, options);
     }),
     LiquidServiceLayer
   );
@@ -71,16 +78,71 @@ export const compile = (template: string) =>
  *
  * @param compiled The compiled template
  * @param context The variable context for rendering
+ * @param options Strictness, resource limits and per-render filters and tags
  * @returns An Effect that resolves to the rendered string or fails with a LiquidRenderError
  */
 export const renderCompiled = (
   compiled: import("./types.js").LiquidTemplate,
-  context: LiquidContext
+  context: LiquidContext,
+  options?: LiquidOptions
+) =>
+  Effect.provide(
+    Effect.gen(function* () {
+      const service = yield* LiquidService;
+      return yield* service.renderCompiled(compiled, context, options);
+    }),
+    LiquidServiceLayer
+  );
+
+/**
+ * Renders a compiled Liquid template as a stream of output chunks.
+ *
+ * @param compiled The compiled template
+ * @param context The variable context for rendering
+ * @param options Strictness, resource limits and per-render filters and tags
+ * @returns A Stream that emits the output as it renders or fails with a LiquidRenderError
+ */
+export const renderStream = (
+  compiled: import("./types.js").LiquidTemplate,
+  context: LiquidContext,
+  options?: LiquidOptions
 ) =>
+  Stream.provideLayer(
+    Stream.unwrap(
+      Effect.map(LiquidService, (service) =>
+        service.renderStream(compiled, context, options)
+      )
+    ),
+    LiquidServiceLayer
+  );
+
+/**
+ * Statically analyzes a Liquid template without rendering it.
+ *
+ * @param template The Liquid template string to analyze
+ * @returns An Effect that resolves to the template's variables, filters and local names or fails with a LiquidParseError
+ */
+export const analyze = (template: string) =>
+  Effect.provide(
+    Effect.gen(function* () {
+      const service = yield* LiquidService;
+      return yield* service.analyze(template);
+    }),
+    LiquidServiceLayer
+  );
+
+/**
+ * Checks that every variable a Liquid template reads is declared by a schema.
+ *
+ * @param template The Liquid template string to check
+ * @param schema The schema of the render context
+ * @returns An Effect that resolves to the template analysis or fails with a LiquidParseError or LiquidSchemaError
+ */
+export const checkTemplate = (template: string, schema: Schema.Schema.Any) =>
   Effect.provide(
     Effect.gen(function* () {
       const service = yield* LiquidService;
-      return yield* service.renderCompiled(compiled, context);
+      return yield* service.checkTemplate(template, schema);
     }),
     LiquidServiceLayer
   );
@@ -0,0 +1,194 @@
+import { readFile, stat } from "node:fs/promises";
+import { extname, isAbsolute, relative, resolve } from "node:path";
+import { Effect, Layer, Ref } from "effect";
+import type { AstNode } from "./ast.js";
+import { LiquidLoaderError, type LiquidParseError } from "./errors.js";
+import { parseTemplate } from "./parser.js";
+
+/**
+ * Source of the templates referenced by include, render and layout tags.
+ */
+export interface TemplateLoaderSchema {
+  readonly load: (name: string) => Effect.Effect<string, LiquidLoaderError>;
+  /**
+   * Revision of a template: any string that changes when its source does,
+   * such as a modification time or the source itself. When provided,
+   * cached parses are only reused while the revision is unchanged.
+   */
+  readonly version?: (name: string) => Effect.Effect<string, LiquidLoaderError>;
+}
+
+/**
+ * Options for loading templates from a directory.
+ */
+export interface FileSystemLoaderOptions {
+  /** Directory that template names are resolved against */
+  readonly root: string;
+  /** Extension appended to names without one (default: ".liquid") */
+  readonly extension?: string;
+}
+
+/**
+ * Parsed-template cache in front of a loader.
+ * Only successful parses are cached, so a missing template is looked up
+ * again the next time it is referenced. For loaders with a `version`, a
+ * template is reloaded whenever its revision changes.
+ */
+export interface TemplateCache {
+  readonly get: (
+    name: string
+  ) => Effect.Effect<readonly AstNode[], LiquidLoaderError | LiquidParseError>;
+  readonly invalidate: (name?: string) => Effect.Effect<void>;
+}
+
+const notFound = (name: string, cause?: unknown) =>
+  new LiquidLoaderError({
+    message: `Template not found: ${name}`,
+    template: name,
+    ...(cause !== undefined && { cause }),
+  });
+
+/**
+ * Creates a loader serving templates from a name-to-source record.
+ */
+export const makeMemoryLoader = (
+  templates: Readonly<Record<string, string>>
+): TemplateLoaderSchema => ({
+  load: (name) => {
+    const source = Object.hasOwn(templates, name) ? templates[name] : undefined;
+    return source === undefined
+      ? Effect.fail(notFound(name))
+      : Effect.succeed(source);
+  },
+});
+
+const readError = (name: string, error: unknown) =>
+  (error as NodeJS.ErrnoException).code === "ENOENT"
+    ? notFound(name, error)
+    : new LiquidLoaderError({
+        message: `Failed to read template '${name}': ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        template: name,
+        cause: error,
+      });
+
+/**
+ * Creates a loader reading templates from files below a root directory.
+ * Names that resolve outside the root are rejected. A template's revision
+ * is its file's modification time and size.
+ */
+export const makeFileSystemLoader = (
+  options: FileSystemLoaderOptions
+): TemplateLoaderSchema => {
+  const root = resolve(options.root);
+  const extension = options.extension ?? ".liquid";
+
+  const resolveFile = (name: string) => {
+    const file = resolve(
+      root,
+      extname(name) === "" ? `${name}${extension}` : name
+    );
+    const path = relative(root, file);
+
+    return path.startsWith("..") || isAbsolute(path)
+      ? Effect.fail(
+          new LiquidLoaderError({
+            message: `Template path escapes the loader root: ${name}`,
+            template: name,
+          })
+        )
+      : Effect.succeed(file);
+  };
+
+  return {
+    load: (name) =>
+      Effect.flatMap(resolveFile(name), (file) =>
+        Effect.tryPromise({
+          try: () => readFile(file, "utf8"),
+          catch: (error) => readError(name, error),
+        })
+      ),
+    version: (name) =>
+      Effect.flatMap(resolveFile(name), (file) =>
+        Effect.tryPromise({
+          try: () => stat(file),
+          catch: (error) => readError(name, error),
+        })
+      ).pipe(Effect.map((stats) => `${stats.mtimeMs}:${stats.size}`)),
+  };
+};
+
+/**
+ * Loader used by LiquidService to resolve partials and layouts.
+ * The default implementation holds no templates; provide one of the loader
+ * layers below (or your own) to enable template composition.
+ */
+export class TemplateLoader extends Effect.Service<TemplateLoaderSchema>()(
+  "TemplateLoader",
+  {
+    accessors: true,
+    effect: Effect.succeed(makeMemoryLoader({})),
+  }
+) {}
+
+/**
+ * Provides a TemplateLoader serving the given templates from memory.
+ */
+export const memoryLoaderLayer = (
+  templates: Readonly<Record<string, string>>
+) => Layer.succeed(TemplateLoader, makeMemoryLoader(templates));
+
+/**
+ * Provides a TemplateLoader reading templates from the file system.
+ */
+export const fileSystemLoaderLayer = (options: FileSystemLoaderOptions) =>
+  Layer.succeed(TemplateLoader, makeFileSystemLoader(options));
+
+interface CacheEntry {
+  readonly version: string | undefined;
+  readonly ast: readonly AstNode[];
+}
+
+/**
+ * Creates a cache of parsed templates backed by the given loader.
+ */
+export const makeTemplateCache = (
+  loader: TemplateLoaderSchema
+): Effect.Effect<TemplateCache> =>
+  Effect.gen(function* () {
+    const entries = yield* Ref.make(new Map<string, CacheEntry>());
+
+    const invalidate = (name?: string) =>
+      Ref.update(entries, (map) => {
+        if (name === undefined) {
+          return new Map();
+        }
+        const next = new Map(map);
+        next.delete(name);
+        return next;
+      });
+
+    const revision = (name: string) =>
+      loader.version === undefined
+        ? Effect.succeed(undefined)
+        : loader.version(name).pipe(Effect.tapError(() => invalidate(name)));
+
+    const get = (name: string) =>
+      Effect.gen(function* () {
+        const version = yield* revision(name);
+        const cached = (yield* Ref.get(entries)).get(name);
+        if (cached !== undefined && cached.version === version) {
+          return cached.ast;
+        }
+
+        const source = yield* loader.load(name);
+        const ast = yield* parseTemplate(source);
+        yield* Ref.update(entries, (map) =>
+          new Map(map).set(name, { version, ast })
+        );
+        return ast;
+      });
+
+    return { get, invalidate };
+  });
@@ -1,5 +1,11 @@
 import { Effect } from "effect";
-import type { LiquidAstNode } from "./ast.js";
+import type {
+  ArgumentExpression,
+  ComparisonOperator,
+  ConditionExpression,
+  FilterNode,
+  LiquidAstNode,
+} from "./ast.js";
 import { LiquidParseError } from "./errors.js";
 
 /**
@@ -19,8 +25,93 @@ type TokenType =
   | "PIPE"
   | "COLON"
   | "COMMA"
+  | "LPAREN"
+  | "RPAREN"
+  | "RANGE"
   | "EOF";
 
+/**
+ * Keywords that read as literal values rather than variable paths.
+ */
+const LITERAL_KEYWORDS = new Map<string, unknown>([
+  ["true", true],
+  ["false", false],
+  ["nil", null],
+  ["null", null],
+]);
+
+/**
+ * Identifiers in tag arguments that are operators rather than variables.
+ */
+const OPERATOR_KEYWORDS = new Set(["and", "or", "contains", "empty", "blank"]);
+
+/**
+ * Tokens that can start a filter argument.
+ */
+const ARGUMENT_TOKENS: ReadonlySet<TokenType> = new Set([
+  "STRING",
+  "NUMBER",
+  "IDENTIFIER",
+  "LPAREN",
+]);
+
+const WHITESPACE = /\s/;
+const DIGIT = /\d/;
+
+/**
+ * Ends of outputs and tags, dashed forms first.
+ */
+const CLOSING_DELIMITERS = ["-}}", "}}", "-%}", "%}"];
+
+/**
+ * Punctuation inside outputs and tags.
+ */
+const PUNCTUATION = new Map<string, TokenType>([
+  ["..", "RANGE"],
+  [".", "DOT"],
+  ["|", "PIPE"],
+  [":", "COLON"],
+  [",", "COMMA"],
+  ["(", "LPAREN"],
+  [")", "RPAREN"],
+]);
+
+/**
+ * Operators accepted between the two sides of a comparison.
+ */
+const COMPARISON_OPERATORS = new Set<string>([
+  "==",
+  "!=",
+  "<",
+  ">",
+  "<=",
+  ">=",
+  "contains",
+]);
+
+/**
+ * Closing tags of the tags whose bodies are kept as plain text.
+ */
+const VERBATIM_END = new Map<string, RegExp>([
+  ["raw", /\{%-?\s*endraw\s*-?%\}/g],
+  ["comment", /\{%-?\s*endcomment\s*-?%\}/g],
+]);
+
+/**
+ * Opening of a {% liquid %} tag, matched right after "{%".
+ */
+const LIQUID_TAG = /liquid(?=\s|-?%\})/y;
+
+/**
+ * Arguments following the template name of a partial or layout tag.
+ */
+interface PartialArguments {
+  readonly with: Record<string, unknown>;
+  subject?: ArgumentExpression;
+  for?: string;
+  alias?: string;
+}
+
 interface Token {
   readonly type: TokenType;
   readonly value: string;
@@ -58,8 +149,14 @@ class Lexer {
     return char;
   }
 
+  private advanceTo(position: number): void {
+    while (this.pos < position) {
+      this.advance();
+    }
+  }
+
   private skipWhitespace(): void {
-    while (this.pos < this.source.length && /\s/.test(this.peek())) {
+    while (this.pos < this.source.length && WHITESPACE.test(this.peek())) {
       this.advance();
     }
   }
@@ -85,321 +182,416 @@ class Lexer {
     return value;
   }
 
-  private readNumber(): string {
+  private readDigits(): string {
     let value = "";
-    while (this.pos < this.source.length && /[\d.]/.test(this.peek())) {
+    while (this.pos < this.source.length && DIGIT.test(this.peek())) {
       value += this.advance();
     }
     return value;
   }
 
+  private readNumber(): string {
+    let value = this.peek() === "-" ? this.advance() : "";
+    value += this.readDigits();
+    // A dot is a decimal point only before a digit; ".." starts a range
+    if (this.peek() === "." && DIGIT.test(this.peek(1))) {
+      value += this.advance() + this.readDigits();
+    }
+    return value;
+  }
+
   private readIdentifier(): string {
     let value = "";
     while (
       this.pos < this.source.length &&
-      /[a-zA-Z0-9_\-]/.test(this.peek())
+      /[a-zA-Z0-9_\-]/.test(this.peek()) &&
+      this.closing() === undefined
     ) {
       value += this.advance();
     }
     return value;
   }
 
-  tokenize(): Effect.Effect<readonly Token[], LiquidParseError> {
-    return Effect.try({
-      try: () => {
-        const tokens: Token[] = [];
-        let inOutput = false;
-        let inTag = false;
-        let textStart = 0;
-
-        while (this.pos < this.source.length) {
-          const current = this.peek();
-          const next = this.peek(1);
-
-          // Check for output start: {{
-          if (current === "{" && next === "{" && !inOutput && !inTag) {
-            // Emit any text before this
-            if (this.pos > textStart) {
-              tokens.push({
-                type: "TEXT",
-                value: this.source.slice(textStart, this.pos),
-                position: textStart,
-                line: this.line,
-                column: this.column,
-              });
-            }
+  /**
+   * The delimiter closing an output or tag at the current position, with
+   * its whitespace control dash if any.
+   */
+  private closing(): string | undefined {
+    return CLOSING_DELIMITERS.find((delimiter) =>
+      this.source.startsWith(delimiter, this.pos)
+    );
+  }
 
-            const trimLeft = this.peek(2) === "-";
-            const startPos = this.pos;
-            const startLine = this.line;
-            const startCol = this.column;
+  /**
+   * Emits a token for the single or double character punctuation at the
+   * current position, returning false if there is none.
+   */
+  private readPunctuation(tokens: Token[]): boolean {
+    const value =
+      this.peek() === "." && this.peek(1) === "." ? ".." : this.peek();
+    const type = PUNCTUATION.get(value);
+    if (type === undefined) {
+      return false;
+    }
 
-            this.advance(); // {
-            this.advance(); // {
-            if (trimLeft) {
-              this.advance(); // -
-            }
+    tokens.push({
+      type,
+      value,
+      position: this.pos,
+      line: this.line,
+      column: this.column,
+    });
+    this.advanceTo(this.pos + value.length);
+    return true;
+  }
 
-            tokens.push({
-              type: "OUTPUT_START",
-              value: trimLeft ? "{{-" : "{{",
-              position: startPos,
-              line: startLine,
-              column: startCol,
-            });
-
-            inOutput = true;
-            textStart = this.pos;
-            continue;
-          }
+  tokenize(): Effect.Effect<readonly Token[], LiquidParseError> {
+    return Effect.try({
+      try: () => this.scan(),
+      catch: (error) =>
+        new LiquidParseError({
+          message: `Lexer error: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          position: this.pos,
+          line: this.line,
+          column: this.column,
+          cause: error,
+        }),
+    });
+  }
 
-          // Check for output end: }}
-          if (current === "}" && next === "}" && inOutput) {
-            const trimRight = this.peek(-1) === "-";
-            const startPos = this.pos;
-            const startLine = this.line;
-            const startCol = this.column;
-
-            this.advance(); // }
-            this.advance(); // }
-            if (trimRight) {
-              this.advance(); // -
-            }
+  /**
+   * Skips the body of a raw or comment tag that was just closed, emitting it
+   * as a single text token so that Liquid markup inside it is not lexed.
+   */
+  private skipVerbatim(tokens: Token[]): void {
+    const name = tokens.at(-2);
+    const end =
+      tokens.at(-3)?.type === "TAG_START" && name?.type === "IDENTIFIER"
+        ? VERBATIM_END.get(name.value.toLowerCase())
+        : undefined;
+    if (end === undefined) {
+      return;
+    }
 
-            tokens.push({
-              type: "OUTPUT_END",
-              value: trimRight ? "-}}" : "}}",
-              position: startPos,
-              line: startLine,
-              column: startCol,
-            });
-
-            inOutput = false;
-            textStart = this.pos;
-            continue;
-          }
+    end.lastIndex = this.pos;
+    const match = end.exec(this.source);
+    if (match === null || match.index === this.pos) {
+      return;
+    }
 
-          // Check for tag start: {%
-          if (current === "{" && next === "%" && !inOutput && !inTag) {
-            // Emit any text before this
-            if (this.pos > textStart) {
-              tokens.push({
-                type: "TEXT",
-                value: this.source.slice(textStart, this.pos),
-                position: textStart,
-                line: this.line,
-                column: this.column,
-              });
-            }
+    const token = {
+      type: "TEXT" as const,
+      value: this.source.slice(this.pos, match.index),
+      position: this.pos,
+      line: this.line,
+      column: this.column,
+    };
+    this.advanceTo(match.index);
+    tokens.push(token);
+  }
 
-            const trimLeft = this.peek(2) === "-";
-            const startPos = this.pos;
-            const startLine = this.line;
-            const startCol = this.column;
+  /**
+   * Expands {% liquid %} into one tag per line: each non-empty line that is
+   * not a # comment is lexed as if written as {% line %}.
+   */
+  private expandLiquidTag(tokens: Token[]): void {
+    const close = this.source.indexOf("%}", this.pos);
+    const stop = close === -1 ? this.source.length : close;
+    const contentEnd = this.source[stop - 1] === "-" ? stop - 1 : stop;
+
+    while (this.pos < contentEnd) {
+      const start = {
+        position: this.pos,
+        line: this.line,
+        column: this.column,
+      };
+      while (this.pos < contentEnd && this.peek() !== "\n") {
+        this.advance();
+      }
+      const statement = this.source.slice(start.position, this.pos);
+      if (this.pos < contentEnd) {
+        this.advance(); // Newline
+      }
 
-            this.advance(); // {
-            this.advance(); // %
-            if (trimLeft) {
-              this.advance(); // -
-            }
+      const trimmed = statement.trim();
+      if (trimmed === "" || trimmed.startsWith("#")) {
+        continue;
+      }
 
-            tokens.push({
-              type: "TAG_START",
-              value: trimLeft ? "{%-" : "{%",
-              position: startPos,
-              line: startLine,
-              column: startCol,
-            });
-
-            inTag = true;
-            this.skipWhitespace();
-            continue;
-          }
+      // Offsets in the line lexer are shifted by the added "{%"
+      for (const token of new Lexer(`{%${statement}%}`).scan()) {
+        if (token.type !== "EOF") {
+          const offset = Math.max(token.position - 2, 0);
+          tokens.push({
+            ...token,
+            position: start.position + offset,
+            line: start.line,
+            column: start.column + offset,
+          });
+        }
+      }
+    }
 
-          // Check for tag end: %}
-          if (current === "%" && next === "}" && inTag) {
-            const trimRight = this.peek(-1) === "-";
-            const startPos = this.pos;
-            const startLine = this.line;
-            const startCol = this.column;
-
-            this.advance(); // %
-            this.advance(); // }
-            if (trimRight) {
-              this.advance(); // -
-            }
+    this.advanceTo(Math.min(stop + 2, this.source.length));
+  }
 
-            tokens.push({
-              type: "TAG_END",
-              value: trimRight ? "-%}" : "%}",
-              position: startPos,
-              line: startLine,
-              column: startCol,
-            });
-
-            inTag = false;
-            textStart = this.pos;
-            continue;
-          }
+  private scan(): Token[] {
+    const tokens: Token[] = [];
+    let inOutput = false;
+    let inTag = false;
+    let textStart = 0;
 
-          if (inOutput || inTag) {
-            this.skipWhitespace();
-
-            // String literals
-            if (current === '"' || current === "'") {
-              const startPos = this.pos;
-              const startLine = this.line;
-              const startCol = this.column;
-              const value = this.readString(current);
-              tokens.push({
-                type: "STRING",
-                value,
-                position: startPos,
-                line: startLine,
-                column: startCol,
-              });
-              continue;
-            }
+    while (this.pos < this.source.length) {
+      const current = this.peek();
+      const next = this.peek(1);
 
-            // Numbers
-            if (/\d/.test(current)) {
-              const startPos = this.pos;
-              const startLine = this.line;
-              const startCol = this.column;
-              const value = this.readNumber();
-              tokens.push({
-                type: "NUMBER",
-                value,
-                position: startPos,
-                line: startLine,
-                column: startCol,
-              });
-              continue;
-            }
+      // Check for output start: {{
+      if (current === "{" && next === "{" && !inOutput && !inTag) {
+        // Emit any text before this
+        if (this.pos > textStart) {
+          tokens.push({
+            type: "TEXT",
+            value: this.source.slice(textStart, this.pos),
+            position: textStart,
+            line: this.line,
+            column: this.column,
+          });
+        }
 
-            // Operators
-            if (/[=!<>]/.test(current)) {
-              const startPos = this.pos;
-              const startLine = this.line;
-              const startCol = this.column;
-              let op = this.advance();
-              if (
-                (op === "=" || op === "!" || op === "<" || op === ">") &&
-                this.peek() === "="
-              ) {
-                op += this.advance();
-              }
-              tokens.push({
-                type: "OPERATOR",
-                value: op,
-                position: startPos,
-                line: startLine,
-                column: startCol,
-              });
-              continue;
-            }
+        const trimLeft = this.peek(2) === "-";
+        const startPos = this.pos;
+        const startLine = this.line;
+        const startCol = this.column;
 
-            // Special characters
-            if (current === ".") {
-              tokens.push({
-                type: "DOT",
-                value: ".",
-                position: this.pos,
-                line: this.line,
-                column: this.column,
-              });
-              this.advance();
-              continue;
-            }
+        this.advance(); // {
+        this.advance(); // {
+        if (trimLeft) {
+          this.advance(); // -
+        }
 
-            if (current === "|") {
-              tokens.push({
-                type: "PIPE",
-                value: "|",
-                position: this.pos,
-                line: this.line,
-                column: this.column,
-              });
-              this.advance();
-              continue;
-            }
+        tokens.push({
+          type: "OUTPUT_START",
+          value: trimLeft ? "{{-" : "{{",
+          position: startPos,
+          line: startLine,
+          column: startCol,
+        });
 
-            if (current === ":") {
-              tokens.push({
-                type: "COLON",
-                value: ":",
-                position: this.pos,
-                line: this.line,
-                column: this.column,
-              });
-              this.advance();
-              continue;
-            }
+        inOutput = true;
+        textStart = this.pos;
+        continue;
+      }
 
-            if (current === ",") {
-              tokens.push({
-                type: "COMMA",
-                value: ",",
-                position: this.pos,
-                line: this.line,
-                column: this.column,
-              });
-              this.advance();
-              continue;
-            }
+      const closing = this.closing();
 
-            // Identifiers
-            if (/[a-zA-Z_]/.test(current)) {
-              const startPos = this.pos;
-              const startLine = this.line;
-              const startCol = this.column;
-              const value = this.readIdentifier();
-              tokens.push({
-                type: "IDENTIFIER",
-                value,
-                position: startPos,
-                line: startLine,
-                column: startCol,
-              });
-              continue;
-            }
-          } else {
-            this.advance();
-          }
-        }
+      // Check for output end: }} or -}}
+      if (inOutput && (closing === "}}" || closing === "-}}")) {
+        tokens.push({
+          type: "OUTPUT_END",
+          value: closing,
+          position: this.pos,
+          line: this.line,
+          column: this.column,
+        });
+        this.advanceTo(this.pos + closing.length);
 
-        // Emit any remaining text
+        inOutput = false;
+        textStart = this.pos;
+        continue;
+      }
+
+      // Check for tag start: {%
+      if (current === "{" && next === "%" && !inOutput && !inTag) {
+        // Emit any text before this
         if (this.pos > textStart) {
           tokens.push({
             type: "TEXT",
-            value: this.source.slice(textStart),
+            value: this.source.slice(textStart, this.pos),
             position: textStart,
             line: this.line,
             column: this.column,
           });
         }
 
+        const trimLeft = this.peek(2) === "-";
+        const startPos = this.pos;
+        const startLine = this.line;
+        const startCol = this.column;
+
+        this.advance(); // {
+        this.advance(); // %
+        if (trimLeft) {
+          this.advance(); // -
+        }
+
         tokens.push({
-          type: "EOF",
-          value: "",
-          position: this.pos,
-          line: this.line,
-          column: this.column,
+          type: "TAG_START",
+          value: trimLeft ? "{%-" : "{%",
+          position: startPos,
+          line: startLine,
+          column: startCol,
         });
 
-        return tokens;
-      },
-      catch: (error) =>
-        new LiquidParseError({
-          message: `Lexer error: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
+        inTag = true;
+        this.skipWhitespace();
+
+        LIQUID_TAG.lastIndex = this.pos;
+        if (LIQUID_TAG.test(this.source)) {
+          tokens.pop(); // The liquid tag itself leaves no token
+          this.advanceTo(LIQUID_TAG.lastIndex);
+          this.expandLiquidTag(tokens);
+          inTag = false;
+          textStart = this.pos;
+        }
+        continue;
+      }
+
+      // Check for tag end: %} or -%}
+      if (inTag && (closing === "%}" || closing === "-%}")) {
+        tokens.push({
+          type: "TAG_END",
+          value: closing,
           position: this.pos,
           line: this.line,
           column: this.column,
-          cause: error,
-        }),
+        });
+        this.advanceTo(this.pos + closing.length);
+
+        inTag = false;
+        this.skipVerbatim(tokens);
+        textStart = this.pos;
+        continue;
+      }
+
+      if (inOutput || inTag) {
+        if (WHITESPACE.test(current)) {
+          this.skipWhitespace();
+          continue;
+        }
+
+        // String literals
+        if (current === '"' || current === "'") {
+          const startPos = this.pos;
+          const startLine = this.line;
+          const startCol = this.column;
+          const value = this.readString(current);
+          tokens.push({
+            type: "STRING",
+            value,
+            position: startPos,
+            line: startLine,
+            column: startCol,
+          });
+          continue;
+        }
+
+        // Numbers, including negative ones
+        if (DIGIT.test(current) || (current === "-" && DIGIT.test(next))) {
+          const startPos = this.pos;
+          const startLine = this.line;
+          const startCol = this.column;
+          const value = this.readNumber();
+          tokens.push({
+            type: "NUMBER",
+            value,
+            position: startPos,
+            line: startLine,
+            column: startCol,
+          });
+          continue;
+        }
+
+        // Operators
+        if (/[=!<>]/.test(current)) {
+          const startPos = this.pos;
+          const startLine = this.line;
+          const startCol = this.column;
+          let op = this.advance();
+          if (this.peek() === "=") {
+            op += this.advance();
+          }
+          tokens.push({
+            type: "OPERATOR",
+            value: op,
+            position: startPos,
+            line: startLine,
+            column: startCol,
+          });
+          continue;
+        }
+
+        if (this.readPunctuation(tokens)) {
+          continue;
+        }
+
+        // Identifiers
+        if (/[a-zA-Z_]/.test(current)) {
+          const startPos = this.pos;
+          const startLine = this.line;
+          const startCol = this.column;
+          const value = this.readIdentifier();
+          tokens.push({
+            type: "IDENTIFIER",
+            value,
+            position: startPos,
+            line: startLine,
+            column: startCol,
+          });
+          continue;
+        }
+
+        // Every character inside an output or tag must start a token
+        throw new Error(
+          `Unexpected character '${current}' at position ${this.pos}`
+        );
+      }
+      this.advance();
+    }
+
+    // Emit any remaining text
+    if (this.pos > textStart) {
+      tokens.push({
+        type: "TEXT",
+        value: this.source.slice(textStart),
+        position: textStart,
+        line: this.line,
+        column: this.column,
+      });
+    }
+
+    tokens.push({
+      type: "EOF",
+      value: "",
+      position: this.pos,
+      line: this.line,
+      column: this.column,
     });
+
+    return tokens;
+  }
+}
+
+/**
+ * Variable paths read by an expression.
+ */
+function expressionPaths(expression: ConditionExpression): string[] {
+  switch (expression.type) {
+    case "literal":
+      return [];
+    case "path":
+      return OPERATOR_KEYWORDS.has(expression.path) ? [] : [expression.path];
+    case "range":
+      return [
+        ...expressionPaths(expression.start),
+        ...expressionPaths(expression.end),
+      ];
+    default:
+      return [
+        ...expressionPaths(expression.left),
+        ...expressionPaths(expression.right),
+      ];
   }
 }
 
@@ -471,65 +663,84 @@ class Parser {
       return path;
     }
 
+    if (token.type === "LPAREN") {
+      return this.parseRange();
+    }
+
     return null;
   }
 
-  private parseFilter(): { name: string; args: readonly unknown[] } {
+  /**
+   * Parses a range literal: (start..end)
+   */
+  private parseRange(): ArgumentExpression {
+    this.expect("LPAREN");
+    const start = this.parseArgument();
+    this.expect("RANGE");
+    const end = this.parseArgument();
+    this.expect("RPAREN");
+    return { type: "range", start, end };
+  }
+
+  private parseFilter(): FilterNode {
     this.expect("PIPE");
     const name = this.expect("IDENTIFIER").value;
     const args: unknown[] = [];
-    let filterArgAttempts = 0;
 
-    while (this.peek().type === "COLON" && filterArgAttempts < 100) {
-      filterArgAttempts++;
-      const beforePos = this.pos;
-      this.advance(); // Skip colon
-      const expr = this.parseExpression();
-      const afterPos = this.pos;
-
-      // Only add if we got a valid expression and advanced position
-      if (expr !== null && afterPos > beforePos) {
-        args.push(expr);
-      } else if (afterPos === beforePos) {
-        // If we didn't advance, break to avoid infinite loop
-        break;
-      }
+    // Arguments follow a colon and are separated by commas: `name: a, b`.
+    // Literals are kept as plain values; variable paths and ranges are
+    // evaluated when the filter is applied.
+    while (
+      (this.peek().type === "COLON" ||
+        (args.length > 0 && this.peek().type === "COMMA")) &&
+      ARGUMENT_TOKENS.has(this.tokens[this.pos + 1]?.type ?? "EOF")
+    ) {
+      this.advance(); // Skip colon or comma
+      const argument = this.parseArgument();
+      args.push(argument.type === "literal" ? argument.value : argument);
     }
 
     return { name, args };
   }
 
-  private parseVariable(): LiquidAstNode {
-    const startToken = this.expect("OUTPUT_START");
-    const firstToken = this.peek();
-
-    // Handle numeric literals or identifiers
-    let path: string;
-    if (firstToken.type === "NUMBER") {
-      // For numeric literals, use the number as a string identifier
-      path = this.advance().value;
-    } else if (firstToken.type === "IDENTIFIER") {
-      path = this.advance().value;
-      while (this.peek().type === "DOT") {
-        this.advance(); // Skip dot
-        path += "." + this.expect("IDENTIFIER").value;
-      }
-    } else {
-      // If it's not an identifier or number, try to parse as expression
-      const expr = this.parseExpression();
-      path = String(expr ?? "");
-    }
-
-    const filters: Array<{ name: string; args: readonly unknown[] }> = [];
+  private parseFilters(): FilterNode[] {
+    const filters: FilterNode[] = [];
     while (this.peek().type === "PIPE") {
       filters.push(this.parseFilter());
     }
+    return filters;
+  }
 
+  private parseVariable(): LiquidAstNode {
+    const startToken = this.expect("OUTPUT_START");
+    const node = this.parseOutput(startToken);
     this.expect("OUTPUT_END");
+    return node;
+  }
+
+  /**
+   * Parses a variable path or literal and its filters, shared by {{ }} and
+   * echo.
+   */
+  private parseOutput(startToken: Token): LiquidAstNode {
+    const token = this.peek();
+
+    // {{ }} outputs nothing
+    let argument: ArgumentExpression = { type: "path", path: "" };
+    if (
+      token.type !== "OUTPUT_END" &&
+      token.type !== "TAG_END" &&
+      token.type !== "PIPE"
+    ) {
+      argument = this.parseArgument();
+    }
+
+    const filters = this.parseFilters();
 
     return {
       type: "variable",
-      name: path,
+      name: argument.type === "path" ? argument.path : "",
+      ...(argument.type !== "path" && { expression: argument }),
       ...(filters.length > 0 && { filters }),
       position: startToken.position,
       line: startToken.line,
@@ -541,44 +752,40 @@ class Parser {
     const startToken = this.expect("TAG_START");
     const tagName = this.expect("IDENTIFIER").value.toLowerCase();
 
-    // Parse tag arguments
-    const args: unknown[] = [];
-    let argParseAttempts = 0;
-    while (
-      this.peek().type !== "TAG_END" &&
-      this.peek().type !== "EOF" &&
-      argParseAttempts < 100
-    ) {
-      argParseAttempts++;
-      const beforePos = this.pos;
-      const expr = this.parseExpression();
-      const afterPos = this.pos;
-
-      // Only add if we got a valid expression and advanced position
-      if (expr !== null && afterPos > beforePos) {
-        args.push(expr);
-      }
-
-      // Skip comma if present
-      if (this.peek().type === "COMMA") {
-        this.advance();
-      } else if (
-        this.peek().type !== "TAG_END" &&
-        this.peek().type !== "EOF" &&
-        afterPos === beforePos
-      ) {
-        // If we didn't advance, skip this token to avoid infinite loop
-        this.advance();
-      }
+    if (tagName === "include" || tagName === "render") {
+      return this.parsePartial(startToken, tagName);
+    }
+    if (tagName === "layout") {
+      return this.parseLayout(startToken);
+    }
+    if (tagName === "block") {
+      return this.parseBlock(startToken);
+    }
+    if (tagName === "echo") {
+      const node = this.parseOutput(startToken);
+      this.expect("TAG_END");
+      return node;
+    }
+    if (tagName === "cycle") {
+      return this.parseCycle(startToken);
     }
 
+    const args: unknown[] = [];
+    const paths: string[] = [];
+    this.parseLeadingArguments(tagName, args, paths);
+    const filters = tagName === "assign" ? this.parseFilters() : [];
+    this.parseTagArguments(args, paths);
+
     const trimRight = startToken.value.includes("-");
     this.expect("TAG_END");
 
     // Self-closing tags (no body, no end tag)
     // Note: assign is also self-closing but handled separately below
     if (
-      tagName === "comment" ||
+      tagName === "increment" ||
+      tagName === "decrement" ||
+      tagName === "break" ||
+      tagName === "continue" ||
       tagName === "else" ||
       tagName === "elsif" ||
       tagName === "endif" ||
@@ -590,6 +797,8 @@ class Parser {
         type: "tag",
         name: tagName,
         args,
+        ...(paths.length > 0 && { paths }),
+        ...(filters.length > 0 && { filters }),
         body: [],
         trimLeft: trimRight,
         trimRight: false,
@@ -602,7 +811,7 @@ class Parser {
     // Tags with body
     const body: LiquidAstNode[] = [];
     let endFound = false;
-    const endTagNames = [`end${tagName}`, tagName];
+    const endTagNames = [`end${tagName}`];
 
     // Special handling for if tag - allow else/elsif/endif
     if (tagName === "if") {
@@ -760,6 +969,7 @@ class Parser {
       type: "tag",
       name: tagName,
       args,
+      ...(paths.length > 0 && { paths }),
       body,
       trimLeft: trimRight,
       trimRight:
@@ -770,6 +980,383 @@ class Parser {
     };
   }
 
+  /**
+   * Parses the arguments of tags that evaluate expressions: the condition
+   * of if, elsif and unless, the subject of case, the values of when and
+   * the target and value of assign.
+   */
+  private parseLeadingArguments(
+    tagName: string,
+    args: unknown[],
+    paths: string[]
+  ): void {
+    const expressions: ConditionExpression[] = [];
+    switch (tagName) {
+      case "if":
+      case "elsif":
+      case "unless":
+        expressions.push(this.parseCondition());
+        break;
+      case "case":
+        expressions.push(this.parseArgument());
+        break;
+      case "when":
+        expressions.push(...this.parseWhenValues());
+        break;
+      case "assign": {
+        const target = this.expect("IDENTIFIER").value;
+        args.push(target);
+        paths.push(target);
+        const operator = this.peek();
+        if (operator.type !== "OPERATOR" || operator.value !== "=") {
+          throw new Error(
+            `'assign' tag expects '=' after '${target}' at position ${operator.position}`
+          );
+        }
+        this.advance();
+        expressions.push(this.parseArgument());
+        break;
+      }
+      default:
+        return;
+    }
+
+    for (const expression of expressions) {
+      args.push(expression);
+      paths.push(...expressionPaths(expression));
+    }
+  }
+
+  /**
+   * Collects the remaining arguments of a tag as plain values, recording
+   * those written as variable paths.
+   */
+  private parseTagArguments(args: unknown[], paths: string[]): void {
+    let argParseAttempts = 0;
+    while (
+      this.peek().type !== "TAG_END" &&
+      this.peek().type !== "EOF" &&
+      argParseAttempts < 100
+    ) {
+      argParseAttempts++;
+      const beforePos = this.pos;
+      // Identifiers after a pipe name filters, not variables
+      const isIdentifier =
+        this.peek().type === "IDENTIFIER" &&
+        this.tokens[this.pos - 1]?.type !== "PIPE";
+      const expr = this.parseExpression();
+      const afterPos = this.pos;
+
+      // Only add if we got a valid expression and advanced position
+      if (expr !== null && afterPos > beforePos) {
+        args.push(expr);
+        paths.push(...this.argumentPaths(expr, isIdentifier));
+      }
+
+      // Skip comma if present
+      if (this.peek().type === "COMMA") {
+        this.advance();
+      } else if (
+        this.peek().type !== "TAG_END" &&
+        this.peek().type !== "EOF" &&
+        afterPos === beforePos
+      ) {
+        // If we didn't advance, skip this token to avoid infinite loop
+        this.advance();
+      }
+    }
+  }
+
+  /**
+   * Variable paths read by a plain tag argument: a range's bounds, or the
+   * argument itself when written as an identifier.
+   */
+  private argumentPaths(expr: unknown, isIdentifier: boolean): string[] {
+    if (typeof expr === "object") {
+      return expressionPaths(expr as ArgumentExpression);
+    }
+    return isIdentifier && this.isVariablePath(String(expr))
+      ? [String(expr)]
+      : [];
+  }
+
+  /**
+   * Parses `left [operator right] [and|or condition]`.
+   */
+  private parseCondition(): ConditionExpression {
+    const left = this.parseComparison();
+    const token = this.peek();
+    if (
+      token.type === "IDENTIFIER" &&
+      (token.value === "and" || token.value === "or")
+    ) {
+      this.advance();
+      return { type: token.value, left, right: this.parseCondition() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ConditionExpression {
+    const left = this.parseArgument();
+    const token = this.peek();
+    if (
+      token.type !== "OPERATOR" &&
+      !(token.type === "IDENTIFIER" && token.value === "contains")
+    ) {
+      return left;
+    }
+
+    if (!COMPARISON_OPERATORS.has(token.value)) {
+      throw new Error(
+        `Unknown operator '${token.value}' at position ${token.position}`
+      );
+    }
+    this.advance();
+    return {
+      type: "comparison",
+      operator: token.value as ComparisonOperator,
+      left,
+      right: this.parseArgument(),
+    };
+  }
+
+  /**
+   * Parses the values of a when tag, separated by commas or `or`.
+   */
+  private parseWhenValues(): ArgumentExpression[] {
+    const values = [this.parseArgument()];
+    while (
+      this.peek().type === "COMMA" ||
+      (this.peek().type === "IDENTIFIER" && this.peek().value === "or")
+    ) {
+      this.advance();
+      values.push(this.parseArgument());
+    }
+    return values;
+  }
+
+  private isVariablePath(expr: string): boolean {
+    return !(LITERAL_KEYWORDS.has(expr) || OPERATOR_KEYWORDS.has(expr));
+  }
+
+  private isTag(name: string): boolean {
+    const next = this.tokens[this.pos + 1];
+    return (
+      this.peek().type === "TAG_START" &&
+      next?.type === "IDENTIFIER" &&
+      next.value.toLowerCase() === name
+    );
+  }
+
+  private parseArgument(): ArgumentExpression {
+    const token = this.peek();
+
+    if (token.type === "LPAREN") {
+      return this.parseRange();
+    }
+
+    if (token.type === "STRING") {
+      return { type: "literal", value: this.advance().value };
+    }
+
+    if (token.type === "NUMBER") {
+      return {
+        type: "literal",
+        value: Number.parseFloat(this.advance().value),
+      };
+    }
+
+    if (token.type === "IDENTIFIER") {
+      const path = String(this.parseExpression());
+      return LITERAL_KEYWORDS.has(path)
+        ? { type: "literal", value: LITERAL_KEYWORDS.get(path) }
+        : { type: "path", path };
+    }
+
+    throw new Error(
+      `Expected an argument, got ${token.type} at position ${token.position}`
+    );
+  }
+
+  private parseTemplateName(tagName: string): string {
+    const token = this.peek();
+    if (token.type !== "STRING") {
+      throw new Error(
+        `'${tagName}' tag expects a quoted template name at position ${token.position}`
+      );
+    }
+    return this.advance().value;
+  }
+
+  /**
+   * Parses `key: value` pairs and, when allowed, `with`/`for` clauses with an
+   * optional `as alias`, up to the end of the tag.
+   */
+  private parseArguments(
+    tagName: string,
+    allowClauses: boolean
+  ): PartialArguments {
+    const args: PartialArguments = { with: {} };
+
+    while (this.peek().type !== "TAG_END" && this.peek().type !== "EOF") {
+      if (this.peek().type === "COMMA") {
+        this.advance();
+        continue;
+      }
+
+      const name = this.expect("IDENTIFIER");
+      if (this.peek().type === "COLON") {
+        this.advance();
+        args.with[name.value] = this.parseArgument();
+      } else if (
+        allowClauses &&
+        (name.value === "with" || name.value === "for")
+      ) {
+        this.parseClause(name.value, args);
+      } else {
+        throw new Error(
+          `Unexpected '${name.value}' in '${tagName}' tag at position ${name.position}`
+        );
+      }
+    }
+
+    this.expect("TAG_END");
+    return args;
+  }
+
+  private parseClause(clause: "with" | "for", args: PartialArguments): void {
+    const argument = this.parseArgument();
+    if (clause === "with") {
+      args.subject = argument;
+    } else if (argument.type === "path") {
+      args.for = argument.path;
+    } else {
+      throw new Error(
+        `'for' expects a collection variable at position ${this.peek().position}`
+      );
+    }
+
+    if (this.peek().type === "IDENTIFIER" && this.peek().value === "as") {
+      this.advance();
+      args.alias = this.expect("IDENTIFIER").value;
+    }
+  }
+
+  private parsePartial(
+    startToken: Token,
+    tagName: "include" | "render"
+  ): LiquidAstNode {
+    const template = this.parseTemplateName(tagName);
+    const args = this.parseArguments(tagName, true);
+
+    return {
+      type: tagName,
+      template,
+      ...(Object.keys(args.with).length > 0 && { with: args.with }),
+      ...(args.subject !== undefined && { subject: args.subject }),
+      ...(args.for !== undefined && { for: args.for }),
+      ...(args.alias !== undefined && { alias: args.alias }),
+      position: startToken.position,
+      line: startToken.line,
+      column: startToken.column,
+    };
+  }
+
+  private parseLayout(startToken: Token): LiquidAstNode {
+    const template = this.parseTemplateName("layout");
+    const args = this.parseArguments("layout", false);
+
+    // The layout tag applies to the remainder of the template
+    const body: LiquidAstNode[] = [];
+    while (this.peek().type !== "EOF") {
+      body.push(this.parseNode());
+    }
+
+    return {
+      type: "layout",
+      template,
+      ...(Object.keys(args.with).length > 0 && { with: args.with }),
+      body,
+      position: startToken.position,
+      line: startToken.line,
+      column: startToken.column,
+    };
+  }
+
+  /**
+   * Parses {% cycle [group:] value, value, ... %}.
+   */
+  private parseCycle(startToken: Token): LiquidAstNode {
+    let group: ArgumentExpression | undefined;
+    const values: ArgumentExpression[] = [];
+
+    while (this.peek().type !== "TAG_END" && this.peek().type !== "EOF") {
+      const value = this.parseArgument();
+      if (
+        group === undefined &&
+        values.length === 0 &&
+        this.peek().type === "COLON"
+      ) {
+        this.advance();
+        group = value;
+        continue;
+      }
+
+      values.push(value);
+      if (this.peek().type !== "COMMA") {
+        break;
+      }
+      this.advance();
+    }
+
+    this.expect("TAG_END");
+    if (values.length === 0) {
+      throw new Error(
+        `'cycle' tag requires at least one value at position ${startToken.position}`
+      );
+    }
+
+    return {
+      type: "cycle",
+      ...(group !== undefined && { group }),
+      values,
+      position: startToken.position,
+      line: startToken.line,
+      column: startToken.column,
+    };
+  }
+
+  private parseBlock(startToken: Token): LiquidAstNode {
+    const token = this.peek();
+    if (token.type !== "IDENTIFIER" && token.type !== "STRING") {
+      throw new Error(
+        `'block' tag requires a name at position ${token.position}`
+      );
+    }
+    const name = this.advance().value;
+    this.expect("TAG_END");
+
+    const body: LiquidAstNode[] = [];
+    while (!this.isTag("endblock")) {
+      if (this.peek().type === "EOF") {
+        throw new Error(`Unclosed block '${name}': expected {% endblock %}`);
+      }
+      body.push(this.parseNode());
+    }
+    this.advance(); // TAG_START
+    this.advance(); // endblock
+    this.expect("TAG_END");
+
+    return {
+      type: "block",
+      name,
+      body,
+      position: startToken.position,
+      line: startToken.line,
+      column: startToken.column,
+    };
+  }
+
   private parseNode(): LiquidAstNode {
     const token = this.peek();
 
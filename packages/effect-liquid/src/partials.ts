@@ -0,0 +1,365 @@
+import { Effect } from "effect";
+import type {
+  AstNode,
+  BlockNode,
+  IncludeNode,
+  LayoutNode,
+  RenderNode,
+} from "./ast.js";
+import {
+  LiquidLoaderError,
+  type LiquidParseError,
+  LiquidRenderError,
+} from "./errors.js";
+import { evaluate, lookup } from "./expressions.js";
+import { makeRenderState, type RenderState, recordIteration } from "./state.js";
+import type { LiquidContext } from "./types.js";
+
+/**
+ * Maximum nesting of include, render and layout tags. Partials may render
+ * themselves, such as to walk a tree, so this is what stops runaway
+ * recursion.
+ */
+const MAX_DEPTH = 100;
+
+const EXTENSION = /\.[^.]*$/;
+
+/**
+ * State carried through a render for template composition.
+ */
+export interface RenderScope {
+  /** Resolves a template name to its parsed AST */
+  readonly load: (
+    name: string
+  ) => Effect.Effect<readonly AstNode[], LiquidLoaderError | LiquidParseError>;
+  /** Templates currently being rendered, outermost first */
+  readonly stack: readonly string[];
+  /** Layouts in the chain being rendered, outermost first */
+  readonly layouts: readonly string[];
+  /** Block overrides supplied by templates using a layout */
+  readonly blocks: Readonly<Record<string, readonly AstNode[]>>;
+  /** State of the render the scope belongs to */
+  readonly state: RenderState;
+}
+
+type RenderFn = (
+  nodes: readonly AstNode[],
+  context: LiquidContext,
+  scope: RenderScope
+) => Effect.Effect<string, LiquidRenderError>;
+
+const noLoader = (name: string) =>
+  Effect.fail(
+    new LiquidLoaderError({
+      message: `No template loader configured to load '${name}'`,
+      template: name,
+    })
+  );
+
+/**
+ * Creates the top-level scope of a render. Without a loader, every include,
+ * render and layout tag fails.
+ */
+export const makeRenderScope = (
+  load: RenderScope["load"] = noLoader,
+  state: RenderState = makeRenderState()
+): RenderScope => ({ load, stack: [], layouts: [], blocks: {}, state });
+
+/**
+ * Loads a template and pushes it onto the stack, failing on nesting deeper
+ * than MAX_DEPTH.
+ */
+function enter(
+  scope: RenderScope,
+  name: string
+): Effect.Effect<
+  { readonly ast: readonly AstNode[]; readonly scope: RenderScope },
+  LiquidRenderError
+> {
+  if (scope.stack.length >= MAX_DEPTH) {
+    return Effect.fail(
+      new LiquidRenderError({
+        message: `Template nesting exceeds the maximum depth of ${MAX_DEPTH} at '${name}'`,
+      })
+    );
+  }
+
+  return scope.load(name).pipe(
+    Effect.map((ast) => ({
+      ast,
+      scope: { ...scope, stack: [...scope.stack, name] },
+    })),
+    Effect.mapError(
+      (error) =>
+        new LiquidRenderError({
+          message:
+            error._tag === "LiquidLoaderError"
+              ? error.message
+              : `Failed to parse template '${name}': ${error.message}`,
+          cause: error,
+        })
+    )
+  );
+}
+
+function evaluateArguments(
+  args: Record<string, unknown> | undefined,
+  context: LiquidContext
+): Effect.Effect<Record<string, unknown>, LiquidRenderError> {
+  return Effect.gen(function* () {
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(args ?? {})) {
+      values[key] = yield* evaluate(value, context);
+    }
+    return values;
+  });
+}
+
+/**
+ * Items a `for` clause iterates: arrays as-is, a single value once.
+ */
+function collection(
+  context: LiquidContext,
+  path: string
+): Effect.Effect<readonly unknown[], LiquidRenderError> {
+  return lookup(context, path).pipe(
+    Effect.map((value) => {
+      if (Array.isArray(value)) {
+        return value;
+      }
+      return value === null || value === undefined ? [] : [value];
+    })
+  );
+}
+
+/**
+ * Variable name bound by `with`/`for` without `as`: the template's base name.
+ */
+function defaultAlias(template: string): string {
+  const base = template.split("/").pop() ?? template;
+  return base.replace(EXTENSION, "");
+}
+
+/**
+ * A template rendered by an include, render, layout or block tag, with the
+ * variables and scope it renders in.
+ */
+export interface RenderPart {
+  readonly nodes: readonly AstNode[];
+  readonly context: LiquidContext;
+  readonly scope: RenderScope;
+  /** Runs just before the nodes render, such as binding a loop item */
+  readonly before?: Effect.Effect<void, LiquidRenderError>;
+  /** Rendered for its side effects only; the output is dropped */
+  readonly silent?: boolean;
+}
+
+/**
+ * Nodes that render other templates or their blocks.
+ */
+export type CompositionNode = IncludeNode | RenderNode | LayoutNode | BlockNode;
+
+/**
+ * Parts of an include tag: {% include 'template' %}
+ * The partial shares the including template's variables, so arguments and
+ * assignments made inside it remain visible afterwards.
+ */
+function includeParts(
+  node: IncludeNode,
+  context: LiquidContext,
+  scope: RenderScope
+): Effect.Effect<readonly RenderPart[], LiquidRenderError> {
+  return Effect.gen(function* () {
+    const partial = yield* enter(scope, node.template);
+    const alias = node.alias ?? defaultAlias(node.template);
+    Object.assign(context, yield* evaluateArguments(node.with, context));
+
+    if (node.for !== undefined) {
+      const items = yield* collection(context, node.for);
+      return items.map((item) => ({
+        nodes: partial.ast,
+        context,
+        scope: partial.scope,
+        before: Effect.zipRight(
+          recordIteration(scope.state),
+          Effect.sync(() => {
+            context[alias] = item;
+          })
+        ),
+      }));
+    }
+
+    if (node.subject !== undefined) {
+      context[alias] = yield* evaluate(node.subject, context);
+    }
+    return [{ nodes: partial.ast, context, scope: partial.scope }];
+  });
+}
+
+/**
+ * Parts of a render tag: {% render 'template' %}
+ * The partial only sees its own arguments; nothing it assigns leaks out.
+ */
+function partialParts(
+  node: RenderNode,
+  context: LiquidContext,
+  scope: RenderScope
+): Effect.Effect<readonly RenderPart[], LiquidRenderError> {
+  return Effect.gen(function* () {
+    const partial = yield* enter(scope, node.template);
+    const isolated = { ...partial.scope, blocks: {} };
+    const alias = node.alias ?? defaultAlias(node.template);
+    const args = yield* evaluateArguments(node.with, context);
+
+    if (node.for !== undefined) {
+      const items = yield* collection(context, node.for);
+      return items.map((item, index) => ({
+        nodes: partial.ast,
+        context: {
+          ...args,
+          [alias]: item,
+          forloop: {
+            index: index + 1,
+            index0: index,
+            first: index === 0,
+            last: index === items.length - 1,
+            length: items.length,
+          },
+        },
+        scope: isolated,
+        before: recordIteration(scope.state),
+      }));
+    }
+
+    const partialContext: LiquidContext = { ...args };
+    if (node.subject !== undefined) {
+      partialContext[alias] = yield* evaluate(node.subject, context);
+    }
+    return [{ nodes: partial.ast, context: partialContext, scope: isolated }];
+  });
+}
+
+/**
+ * Collects the blocks defined in a template, including nested ones.
+ * The first definition of a name wins.
+ */
+function collectBlocks(
+  nodes: readonly AstNode[],
+  blocks: Record<string, readonly AstNode[]> = {}
+): Record<string, readonly AstNode[]> {
+  for (const node of nodes) {
+    if (node.type === "block") {
+      const block = node as BlockNode;
+      blocks[block.name] ??= block.body;
+      collectBlocks(block.body, blocks);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parts of a layout tag: {% layout 'template' %}
+ * Renders the layout with the blocks defined after the tag. Content outside
+ * blocks produces no output but runs for its side effects, such as assigns.
+ */
+function layoutParts(
+  node: LayoutNode,
+  context: LiquidContext,
+  scope: RenderScope
+): Effect.Effect<readonly RenderPart[], LiquidRenderError> {
+  return Effect.gen(function* () {
+    // A layout that is already in the chain would render forever
+    if (scope.layouts.includes(node.template)) {
+      return yield* Effect.fail(
+        new LiquidRenderError({
+          message: `Circular layout reference: ${[...scope.layouts, node.template].join(" -> ")}`,
+        })
+      );
+    }
+    const layout = yield* enter(scope, node.template);
+    const layouts = [...scope.layouts, node.template];
+    Object.assign(context, yield* evaluateArguments(node.with, context));
+
+    // Overrides from templates further down the chain take precedence
+    const blocks = { ...collectBlocks(node.body), ...scope.blocks };
+    return [
+      {
+        nodes: node.body.filter((child) => child.type !== "block"),
+        context,
+        scope,
+        silent: true,
+      },
+      {
+        nodes: layout.ast,
+        context,
+        scope: { ...layout.scope, layouts, blocks },
+      },
+    ];
+  });
+}
+
+/**
+ * Parts of a block tag: {% block name %}...{% endblock %}
+ * Renders the override supplied through a layout, or the block's own body.
+ */
+function blockParts(
+  node: BlockNode,
+  context: LiquidContext,
+  scope: RenderScope
+): readonly RenderPart[] {
+  const override = scope.blocks[node.name];
+  if (override === undefined) {
+    return [{ nodes: node.body, context, scope }];
+  }
+
+  // Drop the override while rendering it so a nested block of the same name
+  // falls back to its own body instead of recursing
+  const blocks = Object.fromEntries(
+    Object.entries(scope.blocks).filter(([name]) => name !== node.name)
+  );
+  return [{ nodes: override, context, scope: { ...scope, blocks } }];
+}
+
+/**
+ * Resolves the templates an include, render, layout or block tag renders,
+ * in output order. Loading and argument evaluation happen here; each part's
+ * `before` effect runs as it is rendered.
+ */
+export function compositionParts(
+  node: CompositionNode,
+  context: LiquidContext,
+  scope: RenderScope
+): Effect.Effect<readonly RenderPart[], LiquidRenderError> {
+  switch (node.type) {
+    case "include":
+      return includeParts(node, context, scope);
+    case "render":
+      return partialParts(node, context, scope);
+    case "layout":
+      return layoutParts(node, context, scope);
+    default:
+      return Effect.succeed(blockParts(node, context, scope));
+  }
+}
+
+/**
+ * Renders the parts of a composition tag one after another.
+ */
+export function renderParts(
+  parts: readonly RenderPart[],
+  render: RenderFn
+): Effect.Effect<string, LiquidRenderError> {
+  return Effect.gen(function* () {
+    let result = "";
+    for (const part of parts) {
+      if (part.before !== undefined) {
+        yield* part.before;
+      }
+      const output = yield* render(part.nodes, part.context, part.scope);
+      if (!part.silent) {
+        result += output;
+      }
+    }
+    return result;
+  });
+}
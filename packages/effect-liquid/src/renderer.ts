@@ -1,18 +1,57 @@
-import { Effect } from "effect";
-import type { AstNode, FilterNode } from "./ast.js";
+import { Effect, Stream } from "effect";
+import type { AstNode, FilterNode, TagNode } from "./ast.js";
 import { LiquidRenderError, LiquidTagError } from "./errors.js";
+import { evaluate } from "./expressions.js";
 import { builtInFilters } from "./filters.js";
-import { executeCase, tagExecutors } from "./tags.js";
+import {
+  type CompositionNode,
+  compositionParts,
+  makeRenderScope,
+  type RenderScope,
+  renderParts,
+} from "./partials.js";
+import {
+  checkRenderTime,
+  type RenderState,
+  recordIteration,
+  recordOutput,
+  takeInterrupt,
+} from "./state.js";
+import {
+  executeCase,
+  executeCycle,
+  forArguments,
+  forIterations,
+  splitElse,
+  tagExecutors,
+} from "./tags.js";
 import type { FilterFunction, LiquidContext } from "./types.js";
-import { resolveVariable, toString } from "./utils/context.js";
+import { hasVariable, resolveVariable, toString } from "./utils/context.js";
 
 /**
- * Applies filters to a value.
+ * Tag executor as called by the renderer.
+ */
+export type RendererTag = (
+  args: readonly unknown[],
+  body: readonly AstNode[],
+  context: LiquidContext,
+  render: (
+    nodes: readonly AstNode[],
+    ctx: LiquidContext
+  ) => Effect.Effect<string, LiquidRenderError>,
+  state: RenderState
+) => Effect.Effect<string, LiquidRenderError>;
+
+/**
+ * Applies filters to a value, evaluating their arguments against the
+ * context. Unknown filters are skipped unless strict filters are enabled.
  */
 function applyFilters(
   value: unknown,
   filters: readonly FilterNode[],
-  customFilters: Record<string, FilterFunction>
+  context: LiquidContext,
+  customFilters: Record<string, FilterFunction>,
+  state: RenderState
 ): Effect.Effect<unknown, LiquidRenderError> {
   return Effect.gen(function* () {
     let result = value;
@@ -22,6 +61,9 @@ function applyFilters(
         customFilters[filter.name] ?? builtInFilters[filter.name];
 
       if (!filterFn) {
+        if (!state.strictFilters) {
+          continue;
+        }
         return yield* Effect.fail(
           new LiquidRenderError({
             message: `Unknown filter: ${filter.name}`,
@@ -29,7 +71,11 @@ function applyFilters(
         );
       }
 
-      const filterResult = yield* filterFn(result, ...filter.args);
+      const args: unknown[] = [];
+      for (const arg of filter.args) {
+        args.push(yield* evaluate(arg, context));
+      }
+      const filterResult = yield* filterFn(result, ...args);
       result = filterResult;
     }
 
@@ -55,34 +101,40 @@ function renderNode(
   node: AstNode,
   context: LiquidContext,
   customFilters: Record<string, FilterFunction>,
-  customTags: Record<
-    string,
-    (
-      args: readonly unknown[],
-      body: readonly AstNode[],
-      context: LiquidContext,
-      render: (
-        nodes: readonly AstNode[],
-        ctx: LiquidContext
-      ) => Effect.Effect<string, LiquidRenderError>
-    ) => Effect.Effect<string, LiquidRenderError>
-  >
+  customTags: Record<string, RendererTag>,
+  scope: RenderScope
 ): Effect.Effect<string, LiquidRenderError> {
+  const renderWith = (
+    nodes: readonly AstNode[],
+    ctx: LiquidContext,
+    nextScope: RenderScope
+  ) => renderNodes(nodes, ctx, customFilters, customTags, nextScope);
+
   return Effect.gen(function* (): Generator<any, string, any> {
+    yield* checkRenderTime(scope.state);
+
     switch (node.type) {
       case "text": {
         const textNode = node as import("./ast.js").TextNode;
-        return textNode.value;
+        return yield* recordOutput(scope.state, textNode.value);
       }
 
       case "variable": {
         const varNode = node as import("./ast.js").VariableNode;
-        // Check if the name is a numeric literal
-        const numValue = Number.parseFloat(varNode.name);
         let value: unknown;
-        if (!Number.isNaN(numValue) && varNode.name === String(numValue)) {
-          // It's a numeric literal
-          value = numValue;
+        if (varNode.expression !== undefined) {
+          // A literal or range written in place of a variable
+          value = yield* evaluate(varNode.expression, context);
+        } else if (
+          scope.state.strictVariables &&
+          !hasVariable(context, varNode.name)
+        ) {
+          return yield* Effect.fail(
+            new LiquidRenderError({
+              message: `Undefined variable: ${varNode.name}`,
+              ...(node.position !== undefined && { position: node.position }),
+            })
+          );
         } else {
           // It's a variable name, resolve from context
           value = yield* resolveVariable(context, varNode.name).pipe(
@@ -96,9 +148,32 @@ function renderNode(
           );
         }
         const filtered = varNode.filters
-          ? yield* applyFilters(value, varNode.filters, customFilters)
+          ? yield* applyFilters(
+              value,
+              varNode.filters,
+              context,
+              customFilters,
+              scope.state
+            )
           : value;
-        return toString(filtered);
+        return yield* recordOutput(scope.state, toString(filtered));
+      }
+
+      case "cycle": {
+        const cycleNode = node as import("./ast.js").CycleNode;
+        const values: unknown[] = [];
+        for (const value of cycleNode.values) {
+          values.push(yield* evaluate(value, context));
+        }
+        // Unnamed cycles are grouped by their values as written
+        const key =
+          cycleNode.group === undefined
+            ? JSON.stringify(cycleNode.values)
+            : String(yield* evaluate(cycleNode.group, context));
+        return yield* recordOutput(
+          scope.state,
+          toString(executeCycle(key, values, scope.state))
+        );
       }
 
       case "tag": {
@@ -113,12 +188,30 @@ function renderNode(
           );
         }
 
+        // assign's filters apply to its value before it is stored
+        const args = tagNode.filters
+          ? [
+              tagNode.args[0],
+              {
+                type: "literal",
+                value: yield* applyFilters(
+                  yield* evaluate(tagNode.args[1], context),
+                  tagNode.filters,
+                  context,
+                  customFilters,
+                  scope.state
+                ),
+              },
+            ]
+          : tagNode.args;
+
         const result = yield* (tagFn as any)(
-          tagNode.args,
+          args,
           tagNode.body,
           context,
           (nodes: readonly AstNode[], ctx: LiquidContext) =>
-            renderNodes(nodes, ctx, customFilters, customTags)
+            renderNodes(nodes, ctx, customFilters, customTags, scope),
+          scope.state
         ).pipe(
           Effect.mapError((error: unknown) =>
             error instanceof LiquidTagError
@@ -172,7 +265,8 @@ function renderNode(
           forNode.body,
           context,
           (nodes: readonly AstNode[], ctx: LiquidContext) =>
-            renderNodes(nodes, ctx, customFilters, customTags)
+            renderNodes(nodes, ctx, customFilters, customTags, scope),
+          scope.state
         ).pipe(
           Effect.mapError((error: unknown) =>
             error instanceof LiquidTagError
@@ -198,7 +292,7 @@ function renderNode(
           caseNode.elseBody,
           context,
           (nodes, ctx) =>
-            renderNodes(nodes, ctx, customFilters, customTags).pipe(
+            renderNodes(nodes, ctx, customFilters, customTags, scope).pipe(
               Effect.mapError(
                 (error) =>
                   new LiquidTagError({
@@ -271,7 +365,7 @@ function renderNode(
           captureNode.body,
           context,
           (nodes: readonly AstNode[], ctx: LiquidContext) =>
-            renderNodes(nodes, ctx, customFilters, customTags)
+            renderNodes(nodes, ctx, customFilters, customTags, scope)
         ).pipe(
           Effect.mapError((error: unknown) =>
             error instanceof LiquidTagError
@@ -293,62 +387,16 @@ function renderNode(
         return "";
       }
 
-      case "include": {
-        const includeNode = node as import("./ast.js").IncludeNode;
-        const tagFn = customTags.include ?? tagExecutors.include;
-        if (!tagFn) {
-          return yield* Effect.fail(
-            new LiquidRenderError({
-              message: "Include tag executor not found",
-            })
-          );
-        }
-        return yield* (tagFn as any)([includeNode.template], [], context, () =>
-          Effect.succeed("")
-        ).pipe(
-          Effect.mapError((error: unknown) =>
-            error instanceof LiquidTagError
-              ? new LiquidRenderError({
-                  message: `Include error: ${error.message}`,
-                  cause: error,
-                })
-              : new LiquidRenderError({
-                  message: `Include error: ${
-                    error instanceof Error ? error.message : String(error)
-                  }`,
-                  cause: error,
-                })
-          )
-        );
-      }
-
-      case "render": {
-        const renderNode = node as import("./ast.js").RenderNode;
-        const tagFn = customTags.render ?? tagExecutors.render;
-        if (!tagFn) {
-          return yield* Effect.fail(
-            new LiquidRenderError({
-              message: "Render tag executor not found",
-            })
-          );
-        }
-        return yield* (tagFn as any)([renderNode.template], [], context, () =>
-          Effect.succeed("")
-        ).pipe(
-          Effect.mapError((error: unknown) =>
-            error instanceof LiquidTagError
-              ? new LiquidRenderError({
-                  message: `Render error: ${error.message}`,
-                  cause: error,
-                })
-              : new LiquidRenderError({
-                  message: `Render error: ${
-                    error instanceof Error ? error.message : String(error)
-                  }`,
-                  cause: error,
-                })
-          )
+      case "include":
+      case "render":
+      case "layout":
+      case "block": {
+        const parts = yield* compositionParts(
+          node as CompositionNode,
+          context,
+          scope
         );
+        return yield* renderParts(parts, renderWith);
       }
 
       default: {
@@ -381,26 +429,268 @@ export function renderNodes(
   nodes: readonly AstNode[],
   context: LiquidContext,
   customFilters: Record<string, FilterFunction> = {},
-  customTags: Record<
-    string,
-    (
-      args: readonly unknown[],
-      body: readonly AstNode[],
-      context: LiquidContext,
-      render: (
-        nodes: readonly AstNode[],
-        ctx: LiquidContext
-      ) => Effect.Effect<string, LiquidRenderError>
-    ) => Effect.Effect<string, LiquidRenderError>
-  > = {}
+  customTags: Record<string, RendererTag> = {},
+  scope: RenderScope = makeRenderScope()
 ): Effect.Effect<string, LiquidRenderError> {
   return Effect.gen(function* () {
     let result = "";
 
     for (const node of nodes) {
-      result += yield* renderNode(node, context, customFilters, customTags);
+      result += yield* renderNode(
+        node,
+        context,
+        customFilters,
+        customTags,
+        scope
+      );
+      // break and continue skip the rest of the enclosing loop body
+      if (scope.state.interrupt !== undefined) {
+        break;
+      }
     }
 
     return result;
   }) as Effect.Effect<string, LiquidRenderError>;
 }
+
+/**
+ * Built-in tags whose output is streamed as their body renders: for loops
+ * an iteration at a time, if, unless and case through the selected branch.
+ */
+export const STREAMED_TAGS: ReadonlySet<string> = new Set([
+  "for",
+  "if",
+  "unless",
+  "case",
+]);
+
+/**
+ * Whitespace control applies to a tag's whole output, so trimmed tags are
+ * rendered as one chunk.
+ */
+const isStreamable = (node: TagNode, streamedTags: ReadonlySet<string>) =>
+  streamedTags.has(node.name) && !node.trimLeft && !node.trimRight;
+
+const COMPOSITION_TYPES: ReadonlySet<string> = new Set([
+  "include",
+  "render",
+  "layout",
+  "block",
+]);
+
+const toRenderError = (node: AstNode, prefix: string) => (error: unknown) =>
+  error instanceof LiquidRenderError
+    ? error
+    : new LiquidRenderError({
+        message: `${prefix}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        ...(node.position !== undefined && { position: node.position }),
+        cause: error,
+      });
+
+/**
+ * Renders a for tag as a stream, one chunk sequence per iteration.
+ */
+function streamFor(
+  node: TagNode,
+  context: LiquidContext,
+  customFilters: Record<string, FilterFunction>,
+  customTags: Record<string, RendererTag>,
+  scope: RenderScope,
+  streamedTags: ReadonlySet<string>
+): Stream.Stream<string, LiquidRenderError> {
+  const { variable, collection, options } = forArguments(node.args, context);
+  const { body, elseBody } = splitElse(node.body);
+  let broken = false;
+
+  const iterations = forIterations(
+    variable,
+    collection,
+    options.limit,
+    options.offset,
+    options.reversed,
+    context,
+    scope.state
+  ).pipe(Effect.mapError(toRenderError(node, "For loop error")));
+
+  const iterate = (loopContext: LiquidContext) =>
+    Stream.suspend(() =>
+      broken
+        ? Stream.empty
+        : Stream.fromEffect(recordIteration(scope.state)).pipe(
+            Stream.drain,
+            Stream.concat(
+              streamNodes(
+                body,
+                loopContext,
+                customFilters,
+                customTags,
+                scope,
+                streamedTags
+              )
+            ),
+            Stream.concat(
+              Stream.fromEffect(
+                Effect.sync(() => {
+                  broken = takeInterrupt(scope.state) === "break";
+                })
+              ).pipe(Stream.drain)
+            )
+          )
+    );
+
+  return Stream.flatMap(Stream.fromEffect(iterations), (contexts) =>
+    contexts.length === 0 && elseBody
+      ? streamNodes(
+          elseBody,
+          context,
+          customFilters,
+          customTags,
+          scope,
+          streamedTags
+        )
+      : Stream.flatMap(Stream.fromIterable(contexts), iterate)
+  );
+}
+
+/**
+ * Renders an if, unless or case tag as a stream of the branch its
+ * conditions select. The built-in executor picks the branch; its body is
+ * then streamed instead of rendered.
+ */
+function streamBranch(
+  node: TagNode,
+  context: LiquidContext,
+  customFilters: Record<string, FilterFunction>,
+  customTags: Record<string, RendererTag>,
+  scope: RenderScope,
+  streamedTags: ReadonlySet<string>
+): Stream.Stream<string, LiquidRenderError> {
+  const executor = tagExecutors[node.name];
+  if (!executor) {
+    return Stream.fail(
+      new LiquidRenderError({ message: `Unknown tag: ${node.name}` })
+    );
+  }
+
+  const branches: { nodes: readonly AstNode[]; context: LiquidContext }[] = [];
+  const select = executor(
+    node.args,
+    node.body,
+    context,
+    (nodes, ctx) =>
+      Effect.sync(() => {
+        branches.push({ nodes, context: ctx });
+        return "";
+      }),
+    scope.state
+  ).pipe(Effect.mapError(toRenderError(node, "Tag error")));
+
+  return Stream.fromEffect(select).pipe(
+    Stream.drain,
+    Stream.concat(
+      Stream.suspend(() =>
+        Stream.fromIterable(branches).pipe(
+          Stream.flatMap((branch) =>
+            streamNodes(
+              branch.nodes,
+              branch.context,
+              customFilters,
+              customTags,
+              scope,
+              streamedTags
+            )
+          )
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Renders an include, render, layout or block tag as a stream of the
+ * templates it renders.
+ */
+function streamComposition(
+  node: CompositionNode,
+  context: LiquidContext,
+  customFilters: Record<string, FilterFunction>,
+  customTags: Record<string, RendererTag>,
+  scope: RenderScope,
+  streamedTags: ReadonlySet<string>
+): Stream.Stream<string, LiquidRenderError> {
+  return Stream.fromEffect(compositionParts(node, context, scope)).pipe(
+    Stream.flatMap(Stream.fromIterable),
+    Stream.flatMap((part) => {
+      const output = streamNodes(
+        part.nodes,
+        part.context,
+        customFilters,
+        customTags,
+        part.scope,
+        streamedTags
+      );
+      return Stream.fromEffect(part.before ?? Effect.void).pipe(
+        Stream.drain,
+        Stream.concat(part.silent ? Stream.drain(output) : output)
+      );
+    })
+  );
+}
+
+/**
+ * Renders a sequence of AST nodes as a stream of output chunks, emitting
+ * each node's output as soon as it is rendered. The bodies of the tags in
+ * `streamedTags` and of include, render, layout and block tags are streamed
+ * node by node; leave out tags that have been replaced by custom tags.
+ * Other tags, such as capture and tablerow, are emitted as one chunk.
+ */
+export function streamNodes(
+  nodes: readonly AstNode[],
+  context: LiquidContext,
+  customFilters: Record<string, FilterFunction> = {},
+  customTags: Record<string, RendererTag> = {},
+  scope: RenderScope = makeRenderScope(),
+  streamedTags: ReadonlySet<string> = STREAMED_TAGS
+): Stream.Stream<string, LiquidRenderError> {
+  const streamNode = (
+    node: AstNode
+  ): Stream.Stream<string, LiquidRenderError> => {
+    if (node.type === "tag" && isStreamable(node as TagNode, streamedTags)) {
+      const stream =
+        (node as TagNode).name === "for" ? streamFor : streamBranch;
+      return stream(
+        node as TagNode,
+        context,
+        customFilters,
+        customTags,
+        scope,
+        streamedTags
+      );
+    }
+    if (COMPOSITION_TYPES.has(node.type)) {
+      return streamComposition(
+        node as CompositionNode,
+        context,
+        customFilters,
+        customTags,
+        scope,
+        streamedTags
+      );
+    }
+    return Stream.fromEffect(
+      renderNode(node, context, customFilters, customTags, scope)
+    );
+  };
+
+  return Stream.fromIterable(nodes).pipe(
+    Stream.flatMap((node) =>
+      Stream.suspend(() =>
+        // break and continue skip the rest of the enclosing loop body
+        scope.state.interrupt === undefined ? streamNode(node) : Stream.empty
+      )
+    ),
+    Stream.filter((chunk) => chunk.length > 0)
+  );
+}
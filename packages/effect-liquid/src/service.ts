@@ -1,4 +1,5 @@
-import { Effect, Ref } from "effect";
+import { Effect, Ref, type Schema, Stream } from "effect";
+import { analyzeTemplate, checkAnalysis } from "./analyzer.js";
 import type { AstNode } from "./ast.js";
 import type {
   LiquidContext,
@@ -6,14 +7,24 @@ import type {
   LiquidTemplate,
   FilterFunction,
   TagFunction,
+  TemplateAnalysis,
 } from "./types.js";
 import {
   LiquidParseError,
   LiquidRenderError,
+  LiquidSchemaError,
   LiquidTagError,
 } from "./errors.js";
+import { makeTemplateCache, TemplateLoader } from "./loader.js";
 import { parseTemplate } from "./parser.js";
-import { renderNodes } from "./renderer.js";
+import { makeRenderScope } from "./partials.js";
+import {
+  type RendererTag,
+  renderNodes,
+  STREAMED_TAGS,
+  streamNodes,
+} from "./renderer.js";
+import { makeRenderState } from "./state.js";
 import { tagExecutors } from "./tags.js";
 
 export interface LiquidServiceSchema {
@@ -22,15 +33,33 @@ export interface LiquidServiceSchema {
   ) => Effect.Effect<readonly AstNode[], LiquidParseError>;
   readonly render: (
     template: string,
-    context: LiquidContext
+    context: LiquidContext,
+    options?: LiquidOptions
   ) => Effect.Effect<string, LiquidParseError | LiquidRenderError>;
   readonly compile: (
     template: string
   ) => Effect.Effect<LiquidTemplate, LiquidParseError>;
   readonly renderCompiled: (
     compiled: LiquidTemplate,
-    context: LiquidContext
+    context: LiquidContext,
+    options?: LiquidOptions
   ) => Effect.Effect<string, LiquidRenderError>;
+  /**
+   * Renders a compiled template as a stream of output chunks, emitted as
+   * nodes (and for loop iterations) finish rendering.
+   */
+  readonly renderStream: (
+    compiled: LiquidTemplate,
+    context: LiquidContext,
+    options?: LiquidOptions
+  ) => Stream.Stream<string, LiquidRenderError>;
+  readonly analyze: (
+    template: string
+  ) => Effect.Effect<TemplateAnalysis, LiquidParseError>;
+  readonly checkTemplate: (
+    template: string,
+    schema: Schema.Schema.Any
+  ) => Effect.Effect<TemplateAnalysis, LiquidParseError | LiquidSchemaError>;
   readonly registerFilter: (
     name: string,
     fn: FilterFunction
@@ -39,14 +68,21 @@ export interface LiquidServiceSchema {
     name: string,
     fn: TagFunction
   ) => Effect.Effect<void, never>;
+  /**
+   * Drops a cached partial or layout (or every cached template when no name
+   * is given) so that it is reloaded from the TemplateLoader.
+   */
+  readonly clearTemplateCache: (name?: string) => Effect.Effect<void, never>;
 }
 
 export class LiquidService extends Effect.Service<LiquidServiceSchema>()(
   "LiquidService",
   {
     accessors: true,
-    dependencies: [],
+    dependencies: [TemplateLoader.Default],
     effect: Effect.gen(function* () {
+      const loader = yield* TemplateLoader;
+      const templateCache = yield* makeTemplateCache(loader);
       const customFiltersRef = yield* Ref.make<Record<string, FilterFunction>>(
         {}
       );
@@ -54,69 +90,19 @@ export class LiquidService extends Effect.Service<LiquidServiceSchema>()(
 
       const parse = (template: string) => parseTemplate(template);
 
-      const render = (template: string, context: LiquidContext) =>
-        Effect.gen(function* () {
-          const ast = yield* parseTemplate(template);
-          const customFilters = yield* Ref.get(customFiltersRef);
-          const customTags = yield* Ref.get(customTagsRef);
-          // Convert custom tags to match renderer signature
-          const rendererTags: Record<
-            string,
-            (
-              args: readonly unknown[],
-              body: readonly AstNode[],
-              context: LiquidContext,
-              render: (
-                nodes: readonly AstNode[],
-                ctx: LiquidContext
-              ) => Effect.Effect<string, LiquidRenderError>
-            ) => Effect.Effect<string, LiquidRenderError>
-          > = {};
-          for (const [name, fn] of Object.entries(customTags)) {
-            rendererTags[name] = (args, body, ctx, renderFn) =>
-              (
-                fn(
-                  args,
-                  body,
-                  ctx,
-                  (nodes, renderCtx) =>
-                    renderFn(nodes, renderCtx).pipe(
-                      Effect.mapError(
-                        (error) =>
-                          new LiquidTagError({
-                            message: `Render error: ${error instanceof Error ? error.message : String(error)}`,
-                            tagName: name,
-                            cause: error,
-                          })
-                      )
-                    ) as any
-                ) as Effect.Effect<string, LiquidTagError>
-              ).pipe(
-                Effect.mapError(
-                  (error) =>
-                    new LiquidRenderError({
-                      message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
-                      cause: error,
-                    })
-                )
-              );
-          }
-          // Wrap tagExecutors to return LiquidRenderError
-          const wrappedTagExecutors: Record<
-            string,
-            (
-              args: readonly unknown[],
-              body: readonly AstNode[],
-              context: LiquidContext,
-              render: (
-                nodes: readonly AstNode[],
-                ctx: LiquidContext
-              ) => Effect.Effect<string, LiquidRenderError>
-            ) => Effect.Effect<string, LiquidRenderError>
-          > = {};
-          for (const [name, fn] of Object.entries(tagExecutors)) {
-            wrappedTagExecutors[name] = (args, body, ctx, renderFn) =>
-              fn(args, body, ctx, (nodes, renderCtx) =>
+      /**
+       * Built-in and custom tags adapted to the renderer; custom tags take
+       * precedence.
+       */
+      const rendererTags = (customTags: Record<string, TagFunction>) => {
+        const tags: Record<string, RendererTag> = {};
+        for (const [name, fn] of Object.entries(tagExecutors)) {
+          tags[name] = (args, body, ctx, renderFn, state) =>
+            fn(
+              args,
+              body,
+              ctx,
+              (nodes, renderCtx) =>
                 renderFn(nodes, renderCtx).pipe(
                   Effect.mapError(
                     (error) =>
@@ -126,23 +112,81 @@ export class LiquidService extends Effect.Service<LiquidServiceSchema>()(
                         cause: error,
                       })
                   )
-                )
-              ).pipe(
-                Effect.mapError(
-                  (error) =>
-                    new LiquidRenderError({
-                      message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
-                      cause: error,
-                    })
-                )
-              );
-          }
-          return yield* renderNodes(ast, context, customFilters, {
-            ...wrappedTagExecutors,
-            ...rendererTags,
-          });
+                ),
+              state
+            ).pipe(
+              Effect.mapError(
+                (error) =>
+                  new LiquidRenderError({
+                    message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
+                    cause: error,
+                  })
+              )
+            );
+        }
+        for (const [name, fn] of Object.entries(customTags)) {
+          tags[name] = (args, body, ctx, renderFn) =>
+            (
+              fn(
+                args,
+                body,
+                ctx,
+                (nodes, renderCtx) =>
+                  renderFn(nodes, renderCtx).pipe(
+                    Effect.mapError(
+                      (error) =>
+                        new LiquidTagError({
+                          message: `Render error: ${error instanceof Error ? error.message : String(error)}`,
+                          tagName: name,
+                          cause: error,
+                        })
+                    )
+                  ) as any
+              ) as Effect.Effect<string, LiquidTagError>
+            ).pipe(
+              Effect.mapError(
+                (error) =>
+                  new LiquidRenderError({
+                    message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
+                    cause: error,
+                  })
+              )
+            );
+        }
+        return tags;
+      };
+
+      const renderAst = (
+        ast: readonly AstNode[],
+        context: LiquidContext,
+        options: LiquidOptions = {}
+      ) =>
+        Effect.gen(function* () {
+          const customFilters = yield* Ref.get(customFiltersRef);
+          const customTags = yield* Ref.get(customTagsRef);
+          const state = makeRenderState(options, context);
+          return yield* renderNodes(
+            ast,
+            context,
+            { ...customFilters, ...options.customFilters },
+            rendererTags({ ...customTags, ...options.customTags }),
+            makeRenderScope(templateCache.get, state)
+          ).pipe(
+            // Limit violations are reported as raised, not wrapped by the
+            // tags they surfaced through
+            Effect.mapError((error) => state.exceeded ?? error)
+          );
         });
 
+      const render = (
+        template: string,
+        context: LiquidContext,
+        options?: LiquidOptions
+      ) =>
+        Effect.flatMap(parseTemplate(template), (ast) =>
+          renderAst(ast, context, options)
+        );
+
       const compile = (template: string) =>
         Effect.gen(function* () {
           const ast = yield* parseTemplate(template);
@@ -154,96 +198,45 @@ export class LiquidService extends Effect.Service<LiquidServiceSchema>()(
 
       const renderCompiled = (
         compiled: LiquidTemplate,
-        context: LiquidContext
+        context: LiquidContext,
+        options?: LiquidOptions
+      ) => renderAst(compiled.ast, context, options);
+
+      const renderStream = (
+        compiled: LiquidTemplate,
+        context: LiquidContext,
+        options: LiquidOptions = {}
       ) =>
-        Effect.gen(function* () {
-          const customFilters = yield* Ref.get(customFiltersRef);
-          const customTags = yield* Ref.get(customTagsRef);
-          // Convert custom tags to match renderer signature
-          const rendererTags: Record<
-            string,
-            (
-              args: readonly unknown[],
-              body: readonly AstNode[],
-              context: LiquidContext,
-              render: (
-                nodes: readonly AstNode[],
-                ctx: LiquidContext
-              ) => Effect.Effect<string, LiquidRenderError>
-            ) => Effect.Effect<string, LiquidRenderError>
-          > = {};
-          for (const [name, fn] of Object.entries(customTags)) {
-            rendererTags[name] = (args, body, ctx, renderFn) =>
-              (
-                fn(
-                  args,
-                  body,
-                  ctx,
-                  (nodes, renderCtx) =>
-                    renderFn(nodes, renderCtx).pipe(
-                      Effect.mapError(
-                        (error) =>
-                          new LiquidTagError({
-                            message: `Render error: ${error instanceof Error ? error.message : String(error)}`,
-                            tagName: name,
-                            cause: error,
-                          })
-                      )
-                    ) as any
-                ) as Effect.Effect<string, LiquidTagError>
-              ).pipe(
-                Effect.mapError(
-                  (error) =>
-                    new LiquidRenderError({
-                      message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
-                      cause: error,
-                    })
+        Stream.unwrap(
+          Effect.gen(function* () {
+            const customFilters = yield* Ref.get(customFiltersRef);
+            const customTags = {
+              ...(yield* Ref.get(customTagsRef)),
+              ...options.customTags,
+            };
+            const state = makeRenderState(options, context);
+            return streamNodes(
+              compiled.ast,
+              context,
+              { ...customFilters, ...options.customFilters },
+              rendererTags(customTags),
+              makeRenderScope(templateCache.get, state),
+              new Set(
+                [...STREAMED_TAGS].filter(
+                  (name) => customTags[name] === undefined
                 )
-              );
-          }
-          // Wrap tagExecutors to return LiquidRenderError
-          const wrappedTagExecutors: Record<
-            string,
-            (
-              args: readonly unknown[],
-              body: readonly AstNode[],
-              context: LiquidContext,
-              render: (
-                nodes: readonly AstNode[],
-                ctx: LiquidContext
-              ) => Effect.Effect<string, LiquidRenderError>
-            ) => Effect.Effect<string, LiquidRenderError>
-          > = {};
-          for (const [name, fn] of Object.entries(tagExecutors)) {
-            wrappedTagExecutors[name] = (args, body, ctx, renderFn) =>
-              fn(args, body, ctx, (nodes, renderCtx) =>
-                renderFn(nodes, renderCtx).pipe(
-                  Effect.mapError(
-                    (error) =>
-                      new LiquidTagError({
-                        message: `Render error: ${error instanceof Error ? error.message : String(error)}`,
-                        tagName: name,
-                        cause: error,
-                      })
-                  )
-                )
-              ).pipe(
-                Effect.mapError(
-                  (error) =>
-                    new LiquidRenderError({
-                      message: `Tag error: ${error instanceof Error ? error.message : String(error)}`,
-                      cause: error,
-                    })
-                )
-              );
-          }
-          return yield* renderNodes(
-            compiled.ast as readonly AstNode[],
-            context,
-            customFilters,
-            { ...wrappedTagExecutors, ...rendererTags }
-          );
-        });
+              )
+            ).pipe(Stream.mapError((error) => state.exceeded ?? error));
+          })
+        );
+
+      const analyze = (template: string) =>
+        Effect.map(parseTemplate(template), analyzeTemplate);
+
+      const checkTemplate = (template: string, schema: Schema.Schema.Any) =>
+        Effect.flatMap(analyze(template), (analysis) =>
+          checkAnalysis(analysis, schema)
+        );
 
       const registerFilter = (name: string, fn: FilterFunction) =>
         Effect.gen(function* () {
@@ -261,13 +254,20 @@ export class LiquidService extends Effect.Service<LiquidServiceSchema>()(
           }));
         });
 
+      const clearTemplateCache = (name?: string) =>
+        templateCache.invalidate(name);
+
       return {
         parse,
         render,
         compile,
         renderCompiled,
+        renderStream,
+        analyze,
+        checkTemplate,
         registerFilter,
         registerTag,
+        clearTemplateCache,
       };
     }),
   }
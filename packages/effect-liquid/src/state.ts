@@ -0,0 +1,135 @@
+import { Clock, Duration, Effect } from "effect";
+import { LiquidRenderError } from "./errors.js";
+import type { LiquidContext, LiquidOptions } from "./types.js";
+
+/**
+ * Signal left by break and continue for the innermost enclosing loop.
+ */
+export type LoopInterrupt = "break" | "continue";
+
+/**
+ * Mutable state shared by every node of a single render, partials included.
+ */
+export interface RenderState {
+  readonly strictVariables: boolean;
+  readonly strictFilters: boolean;
+  readonly maxRenderTime: Duration.Duration | undefined;
+  readonly maxOutputSize: number | undefined;
+  readonly maxLoopIterations: number | undefined;
+  /** Variables passed to the render; they seed increment and decrement */
+  readonly environment: LiquidContext;
+  /** Counters of increment and decrement, kept apart from variables */
+  readonly counters: Map<string, number>;
+  /** Next value index of each cycle group */
+  readonly cycles: Map<string, number>;
+  startedAt: number | undefined;
+  output: number;
+  iterations: number;
+  interrupt: LoopInterrupt | undefined;
+  /** Limit violation that ended the render */
+  exceeded: LiquidRenderError | undefined;
+}
+
+/**
+ * Creates the state for one render.
+ */
+export const makeRenderState = (
+  options: LiquidOptions = {},
+  environment: LiquidContext = {}
+): RenderState => ({
+  strictVariables: options.strictVariables ?? options.strict ?? false,
+  strictFilters: options.strictFilters ?? options.strict ?? false,
+  maxRenderTime:
+    options.limits?.maxRenderTime === undefined
+      ? undefined
+      : Duration.decode(options.limits.maxRenderTime),
+  maxOutputSize: options.limits?.maxOutputSize,
+  maxLoopIterations: options.limits?.maxLoopIterations,
+  environment: { ...environment },
+  counters: new Map(),
+  cycles: new Map(),
+  startedAt: undefined,
+  output: 0,
+  iterations: 0,
+  interrupt: undefined,
+  exceeded: undefined,
+});
+
+/**
+ * Records a limit violation so that it is reported as is, rather than
+ * wrapped by the tags it surfaced through.
+ */
+function exceed(
+  state: RenderState,
+  message: string
+): Effect.Effect<never, LiquidRenderError> {
+  const error = new LiquidRenderError({ message });
+  state.exceeded = error;
+  return Effect.fail(error);
+}
+
+/**
+ * Fails once the render has run longer than maxRenderTime.
+ */
+export const checkRenderTime = (
+  state: RenderState
+): Effect.Effect<void, LiquidRenderError> => {
+  const limit = state.maxRenderTime;
+  if (limit === undefined) {
+    return Effect.void;
+  }
+
+  return Effect.flatMap(Clock.currentTimeMillis, (now) => {
+    state.startedAt ??= now;
+    return now - state.startedAt > Duration.toMillis(limit)
+      ? exceed(
+          state,
+          `Render exceeded the time limit of ${Duration.format(limit)}`
+        )
+      : Effect.void;
+  });
+};
+
+/**
+ * Counts output towards maxOutputSize and passes it through.
+ */
+export const recordOutput = (
+  state: RenderState,
+  output: string
+): Effect.Effect<string, LiquidRenderError> => {
+  state.output += output.length;
+  return state.maxOutputSize !== undefined && state.output > state.maxOutputSize
+    ? exceed(
+        state,
+        `Render output exceeded the limit of ${state.maxOutputSize} characters`
+      )
+    : Effect.succeed(output);
+};
+
+/**
+ * Counts a loop iteration towards maxLoopIterations, also checking the
+ * render time so that loops with empty bodies are bounded too.
+ */
+export const recordIteration = (
+  state: RenderState
+): Effect.Effect<void, LiquidRenderError> => {
+  state.iterations++;
+  return state.maxLoopIterations !== undefined &&
+    state.iterations > state.maxLoopIterations
+    ? exceed(
+        state,
+        `Render exceeded the limit of ${state.maxLoopIterations} loop iterations`
+      )
+    : checkRenderTime(state);
+};
+
+/**
+ * Takes the break or continue left by a loop body, if any.
+ */
+export const takeInterrupt = (
+  state: RenderState
+): LoopInterrupt | undefined => {
+  const interrupt = state.interrupt;
+  state.interrupt = undefined;
+  return interrupt;
+};
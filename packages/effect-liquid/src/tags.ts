@@ -1,10 +1,27 @@
 import { Effect } from "effect";
-import type { AstNode } from "./ast.js";
+import type { ArgumentExpression, AstNode } from "./ast.js";
 import { LiquidTagError } from "./errors.js";
+import { evaluate, isExpression } from "./expressions.js";
+import {
+  makeRenderState,
+  type RenderState,
+  recordIteration,
+  takeInterrupt,
+} from "./state.js";
 import type { LiquidContext } from "./types.js";
-import { resolveVariable } from "./utils/context.js";
+import { hasVariable, resolveVariable } from "./utils/context.js";
 import { isTruthy } from "./utils/helpers.js";
 
+/**
+ * Options written after the collection of a for or tablerow tag.
+ */
+export interface LoopOptions {
+  limit?: number;
+  offset?: number;
+  cols?: number;
+  reversed?: boolean;
+}
+
 /**
  * Resolves a condition value from context if it's a string path.
  */
@@ -20,6 +37,132 @@ function resolveCondition(condition: unknown, context: LiquidContext): unknown {
   return condition;
 }
 
+/**
+ * Evaluates a parsed tag argument; plain values are passed through.
+ */
+function evaluateArgument(
+  tagName: string,
+  argument: unknown,
+  context: LiquidContext
+): Effect.Effect<unknown, LiquidTagError> {
+  return evaluate(argument, context).pipe(
+    Effect.mapError(
+      (error) =>
+        new LiquidTagError({ message: error.message, tagName, cause: error })
+    )
+  );
+}
+
+/**
+ * Evaluates the condition of an if, elsif, unless or case tag. Plain
+ * strings are resolved as variables, falling back to the string itself.
+ */
+function evaluateCondition(
+  tagName: string,
+  condition: unknown,
+  context: LiquidContext
+): Effect.Effect<unknown, LiquidTagError> {
+  return isExpression(condition)
+    ? evaluateArgument(tagName, condition, context)
+    : Effect.succeed(resolveCondition(condition, context));
+}
+
+/**
+ * Reads `limit: n`, `offset: n`, `cols: n` and `reversed` from the
+ * arguments following a loop's collection.
+ */
+function loopOptions(
+  args: readonly unknown[],
+  context: LiquidContext
+): LoopOptions {
+  const options: LoopOptions = {};
+  for (let i = 0; i < args.length; i++) {
+    const name = args[i];
+    if (name === "reversed") {
+      options.reversed = true;
+    } else if (name === "limit" || name === "offset" || name === "cols") {
+      i++;
+      const value = Number(resolveCondition(args[i], context));
+      if (!Number.isNaN(value)) {
+        options[name] = value;
+      }
+    }
+  }
+  return options;
+}
+
+/**
+ * Collection of a for or tablerow tag: a variable path or a range.
+ */
+export type LoopCollection = string | ArgumentExpression;
+
+function loopCollection(argument: unknown): LoopCollection {
+  if (typeof argument === "string") {
+    return argument;
+  }
+  return isExpression(argument) && argument.type === "range" ? argument : "";
+}
+
+/**
+ * Reads the arguments of a for tag: item in collection [limit: n]
+ * [offset: n] [reversed]
+ */
+export function forArguments(
+  args: readonly unknown[],
+  context: LiquidContext
+): {
+  variable: string;
+  collection: LoopCollection;
+  options: LoopOptions;
+} {
+  return {
+    variable: typeof args[0] === "string" ? args[0] : "",
+    collection: loopCollection(args[2]),
+    options: loopOptions(args.slice(3), context),
+  };
+}
+
+/**
+ * Resolves the collection of a loop, failing on undefined collections when
+ * strict variables are enabled.
+ */
+function resolveCollection(
+  tagName: string,
+  collection: LoopCollection,
+  context: LiquidContext,
+  state: RenderState
+): Effect.Effect<unknown, unknown> {
+  if (typeof collection !== "string") {
+    return evaluateArgument(tagName, collection, context);
+  }
+  if (state.strictVariables && !hasVariable(context, collection)) {
+    return Effect.fail(
+      new LiquidTagError({
+        message: `Undefined variable: ${collection}`,
+        tagName,
+      })
+    );
+  }
+  return resolveVariable(context, collection);
+}
+
+/**
+ * Splits the body of a for or unless tag at its else tag.
+ */
+export function splitElse(body: readonly AstNode[]): {
+  body: readonly AstNode[];
+  elseBody: readonly AstNode[] | undefined;
+} {
+  const index = body.findIndex(
+    (node) =>
+      node.type === "tag" &&
+      (node as import("./ast.js").TagNode).name === "else"
+  );
+  return index === -1
+    ? { body, elseBody: undefined }
+    : { body: body.slice(0, index), elseBody: body.slice(index + 1) };
+}
+
 /**
  * Executes an if tag: {% if condition %}...{% endif %}
  */
@@ -56,7 +199,7 @@ export function executeIf(
 }
 
 /**
- * Executes an unless tag: {% unless condition %}...{% endunless %}
+ * Executes an unless tag: {% unless condition %}...{% else %}...{% endunless %}
  */
 export function executeUnless(
   condition: unknown,
@@ -67,20 +210,71 @@ export function executeUnless(
     ctx: LiquidContext
   ) => Effect.Effect<string, LiquidTagError>
 ): Effect.Effect<string, LiquidTagError> {
+  const branches = splitElse(body);
   return Effect.gen(function* () {
     if (!isTruthy(condition)) {
-      return yield* render(body, context);
+      return yield* render(branches.body, context);
+    }
+    if (branches.elseBody) {
+      return yield* render(branches.elseBody, context);
     }
     return "";
   });
 }
 
 /**
- * Executes a for loop: {% for item in items %}...{% endfor %}
+ * Resolves the collection of a for loop and builds the context of each
+ * iteration, including its forloop variable.
+ */
+export function forIterations(
+  variable: string,
+  collection: LoopCollection,
+  limit: number | undefined,
+  offset: number | undefined,
+  reversed: boolean | undefined,
+  context: LiquidContext,
+  state: RenderState
+): Effect.Effect<LiquidContext[], unknown> {
+  return Effect.map(
+    resolveCollection("for", collection, context, state),
+    (collectionValue) => {
+      if (!Array.isArray(collectionValue)) {
+        return [];
+      }
+
+      let items = [...collectionValue];
+      if (reversed) {
+        items = items.reverse();
+      }
+      if (offset !== undefined) {
+        items = items.slice(offset);
+      }
+      if (limit !== undefined) {
+        items = items.slice(0, limit);
+      }
+
+      return items.map((item, i) => ({
+        ...context,
+        [variable]: item,
+        forloop: {
+          index: i + 1,
+          index0: i,
+          first: i === 0,
+          last: i === items.length - 1,
+          length: items.length,
+        },
+      }));
+    }
+  );
+}
+
+/**
+ * Executes a for loop: {% for item in items %}...{% else %}...{% endfor %}
+ * The else branch renders when there is nothing to iterate.
  */
 export function executeFor(
   variable: string,
-  collection: string,
+  collection: LoopCollection,
   body: readonly AstNode[],
   limit: number | undefined,
   offset: number | undefined,
@@ -89,61 +283,173 @@ export function executeFor(
   render: (
     nodes: readonly AstNode[],
     ctx: LiquidContext
-  ) => Effect.Effect<string, LiquidTagError>
+  ) => Effect.Effect<string, LiquidTagError>,
+  state: RenderState = makeRenderState()
 ): Effect.Effect<string, LiquidTagError> {
   return Effect.gen(function* () {
-    const collectionValue = yield* resolveVariable(context, collection);
+    const iterations = yield* forIterations(
+      variable,
+      collection,
+      limit,
+      offset,
+      reversed,
+      context,
+      state
+    );
 
-    if (!Array.isArray(collectionValue)) {
-      return "";
+    const branches = splitElse(body);
+    if (iterations.length === 0 && branches.elseBody) {
+      return yield* render(branches.elseBody, context);
     }
 
-    let items = [...collectionValue];
-    if (reversed) {
-      items = items.reverse();
-    }
-    if (offset !== undefined) {
-      items = items.slice(offset);
-    }
-    if (limit !== undefined) {
-      items = items.slice(0, limit);
+    let result = "";
+    for (const loopContext of iterations) {
+      yield* recordIteration(state);
+      result += yield* render(branches.body, loopContext);
+      if (takeInterrupt(state) === "break") {
+        break;
+      }
     }
 
-    let result = "";
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      const forloop = {
-        index: i + 1,
-        index0: i,
-        first: i === 0,
-        last: i === items.length - 1,
-        length: items.length,
-      };
-
-      const loopContext = {
+    return result;
+  }).pipe(
+    Effect.mapError(
+      (error) =>
+        new LiquidTagError({
+          message: `For loop error: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          tagName: "for",
+          cause: error,
+        })
+    )
+  );
+}
+
+/**
+ * Builds the tablerowloop variable for the item at `index`.
+ */
+function makeTablerowLoop(index: number, length: number, cols: number) {
+  const col0 = cols > 0 ? index % cols : index;
+  return {
+    index: index + 1,
+    index0: index,
+    rindex: length - index,
+    rindex0: length - index - 1,
+    first: index === 0,
+    last: index === length - 1,
+    length,
+    col: col0 + 1,
+    col0,
+    col_first: col0 === 0,
+    col_last: col0 + 1 === cols,
+    row: cols > 0 ? Math.floor(index / cols) + 1 : 1,
+  };
+}
+
+/**
+ * Executes a tablerow loop: {% tablerow item in items cols: 2 %}
+ * Wraps each item in a <td>, starting a new <tr> every `cols` items.
+ */
+export function executeTablerow(
+  variable: string,
+  collection: LoopCollection,
+  body: readonly AstNode[],
+  options: LoopOptions,
+  context: LiquidContext,
+  render: (
+    nodes: readonly AstNode[],
+    ctx: LiquidContext
+  ) => Effect.Effect<string, LiquidTagError>,
+  state: RenderState = makeRenderState()
+): Effect.Effect<string, LiquidTagError> {
+  return Effect.gen(function* () {
+    const collectionValue = yield* resolveCollection(
+      "tablerow",
+      collection,
+      context,
+      state
+    );
+    const all = Array.isArray(collectionValue) ? collectionValue : [];
+    const offset = options.offset ?? 0;
+    const items = all.slice(
+      offset,
+      options.limit === undefined ? undefined : offset + options.limit
+    );
+    const cols = options.cols ?? 0;
+
+    let result = '<tr class="row1">\n';
+    for (const [index, item] of items.entries()) {
+      yield* recordIteration(state);
+      const tablerowloop = makeTablerowLoop(index, items.length, cols);
+
+      result += `<td class="col${tablerowloop.col}">`;
+      result += yield* render(body, {
         ...context,
         [variable]: item,
-        forloop,
-      };
+        tablerowloop,
+      });
+      result += "</td>";
 
-      result += yield* render(body, loopContext);
+      if (takeInterrupt(state) === "break") {
+        break;
+      }
+      if (tablerowloop.col_last && !tablerowloop.last) {
+        result += `</tr>\n<tr class="row${tablerowloop.row + 1}">`;
+      }
     }
 
-    return result;
+    return `${result}</tr>\n`;
   }).pipe(
     Effect.mapError(
       (error) =>
         new LiquidTagError({
-          message: `For loop error: ${
+          message: `Tablerow error: ${
             error instanceof Error ? error.message : String(error)
           }`,
-          tagName: "for",
+          tagName: "tablerow",
           cause: error,
         })
     )
   );
 }
 
+/**
+ * Executes an increment or decrement tag: {% increment counter %}
+ * increment outputs the counter and then adds one; decrement subtracts one
+ * and then outputs it. Counters start at the numeric render variable of
+ * the same name, or 0, and are not affected by assign. The counter's new
+ * value is bound in the context, so `{{ counter }}` reads it.
+ */
+export function executeCounter(
+  name: string,
+  step: 1 | -1,
+  context: LiquidContext,
+  state: RenderState
+): Effect.Effect<string, LiquidTagError> {
+  const initial = state.environment[name];
+  const current =
+    state.counters.get(name) ?? (typeof initial === "number" ? initial : 0);
+  const next = current + step;
+  state.counters.set(name, next);
+  (context as Record<string, unknown>)[name] = next;
+  return Effect.succeed(String(step > 0 ? current : next));
+}
+
+/**
+ * Executes a cycle tag: {% cycle 'a', 'b' %}
+ * Returns the next of the values for the cycle group identified by key.
+ */
+export function executeCycle(
+  key: string,
+  values: readonly unknown[],
+  state: RenderState
+): unknown {
+  const index = (state.cycles.get(key) ?? 0) % values.length;
+  state.cycles.set(key, index + 1);
+  return values[index];
+}
+
 /**
  * Executes a case statement: {% case value %}...{% endcase %}
  */
@@ -235,43 +541,6 @@ export function executeComment(): Effect.Effect<string, LiquidTagError> {
   return Effect.succeed("");
 }
 
-/**
- * Executes an include tag: {% include 'template' %}
- * Note: This is a placeholder - full implementation would require template loading
- */
-export function executeInclude(
-  template: string,
-  withContext: LiquidContext | undefined,
-  forContext: string | undefined,
-  context: LiquidContext
-): Effect.Effect<string, LiquidTagError> {
-  // Placeholder - would need template loading mechanism
-  return Effect.fail(
-    new LiquidTagError({
-      message: "Include tag not yet implemented",
-      tagName: "include",
-    })
-  );
-}
-
-/**
- * Executes a render tag: {% render 'template' %}
- * Note: This is a placeholder - full implementation would require template loading
- */
-export function executeRender(
-  template: string,
-  withContext: LiquidContext | undefined,
-  context: LiquidContext
-): Effect.Effect<string, LiquidTagError> {
-  // Placeholder - would need template loading mechanism
-  return Effect.fail(
-    new LiquidTagError({
-      message: "Render tag not yet implemented",
-      tagName: "render",
-    })
-  );
-}
-
 /**
  * Registry of tag execution functions.
  */
@@ -284,11 +553,11 @@ export const tagExecutors: Record<
     render: (
       nodes: readonly AstNode[],
       ctx: LiquidContext
-    ) => Effect.Effect<string, LiquidTagError>
+    ) => Effect.Effect<string, LiquidTagError>,
+    state: RenderState
   ) => Effect.Effect<string, LiquidTagError>
 > = {
   if: (args, body, context, render) => {
-    const condition = resolveCondition(args[0], context);
     // Parse body for elsif/else blocks
     const elsifBlocks: Array<{ condition: unknown; body: readonly AstNode[] }> =
       [];
@@ -305,10 +574,7 @@ export const tagExecutors: Record<
           if (currentElsif) {
             elsifBlocks.push(currentElsif);
           }
-          currentElsif = {
-            condition: resolveCondition(tagNode.args[0], context),
-            body: [],
-          };
+          currentElsif = { condition: tagNode.args[0], body: [] };
           currentSection = currentElsif.body;
           // Skip the elsif tag itself, but include its body if it has one
           if (tagNode.body.length > 0) {
@@ -348,36 +614,73 @@ export const tagExecutors: Record<
       elsifBlocks.push(currentElsif);
     }
 
-    return executeIf(
-      condition,
-      ifBody,
-      elsifBlocks.length > 0 ? elsifBlocks : undefined,
-      elseBody,
+    return Effect.gen(function* () {
+      const condition = yield* evaluateCondition("if", args[0], context);
+      const elsif: Array<{ condition: unknown; body: readonly AstNode[] }> = [];
+      for (const branch of elsifBlocks) {
+        elsif.push({
+          condition: yield* evaluateCondition(
+            "elsif",
+            branch.condition,
+            context
+          ),
+          body: branch.body,
+        });
+      }
+      return yield* executeIf(
+        condition,
+        ifBody,
+        elsif.length > 0 ? elsif : undefined,
+        elseBody,
+        context,
+        render
+      );
+    });
+  },
+  unless: (args, body, context, render) =>
+    Effect.flatMap(evaluateCondition("unless", args[0], context), (condition) =>
+      executeUnless(condition, body, context, render)
+    ),
+  for: (args, body, context, render, state) => {
+    const { variable, collection, options } = forArguments(args, context);
+    return executeFor(
+      variable,
+      collection,
+      body,
+      options.limit,
+      options.offset,
+      options.reversed,
       context,
-      render
+      render,
+      state
     );
   },
-  unless: (args, body, context, render) => {
-    const condition = args[0];
-    return executeUnless(condition, body, context, render);
-  },
-  for: (args, body, context, render) => {
-    // Parse: for item in collection
-    const variable = typeof args[0] === "string" ? args[0] : "";
-    const collection = typeof args[2] === "string" ? args[2] : "";
-    return executeFor(
+  tablerow: (args, body, context, render, state) => {
+    const { variable, collection, options } = forArguments(args, context);
+    return executeTablerow(
       variable,
       collection,
       body,
-      undefined,
-      undefined,
-      undefined,
+      options,
       context,
-      render
+      render,
+      state
     );
   },
+  break: (_args, _body, _context, _render, state) => {
+    state.interrupt = "break";
+    return Effect.succeed("");
+  },
+  continue: (_args, _body, _context, _render, state) => {
+    state.interrupt = "continue";
+    return Effect.succeed("");
+  },
+  increment: (args, _body, context, _render, state) =>
+    executeCounter(String(args[0] ?? ""), 1, context, state),
+  decrement: (args, _body, context, _render, state) =>
+    executeCounter(String(args[0] ?? ""), -1, context, state),
+  raw: (_args, body, context, render) => render(body, context),
   case: (args, body, context, render) => {
-    const expression = resolveCondition(args[0], context);
     // Parse body for when/else blocks
     const whenBlocks: Array<{
       values: readonly unknown[];
@@ -439,27 +742,36 @@ export const tagExecutors: Record<
       whenBlocks.push(currentWhen);
     }
 
-    return executeCase(expression, whenBlocks, elseBody, context, render);
+    return Effect.gen(function* () {
+      const expression = yield* evaluateCondition("case", args[0], context);
+      const when: Array<{
+        values: readonly unknown[];
+        body: readonly AstNode[];
+      }> = [];
+      for (const branch of whenBlocks) {
+        const values: unknown[] = [];
+        for (const value of branch.values) {
+          values.push(yield* evaluateArgument("when", value, context));
+        }
+        when.push({ values, body: branch.body });
+      }
+      return yield* executeCase(expression, when, elseBody, context, render);
+    });
   },
-  assign: (args, body, context) => {
+  assign: (args, _body, context) => {
     const variable = typeof args[0] === "string" ? args[0] : "";
-    const value = args[1]; // Parser provides [variable, value], not [variable, "=", value]
-    return executeAssign(variable, value, context);
+    // Parser provides [variable, value], not [variable, "=", value]
+    return Effect.flatMap(
+      evaluateArgument("assign", args[1], context),
+      (value) => executeAssign(variable, value, context)
+    );
   },
   capture: (args, body, context, render) => {
     const variable = typeof args[0] === "string" ? args[0] : "";
     return executeCapture(variable, body, context, render);
   },
   comment: () => executeComment(),
-  else: () => Effect.succeed(""), // else is handled within if tag
+  else: () => Effect.succeed(""), // else is handled by the tag it belongs to
   elsif: () => Effect.succeed(""), // elsif is handled within if tag
   endif: () => Effect.succeed(""), // endif is just a marker
-  include: (args) => {
-    const template = typeof args[0] === "string" ? args[0] : "";
-    return executeInclude(template, undefined, undefined, {});
-  },
-  render: (args) => {
-    const template = typeof args[0] === "string" ? args[0] : "";
-    return executeRender(template, undefined, {});
-  },
 };
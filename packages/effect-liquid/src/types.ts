@@ -1,4 +1,4 @@
-import type { Effect } from "effect";
+import type { Duration, Effect } from "effect";
 import type { AstNode } from "./ast.js";
 import type {
   LiquidContextError,
@@ -14,11 +14,30 @@ import type {
  */
 export type LiquidContext = Record<string, unknown>;
 
+/**
+ * Resource limits for rendering untrusted templates.
+ * Exceeding a limit fails the render with a LiquidRenderError.
+ */
+export interface RenderLimits {
+  /** Maximum time a single render may take */
+  readonly maxRenderTime?: Duration.DurationInput;
+  /** Maximum number of characters a render may output */
+  readonly maxOutputSize?: number;
+  /** Maximum number of for and tablerow iterations across the render */
+  readonly maxLoopIterations?: number;
+}
+
 /**
  * Configuration options for Liquid template processing.
  */
 export interface LiquidOptions {
+  /** Shorthand enabling both strictVariables and strictFilters */
   readonly strict?: boolean;
+  /** Fail when an output or loop reads an undefined variable */
+  readonly strictVariables?: boolean;
+  /** Fail on unknown filters instead of skipping them */
+  readonly strictFilters?: boolean;
+  readonly limits?: RenderLimits;
   readonly customFilters?: Record<string, FilterFunction>;
   readonly customTags?: Record<string, TagFunction>;
 }
@@ -54,3 +73,38 @@ export type TagFunction = (
     ctx: LiquidContext
   ) => Effect.Effect<string, LiquidRenderError>
 ) => Effect.Effect<string, LiquidTagError>;
+
+/**
+ * A read of a render-context variable found by static analysis.
+ */
+export interface VariableReference {
+  /** The reference as written, e.g. "user.address.city" */
+  readonly name: string;
+  /**
+   * Property path of the reference, starting with the variable name. Reads
+   * through a loop variable start at its collection, with `*` standing for
+   * an element: `item.title` in a loop over `items` is `items.*.title`.
+   */
+  readonly path: readonly string[];
+  readonly position?: number;
+  readonly line?: number;
+  readonly column?: number;
+}
+
+/**
+ * What a template reads from its render context and what it uses.
+ */
+export interface TemplateAnalysis {
+  /** Variables read from the render context, in order of first use */
+  readonly variables: readonly string[];
+  /** Every read of a render-context variable */
+  readonly references: readonly VariableReference[];
+  /** Filters applied in output and assign tags */
+  readonly filters: readonly string[];
+  /** Names bound by for loops, visible only inside the loop body */
+  readonly loopVariables: readonly string[];
+  /** Names bound by assign and capture */
+  readonly assigned: readonly string[];
+  /** Templates referenced by include, render and layout */
+  readonly partials: readonly string[];
+}
@@ -1,4 +1,5 @@
 import { Effect } from "effect";
+import type { ComparisonOperator } from "../ast.js";
 import type { LiquidContext } from "../types.js";
 import { LiquidContextError } from "../errors.js";
 
@@ -46,6 +47,21 @@ export function resolveVariable(
   });
 }
 
+/**
+ * Whether every segment of a variable path is defined, as opposed to
+ * resolving to undefined. Used by strict variable checking.
+ */
+export function hasVariable(context: LiquidContext, path: string): boolean {
+  let current: unknown = context;
+  for (const part of path.split(".")) {
+    if (typeof current !== "object" || current === null || !(part in current)) {
+      return false;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return true;
+}
+
 /**
  * Coerces a value to a boolean for Liquid comparisons.
  */
@@ -114,11 +130,12 @@ export function toString(value: unknown): string {
 }
 
 /**
- * Compares two values using Liquid's comparison rules.
+ * Compares two values using Liquid's comparison rules. `contains` looks for
+ * an element in arrays and a substring in anything else.
  */
 export function compareValues(
   left: unknown,
-  operator: "==" | "!=" | "<" | ">" | "<=" | ">=" | "contains",
+  operator: ComparisonOperator,
   right: unknown
 ): boolean {
   switch (operator) {
@@ -159,6 +176,9 @@ export function compareValues(
       return toString(left) >= toString(right);
     }
     case "contains": {
+      if (Array.isArray(left)) {
+        return left.includes(right);
+      }
       const leftStr = toString(left);
       const rightStr = toString(right);
       return leftStr.includes(rightStr);
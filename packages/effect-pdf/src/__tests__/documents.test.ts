@@ -0,0 +1,129 @@
+import { Effect, Either } from "effect";
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { PdfService, PdfServiceLayer } from "../service.js";
+
+const run = <A, E>(f: (service: PdfService) => Effect.Effect<A, E>) =>
+  Effect.runPromise(
+    PdfService.pipe(Effect.flatMap(f), Effect.provide(PdfServiceLayer))
+  );
+
+/** A document with one page per label, each showing its label */
+const makePdf = async (labels: readonly string[]) => {
+  const document = await PDFDocument.create();
+  for (const label of labels) {
+    document.addPage().drawText(label, { x: 50, y: 700, size: 24 });
+  }
+  return document.save({ useObjectStreams: false });
+};
+
+const pageTexts = (buffer: Uint8Array) =>
+  run((service) => service.extractPages(buffer)).then((pages) =>
+    pages.map((page) => page.text.trim())
+  );
+
+describe("PdfService.extractPages", () => {
+  it("should return the text of each page with its page number", async () => {
+    const pdf = await makePdf(["First page", "Second page", "Third page"]);
+    const pages = await run((service) => service.extractPages(pdf));
+    expect(pages.map((page) => page.pageNumber)).toEqual([1, 2, 3]);
+    expect(pages.map((page) => page.text.trim())).toEqual([
+      "First page",
+      "Second page",
+      "Third page",
+    ]);
+  });
+
+  it("should leave the input buffer usable", async () => {
+    const pdf = await makePdf(["Only"]);
+    await run((service) => service.extractPages(pdf));
+    expect(pdf.byteLength).toBeGreaterThan(0);
+    expect(await pageTexts(pdf)).toEqual(["Only"]);
+  });
+});
+
+describe("PdfService.merge and split", () => {
+  it("should merge documents in order", async () => {
+    const merged = await run((service) =>
+      Effect.gen(function* () {
+        const first = yield* Effect.promise(() => makePdf(["A1", "A2"]));
+        const second = yield* Effect.promise(() => makePdf(["B1"]));
+        return yield* service.merge([first, Buffer.from(second)]);
+      })
+    );
+    expect(await pageTexts(merged)).toEqual(["A1", "A2", "B1"]);
+  });
+
+  it("should split inclusive 1-based ranges into separate documents", async () => {
+    const pdf = await makePdf(["P1", "P2", "P3", "P4"]);
+    const parts = await run((service) =>
+      service.split(pdf, [
+        { start: 1, end: 2 },
+        { start: 4, end: 4 },
+        { start: 2, end: 3 },
+      ])
+    );
+    const texts = await Promise.all(parts.map(pageTexts));
+    expect(texts).toEqual([["P1", "P2"], ["P4"], ["P2", "P3"]]);
+  });
+
+  it("should reject ranges outside the document", async () => {
+    const pdf = await makePdf(["P1", "P2"]);
+    const results = await Promise.all(
+      [
+        { start: 2, end: 3 },
+        { start: 2, end: 1 },
+        { start: 0, end: 1 },
+      ].map((range) =>
+        run((service) => Effect.either(service.split(pdf, [range])))
+      )
+    );
+    expect(results.map(Either.isLeft)).toEqual([true, true, true]);
+  });
+
+  it("should fail to merge an empty list or an invalid document", async () => {
+    const empty = await run((service) => Effect.either(service.merge([])));
+    const invalid = await run((service) =>
+      Effect.either(service.merge([Buffer.from("not a pdf")]))
+    );
+    expect(Either.isLeft(empty)).toBe(true);
+    expect(Either.isLeft(invalid)).toBe(true);
+  });
+});
+
+describe("PdfService metadata", () => {
+  it("should write and read back document information", async () => {
+    const pdf = await makePdf(["Page"]);
+    const created = new Date("2024-03-01T12:00:00Z");
+    const info = await run((service) =>
+      service
+        .writeMetadata(pdf, {
+          title: "Quarterly Report",
+          author: "Finance Team",
+          keywords: ["finance", "q1 2024", "report"],
+          creationDate: created,
+        })
+        .pipe(Effect.flatMap(service.readMetadata))
+    );
+    expect(info).toMatchObject({
+      title: "Quarterly Report",
+      author: "Finance Team",
+      keywords: ["finance", "q1 2024", "report"],
+      creationDate: created,
+    });
+  });
+
+  it("should keep entries that are not updated", async () => {
+    const pdf = await makePdf(["Page"]);
+    const info = await run((service) =>
+      service.writeMetadata(pdf, { title: "Draft", author: "Ann" }).pipe(
+        Effect.flatMap((bytes) =>
+          service.writeMetadata(bytes, { title: "Final" })
+        ),
+        Effect.flatMap(service.readMetadata)
+      )
+    );
+    expect(info.title).toBe("Final");
+    expect(info.author).toBe("Ann");
+  });
+});
@@ -0,0 +1,134 @@
+import { Effect, Either } from "effect";
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { PdfService, PdfServiceLayer } from "../service.js";
+
+const run = <A, E>(f: (service: PdfService) => Effect.Effect<A, E>) =>
+  Effect.runPromise(
+    PdfService.pipe(Effect.flatMap(f), Effect.provide(PdfServiceLayer))
+  );
+
+const makeForm = async () => {
+  const document = await PDFDocument.create();
+  const page = document.addPage();
+  const form = document.getForm();
+
+  const name = form.createTextField("applicant.name");
+  name.setText("Jane");
+  name.enableRequired();
+  name.addToPage(page, { x: 50, y: 700 });
+
+  form.createCheckBox("subscribe").addToPage(page, { x: 50, y: 650 });
+
+  const plan = form.createRadioGroup("plan");
+  plan.addOptionToPage("basic", page, { x: 50, y: 600 });
+  plan.addOptionToPage("pro", page, { x: 100, y: 600 });
+
+  const country = form.createDropdown("country");
+  country.addOptions(["CA", "FR", "US"]);
+  country.addToPage(page, { x: 50, y: 550 });
+
+  const id = form.createTextField("id");
+  id.setText("A-1");
+  id.enableReadOnly();
+  id.addToPage(page, { x: 50, y: 500 });
+
+  return document.save({ useObjectStreams: false });
+};
+
+describe("PdfService forms", () => {
+  it("should list AcroForm fields with types and values", async () => {
+    const pdf = await makeForm();
+    const fields = await run((service) => service.listFormFields(pdf));
+    expect(fields).toEqual([
+      {
+        name: "applicant.name",
+        type: "text",
+        value: "Jane",
+        required: true,
+        readOnly: false,
+      },
+      {
+        name: "subscribe",
+        type: "checkbox",
+        value: false,
+        required: false,
+        readOnly: false,
+      },
+      {
+        name: "plan",
+        type: "radio",
+        value: undefined,
+        options: ["basic", "pro"],
+        required: false,
+        readOnly: false,
+      },
+      {
+        name: "country",
+        type: "dropdown",
+        value: [],
+        options: ["CA", "FR", "US"],
+        required: false,
+        readOnly: false,
+      },
+      {
+        name: "id",
+        type: "text",
+        value: "A-1",
+        required: false,
+        readOnly: true,
+      },
+    ]);
+  });
+
+  it("should fill fields and read the values back", async () => {
+    const pdf = await makeForm();
+    const fields = await run((service) =>
+      service
+        .fillForm(pdf, {
+          "applicant.name": "John Smith",
+          subscribe: true,
+          plan: "pro",
+          country: "FR",
+        })
+        .pipe(Effect.flatMap(service.listFormFields))
+    );
+    expect(
+      Object.fromEntries(fields.map((field) => [field.name, field.value]))
+    ).toEqual({
+      "applicant.name": "John Smith",
+      subscribe: true,
+      plan: "pro",
+      country: ["FR"],
+      id: "A-1",
+    });
+  });
+
+  it("should remove the fields when flattening", async () => {
+    const pdf = await makeForm();
+    const fields = await run((service) =>
+      service
+        .fillForm(pdf, { "applicant.name": "John" }, { flatten: true })
+        .pipe(Effect.flatMap(service.listFormFields))
+    );
+    expect(fields).toEqual([]);
+  });
+
+  it("should reject unknown fields, read-only fields and bad values", async () => {
+    const pdf = await makeForm();
+    const attempts = [
+      { missing: "x" },
+      { id: "B-2" },
+      { subscribe: "yes" },
+      { "applicant.name": true },
+      { country: "DE" },
+      { plan: "enterprise" },
+    ];
+    const results = await Promise.all(
+      attempts.map((fields) =>
+        run((service) => Effect.either(service.fillForm(pdf, fields)))
+      )
+    );
+    expect(results.map(Either.isLeft)).toEqual(attempts.map(() => true));
+  });
+});
@@ -0,0 +1,137 @@
+import { PDFDocument } from "pdf-lib";
+import type { PageRange, PdfDocumentInfo } from "./schemas.js";
+
+type PdfInput = Buffer | Uint8Array;
+
+const KEYWORD_SEPARATOR_PATTERN = /[,;]/;
+
+/**
+ * Load for editing without pdf-lib stamping its own producer and
+ * modification date onto the document.
+ */
+export const loadDocument = (buffer: PdfInput): Promise<PDFDocument> =>
+  PDFDocument.load(buffer, { updateMetadata: false });
+
+export const saveDocument = (document: PDFDocument): Promise<Uint8Array> =>
+  document.save({ useObjectStreams: false });
+
+/**
+ * Concatenate the pages of several documents, in order.
+ *
+ * @throws Error if no documents are given or one cannot be loaded
+ */
+export const mergeDocuments = async (
+  buffers: readonly PdfInput[]
+): Promise<Uint8Array> => {
+  if (buffers.length === 0) {
+    throw new Error("No documents to merge");
+  }
+  const merged = await PDFDocument.create();
+  for (const [index, buffer] of buffers.entries()) {
+    const source = await loadDocument(buffer).catch((error: unknown) => {
+      throw new Error(
+        `Document ${index + 1}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    for (const page of pages) {
+      merged.addPage(page);
+    }
+  }
+  return saveDocument(merged);
+};
+
+const checkRange = (range: PageRange, pageCount: number): void => {
+  if (range.start > range.end) {
+    throw new Error(
+      `Invalid page range ${range.start}-${range.end}: start is after end`
+    );
+  }
+  if (range.end > pageCount) {
+    throw new Error(
+      `Invalid page range ${range.start}-${range.end}: the document has ${pageCount} pages`
+    );
+  }
+};
+
+/**
+ * Copy each range of pages into a document of its own.
+ *
+ * @throws Error if a range is reversed or runs past the last page
+ */
+export const splitDocument = async (
+  buffer: PdfInput,
+  ranges: readonly PageRange[]
+): Promise<readonly Uint8Array[]> => {
+  const source = await loadDocument(buffer);
+  const pageCount = source.getPageCount();
+  for (const range of ranges) {
+    checkRange(range, pageCount);
+  }
+  const parts: Uint8Array[] = [];
+  for (const { start, end } of ranges) {
+    const part = await PDFDocument.create();
+    const indices = Array.from(
+      { length: end - start + 1 },
+      (_, offset) => start - 1 + offset
+    );
+    for (const page of await part.copyPages(source, indices)) {
+      part.addPage(page);
+    }
+    parts.push(await saveDocument(part));
+  }
+  return parts;
+};
+
+/**
+ * Read the document information dictionary. Keywords are split on commas
+ * and semicolons.
+ */
+export const readInfo = (document: PDFDocument): PdfDocumentInfo => ({
+  title: document.getTitle(),
+  author: document.getAuthor(),
+  subject: document.getSubject(),
+  keywords: (document.getKeywords() ?? "")
+    .split(KEYWORD_SEPARATOR_PATTERN)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean),
+  creator: document.getCreator(),
+  producer: document.getProducer(),
+  creationDate: document.getCreationDate(),
+  modificationDate: document.getModificationDate(),
+});
+
+/**
+ * Update the given entries of the document information dictionary,
+ * leaving the others as they are.
+ */
+export const writeInfo = (
+  document: PDFDocument,
+  info: Partial<PdfDocumentInfo>
+): void => {
+  if (info.title !== undefined) {
+    document.setTitle(info.title);
+  }
+  if (info.author !== undefined) {
+    document.setAuthor(info.author);
+  }
+  if (info.subject !== undefined) {
+    document.setSubject(info.subject);
+  }
+  if (info.keywords !== undefined) {
+    // pdf-lib joins keywords with spaces, which loses multi-word keywords
+    document.setKeywords([info.keywords.join(", ")]);
+  }
+  if (info.creator !== undefined) {
+    document.setCreator(info.creator);
+  }
+  if (info.producer !== undefined) {
+    document.setProducer(info.producer);
+  }
+  if (info.creationDate !== undefined) {
+    document.setCreationDate(info.creationDate);
+  }
+  if (info.modificationDate !== undefined) {
+    document.setModificationDate(info.modificationDate);
+  }
+};
@@ -0,0 +1,167 @@
+import {
+  PDFButton,
+  PDFCheckBox,
+  PDFDropdown,
+  type PDFField,
+  type PDFForm,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+} from "pdf-lib";
+import type {
+  PdfFormField,
+  PdfFormFieldType,
+  PdfFormValue,
+} from "./schemas.js";
+
+/**
+ * Options for `fillForm`.
+ */
+export interface FillFormOptions {
+  /**
+   * Replace the fields with their drawn appearance so the values can no
+   * longer be edited. Defaults to `false`.
+   */
+  readonly flatten?: boolean;
+}
+
+const fieldType = (field: PDFField): PdfFormFieldType => {
+  if (field instanceof PDFTextField) {
+    return "text";
+  }
+  if (field instanceof PDFCheckBox) {
+    return "checkbox";
+  }
+  if (field instanceof PDFRadioGroup) {
+    return "radio";
+  }
+  if (field instanceof PDFDropdown) {
+    return "dropdown";
+  }
+  if (field instanceof PDFOptionList) {
+    return "optionList";
+  }
+  if (field instanceof PDFButton) {
+    return "button";
+  }
+  if (field instanceof PDFSignature) {
+    return "signature";
+  }
+  throw new Error(`Unsupported form field type for "${field.getName()}"`);
+};
+
+const fieldValue = (
+  field: PDFField
+): Pick<PdfFormField, "value" | "options"> => {
+  if (field instanceof PDFTextField) {
+    return { value: field.getText() };
+  }
+  if (field instanceof PDFCheckBox) {
+    return { value: field.isChecked() };
+  }
+  if (field instanceof PDFRadioGroup) {
+    return { value: field.getSelected(), options: field.getOptions() };
+  }
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    return { value: field.getSelected(), options: field.getOptions() };
+  }
+  return {};
+};
+
+/**
+ * Describe every AcroForm field of a document.
+ */
+export const listFields = (form: PDFForm): readonly PdfFormField[] =>
+  form.getFields().map((field) => ({
+    name: field.getName(),
+    type: fieldType(field),
+    ...fieldValue(field),
+    required: field.isRequired(),
+    readOnly: field.isReadOnly(),
+  }));
+
+const expectString = (name: string, value: PdfFormValue): string => {
+  if (typeof value !== "string") {
+    throw new Error(`Field "${name}" expects a string`);
+  }
+  return value;
+};
+
+/**
+ * The options to select in a dropdown or option list. pdf-lib accepts
+ * any string, so options the field does not offer are rejected here unless
+ * the dropdown allows free text.
+ */
+const choiceValue = (
+  field: PDFDropdown | PDFOptionList,
+  value: PdfFormValue
+): string[] => {
+  const name = field.getName();
+  if (typeof value === "boolean") {
+    throw new Error(`Field "${name}" expects an option or list of options`);
+  }
+  const selected = typeof value === "string" ? [value] : [...value];
+  if (selected.length > 1 && !field.isMultiselect()) {
+    throw new Error(`Field "${name}" accepts a single option`);
+  }
+  const editable = field instanceof PDFDropdown && field.isEditable();
+  const offered = field.getOptions();
+  const unknown = selected.find((option) => !offered.includes(option));
+  if (!editable && unknown !== undefined) {
+    throw new Error(
+      `Field "${name}" has no option "${unknown}"; expected one of ${offered.join(", ")}`
+    );
+  }
+  return selected;
+};
+
+const setValue = (field: PDFField, value: PdfFormValue): void => {
+  const name = field.getName();
+  if (field instanceof PDFTextField) {
+    field.setText(expectString(name, value));
+  } else if (field instanceof PDFCheckBox) {
+    if (typeof value !== "boolean") {
+      throw new Error(`Field "${name}" expects a boolean`);
+    }
+    if (value) {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup) {
+    field.select(expectString(name, value));
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    field.select(choiceValue(field, value));
+  } else {
+    throw new Error(
+      `Field "${name}" is a ${fieldType(field)} and cannot be filled`
+    );
+  }
+};
+
+/**
+ * Set form field values by fully qualified field name.
+ *
+ * @throws Error if a field does not exist, is read-only, or the value does
+ *   not suit the field (wrong type, or an option the field does not offer)
+ */
+export const fillFields = (
+  form: PDFForm,
+  values: Readonly<Record<string, PdfFormValue>>,
+  options: FillFormOptions = {}
+): void => {
+  for (const [name, value] of Object.entries(values)) {
+    const field = form.getFieldMaybe(name);
+    if (field === undefined) {
+      throw new Error(`No form field named "${name}"`);
+    }
+    if (field.isReadOnly()) {
+      throw new Error(`Field "${name}" is read-only`);
+    }
+    setValue(field, value);
+  }
+  if (options.flatten) {
+    form.flatten();
+  }
+};
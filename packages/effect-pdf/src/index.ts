@@ -1,3 +1,4 @@
 export * from "./errors.js";
-export * from "./service.js";
+export type { FillFormOptions } from "./forms.js";
 export * from "./schemas.js";
+export * from "./service.js";
@@ -6,3 +6,69 @@ export const PdfMetadataSchema = Schema.Struct({
 });
 
 export type PdfMetadata = Schema.Schema.Type<typeof PdfMetadataSchema>;
+
+export const PdfPageSchema = Schema.Struct({
+  /** 1-based page number */
+  pageNumber: Schema.Int.pipe(Schema.positive()),
+  text: Schema.String,
+});
+
+export type PdfPage = Schema.Schema.Type<typeof PdfPageSchema>;
+
+/**
+ * Inclusive, 1-based range of pages
+ */
+export const PageRangeSchema = Schema.Struct({
+  start: Schema.Int.pipe(Schema.positive()),
+  end: Schema.Int.pipe(Schema.positive()),
+});
+
+export type PageRange = Schema.Schema.Type<typeof PageRangeSchema>;
+
+export const PdfFormFieldTypeSchema = Schema.Literal(
+  "text",
+  "checkbox",
+  "radio",
+  "dropdown",
+  "optionList",
+  "button",
+  "signature"
+);
+
+export type PdfFormFieldType = Schema.Schema.Type<
+  typeof PdfFormFieldTypeSchema
+>;
+
+export const PdfFormValueSchema = Schema.Union(
+  Schema.String,
+  Schema.Boolean,
+  Schema.Array(Schema.String)
+);
+
+export type PdfFormValue = Schema.Schema.Type<typeof PdfFormValueSchema>;
+
+export const PdfFormFieldSchema = Schema.Struct({
+  name: Schema.String,
+  type: PdfFormFieldTypeSchema,
+  /** Text for text fields, checked state for checkboxes, selection otherwise */
+  value: Schema.optional(PdfFormValueSchema),
+  /** Choices of radio groups, dropdowns and option lists */
+  options: Schema.optional(Schema.Array(Schema.String)),
+  required: Schema.Boolean,
+  readOnly: Schema.Boolean,
+});
+
+export type PdfFormField = Schema.Schema.Type<typeof PdfFormFieldSchema>;
+
+export const PdfDocumentInfoSchema = Schema.Struct({
+  title: Schema.optional(Schema.String),
+  author: Schema.optional(Schema.String),
+  subject: Schema.optional(Schema.String),
+  keywords: Schema.Array(Schema.String),
+  creator: Schema.optional(Schema.String),
+  producer: Schema.optional(Schema.String),
+  creationDate: Schema.optional(Schema.DateFromSelf),
+  modificationDate: Schema.optional(Schema.DateFromSelf),
+});
+
+export type PdfDocumentInfo = Schema.Schema.Type<typeof PdfDocumentInfoSchema>;
@@ -1,8 +1,29 @@
 import { Effect, Schema } from "effect";
 import { PDFDocument } from "pdf-lib";
 import { extractText as unpdfExtractText } from "unpdf";
+import {
+  loadDocument,
+  mergeDocuments,
+  readInfo,
+  saveDocument,
+  splitDocument,
+  writeInfo,
+} from "./documents.js";
 import { PdfError } from "./errors.js";
-import { PdfMetadataSchema, type PdfMetadata } from "./schemas.js";
+import { type FillFormOptions, fillFields, listFields } from "./forms.js";
+import {
+  type PageRange,
+  PageRangeSchema,
+  type PdfDocumentInfo,
+  PdfDocumentInfoSchema,
+  type PdfFormField,
+  PdfFormFieldSchema,
+  type PdfFormValue,
+  PdfMetadataSchema,
+  type PdfMetadata,
+  type PdfPage,
+  PdfPageSchema,
+} from "./schemas.js";
 
 export interface PdfServiceSchema {
   /**
@@ -30,6 +51,61 @@ export interface PdfServiceSchema {
   readonly savePdf: (
     pdfDoc: PDFDocument
   ) => Effect.Effect<Uint8Array, PdfError>;
+
+  /**
+   * Extract the text of each page, with 1-based page numbers
+   */
+  readonly extractPages: (
+    buffer: Buffer | Uint8Array
+  ) => Effect.Effect<readonly PdfPage[], PdfError>;
+
+  /**
+   * Concatenate several PDFs into one
+   */
+  readonly merge: (
+    buffers: readonly (Buffer | Uint8Array)[]
+  ) => Effect.Effect<Uint8Array, PdfError>;
+
+  /**
+   * Split a PDF into one document per inclusive, 1-based page range
+   */
+  readonly split: (
+    buffer: Buffer | Uint8Array,
+    ranges: readonly PageRange[]
+  ) => Effect.Effect<readonly Uint8Array[], PdfError>;
+
+  /**
+   * List the AcroForm fields of a PDF with their types and current values
+   */
+  readonly listFormFields: (
+    buffer: Buffer | Uint8Array
+  ) => Effect.Effect<readonly PdfFormField[], PdfError>;
+
+  /**
+   * Fill AcroForm fields by name: strings for text fields, radio groups and
+   * single-choice lists, booleans for checkboxes, string arrays for
+   * multi-select lists
+   */
+  readonly fillForm: (
+    buffer: Buffer | Uint8Array,
+    fields: Readonly<Record<string, PdfFormValue>>,
+    options?: FillFormOptions
+  ) => Effect.Effect<Uint8Array, PdfError>;
+
+  /**
+   * Read the document information (title, author, keywords, dates, ...)
+   */
+  readonly readMetadata: (
+    buffer: Buffer | Uint8Array
+  ) => Effect.Effect<PdfDocumentInfo, PdfError>;
+
+  /**
+   * Update the given document information entries, keeping the others
+   */
+  readonly writeMetadata: (
+    buffer: Buffer | Uint8Array,
+    info: Partial<PdfDocumentInfo>
+  ) => Effect.Effect<Uint8Array, PdfError>;
 }
 
 export class PdfService extends Effect.Service<PdfServiceSchema>()(
@@ -95,11 +171,119 @@ export class PdfService extends Effect.Service<PdfServiceSchema>()(
             }),
         });
 
+      const attempt = <A>(action: string, run: () => Promise<A>) =>
+        Effect.tryPromise({
+          try: run,
+          catch: (error) =>
+            new PdfError({
+              reason: `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+              cause: error,
+            }),
+        });
+
+      const validate = <A, I>(
+        what: string,
+        schema: Schema.Schema<A, I>,
+        value: unknown
+      ) =>
+        Schema.decodeUnknown(schema)(value).pipe(
+          Effect.mapError(
+            (error) =>
+              new PdfError({
+                reason: `${what} validation failed: ${error}`,
+                cause: error,
+              })
+          )
+        );
+
+      const extractPages = (buffer: Buffer | Uint8Array) =>
+        Effect.gen(function* () {
+          const { text } = yield* attempt("extract pages from PDF", () =>
+            // pdf.js may detach the buffer it is given, so pass a copy
+            unpdfExtractText(new Uint8Array(buffer), { mergePages: false })
+          );
+          return yield* validate(
+            "PDF page",
+            Schema.Array(PdfPageSchema),
+            text.map((pageText, index) => ({
+              pageNumber: index + 1,
+              text: pageText,
+            }))
+          );
+        });
+
+      const merge = (buffers: readonly (Buffer | Uint8Array)[]) =>
+        attempt("merge PDFs", () => mergeDocuments(buffers));
+
+      const split = (
+        buffer: Buffer | Uint8Array,
+        ranges: readonly PageRange[]
+      ) =>
+        validate("Page range", Schema.Array(PageRangeSchema), ranges).pipe(
+          Effect.flatMap((validRanges) =>
+            attempt("split PDF", () => splitDocument(buffer, validRanges))
+          )
+        );
+
+      const listFormFields = (buffer: Buffer | Uint8Array) =>
+        attempt("list PDF form fields", async () =>
+          listFields((await loadDocument(buffer)).getForm())
+        ).pipe(
+          Effect.flatMap((fields) =>
+            validate("PDF form field", Schema.Array(PdfFormFieldSchema), fields)
+          )
+        );
+
+      const fillForm = (
+        buffer: Buffer | Uint8Array,
+        fields: Readonly<Record<string, PdfFormValue>>,
+        options?: FillFormOptions
+      ) =>
+        attempt("fill PDF form", async () => {
+          const document = await loadDocument(buffer);
+          fillFields(document.getForm(), fields, options);
+          return saveDocument(document);
+        });
+
+      const readMetadata = (buffer: Buffer | Uint8Array) =>
+        attempt("read PDF metadata", async () =>
+          readInfo(await loadDocument(buffer))
+        ).pipe(
+          Effect.flatMap((info) =>
+            validate("PDF document info", PdfDocumentInfoSchema, info)
+          )
+        );
+
+      const writeMetadata = (
+        buffer: Buffer | Uint8Array,
+        info: Partial<PdfDocumentInfo>
+      ) =>
+        validate(
+          "PDF document info",
+          Schema.partialWith(PdfDocumentInfoSchema, { exact: true }),
+          info
+        ).pipe(
+          Effect.flatMap((validInfo) =>
+            attempt("write PDF metadata", async () => {
+              const document = await loadDocument(buffer);
+              writeInfo(document, validInfo);
+              return saveDocument(document);
+            })
+          )
+        );
+
       return {
         extractText,
         createPdf,
         loadPdf,
         savePdf,
+        extractPages,
+        merge,
+        split,
+        listFormFields,
+        fillForm,
+        readMetadata,
+        writeMetadata,
       };
     }),
   }
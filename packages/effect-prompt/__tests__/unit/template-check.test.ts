@@ -0,0 +1,109 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as NodeFileSystem from "@effect/platform-node/NodeFileSystem";
+import { Effect, Layer, Schema } from "effect";
+import { describe, expect, it } from "vitest";
+import { PromptConfig } from "../../src/config/prompt-config.js";
+import { PromptStorageService } from "../../src/services/storage-service.js";
+import { checkPromptTemplate } from "../../src/services/template-check.js";
+import type { PromptTemplate } from "../../src/types.js";
+
+const prompt = (
+	content: string,
+	variableSchema?: Schema.Schema<unknown>,
+): PromptTemplate => ({
+	id: "greeting",
+	name: "Greeting",
+	content,
+	...(variableSchema !== undefined && { variableSchema }),
+	metadata: {
+		version: "1.0.0",
+		created: new Date("2025-01-01"),
+		updated: new Date("2025-01-01"),
+		tags: [],
+	},
+});
+
+const Variables = Schema.Struct({
+	user: Schema.Struct({ name: Schema.String }),
+	topics: Schema.Array(Schema.String),
+}) as Schema.Schema<unknown>;
+
+describe("checkPromptTemplate", () => {
+	it("should accept templates reading declared variables", async () => {
+		await Effect.runPromise(
+			checkPromptTemplate(
+				prompt(
+					"Hi {{ user.name }}: {% for topic in topics %}{{ topic }}{% endfor %}",
+					Variables,
+				),
+			),
+		);
+	});
+
+	it("should not read literal outputs as variables", async () => {
+		await Effect.runPromise(
+			checkPromptTemplate(
+				prompt("{{ 'hello' | upcase }} {{ user.name }} {{ 42 }}", Variables),
+			),
+		);
+	});
+
+	it("should skip prompts without a variable schema", async () => {
+		await Effect.runPromise(checkPromptTemplate(prompt("{{ anything }}")));
+	});
+
+	it("should reject undeclared variables", async () => {
+		const error = await Effect.runPromise(
+			Effect.flip(
+				checkPromptTemplate(
+					prompt("Hi {{ user.name }}\n{{ user.email }}", Variables),
+				),
+			),
+		);
+
+		expect(error._tag).toBe("VariableValidationError");
+		if (error._tag === "VariableValidationError") {
+			expect(error.variableName).toBe("user.email");
+			expect(error.message).toContain("(line 2, column 1)");
+			expect(error.schemaErrors).toHaveLength(1);
+		}
+	});
+
+	it("should reject templates that do not parse", async () => {
+		const error = await Effect.runPromise(
+			Effect.flip(checkPromptTemplate(prompt("{{ user.name", Variables))),
+		);
+
+		expect(error._tag).toBe("StorageError");
+	});
+});
+
+describe("PromptStorageService.save", () => {
+	it("should save prompts whose outputs include literals", async () => {
+		const promptsDir = await mkdtemp(join(tmpdir(), "effect-prompt-"));
+		const config = Layer.succeed(PromptConfig, {
+			getPromptsDir: () => Effect.succeed(promptsDir),
+			getDefaultMaxTokens: () => Effect.succeed(4000),
+			getEnableCaching: () => Effect.succeed(false),
+			getCacheTTL: () => Effect.succeed(3600),
+		});
+		const content = "{{ 'hello' | upcase }}, {{ user.name }}!";
+
+		try {
+			const saved = await Effect.runPromise(
+				Effect.gen(function* () {
+					yield* PromptStorageService.save(prompt(content, Variables));
+					return yield* PromptStorageService.load("greeting");
+				}).pipe(
+					Effect.provide(PromptStorageService.Default),
+					Effect.provide(Layer.merge(config, NodeFileSystem.layer)),
+				),
+			);
+			expect(saved.content).toBe(content);
+		} finally {
+			await rm(promptsDir, { recursive: true, force: true });
+		}
+	});
+});
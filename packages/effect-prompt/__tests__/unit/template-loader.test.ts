@@ -0,0 +1,128 @@
+import { Effect, Layer } from "effect";
+import { LiquidService } from "effect-liquid";
+import { describe, expect, it } from "vitest";
+import { StorageError } from "../../src/errors.js";
+import {
+	makePromptTemplateLoader,
+	PromptLiquidLayer,
+} from "../../src/services/template-loader.js";
+import { createMockStorageLayer } from "../../src/testing.js";
+import type { PromptTemplate } from "../../src/types.js";
+
+const prompt = (id: string, content: string): PromptTemplate => ({
+	id,
+	name: id,
+	content,
+	metadata: {
+		version: "1.0.0",
+		created: new Date("2025-01-01"),
+		updated: new Date("2025-01-01"),
+		tags: [],
+	},
+});
+
+describe("Prompt template loader", () => {
+	const templates = new Map([
+		["persona", prompt("persona", "You are {{ role }}.")],
+		[
+			"base",
+			prompt(
+				"base",
+				"{% block system %}Be helpful.{% endblock %}\n{% block task %}{% endblock %}",
+			),
+		],
+	]);
+
+	const render = (template: string, variables: Record<string, unknown>) =>
+		Effect.flatMap(LiquidService, (liquid) =>
+			liquid.render(template, variables),
+		).pipe(
+			Effect.provide(
+				PromptLiquidLayer.pipe(
+					Layer.provide(createMockStorageLayer(templates)),
+				),
+			),
+		);
+
+	it("should include stored prompts by ID", async () => {
+		const result = await Effect.runPromise(
+			render("{% include 'persona' %} Answer briefly.", {
+				role: "a tutor",
+			}),
+		);
+
+		expect(result).toBe("You are a tutor. Answer briefly.");
+	});
+
+	it("should render stored prompts as layouts", async () => {
+		const result = await Effect.runPromise(
+			render(
+				"{% layout 'base' %}{% block task %}Summarize {{ topic }}.{% endblock %}",
+				{ topic: "Effect" },
+			),
+		);
+
+		expect(result).toBe("Be helpful.\nSummarize Effect.");
+	});
+
+	it("should render the current content of saved and deleted prompts", async () => {
+		const stored = new Map(templates);
+		const results = await Effect.runPromise(
+			Effect.gen(function* () {
+				const liquid = yield* LiquidService;
+				const include = liquid.render("{% include 'persona' %}", {
+					role: "a tutor",
+				});
+				const before = yield* include;
+				stored.set("persona", prompt("persona", "You review {{ role }}."));
+				const saved = yield* include;
+				stored.delete("persona");
+				const deleted = yield* Effect.either(include);
+				return [before, saved, deleted._tag];
+			}).pipe(
+				Effect.provide(
+					PromptLiquidLayer.pipe(Layer.provide(createMockStorageLayer(stored))),
+				),
+			),
+		);
+
+		expect(results).toEqual([
+			"You are a tutor.",
+			"You review a tutor.",
+			"Left",
+		]);
+	});
+
+	it("should report missing prompts", async () => {
+		const result = await Effect.runPromise(
+			Effect.either(render("{% include 'missing' %}", {})),
+		);
+
+		expect(result._tag).toBe("Left");
+		if (result._tag === "Left") {
+			expect(result.left.message).toBe("Template not found: missing");
+		}
+	});
+
+	it("should wrap storage failures in LiquidLoaderError", async () => {
+		const loader = makePromptTemplateLoader({
+			load: (promptId) =>
+				Effect.fail(
+					new StorageError({
+						message: "disk unavailable",
+						operation: "read",
+						path: promptId,
+					}),
+				),
+			save: () => Effect.void,
+			list: () => Effect.succeed([]),
+			delete: () => Effect.void,
+		});
+
+		const result = await Effect.runPromise(Effect.flip(loader.load("base")));
+
+		expect(result._tag).toBe("LiquidLoaderError");
+		expect(result.template).toBe("base");
+		expect(result.message).toContain("disk unavailable");
+	});
+});
@@ -0,0 +1,282 @@
+import { Effect, Layer } from "effect";
+import { LiquidService } from "effect-liquid";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100kRanks from "js-tiktoken/ranks/cl100k_base";
+import o200kRanks from "js-tiktoken/ranks/o200k_base";
+import { describe, expect, it } from "vitest";
+import { PromptConfigLayer } from "../../src/config/prompt-config.js";
+import { TokenLimitExceededError } from "../../src/errors.js";
+import * as AIFilters from "../../src/filters/ai-filters.js";
+import { PromptService } from "../../src/services/prompt-service.js";
+import {
+	makeTokenizer,
+	makeTokenizerLayer,
+	Tokenizer,
+	TokenizerLayer,
+} from "../../src/services/tokenizer-service.js";
+import { createMockPromptLayer } from "../../src/testing.js";
+import {
+	CL100K_PATTERN,
+	cl100kBase,
+	encodingNameForModel,
+	makeBpeEncoding,
+	o200kBase,
+	parsePackedRanks,
+	parseTiktokenRanks,
+} from "../../src/tokenizer/index.js";
+import type { PromptTemplate } from "../../src/types.js";
+
+// Single bytes plus "ab" and "abab", so "abab" is one token
+const tinyRanks = [
+	...Array.from({ length: 256 }, (_, byte) => btoa(String.fromCharCode(byte))),
+	btoa("ab"),
+	btoa("abab"),
+]
+	.map((token, rank) => `${token} ${rank}`)
+	.join("\n");
+
+const tiny = makeBpeEncoding({
+	name: "tiny",
+	pattern: CL100K_PATTERN,
+	ranks: tinyRanks,
+});
+
+describe("BPE encodings", () => {
+	it("should split text into pieces and merge known byte pairs", () => {
+		const tokens = cl100kBase.encode("Hello, world!");
+		expect(tokens.map((token) => cl100kBase.decode([token]))).toEqual([
+			"Hello",
+			",",
+			" world",
+			"!",
+		]);
+	});
+
+	it("should produce the same tokens as OpenAI's encodings", () => {
+		const texts = [
+			"The quick brown fox jumps over the lazy dog.",
+			"héllo 👋🏽 世界\nconst x = 42; // Grüße, мир!",
+			"I'm   don't WE'LL\n\n\tcamelCaseWords HTTPServer 12345678",
+		];
+		for (const [encoding, ranks] of [
+			[cl100kBase, cl100kRanks],
+			[o200kBase, o200kRanks],
+		] as const) {
+			const reference = new Tiktoken(ranks);
+			for (const text of texts) {
+				expect(encoding.encode(text)).toEqual(reference.encode(text));
+			}
+		}
+		expect(cl100kBase.count("Hello Alice!")).toBe(3);
+	});
+
+	it("should round-trip multilingual text, code and emoji", () => {
+		const text = "héllo 👋🏽 世界\nconst x = 42; // Grüße, мир!";
+		for (const encoding of [cl100kBase, o200kBase]) {
+			expect(encoding.decode(encoding.encode(text))).toBe(text);
+		}
+	});
+
+	it("should count more tokens than words for code", () => {
+		const code = "const total = items.reduce((sum, x) => sum + x.price, 0);";
+		const words = code.split(/\s+/).length;
+		expect(cl100kBase.count(code)).toBeGreaterThan(words * 1.3);
+	});
+
+	it("should merge with a custom rank table", () => {
+		expect(tiny.encode("abab")).toEqual([257]);
+		expect(tiny.encode("abc")).toEqual([256, 99]);
+		expect(tiny.decode([257, 99])).toBe("ababc");
+	});
+
+	it("should reject malformed rank files", () => {
+		expect(() => parseTiktokenRanks("YQ== 0\nYg==")).toThrow(/line 2/);
+		expect(() => parsePackedRanks({ bpe_ranks: "! x YQ==" })).toThrow(/line 1/);
+	});
+
+	it("should read rank tables packaged by js-tiktoken", () => {
+		const ranks = parsePackedRanks({ bpe_ranks: "! 0 YQ== Yg==\n! 7 YWI=" });
+		expect([...ranks]).toEqual([
+			["a", 0],
+			["b", 1],
+			["ab", 7],
+		]);
+	});
+
+	it("should truncate without splitting multi-byte characters", () => {
+		const text = "👋🏽👋🏽👋🏽";
+		for (let max = 0; max <= cl100kBase.count(text); max++) {
+			const result = cl100kBase.truncate(text, max);
+			expect(text.startsWith(result)).toBe(true);
+			expect(result).not.toContain("�");
+			expect(cl100kBase.count(result)).toBeLessThanOrEqual(max);
+		}
+	});
+});
+
+describe("encodingNameForModel", () => {
+	it.each([
+		["gpt-4o", "o200k_base"],
+		["gpt-4o-mini-2024-07-18", "o200k_base"],
+		["o1-mini", "o200k_base"],
+		["openai/gpt-4.1", "o200k_base"],
+		["gpt-4", "cl100k_base"],
+		["gpt-4-turbo", "cl100k_base"],
+		["openai/gpt-3.5-turbo", "cl100k_base"],
+		["text-embedding-3-small", "cl100k_base"],
+	])("should map %s to %s", (model, encoding) => {
+		expect(encodingNameForModel(model)).toBe(encoding);
+	});
+
+	it("should not match a prefix inside a name segment", () => {
+		expect(encodingNameForModel("o100")).toBeUndefined();
+		expect(encodingNameForModel("claude-sonnet")).toBeUndefined();
+	});
+});
+
+describe("Tokenizer", () => {
+	it("should select encodings per model", () => {
+		const tokenizer = makeTokenizer();
+		expect(tokenizer.encodingFor("gpt-4o")).toBe(o200kBase);
+		expect(tokenizer.encodingFor("gpt-4")).toBe(cl100kBase);
+		expect(tokenizer.encodingFor("unknown-model")).toBe(cl100kBase);
+		expect(tokenizer.encodingFor()).toBe(cl100kBase);
+	});
+
+	it("should use custom encodings, model mappings and default", () => {
+		const byName = makeTokenizer({ encodings: { cl100k_base: tiny } });
+		expect(byName.encodingFor("gpt-4")).toBe(tiny);
+		expect(byName.encodingFor()).toBe(tiny);
+
+		const byModel = makeTokenizer({
+			models: { "my-model": tiny },
+			defaultEncoding: o200kBase,
+		});
+		expect(byModel.encodingFor("my-model")).toBe(tiny);
+		expect(byModel.encodingFor("unknown-model")).toBe(o200kBase);
+	});
+
+	it("should count tokens through the service", async () => {
+		const count = await Effect.runPromise(
+			Tokenizer.countTokens("Hello, world!", "gpt-4o").pipe(
+				Effect.provide(TokenizerLayer),
+			),
+		);
+		expect(count).toBe(4);
+
+		const custom = await Effect.runPromise(
+			Tokenizer.countTokens("abababab").pipe(
+				Effect.provide(makeTokenizerLayer({ defaultEncoding: tiny })),
+			),
+		);
+		expect(custom).toBe(2);
+	});
+
+	it("should keep text within the budget unchanged", async () => {
+		const tokenizer = makeTokenizer();
+		const result = await Effect.runPromise(
+			tokenizer.truncateToTokens("hello world", 2, { ellipsis: "..." }),
+		);
+		expect(result).toBe("hello world");
+	});
+
+	it("should cut at token boundaries with the ellipsis in the budget", async () => {
+		const tokenizer = makeTokenizer();
+		const text = "The quick brown fox jumps over the lazy dog. ".repeat(20);
+		for (const max of [1, 5, 17, 40]) {
+			const result = await Effect.runPromise(
+				tokenizer.truncateToTokens(text, max, { ellipsis: "..." }),
+			);
+			expect(result.endsWith("...")).toBe(true);
+			expect(text.startsWith(result.slice(0, -3))).toBe(true);
+			expect(cl100kBase.count(result)).toBeLessThanOrEqual(max);
+		}
+	});
+
+	it("should count with the encoding of the given model", async () => {
+		const filters = AIFilters.makeTokenFilters(
+			makeTokenizer({ models: { tiny } }),
+		);
+		expect(await Effect.runPromise(filters.tokenCount("abab", "tiny"))).toBe(1);
+		expect(
+			await Effect.runPromise(
+				filters.truncateToTokens("ab".repeat(10), 3, "", "tiny"),
+			),
+		).toBe("ab".repeat(6));
+	});
+});
+
+describe("PromptService token counting", () => {
+	const prompt = (
+		id: string,
+		content: string,
+		metadata: Partial<PromptTemplate["metadata"]> = {},
+	): PromptTemplate => ({
+		id,
+		name: id,
+		content,
+		metadata: {
+			version: "1.0.0",
+			created: new Date("2025-01-01"),
+			updated: new Date("2025-01-01"),
+			tags: [],
+			...metadata,
+		},
+	});
+
+	const templates = new Map([
+		["greeting", prompt("greeting", "Hello, {{ name }}!", { model: "tiny" })],
+		[
+			"excerpt",
+			prompt("excerpt", "{{ text | truncate_to_tokens: 3, '' }}", {
+				maxTokens: 3,
+			}),
+		],
+		["limited", prompt("limited", "{{ text }}", { maxTokens: 3 })],
+	]);
+
+	const render = (
+		promptId: string,
+		variables: Record<string, unknown>,
+		tokenizer = TokenizerLayer,
+	) =>
+		PromptService.renderPrompt(promptId, variables).pipe(
+			Effect.provide(PromptService.Default),
+			Effect.provide(
+				Layer.mergeAll(
+					createMockPromptLayer(templates),
+					LiquidService.Default,
+					PromptConfigLayer,
+					tokenizer,
+				),
+			),
+		);
+
+	it("should count rendered tokens with the template's model", async () => {
+		const result = await Effect.runPromise(
+			render(
+				"greeting",
+				{ name: "world" },
+				makeTokenizerLayer({ models: { tiny } }),
+			),
+		);
+		expect(result.content).toBe("Hello, world!");
+		expect(result.metadata.tokenCount).toBe(tiny.count("Hello, world!"));
+	});
+
+	it("should truncate with the truncate_to_tokens filter", async () => {
+		const result = await Effect.runPromise(
+			render("excerpt", { text: "one two three four five" }),
+		);
+		expect(result.content).toBe("one two three");
+		expect(result.metadata.tokenCount).toBe(3);
+	});
+
+	it("should fail when the rendered prompt exceeds maxTokens", async () => {
+		const error = await Effect.runPromise(
+			Effect.flip(render("limited", { text: "one two three four" })),
+		);
+		expect(error).toBeInstanceOf(TokenLimitExceededError);
+		expect(error).toMatchObject({ limit: 3, actual: 4 });
+	});
+});
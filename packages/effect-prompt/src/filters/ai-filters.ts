@@ -1,5 +1,9 @@
 import { Effect } from "effect";
-import { LiquidFilterError } from "effect-liquid";
+import type { LiquidFilterError } from "effect-liquid";
+import {
+	makeTokenizer,
+	type TokenizerSchema,
+} from "../services/tokenizer-service.js";
 
 /**
  * Helper function to convert value to string
@@ -11,18 +15,64 @@ function toString(input: unknown): string {
 }
 
 /**
- * Count approximate tokens in text (simple whitespace-based)
- * For production, integrate with tiktoken or similar
+ * Tokenizer used by the filters when none is given (see makeTokenFilters)
+ */
+const defaultTokenizer = makeTokenizer();
+
+/**
+ * Create token filters counting with a tokenizer
+ *
+ * PromptService registers these with its Tokenizer, so custom encodings
+ * also apply inside templates.
+ */
+export function makeTokenFilters(tokenizer: TokenizerSchema) {
+	/**
+	 * Count tokens in text with the encoding of `model`, or the default one
+	 */
+	const tokenCount = (
+		input: unknown,
+		model?: unknown,
+	): Effect.Effect<number, LiquidFilterError> =>
+		tokenizer.countTokens(toString(input), toModel(model));
+
+	/**
+	 * Truncate text to a token budget at a token boundary; the ellipsis
+	 * counts towards the budget
+	 */
+	const truncateToTokens = (
+		input: unknown,
+		maxTokens: unknown = 1000,
+		ellipsis: unknown = "...",
+		model?: unknown,
+	): Effect.Effect<string, LiquidFilterError> =>
+		tokenizer.truncateToTokens(
+			toString(input),
+			typeof maxTokens === "number" ? maxTokens : 1000,
+			{ ellipsis: toString(ellipsis), model: toModel(model) },
+		);
+
+	return { tokenCount, truncateToTokens };
+}
+
+function toModel(model: unknown): string | undefined {
+	return typeof model === "string" && model.length > 0 ? model : undefined;
+}
+
+const defaultTokenFilters = makeTokenFilters(defaultTokenizer);
+
+/**
+ * Count tokens in text with the bundled encodings
+ *
+ * @example
+ * ```liquid
+ * {{ document | tokenCount: "gpt-4o" }}
+ * ```
  */
 export function tokenCount(
 	input: unknown,
+	model?: unknown,
 ): Effect.Effect<number, LiquidFilterError> {
-	return Effect.sync(() => {
-		const text = toString(input);
-		// Simple approximation: ~1.3 tokens per word
-		const words = text.split(/\s+/).filter((w) => w.length > 0).length;
-		return Math.ceil(words * 1.3);
-	});
+	return defaultTokenFilters.tokenCount(input, model);
 }
 
 /**
@@ -49,46 +99,25 @@ export function sanitize(
 }
 
 /**
- * Truncate text to token budget
+ * Truncate text to a token budget with the bundled encodings
+ *
+ * @example
+ * ```liquid
+ * {{ document | truncateToTokens: 500, "...", "gpt-4o" }}
+ * ```
  */
 export function truncateToTokens(
 	input: unknown,
 	maxTokens: unknown = 1000,
 	ellipsis: unknown = "...",
+	model?: unknown,
 ): Effect.Effect<string, LiquidFilterError> {
-	return Effect.gen(function* () {
-		const text = toString(input);
-		const max = typeof maxTokens === "number" ? maxTokens : 1000;
-		const ell = toString(ellipsis);
-
-		// Estimate current tokens
-		const currentTokens = yield* tokenCount(text);
-
-		if (currentTokens <= max) {
-			return text;
-		}
-
-		// Binary search for truncation point
-		const words = text.split(/\s+/);
-		let left = 0;
-		let right = words.length;
-		let best = 0;
-
-		while (left <= right) {
-			const mid = Math.floor((left + right) / 2);
-			const candidate = words.slice(0, mid).join(" ");
-			const candidateTokens = yield* tokenCount(candidate + ell);
-
-			if (candidateTokens <= max) {
-				best = mid;
-				left = mid + 1;
-			} else {
-				right = mid - 1;
-			}
-		}
-
-		return words.slice(0, best).join(" ") + ell;
-	});
+	return defaultTokenFilters.truncateToTokens(
+		input,
+		maxTokens,
+		ellipsis,
+		model,
+	);
 }
 
 /**
@@ -86,10 +86,12 @@ export function filterByRole(
 }
 
 /**
- * Count conversation tokens
+ * Count conversation tokens: message contents plus 4 tokens of role and
+ * formatting overhead per message
  */
 export function conversationTokens(
 	input: unknown,
+	model?: unknown,
 ): Effect.Effect<number, LiquidFilterError> {
 	return Effect.gen(function* () {
 		if (!Array.isArray(input)) {
@@ -99,9 +101,7 @@ export function conversationTokens(
 		let total = 0;
 
 		for (const msg of messages) {
-			const words = msg.content.split(/\s+/).filter((w) => w.length > 0).length;
-			// ~1.3 tokens per word + 4 tokens for role overhead
-			total += Math.ceil(words * 1.3) + 4;
+			total += (yield* AIFilters.tokenCount(msg.content, model)) + 4;
 		}
 
 		return total;
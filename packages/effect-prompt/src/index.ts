@@ -44,8 +44,34 @@ export {
 	type PromptServiceSchema,
 	type PromptStorageServiceSchema,
 	type ValidationServiceSchema,
+	checkPromptTemplate,
+	makePromptTemplateLoader,
+	PromptLiquidLayer,
+	PromptTemplateLoaderLayer,
+	makeTokenizer,
+	makeTokenizerLayer,
+	Tokenizer,
+	TokenizerLayer,
+	type TokenizerOptions,
+	type TokenizerSchema,
+	type TruncateOptions,
 } from "./services/index.js";
 
+// Export BPE encodings
+export {
+	type BpeEncoding,
+	CL100K_PATTERN,
+	cl100kBase,
+	type EncodingSpec,
+	encodingNameForModel,
+	makeBpeEncoding,
+	O200K_PATTERN,
+	o200kBase,
+	type PackedRanks,
+	parsePackedRanks,
+	parseTiktokenRanks,
+} from "./tokenizer/index.js";
+
 // Export config
 export {
 	PromptConfig,
@@ -56,7 +82,7 @@ export {
 // Export filters and tags for extensibility
 export * as AIFilters from "./filters/ai-filters.js";
 export * as ConversationFilters from "./filters/conversation-filters.js";
-export { extendsTag, includeTag } from "./tags/index.js";
+export { extendsTag } from "./tags/index.js";
 
 // Export testing utilities
 export {
@@ -25,6 +25,7 @@ export const PromptMetadataSchema = Schema.Struct({
 	author: Schema.optional(Schema.String),
 	extends: Schema.optional(Schema.String),
 	maxTokens: Schema.optional(Schema.Number),
+	model: Schema.optional(Schema.String),
 });
 
 /**
@@ -8,6 +8,21 @@ export {
 	PromptStorageServiceLayer,
 	type PromptStorageServiceSchema,
 } from "./storage-service.js";
+export { checkPromptTemplate } from "./template-check.js";
+export {
+	makePromptTemplateLoader,
+	PromptLiquidLayer,
+	PromptTemplateLoaderLayer,
+} from "./template-loader.js";
+export {
+	makeTokenizer,
+	makeTokenizerLayer,
+	Tokenizer,
+	TokenizerLayer,
+	type TokenizerOptions,
+	type TokenizerSchema,
+	type TruncateOptions,
+} from "./tokenizer-service.js";
 export {
 	ValidationService,
 	ValidationServiceLayer,
@@ -4,7 +4,7 @@ import { PromptConfig, PromptConfigLayer } from "../config/prompt-config.js";
 import { PromptRenderError, TokenLimitExceededError } from "../errors.js";
 import * as AIFilters from "../filters/ai-filters.js";
 import * as ConversationFilters from "../filters/conversation-filters.js";
-import { extendsTag, includeTag } from "../tags/index.js";
+import { extendsTag } from "../tags/index.js";
 import type {
 	Conversation,
 	RenderedPrompt,
@@ -14,6 +14,7 @@ import {
 	PromptStorageService,
 	PromptStorageServiceLayer,
 } from "./storage-service.js";
+import { Tokenizer, TokenizerLayer } from "./tokenizer-service.js";
 import {
 	ValidationService,
 	ValidationServiceLayer,
@@ -49,13 +50,21 @@ export class PromptService extends Effect.Service<PromptServiceSchema>()(
 			const storage = yield* PromptStorageService;
 			const validation = yield* ValidationService;
 			const config = yield* PromptConfig;
+			const tokenizer = yield* Tokenizer;
 
-			// Register AI-specific filters
-			yield* liquid.registerFilter("tokenCount", AIFilters.tokenCount);
+			// Register AI-specific filters; token filters count with the
+			// Tokenizer and are also available in snake_case
+			const tokenFilters = AIFilters.makeTokenFilters(tokenizer);
+			yield* liquid.registerFilter("tokenCount", tokenFilters.tokenCount);
+			yield* liquid.registerFilter("token_count", tokenFilters.tokenCount);
 			yield* liquid.registerFilter("sanitize", AIFilters.sanitize);
 			yield* liquid.registerFilter(
 				"truncateToTokens",
-				AIFilters.truncateToTokens,
+				tokenFilters.truncateToTokens,
+			);
+			yield* liquid.registerFilter(
+				"truncate_to_tokens",
+				tokenFilters.truncateToTokens,
 			);
 			yield* liquid.registerFilter("stripMarkdown", AIFilters.stripMarkdown);
 			yield* liquid.registerFilter("jsonEscape", AIFilters.jsonEscape);
@@ -76,9 +85,9 @@ export class PromptService extends Effect.Service<PromptServiceSchema>()(
 				ConversationFilters.conversationTokens,
 			);
 
-			// Register composition tags
+			// Register composition tags; include, render and layout are built in
+			// and load prompts through the TemplateLoader (see PromptLiquidLayer)
 			yield* liquid.registerTag("extends", extendsTag);
-			yield* liquid.registerTag("include", includeTag);
 
 			const renderPrompt = (
 				promptId: string,
@@ -125,7 +134,10 @@ export class PromptService extends Effect.Service<PromptServiceSchema>()(
 					// Check token limit
 					const defaultMaxTokens = yield* config.getDefaultMaxTokens();
 					const maxTokens = template.metadata.maxTokens ?? defaultMaxTokens;
-					const tokenCount = yield* AIFilters.tokenCount(rendered);
+					const tokenCount = yield* tokenizer.countTokens(
+						rendered,
+						template.metadata.model,
+					);
 
 					if (tokenCount > maxTokens) {
 						yield* Effect.fail(
@@ -204,4 +216,5 @@ export class PromptService extends Effect.Service<PromptServiceSchema>()(
 export const PromptServiceLayer = Layer.mergeAll(
 	PromptStorageServiceLayer,
 	ValidationServiceLayer,
+	TokenizerLayer,
 ).pipe(Layer.provide(Layer.service(PromptService)));
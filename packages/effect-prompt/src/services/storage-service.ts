@@ -6,12 +6,17 @@ import type {
 	NotFoundError as StorageNotFoundError,
 } from "effect-storage";
 import { PromptConfig, PromptConfigLayer } from "../config/prompt-config.js";
-import { PromptNotFoundError, StorageError } from "../errors.js";
+import {
+	PromptNotFoundError,
+	StorageError,
+	type VariableValidationError,
+} from "../errors.js";
 import type { PromptTemplate, QueryOptions } from "../types.js";
 import {
 	PromptMetadataSchema,
 	type PromptMetadata,
 } from "../schemas/metadata-schema.js";
+import { checkPromptTemplate } from "./template-check.js";
 
 export interface PromptStorageServiceSchema {
 	readonly load: (
@@ -20,7 +25,7 @@ export interface PromptStorageServiceSchema {
 
 	readonly save: (
 		template: PromptTemplate,
-	) => Effect.Effect<void, StorageError>;
+	) => Effect.Effect<void, StorageError | VariableValidationError>;
 
 	readonly list: (
 		options?: QueryOptions,
@@ -92,6 +97,9 @@ export class PromptStorageService extends Effect.Service<PromptStorageServiceSch
 					if (metadata.maxTokens !== undefined) {
 						templateMetadata.maxTokens = metadata.maxTokens;
 					}
+					if (metadata.model !== undefined) {
+						templateMetadata.model = metadata.model;
+					}
 
 					const template: PromptTemplate = {
 						id: promptId,
@@ -108,6 +116,9 @@ export class PromptStorageService extends Effect.Service<PromptStorageServiceSch
 
 			const save = (template: PromptTemplate) =>
 				Effect.gen(function* () {
+					// Reject templates reading variables their schema does not declare
+					yield* checkPromptTemplate(template);
+
 					// Transform domain model to storage format
 					const metadataToSave: PromptMetadata = {
 						name: template.name,
@@ -118,6 +129,7 @@ export class PromptStorageService extends Effect.Service<PromptStorageServiceSch
 						author: template.metadata.author,
 						extends: template.metadata.extends,
 						maxTokens: template.metadata.maxTokens,
+						model: template.metadata.model,
 					};
 
 					// Save via effect-storage
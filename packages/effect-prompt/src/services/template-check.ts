@@ -0,0 +1,40 @@
+import { Effect } from "effect";
+import { checkTemplate } from "effect-liquid";
+import { StorageError, VariableValidationError } from "../errors.js";
+import type { PromptTemplate } from "../types.js";
+
+/**
+ * Check that a prompt only reads variables declared by its variableSchema
+ *
+ * Runs before a prompt is saved, so a template referencing an undeclared
+ * variable is rejected up front instead of rendering it as empty text.
+ * Prompts without a variableSchema are accepted unchecked.
+ */
+export const checkPromptTemplate = (
+	template: PromptTemplate,
+): Effect.Effect<void, VariableValidationError | StorageError> => {
+	if (template.variableSchema === undefined) {
+		return Effect.void;
+	}
+
+	return checkTemplate(template.content, template.variableSchema).pipe(
+		Effect.asVoid,
+		Effect.mapError((err) =>
+			err._tag === "LiquidSchemaError"
+				? new VariableValidationError({
+						message: `Prompt ${template.id}: ${err.message}`,
+						variableName: err.undeclared[0]?.name ?? "",
+						expected: "a variable declared in variableSchema",
+						received: undefined,
+						schemaErrors: err.undeclared,
+						cause: err,
+					})
+				: new StorageError({
+						message: `Failed to parse prompt ${template.id}: ${err.message}`,
+						operation: "write",
+						path: template.id,
+						cause: err,
+					}),
+		),
+	);
+};
@@ -0,0 +1,56 @@
+import { Effect, Layer } from "effect";
+import {
+	LiquidLoaderError,
+	LiquidService,
+	TemplateLoader,
+	type TemplateLoaderSchema,
+} from "effect-liquid";
+import {
+	PromptStorageService,
+	type PromptStorageServiceSchema,
+} from "./storage-service.js";
+
+/**
+ * Create a template loader that resolves partials and layouts by prompt ID
+ *
+ * `{% include "id" %}`, `{% render "id" %}` and `{% layout "id" %}` load the
+ * content of the stored prompt with that ID. The content doubles as the
+ * template's version, so saved and deleted prompts are never served from
+ * LiquidService's parse cache.
+ */
+export const makePromptTemplateLoader = (
+	storage: PromptStorageServiceSchema,
+): TemplateLoaderSchema => {
+	const load = (promptId: string) =>
+		storage.load(promptId).pipe(
+			Effect.map((template) => template.content),
+			Effect.mapError(
+				(err) =>
+					new LiquidLoaderError({
+						message:
+							err._tag === "PromptNotFoundError"
+								? `Template not found: ${promptId}`
+								: `Failed to load template '${promptId}': ${err.message}`,
+						template: promptId,
+						cause: err,
+					}),
+			),
+		);
+
+	return { load, version: load };
+};
+
+/**
+ * TemplateLoader backed by PromptStorageService
+ */
+export const PromptTemplateLoaderLayer = Layer.effect(
+	TemplateLoader,
+	Effect.map(PromptStorageService, makePromptTemplateLoader),
+);
+
+/**
+ * LiquidService whose partials and layouts are loaded from prompt storage
+ */
+export const PromptLiquidLayer = LiquidService.DefaultWithoutDependencies.pipe(
+	Layer.provide(PromptTemplateLoaderLayer),
+);
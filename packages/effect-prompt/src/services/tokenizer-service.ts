@@ -0,0 +1,152 @@
+import { Effect, Layer } from "effect";
+import type { BpeEncoding } from "../tokenizer/bpe.js";
+import {
+	cl100kBase,
+	encodingNameForModel,
+	o200kBase,
+} from "../tokenizer/encodings.js";
+
+/**
+ * Options of Tokenizer.truncateToTokens
+ */
+export interface TruncateOptions {
+	/** Model whose encoding counts the tokens */
+	readonly model?: string | undefined;
+	/** Appended when the text is cut, within the token budget (default "") */
+	readonly ellipsis?: string;
+}
+
+export interface TokenizerSchema {
+	/**
+	 * Encoding used for a model; unknown models and calls without a model use
+	 * the default encoding
+	 */
+	readonly encodingFor: (model?: string) => BpeEncoding;
+	readonly encode: (
+		text: string,
+		model?: string,
+	) => Effect.Effect<readonly number[], never>;
+	readonly decode: (
+		tokens: readonly number[],
+		model?: string,
+	) => Effect.Effect<string, never>;
+	readonly countTokens: (
+		text: string,
+		model?: string,
+	) => Effect.Effect<number, never>;
+	/**
+	 * Cut text to at most `maxTokens` tokens, ellipsis included, at a token
+	 * boundary
+	 */
+	readonly truncateToTokens: (
+		text: string,
+		maxTokens: number,
+		options?: TruncateOptions,
+	) => Effect.Effect<string, never>;
+}
+
+/**
+ * Configuration of a Tokenizer
+ */
+export interface TokenizerOptions {
+	/**
+	 * Encodings by name, replacing or adding to the bundled cl100k_base and
+	 * o200k_base (e.g. ones built from the official tiktoken files)
+	 */
+	readonly encodings?: Readonly<Record<string, BpeEncoding>>;
+	/**
+	 * Encodings of models not recognized by name, or overriding the built-in
+	 * mapping; keys are exact model names
+	 */
+	readonly models?: Readonly<Record<string, BpeEncoding>>;
+	/** Encoding for unknown models (default cl100k_base) */
+	readonly defaultEncoding?: BpeEncoding;
+}
+
+/**
+ * Create a tokenizer selecting encodings per model
+ */
+export const makeTokenizer = (
+	options: TokenizerOptions = {},
+): TokenizerSchema => {
+	const encodings: Record<string, BpeEncoding> = {
+		cl100k_base: cl100kBase,
+		o200k_base: o200kBase,
+		...options.encodings,
+	};
+	const defaultEncoding = options.defaultEncoding ?? encodings.cl100k_base;
+
+	const encodingFor = (model?: string): BpeEncoding => {
+		if (model === undefined) {
+			return defaultEncoding as BpeEncoding;
+		}
+		const name = encodingNameForModel(model);
+		return (
+			options.models?.[model] ??
+			(name === undefined ? undefined : encodings[name]) ??
+			(defaultEncoding as BpeEncoding)
+		);
+	};
+
+	const truncate = (
+		text: string,
+		maxTokens: number,
+		options: TruncateOptions = {},
+	): string => {
+		const encoding = encodingFor(options.model);
+		const ellipsis = options.ellipsis ?? "";
+		if (encoding.count(text) <= maxTokens) {
+			return text;
+		}
+
+		// Tokens can merge across the cut, so recount the joined result
+		let budget = maxTokens - encoding.count(ellipsis);
+		while (budget > 0) {
+			const result = encoding.truncate(text, budget) + ellipsis;
+			if (encoding.count(result) <= maxTokens) {
+				return result;
+			}
+			budget--;
+		}
+		return encoding.truncate(ellipsis, Math.max(0, maxTokens));
+	};
+
+	return {
+		encodingFor,
+		encode: (text, model) => Effect.sync(() => encodingFor(model).encode(text)),
+		decode: (tokens, model) =>
+			Effect.sync(() => encodingFor(model).decode(tokens)),
+		countTokens: (text, model) =>
+			Effect.sync(() => encodingFor(model).count(text)),
+		truncateToTokens: (text, maxTokens, options) =>
+			Effect.sync(() => truncate(text, maxTokens, options)),
+	};
+};
+
+export class Tokenizer extends Effect.Service<TokenizerSchema>()("Tokenizer", {
+	accessors: true,
+	dependencies: [],
+	effect: Effect.sync(() => makeTokenizer()),
+}) {}
+
+export const TokenizerLayer = Tokenizer.Default;
+
+/**
+ * Tokenizer layer with custom encodings or model mappings
+ *
+ * @example
+ * ```typescript
+ * import { readFileSync } from "node:fs";
+ *
+ * const cl100k = makeBpeEncoding({
+ *   name: "cl100k_base",
+ *   pattern: CL100K_PATTERN,
+ *   ranks: readFileSync("cl100k_base.tiktoken", "utf8"),
+ * });
+ * const layer = makeTokenizerLayer({ encodings: { cl100k_base: cl100k } });
+ * ```
+ */
+export const makeTokenizerLayer = (
+	options: TokenizerOptions,
+): Layer.Layer<Tokenizer> =>
+	Layer.succeed(Tokenizer, Tokenizer.make(makeTokenizer(options)));
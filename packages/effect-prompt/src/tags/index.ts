@@ -1,2 +1 @@
 export { extendsTag } from "./extends-tag.js";
-export { includeTag } from "./include-tag.js";
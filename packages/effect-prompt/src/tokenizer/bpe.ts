@@ -0,0 +1,241 @@
+/**
+ * Byte-level BPE encoding, compatible with tiktoken rank files
+ *
+ * Text is split into pieces by the encoding's pattern, each piece is
+ * converted to UTF-8 and its bytes are merged pairwise, lowest rank first,
+ * until no adjacent pair forms a known token. Byte sequences are held as
+ * binary strings (one char per byte) so they can key the rank map.
+ */
+
+const LINE_BREAK = /\r?\n/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const strictDecoder = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Rank table as packaged by js-tiktoken (`js-tiktoken/ranks/<encoding>`)
+ */
+export interface PackedRanks {
+	/** Lines of a marker, the rank of the line's first token and base64 tokens */
+	readonly bpe_ranks: string;
+}
+
+/**
+ * Definition of a BPE encoding
+ */
+export interface EncodingSpec {
+	readonly name: string;
+	/** Splits text into pieces that are merged independently; needs the `g` flag */
+	readonly pattern: RegExp;
+	/**
+	 * Mergeable tokens, either in tiktoken format (one base64 token and its
+	 * rank per line) or as packaged by js-tiktoken. Parsed on first use, so
+	 * bundled tables cost nothing until needed.
+	 */
+	readonly ranks: string | PackedRanks;
+}
+
+/**
+ * A BPE encoding turning text into token ids and back
+ */
+export interface BpeEncoding {
+	readonly name: string;
+	readonly encode: (text: string) => number[];
+	readonly decode: (tokens: readonly number[]) => string;
+	readonly count: (text: string) => number;
+	/**
+	 * Keep the longest prefix of at most `maxTokens` tokens that ends on a
+	 * character boundary
+	 */
+	readonly truncate: (text: string, maxTokens: number) => string;
+}
+
+interface RankTable {
+	readonly ranks: ReadonlyMap<string, number>;
+	readonly tokens: readonly string[];
+}
+
+/**
+ * Parse a tiktoken rank file into a map from byte sequence to rank
+ */
+export function parseTiktokenRanks(data: string): Map<string, number> {
+	const ranks = new Map<string, number>();
+	for (const [index, line] of data.split(LINE_BREAK).entries()) {
+		if (line.length === 0) {
+			continue;
+		}
+		const [token, rank, extra] = line.split(" ");
+		const value = Number(rank);
+		if (
+			token === undefined ||
+			extra !== undefined ||
+			!Number.isInteger(value)
+		) {
+			throw new Error(`Invalid tiktoken rank at line ${index + 1}: ${line}`);
+		}
+		ranks.set(atob(token), value);
+	}
+	return ranks;
+}
+
+/**
+ * Parse a rank table packaged by js-tiktoken into a map from byte sequence
+ * to rank
+ */
+export function parsePackedRanks(ranks: PackedRanks): Map<string, number> {
+	const table = new Map<string, number>();
+	for (const [index, line] of ranks.bpe_ranks.split(LINE_BREAK).entries()) {
+		if (line.length === 0) {
+			continue;
+		}
+		const [, offset, ...tokens] = line.split(" ");
+		const first = Number(offset);
+		if (!Number.isInteger(first)) {
+			throw new Error(`Invalid packed ranks at line ${index + 1}`);
+		}
+		for (const [position, token] of tokens.entries()) {
+			table.set(atob(token), first + position);
+		}
+	}
+	return table;
+}
+
+const toBinary = (bytes: Uint8Array): string => {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return binary;
+};
+
+const fromBinary = (binary: string): Uint8Array =>
+	Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+/**
+ * Merge the bytes of one piece, lowest ranked pair first
+ */
+function bytePairMerge(
+	piece: string,
+	ranks: ReadonlyMap<string, number>,
+): number[] {
+	// Boundaries between the current parts, including both ends
+	const starts = Array.from({ length: piece.length + 1 }, (_, i) => i);
+	const rankAt = (i: number): number =>
+		i + 2 < starts.length
+			? (ranks.get(piece.slice(starts[i], starts[i + 2])) ??
+				Number.POSITIVE_INFINITY)
+			: Number.POSITIVE_INFINITY;
+	const pairRanks = starts.map((_, i) => rankAt(i));
+
+	for (;;) {
+		let min = Number.POSITIVE_INFINITY;
+		let at = -1;
+		for (let i = 0; i < pairRanks.length - 2; i++) {
+			const rank = pairRanks[i] as number;
+			if (rank < min) {
+				min = rank;
+				at = i;
+			}
+		}
+		if (at === -1) {
+			break;
+		}
+
+		starts.splice(at + 1, 1);
+		pairRanks.splice(at + 1, 1);
+		pairRanks[at] = rankAt(at);
+		if (at > 0) {
+			pairRanks[at - 1] = rankAt(at - 1);
+		}
+	}
+
+	const tokens: number[] = [];
+	for (let i = 0; i < starts.length - 1; i++) {
+		const part = piece.slice(starts[i], starts[i + 1]);
+		const rank = ranks.get(part);
+		if (rank === undefined) {
+			throw new Error(`No token for bytes ${JSON.stringify(part)}`);
+		}
+		tokens.push(rank);
+	}
+	return tokens;
+}
+
+/**
+ * Create a BPE encoding from its pattern and tiktoken rank table
+ *
+ * @example
+ * ```typescript
+ * import { readFileSync } from "node:fs";
+ *
+ * // A rank file in tiktoken format, split like cl100k_base
+ * const custom = makeBpeEncoding({
+ *   name: "custom",
+ *   pattern: CL100K_PATTERN,
+ *   ranks: readFileSync("custom.tiktoken", "utf8"),
+ * });
+ * ```
+ */
+export function makeBpeEncoding(spec: EncodingSpec): BpeEncoding {
+	let table: RankTable | undefined;
+	const load = (): RankTable => {
+		if (table === undefined) {
+			const ranks =
+				typeof spec.ranks === "string"
+					? parseTiktokenRanks(spec.ranks)
+					: parsePackedRanks(spec.ranks);
+			const tokens: string[] = [];
+			for (const [bytes, rank] of ranks) {
+				tokens[rank] = bytes;
+			}
+			table = { ranks, tokens };
+		}
+		return table;
+	};
+
+	const encode = (text: string): number[] => {
+		const { ranks } = load();
+		const tokens: number[] = [];
+		for (const [match] of text.matchAll(spec.pattern)) {
+			const piece = toBinary(encoder.encode(match));
+			const rank = ranks.get(piece);
+			if (rank === undefined) {
+				tokens.push(...bytePairMerge(piece, ranks));
+			} else {
+				tokens.push(rank);
+			}
+		}
+		return tokens;
+	};
+
+	const toBytes = (tokens: readonly number[]): Uint8Array => {
+		const { tokens: table } = load();
+		return fromBinary(tokens.map((token) => table[token] ?? "").join(""));
+	};
+
+	const truncate = (text: string, maxTokens: number): string => {
+		const tokens = encode(text);
+		if (tokens.length <= maxTokens) {
+			return text;
+		}
+		// A token may end inside a multi-byte character; drop tokens until the
+		// prefix is valid UTF-8
+		for (let end = Math.max(0, maxTokens); end > 0; end--) {
+			try {
+				return strictDecoder.decode(toBytes(tokens.slice(0, end)));
+			} catch {
+				// Incomplete character at the end of the prefix
+			}
+		}
+		return "";
+	};
+
+	return {
+		name: spec.name,
+		encode,
+		decode: (tokens) => decoder.decode(toBytes(tokens)),
+		count: (text) => encode(text).length,
+		truncate,
+	};
+}
@@ -0,0 +1,74 @@
+import cl100kRanks from "js-tiktoken/ranks/cl100k_base";
+import o200kRanks from "js-tiktoken/ranks/o200k_base";
+import { type BpeEncoding, makeBpeEncoding } from "./bpe.js";
+import { CL100K_PATTERN, O200K_PATTERN } from "./patterns.js";
+
+/**
+ * OpenAI's cl100k_base encoding (GPT-4, GPT-3.5), with the official rank
+ * table as packaged by js-tiktoken
+ */
+export const cl100kBase: BpeEncoding = makeBpeEncoding({
+	name: "cl100k_base",
+	pattern: CL100K_PATTERN,
+	ranks: cl100kRanks,
+});
+
+/**
+ * OpenAI's o200k_base encoding (GPT-4o, GPT-4.1, GPT-5, o-series), with the
+ * official rank table as packaged by js-tiktoken
+ */
+export const o200kBase: BpeEncoding = makeBpeEncoding({
+	name: "o200k_base",
+	pattern: O200K_PATTERN,
+	ranks: o200kRanks,
+});
+
+// A model name prefix must end at a segment boundary
+const SEGMENT_CONTINUATION = /[a-z0-9]/;
+
+/**
+ * Encodings of model families, matched as exact names or name prefixes
+ */
+const MODEL_ENCODINGS: readonly (readonly [
+	prefix: string,
+	encoding: string,
+])[] = [
+	["gpt-5", "o200k_base"],
+	["gpt-4.5", "o200k_base"],
+	["gpt-4.1", "o200k_base"],
+	["gpt-4o", "o200k_base"],
+	["chatgpt-4o", "o200k_base"],
+	["o1", "o200k_base"],
+	["o3", "o200k_base"],
+	["o4-mini", "o200k_base"],
+	["ft:gpt-4o", "o200k_base"],
+	["gpt-4", "cl100k_base"],
+	["gpt-3.5", "cl100k_base"],
+	["gpt-35-turbo", "cl100k_base"],
+	["text-embedding-3", "cl100k_base"],
+	["text-embedding-ada-002", "cl100k_base"],
+	["davinci-002", "cl100k_base"],
+	["babbage-002", "cl100k_base"],
+	["ft:gpt-4", "cl100k_base"],
+	["ft:gpt-3.5-turbo", "cl100k_base"],
+];
+
+/**
+ * Name of the encoding used by a model, or undefined for unknown models
+ *
+ * Provider prefixes such as `openai/gpt-4o` are ignored. A prefix only
+ * matches whole name segments, so `o1-mini` is o200k_base but `o100` is not.
+ */
+export function encodingNameForModel(model: string): string | undefined {
+	const name = model.slice(model.lastIndexOf("/") + 1).toLowerCase();
+	for (const [prefix, encoding] of MODEL_ENCODINGS) {
+		if (
+			name === prefix ||
+			(name.startsWith(prefix) &&
+				!SEGMENT_CONTINUATION.test(name[prefix.length] ?? ""))
+		) {
+			return encoding;
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,10 @@
+export {
+	type BpeEncoding,
+	type EncodingSpec,
+	makeBpeEncoding,
+	type PackedRanks,
+	parsePackedRanks,
+	parseTiktokenRanks,
+} from "./bpe.js";
+export { cl100kBase, encodingNameForModel, o200kBase } from "./encodings.js";
+export { CL100K_PATTERN, O200K_PATTERN } from "./patterns.js";
@@ -0,0 +1,20 @@
+/**
+ * Pre-tokenization patterns of the OpenAI encodings
+ *
+ * JavaScript has no inline `(?i:...)` groups, so the case-insensitive
+ * contraction suffixes are spelled out.
+ */
+
+/**
+ * Splits text like cl100k_base: contractions, letter runs with one leading
+ * non-letter, numbers of up to three digits, punctuation runs and whitespace
+ */
+export const CL100K_PATTERN =
+	/'(?:[sdmtSDMT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Splits text like o200k_base, which also breaks words at case changes and
+ * keeps contractions attached to the word before them
+ */
+export const O200K_PATTERN =
+	/[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]*[\p{Ll}\p{Lm}\p{Lo}\p{M}]+(?:'[sdmtSDMT]|'[lL][lL]|'[vV][eE]|'[rR][eE])?|[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]+[\p{Ll}\p{Lm}\p{Lo}\p{M}]*(?:'[sdmtSDMT]|'[lL][lL]|'[vV][eE]|'[rR][eE])?|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n/]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
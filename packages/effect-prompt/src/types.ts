@@ -24,6 +24,8 @@ export interface PromptMetadata {
 	readonly author?: string;
 	readonly extends?: string;
 	readonly maxTokens?: number;
+	/** Model the prompt targets; selects the encoding counting its tokens */
+	readonly model?: string;
 }
 
 /**
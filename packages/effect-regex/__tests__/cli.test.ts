@@ -74,6 +74,34 @@ describe("CLI Integration Tests", () => {
       expect(result.issues.length).toBeGreaterThan(0);
       expect(result.issues[0]).toHaveProperty("severity", "error");
     });
+
+    it("should report dialect compatibility issues", () => {
+      const output = runCLI('lint "(?<=a)b" --dialect=re2');
+      const result = JSON.parse(output);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toHaveProperty("code", "RE2_LOOKBEHIND");
+    });
+  });
+
+  describe("audit command", () => {
+    it("should pass a linear pattern", () => {
+      const output = runCLI('audit "^[a-z]+$"');
+      const result = JSON.parse(output);
+
+      expect(result.complexity).toBe("linear");
+      expect(result.vulnerable).toBe(false);
+    });
+
+    it("should fail with an attack string for a vulnerable pattern", () => {
+      const output = runCLI('audit "^(a+)+$"', true);
+      const result = JSON.parse(output);
+
+      expect(result.complexity).toBe("exponential");
+      expect(result.vulnerable).toBe(true);
+      expect(result.attack).toHaveProperty("pump");
+      expect(result.attack).toHaveProperty("suffix");
+    });
   });
 
   describe("explain command", () => {
@@ -101,6 +129,19 @@ describe("CLI Integration Tests", () => {
       const output = runCLI("explain unknownPattern", true);
       expect(output).toContain("Unknown standard pattern");
     });
+
+    it("should explain an arbitrary pattern with --regex", () => {
+      const output = runCLI('explain --regex="(\\d+)-\\1"');
+      const result = JSON.parse(output);
+
+      expect(result).toHaveProperty("pattern", "(\\d+)-\\1");
+      expect(result.explanation).toHaveProperty("type", "sequence");
+    });
+
+    it("should point at syntax errors in --regex patterns", () => {
+      const output = runCLI('explain --regex="a(b"', true);
+      expect(output).toContain("Unterminated group at position 1");
+    });
   });
 
   describe("test command", () => {
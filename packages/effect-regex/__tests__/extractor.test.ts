@@ -0,0 +1,260 @@
+/**
+ * Extractor Tests
+ * Tests for matching, decoding, replacing and scanning text
+ */
+
+import { Chunk, Effect, Either, Schema, Stream } from "effect";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { digit, RegexBuilder } from "../src/core/builder.js";
+import {
+  extract,
+  extractAll,
+  type Match,
+  makeScanner,
+  replace,
+} from "../src/core/extractor.js";
+import type {
+  RegexCompilationError,
+  RegexParseError,
+} from "../src/errors/types.js";
+import { SECURITY_PATTERNS } from "../src/std/security-patterns.js";
+
+const date = digit()
+  .exactly(4)
+  .group("year")
+  .then("-")
+  .then(digit().exactly(2).group("month"));
+
+const collect = <A, E>(stream: Stream.Stream<A, E>): Promise<A[]> =>
+  Effect.runPromise(Stream.runCollect(stream)).then(Chunk.toArray);
+
+describe("Extractor", () => {
+  describe("extract", () => {
+    it("should stream matches with named captures", async () => {
+      const matches = await collect(extract(date, "2024-01 and 2025-06"));
+
+      expect(matches).toEqual([
+        {
+          match: "2024-01",
+          index: 0,
+          end: 7,
+          captures: ["2024", "01"],
+          groups: { year: "2024", month: "01" },
+        },
+        {
+          match: "2025-06",
+          index: 12,
+          end: 19,
+          captures: ["2025", "06"],
+          groups: { year: "2025", month: "06" },
+        },
+      ]);
+    });
+
+    it("should type captures from the builder's group names", () => {
+      const stream = extract(date, "");
+
+      expectTypeOf(stream).toEqualTypeOf<
+        Stream.Stream<
+          Match<"year" | "month">,
+          RegexParseError | RegexCompilationError
+        >
+      >();
+    });
+
+    it("should produce matches lazily", async () => {
+      const text = "a1 ".repeat(10_000);
+      const matches = await collect(extract("\\d", text).pipe(Stream.take(2)));
+
+      expect(matches.map((match) => match.index)).toEqual([1, 4]);
+    });
+
+    it("should accept pattern strings and library entries", async () => {
+      const words = await collect(
+        extract("(?<word>[a-z]+)", "Hello World", { flags: "i" })
+      );
+      const ssns = await collect(
+        extract(SECURITY_PATTERNS.usSSN, "id 123-45-6789")
+      );
+
+      expect(words.map((match) => match.groups.word)).toEqual([
+        "Hello",
+        "World",
+      ]);
+      expect(ssns[0]?.groups.ssn).toBe("123-45-6789");
+    });
+
+    it("should fail with the parse error of an invalid pattern string", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(Stream.runCollect(extract("(a", "a")))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("RegexParseError");
+      }
+    });
+  });
+
+  describe("extractAll", () => {
+    const Version = Schema.Struct({
+      major: Schema.NumberFromString,
+      minor: Schema.NumberFromString,
+    });
+    const version = digit()
+      .oneOrMore()
+      .group("major")
+      .then(".")
+      .then(digit().oneOrMore().group("minor"));
+
+    it("should decode the captures of every match", async () => {
+      const versions = await Effect.runPromise(
+        extractAll(version, "v1.2, v3.10", Version)
+      );
+
+      expect(versions).toEqual([
+        { major: 1, minor: 2 },
+        { major: 3, minor: 10 },
+      ]);
+    });
+
+    it("should report the first match that does not decode", async () => {
+      const Small = Schema.Struct({
+        major: Schema.NumberFromString.pipe(Schema.lessThan(3)),
+        minor: Schema.NumberFromString,
+      });
+      const result = await Effect.runPromise(
+        Effect.either(extractAll(version, "v1.2, v3.10", Small))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("ExtractionError");
+        if (result.left._tag === "ExtractionError") {
+          expect(result.left.index).toBe(7);
+          expect(result.left.match).toBe("3.10");
+        }
+      }
+    });
+  });
+
+  describe("replace", () => {
+    it("should replace every match using its captures", async () => {
+      const result = await Effect.runPromise(
+        replace(date, "from 2024-01 to 2025-06", (match) =>
+          [match.groups.month, match.groups.year].join("/")
+        )
+      );
+
+      expect(result).toBe("from 01/2024 to 06/2025");
+    });
+
+    it("should accept effectful replacements", async () => {
+      let tokens = 0;
+      const result = await Effect.runPromise(
+        replace(SECURITY_PATTERNS.usSSN, "a 123-45-6789 b 987-65-4321", () =>
+          Effect.sync(() => `<ssn:${++tokens}>`)
+        )
+      );
+
+      expect(result).toBe("a <ssn:1> b <ssn:2>");
+    });
+
+    it("should leave text without matches unchanged", async () => {
+      const result = await Effect.runPromise(
+        replace("\\d+", "no digits", () => "#")
+      );
+
+      expect(result).toBe("no digits");
+    });
+  });
+
+  describe("makeScanner", () => {
+    const log =
+      "user 123-45-6789 paid with 4111-1111-1111-1111 from 10.0.0.1 ab-ab";
+
+    it("should find the matches of every pattern in one pass", async () => {
+      const matches = await Effect.runPromise(
+        Effect.flatMap(
+          makeScanner({
+            ssn: SECURITY_PATTERNS.usSSN,
+            card: SECURITY_PATTERNS.creditCard,
+            repeat: "(?<word>[a-z]+)-\\k<word>",
+          }),
+          (scanner) => Stream.runCollect(scanner.scan(log))
+        )
+      ).then(Chunk.toArray);
+
+      expect(matches.map((match) => [match.name, match.match.trim()])).toEqual([
+        ["ssn", "123-45-6789"],
+        ["card", "4111-1111-1111-1111"],
+        ["repeat", "ab-ab"],
+      ]);
+      expect(matches[2]?.groups).toEqual({ word: "ab" });
+    });
+
+    it("should keep numbered groups and backreferences per pattern", async () => {
+      const scanner = await Effect.runPromise(
+        makeScanner({
+          pair: "(\\d)\\1",
+          echo: RegexBuilder.lit("x")
+            .then(RegexBuilder.raw("([a-z])"))
+            .then(RegexBuilder.backref(1)),
+        })
+      );
+      const matches = await Effect.runPromise(
+        Stream.runCollect(scanner.scan("12 33 xab xcc"))
+      ).then(Chunk.toArray);
+
+      expect(scanner.names).toEqual(["pair", "echo"]);
+      expect(
+        matches.map((match) => [match.name, match.match, match.captures])
+      ).toEqual([
+        ["pair", "33", ["3"]],
+        ["echo", "xcc", ["c"]],
+      ]);
+    });
+
+    it("should prefer earlier patterns at the same position", async () => {
+      const scanner = await Effect.runPromise(
+        makeScanner({ digits: "\\d+", word: "\\w+" })
+      );
+      const matches = await Effect.runPromise(
+        Stream.runCollect(scanner.scan("42abc"))
+      ).then(Chunk.toArray);
+
+      expect(matches.map((match) => match.name)).toEqual(["digits", "word"]);
+    });
+
+    it("should redact every pattern", async () => {
+      const scanner = await Effect.runPromise(
+        makeScanner({
+          ssn: SECURITY_PATTERNS.usSSN,
+          card: SECURITY_PATTERNS.creditCard,
+        })
+      );
+      const result = await Effect.runPromise(
+        scanner.replace(
+          "ssn 123-45-6789, card 4111-1111-1111-1111",
+          (match) => `[${match.name}]`
+        )
+      );
+
+      expect(result).toBe("ssn [ssn], card [card]");
+    });
+
+    it("should compile the full security pattern set", async () => {
+      const scanner = await Effect.runPromise(makeScanner(SECURITY_PATTERNS));
+
+      expect(scanner.names).toEqual(Object.keys(SECURITY_PATTERNS));
+    });
+
+    it("should fail when a pattern does not parse", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(makeScanner({ ok: "a", broken: "a)" }))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+    });
+  });
+});
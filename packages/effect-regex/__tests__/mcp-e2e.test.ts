@@ -439,14 +439,30 @@ describe("MCP Server E2E", () => {
     expect(response.optimization.iterations).toBeLessThanOrEqual(3);
   });
 
-  it("should reject pattern string optimization (not yet supported)", async () => {
+  it("should optimize pattern strings", async () => {
+    const result = await client.sendMessage("tools/call", {
+      name: "optimize_pattern",
+      arguments: {
+        input: {
+          type: "pattern",
+          pattern: "(?:abc)|(?:abc)",
+        },
+        dialect: "js",
+      },
+    });
+
+    const response = JSON.parse(result.content[0].text);
+    expect(response.after.pattern).toBe("(?:abc)");
+  });
+
+  it("should reject invalid pattern strings", async () => {
     await expect(
       client.sendMessage("tools/call", {
         name: "optimize_pattern",
         arguments: {
           input: {
             type: "pattern",
-            pattern: "[a-z]+",
+            pattern: "[a-z",
           },
           dialect: "js",
         },
@@ -8,12 +8,14 @@ import { describe, expect, it } from "@effect/vitest";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { Effect } from "effect";
 import {
+  handleAuditRegex,
   handleBuildRegex,
   handleConvertRegex,
   handleExplainRegex,
   handleLibraryList,
   handleLintRegex,
   handleOptimizePattern,
+  handleSynthesizeRegex,
   handleTestRegex,
 } from "../src/mcp/tools/index.js";
 
@@ -243,6 +245,78 @@ describe("MCP Tool Handlers - Unit Tests", () => {
           expect(result).toHaveProperty("valid", true);
         }
       }));
+
+    it("should report dialect compatibility issues", () =>
+      Effect.gen(function* () {
+        const result = yield* handleLintRegex({
+          pattern: "(?<=\\$)\\d+",
+          dialect: "re2",
+        });
+
+        expect(result).toHaveProperty("valid", false);
+        expect(result.issues[0]).toHaveProperty("type", "lint");
+        expect(result.issues[0]).toHaveProperty("code", "RE2_LOOKBEHIND");
+      }));
+  });
+
+  describe("handleAuditRegex", () => {
+    it("should report linear patterns as safe", () =>
+      Effect.gen(function* () {
+        const result = yield* handleAuditRegex({ pattern: "^\\d+$" });
+
+        expect(result).toHaveProperty("complexity", "linear");
+        expect(result).toHaveProperty("vulnerable", false);
+        expect(result.attack).toBeUndefined();
+      }));
+
+    it("should return an attack string for vulnerable patterns", () =>
+      Effect.gen(function* () {
+        const result = yield* handleAuditRegex({ pattern: "^\\d+\\d+$" });
+
+        expect(result).toHaveProperty("complexity", "polynomial");
+        expect(result).toHaveProperty("degree", 2);
+        expect(/^\d+\d+$/.test(result.attack.string)).toBe(false);
+      }));
+
+    it("should fail with InvalidParams for syntax errors", () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          handleAuditRegex({ pattern: "(a+" })
+        );
+
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(McpError);
+          expect(result.left.code).toBe(ErrorCode.InvalidParams);
+        }
+      }));
+  });
+
+  describe("handleSynthesizeRegex", () => {
+    it("should synthesize a pattern consistent with the examples", () =>
+      Effect.gen(function* () {
+        const result = yield* handleSynthesizeRegex({
+          positives: ["555-1234", "555-9876"],
+          negatives: ["5551234"],
+        });
+
+        expect(result).toHaveProperty("pattern", "^\\d{3}-\\d{4}$");
+        expect(result).toHaveProperty("dialect", "js");
+        expect(result.test.failed).toBe(0);
+      }));
+
+    it("should fail with InvalidParams for contradictory examples", () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          handleSynthesizeRegex({ positives: ["abc"], negatives: ["abc"] })
+        );
+
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(McpError);
+          expect(result.left.code).toBe(ErrorCode.InvalidParams);
+        }
+      }));
   });
 
   describe("handleConvertRegex", () => {
@@ -302,7 +376,7 @@ describe("MCP Tool Handlers - Unit Tests", () => {
   });
 
   describe("handleExplainRegex", () => {
-    it("should return explanation stub", () =>
+    it("should explain the parsed pattern", () =>
       Effect.gen(function* () {
         const result = yield* handleExplainRegex({
           pattern: "[a-z]+",
@@ -312,10 +386,30 @@ describe("MCP Tool Handlers - Unit Tests", () => {
 
         expect(result).toHaveProperty("pattern", "[a-z]+");
         expect(result).toHaveProperty("explanation");
-        expect(result.explanation).toHaveProperty("type", "pattern");
+        expect(result.explanation).toHaveProperty("type", "quantifier");
         expect(result.explanation).toHaveProperty("description");
-        expect(result.explanation).toHaveProperty("notes");
-        expect(Array.isArray(result.explanation.notes)).toBe(true);
+        expect(result.explanation.children[0]).toHaveProperty(
+          "type",
+          "characterClass"
+        );
+        expect(result).toHaveProperty("formatted");
+      }));
+
+    it("should fail with the position of a syntax error", () =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(
+          handleExplainRegex({ pattern: "(a|b", dialect: "js" })
+        );
+
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(McpError);
+          expect(result.left.code).toBe(ErrorCode.InvalidParams);
+          expect(result.left.data).toHaveProperty("position", {
+            start: 0,
+            end: 1,
+          });
+        }
       }));
 
     it("should default to tree format", () =>
@@ -335,7 +429,7 @@ describe("MCP Tool Handlers - Unit Tests", () => {
           format: "tree",
         });
 
-        expect(result.explanation).toHaveProperty("dialect", "js");
+        expect(result).toHaveProperty("dialect", "js");
       }));
   });
 
@@ -466,11 +560,22 @@ describe("MCP Tool Handlers - Unit Tests", () => {
         }
       }));
 
-    it("should fail for pattern string input (not supported)", () =>
+    it("should optimize pattern string input", () =>
+      Effect.gen(function* () {
+        const result = yield* handleOptimizePattern({
+          input: { type: "pattern", pattern: "(?:abc)|(?:abc)" },
+          dialect: "js",
+        });
+
+        expect(result).toHaveProperty("pattern", "(?:abc)|(?:abc)");
+        expect(result.after.pattern).toBe("(?:abc)");
+      }));
+
+    it("should fail for invalid pattern string input", () =>
       Effect.gen(function* () {
         const result = yield* Effect.either(
           handleOptimizePattern({
-            input: { type: "pattern", pattern: "[a-z]+" },
+            input: { type: "pattern", pattern: "[a-z" },
             dialect: "js",
           })
         );
@@ -478,6 +583,7 @@ describe("MCP Tool Handlers - Unit Tests", () => {
         expect(result._tag).toBe("Left");
         if (result._tag === "Left") {
           expect(result.left).toBeInstanceOf(McpError);
+          expect(result.left.code).toBe(ErrorCode.InvalidParams);
         }
       }));
 
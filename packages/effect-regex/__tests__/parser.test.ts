@@ -0,0 +1,277 @@
+/**
+ * Parser Tests
+ * Tests for parsing regex strings into the AST, per dialect
+ */
+
+import { Effect, Either } from "effect";
+import { describe, expect, it } from "vitest";
+import {
+  alt,
+  anchor,
+  backref,
+  cls,
+  group,
+  lit,
+  lookbehind,
+  noncap,
+  q,
+  raw,
+  seq,
+} from "../src/core/ast.js";
+import { emit, RegexBuilder } from "../src/core/builder.js";
+import type { Dialect } from "../src/core/emitter.js";
+import { explain } from "../src/core/explainer.js";
+import { lint } from "../src/core/linter.js";
+import { optimize } from "../src/core/optimizer.js";
+import { parseRegex } from "../src/core/parser.js";
+import { RegexParseError } from "../src/errors/types.js";
+import { RegexBuilderService } from "../src/services/types.js";
+
+const parseError = (
+  source: string,
+  flags = "",
+  dialect: Dialect = "js"
+): RegexParseError => {
+  try {
+    parseRegex(source, flags, dialect);
+  } catch (error) {
+    if (error instanceof RegexParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected ${source} to fail to parse`);
+};
+
+describe("Parser", () => {
+  describe("Structure", () => {
+    it("should merge literal characters", () => {
+      expect(parseRegex("abc")).toEqual(lit("abc"));
+      expect(parseRegex("a\\.b")).toEqual(lit("a.b"));
+    });
+
+    it("should bind quantifiers to the last character", () => {
+      expect(parseRegex("ab+c")).toEqual(
+        seq(lit("a"), q(lit("b"), 1), lit("c"))
+      );
+      expect(parseRegex("x*?")).toEqual(q(lit("x"), 0, null, true));
+      expect(parseRegex("a{2,5}")).toEqual(q(lit("a"), 2, 5));
+      expect(parseRegex("a{3,}")).toEqual(q(lit("a"), 3, null));
+    });
+
+    it("should keep alternatives in source order", () => {
+      const ast = parseRegex("cat|bat|ant");
+      expect(ast).toEqual({
+        type: "alt",
+        children: [lit("cat"), lit("bat"), lit("ant")],
+      });
+      expect(ast).not.toEqual(alt(lit("cat"), lit("bat"), lit("ant")));
+    });
+
+    it("should parse groups, classes and anchors", () => {
+      expect(parseRegex("^(?<year>\\d{4})-[0-9]+$")).toEqual(
+        seq(
+          anchor("start"),
+          group(q(raw("\\d"), 4, 4), "year"),
+          lit("-"),
+          q(cls("0-9"), 1),
+          anchor("end")
+        )
+      );
+      expect(parseRegex("(?:a|b)?")).toEqual(
+        q(noncap({ type: "alt", children: [lit("a"), lit("b")] }), 0, 1)
+      );
+      expect(parseRegex("[^\\]]")).toEqual(cls("\\]", true));
+      expect(parseRegex("\\bword\\b")).toEqual(
+        seq(anchor("word"), lit("word"), anchor("word"))
+      );
+    });
+
+    it("should parse assertions and backreferences", () => {
+      expect(parseRegex("(?<=\\$)(\\d)\\1")).toEqual(
+        seq(lookbehind(lit("$")), group(raw("\\d")), backref(1))
+      );
+      expect(parseRegex("(?<q>['\"]).*\\k<q>")).toEqual(
+        seq(group(cls("'\""), "q"), q(raw("."), 0), backref("q"))
+      );
+    });
+
+    it("should represent an empty alternative as an empty literal", () => {
+      expect(parseRegex("a|")).toEqual({
+        type: "alt",
+        children: [lit("a"), lit("")],
+      });
+    });
+
+    it("should treat unmatched numeric escapes as octal in sloppy mode", () => {
+      expect(parseRegex("\\1")).toEqual({ type: "lit", value: "\\1" });
+      expect(parseRegex("(a)\\1")).toEqual(seq(group(lit("a")), backref(1)));
+    });
+  });
+
+  describe("Round trip", () => {
+    const patterns: readonly [string, Dialect][] = [
+      ["^[\\w.+-]+@[\\w-]+\\.[a-z]{2,}$", "js"],
+      ["(?<year>\\d{4})-(?<month>\\d{2})", "js"],
+      ["\\x41\\u00e9\\n\\t", "js"],
+      ["(?=.*\\d)(?!.*\\s).{8,}", "js"],
+      ["\\p{Lu}\\p{Ll}+", "js"],
+      ["a++b*+", "pcre"],
+      ["(?>abc|ab)c", "pcre"],
+      ["(?i)abc(?-i:d)", "pcre"],
+      ["(?P<word>\\w+)", "pcre"],
+      ["[[:alpha:]]+\\z", "re2"],
+    ];
+
+    for (const [source, dialect] of patterns) {
+      it(`should emit ${source} (${dialect}) unchanged`, () => {
+        const ast = parseRegex(source, dialect === "js" ? "u" : "", dialect);
+        const emitted = emit(RegexBuilder.fromAst(ast), dialect).pattern;
+        expect(emitted).toBe(source.replace("(?P<", "(?<"));
+      });
+    }
+  });
+
+  describe("Errors", () => {
+    it("should report the position of syntax errors", () => {
+      const cases: readonly [string, string, number][] = [
+        ["(a|b", "Unterminated group", 0],
+        ["ab)", "Unmatched ')'", 2],
+        ["a{5,2}", "Numbers out of order", 1],
+        ["x[b-a]", "Range out of order", 2],
+        ["ab[cd", "Unterminated character class", 2],
+        ["a|*b", "Nothing to repeat", 2],
+        ["(?<n>a)(?<n>b)", "Duplicate capture group name", 10],
+        ["^*", "Nothing to repeat", 0],
+      ];
+
+      for (const [source, reason, start] of cases) {
+        const error = parseError(source);
+        expect(error.reason).toContain(reason);
+        expect(error.position?.start).toBe(start);
+        expect(error.message).toContain(`at position ${start}`);
+      }
+    });
+
+    it("should reject trailing backslashes", () => {
+      expect(parseError("abc\\").position).toEqual({ start: 3, end: 4 });
+    });
+
+    it("should reject invalid and duplicate flags", () => {
+      expect(parseError("a", "gg").reason).toContain("Duplicate flag");
+      expect(parseError("a", "x").reason).toContain("Invalid flag");
+      expect(parseError("a", "uv").reason).toContain("cannot be combined");
+      expect(parseError("a", "g", "re2").reason).toContain("Invalid flag");
+    });
+
+    it("should apply the stricter unicode mode syntax", () => {
+      expect(parseRegex("a{")).toEqual(lit("a{"));
+      expect(parseError("a{", "u").reason).toContain("Lone quantifier");
+      expect(parseError("\\1", "u").reason).toContain("Invalid");
+      expect(parseError("\\q", "u").reason).toContain("Invalid escape");
+      expect(parseError("(?=a)*", "u").reason).toBe("Nothing to repeat");
+    });
+  });
+
+  describe("Dialects", () => {
+    it("should accept PCRE-only syntax only in PCRE", () => {
+      expect(parseRegex("(?P=n)", "", "pcre")).toEqual(backref("n"));
+      expect(parseRegex("\\Qa.b\\E", "", "pcre")).toEqual(lit("a.b"));
+      expect(parseRegex("(?#comment)a", "", "pcre")).toEqual(lit("a"));
+      expect(parseError("(?>a)").reason).toBe("Invalid group");
+      expect(parseError("(?>a)", "", "re2").reason).toBe("Invalid group");
+    });
+
+    it("should resolve relative PCRE backreferences", () => {
+      expect(parseRegex("(a)(b)\\g{-1}\\g1", "", "pcre")).toEqual(
+        seq(group(lit("a")), group(lit("b")), backref(2), backref(1))
+      );
+    });
+
+    it("should ignore whitespace and comments in PCRE extended mode", () => {
+      expect(parseRegex("a b + # one or more b\n c", "x", "pcre")).toEqual(
+        seq(lit("a"), q(lit("b"), 1), lit("c"))
+      );
+    });
+
+    it("should treat a leading ] as a literal in RE2 and PCRE classes", () => {
+      expect(parseRegex("[]a]", "", "re2")).toEqual(cls("]a"));
+      expect(parseRegex("[]a]")).toEqual(seq(cls(""), lit("a]")));
+    });
+
+    it("should enforce the RE2 repetition limit", () => {
+      expect(parseError("a{1001}", "", "re2").reason).toContain("1000");
+      expect(parseRegex("a{1001}")).toEqual(q(lit("a"), 1001, 1001));
+    });
+
+    it("should leave RE2 feature gaps to the linter", () => {
+      const ast = parseRegex("(?<=a)b", "", "re2");
+      expect(ast).toEqual(seq(lookbehind(lit("a")), lit("b")));
+      expect(lint(ast, "re2").issues.map((issue) => issue.code)).toContain(
+        "RE2_LOOKBEHIND"
+      );
+    });
+
+    it("should accept v-mode class set operations", () => {
+      expect(parseRegex("[[a-z]--[aeiou]]", "v")).toEqual(
+        cls("[a-z]--[aeiou]")
+      );
+    });
+  });
+
+  describe("String input", () => {
+    it("should lint a pattern string", () => {
+      expect(lint("[a-z]+", "js")).toEqual({ valid: true, issues: [] });
+
+      const result = lint("(a|b", "js");
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toMatchObject({
+        code: "SYNTAX_ERROR",
+        severity: "error",
+        position: { start: 0, end: 1 },
+      });
+
+      expect(lint("(a)\\2", "pcre").issues[0]?.code).toBe("UNDEFINED_BACKREF");
+      expect(lint("(?<n>a)", "re2").issues[0]?.code).toBe("RE2_NAMED_GROUPS");
+    });
+
+    it("should explain a pattern string", () => {
+      const explanation = explain("\\d+|[a-z]", {
+        format: "tree",
+        dialect: "js",
+      });
+      expect(explanation.type).toBe("alternation");
+      expect(explanation.children?.[0]?.children?.[0]?.description).toBe(
+        "Matches any digit"
+      );
+      expect(() => explain("(", { format: "tree", dialect: "js" })).toThrow(
+        RegexParseError
+      );
+    });
+
+    it("should optimize a pattern string", () => {
+      const result = optimize("(?:abc)|(?:abc)", { dialect: "pcre" });
+      expect(emit(RegexBuilder.fromAst(result.optimized)).pattern).toBe(
+        "(?:abc)"
+      );
+    });
+
+    it("should parse through RegexBuilderService", async () => {
+      const program = Effect.gen(function* () {
+        const service = yield* RegexBuilderService;
+        const ast = yield* service.parse("a+", "i");
+        const failed = yield* Effect.either(service.parse("a)"));
+        return { ast, failed };
+      }).pipe(Effect.provide(RegexBuilderService.Default));
+
+      const { ast, failed } = await Effect.runPromise(program);
+
+      expect(ast).toEqual(q(lit("a"), 1));
+      expect(Either.isLeft(failed)).toBe(true);
+      if (Either.isLeft(failed)) {
+        expect(failed.left._tag).toBe("RegexParseError");
+        expect(failed.left.position).toEqual({ start: 1, end: 2 });
+      }
+    });
+  });
+});
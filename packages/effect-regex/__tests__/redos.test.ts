@@ -0,0 +1,211 @@
+/**
+ * ReDoS Analysis Tests
+ * Tests complexity classification and attack string generation
+ */
+
+import { describe, expect, it } from "vitest";
+import { lit, q, seq } from "../src/core/ast.js";
+import { lint } from "../src/core/linter.js";
+import { analyzeRedos } from "../src/core/redos.js";
+import { RegexParseError } from "../src/errors/types.js";
+
+const ONLY_A = /^a+$/;
+const ONLY_SPACES = /^\s+$/;
+const TRAILING_SPACES = /\s*$/;
+
+/**
+ * The attack string with a small repeat count, so it can be matched
+ * without triggering the blowup
+ */
+const shortAttack = (pattern: string, flags = "", times = 3): string => {
+  const { attack } = analyzeRedos(pattern, { flags });
+  if (!attack) {
+    throw new Error(`Expected an attack for ${pattern}`);
+  }
+  return attack.prefix + attack.pump.repeat(times) + attack.suffix;
+};
+
+describe("ReDoS analysis", () => {
+  describe("Exponential patterns", () => {
+    const patterns = [
+      "^(a+)+$",
+      "(a|a)*b",
+      "^(a|aa)+$",
+      "^(\\w+\\s?)*$",
+      "(x+x+)+y",
+      "^(a*)*$",
+      "^([a-zA-Z0-9._%-]+)+@example\\.com$",
+      "^(a+)+\\b",
+      "^(a+)+(?=b)",
+    ];
+
+    for (const pattern of patterns) {
+      it(`should classify ${pattern} as exponential`, () => {
+        const result = analyzeRedos(pattern);
+
+        expect(result.complexity).toBe("exponential");
+        expect(result.vulnerable).toBe(true);
+        expect(result.degree).toBeUndefined();
+      });
+    }
+
+    it("should build an attack string the pattern rejects", () => {
+      for (const pattern of patterns) {
+        for (const times of [1, 2, 5]) {
+          expect(
+            new RegExp(pattern).test(shortAttack(pattern, "", times))
+          ).toBe(false);
+        }
+      }
+    });
+
+    it("should repeat the pump enough to take exponential time", () => {
+      const { attack } = analyzeRedos("^(a+)+$");
+
+      expect(attack?.repeat).toBe(30);
+      expect(attack?.pump).toMatch(ONLY_A);
+      expect(attack?.string).toBe(
+        `${attack?.prefix}${attack?.pump.repeat(30)}${attack?.suffix}`
+      );
+    });
+  });
+
+  describe("Polynomial patterns", () => {
+    it("should find the degree of chained loops", () => {
+      expect(analyzeRedos("^\\d+\\d+$")).toMatchObject({
+        complexity: "polynomial",
+        degree: 2,
+      });
+      expect(analyzeRedos("^a*a*a*$")).toMatchObject({
+        complexity: "polynomial",
+        degree: 3,
+      });
+    });
+
+    it("should account for the retry at every offset of unanchored patterns", () => {
+      expect(analyzeRedos("\\s+$")).toMatchObject({
+        complexity: "polynomial",
+        degree: 2,
+      });
+      expect(analyzeRedos("^\\s+$").complexity).toBe("linear");
+    });
+
+    it("should count loops that can match empty before a failing anchor", () => {
+      const result = analyzeRedos("\\s*$");
+
+      expect(result).toMatchObject({ complexity: "polynomial", degree: 2 });
+      // The pattern matches, but only the empty string after the suffix
+      const attack = shortAttack("\\s*$");
+      expect(TRAILING_SPACES.exec(attack)?.index).toBe(attack.length);
+      expect(result.attack?.pump).toMatch(ONLY_SPACES);
+    });
+
+    it("should build an attack string the pattern rejects", () => {
+      for (const pattern of ["^\\d+\\d+$", "\\s+$", "a+b", "^a*a*a*$"]) {
+        expect(new RegExp(pattern).test(shortAttack(pattern))).toBe(false);
+      }
+    });
+
+    it("should size the attack to the degree", () => {
+      expect(analyzeRedos("^\\d+\\d+$").attack?.repeat).toBe(10_000);
+      expect(analyzeRedos("^a*a*a*$").attack?.repeat).toBe(465);
+    });
+  });
+
+  describe("Linear patterns", () => {
+    const patterns = [
+      "^[a-z]+$",
+      "^\\d+\\.\\d+$",
+      "^(?:a|b)*c",
+      "^([a-z]|[A-Z])+!$",
+      "^(a|ab)*c$",
+      '^(?:[^"\\\\]|\\\\.)*$',
+      "\\d+\\d+",
+      "a*",
+      "^(a+)+(?!a)",
+      "\\b\\w+\\b",
+    ];
+
+    for (const pattern of patterns) {
+      it(`should classify ${pattern} as linear`, () => {
+        const result = analyzeRedos(pattern);
+
+        expect(result.complexity).toBe("linear");
+        expect(result.vulnerable).toBe(false);
+        expect(result.attack).toBeUndefined();
+      });
+    }
+
+    it("should treat every pattern as linear in RE2", () => {
+      const result = analyzeRedos("^(a+)+$", { dialect: "re2" });
+
+      expect(result.complexity).toBe("linear");
+      expect(result.notes[0]).toContain("RE2");
+    });
+  });
+
+  describe("Flags and dialects", () => {
+    it("should apply case-insensitive matching", () => {
+      expect(analyzeRedos("^(a|A)+$").complexity).toBe("linear");
+      expect(analyzeRedos("^(a|A)+$", { flags: "i" }).complexity).toBe(
+        "exponential"
+      );
+    });
+
+    it("should treat atomic groups as a single step", () => {
+      const result = analyzeRedos("^(?>a+)+$", { dialect: "pcre" });
+
+      expect(result.complexity).toBe("linear");
+      expect(result.notes.some((note) => note.includes("(?>a+)"))).toBe(true);
+    });
+
+    it("should note approximated constructs", () => {
+      const result = analyzeRedos("^(\\w)(?=x)\\1$");
+
+      expect(result.notes).toContain(
+        "Backreferences are treated as matching the empty string"
+      );
+      expect(result.notes).toContain(
+        "Assertions are assumed to hold when looking for ambiguity and to fail when checking the attack"
+      );
+    });
+  });
+
+  describe("Input", () => {
+    it("should analyze builder ASTs", () => {
+      const ast = seq(q(lit("a"), 1), q(lit("a"), 1), lit("b"));
+
+      // Two loops, plus the retry at every offset
+      expect(analyzeRedos(ast)).toMatchObject({
+        complexity: "polynomial",
+        degree: 3,
+      });
+    });
+
+    it("should throw RegexParseError for invalid patterns", () => {
+      expect(() => analyzeRedos("(a+")).toThrow(RegexParseError);
+    });
+  });
+
+  describe("Linter", () => {
+    it("should report exponential backtracking with the attack", () => {
+      const issue = lint("^(a+)+$", "js").issues[0];
+
+      expect(issue?.code).toBe("CAT_BACKTRACK");
+      expect(issue?.severity).toBe("warning");
+      expect(issue?.message).toContain("× n");
+    });
+
+    it("should report polynomial backtracking with its degree", () => {
+      const issue = lint("^\\d+\\d+$", "js").issues[0];
+
+      expect(issue?.code).toBe("POLY_BACKTRACK");
+      expect(issue?.message).toContain("O(n^2)");
+    });
+
+    it("should not report safe patterns", () => {
+      expect(lint("^\\w+@\\w+\\.com$", "js").issues).toEqual([]);
+      expect(lint("^(a+)+$", "re2").issues).toEqual([]);
+    });
+  });
+});
@@ -9,6 +9,8 @@ import {
   BUILD_REGEX_SCHEMA,
   TEST_REGEX_SCHEMA,
   LINT_REGEX_SCHEMA,
+  AUDIT_REGEX_SCHEMA,
+  SYNTHESIZE_REGEX_SCHEMA,
   CONVERT_REGEX_SCHEMA,
   EXPLAIN_REGEX_SCHEMA,
   LIBRARY_LIST_SCHEMA,
@@ -213,6 +215,42 @@ describe("effect-regex MCP Tool Schemas", () => {
     });
   });
 
+  describe("AUDIT_REGEX_SCHEMA", () => {
+    it("should have correct tool name", () => {
+      expect(AUDIT_REGEX_SCHEMA.name).toBe("audit_regex");
+    });
+
+    it("should accept pattern, dialect and flags", () => {
+      const properties = AUDIT_REGEX_SCHEMA.inputSchema.properties;
+      expect(properties).toHaveProperty("pattern");
+      expect(properties).toHaveProperty("flags");
+      expect(properties.dialect.enum).toEqual(["js", "re2", "pcre"]);
+    });
+
+    it("should require pattern", () => {
+      expect(AUDIT_REGEX_SCHEMA.inputSchema.required).toEqual(["pattern"]);
+    });
+  });
+
+  describe("SYNTHESIZE_REGEX_SCHEMA", () => {
+    it("should have correct tool name", () => {
+      expect(SYNTHESIZE_REGEX_SCHEMA.name).toBe("synthesize_regex");
+    });
+
+    it("should accept example arrays and dialect", () => {
+      const properties = SYNTHESIZE_REGEX_SCHEMA.inputSchema.properties;
+      expect(properties.positives.type).toBe("array");
+      expect(properties.negatives.type).toBe("array");
+      expect(properties.dialect.enum).toEqual(["js", "re2", "pcre"]);
+    });
+
+    it("should require positives", () => {
+      expect(SYNTHESIZE_REGEX_SCHEMA.inputSchema.required).toEqual([
+        "positives",
+      ]);
+    });
+  });
+
   describe("CONVERT_REGEX_SCHEMA", () => {
     it("should have correct tool name", () => {
       expect(CONVERT_REGEX_SCHEMA.name).toBe("convert_regex");
@@ -391,6 +429,8 @@ describe("effect-regex MCP Tool Schemas", () => {
       expect(ALL_TOOLS).toContain(BUILD_REGEX_SCHEMA);
       expect(ALL_TOOLS).toContain(TEST_REGEX_SCHEMA);
       expect(ALL_TOOLS).toContain(LINT_REGEX_SCHEMA);
+      expect(ALL_TOOLS).toContain(AUDIT_REGEX_SCHEMA);
+      expect(ALL_TOOLS).toContain(SYNTHESIZE_REGEX_SCHEMA);
       expect(ALL_TOOLS).toContain(CONVERT_REGEX_SCHEMA);
       expect(ALL_TOOLS).toContain(EXPLAIN_REGEX_SCHEMA);
       expect(ALL_TOOLS).toContain(LIBRARY_LIST_SCHEMA);
@@ -398,7 +438,7 @@ describe("effect-regex MCP Tool Schemas", () => {
     });
 
     it("should have correct length", () => {
-      expect(ALL_TOOLS.length).toBe(7);
+      expect(ALL_TOOLS.length).toBe(9);
     });
 
     it("should have unique tool names", () => {
@@ -423,7 +463,7 @@ describe("effect-regex MCP Tool Schemas", () => {
       for (const tool of ALL_TOOLS) {
         count++;
       }
-      expect(count).toBe(7);
+      expect(count).toBe(9);
     });
   });
 
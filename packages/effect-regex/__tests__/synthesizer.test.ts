@@ -0,0 +1,158 @@
+/**
+ * Synthesizer Tests
+ * Tests for inferring patterns from positive and negative samples
+ */
+
+import { Effect, Either } from "effect";
+import { describe, expect, it } from "vitest";
+import { cls, lit, q, raw, seq } from "../src/core/ast.js";
+import {
+  type SynthesisOptions,
+  type SynthesisResult,
+  synthesize,
+} from "../src/core/synthesizer.js";
+import { RegexSynthesisError } from "../src/errors/types.js";
+
+const run = (options: SynthesisOptions): Promise<SynthesisResult> =>
+  Effect.runPromise(synthesize(options));
+
+const failure = async (
+  options: SynthesisOptions
+): Promise<RegexSynthesisError> => {
+  const result = await Effect.runPromise(Effect.either(synthesize(options)));
+  if (Either.isRight(result)) {
+    throw new Error(`Expected synthesis to fail, got ${result.right.pattern}`);
+  }
+  return result.left;
+};
+
+/** Samples the synthesized pattern gets wrong */
+const mismatches = (
+  result: SynthesisResult,
+  positives: readonly string[],
+  negatives: readonly string[]
+): string[] => {
+  const regex = new RegExp(result.pattern);
+  return [
+    ...positives.filter((sample) => !regex.test(sample)),
+    ...negatives.filter((sample) => regex.test(sample)),
+  ];
+};
+
+describe("Synthesizer", () => {
+  describe("Smallest pattern", () => {
+    it("should generalize digits to a class", async () => {
+      const result = await run({
+        positives: ["123", "45", "7"],
+        negatives: ["abc", "12a"],
+      });
+
+      expect(result.pattern).toBe("^\\d+$");
+      expect(result.ast).toEqual(q(raw("\\d"), 1));
+      expect(result.size).toBe(2);
+      expect(result.fallback).toBe(false);
+    });
+
+    it("should prefer exact counts when negatives rule out looser ones", async () => {
+      const result = await run({
+        positives: ["555-1234", "555-9876"],
+        negatives: ["5551234"],
+      });
+
+      expect(result.pattern).toBe("^\\d{3}-\\d{4}$");
+      expect(result.ast).toEqual(
+        seq(q(raw("\\d"), 3, 3), lit("-"), q(raw("\\d"), 4, 4))
+      );
+    });
+
+    it("should keep literals shared by every positive", async () => {
+      const result = await run({
+        positives: ["#fff", "#a0b1c2"],
+        negatives: ["fff", "#ggg"],
+      });
+
+      expect(result.pattern).toBe("^#[0-9a-f]+$");
+      expect(result.ast).toEqual(seq(lit("#"), q(cls("0-9a-f"), 1)));
+    });
+
+    it("should escape special characters in literals", async () => {
+      const positives = ["a.b", "c.d"];
+      const negatives = ["ab", "axb"];
+      const result = await run({ positives, negatives });
+
+      expect(result.pattern).toBe("^[a-z]\\.[a-z]$");
+      expect(mismatches(result, positives, negatives)).toEqual([]);
+    });
+
+    it("should alternate when no class separates the samples", async () => {
+      const positives = ["foo", "bar"];
+      const negatives = ["baz", "for"];
+      const result = await run({ positives, negatives });
+
+      expect(result.pattern).toContain("|");
+      expect(mismatches(result, positives, negatives)).toEqual([]);
+    });
+
+    it("should match the empty string through optional quantifiers", async () => {
+      const positives = ["", "ab", "abab"];
+      const negatives = ["a", "aba"];
+      const result = await run({ positives, negatives });
+
+      expect(result.pattern).toBe("^(?:ab)*$");
+      expect(mismatches(result, positives, negatives)).toEqual([]);
+    });
+  });
+
+  describe("Verification", () => {
+    it("should report the testRegex run over all samples", async () => {
+      const result = await run({
+        positives: ["cat", "cats"],
+        negatives: ["dog"],
+      });
+
+      expect(result.test.total).toBe(3);
+      expect(result.test.passed).toBe(3);
+      expect(result.test.failed).toBe(0);
+    });
+
+    it("should fall back to the alternated positives past the size limit", async () => {
+      const positives = ["user@example.com", "jane.doe@mail.org"];
+      const negatives = ["user@", "plain"];
+      const result = await run({ positives, negatives, maxSize: 3 });
+
+      expect(result.fallback).toBe(true);
+      expect(result.pattern).toBe(
+        "^(?:jane\\.doe@mail\\.org|user@example\\.com)$"
+      );
+      expect(mismatches(result, positives, negatives)).toEqual([]);
+    });
+
+    it("should emit for the requested dialect", async () => {
+      const result = await run({ positives: ["ab", "abab"], dialect: "re2" });
+
+      expect(new RegExp(result.pattern).test("ababab")).toBe(true);
+      expect(result.test.failed).toBe(0);
+    });
+  });
+
+  describe("Errors", () => {
+    it("should require a positive sample", async () => {
+      const error = await failure({ positives: [], negatives: ["a"] });
+
+      expect(error).toBeInstanceOf(RegexSynthesisError);
+      expect(error.reason).toContain("positive");
+    });
+
+    it("should reject samples that are both positive and negative", async () => {
+      const error = await failure({ positives: ["a", "b"], negatives: ["b"] });
+
+      expect(error.reason).toContain('"b"');
+    });
+
+    it("should reject oversized samples", async () => {
+      const error = await failure({ positives: ["x".repeat(300)] });
+
+      expect(error.reason).toContain("256");
+    });
+  });
+});
@@ -3,10 +3,16 @@
 // Simple CLI for M1/M2 - will upgrade to Effect CLI later
 import { readFileSync } from "node:fs";
 import { Effect } from "effect";
+import type { Ast } from "@/effect-regex/core/ast.js";
 import { emit, RegexBuilder } from "@/effect-regex/core/builder.js";
+import type { Dialect } from "@/effect-regex/core/emitter.js";
 import { explain, formatExplanation } from "@/effect-regex/core/explainer.js";
+import { lint } from "@/effect-regex/core/linter.js";
 import { optimize } from "@/effect-regex/core/optimizer.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
+import { analyzeRedos } from "@/effect-regex/core/redos.js";
 import { type RegexTestCase, testRegex } from "@/effect-regex/core/tester.js";
+import { RegexParseError } from "@/effect-regex/errors/types.js";
 import { STANDARD_PATTERNS } from "@/effect-regex/std/patterns.js";
 
 const args = process.argv.slice(2);
@@ -17,14 +23,23 @@ effect-regex v0.1.0 - Deterministic regex generation, linting, and explanation
 
 Commands:
   build-pattern <name>           Build a standard library pattern
-  lint <pattern>                 Lint a regex pattern (basic syntax check)
+  lint <pattern>                 Lint a regex pattern (syntax, dialect
+                                 compatibility, backtracking, backreferences)
+  audit <pattern>                Check a regex pattern for ReDoS; prints an
+                                 attack string and exits 1 if vulnerable
   explain <name> [--format=X]    Explain a standard library pattern structure
+  explain --regex=<pattern>      Explain any regex pattern
                                  Formats: tree (default), summary
   test <pattern> <json-file>     Test a pattern against JSON test cases
                                  JSON format: [{"input": "...", "shouldMatch": true}, ...]
   optimize <name>                Optimize a standard library pattern
+  optimize --regex=<pattern>     Optimize any regex pattern
   --help                         Show this help
 
+Pattern options (lint, audit, explain --regex, optimize --regex):
+  --dialect=js|re2|pcre          Syntax to parse the pattern with (default: js)
+  --flags=<flags>                Pattern flags, e.g. --flags=iu
+
 Available standard patterns:
   quotedString, keyValue, pathSegment, filePathBasic, csvList, integer
   email, url, username, passwordStrong
@@ -34,17 +49,96 @@ Available standard patterns:
 Examples:
   node dist/bin.cjs build-pattern quotedString
   node dist/bin.cjs lint "[a-z]+"
+  node dist/bin.cjs lint "(?<=a)b" --dialect=re2
+  node dist/bin.cjs audit "^(a+)+$"
   node dist/bin.cjs explain quotedString
   node dist/bin.cjs explain uuidV4 --format=summary
+  node dist/bin.cjs explain --regex="^(\\d{3})-\\1$"
   node dist/bin.cjs test "\\d{3}" test-cases.json
   node dist/bin.cjs optimize quotedString
-
-Note: The 'explain' command currently only works with standard library patterns.
-      Full regex string parsing will be added in a future release.
+  node dist/bin.cjs optimize --regex="(?:abc)|(?:abc)"
 `);
   process.exit(0);
 }
 
+/**
+ * Value of a --name=value option, if given
+ */
+const getOption = (name: string): string | undefined =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const dialectOption = (): Dialect => {
+  const dialect = getOption("dialect") ?? "js";
+  if (dialect !== "js" && dialect !== "re2" && dialect !== "pcre") {
+    console.error(`Unknown dialect: ${dialect} (expected js, re2 or pcre)`);
+    process.exit(1);
+  }
+  return dialect;
+};
+
+/**
+ * Print a parse error with a marker under the offending text and exit;
+ * rethrows anything else
+ */
+const exitOnParseError = (error: unknown, source: string): never => {
+  if (!(error instanceof RegexParseError)) {
+    throw error;
+  }
+  console.error(error.message);
+  if (error.position) {
+    const { start, end } = error.position;
+    const marker = "^".repeat(Math.max(1, end - start));
+    console.error(`  ${source}`);
+    console.error(`  ${" ".repeat(start)}${marker}`);
+  }
+  process.exit(1);
+};
+
+/**
+ * Resolve the pattern a command operates on: --regex=<pattern> or a
+ * standard library pattern name
+ */
+const resolvePattern = (
+  usage: string
+): {
+  readonly name: string;
+  readonly description?: string;
+  readonly ast: Ast;
+} => {
+  const source = getOption("regex");
+  if (source !== undefined) {
+    try {
+      return {
+        name: source,
+        ast: parseRegex(source, getOption("flags"), dialectOption()),
+      };
+    } catch (error) {
+      exitOnParseError(error, source);
+    }
+  }
+
+  const patternName = args[1];
+  if (patternName === undefined || patternName.startsWith("--")) {
+    console.error(`Usage: ${usage}`);
+    process.exit(1);
+  }
+  const stdPattern =
+    STANDARD_PATTERNS[patternName as keyof typeof STANDARD_PATTERNS];
+  if (!stdPattern) {
+    console.error(`Unknown standard pattern: ${patternName}`);
+    console.error(
+      `Available patterns: ${Object.keys(STANDARD_PATTERNS).join(", ")}`
+    );
+    console.error("\nUse --regex=<pattern> for patterns outside the library.");
+    process.exit(1);
+  }
+  return {
+    name: patternName,
+    description: stdPattern.description,
+    ast: stdPattern.pattern.getAst(),
+  };
+};
+
 const command = args[0];
 
 switch (command) {
@@ -81,54 +175,59 @@ switch (command) {
 
   case "lint": {
     if (args.length < 2) {
-      console.error("Usage: lint <pattern>");
+      console.error(
+        "Usage: lint <pattern> [--dialect=js|re2|pcre] [--flags=X]"
+      );
+      process.exit(1);
+    }
+    // biome-ignore lint/style/noNonNullAssertion: args.length >= 2 is checked above
+    const pattern = args[1]!;
+    const result = lint(pattern, dialectOption(), getOption("flags"));
+    console.log(JSON.stringify(result, null, 2));
+    break;
+  }
+
+  case "audit": {
+    if (args.length < 2 || args[1]?.startsWith("--")) {
+      console.error(
+        "Usage: audit <pattern> [--dialect=js|re2|pcre] [--flags=X]"
+      );
       process.exit(1);
     }
     // biome-ignore lint/style/noNonNullAssertion: args.length >= 2 is checked above
     const pattern = args[1]!;
+    const dialect = dialectOption();
     try {
-      // Validate pattern by constructing RegExp
-      const regex = new RegExp(pattern);
-      // Use the regex to prevent tree-shaking (test against empty string)
-      regex.test("");
+      const { attack, ...analysis } = analyzeRedos(pattern, {
+        dialect,
+        flags: getOption("flags") ?? "",
+      });
+      // The attack string itself can be very long; its parts describe it
+      const parts = attack && {
+        prefix: attack.prefix,
+        pump: attack.pump,
+        suffix: attack.suffix,
+        repeat: attack.repeat,
+        length: attack.string.length,
+      };
       console.log(
         JSON.stringify(
-          {
-            valid: true,
-            issues: [],
-          },
+          { pattern, dialect, ...analysis, attack: parts },
           null,
           2
         )
       );
+      process.exit(analysis.vulnerable ? 1 : 0);
     } catch (error) {
-      console.log(
-        JSON.stringify(
-          {
-            valid: false,
-            issues: [
-              {
-                code: "INVALID_PATTERN",
-                severity: "error",
-                message: `Invalid regex pattern: ${(error as Error).message}`,
-              },
-            ],
-          },
-          null,
-          2
-        )
-      );
+      exitOnParseError(error, pattern);
     }
     break;
   }
 
   case "explain": {
-    if (args.length < 2) {
-      console.error("Usage: explain <name> [--format=tree|summary]");
-      console.error("\nExample: explain quotedString");
-      process.exit(1);
-    }
-    const patternName = args[1];
+    const { name, description, ast } = resolvePattern(
+      "explain <name> | --regex=<pattern> [--format=tree|summary]"
+    );
 
     // Parse optional format flag
     const formatArg = args.find((arg) => arg.startsWith("--format="));
@@ -136,31 +235,11 @@ switch (command) {
       ? (formatArg.split("=")[1] as "tree" | "summary")
       : "tree";
 
-    // Lookup pattern in standard library
-    const stdPattern =
-      STANDARD_PATTERNS[patternName as keyof typeof STANDARD_PATTERNS];
-    if (!stdPattern) {
-      console.error(`Unknown standard pattern: ${patternName}`);
-      console.error(
-        `Available patterns: ${Object.keys(STANDARD_PATTERNS).join(", ")}`
-      );
-      console.error(
-        "\nNote: explain command only works with standard library patterns."
-      );
-      console.error(
-        "      Full regex string parsing will be added in a future release."
-      );
-      process.exit(1);
-    }
-
     try {
-      // Get the AST from the pattern
-      const ast = stdPattern.pattern.getAst();
-
       // Generate explanation
       const explanation = explain(ast, {
         format,
-        dialect: "js",
+        dialect: dialectOption(),
         maxDepth: 10,
       });
 
@@ -170,8 +249,8 @@ switch (command) {
         console.log(
           JSON.stringify(
             {
-              pattern: patternName,
-              description: stdPattern.description,
+              pattern: name,
+              description,
               explanation: explanation.description,
               regexPattern: explanation.pattern,
               notes: explanation.notes || [],
@@ -185,8 +264,8 @@ switch (command) {
         console.log(
           JSON.stringify(
             {
-              pattern: patternName,
-              description: stdPattern.description,
+              pattern: name,
+              description,
               explanation,
               formatted: formatExplanation(explanation),
             },
@@ -315,26 +394,11 @@ switch (command) {
   }
 
   case "optimize": {
-    if (args.length < 2) {
-      console.error("Usage: optimize <name>");
-      process.exit(1);
-    }
-    const patternName = args[1];
-    const stdPattern =
-      STANDARD_PATTERNS[patternName as keyof typeof STANDARD_PATTERNS];
-    if (!stdPattern) {
-      console.error(`Unknown standard pattern: ${patternName}`);
-      console.error(
-        `Available patterns: ${Object.keys(STANDARD_PATTERNS).join(", ")}`
-      );
-      process.exit(1);
-    }
-
-    // Get the AST
-    const ast = stdPattern.pattern.getAst();
+    const { name, ast } = resolvePattern("optimize <name> | --regex=<pattern>");
+    const dialect = dialectOption();
 
     // Emit before optimization
-    const beforeResult = emit(stdPattern.pattern, "js", false);
+    const beforeResult = emit(RegexBuilder.fromAst(ast), dialect, false);
 
     // Optimize (synchronous call - no longer wrapped in Effect)
     try {
@@ -342,13 +406,13 @@ switch (command) {
 
       // Emit after optimization
       const optimizedBuilder = RegexBuilder.fromAst(result.optimized);
-      const afterResult = emit(optimizedBuilder, "js", false);
+      const afterResult = emit(optimizedBuilder, dialect, false);
 
       // Output comparison
       console.log(
         JSON.stringify(
           {
-            pattern: patternName,
+            pattern: name,
             before: {
               pattern: beforeResult.pattern,
               nodes: result.beforeSize,
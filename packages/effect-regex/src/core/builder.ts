@@ -18,11 +18,20 @@ import {
 } from "@/effect-regex/core/ast.js";
 import { emit as emitPattern } from "@/effect-regex/core/emitter.js";
 
+/**
+ * Capture group names of a builder (or of a string, which is a literal)
+ */
+export type CaptureNames<T> = T extends RegexBuilder<infer C> ? C : never;
+
 /**
  * Fluent builder for regex patterns
  * Provides a chainable API for building complex regex ASTs
+ *
+ * The type parameter collects the names of the builder's named capture
+ * groups, so that matches can expose them as typed properties. Builders
+ * made from an AST or a pattern string have unknown names (`string`).
  */
-export class RegexBuilder {
+export class RegexBuilder<C extends string = string> {
   private constructor(private readonly ast: Ast) {}
 
   // Static constructors
@@ -39,7 +48,7 @@ export class RegexBuilder {
    * ```
    */
   static fromAst(ast: Ast): RegexBuilder {
-    return new RegexBuilder(ast);
+    return new RegexBuilder<string>(ast);
   }
 
   /**
@@ -53,7 +62,7 @@ export class RegexBuilder {
    * RegexBuilder.lit("hello.world") // Matches the literal text "hello.world"
    * ```
    */
-  static lit(value: string): RegexBuilder {
+  static lit(value: string): RegexBuilder<never> {
     return new RegexBuilder(lit(value));
   }
 
@@ -68,7 +77,7 @@ export class RegexBuilder {
    * RegexBuilder.raw("\d{3}") // Matches exactly 3 digits
    * ```
    */
-  static raw(pattern: string): RegexBuilder {
+  static raw(pattern: string): RegexBuilder<never> {
     return new RegexBuilder(raw(pattern));
   }
 
@@ -84,7 +93,9 @@ export class RegexBuilder {
    * // Matches "hello world"
    * ```
    */
-  then(value: string | RegexBuilder): RegexBuilder {
+  then<D extends string = never>(
+    value: string | RegexBuilder<D>
+  ): RegexBuilder<C | D> {
     const other = typeof value === "string" ? RegexBuilder.lit(value) : value;
     if (this.ast.type === "seq") {
       return new RegexBuilder(seq(...this.ast.children, other.ast));
@@ -104,7 +115,9 @@ export class RegexBuilder {
    * // Matches either "cat" or "dog"
    * ```
    */
-  or(value: string | RegexBuilder): RegexBuilder {
+  or<D extends string = never>(
+    value: string | RegexBuilder<D>
+  ): RegexBuilder<C | D> {
     const other = typeof value === "string" ? RegexBuilder.lit(value) : value;
     if (this.ast.type === "alt") {
       return new RegexBuilder(alt(...this.ast.children, other.ast));
@@ -124,7 +137,9 @@ export class RegexBuilder {
    * // Matches "red" or "green" or "blue"
    * ```
    */
-  static alt(...builders: (string | RegexBuilder)[]): RegexBuilder {
+  static alt<B extends (string | RegexBuilder<string>)[]>(
+    ...builders: B
+  ): RegexBuilder<CaptureNames<B[number]>> {
     const asts = builders.map((b) =>
       typeof b === "string" ? RegexBuilder.lit(b).ast : b.ast
     );
@@ -132,55 +147,59 @@ export class RegexBuilder {
   }
 
   // Character classes
-  static charClass(chars: string, negated = false): RegexBuilder {
+  static charClass(chars: string, negated = false): RegexBuilder<never> {
     return new RegexBuilder(cls(chars, negated));
   }
 
   // Groups (non-capturing by default)
-  group(name?: string): RegexBuilder {
+  group<N extends string = never>(name?: N): RegexBuilder<C | N> {
     return new RegexBuilder(name ? group(this.ast, name) : noncap(this.ast));
   }
 
-  capture(name?: string): RegexBuilder {
+  capture<N extends string = never>(name?: N): RegexBuilder<C | N> {
     return new RegexBuilder(group(this.ast, name));
   }
 
   // TryCapture - capture with validation metadata
-  tryCapture(
-    name?: string,
+  tryCapture<N extends string = never>(
+    name?: N,
     validation?: { description: string; pattern?: string }
-  ): RegexBuilder {
+  ): RegexBuilder<C | N> {
     return new RegexBuilder(tryCapture(this.ast, name, validation));
   }
 
   // Backreferences
-  backreference(target: string | number): RegexBuilder {
+  backreference(target: string | number): RegexBuilder<never> {
     return new RegexBuilder(backref(target));
   }
 
-  static backref(target: string | number): RegexBuilder {
+  static backref(target: string | number): RegexBuilder<never> {
     return new RegexBuilder(backref(target));
   }
 
   // Assertions (lookahead/lookbehind) - instance methods
   // Note: These are typically used as standalone assertions, not chained
   // For most use cases, use the static methods instead
-  lookahead(pattern: RegexBuilder): RegexBuilder {
+  lookahead<D extends string>(pattern: RegexBuilder<D>): RegexBuilder<C | D> {
     // This pattern followed by a lookahead
     return this.then(RegexBuilder.lookahead(pattern));
   }
 
-  lookbehind(pattern: RegexBuilder): RegexBuilder {
+  lookbehind<D extends string>(pattern: RegexBuilder<D>): RegexBuilder<C | D> {
     // Lookbehind assertion followed by this pattern
     return RegexBuilder.lookbehind(pattern).then(this);
   }
 
-  negativeLookahead(pattern: RegexBuilder): RegexBuilder {
+  negativeLookahead<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<C | D> {
     // This pattern followed by a negative lookahead
     return this.then(RegexBuilder.negativeLookahead(pattern));
   }
 
-  negativeLookbehind(pattern: RegexBuilder): RegexBuilder {
+  negativeLookbehind<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<C | D> {
     // Negative lookbehind assertion followed by this pattern
     return RegexBuilder.negativeLookbehind(pattern).then(this);
   }
@@ -196,7 +215,7 @@ export class RegexBuilder {
    * RegexBuilder.digit().zeroOrMore() // Matches "", "1", "123", etc.
    * ```
    */
-  zeroOrMore(lazy = false): RegexBuilder {
+  zeroOrMore(lazy = false): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, 0, null, lazy));
   }
 
@@ -210,7 +229,7 @@ export class RegexBuilder {
    * RegexBuilder.digit().oneOrMore() // Matches "1", "123", but not ""
    * ```
    */
-  oneOrMore(lazy = false): RegexBuilder {
+  oneOrMore(lazy = false): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, 1, null, lazy));
   }
 
@@ -224,7 +243,7 @@ export class RegexBuilder {
    * RegexBuilder.lit("s").optional() // Matches "" or "s"
    * ```
    */
-  optional(lazy = false): RegexBuilder {
+  optional(lazy = false): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, 0, 1, lazy));
   }
 
@@ -238,7 +257,7 @@ export class RegexBuilder {
    * RegexBuilder.digit().exactly(3) // Matches exactly 3 digits like "123"
    * ```
    */
-  exactly(n: number): RegexBuilder {
+  exactly(n: number): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, n, n));
   }
 
@@ -253,7 +272,7 @@ export class RegexBuilder {
    * RegexBuilder.digit().atLeast(2) // Matches "12", "123", "1234", etc.
    * ```
    */
-  atLeast(n: number, lazy = false): RegexBuilder {
+  atLeast(n: number, lazy = false): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, n, null, lazy));
   }
 
@@ -269,20 +288,20 @@ export class RegexBuilder {
    * RegexBuilder.digit().between(2, 4) // Matches "12", "123", or "1234"
    * ```
    */
-  between(min: number, max: number, lazy = false): RegexBuilder {
+  between(min: number, max: number, lazy = false): RegexBuilder<C> {
     return new RegexBuilder(q(this.ast, min, max, lazy));
   }
 
   // Anchors
-  startOfLine(): RegexBuilder {
+  startOfLine(): RegexBuilder<C> {
     return new RegexBuilder(anchor("start")).then(this);
   }
 
-  endOfLine(): RegexBuilder {
+  endOfLine(): RegexBuilder<C> {
     return this.then(new RegexBuilder(anchor("end")));
   }
 
-  wordBoundary(): RegexBuilder {
+  wordBoundary(): RegexBuilder<C> {
     return this.then(new RegexBuilder(anchor("word")));
   }
 
@@ -297,7 +316,7 @@ export class RegexBuilder {
    * RegexBuilder.digit().oneOrMore() // Matches "123", "0", etc.
    * ```
    */
-  static digit(): RegexBuilder {
+  static digit(): RegexBuilder<never> {
     return RegexBuilder.charClass("0-9");
   }
 
@@ -311,7 +330,7 @@ export class RegexBuilder {
    * RegexBuilder.word().oneOrMore() // Matches "hello", "test_123", etc.
    * ```
    */
-  static word(): RegexBuilder {
+  static word(): RegexBuilder<never> {
     return RegexBuilder.charClass("a-zA-Z0-9_");
   }
 
@@ -325,7 +344,7 @@ export class RegexBuilder {
    * RegexBuilder.whitespace().oneOrMore() // Matches "  ", "\t", "\n", etc.
    * ```
    */
-  static whitespace(): RegexBuilder {
+  static whitespace(): RegexBuilder<never> {
     return RegexBuilder.charClass("\\s");
   }
 
@@ -339,25 +358,33 @@ export class RegexBuilder {
    * RegexBuilder.any().exactly(3) // Matches any 3 characters
    * ```
    */
-  static any(): RegexBuilder {
+  static any(): RegexBuilder<never> {
     return RegexBuilder.raw(".");
   }
 
   // Static assertion constructors
   // biome-ignore lint/suspicious/useAdjacentOverloadSignatures: instance and static methods with same names are intentionally separate
-  static lookahead(pattern: RegexBuilder): RegexBuilder {
+  static lookahead<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<D> {
     return new RegexBuilder(lookahead(pattern.ast));
   }
 
-  static lookbehind(pattern: RegexBuilder): RegexBuilder {
+  static lookbehind<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<D> {
     return new RegexBuilder(lookbehind(pattern.ast));
   }
 
-  static negativeLookahead(pattern: RegexBuilder): RegexBuilder {
+  static negativeLookahead<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<D> {
     return new RegexBuilder(negativeLookahead(pattern.ast));
   }
 
-  static negativeLookbehind(pattern: RegexBuilder): RegexBuilder {
+  static negativeLookbehind<D extends string>(
+    pattern: RegexBuilder<D>
+  ): RegexBuilder<D> {
     return new RegexBuilder(negativeLookbehind(pattern.ast));
   }
 
@@ -389,7 +416,7 @@ export class RegexBuilder {
    * const variant2 = base.clone().then("B");
    * ```
    */
-  clone(): RegexBuilder {
+  clone(): RegexBuilder<C> {
     return new RegexBuilder(this.ast);
   }
 }
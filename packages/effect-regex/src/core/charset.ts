@@ -0,0 +1,407 @@
+/**
+ * Character sets - the characters a regex construct can match
+ *
+ * A `CharSet` is a sorted list of disjoint, non-adjacent inclusive code
+ * point ranges. This module builds sets from AST leaves (literals,
+ * character classes, shorthand escapes) and combines them, for analyses
+ * that reason about which inputs a pattern accepts.
+ *
+ * Unicode properties are approximated by their ASCII members plus
+ * everything above U+007F; constructs that cannot be resolved statically
+ * (nested v-mode classes, set operations) match any character.
+ *
+ * @module core/charset
+ */
+
+/**
+ * An inclusive range of code points
+ */
+export type CharRange = readonly [number, number];
+
+/**
+ * A sorted list of disjoint, non-adjacent code point ranges
+ */
+export type CharSet = readonly CharRange[];
+
+const MAX_CODE_POINT = 0x10_ff_ff;
+
+export const EMPTY: CharSet = [];
+export const ANY: CharSet = [[0, MAX_CODE_POINT]];
+
+const range = (from: string, to: string = from): CharRange => [
+  from.codePointAt(0) ?? 0,
+  to.codePointAt(0) ?? 0,
+];
+
+/**
+ * Normalize arbitrary ranges into a CharSet
+ */
+export const charSet = (ranges: readonly CharRange[]): CharSet => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const [from, to] of sorted) {
+    const last = merged.at(-1);
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+};
+
+export const single = (codePoint: number): CharSet => [[codePoint, codePoint]];
+
+export const union = (a: CharSet, b: CharSet): CharSet => charSet([...a, ...b]);
+
+export const intersect = (a: CharSet, b: CharSet): CharSet => {
+  const result: CharRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const [aFrom, aTo] = a[i] as CharRange;
+    const [bFrom, bTo] = b[j] as CharRange;
+    const from = Math.max(aFrom, bFrom);
+    const to = Math.min(aTo, bTo);
+    if (from <= to) {
+      result.push([from, to]);
+    }
+    if (aTo < bTo) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+export const complement = (set: CharSet): CharSet => {
+  const result: CharRange[] = [];
+  let next = 0;
+  for (const [from, to] of set) {
+    if (from > next) {
+      result.push([next, from - 1]);
+    }
+    next = to + 1;
+  }
+  if (next <= MAX_CODE_POINT) {
+    result.push([next, MAX_CODE_POINT]);
+  }
+  return result;
+};
+
+export const isEmpty = (set: CharSet): boolean => set.length === 0;
+
+export const contains = (set: CharSet, codePoint: number): boolean =>
+  set.some(([from, to]) => codePoint >= from && codePoint <= to);
+
+const PREFERRED_SAMPLES = [..."a0A _-.!"].map((char) => char.codePointAt(0));
+
+/**
+ * A representative member of a non-empty set, preferring readable
+ * characters so generated strings stay printable
+ */
+export const sample = (set: CharSet): number | undefined => {
+  for (const codePoint of PREFERRED_SAMPLES) {
+    if (codePoint !== undefined && contains(set, codePoint)) {
+      return codePoint;
+    }
+  }
+  for (const [from, to] of set) {
+    if (to >= 0x21 && from <= 0x7e) {
+      return Math.max(from, 0x21);
+    }
+  }
+  return set[0]?.[0];
+};
+
+/**
+ * Add the other-case variant of every ASCII letter in the set
+ */
+export const caseFold = (set: CharSet): CharSet => {
+  const upper = intersect(set, [range("A", "Z")]);
+  const lower = intersect(set, [range("a", "z")]);
+  return charSet([
+    ...set,
+    ...upper.map(([from, to]): CharRange => [from + 32, to + 32]),
+    ...lower.map(([from, to]): CharRange => [from - 32, to - 32]),
+  ]);
+};
+
+const DIGITS: CharSet = [range("0", "9")];
+const WORD: CharSet = charSet([
+  range("0", "9"),
+  range("A", "Z"),
+  range("_"),
+  range("a", "z"),
+]);
+const SPACE: CharSet = charSet([
+  [0x09, 0x0d],
+  [0x20, 0x20],
+  [0xa0, 0xa0],
+  [0x16_80, 0x16_80],
+  [0x20_00, 0x20_0a],
+  [0x20_28, 0x20_29],
+  [0x20_2f, 0x20_2f],
+  [0x20_5f, 0x20_5f],
+  [0x30_00, 0x30_00],
+  [0xfe_ff, 0xfe_ff],
+]);
+const HORIZONTAL_SPACE: CharSet = charSet([
+  [0x09, 0x09],
+  [0x20, 0x20],
+  [0xa0, 0xa0],
+  [0x16_80, 0x16_80],
+  [0x20_00, 0x20_0a],
+  [0x20_2f, 0x20_2f],
+  [0x20_5f, 0x20_5f],
+  [0x30_00, 0x30_00],
+]);
+const VERTICAL_SPACE: CharSet = charSet([
+  [0x0a, 0x0d],
+  [0x85, 0x85],
+  [0x20_28, 0x20_29],
+]);
+const LINE_TERMINATORS: CharSet = charSet([
+  [0x0a, 0x0a],
+  [0x0d, 0x0d],
+  [0x20_28, 0x20_29],
+]);
+const NON_ASCII: CharSet = [[0x80, MAX_CODE_POINT]];
+
+const SHORTHANDS: Record<string, CharSet> = {
+  d: DIGITS,
+  D: complement(DIGITS),
+  w: WORD,
+  W: complement(WORD),
+  s: SPACE,
+  S: complement(SPACE),
+  h: HORIZONTAL_SPACE,
+  H: complement(HORIZONTAL_SPACE),
+  v: VERTICAL_SPACE,
+  V: complement(VERTICAL_SPACE),
+  N: complement([range("\n")]),
+  R: VERTICAL_SPACE,
+  X: ANY,
+};
+
+const POSIX_CLASSES: Record<string, CharSet> = {
+  alnum: charSet([range("0", "9"), range("A", "Z"), range("a", "z")]),
+  alpha: charSet([range("A", "Z"), range("a", "z")]),
+  ascii: [[0, 0x7f]],
+  blank: charSet([range("\t"), range(" ")]),
+  cntrl: charSet([
+    [0, 0x1f],
+    [0x7f, 0x7f],
+  ]),
+  digit: DIGITS,
+  graph: [[0x21, 0x7e]],
+  lower: [range("a", "z")],
+  print: [[0x20, 0x7e]],
+  punct: charSet([
+    range("!", "/"),
+    range(":", "@"),
+    range("[", "`"),
+    range("{", "~"),
+  ]),
+  space: charSet([range("\t", "\r"), range(" ")]),
+  upper: [range("A", "Z")],
+  word: WORD,
+  xdigit: charSet([range("0", "9"), range("A", "F"), range("a", "f")]),
+};
+
+/**
+ * Approximate sets for common Unicode properties: their ASCII members
+ * plus all non-ASCII characters
+ */
+const PROPERTY_ASCII: Record<string, CharSet> = {
+  L: POSIX_CLASSES.alpha as CharSet,
+  Letter: POSIX_CLASSES.alpha as CharSet,
+  Alphabetic: POSIX_CLASSES.alpha as CharSet,
+  Lu: [range("A", "Z")],
+  Uppercase_Letter: [range("A", "Z")],
+  Ll: [range("a", "z")],
+  Lowercase_Letter: [range("a", "z")],
+  N: DIGITS,
+  Nd: DIGITS,
+  Number: DIGITS,
+  P: POSIX_CLASSES.punct as CharSet,
+  Punctuation: POSIX_CLASSES.punct as CharSet,
+  Z: [range(" ")],
+  Zs: [range(" ")],
+  White_Space: POSIX_CLASSES.space as CharSet,
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  t: "\t",
+  n: "\n",
+  r: "\r",
+  f: "\f",
+  v: "\v",
+  a: "\x07",
+  e: "\x1b",
+};
+
+const BRACES = /[{}]/g;
+
+/**
+ * The code point a character escape (e.g. `\n`, `\x41`, `\u{1F600}`,
+ * `\cJ`, `\0`, `\.`) stands for
+ */
+export const decodeEscape = (text: string): number => {
+  const body = text.slice(1);
+  const kind = body[0] ?? "";
+  if (SIMPLE_ESCAPES[kind] !== undefined) {
+    return SIMPLE_ESCAPES[kind].codePointAt(0) ?? 0;
+  }
+  const digits = body.slice(1).replace(BRACES, "");
+  if ((kind === "x" || kind === "u") && digits) {
+    return Number.parseInt(digits, 16);
+  }
+  if (kind === "c" && body.length > 1) {
+    return (body.codePointAt(1) ?? 0) % 32;
+  }
+  if (kind >= "0" && kind <= "7") {
+    return Number.parseInt(body, 8);
+  }
+  return body.codePointAt(0) ?? 0;
+};
+
+const CHARACTER_ESCAPE =
+  /\\(?:x\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|c[A-Za-z]|[0-7]{1,3}|[\s\S])/y;
+const PROPERTY_ESCAPE = /\\([pP])(?:\{\^?([\w=]+)\}|([A-Za-z]))/y;
+const POSIX_CLASS = /\[:(\^?)([a-z]+):\]/y;
+
+/**
+ * The set a Unicode property escape (`\p{Lu}`, `\PL`, ...) matches
+ */
+export const propertySet = (name: string, negated: boolean): CharSet => {
+  const value = name.includes("=") ? (name.split("=")[1] ?? "") : name;
+  const ascii = PROPERTY_ASCII[value];
+  const set = ascii ? union(ascii, NON_ASCII) : ANY;
+  return negated && ascii ? complement(set) : set;
+};
+
+/**
+ * The set a shorthand escape letter (`d`, `W`, `s`, ...) matches, if the
+ * letter is a shorthand
+ */
+export const shorthandSet = (letter: string): CharSet | undefined =>
+  SHORTHANDS[letter];
+
+/**
+ * The set `.` matches
+ */
+export const dotSet = (dotAll: boolean): CharSet =>
+  dotAll ? ANY : complement(LINE_TERMINATORS);
+
+interface ScannedSet {
+  readonly set: CharSet;
+  readonly end: number;
+  /** The single code point matched, when the item is one character */
+  readonly codePoint?: number | undefined;
+}
+
+/**
+ * Scan one escape sequence starting at the backslash at `index`
+ */
+export const scanEscape = (source: string, index: number): ScannedSet => {
+  PROPERTY_ESCAPE.lastIndex = index;
+  const property = PROPERTY_ESCAPE.exec(source);
+  if (property) {
+    const name = property[2] ?? property[3] ?? "";
+    const negated =
+      property[1] === "P" ||
+      (source[index + 3] === "^" && property[2] !== undefined);
+    return {
+      set: propertySet(name, negated),
+      end: PROPERTY_ESCAPE.lastIndex,
+    };
+  }
+  const shorthand = shorthandSet(source[index + 1] ?? "");
+  if (shorthand) {
+    return { set: shorthand, end: index + 2 };
+  }
+  CHARACTER_ESCAPE.lastIndex = index;
+  const text = CHARACTER_ESCAPE.exec(source)?.[0] ?? "\\";
+  const codePoint = decodeEscape(text);
+  return { set: single(codePoint), end: index + text.length, codePoint };
+};
+
+const scanClassItem = (source: string, index: number): ScannedSet => {
+  const char = source[index];
+  if (char === "\\") {
+    if (source[index + 1] === "b") {
+      return { set: single(8), end: index + 2, codePoint: 8 };
+    }
+    return scanEscape(source, index);
+  }
+  POSIX_CLASS.lastIndex = index;
+  const posix = char === "[" ? POSIX_CLASS.exec(source) : null;
+  if (posix) {
+    const set = POSIX_CLASSES[posix[2] ?? ""] ?? ANY;
+    return {
+      set: posix[1] ? complement(set) : set,
+      end: POSIX_CLASS.lastIndex,
+    };
+  }
+  const codePoint = source.codePointAt(index) ?? 0;
+  return {
+    set: single(codePoint),
+    end: index + String.fromCodePoint(codePoint).length,
+    codePoint,
+  };
+};
+
+const NESTED_CLASS = /\[(?!:)|--|&&/;
+const POSIX_CLASS_GLOBAL = /\[:\^?[a-z]+:\]|\\./g;
+
+/**
+ * The set a character class body (the text between the brackets, as
+ * stored in a `ClassNode`) matches, before negation
+ */
+export const classSet = (chars: string): CharSet => {
+  if (NESTED_CLASS.test(chars.replace(POSIX_CLASS_GLOBAL, ""))) {
+    return ANY;
+  }
+  const ranges: CharRange[] = [];
+  let index = 0;
+  while (index < chars.length) {
+    const item = scanClassItem(chars, index);
+    index = item.end;
+    if (
+      item.codePoint !== undefined &&
+      chars[index] === "-" &&
+      index + 1 < chars.length
+    ) {
+      const to = scanClassItem(chars, index + 1);
+      if (to.codePoint !== undefined) {
+        ranges.push([item.codePoint, to.codePoint]);
+        index = to.end;
+        continue;
+      }
+    }
+    ranges.push(...item.set);
+  }
+  return charSet(ranges);
+};
+
+/**
+ * The code points a literal node value (escaped source text) spells
+ */
+export const literalCodePoints = (value: string): number[] => {
+  const codePoints: number[] = [];
+  let index = 0;
+  while (index < value.length) {
+    if (value[index] === "\\") {
+      const item = scanEscape(value, index);
+      codePoints.push(item.codePoint ?? sample(item.set) ?? 0);
+      index = item.end;
+      continue;
+    }
+    const codePoint = value.codePointAt(index) ?? 0;
+    codePoints.push(codePoint);
+    index += String.fromCodePoint(codePoint).length;
+  }
+  return codePoints;
+};
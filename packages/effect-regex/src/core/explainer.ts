@@ -1,4 +1,5 @@
 import type { Ast } from "@/effect-regex/core/ast.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
 
 /**
  * Explanation node for structured regex breakdown
@@ -26,13 +27,40 @@ export interface ExplainOptions {
   readonly format: "tree" | "steps" | "summary";
   readonly dialect: "js" | "re2" | "pcre";
   readonly maxDepth?: number;
+  /** Pattern flags, used when explaining a pattern string */
+  readonly flags?: string;
 }
 
 /**
- * Generate a structured explanation of a regex AST
+ * Descriptions of the raw patterns the parser produces for shorthands
  */
-export const explain = (ast: Ast, options: ExplainOptions): ExplanationNode => {
+const RAW_DESCRIPTIONS: Record<string, string> = {
+  ".": "Matches any character except line terminators",
+  "\\d": "Matches any digit",
+  "\\D": "Matches any non-digit",
+  "\\w": "Matches any word character (letter, digit or underscore)",
+  "\\W": "Matches any non-word character",
+  "\\s": "Matches any whitespace character",
+  "\\S": "Matches any non-whitespace character",
+  "\\B": "Asserts a position that is not a word boundary",
+};
+
+/**
+ * Generate a structured explanation of a regex AST or pattern string
+ *
+ * Pattern strings are parsed with the options' dialect and flags.
+ *
+ * @throws RegexParseError if a pattern string is not valid syntax
+ */
+export const explain = (
+  input: Ast | string,
+  options: ExplainOptions
+): ExplanationNode => {
   const { maxDepth = 10 } = options;
+  const ast =
+    typeof input === "string"
+      ? parseRegex(input, options.flags, options.dialect)
+      : input;
 
   const explainNode = (node: Ast, depth = 0): ExplanationNode => {
     if (depth > maxDepth) {
@@ -54,7 +82,9 @@ export const explain = (ast: Ast, options: ExplainOptions): ExplanationNode => {
       case "raw":
         return {
           type: "literal",
-          description: `Matches the raw pattern "${node.pattern}"`,
+          description:
+            RAW_DESCRIPTIONS[node.pattern] ??
+            `Matches the raw pattern "${node.pattern}"`,
           pattern: node.pattern,
         };
 
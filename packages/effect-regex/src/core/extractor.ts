@@ -0,0 +1,468 @@
+/**
+ * Extraction - run patterns over text
+ *
+ * Matching uses the JavaScript engine, so builders are emitted for the
+ * `js` dialect and pattern strings are parsed as JavaScript before they
+ * are compiled. Every function matches globally: the `g` flag is always
+ * added to the flags given in the options.
+ *
+ * Named captures are typed from the builder: a pattern built with
+ * `.group("year")` yields matches whose `groups` has a `year` property.
+ * Pattern strings have unknown group names, so their `groups` is a plain
+ * record.
+ *
+ * A scanner combines several patterns into a single alternation and finds
+ * the matches of all of them in one pass over the input. Matches do not
+ * overlap: at each position the leftmost match wins and, between patterns
+ * matching at the same position, the one listed first.
+ *
+ * @module core/extractor
+ */
+
+import { Chunk, Effect, Schema, Stream } from "effect";
+import type { Ast } from "@/effect-regex/core/ast.js";
+import { emit, RegexBuilder } from "@/effect-regex/core/builder.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
+import {
+  ExtractionError,
+  RegexCompilationError,
+  RegexParseError,
+} from "@/effect-regex/errors/types.js";
+
+/**
+ * Named captures of a match, `undefined` for groups that did not
+ * participate
+ */
+export type Captures<C extends string> = {
+  readonly [K in C]: string | undefined;
+};
+
+/**
+ * A single match of a pattern in the input
+ */
+export interface Match<C extends string = string> {
+  /** Matched text */
+  readonly match: string;
+  /** Offset of the match in the input */
+  readonly index: number;
+  /** Offset just past the match */
+  readonly end: number;
+  /** Numbered captures, starting with group 1 */
+  readonly captures: readonly (string | undefined)[];
+  /** Named captures */
+  readonly groups: Captures<C>;
+}
+
+/**
+ * A pattern to match: a builder, a pattern string or a library entry
+ * such as `SECURITY_PATTERNS.usSSN`
+ */
+export type PatternSource<C extends string = string> =
+  | RegexBuilder<C>
+  | string
+  | { readonly pattern: RegexBuilder<C> };
+
+/**
+ * Capture names of a pattern source
+ */
+export type SourceCaptures<P> = P extends RegexBuilder<infer C>
+  ? C
+  : P extends { readonly pattern: RegexBuilder<infer C> }
+    ? C
+    : string;
+
+/**
+ * Matching options
+ */
+export interface ExtractOptions {
+  /** JavaScript flags, e.g. "i" or "m" (`g` is always added) */
+  readonly flags?: string | undefined;
+}
+
+/**
+ * A match of one of a scanner's patterns, tagged with the pattern's name
+ */
+export type ScanMatch<P> = {
+  readonly [K in keyof P & string]: Match<SourceCaptures<P[K]>> & {
+    readonly name: K;
+  };
+}[keyof P & string];
+
+/**
+ * Several patterns compiled into one
+ */
+export interface Scanner<P> {
+  /** Combined pattern source */
+  readonly pattern: string;
+  /** Pattern names, in priority order */
+  readonly names: readonly (keyof P & string)[];
+  /** Find every match of every pattern, in order of position */
+  readonly scan: (text: string) => Stream.Stream<ScanMatch<P>>;
+  /** Replace every match with the result of `fn` */
+  readonly replace: <E = never, R = never>(
+    text: string,
+    fn: (match: ScanMatch<P>) => string | Effect.Effect<string, E, R>
+  ) => Effect.Effect<string, E, R>;
+}
+
+type PatternError = RegexParseError | RegexCompilationError;
+
+const flagsOf = (options?: ExtractOptions): string =>
+  (options?.flags ?? "").replaceAll("g", "");
+
+const builderOf = (source: PatternSource): RegexBuilder | undefined => {
+  if (source instanceof RegexBuilder) {
+    return source;
+  }
+  return typeof source === "string" ? undefined : source.pattern;
+};
+
+const parse = (
+  source: string,
+  flags: string
+): Effect.Effect<Ast, PatternError> =>
+  Effect.try({
+    try: () => parseRegex(source, flags, "js"),
+    catch: (error) =>
+      error instanceof RegexParseError
+        ? error
+        : new RegexCompilationError({
+            pattern: source,
+            dialect: "js",
+            cause: error,
+          }),
+  });
+
+const compile = (
+  pattern: string,
+  flags: string
+): Effect.Effect<RegExp, RegexCompilationError> =>
+  Effect.try({
+    try: () => new RegExp(pattern, `${flags}g`),
+    catch: (cause) =>
+      new RegexCompilationError({ pattern, dialect: "js", cause }),
+  });
+
+/** Compile a pattern source for global matching */
+const regexOf = (
+  source: PatternSource,
+  flags: string
+): Effect.Effect<RegExp, PatternError> => {
+  const builder = builderOf(source);
+  if (builder !== undefined) {
+    return compile(emit(builder, "js").pattern, flags);
+  }
+  const pattern = source as string;
+  return Effect.flatMap(parse(pattern, flags), () => compile(pattern, flags));
+};
+
+/** Re-iterable matches: each stream run starts from the beginning */
+const matchesOf = (regex: RegExp, text: string): Iterable<RegExpExecArray> => ({
+  [Symbol.iterator]: () => text.matchAll(regex),
+});
+
+const toMatch = <C extends string>(found: RegExpExecArray): Match<C> => ({
+  match: found[0],
+  index: found.index,
+  end: found.index + found[0].length,
+  captures: found.slice(1),
+  groups: { ...found.groups } as Captures<C>,
+});
+
+/** Rebuild `text` with each match replaced by the result of `fn` */
+const splice = <M extends Match, E, R>(
+  text: string,
+  matches: Iterable<M>,
+  fn: (match: M) => string | Effect.Effect<string, E, R>
+): Effect.Effect<string, E, R> =>
+  Effect.gen(function* () {
+    const parts: string[] = [];
+    let last = 0;
+    for (const match of matches) {
+      const replacement = fn(match);
+      parts.push(
+        text.slice(last, match.index),
+        Effect.isEffect(replacement) ? yield* replacement : replacement
+      );
+      last = match.end;
+    }
+    parts.push(text.slice(last));
+    return parts.join("");
+  });
+
+/**
+ * Stream the matches of a pattern in `text`
+ *
+ * Matches are produced lazily, so a large input can be consumed
+ * incrementally (e.g. with `Stream.take`).
+ *
+ * @param pattern - Builder, pattern string or library entry
+ * @param text - Input to search
+ * @param options - Matching flags
+ * @returns Stream of matches, failing if the pattern does not compile
+ * @example
+ * ```typescript
+ * const date = digit().exactly(4).group("year")
+ *   .then("-")
+ *   .then(digit().exactly(2).group("month"));
+ * const months = extract(date, "2024-01 and 2025-06").pipe(
+ *   Stream.map((match) => match.groups.month)
+ * );
+ * // "01", "06"
+ * ```
+ */
+export const extract = <C extends string = string>(
+  pattern: PatternSource<C>,
+  text: string,
+  options?: ExtractOptions
+): Stream.Stream<Match<C>, PatternError> =>
+  Stream.unwrap(
+    Effect.map(regexOf(pattern, flagsOf(options)), (regex) =>
+      Stream.fromIterable(matchesOf(regex, text)).pipe(
+        Stream.map((found) => toMatch<C>(found))
+      )
+    )
+  );
+
+/**
+ * Decode the named captures of every match with a schema
+ *
+ * @param pattern - Builder, pattern string or library entry
+ * @param text - Input to search
+ * @param schema - Schema for the `groups` of a match
+ * @param options - Matching flags
+ * @returns Effect yielding the decoded values in order, failing with
+ *   ExtractionError for the first match that does not decode
+ * @example
+ * ```typescript
+ * const Version = Schema.Struct({
+ *   major: Schema.NumberFromString,
+ *   minor: Schema.NumberFromString,
+ * });
+ * const versions = extractAll(
+ *   digit().oneOrMore().group("major").then(".").then(digit().oneOrMore().group("minor")),
+ *   "v1.2, v3.10",
+ *   Version
+ * );
+ * // [{ major: 1, minor: 2 }, { major: 3, minor: 10 }]
+ * ```
+ */
+export const extractAll = <C extends string, A, I, R>(
+  pattern: PatternSource<C>,
+  text: string,
+  schema: Schema.Schema<A, I, R>,
+  options?: ExtractOptions
+): Effect.Effect<readonly A[], PatternError | ExtractionError, R> =>
+  Effect.flatMap(regexOf(pattern, flagsOf(options)), (regex) => {
+    const decode = Schema.decodeUnknown(schema);
+    return Stream.fromIterable(matchesOf(regex, text)).pipe(
+      Stream.map((found) => toMatch<C>(found)),
+      Stream.mapEffect((match) =>
+        decode(match.groups).pipe(
+          Effect.mapError(
+            (cause) =>
+              new ExtractionError({
+                pattern: regex.source,
+                index: match.index,
+                match: match.match,
+                cause,
+              })
+          )
+        )
+      ),
+      Stream.runCollect,
+      Effect.map(Chunk.toReadonlyArray)
+    );
+  });
+
+/**
+ * Replace every match of a pattern
+ *
+ * The replacement function receives the typed match and may return a
+ * string or an Effect (e.g. to look up a redaction token).
+ *
+ * @param pattern - Builder, pattern string or library entry
+ * @param text - Input to rewrite
+ * @param fn - Replacement for a match
+ * @param options - Matching flags
+ * @returns Effect yielding the rewritten text
+ * @example
+ * ```typescript
+ * const masked = replace(usSSN, "SSN: 123-45-6789", (match) =>
+ *   `***-**-${match.match.slice(-4)}`
+ * );
+ * // "SSN: ***-**-6789"
+ * ```
+ */
+export const replace = <C extends string = string, E = never, R = never>(
+  pattern: PatternSource<C>,
+  text: string,
+  fn: (match: Match<C>) => string | Effect.Effect<string, E, R>,
+  options?: ExtractOptions
+): Effect.Effect<string, PatternError | E, R> =>
+  Effect.flatMap(regexOf(pattern, flagsOf(options)), (regex) =>
+    splice(
+      text,
+      Array.from(matchesOf(regex, text), (found) => toMatch<C>(found)),
+      fn
+    )
+  );
+
+/**
+ * Layout of one pattern inside the combined scanner pattern
+ */
+interface ScanEntry {
+  readonly name: string;
+  /** Group name wrapping the whole pattern */
+  readonly key: string;
+  /** Number of the wrapping group */
+  readonly group: number;
+  /** Number of capture groups inside the pattern */
+  readonly groups: number;
+  /** Original names of its named groups */
+  readonly names: readonly string[];
+}
+
+/**
+ * Give a pattern's groups names unique to the combined pattern and shift
+ * its numbered backreferences past the groups that precede it
+ */
+const relocate = (
+  ast: Ast,
+  key: string,
+  offset: number,
+  names: string[]
+): Ast => {
+  const visit = (node: Ast): Ast => {
+    switch (node.type) {
+      case "group":
+      case "trycapture": {
+        if (node.name === undefined) {
+          return { ...node, child: visit(node.child) };
+        }
+        names.push(node.name);
+        return {
+          ...node,
+          name: `${key}_${node.name}`,
+          child: visit(node.child),
+        };
+      }
+      case "backref":
+        return {
+          ...node,
+          target:
+            typeof node.target === "string"
+              ? `${key}_${node.target}`
+              : node.target + offset,
+        };
+      case "seq":
+      case "alt":
+        return { ...node, children: node.children.map(visit) };
+      case "noncap":
+      case "assertion":
+      case "q":
+        return { ...node, child: visit(node.child) };
+      default:
+        return node;
+    }
+  };
+  return visit(ast);
+};
+
+/** Number of capture groups in a compiled pattern */
+const groupCount = (
+  pattern: string,
+  flags: string
+): Effect.Effect<number, RegexCompilationError> =>
+  Effect.map(
+    compile(`${pattern}|`, flags),
+    (regex) => (regex.exec("")?.length ?? 1) - 1
+  );
+
+const toScanMatch = <P>(
+  entries: readonly ScanEntry[],
+  found: RegExpExecArray
+): ScanMatch<P> => {
+  const groups = found.groups ?? {};
+  const entry =
+    entries.find((candidate) => groups[candidate.key] !== undefined) ??
+    entries[0];
+  const captured: Record<string, string | undefined> = {};
+  for (const name of entry?.names ?? []) {
+    captured[name] = groups[`${entry?.key}_${name}`];
+  }
+  const start = (entry?.group ?? 0) + 1;
+  return {
+    name: entry?.name,
+    match: found[0],
+    index: found.index,
+    end: found.index + found[0].length,
+    captures: found.slice(start, start + (entry?.groups ?? 0)),
+    groups: captured,
+  } as unknown as ScanMatch<P>;
+};
+
+/**
+ * Compile a set of patterns into a scanner that finds all of their
+ * matches in a single pass
+ *
+ * Each match reports the name of the pattern that produced it, with that
+ * pattern's own numbered and named captures. Named groups may repeat
+ * across patterns.
+ *
+ * @param patterns - Patterns by name, highest priority first
+ * @param options - Matching flags, shared by all patterns
+ * @returns Effect yielding the scanner, failing if a pattern does not
+ *   compile
+ * @example
+ * ```typescript
+ * const scanner = yield* makeScanner({
+ *   ssn: SECURITY_PATTERNS.usSSN,
+ *   card: SECURITY_PATTERNS.creditCard,
+ * });
+ * const redacted = yield* scanner.replace(log, (match) => `[${match.name}]`);
+ * ```
+ */
+export const makeScanner = <P extends Readonly<Record<string, PatternSource>>>(
+  patterns: P,
+  options?: ExtractOptions
+): Effect.Effect<Scanner<P>, PatternError> =>
+  Effect.gen(function* () {
+    const flags = flagsOf(options);
+    const entries: ScanEntry[] = [];
+    const alternatives: string[] = [];
+    let group = 1;
+
+    for (const [index, [name, source]] of Object.entries(patterns).entries()) {
+      const builder = builderOf(source);
+      const ast =
+        builder === undefined
+          ? yield* parse(source as string, flags)
+          : builder.getAst();
+      const key = `_${index}`;
+      const names: string[] = [];
+      const relocated = relocate(ast, key, group, names);
+      const pattern = emit(RegexBuilder.fromAst(relocated), "js").pattern;
+      const groups = yield* groupCount(pattern, flags);
+      entries.push({ name, key, group, groups, names });
+      alternatives.push(`(?<${key}>${pattern})`);
+      group += groups + 1;
+    }
+
+    const pattern = alternatives.length > 0 ? alternatives.join("|") : "(?!)";
+    const regex = yield* compile(pattern, flags);
+    const scanned = (text: string): Iterable<ScanMatch<P>> => ({
+      *[Symbol.iterator]() {
+        for (const found of text.matchAll(regex)) {
+          yield toScanMatch<P>(entries, found);
+        }
+      },
+    });
+
+    return {
+      pattern,
+      names: entries.map((entry) => entry.name as keyof P & string),
+      scan: (text) => Stream.fromIterable(scanned(text)),
+      replace: (text, fn) => splice(text, Array.from(scanned(text)), fn),
+    };
+  });
@@ -3,16 +3,23 @@
  *
  * This module provides comprehensive linting for regex patterns, checking for:
  * - Dialect compatibility issues (RE2, PCRE, JavaScript)
- * - Potential catastrophic backtracking
+ * - Catastrophic (exponential or polynomial) backtracking, using the
+ *   ReDoS analysis in core/redos
  * - Undefined backreferences
  * - Empty alternatives
  * - High pattern complexity
  *
+ * Pattern strings are parsed first; syntax errors are reported as
+ * SYNTAX_ERROR issues with the position of the error.
+ *
  * @module core/linter
  */
 
 import type { Ast } from "@/effect-regex/core/ast.js";
 import type { Dialect } from "@/effect-regex/core/emitter.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
+import { analyzeRedos, type RedosAttack } from "@/effect-regex/core/redos.js";
+import { RegexParseError } from "@/effect-regex/errors/types.js";
 
 /**
  * Lint issue severity levels
@@ -186,25 +193,43 @@ const collectGroups = (ast: Ast): Map<string | number, number> => {
   return groups;
 };
 
+/**
+ * Describe an attack string as `prefix + pump × n + suffix`
+ */
+const describeAttack = (attack: RedosAttack): string =>
+  [
+    ...(attack.prefix ? [JSON.stringify(attack.prefix)] : []),
+    `${JSON.stringify(attack.pump)} × n`,
+    ...(attack.suffix ? [JSON.stringify(attack.suffix)] : []),
+  ].join(" + ");
+
 /**
  * General linting rules applicable to all dialects
  */
-const GENERAL_RULES: ReadonlyArray<(ast: Ast) => LintIssue | null> = [
-  // Check for potential catastrophic backtracking
-  (node): LintIssue | null => {
-    if (node.type === "raw") {
-      // Simple heuristics for nested quantifiers
-      const nestedQuantifiers = /(\([^)]*\*[^*]*\))\s*\*/;
-      if (nestedQuantifiers.test(node.pattern)) {
-        return {
-          code: "CAT_BACKTRACK",
-          severity: "warning",
-          message:
-            "Potential catastrophic backtracking detected. Consider using atomic groups or possessive quantifiers.",
-        };
-      }
+const GENERAL_RULES: ReadonlyArray<
+  (ast: Ast, dialect: Dialect, flags: string) => LintIssue | null
+> = [
+  // Check for catastrophic backtracking (see core/redos)
+  (ast, dialect, flags): LintIssue | null => {
+    const { complexity, degree, attack } = analyzeRedos(ast, {
+      dialect,
+      flags,
+    });
+    if (!attack) {
+      return null;
     }
-    return null;
+    if (complexity === "exponential") {
+      return {
+        code: "CAT_BACKTRACK",
+        severity: "warning",
+        message: `Catastrophic backtracking: matching ${describeAttack(attack)} takes time exponential in n. Consider atomic groups, possessive quantifiers or removing the nested quantifier.`,
+      };
+    }
+    return {
+      code: "POLY_BACKTRACK",
+      severity: "warning",
+      message: `Polynomial backtracking: matching ${describeAttack(attack)} takes O(n^${degree}) time. Consider anchoring the pattern or making adjacent quantifiers match disjoint characters.`,
+    };
   },
 
   // Check for empty alternatives
@@ -280,15 +305,18 @@ const GENERAL_RULES: ReadonlyArray<(ast: Ast) => LintIssue | null> = [
 ];
 
 /**
- * Lint a regex AST for potential issues
+ * Lint a regex AST or pattern string for potential issues
  *
- * Performs comprehensive validation of a regex pattern AST, checking for:
+ * Performs comprehensive validation of a regex pattern, checking for:
+ * - Syntax errors (pattern strings only)
  * - Dialect-specific compatibility issues
  * - Potential performance problems (catastrophic backtracking, high complexity)
  * - Logical errors (undefined backreferences, empty alternatives)
  *
- * @param ast - The AST to lint
+ * @param input - The AST, or pattern source, to lint
  * @param dialect - Target regex dialect for compatibility checking
+ * @param flags - Pattern flags, used when parsing a pattern string and for
+ *   backtracking analysis
  * @returns Lint result with validity status and list of issues
  * @example
  * ```typescript
@@ -296,9 +324,36 @@ const GENERAL_RULES: ReadonlyArray<(ast: Ast) => LintIssue | null> = [
  * const result = lint(ast, "js");
  * // result.valid === false
  * // result.issues[0].code === "UNDEFINED_BACKREF"
+ *
+ * lint("(a|b", "js").issues[0];
+ * // { code: "SYNTAX_ERROR", severity: "error", position: { start: 0, end: 1 }, ... }
  * ```
  */
-export const lint = (ast: Ast, dialect: Dialect): LintResult => {
+export const lint = (
+  input: Ast | string,
+  dialect: Dialect,
+  flags = ""
+): LintResult => {
+  if (typeof input !== "string") {
+    return lintAst(input, dialect, flags);
+  }
+  try {
+    return lintAst(parseRegex(input, flags, dialect), dialect, flags);
+  } catch (error) {
+    if (!(error instanceof RegexParseError)) {
+      throw error;
+    }
+    const issue: LintIssue = {
+      code: "SYNTAX_ERROR",
+      severity: "error",
+      message: error.message,
+      ...(error.position ? { position: error.position } : {}),
+    };
+    return { valid: false, issues: [issue] };
+  }
+};
+
+const lintAst = (ast: Ast, dialect: Dialect, flags: string): LintResult => {
   const issues: LintIssue[] = [];
 
   // Recursively lint all nodes in the tree
@@ -337,7 +392,7 @@ export const lint = (ast: Ast, dialect: Dialect): LintResult => {
 
   // Run general rules on the root AST (these may traverse the tree themselves)
   for (const rule of GENERAL_RULES) {
-    const issue = rule(ast);
+    const issue = rule(ast, dialect, flags);
     if (issue) {
       issues.push(issue);
     }
@@ -421,7 +476,7 @@ const estimateComplexity = (node: Ast): number => {
  * console.log(formatLintResult(result));
  * // Lint Results:
  * // ❌ RE2_BACKREFS: Backreferences are not supported in RE2.
- * // ⚠️ CAT_BACKTRACK: Potential catastrophic backtracking detected.
+ * // ⚠️ CAT_BACKTRACK: Catastrophic backtracking: matching "a" × n + "!" takes ...
  * ```
  */
 export const formatLintResult = (result: LintResult): string => {
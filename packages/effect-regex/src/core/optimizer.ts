@@ -9,6 +9,8 @@
  */
 
 import type { Ast as RegexAST } from "@/effect-regex/core/ast.js";
+import type { Dialect } from "@/effect-regex/core/emitter.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
 
 /**
  * Result of pattern optimization with performance metrics
@@ -46,9 +48,15 @@ export interface OptimizationOptions {
   readonly alternationDedup?: boolean;
   /** Maximum optimization iterations (default: 5) */
   readonly maxPasses?: number;
+  /** Dialect of a pattern string input (default: "js") */
+  readonly dialect?: Dialect;
+  /** Flags of a pattern string input (default: none) */
+  readonly flags?: string;
 }
 
-const DEFAULT_OPTIONS: Required<OptimizationOptions> = {
+const DEFAULT_OPTIONS: Required<
+  Omit<OptimizationOptions, "dialect" | "flags">
+> = {
   constantFolding: true,
   quantifierSimplification: true,
   characterClassMerging: true,
@@ -482,9 +490,12 @@ function astEquals(a: RegexAST, b: RegexAST): boolean {
  * 3. **Character Class Merging**: Combines alternating character classes
  * 4. **Alternation Deduplication**: Removes duplicate alternatives
  *
- * @param ast - The regex AST to optimize
+ * Pattern strings are parsed first, using the options' dialect and flags.
+ *
+ * @param input - The regex AST, or pattern source, to optimize
  * @param options - Optimization configuration (all passes enabled by default)
  * @returns Optimization result with optimized AST and metrics
+ * @throws RegexParseError if a pattern string is not valid syntax
  * @example
  * ```typescript
  * const ast = seq(lit("hello"), lit(" "), lit("world"));
@@ -498,10 +509,14 @@ function astEquals(a: RegexAST, b: RegexAST): boolean {
  * ```
  */
 export function optimize(
-  ast: RegexAST,
+  input: RegexAST | string,
   options: OptimizationOptions = {}
 ): OptimizationResult {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const ast =
+    typeof input === "string"
+      ? parseRegex(input, options.flags, options.dialect)
+      : input;
   const passesApplied: string[] = [];
   const beforeSize = countNodes(ast);
 
@@ -0,0 +1,1033 @@
+/**
+ * Regex string parser - converts pattern strings into the AST
+ *
+ * This module parses regex source text in the JavaScript, RE2 or PCRE
+ * syntax into the same AST the builder produces, so user-supplied patterns
+ * can be explained, linted and optimized like standard library patterns.
+ *
+ * Constructs the AST has nodes for (literals, classes, groups, assertions,
+ * backreferences, quantifiers, anchors) are parsed structurally. Valid
+ * constructs it cannot represent (shorthand classes, atomic groups,
+ * possessive quantifiers, inline flags, ...) become `RawNode`s holding
+ * their source text, so emitting a parsed pattern reproduces it.
+ *
+ * Features a dialect accepts syntactically but the emitter cannot target
+ * (e.g. backreferences in RE2) are parsed as usual and reported by the
+ * linter rather than rejected here.
+ *
+ * @module core/parser
+ */
+
+import {
+  type AltNode,
+  type Ast,
+  anchor,
+  backref,
+  cls,
+  group,
+  lit,
+  lookahead,
+  lookbehind,
+  negativeLookahead,
+  negativeLookbehind,
+  noncap,
+  q,
+  raw,
+} from "@/effect-regex/core/ast.js";
+import { decodeEscape } from "@/effect-regex/core/charset.js";
+import type { Dialect } from "@/effect-regex/core/emitter.js";
+import { RegexParseError } from "@/effect-regex/errors/types.js";
+
+/**
+ * Flags each dialect accepts (PCRE flags use the PHP modifier letters)
+ */
+const DIALECT_FLAGS: Record<Dialect, string> = {
+  js: "dgimsuvy",
+  re2: "imsU",
+  pcre: "imsxADSUXJun",
+};
+
+const GROUP_NAME_PATTERNS: Record<Dialect, RegExp> = {
+  js: /^[A-Za-z_$][\w$]*$/,
+  re2: /^[A-Za-z_]\w*$/,
+  pcre: /^[A-Za-z_]\w{0,31}$/,
+};
+
+const RE2_MAX_REPEAT = 1000;
+const SIMPLE_QUANTIFIERS: Record<string, readonly [number, number | null]> = {
+  "*": [0, null],
+  "+": [1, null],
+  "?": [0, 1],
+};
+const QUANTIFIER_BRACES = /\{(\d+)(,(\d*))?\}/y;
+const GROUP_NAME = /[^>]*/y;
+const QUOTED_GROUP_NAME = /[^']*/y;
+const INLINE_FLAGS = /\(\?[a-zA-Z]*(?:-[a-zA-Z]*)?(?=[:)])/y;
+const PCRE_RECURSION = /\(\?(?:R|[+-]?\d+|&\w+|P>\w+)\)/y;
+const PROPERTY_NAME = /\{[\w=^ -]+\}|[A-Za-z]/y;
+const HEX_2 = /[0-9a-fA-F]{2}/y;
+const HEX_4 = /[0-9a-fA-F]{4}/y;
+const HEX_BRACED = /\{[0-9a-fA-F]+\}/y;
+const OCTAL = /[0-7]{1,3}/y;
+const DIGITS = /\d+/y;
+const DIGIT = /\d/;
+const WORD = /\w+/y;
+const ANGLE_NAME = /<(\w+)>/y;
+const INTEGER = /^-?\d+$/;
+const LETTER = /[A-Za-z]/;
+const NAMED_GROUP_START = /^\?(?:<[^=!]|P<|')/;
+const PCRE_GROUP_REF = /g(?:\{(-?\d+|\w+)\}|(-?\d+))/y;
+const PCRE_NAMED_REF = /k(?:\{(\w+)\}|'(\w+)'|<(\w+)>)/y;
+const SET_OPERATOR = /--|&&/y;
+const POSIX_CLASS = /\[:\^?[a-z]+:\]/y;
+const WHITESPACE = /\s/;
+const ALPHANUMERIC = /[A-Za-z0-9]/;
+const JS_SYNTAX_CHARS = new Set("^$\\.*+?()[]{}|/");
+const SHORTHAND_CLASSES = new Set("dDwWsS");
+const CONTROL_ESCAPES = new Set("tnrfv");
+const PCRE_SHORTHAND_CLASSES = new Set("hHvVRNX");
+const PCRE_CONTROL_ESCAPES = new Set("ae");
+const PCRE_ASSERTIONS = new Set("AzZG");
+const RE2_ASSERTIONS = new Set("Az");
+
+/**
+ * A parsed sequence element with its source span
+ */
+interface Term {
+  readonly node: Ast;
+  readonly start: number;
+  readonly end: number;
+  /** Escaped literal text, if the term is a single literal character */
+  readonly literal?: string;
+  /** Whether a quantifier may follow the term */
+  readonly quantifiable: boolean;
+}
+
+/**
+ * Capture groups in the pattern, counted before parsing so numeric
+ * escapes can be told apart from octal escapes as the engines do
+ */
+const countGroups = (
+  source: string
+): { readonly count: number; readonly named: boolean } => {
+  let count = 0;
+  let named = false;
+  let inClass = false;
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === "\\") {
+      index++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      const rest = source.slice(index + 1, index + 4);
+      if (!rest.startsWith("?")) {
+        count++;
+      } else if (NAMED_GROUP_START.test(rest)) {
+        count++;
+        named = true;
+      }
+    }
+  }
+  return { count, named };
+};
+
+/**
+ * Recursive descent over regex source text
+ */
+class RegexParser {
+  private readonly source: string;
+  private readonly flags: string;
+  private readonly dialect: Dialect;
+  private readonly unicode: boolean;
+  private readonly unicodeSets: boolean;
+  private readonly extended: boolean;
+  private readonly totalGroups: number;
+  private readonly hasNamedGroups: boolean;
+  private readonly names = new Set<string>();
+  private groupCount = 0;
+  private index = 0;
+
+  constructor(source: string, flags: string, dialect: Dialect) {
+    this.source = source;
+    this.flags = flags;
+    this.dialect = dialect;
+    this.unicodeSets = dialect === "js" && flags.includes("v");
+    this.unicode = dialect !== "js" || flags.includes("u") || this.unicodeSets;
+    this.extended = dialect === "pcre" && flags.includes("x");
+    const groups = countGroups(source);
+    this.totalGroups = groups.count;
+    this.hasNamedGroups = groups.named;
+  }
+
+  /**
+   * Whether JavaScript's strict (u/v flag) syntax applies
+   */
+  private get strict(): boolean {
+    return this.dialect === "js" && this.unicode;
+  }
+
+  pattern(): Ast {
+    const ast = this.disjunction();
+    if (this.index < this.source.length) {
+      // Only an unmatched ")" ends a disjunction early
+      this.fail("Unmatched ')'", this.index, this.index + 1);
+    }
+    return ast;
+  }
+
+  private fail(reason: string, start = this.index, end = start + 1): never {
+    throw new RegexParseError({
+      pattern: this.source,
+      flags: this.flags,
+      dialect: this.dialect,
+      reason,
+      position: { start, end: Math.min(end, this.source.length) },
+      message: `Invalid ${this.dialect.toUpperCase()} pattern: ${reason} at position ${start}`,
+    });
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.index + offset] ?? "";
+  }
+
+  private match(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.index;
+    const found = pattern.exec(this.source);
+    if (found) {
+      this.index = pattern.lastIndex;
+    }
+    return found;
+  }
+
+  /**
+   * Skip whitespace and # comments in PCRE extended (x) mode
+   */
+  private skipTrivia(): void {
+    if (!this.extended) {
+      return;
+    }
+    while (this.index < this.source.length) {
+      if (WHITESPACE.test(this.peek())) {
+        this.index++;
+      } else if (this.peek() === "#") {
+        const end = this.source.indexOf("\n", this.index);
+        this.index = end === -1 ? this.source.length : end + 1;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private disjunction(): Ast {
+    const alternatives = [this.alternative()];
+    while (this.peek() === "|") {
+      this.index++;
+      alternatives.push(this.alternative());
+    }
+    if (alternatives.length === 1) {
+      return alternatives[0] as Ast;
+    }
+    // Built directly: alt() sorts its children, and order matters here
+    const node: AltNode = { type: "alt", children: alternatives };
+    return node;
+  }
+
+  private alternative(): Ast {
+    const terms: Term[] = [];
+    this.skipTrivia();
+    while (
+      this.index < this.source.length &&
+      this.peek() !== "|" &&
+      this.peek() !== ")"
+    ) {
+      terms.push(...this.term());
+      this.skipTrivia();
+    }
+    return sequence(terms);
+  }
+
+  /**
+   * An atom and its quantifier, if any. `\Q...\E` quotes yield one term
+   * per character so a trailing quantifier binds to the last one.
+   */
+  private term(): readonly Term[] {
+    const atoms = this.atom();
+    const last = atoms.at(-1);
+    if (!last) {
+      return atoms;
+    }
+    this.skipTrivia();
+    return [...atoms.slice(0, -1), this.quantified(last)];
+  }
+
+  private quantified(term: Term): Term {
+    const bounds = this.quantifierBounds();
+    if (!bounds) {
+      return term;
+    }
+    if (!term.quantifiable) {
+      this.fail("Nothing to repeat", term.start, this.index);
+    }
+    const [min, max] = bounds;
+    let lazy = false;
+    if (this.peek() === "?") {
+      lazy = true;
+      this.index++;
+    } else if (this.peek() === "+" && this.dialect === "pcre") {
+      // Possessive quantifiers have no AST node
+      this.index++;
+      return this.opaque(term.start);
+    }
+    return {
+      node: q(term.node, min, max, lazy),
+      start: term.start,
+      end: this.index,
+      quantifiable: false,
+    };
+  }
+
+  private quantifierBounds(): readonly [number, number | null] | undefined {
+    const char = this.peek();
+    const simple = SIMPLE_QUANTIFIERS[char];
+    if (simple) {
+      this.index++;
+      return simple;
+    }
+    return char === "{" ? this.braceQuantifier() : undefined;
+  }
+
+  private braceQuantifier(): readonly [number, number | null] | undefined {
+    const start = this.index;
+    const braces = this.match(QUANTIFIER_BRACES);
+    if (!braces) {
+      return;
+    }
+    const min = Number(braces[1]);
+    let max: number | null = min;
+    if (braces[2] !== undefined) {
+      max = braces[3] ? Number(braces[3]) : null;
+    }
+    if (max !== null && max < min) {
+      this.fail("Numbers out of order in {} quantifier", start, this.index);
+    }
+    if (this.dialect === "re2" && (max ?? min) > RE2_MAX_REPEAT) {
+      this.fail(
+        `Repetition count exceeds ${RE2_MAX_REPEAT}`,
+        start,
+        this.index
+      );
+    }
+    return [min, max];
+  }
+
+  private atom(): readonly Term[] {
+    const start = this.index;
+    const char = this.peek();
+    switch (char) {
+      case "(":
+        return this.group();
+      case "[":
+        return [this.characterClass()];
+      case "\\":
+        return this.escape();
+      case ".":
+        this.index++;
+        return [this.node(raw("."), start)];
+      case "^":
+      case "$":
+        this.index++;
+        return [
+          this.node(anchor(char === "^" ? "start" : "end"), start, false),
+        ];
+      case "*":
+      case "+":
+      case "?":
+        return this.fail("Nothing to repeat");
+      default:
+        return [this.literalCharacter()];
+    }
+  }
+
+  private node(ast: Ast, start: number, quantifiable = true): Term {
+    return { node: ast, start, end: this.index, quantifiable };
+  }
+
+  /**
+   * A single literal character, kept as its escaped source text
+   */
+  private literal(escaped: string, start: number): Term {
+    return {
+      ...this.node({ type: "lit", value: escaped }, start),
+      literal: escaped,
+    };
+  }
+
+  /**
+   * The source since `start` as a RawNode, for constructs without a node
+   */
+  private opaque(start: number, quantifiable = true): Term {
+    return this.node(
+      raw(this.source.slice(start, this.index)),
+      start,
+      quantifiable
+    );
+  }
+
+  private literalCharacter(): Term {
+    const start = this.index;
+    const char = this.peek();
+    if (char === "{") {
+      QUANTIFIER_BRACES.lastIndex = this.index;
+      if (QUANTIFIER_BRACES.test(this.source)) {
+        this.fail("Nothing to repeat");
+      }
+    }
+    if (this.strict && (char === "{" || char === "}" || char === "]")) {
+      this.fail(`Lone quantifier bracket or "${char}"`);
+    }
+    const codePoint = String.fromCodePoint(
+      this.source.codePointAt(this.index) ?? 0
+    );
+    this.index += codePoint.length;
+    return this.literal(lit(codePoint).value, start);
+  }
+
+  private group(): readonly Term[] {
+    const start = this.index;
+    if (this.peek(1) !== "?") {
+      this.index++;
+      this.groupCount++;
+      return [this.closeGroup(start, (child) => group(child))];
+    }
+    this.index += 2;
+    switch (this.peek()) {
+      case ":":
+        this.index++;
+        return [this.closeGroup(start, noncap)];
+      case "=":
+        this.index++;
+        return [this.closeGroup(start, lookahead, !this.strict)];
+      case "!":
+        this.index++;
+        return [this.closeGroup(start, negativeLookahead, !this.strict)];
+      case "<":
+        return [this.angleGroup(start)];
+      default:
+        return this.extensionGroup(start);
+    }
+  }
+
+  /**
+   * `(?<=`, `(?<!` or `(?<name>`
+   */
+  private angleGroup(start: number): Term {
+    this.index++;
+    if (this.peek() === "=") {
+      this.index++;
+      return this.closeGroup(start, lookbehind, false);
+    }
+    if (this.peek() === "!") {
+      this.index++;
+      return this.closeGroup(start, negativeLookbehind, false);
+    }
+    return this.namedGroup(start, GROUP_NAME, ">");
+  }
+
+  private namedGroup(start: number, pattern: RegExp, close: string): Term {
+    const nameStart = this.index;
+    const name = this.match(pattern)?.[0] ?? "";
+    if (this.peek() !== close) {
+      this.fail("Unterminated group name", nameStart);
+    }
+    if (!GROUP_NAME_PATTERNS[this.dialect].test(name)) {
+      this.fail(`Invalid capture group name "${name}"`, nameStart, this.index);
+    }
+    const duplicatesAllowed =
+      this.dialect === "pcre" && this.flags.includes("J");
+    if (this.names.has(name) && !duplicatesAllowed) {
+      this.fail(
+        `Duplicate capture group name "${name}"`,
+        nameStart,
+        this.index
+      );
+    }
+    this.names.add(name);
+    this.index++;
+    this.groupCount++;
+    return this.closeGroup(start, (child) => group(child, name));
+  }
+
+  /**
+   * Groups beyond JavaScript syntax: PCRE/RE2 named groups and
+   * references, comments, atomic groups, recursion and inline flags
+   */
+  private extensionGroup(start: number): readonly Term[] {
+    if (this.dialect !== "js") {
+      const term = this.pcreGroup(start);
+      if (term !== undefined) {
+        return term;
+      }
+    }
+    this.index = start;
+    if (this.dialect !== "js" && this.match(INLINE_FLAGS)) {
+      return [this.inlineFlags(start)];
+    }
+    return this.fail("Invalid group", start, start + 3);
+  }
+
+  private pcreGroup(start: number): readonly Term[] | undefined {
+    const rest = this.source.slice(this.index);
+    if (rest.startsWith("P<")) {
+      this.index += 2;
+      return [this.namedGroup(start, GROUP_NAME, ">")];
+    }
+    if (this.dialect !== "pcre") {
+      return;
+    }
+    if (rest.startsWith("'")) {
+      this.index++;
+      return [this.namedGroup(start, QUOTED_GROUP_NAME, "'")];
+    }
+    if (rest.startsWith("P=")) {
+      return [this.namedBackref(start)];
+    }
+    if (rest.startsWith("#")) {
+      return this.comment(start);
+    }
+    if (rest.startsWith(">") || rest.startsWith("|")) {
+      this.index++;
+      return [this.opaqueGroup(start)];
+    }
+    this.index = start;
+    if (this.match(PCRE_RECURSION)) {
+      return [this.opaque(start)];
+    }
+    return;
+  }
+
+  private namedBackref(start: number): Term {
+    this.index += 2;
+    const name = this.match(WORD)?.[0];
+    if (!name || this.peek() !== ")") {
+      this.fail("Invalid named backreference", start, this.index);
+    }
+    this.index++;
+    return this.node(backref(name), start);
+  }
+
+  private comment(start: number): readonly Term[] {
+    const end = this.source.indexOf(")", this.index);
+    if (end === -1) {
+      this.fail("Unterminated comment", start);
+    }
+    this.index = end + 1;
+    return [];
+  }
+
+  /**
+   * `(?i)` applies to the rest of the group; `(?i:...)` to its contents
+   */
+  private inlineFlags(start: number): Term {
+    if (this.peek() === ")") {
+      this.index++;
+      return this.opaque(start, false);
+    }
+    this.index++;
+    return this.opaqueGroup(start);
+  }
+
+  /**
+   * A group whose contents are parsed (for validation and group
+   * numbering) but which is kept as source text
+   */
+  private opaqueGroup(start: number): Term {
+    this.disjunction();
+    if (this.peek() !== ")") {
+      this.fail("Unterminated group", start);
+    }
+    this.index++;
+    return this.opaque(start);
+  }
+
+  private closeGroup(
+    start: number,
+    make: (child: Ast) => Ast,
+    quantifiable = true
+  ): Term {
+    const child = this.disjunction();
+    if (this.peek() !== ")") {
+      this.fail("Unterminated group", start);
+    }
+    this.index++;
+    return this.node(make(child), start, quantifiable);
+  }
+
+  private characterClass(): Term {
+    const start = this.index;
+    this.index++;
+    const negated = this.peek() === "^";
+    if (negated) {
+      this.index++;
+    }
+    const contentStart = this.index;
+    this.classContents(start);
+    const chars = this.source.slice(contentStart, this.index);
+    this.index++;
+    return this.node(cls(chars, negated), start);
+  }
+
+  /**
+   * Validate class members up to (not including) the closing bracket
+   */
+  private classContents(start: number): void {
+    // In PCRE and RE2 a leading "]" is a literal
+    if (this.dialect !== "js" && this.peek() === "]") {
+      this.index++;
+    }
+    let previous: ClassAtom | undefined;
+    while (this.peek() !== "]") {
+      if (this.index >= this.source.length) {
+        this.fail("Unterminated character class", start);
+      }
+      const atomStart = this.index;
+      const atom = this.classAtom(start);
+      if (previous && atom.range) {
+        previous = this.classRange(previous, atomStart);
+      } else {
+        previous = atom.range ? undefined : atom;
+      }
+    }
+  }
+
+  private classRange(from: ClassAtom, rangeStart: number): undefined {
+    if (this.peek() === "]") {
+      // A trailing "-" is a literal
+      return;
+    }
+    const to = this.classAtom(rangeStart);
+    if (from.codePoint === undefined || to.codePoint === undefined) {
+      if (this.strict) {
+        this.fail("Invalid character class range", rangeStart - 1, this.index);
+      }
+      return;
+    }
+    if (from.codePoint > to.codePoint) {
+      this.fail(
+        "Range out of order in character class",
+        rangeStart - 1,
+        this.index
+      );
+    }
+    return;
+  }
+
+  private classAtom(classStart: number): ClassAtom {
+    const char = this.peek();
+    if (this.unicodeSets && this.match(SET_OPERATOR)) {
+      return {};
+    }
+    if (char === "-") {
+      this.index++;
+      return { range: true, codePoint: 45 };
+    }
+    if (char === "\\") {
+      return { codePoint: this.classEscape() };
+    }
+    if (char === "[" && this.dialect !== "js" && this.match(POSIX_CLASS)) {
+      return {};
+    }
+    if (char === "[" && this.unicodeSets) {
+      this.index++;
+      this.classContents(classStart);
+      this.index++;
+      return {};
+    }
+    const codePoint = this.source.codePointAt(this.index) ?? 0;
+    this.index += String.fromCodePoint(codePoint).length;
+    return { codePoint };
+  }
+
+  /**
+   * An escape inside a class: its code point, or undefined for classes
+   */
+  private classEscape(): number | undefined {
+    const start = this.index;
+    this.index++;
+    const char = this.peek();
+    if (char === "b") {
+      this.index++;
+      return 8;
+    }
+    if (char === "-" && this.strict) {
+      this.index++;
+      return 45;
+    }
+    const term = this.characterEscape(start);
+    const text = term.literal;
+    if (text === undefined) {
+      return;
+    }
+    return decodeEscape(text);
+  }
+
+  private escape(): readonly Term[] {
+    const start = this.index;
+    this.index++;
+    const char = this.peek();
+    if (char === "b" || char === "B") {
+      this.index++;
+      return [
+        this.node(char === "b" ? anchor("word") : raw("\\B"), start, false),
+      ];
+    }
+    if (this.isAssertionEscape(char)) {
+      this.index++;
+      return [this.opaque(start, false)];
+    }
+    if (char === "Q" && this.dialect !== "js") {
+      return this.quote();
+    }
+    const reference = this.backreference(start);
+    if (reference) {
+      return [reference];
+    }
+    return [this.characterEscape(start)];
+  }
+
+  private isAssertionEscape(char: string): boolean {
+    return (
+      (this.dialect === "pcre" && PCRE_ASSERTIONS.has(char)) ||
+      (this.dialect === "re2" && RE2_ASSERTIONS.has(char))
+    );
+  }
+
+  /**
+   * `\Q...\E`: everything up to `\E` (or the end) is literal
+   */
+  private quote(): readonly Term[] {
+    this.index++;
+    const end = this.source.indexOf("\\E", this.index);
+    const stop = end === -1 ? this.source.length : end;
+    const terms: Term[] = [];
+    while (this.index < stop) {
+      const start = this.index;
+      const char = String.fromCodePoint(this.source.codePointAt(start) ?? 0);
+      this.index += char.length;
+      terms.push(this.literal(lit(char).value, start));
+    }
+    this.index = end === -1 ? stop : end + 2;
+    return terms;
+  }
+
+  private backreference(start: number): Term | undefined {
+    const char = this.peek();
+    if (char >= "1" && char <= "9") {
+      return this.numericBackref(start);
+    }
+    if (this.dialect === "pcre" && (char === "g" || char === "k")) {
+      return this.pcreBackref(start);
+    }
+    if (char === "k" && (this.strict || this.hasNamedGroups)) {
+      this.index++;
+      const name = this.match(ANGLE_NAME)?.[1];
+      if (!name) {
+        this.fail("Invalid named reference", start, this.index);
+      }
+      return this.node(backref(name), start);
+    }
+    return;
+  }
+
+  private numericBackref(start: number): Term | undefined {
+    const digits = this.match(DIGITS)?.[0] ?? "";
+    const number = Number(digits);
+    if (number <= this.totalGroups || (this.dialect !== "js" && number < 10)) {
+      return this.node(backref(number), start);
+    }
+    if (this.strict) {
+      this.fail("Invalid escape", start, this.index);
+    }
+    // Legacy octal escape (or a literal digit) in sloppy JS and PCRE
+    this.index = start + 1;
+    return;
+  }
+
+  private pcreBackref(start: number): Term | undefined {
+    const found = this.match(
+      this.peek() === "g" ? PCRE_GROUP_REF : PCRE_NAMED_REF
+    );
+    if (!found) {
+      return;
+    }
+    const target = found.slice(1).find((value) => value !== undefined) ?? "";
+    if (!INTEGER.test(target)) {
+      return this.node(backref(target), start);
+    }
+    const number = Number(target);
+    // Relative references count back from the last group opened
+    const absolute = number < 0 ? this.groupCount + number + 1 : number;
+    if (absolute < 1) {
+      this.fail("Reference to a non-existent group", start, this.index);
+    }
+    return this.node(backref(absolute), start);
+  }
+
+  /**
+   * An escape that stands for a character or a class: a literal term, or
+   * a raw term for shorthand and property classes
+   */
+  private characterEscape(start: number): Term {
+    const char = this.peek();
+    if (char === "") {
+      this.fail("\\ at end of pattern", start);
+    }
+    if (
+      SHORTHAND_CLASSES.has(char) ||
+      (this.dialect === "pcre" && PCRE_SHORTHAND_CLASSES.has(char))
+    ) {
+      this.index++;
+      return this.opaque(start);
+    }
+    if (char === "p" || char === "P") {
+      return this.propertyEscape(start);
+    }
+    const sequence = this.escapeSequence(char);
+    if (sequence) {
+      return this.literal(sequence, start);
+    }
+    return this.identityEscape(start, char);
+  }
+
+  private propertyEscape(start: number): Term {
+    if (this.dialect === "js" && !this.unicode) {
+      return this.identityEscape(start, this.peek());
+    }
+    this.index++;
+    if (
+      !this.match(PROPERTY_NAME) ||
+      (this.dialect === "js" && this.source[this.index - 1] !== "}")
+    ) {
+      this.fail("Invalid property name", start, this.index);
+    }
+    return this.opaque(start);
+  }
+
+  /**
+   * Character escapes like `\n`, `\x41`, `A`, `\cJ` or `\0`; the
+   * consumed escape text, or undefined if none matches
+   */
+  private escapeSequence(char: string): string | undefined {
+    const start = this.index - 1;
+    if (
+      CONTROL_ESCAPES.has(char) &&
+      !(char === "v" && this.dialect === "pcre")
+    ) {
+      this.index++;
+    } else if (this.dialect === "pcre" && PCRE_CONTROL_ESCAPES.has(char)) {
+      this.index++;
+    } else if (char === "x") {
+      this.hexEscape();
+    } else if (char === "u") {
+      this.unicodeEscape();
+    } else if (char === "c") {
+      this.controlEscape();
+    } else if (char === "0" || (char >= "1" && char <= "9")) {
+      this.octalEscape(char);
+    }
+    return this.index === start + 1
+      ? undefined
+      : this.source.slice(start, this.index);
+  }
+
+  private hexEscape(): void {
+    const start = this.index - 1;
+    this.index++;
+    if (this.match(HEX_2)) {
+      return;
+    }
+    if (this.dialect !== "js" && this.match(HEX_BRACED)) {
+      return;
+    }
+    if (this.strict || this.dialect !== "js") {
+      this.fail("Invalid hexadecimal escape", start, this.index);
+    }
+    this.index = start + 1;
+  }
+
+  private unicodeEscape(): void {
+    const start = this.index - 1;
+    if (this.dialect !== "js") {
+      this.fail("\\u is not supported, use \\x{...}", start, start + 2);
+    }
+    this.index++;
+    if (this.match(HEX_4) || (this.unicode && this.match(HEX_BRACED))) {
+      return;
+    }
+    if (this.strict) {
+      this.fail("Invalid Unicode escape", start, this.index);
+    }
+    this.index = start + 1;
+  }
+
+  private controlEscape(): void {
+    const start = this.index - 1;
+    if (LETTER.test(this.peek(1))) {
+      this.index += 2;
+      return;
+    }
+    if (this.strict || this.dialect !== "js") {
+      this.fail("Invalid control escape", start, start + 2);
+    }
+  }
+
+  private octalEscape(char: string): void {
+    const start = this.index - 1;
+    if (this.strict) {
+      if (char !== "0" || DIGIT.test(this.peek(1))) {
+        this.fail("Invalid decimal escape", start, start + 3);
+      }
+      this.index++;
+      return;
+    }
+    if (this.dialect === "re2" && char !== "0") {
+      // RE2 would have read this as a backreference; see numericBackref
+      this.fail("Invalid escape", start, start + 2);
+    }
+    if (!this.match(OCTAL)) {
+      // \8 and \9 are identity escapes in sloppy JS
+      this.index = start + 1;
+    }
+  }
+
+  private identityEscape(start: number, char: string): Term {
+    const identityAllowed = this.strict
+      ? JS_SYNTAX_CHARS.has(char)
+      : this.dialect === "js" || !ALPHANUMERIC.test(char);
+    if (!identityAllowed) {
+      this.fail(`Invalid escape "\\${char}"`, start, start + 2);
+    }
+    const text = String.fromCodePoint(this.source.codePointAt(this.index) ?? 0);
+    this.index += text.length;
+    return this.literal(this.source.slice(start, this.index), start);
+  }
+}
+
+/**
+ * A class member: its code point if it is a single character, or a
+ * range marker for "-"
+ */
+interface ClassAtom {
+  readonly codePoint?: number | undefined;
+  readonly range?: boolean;
+}
+
+/**
+ * Combine terms into a sequence, merging runs of unquantified literal
+ * characters into one literal node
+ */
+const sequence = (terms: readonly Term[]): Ast => {
+  const children: Ast[] = [];
+  let text = "";
+  for (const term of terms) {
+    if (term.literal !== undefined && term.node.type === "lit") {
+      text += term.literal;
+      continue;
+    }
+    if (text) {
+      children.push({ type: "lit", value: text });
+      text = "";
+    }
+    children.push(term.node);
+  }
+  if (text || children.length === 0) {
+    children.push({ type: "lit", value: text });
+  }
+  return children.length === 1
+    ? (children[0] as Ast)
+    : { type: "seq", children };
+};
+
+const validateFlags = (
+  source: string,
+  flags: string,
+  dialect: Dialect
+): void => {
+  const seen = new Set<string>();
+  for (const flag of flags) {
+    let reason: string | undefined;
+    if (!DIALECT_FLAGS[dialect].includes(flag)) {
+      reason = `Invalid flag "${flag}" for ${dialect.toUpperCase()}`;
+    } else if (seen.has(flag)) {
+      reason = `Duplicate flag "${flag}"`;
+    }
+    if (reason) {
+      throw new RegexParseError({
+        pattern: source,
+        flags,
+        dialect,
+        reason,
+        message: `Invalid ${dialect.toUpperCase()} pattern: ${reason}`,
+      });
+    }
+    seen.add(flag);
+  }
+  if (seen.has("u") && seen.has("v") && dialect === "js") {
+    throw new RegexParseError({
+      pattern: source,
+      flags,
+      dialect,
+      reason: 'Flags "u" and "v" cannot be combined',
+      message: `Invalid JS pattern: Flags "u" and "v" cannot be combined`,
+    });
+  }
+};
+
+/**
+ * Parse a regex pattern string into an AST
+ *
+ * Accepts the syntax of the given dialect (JavaScript `RegExp`, RE2 or
+ * PCRE) and flags; the `u`/`v` flags select JavaScript's stricter
+ * Unicode syntax and the PCRE `x` flag ignores whitespace and comments.
+ * Flags are validated but not part of the AST.
+ *
+ * @param source - The pattern source, without delimiters
+ * @param flags - Pattern flags (default: none)
+ * @param dialect - Syntax to accept (default: "js")
+ * @returns The pattern AST
+ * @throws RegexParseError with the position of the syntax error
+ * @example
+ * ```typescript
+ * const ast = parseRegex("(?<year>\\d{4})-\\k<year>");
+ * // seq(group(q(raw("\\d"), 4, 4), "year"), lit("-"), backref("year"))
+ *
+ * parseRegex("(a|b");
+ * // throws RegexParseError: Unterminated group at position 0
+ * ```
+ */
+export const parseRegex = (
+  source: string,
+  flags = "",
+  dialect: Dialect = "js"
+): Ast => {
+  validateFlags(source, flags, dialect);
+  const ast = new RegexParser(source, flags, dialect).pattern();
+  if (dialect === "js") {
+    // Backstop for engine-specific rules the parser does not model
+    try {
+      new RegExp(source, flags);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RegexParseError({
+        pattern: source,
+        flags,
+        dialect,
+        reason,
+        message: `Invalid JS pattern: ${reason}`,
+      });
+    }
+  }
+  return ast;
+};
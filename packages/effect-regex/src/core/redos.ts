@@ -0,0 +1,1253 @@
+/**
+ * ReDoS analysis - static detection of super-linear backtracking
+ *
+ * Backtracking engines (JavaScript, PCRE) can take exponential or
+ * polynomial time when a pattern is ambiguous, i.e. when a loop can match
+ * the same string in more than one way. This module compiles a pattern
+ * into a Thompson NFA, removes its epsilon transitions and looks for the
+ * two ambiguities that cause blowup:
+ *
+ * - **EDA** (exponential degree of ambiguity): a state with two distinct
+ *   paths back to itself reading the same string, as in `(a|a)*` or
+ *   `(a+)+`. Matching time is O(2^n).
+ * - **IDA** (infinite degree of ambiguity): looping states `p` and `q`
+ *   and a string that can loop on `p`, lead from `p` to `q` and loop on
+ *   `q`, as in `\d+\d+`. A chain of k such pairs gives O(n^(k+1)).
+ *
+ * For each ambiguity a concrete attack string `prefix + pump × repeat +
+ * suffix` is built and checked against the NFA: the suffix has to make
+ * every match attempt starting before it fail, which is what forces the
+ * engine to try every way of matching the pumped part.
+ *
+ * Matching is modelled as an unanchored search (`RegExp.prototype.test`),
+ * so patterns without a leading `^` also pay for the retry at every
+ * offset. Assertions (lookarounds, `\b`, `\B`) can make any attempt
+ * fail: they are assumed to hold while looking for ambiguity and to fail
+ * while checking that the suffix rules out a match, and in JavaScript the
+ * suffix is confirmed against the pattern itself. Backreferences are
+ * treated as matching the empty string, atomic groups and possessive
+ * quantifiers as a single character, and counted repetition is unrolled
+ * up to a small bound. RE2 never backtracks, so patterns analyzed for RE2
+ * are always linear.
+ *
+ * @module core/redos
+ */
+
+import type { Ast } from "@/effect-regex/core/ast.js";
+import { RegexBuilder } from "@/effect-regex/core/builder.js";
+import {
+  ANY,
+  type CharSet,
+  caseFold,
+  classSet,
+  complement,
+  contains,
+  dotSet,
+  EMPTY,
+  intersect,
+  isEmpty,
+  literalCodePoints,
+  sample,
+  scanEscape,
+  single,
+  union,
+} from "@/effect-regex/core/charset.js";
+import { type Dialect, emit } from "@/effect-regex/core/emitter.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
+
+/**
+ * Worst-case matching time of a backtracking engine, in the input length
+ */
+export type RedosComplexity = "linear" | "polynomial" | "exponential";
+
+/**
+ * A string that triggers the worst case: `prefix + pump.repeat(repeat) +
+ * suffix`
+ */
+export interface RedosAttack {
+  /** Leads from the start of the input into the ambiguous loops */
+  readonly prefix: string;
+  /** Matched by the ambiguous loops in more than one way */
+  readonly pump: string;
+  /** Makes every match attempt fail, forcing full backtracking */
+  readonly suffix: string;
+  /** How many times the pump is repeated in `string` */
+  readonly repeat: number;
+  /** The complete attack string */
+  readonly string: string;
+}
+
+/**
+ * Result of analyzing a pattern for ReDoS
+ */
+export interface RedosAnalysis {
+  readonly complexity: RedosComplexity;
+  /** Degree of the polynomial (2 = quadratic) for polynomial patterns */
+  readonly degree?: number;
+  /** Whether an input exists that makes matching super-linear */
+  readonly vulnerable: boolean;
+  readonly attack?: RedosAttack;
+  /** Approximations made while analyzing the pattern */
+  readonly notes: readonly string[];
+}
+
+/**
+ * Options for ReDoS analysis
+ */
+export interface RedosOptions {
+  /** Dialect the pattern is parsed and matched in (default "js") */
+  readonly dialect?: Dialect;
+  /** Pattern flags (`i`, `s`, `m`, `y` affect the analysis) */
+  readonly flags?: string;
+}
+
+/** Repetition counts above this are approximated */
+const MAX_UNROLL = 10;
+/** Epsilon paths explored per closure */
+const CLOSURE_BUDGET = 20_000;
+/** Pair states explored when looking for EDA */
+const PAIR_BUDGET = 100_000;
+/** Triple states explored when looking for IDA, in total */
+const TRIPLE_BUDGET = 200_000;
+/** Pump repetitions for exponential attacks (~2^30 steps) */
+const EXPONENTIAL_REPEAT = 30;
+/** Target step count for polynomial attacks */
+const POLYNOMIAL_STEPS = 1e8;
+const MAX_ATTACK_LENGTH = 100_000;
+/** Ambiguities tried before giving up on finding an attack */
+const MAX_CANDIDATES = 16;
+/** Suffixes tried when the NFA does not rule out every character */
+const FALLBACK_SUFFIXES = ["!", "\n", "\u0000", "", "a", "0", " "];
+
+const ANCHOR_ESCAPES: Record<string, EdgeKind> = {
+  "\\A": "start",
+  "\\z": "end",
+  "\\Z": "end",
+};
+const ASSERTION_ESCAPES = new Set(["\\b", "\\B", "\\G"]);
+const INLINE_FLAGS = /^\(\?[a-zA-Z]*(?:-[a-zA-Z]*)?\)$/;
+
+// ============================================================================
+// NFA construction
+// ============================================================================
+
+/**
+ * Epsilon edge kinds. Loop edges carry the loop id: a loop cannot start
+ * another iteration without consuming input (the empty-iteration check
+ * backtracking engines perform). Start and end edges are `^` and `$`,
+ * assert edges any other zero-width assertion.
+ */
+type EdgeKind = "plain" | "enter" | "back" | "start" | "end" | "assert";
+
+interface Edge {
+  readonly to: number;
+  readonly kind: EdgeKind;
+  readonly loop: number;
+}
+
+interface NfaState {
+  /** Characters consumed, for character states */
+  set?: CharSet;
+  /** State reached after consuming a character */
+  next?: number;
+  readonly edges: Edge[];
+}
+
+class NfaBuilder {
+  readonly states: NfaState[] = [];
+  readonly notes = new Set<string>();
+  /** Whether the pattern has an assertion that can fail */
+  asserts = false;
+  private loops = 0;
+  private readonly dialect: Dialect;
+  private readonly flags: string;
+
+  constructor(dialect: Dialect, flags: string) {
+    this.dialect = dialect;
+    this.flags = flags;
+  }
+
+  state(): number {
+    this.states.push({ edges: [] });
+    return this.states.length - 1;
+  }
+
+  /**
+   * Add the NFA for `node` starting at `from`; returns its final state
+   */
+  build(node: Ast, from: number): number {
+    switch (node.type) {
+      case "lit":
+        return literalCodePoints(node.value).reduce(
+          (state, codePoint) => this.char(state, this.fold(single(codePoint))),
+          from
+        );
+      case "raw":
+        return this.raw(node.pattern, from);
+      case "cls": {
+        const set = this.fold(classSet(node.chars));
+        return this.char(from, node.negated ? complement(set) : set);
+      }
+      case "seq":
+        return node.children.reduce(
+          (state, child) => this.build(child, state),
+          from
+        );
+      case "alt":
+        return this.alternation(node.children, from);
+      case "group":
+      case "noncap":
+      case "trycapture":
+        return this.build(node.child, from);
+      case "q":
+        return this.repeat(node.child, node.min, node.max, from);
+      case "anchor":
+        return this.anchor(node.position, from);
+      case "backref":
+        this.notes.add(
+          "Backreferences are treated as matching the empty string"
+        );
+        return from;
+      case "assertion":
+        return this.assertion(from);
+      default:
+        return from;
+    }
+  }
+
+  private epsilon(
+    from: number,
+    to: number,
+    kind: EdgeKind = "plain",
+    loop = -1
+  ) {
+    this.states[from]?.edges.push({ to, kind, loop });
+  }
+
+  private char(from: number, set: CharSet): number {
+    const next = this.state();
+    const state = this.state();
+    const target = this.states[state] as NfaState;
+    target.set = set;
+    target.next = next;
+    this.epsilon(from, state);
+    return next;
+  }
+
+  private fold(set: CharSet): CharSet {
+    return this.flags.includes("i") ? caseFold(set) : set;
+  }
+
+  private alternation(children: readonly Ast[], from: number): number {
+    const to = this.state();
+    for (const child of children) {
+      this.epsilon(this.build(child, from), to);
+    }
+    return to;
+  }
+
+  private assertion(from: number): number {
+    this.notes.add(
+      "Assertions are assumed to hold when looking for ambiguity and to fail when checking the attack"
+    );
+    this.asserts = true;
+    const to = this.state();
+    this.epsilon(from, to, "assert");
+    return to;
+  }
+
+  private anchor(position: "start" | "end" | "word", from: number): number {
+    if (position === "word") {
+      return this.assertion(from);
+    }
+    const to = this.state();
+    const multiline = this.flags.includes("m") && position === "start";
+    this.epsilon(from, to, multiline ? "plain" : position);
+    return to;
+  }
+
+  private raw(pattern: string, from: number): number {
+    if (pattern === ".") {
+      return this.char(from, dotSet(this.flags.includes("s")));
+    }
+    const anchor = ANCHOR_ESCAPES[pattern];
+    if (anchor) {
+      const to = this.state();
+      this.epsilon(from, to, anchor);
+      return to;
+    }
+    if (ASSERTION_ESCAPES.has(pattern)) {
+      return this.assertion(from);
+    }
+    if (pattern === "\\K") {
+      return from;
+    }
+    if (INLINE_FLAGS.test(pattern)) {
+      this.notes.add("Inline flags are ignored");
+      return from;
+    }
+    if (pattern.startsWith("\\")) {
+      const shorthand = scanEscape(pattern, 0);
+      if (shorthand.end === pattern.length) {
+        return this.char(from, this.fold(shorthand.set));
+      }
+    }
+    const parsed = this.reparse(pattern);
+    if (parsed) {
+      return this.build(parsed, from);
+    }
+    this.notes.add(`"${pattern}" is treated as a single character`);
+    return this.char(from, ANY);
+  }
+
+  /**
+   * Parse a raw node's pattern, if it is more than one opaque construct
+   */
+  private reparse(pattern: string): Ast | undefined {
+    for (const dialect of new Set<Dialect>([this.dialect, "pcre"])) {
+      try {
+        const ast = parseRegex(pattern, "", dialect);
+        if (ast.type !== "raw" || ast.pattern !== pattern) {
+          return ast;
+        }
+      } catch {
+        // Not valid in this dialect, try the next
+      }
+    }
+    return;
+  }
+
+  private repeat(
+    child: Ast,
+    min: number,
+    max: number | null,
+    from: number
+  ): number {
+    if (min > MAX_UNROLL || (max !== null && max > MAX_UNROLL)) {
+      this.notes.add(`Repetition counts above ${MAX_UNROLL} are approximated`);
+    }
+    let state = from;
+    for (let i = 0; i < Math.min(min, MAX_UNROLL); i++) {
+      state = this.build(child, state);
+    }
+    if (max === null || (max > MAX_UNROLL && max > min)) {
+      return this.loop(child, state);
+    }
+    const to = this.state();
+    for (let i = min; i < Math.min(max, MAX_UNROLL); i++) {
+      this.epsilon(state, to);
+      state = this.build(child, state);
+    }
+    this.epsilon(state, to);
+    return to;
+  }
+
+  private loop(child: Ast, from: number): number {
+    const id = this.loops++;
+    const head = this.state();
+    this.epsilon(from, head, "enter", id);
+    this.epsilon(this.build(child, head), head, "back", id);
+    const exit = this.state();
+    this.epsilon(head, exit);
+    return exit;
+  }
+}
+
+// ============================================================================
+// Epsilon-free graph
+// ============================================================================
+
+interface Transition {
+  readonly to: number;
+  /** Number of distinct epsilon paths (capped at 2) */
+  readonly count: number;
+}
+
+/**
+ * The NFA without epsilon edges. Node 0 is the start of the input, node 1
+ * the implicit `[^]*?` an unanchored search skips input with, and every
+ * other node is a character state.
+ */
+interface Graph {
+  readonly sets: readonly CharSet[];
+  readonly transitions: readonly (readonly Transition[])[];
+  /** The pattern can match right after this node's character */
+  readonly acceptAnywhere: readonly boolean[];
+  /** The pattern can match if the input ends after this node's character */
+  readonly acceptAtEnd: readonly boolean[];
+}
+
+const START = 0;
+const SKIP = 1;
+
+/**
+ * Whether an epsilon walk may take `edge`: `^` only at the start of the
+ * input, a loop's back edge only if the walk has not already entered or
+ * repeated that loop (no empty iterations), and an assertion only if
+ * assertions are assumed to hold
+ */
+const follows = (
+  edge: Edge,
+  started: ReadonlySet<number>,
+  atStart: boolean,
+  asserting: boolean
+): boolean =>
+  !(
+    (edge.kind === "start" && !atStart) ||
+    (edge.kind === "back" && started.has(edge.loop)) ||
+    (edge.kind === "assert" && !asserting)
+  );
+
+interface Closure {
+  readonly targets: Map<number, number>;
+  readonly acceptAnywhere: boolean;
+  readonly acceptAtEnd: boolean;
+}
+
+/**
+ * The character states reachable from `from` through epsilon edges, with
+ * the number of distinct paths to each
+ */
+const closure = (
+  states: readonly NfaState[],
+  accept: number,
+  from: number,
+  atStart: boolean,
+  asserting: boolean,
+  notes: Set<string>
+): Closure => {
+  const targets = new Map<number, number>();
+  let acceptAnywhere = false;
+  let acceptAtEnd = false;
+  let steps = 0;
+
+  const record = (index: number, state: NfaState, atEnd: boolean): boolean => {
+    if (state.set) {
+      if (!atEnd) {
+        targets.set(index, Math.min((targets.get(index) ?? 0) + 1, 2));
+      }
+      return true;
+    }
+    if (index === accept) {
+      acceptAnywhere ||= !atEnd;
+      acceptAtEnd ||= atEnd;
+    }
+    return false;
+  };
+
+  const visit = (
+    index: number,
+    started: ReadonlySet<number>,
+    atEnd: boolean
+  ): void => {
+    steps++;
+    if (steps > CLOSURE_BUDGET) {
+      notes.add("Analysis budget exceeded; results may be incomplete");
+      return;
+    }
+    const state = states[index] as NfaState;
+    if (record(index, state, atEnd)) {
+      return;
+    }
+    for (const edge of state.edges) {
+      if (follows(edge, started, atStart, asserting)) {
+        visit(
+          edge.to,
+          edge.loop === -1 ? started : new Set([...started, edge.loop]),
+          atEnd || edge.kind === "end"
+        );
+      }
+    }
+  };
+
+  visit(from, new Set(), false);
+  return { targets, acceptAnywhere, acceptAtEnd };
+};
+
+/**
+ * The epsilon-free graph, with assertions assumed to hold or to fail.
+ * Both share node numbers, so a node of one is the same in the other.
+ */
+const buildGraph = (
+  builder: NfaBuilder,
+  initial: number,
+  accept: number,
+  sticky: boolean,
+  asserting: boolean
+): Graph => {
+  const { states, notes } = builder;
+  const charStates = states.flatMap((state, index) =>
+    state.set ? [index] : []
+  );
+  const node = new Map(charStates.map((state, index) => [state, index + 2]));
+  const sets: CharSet[] = [EMPTY, ANY];
+  const transitions: Transition[][] = [];
+  const acceptAnywhere: boolean[] = [];
+  const acceptAtEnd: boolean[] = [];
+
+  const add = (result: Closure, extra: readonly Transition[]) => {
+    transitions.push([
+      ...extra,
+      ...[...result.targets].map(([state, count]) => ({
+        to: node.get(state) ?? 0,
+        count,
+      })),
+    ]);
+    acceptAnywhere.push(result.acceptAnywhere);
+    acceptAtEnd.push(result.acceptAtEnd);
+  };
+
+  add(
+    closure(states, accept, initial, true, asserting, notes),
+    sticky ? [] : [{ to: SKIP, count: 1 }]
+  );
+  add(closure(states, accept, initial, false, asserting, notes), [
+    { to: SKIP, count: 1 },
+  ]);
+  for (const state of charStates) {
+    const current = states[state] as NfaState;
+    sets.push(current.set ?? EMPTY);
+    add(
+      closure(states, accept, current.next ?? state, false, asserting, notes),
+      []
+    );
+  }
+  return { sets, transitions, acceptAnywhere, acceptAtEnd };
+};
+
+// ============================================================================
+// Graph algorithms
+// ============================================================================
+
+/**
+ * Tarjan's strongly connected components, iteratively so large graphs do
+ * not overflow the stack
+ */
+class Tarjan {
+  readonly component: number[];
+  private readonly edges: readonly (readonly number[])[];
+  private readonly index: number[];
+  private readonly low: number[];
+  private readonly stack: number[] = [];
+  private counter = 0;
+  private count = 0;
+
+  constructor(edges: readonly (readonly number[])[]) {
+    this.edges = edges;
+    this.index = new Array(edges.length).fill(-1);
+    this.low = new Array(edges.length).fill(0);
+    this.component = new Array(edges.length).fill(-1);
+  }
+
+  run(): number[] {
+    for (let root = 0; root < this.edges.length; root++) {
+      if (this.index[root] === -1) {
+        this.visit(root);
+      }
+    }
+    return this.component;
+  }
+
+  private visit(root: number): void {
+    const work: [number, number][] = [[root, 0]];
+    this.open(root);
+    while (work.length > 0) {
+      const frame = work.at(-1) as [number, number];
+      const next = this.edges[frame[0]]?.[frame[1]];
+      frame[1]++;
+      if (next === undefined) {
+        work.pop();
+        this.close(frame[0], work.at(-1)?.[0]);
+      } else if (this.index[next] === -1) {
+        this.open(next);
+        work.push([next, 0]);
+      } else if (this.component[next] === -1) {
+        this.lower(frame[0], this.index[next] ?? 0);
+      }
+    }
+  }
+
+  private open(node: number): void {
+    this.index[node] = this.counter;
+    this.low[node] = this.counter;
+    this.counter++;
+    this.stack.push(node);
+  }
+
+  private lower(node: number, value: number): void {
+    this.low[node] = Math.min(this.low[node] ?? 0, value);
+  }
+
+  private close(node: number, parent: number | undefined): void {
+    if (parent !== undefined) {
+      this.lower(parent, this.low[node] ?? 0);
+    }
+    if (this.low[node] !== this.index[node]) {
+      return;
+    }
+    let member: number | undefined;
+    do {
+      member = this.stack.pop() as number;
+      this.component[member] = this.count;
+    } while (member !== node);
+    this.count++;
+  }
+}
+
+/**
+ * The strongly connected component id of every node
+ */
+const components = (edges: readonly (readonly number[])[]): number[] =>
+  new Tarjan(edges).run();
+
+interface Path {
+  readonly goal: number;
+  readonly labels: number[];
+}
+
+/**
+ * Breadth-first search for a shortest path from `from` to a node
+ * satisfying `isGoal`, collecting the edge labels along it
+ */
+const shortestPath = (
+  from: number,
+  isGoal: (node: number) => boolean,
+  neighbors: (node: number) => Iterable<readonly [number, number]>,
+  budget = Number.POSITIVE_INFINITY
+): Path | undefined => {
+  const parents = new Map<number, readonly [number, number]>([[from, [-1, 0]]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length && head < budget; head++) {
+    const node = queue[head] as number;
+    for (const [next, label] of neighbors(node)) {
+      if (isGoal(next)) {
+        return { goal: next, labels: [...unwind(parents, node), label] };
+      }
+      if (!parents.has(next)) {
+        parents.set(next, [node, label]);
+        queue.push(next);
+      }
+    }
+  }
+  return;
+};
+
+const unwind = (
+  parents: ReadonlyMap<number, readonly [number, number]>,
+  goal: number
+): number[] => {
+  const labels: number[] = [];
+  let node = goal;
+  let parent = parents.get(node);
+  while (parent && parent[0] !== -1) {
+    labels.push(parent[1]);
+    node = parent[0];
+    parent = parents.get(node);
+  }
+  return labels.reverse();
+};
+
+/**
+ * Transitions from `node`, labelled with a character that takes them
+ */
+const steps = (graph: Graph, node: number): [number, number][] =>
+  (graph.transitions[node] ?? []).map(({ to }) => [
+    to,
+    sample(graph.sets[to] ?? EMPTY) ?? 0,
+  ]);
+
+// ============================================================================
+// Ambiguity detection
+// ============================================================================
+
+interface Ambiguity {
+  /** Node the pump starts and ends at */
+  readonly node: number;
+  readonly pump: readonly number[];
+}
+
+/**
+ * Transitions nodes `a` and `b` can take on a common character, with the
+ * characters they share
+ */
+const jointSteps = (
+  graph: Graph,
+  a: number,
+  b: number
+): [number, number, CharSet][] =>
+  (graph.transitions[a] ?? []).flatMap((left) =>
+    (graph.transitions[b] ?? []).flatMap(
+      (right): [number, number, CharSet][] => {
+        const common = intersect(
+          graph.sets[left.to] ?? EMPTY,
+          graph.sets[right.to] ?? EMPTY
+        );
+        return isEmpty(common) ? [] : [[left.to, right.to, common]];
+      }
+    )
+  );
+
+interface PairGraph {
+  readonly pairs: (readonly [number, number])[];
+  readonly ids: Map<number, number>;
+  readonly edges: number[][];
+  readonly labels: number[][];
+}
+
+/**
+ * Pairs of nodes reachable by reading the same string from the same node
+ */
+const explorePairs = (
+  graph: Graph,
+  roots: readonly number[],
+  notes: Set<string>
+): PairGraph => {
+  const size = graph.sets.length;
+  const pairs: (readonly [number, number])[] = [];
+  const ids = new Map<number, number>();
+  const edges: number[][] = [];
+  const labels: number[][] = [];
+  const id = (a: number, b: number): number => {
+    const key = a * size + b;
+    const existing = ids.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+    ids.set(key, pairs.length);
+    pairs.push([a, b]);
+    edges.push([]);
+    labels.push([]);
+    return pairs.length - 1;
+  };
+  for (const root of roots) {
+    id(root, root);
+  }
+  for (let current = 0; current < pairs.length; current++) {
+    if (pairs.length > PAIR_BUDGET) {
+      notes.add("Analysis budget exceeded; results may be incomplete");
+      break;
+    }
+    const [a, b] = pairs[current] as readonly [number, number];
+    for (const [left, right, common] of jointSteps(graph, a, b)) {
+      edges[current]?.push(id(left, right));
+      labels[current]?.push(sample(common) ?? 0);
+    }
+  }
+  return { pairs, ids, edges, labels };
+};
+
+/**
+ * Looping nodes with two different paths back to themselves reading the
+ * same string; the pump is that string
+ */
+const exponentialAmbiguities = (
+  graph: Graph,
+  cyclic: readonly number[],
+  notes: Set<string>
+): Ambiguity[] => {
+  const size = graph.sets.length;
+  const pairGraph = explorePairs(graph, cyclic, notes);
+  const component = components(pairGraph.edges);
+  const ambiguities: Ambiguity[] = [];
+  for (const node of cyclic) {
+    const diagonal = pairGraph.ids.get(node * size + node) ?? 0;
+    const scc = component[diagonal];
+    const within = (pair: number): [number, number][] =>
+      (pairGraph.edges[pair] ?? []).flatMap((next, index) =>
+        component[next] === scc
+          ? [[next, pairGraph.labels[pair]?.[index] ?? 0]]
+          : []
+      );
+    const pump =
+      divergingPump(pairGraph, diagonal, within) ??
+      doubledPump(graph, pairGraph, node, within);
+    if (pump) {
+      ambiguities.push({ node, pump });
+    }
+    if (ambiguities.length >= MAX_CANDIDATES) {
+      break;
+    }
+  }
+  return ambiguities;
+};
+
+/**
+ * A cycle through the diagonal pair that visits a pair of different nodes
+ */
+const divergingPump = (
+  pairGraph: PairGraph,
+  diagonal: number,
+  within: (pair: number) => [number, number][]
+): number[] | undefined => {
+  const out = shortestPath(
+    diagonal,
+    (pair) => {
+      const [a, b] = pairGraph.pairs[pair] as readonly [number, number];
+      return a !== b;
+    },
+    within
+  );
+  const back =
+    out && shortestPath(out.goal, (pair) => pair === diagonal, within);
+  return out && back ? [...out.labels, ...back.labels] : undefined;
+};
+
+/**
+ * A cycle starting with a transition reachable through two epsilon paths
+ */
+const doubledPump = (
+  graph: Graph,
+  pairGraph: PairGraph,
+  node: number,
+  within: (pair: number) => [number, number][]
+): number[] | undefined => {
+  const size = graph.sets.length;
+  const diagonal = pairGraph.ids.get(node * size + node) ?? 0;
+  for (const { to, count } of graph.transitions[node] ?? []) {
+    const pair = pairGraph.ids.get(to * size + to);
+    if (count < 2 || pair === undefined) {
+      continue;
+    }
+    const label = sample(graph.sets[to] ?? EMPTY) ?? 0;
+    if (pair === diagonal) {
+      return [label];
+    }
+    const back = within(diagonal).length
+      ? shortestPath(pair, (next) => next === diagonal, within)
+      : undefined;
+    if (back) {
+      return [label, ...back.labels];
+    }
+  }
+  return;
+};
+
+interface PolynomialAmbiguity extends Ambiguity {
+  /** Components of the two looping nodes */
+  readonly from: number;
+  readonly to: number;
+}
+
+/**
+ * Pairs of looping nodes `p`, `q` in different components, where one
+ * string loops on `p`, leads from `p` to `q` and loops on `q`
+ */
+const polynomialAmbiguities = (
+  graph: Graph,
+  component: readonly number[],
+  cyclic: readonly number[],
+  notes: Set<string>
+): PolynomialAmbiguity[] => {
+  const budget = { remaining: TRIPLE_BUDGET };
+  const found = new Set<string>();
+  const ambiguities: PolynomialAmbiguity[] = [];
+  for (const p of cyclic) {
+    const reachable = reachableFrom(graph, p);
+    for (const q of cyclic) {
+      const from = component[p] ?? 0;
+      const to = component[q] ?? 0;
+      const key = `${from}:${to}`;
+      if (from === to || found.has(key) || !reachable.has(q)) {
+        continue;
+      }
+      const pump = triplePump(graph, component, p, q, budget);
+      if (pump) {
+        found.add(key);
+        ambiguities.push({ node: p, pump, from, to });
+      }
+    }
+  }
+  if (budget.remaining <= 0) {
+    notes.add("Analysis budget exceeded; results may be incomplete");
+  }
+  return ambiguities;
+};
+
+const reachableFrom = (graph: Graph, node: number): Set<number> => {
+  const seen = new Set([node]);
+  const queue = [node];
+  for (const current of queue) {
+    for (const { to } of graph.transitions[current] ?? []) {
+      if (!seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return seen;
+};
+
+/**
+ * Search the triple product from (p, p, q) to (p, q, q): the first track
+ * loops on p, the second moves from p to q, the third loops on q
+ */
+const triplePump = (
+  graph: Graph,
+  component: readonly number[],
+  p: number,
+  q: number,
+  budget: { remaining: number }
+): number[] | undefined => {
+  const size = graph.sets.length;
+  const key = (a: number, b: number, c: number) => (a * size + b) * size + c;
+  const goal = key(p, q, q);
+  const neighbors = (node: number): (readonly [number, number])[] => {
+    budget.remaining--;
+    if (budget.remaining < 0) {
+      return [];
+    }
+    const a = Math.floor(node / (size * size));
+    const b = Math.floor(node / size) % size;
+    const c = node % size;
+    return jointSteps(graph, a, b)
+      .filter(([first]) => component[first] === component[p])
+      .flatMap(([first, second, common]) =>
+        (graph.transitions[c] ?? []).flatMap(({ to: third }) => {
+          const all = intersect(common, graph.sets[third] ?? EMPTY);
+          return component[third] === component[q] && !isEmpty(all)
+            ? [[key(first, second, third), sample(all) ?? 0] as const]
+            : [];
+        })
+      );
+  };
+  return shortestPath(key(p, p, q), (node) => node === goal, neighbors)?.labels;
+};
+
+/**
+ * The longest chain of polynomial ambiguities through distinct components
+ * starting at each ambiguity
+ */
+const chainLengths = (
+  ambiguities: readonly PolynomialAmbiguity[]
+): number[] => {
+  const memo = new Map<number, number>();
+  const longest = (scc: number): number => {
+    const known = memo.get(scc);
+    if (known !== undefined) {
+      return known;
+    }
+    const length = Math.max(
+      0,
+      ...ambiguities
+        .filter((ambiguity) => ambiguity.from === scc)
+        .map((ambiguity) => 1 + longest(ambiguity.to))
+    );
+    memo.set(scc, length);
+    return length;
+  };
+  return ambiguities.map((ambiguity) => 1 + longest(ambiguity.to));
+};
+
+// ============================================================================
+// Attack strings
+// ============================================================================
+
+const advance = (
+  graph: Graph,
+  current: ReadonlySet<number>,
+  codePoint: number
+): Set<number> => {
+  const next = new Set<number>();
+  for (const from of current) {
+    for (const { to } of graph.transitions[from] ?? []) {
+      if (contains(graph.sets[to] ?? EMPTY, codePoint)) {
+        next.add(to);
+      }
+    }
+  }
+  return next;
+};
+
+/**
+ * Whether a match attempt starting in `text` succeeds, possibly reading
+ * on into `suffix`. Attempts starting in the suffix are not counted: a
+ * backtracking engine only gets to them after failing every earlier one,
+ * so `\s*$` is still slow on spaces followed by `x` although it finally
+ * matches the empty string at the end.
+ */
+const matches = (
+  graph: Graph,
+  text: readonly number[],
+  suffix: readonly number[]
+): boolean => {
+  let current: ReadonlySet<number> = new Set([START]);
+  if (graph.acceptAnywhere[START]) {
+    return true;
+  }
+  for (const [index, codePoint] of [...text, ...suffix].entries()) {
+    const next = advance(graph, current, codePoint);
+    if (index >= text.length) {
+      next.delete(SKIP);
+    }
+    current = next;
+    if ([...current].some((node) => graph.acceptAnywhere[node])) {
+      return true;
+    }
+  }
+  return [...current].some((node) => graph.acceptAtEnd[node]);
+};
+
+/**
+ * A character no match attempt started in `text` can consume, if there is
+ * one
+ */
+const deadEnd = (graph: Graph, text: readonly number[]): number | undefined => {
+  let current: ReadonlySet<number> = new Set([START]);
+  for (const codePoint of text) {
+    current = advance(graph, current, codePoint);
+  }
+  const consumable = [...current]
+    .filter((node) => node !== SKIP)
+    .flatMap((node) => graph.transitions[node] ?? [])
+    .reduce<CharSet>(
+      (set, { to }) => union(set, graph.sets[to] ?? EMPTY),
+      EMPTY
+    );
+  return sample(complement(consumable));
+};
+
+const codePoints = (text: string): number[] =>
+  [...text].map((char) => char.codePointAt(0) ?? 0);
+
+const pumped = (
+  prefix: readonly number[],
+  pump: readonly number[],
+  times: number,
+  suffix: readonly number[]
+): number[] => [
+  ...prefix,
+  ...Array.from({ length: times }, () => pump).flat(),
+  ...suffix,
+];
+
+/**
+ * What a suffix is checked against: the graph with assertions failing
+ * and, for JavaScript patterns with assertions, the pattern itself
+ */
+interface Check {
+  readonly graph: Graph;
+  readonly regex: RegExp | undefined;
+}
+
+/** Whether the pattern itself, if known, fails to match `text` */
+const confirms = (
+  regex: RegExp | undefined,
+  text: readonly number[]
+): boolean => {
+  if (!regex) {
+    return true;
+  }
+  regex.lastIndex = 0;
+  return !regex.test(String.fromCodePoint(...text));
+};
+
+/**
+ * Build an attack from an ambiguity, if some suffix makes the pumped
+ * input fail to match. With assertions the graph check is too eager to
+ * fail, so where possible the pattern itself has to reject it as well.
+ */
+const attackFor = (
+  graph: Graph,
+  check: Check,
+  ambiguity: Ambiguity,
+  repeat: number
+): RedosAttack | undefined => {
+  const prefix =
+    ambiguity.node === START || ambiguity.node === SKIP
+      ? { labels: [] }
+      : shortestPath(
+          START,
+          (node) => node === ambiguity.node,
+          (node) => steps(graph, node)
+        );
+  if (!prefix) {
+    return;
+  }
+  const killer = deadEnd(check.graph, [...prefix.labels, ...ambiguity.pump]);
+  const suffixes = [
+    ...(killer === undefined ? [] : [[killer]]),
+    ...FALLBACK_SUFFIXES.map(codePoints),
+  ].filter((candidate) =>
+    [1, 2, 3].every(
+      (times) =>
+        !matches(
+          check.graph,
+          pumped(prefix.labels, ambiguity.pump, times, []),
+          candidate
+        )
+    )
+  );
+  const suffix = suffixes.find((candidate) =>
+    [1, 2, 3].every((times) =>
+      confirms(
+        check.regex,
+        pumped(prefix.labels, ambiguity.pump, times, candidate)
+      )
+    )
+  );
+  if (!suffix) {
+    return;
+  }
+  const text = {
+    prefix: String.fromCodePoint(...prefix.labels),
+    pump: String.fromCodePoint(...ambiguity.pump),
+    suffix: String.fromCodePoint(...suffix),
+  };
+  const times = Math.max(
+    1,
+    Math.min(repeat, Math.floor(MAX_ATTACK_LENGTH / text.pump.length))
+  );
+  return {
+    ...text,
+    repeat: times,
+    string: text.prefix + text.pump.repeat(times) + text.suffix,
+  };
+};
+
+/**
+ * Nodes on a cycle of the graph: those that can be pumped
+ */
+const cyclicNodes = (graph: Graph, component: readonly number[]): number[] => {
+  const sizes = new Map<number, number>();
+  for (const scc of component) {
+    sizes.set(scc, (sizes.get(scc) ?? 0) + 1);
+  }
+  return graph.sets
+    .map((_, node) => node)
+    .filter(
+      (node) =>
+        (sizes.get(component[node] ?? 0) ?? 0) > 1 ||
+        graph.transitions[node]?.some(({ to }) => to === node)
+    );
+};
+
+/**
+ * The worst exploitable chain of polynomial ambiguities, if any
+ */
+const polynomial = (
+  graph: Graph,
+  check: Check,
+  component: readonly number[],
+  cyclic: readonly number[],
+  notes: Set<string>
+): RedosAnalysis | undefined => {
+  const exploitable = polynomialAmbiguities(graph, component, cyclic, notes)
+    .slice(0, MAX_CANDIDATES * 4)
+    .flatMap((ambiguity) => {
+      const attack = attackFor(graph, check, ambiguity, 1);
+      return attack ? [{ ...ambiguity, attack }] : [];
+    });
+  const lengths = chainLengths(exploitable);
+  const degree = 1 + Math.max(0, ...lengths);
+  const worst = exploitable[lengths.indexOf(degree - 1)];
+  if (!worst) {
+    return;
+  }
+  const repeat = Math.ceil(POLYNOMIAL_STEPS ** (1 / degree));
+  return {
+    complexity: "polynomial",
+    degree,
+    vulnerable: true,
+    attack: attackFor(graph, check, worst, repeat) ?? worst.attack,
+    notes: [...notes],
+  };
+};
+
+/**
+ * The pattern as a JavaScript RegExp, to confirm attacks on
+ */
+const nativeRegex = (
+  input: Ast | string,
+  ast: Ast,
+  flags: string
+): RegExp | undefined => {
+  const source =
+    typeof input === "string"
+      ? input
+      : emit(RegexBuilder.fromAst(ast), "js").pattern;
+  try {
+    return new RegExp(source, flags.replace(/[^imsuvy]/g, ""));
+  } catch {
+    return;
+  }
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Analyze a regex AST or pattern string for ReDoS (catastrophic
+ * backtracking)
+ *
+ * Classifies the worst-case matching time of a backtracking engine as
+ * linear, polynomial or exponential in the input length, and for
+ * vulnerable patterns returns an attack string demonstrating it.
+ *
+ * @param input - The AST, or pattern source, to analyze
+ * @param options - Dialect and flags of the pattern
+ * @returns The complexity class, attack string and analysis notes
+ * @throws RegexParseError if a pattern string is not valid
+ * @example
+ * ```typescript
+ * const result = analyzeRedos("^(a+)+$");
+ * // result.complexity === "exponential"
+ * // result.attack.string === "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!"
+ *
+ * analyzeRedos("^\\d+\\.\\d+$").complexity; // "linear"
+ * ```
+ */
+export const analyzeRedos = (
+  input: Ast | string,
+  options: RedosOptions = {}
+): RedosAnalysis => {
+  const dialect = options.dialect ?? "js";
+  const flags = options.flags ?? "";
+  const ast =
+    typeof input === "string" ? parseRegex(input, flags, dialect) : input;
+  if (dialect === "re2") {
+    return {
+      complexity: "linear",
+      vulnerable: false,
+      notes: ["RE2 does not backtrack and always matches in linear time"],
+    };
+  }
+
+  const builder = new NfaBuilder(dialect, flags);
+  const initial = builder.state();
+  const accept = builder.build(ast, initial);
+  const sticky = flags.includes("y");
+  const graph = buildGraph(builder, initial, accept, sticky, true);
+  const { notes } = builder;
+  const check: Check = builder.asserts
+    ? {
+        graph: buildGraph(builder, initial, accept, sticky, false),
+        regex: dialect === "js" ? nativeRegex(input, ast, flags) : undefined,
+      }
+    : { graph, regex: undefined };
+
+  const component = components(
+    graph.transitions.map((transitions) => transitions.map(({ to }) => to))
+  );
+  const cyclic = cyclicNodes(graph, component);
+
+  for (const ambiguity of exponentialAmbiguities(graph, cyclic, notes)) {
+    const attack = attackFor(graph, check, ambiguity, EXPONENTIAL_REPEAT);
+    if (attack) {
+      return {
+        complexity: "exponential",
+        vulnerable: true,
+        attack,
+        notes: [...notes],
+      };
+    }
+  }
+
+  return (
+    polynomial(graph, check, component, cyclic, notes) ?? {
+      complexity: "linear",
+      vulnerable: false,
+      notes: [...notes],
+    }
+  );
+};
@@ -0,0 +1,672 @@
+/**
+ * Regex synthesis - infer a pattern from positive and negative samples
+ *
+ * Candidates are enumerated bottom-up by size over the AST node types the
+ * builder already uses: literal characters and character classes as
+ * atoms, combined with `q`, `seq`, `alt` and non-capturing groups. Each
+ * candidate is evaluated once, against every sample, into a signature: for
+ * each sample and each start offset, the set of end offsets at which the
+ * candidate can match. Signatures compose directly (sequence is relational
+ * composition, alternation is union, `+` is transitive closure), so larger
+ * candidates never have to be re-run against the samples, and two
+ * candidates with the same signature are interchangeable - only the first
+ * (smallest) one is kept.
+ *
+ * The first size at which some candidate matches every positive in full
+ * and no negative gives the result; among those, the one matching the
+ * fewest substrings (the most specific) wins. When the search budget runs
+ * out first, the result falls back to an alternation of the positives. The
+ * pattern is emitted anchored and verified with `testRegex`.
+ *
+ * @module core/synthesizer
+ */
+
+import { Effect } from "effect";
+import {
+  type Ast,
+  alt,
+  cls,
+  lit,
+  noncap,
+  q,
+  raw,
+  seq,
+} from "@/effect-regex/core/ast.js";
+import { emit, RegexBuilder } from "@/effect-regex/core/builder.js";
+import type { Dialect } from "@/effect-regex/core/emitter.js";
+import {
+  type RegexTestCase,
+  type TestResult,
+  testRegex,
+} from "@/effect-regex/core/tester.js";
+import { RegexSynthesisError } from "@/effect-regex/errors/types.js";
+
+/**
+ * Samples and limits for `synthesize`
+ */
+export interface SynthesisOptions {
+  /** Strings the pattern must match in full */
+  readonly positives: readonly string[];
+  /** Strings the pattern must not match */
+  readonly negatives?: readonly string[] | undefined;
+  /** Dialect to emit the pattern for (default: js) */
+  readonly dialect?: Dialect | undefined;
+  /** Largest candidate size to search before falling back (default: 16) */
+  readonly maxSize?: number | undefined;
+}
+
+/**
+ * A synthesized pattern and its verification against the samples
+ */
+export interface SynthesisResult {
+  /** Anchored pattern (`^…$`) in the requested dialect */
+  readonly pattern: string;
+  /** Unanchored AST of the pattern */
+  readonly ast: Ast;
+  /** Search size: one per atom, quantifier, alternation and group */
+  readonly size: number;
+  /** True when the search gave up and the positives were alternated */
+  readonly fallback: boolean;
+  /** Result of running the samples through `testRegex` */
+  readonly test: TestResult;
+}
+
+const DEFAULT_MAX_SIZE = 16;
+const MAX_SAMPLE_LENGTH = 256;
+/** Candidate combinations tried before the search gives up */
+const MAX_EVALUATIONS = 200_000;
+/** Largest exact count tried for `{n}` */
+const MAX_COUNT = 16;
+/** `testRegex` dialect the samples are checked in for each target */
+const TEST_DIALECTS: Record<Dialect, "js" | "re2-sim"> = {
+  js: "js",
+  re2: "re2-sim",
+  pcre: "js",
+};
+
+/**
+ * Character classes offered as atoms, most specific first so that a class
+ * indistinguishable from a narrower one on the samples is never kept
+ */
+const CLASSES: readonly {
+  readonly ast: Ast;
+  readonly test: RegExp;
+}[] = [
+  { ast: raw("\\d"), test: /^[0-9]$/ },
+  { ast: cls("a-z"), test: /^[a-z]$/ },
+  { ast: cls("A-Z"), test: /^[A-Z]$/ },
+  { ast: cls("0-9a-f"), test: /^[0-9a-f]$/ },
+  { ast: cls("0-9A-F"), test: /^[0-9A-F]$/ },
+  { ast: cls("a-zA-Z"), test: /^[a-zA-Z]$/ },
+  { ast: cls("0-9a-fA-F"), test: /^[0-9a-fA-F]$/ },
+  { ast: cls("a-zA-Z0-9"), test: /^[a-zA-Z0-9]$/ },
+  { ast: raw("\\w"), test: /^\w$/ },
+  { ast: raw("\\s"), test: /^\s$/ },
+];
+
+type Kind = "atom" | "q" | "seq" | "alt";
+
+interface Candidate {
+  readonly ast: Ast;
+  readonly kind: Kind;
+  readonly size: number;
+  readonly signature: Uint32Array;
+}
+
+// biome-ignore-start lint/suspicious/noBitwiseOperators: signatures are bitsets
+const lowestBit = (word: number): number => 31 - Math.clz32(word & -word);
+
+const popCount = (word: number): number => {
+  let value = word - ((word >>> 1) & 0x55_55_55_55);
+  value = (value & 0x33_33_33_33) + ((value >>> 2) & 0x33_33_33_33);
+  return (((value + (value >>> 4)) & 0x0f_0f_0f_0f) * 0x01_01_01_01) >>> 24;
+};
+
+const sameWords = (left: Uint32Array, right: Uint32Array): boolean => {
+  if (left.length !== right.length) {
+    return false;
+  }
+  for (let index = 0; index < left.length; index++) {
+    if (left[index] !== right[index]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const hashWords = (words: Uint32Array): number => {
+  let hash = 0x81_1c_9d_c5;
+  for (const word of words) {
+    hash = Math.imul(hash ^ word, 0x01_00_01_93);
+  }
+  return hash >>> 0;
+};
+
+const orRow = (
+  words: Uint32Array,
+  target: number,
+  source: Uint32Array,
+  from: number,
+  width: number
+): void => {
+  for (let index = 0; index < width; index++) {
+    words[target + index] =
+      (words[target + index] ?? 0) | (source[from + index] ?? 0);
+  }
+};
+
+/**
+ * Layout of a signature: one row per (sample, start offset), each row a
+ * bitset over the end offsets of that sample
+ */
+class SampleSpace {
+  readonly samples: readonly (readonly string[])[];
+  readonly positives: number;
+  readonly offsets: readonly number[];
+  readonly widths: readonly number[];
+  readonly length: number;
+  /** Empty matches at every offset */
+  readonly identity: Uint32Array;
+  /** Non-empty spans of the positives */
+  readonly useful: Uint32Array;
+
+  constructor(positives: readonly string[], negatives: readonly string[]) {
+    this.samples = [...positives, ...negatives].map((text) => Array.from(text));
+    this.positives = positives.length;
+    const offsets: number[] = [];
+    const widths: number[] = [];
+    let length = 0;
+    for (const chars of this.samples) {
+      const width = Math.ceil((chars.length + 1) / 32);
+      offsets.push(length);
+      widths.push(width);
+      length += (chars.length + 1) * width;
+    }
+    this.offsets = offsets;
+    this.widths = widths;
+    this.length = length;
+    this.identity = this.build((_sample, start, set) => set(start));
+    this.useful = this.build((sample, start, set) => {
+      if (sample < this.positives) {
+        for (let end = start + 1; end <= this.size(sample); end++) {
+          set(end);
+        }
+      }
+    });
+  }
+
+  size(sample: number): number {
+    return this.samples[sample]?.length ?? 0;
+  }
+
+  row(sample: number, start: number): number {
+    return (this.offsets[sample] ?? 0) + start * (this.widths[sample] ?? 0);
+  }
+
+  has(signature: Uint32Array, sample: number, start: number, end: number) {
+    const word = signature[this.row(sample, start) + (end >>> 5)] ?? 0;
+    return (word & (1 << (end & 31))) !== 0;
+  }
+
+  build(
+    fill: (sample: number, start: number, set: (end: number) => void) => void
+  ): Uint32Array {
+    const words = new Uint32Array(this.length);
+    for (let sample = 0; sample < this.samples.length; sample++) {
+      for (let start = 0; start <= this.size(sample); start++) {
+        const row = this.row(sample, start);
+        fill(sample, start, (end) => {
+          const index = row + (end >>> 5);
+          words[index] = (words[index] ?? 0) | (1 << (end & 31));
+        });
+      }
+    }
+    return words;
+  }
+
+  /** Spans of single characters accepted by `accepts` */
+  atom(accepts: (char: string) => boolean): Uint32Array {
+    return this.build((sample, start, set) => {
+      const char = this.samples[sample]?.[start];
+      if (char !== undefined && accepts(char)) {
+        set(start + 1);
+      }
+    });
+  }
+
+  /** Relational composition: `left` then `right` */
+  compose(left: Uint32Array, right: Uint32Array): Uint32Array {
+    const words = new Uint32Array(this.length);
+    for (let sample = 0; sample < this.samples.length; sample++) {
+      const width = this.widths[sample] ?? 0;
+      for (let start = 0; start <= this.size(sample); start++) {
+        const target = this.row(sample, start);
+        for (let word = 0; word < width; word++) {
+          let bits = left[target + word] ?? 0;
+          while (bits !== 0) {
+            const middle = word * 32 + lowestBit(bits);
+            bits &= bits - 1;
+            orRow(words, target, right, this.row(sample, middle), width);
+          }
+        }
+      }
+    }
+    return words;
+  }
+
+  union(left: Uint32Array, right: Uint32Array): Uint32Array {
+    const words = new Uint32Array(this.length);
+    for (let index = 0; index < this.length; index++) {
+      words[index] = (left[index] ?? 0) | (right[index] ?? 0);
+    }
+    return words;
+  }
+
+  /** Transitive closure: one or more repetitions */
+  closure(signature: Uint32Array): Uint32Array {
+    let current = signature;
+    for (;;) {
+      const next = this.union(current, this.compose(current, current));
+      if (sameWords(next, current)) {
+        return current;
+      }
+      current = next;
+    }
+  }
+
+  power(signature: Uint32Array, count: number): Uint32Array {
+    let current = signature;
+    for (let index = 1; index < count; index++) {
+      current = this.compose(current, signature);
+    }
+    return current;
+  }
+
+  /** Matches some non-empty part of a positive */
+  isUseful(signature: Uint32Array): boolean {
+    for (let index = 0; index < this.length; index++) {
+      if (((signature[index] ?? 0) & (this.useful[index] ?? 0)) !== 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Matches every positive in full and no negative */
+  isGoal(signature: Uint32Array): boolean {
+    for (let sample = 0; sample < this.samples.length; sample++) {
+      const full = this.has(signature, sample, 0, this.size(sample));
+      if (full !== sample < this.positives) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Number of spans matched, used to prefer the most specific pattern */
+  spans(signature: Uint32Array): number {
+    let total = 0;
+    for (const word of signature) {
+      total += popCount(word);
+    }
+    return total;
+  }
+}
+
+// biome-ignore-end lint/suspicious/noBitwiseOperators: signatures are bitsets
+
+/** Group compound nodes so that a quantifier or sequence applies to all */
+const grouped = (candidate: Candidate): Ast =>
+  candidate.kind === "seq" ? noncap(candidate.ast) : candidate.ast;
+
+const seqChildren = (ast: Ast): readonly Ast[] =>
+  ast.type === "seq" ? ast.children : [ast];
+
+const altChildren = (ast: Ast): readonly Ast[] =>
+  ast.type === "noncap" && ast.child.type === "alt"
+    ? ast.child.children
+    : [ast];
+
+/** Merge adjacent literals, so that `a`, `b`, `c` emits as `abc` */
+const mergeLiterals = (children: readonly Ast[]): Ast[] => {
+  const merged: Ast[] = [];
+  for (const child of children) {
+    const last = merged.at(-1);
+    if (last?.type === "lit" && child.type === "lit") {
+      merged[merged.length - 1] = {
+        type: "lit",
+        value: last.value + child.value,
+      };
+    } else {
+      merged.push(child);
+    }
+  }
+  return merged;
+};
+
+const QUANTIFIERS: readonly (readonly [number, number | null])[] = [
+  [1, null],
+  [0, null],
+  [0, 1],
+];
+
+/**
+ * Bottom-up enumeration with observational-equivalence pruning
+ */
+class Enumerator {
+  readonly space: SampleSpace;
+  readonly levels: Candidate[][] = [[]];
+  readonly seen = new Map<number, Uint32Array[]>();
+  readonly goals: Candidate[] = [];
+  readonly longest: number;
+  evaluations = 0;
+
+  constructor(space: SampleSpace) {
+    this.space = space;
+    this.longest = Math.max(
+      ...space.samples.slice(0, space.positives).map((chars) => chars.length)
+    );
+  }
+
+  get exhausted(): boolean {
+    return this.evaluations >= MAX_EVALUATIONS;
+  }
+
+  add(level: Candidate[], candidate: Candidate): void {
+    const { signature } = candidate;
+    if (!this.space.isUseful(signature)) {
+      return;
+    }
+    const hash = hashWords(signature);
+    const bucket = this.seen.get(hash) ?? [];
+    if (bucket.some((other) => sameWords(other, signature))) {
+      return;
+    }
+    bucket.push(signature);
+    this.seen.set(hash, bucket);
+    level.push(candidate);
+    if (this.space.isGoal(signature)) {
+      this.goals.push(candidate);
+    }
+  }
+
+  atoms(): Candidate[] {
+    const level: Candidate[] = [];
+    const chars = new Set(
+      this.space.samples.slice(0, this.space.positives).flat()
+    );
+    for (const char of [...chars].sort()) {
+      const signature = this.space.atom((other) => other === char);
+      this.add(level, { ast: lit(char), kind: "atom", size: 1, signature });
+    }
+    for (const { ast, test } of CLASSES) {
+      if ([...chars].some((char) => test.test(char))) {
+        const signature = this.space.atom((char) => test.test(char));
+        this.add(level, { ast, kind: "atom", size: 1, signature });
+      }
+    }
+    return level;
+  }
+
+  quantify(level: Candidate[], child: Candidate, size: number): void {
+    const space = this.space;
+    const closure = space.closure(child.signature);
+    const signatures: readonly Uint32Array[] = [
+      closure,
+      space.union(closure, space.identity),
+      space.union(child.signature, space.identity),
+    ];
+    for (const [index, [min, max]] of QUANTIFIERS.entries()) {
+      this.evaluations++;
+      this.add(level, {
+        ast: q(grouped(child), min, max),
+        kind: "q",
+        size,
+        // biome-ignore lint/style/noNonNullAssertion: one signature per quantifier
+        signature: signatures[index]!,
+      });
+    }
+    // Exact counts only for classes: repeated literals are spelled out
+    if (child.kind !== "atom" || child.ast.type === "lit") {
+      return;
+    }
+    const limit = Math.min(this.longest, MAX_COUNT);
+    for (let count = 2; count <= limit; count++) {
+      this.evaluations++;
+      this.add(level, {
+        ast: q(child.ast, count, count),
+        kind: "q",
+        size,
+        signature: space.power(child.signature, count),
+      });
+    }
+  }
+
+  sequence(level: Candidate[], left: Candidate, right: Candidate): void {
+    this.evaluations++;
+    this.add(level, {
+      ast: seq(grouped(left), ...seqChildren(right.ast)),
+      kind: "seq",
+      size: left.size + right.size,
+      signature: this.space.compose(left.signature, right.signature),
+    });
+  }
+
+  alternate(level: Candidate[], left: Candidate, right: Candidate): void {
+    this.evaluations++;
+    this.add(level, {
+      ast: noncap(alt(left.ast, ...altChildren(right.ast))),
+      kind: "alt",
+      size: left.size + right.size + 1,
+      signature: this.space.union(left.signature, right.signature),
+    });
+  }
+
+  /** Candidates of exactly `size` */
+  grow(size: number): Candidate[] {
+    const level: Candidate[] = [];
+    this.growQuantifiers(level, size);
+    this.growSequences(level, size);
+    this.growAlternations(level, size);
+    return level;
+  }
+
+  growQuantifiers(level: Candidate[], size: number): void {
+    const children = [
+      ...(this.levels[size - 1] ?? []).filter(
+        (child) => child.kind === "atom" || child.kind === "alt"
+      ),
+      ...(this.levels[size - 2] ?? []).filter((child) => child.kind === "seq"),
+    ];
+    for (const child of children) {
+      if (this.exhausted) {
+        return;
+      }
+      this.quantify(level, child, size);
+    }
+  }
+
+  /** Sequences are built right-nested: the left operand is never one */
+  growSequences(level: Candidate[], size: number): void {
+    for (let leftSize = 1; leftSize < size; leftSize++) {
+      const lefts = (this.levels[leftSize] ?? []).filter(
+        (left) => left.kind !== "seq"
+      );
+      for (const left of lefts) {
+        for (const right of this.levels[size - leftSize] ?? []) {
+          if (this.exhausted) {
+            return;
+          }
+          this.sequence(level, left, right);
+        }
+      }
+    }
+  }
+
+  /** Alternations are right-nested, each unordered pair tried once */
+  growAlternations(level: Candidate[], size: number): void {
+    for (let leftSize = 1; leftSize < size - 1; leftSize++) {
+      const rightSize = size - 1 - leftSize;
+      const rights = this.levels[rightSize] ?? [];
+      for (const [index, left] of (this.levels[leftSize] ?? []).entries()) {
+        if (left.kind !== "alt") {
+          const from = leftSize === rightSize ? index + 1 : 0;
+          this.alternateAll(level, left, rights.slice(from));
+        }
+      }
+    }
+  }
+
+  alternateAll(
+    level: Candidate[],
+    left: Candidate,
+    rights: readonly Candidate[]
+  ): void {
+    for (const right of rights) {
+      if (this.exhausted) {
+        return;
+      }
+      this.alternate(level, left, right);
+    }
+  }
+
+  search(maxSize: number): Candidate | undefined {
+    for (let size = 1; size <= maxSize; size++) {
+      const level = size === 1 ? this.atoms() : this.grow(size);
+      this.levels.push(level);
+      if (this.goals.length > 0) {
+        return this.best();
+      }
+      if (this.exhausted) {
+        return;
+      }
+    }
+    return;
+  }
+
+  best(): Candidate | undefined {
+    let best: Candidate | undefined;
+    let bestSpans = Number.POSITIVE_INFINITY;
+    for (const goal of this.goals) {
+      const spans = this.space.spans(goal.signature);
+      if (spans < bestSpans) {
+        best = goal;
+        bestSpans = spans;
+      }
+    }
+    return best;
+  }
+}
+
+/** Final AST with sequences flattened and literals merged */
+const finish = (ast: Ast): Ast => {
+  switch (ast.type) {
+    case "seq": {
+      const children = mergeLiterals(
+        ast.children.flatMap((child) => seqChildren(finish(child)))
+      );
+      return children.length === 1 && children[0]
+        ? children[0]
+        : seq(...children);
+    }
+    case "alt":
+      return alt(...ast.children.map(finish));
+    case "noncap":
+      return noncap(finish(ast.child));
+    case "q":
+      return { ...ast, child: finish(ast.child) };
+    default:
+      return ast;
+  }
+};
+
+/** Alternation of the positives, consistent with any disjoint negatives */
+const enumerate = (positives: readonly string[]): Ast => {
+  const [first, ...rest] = positives.map(lit);
+  if (first === undefined || rest.length === 0) {
+    return first ?? lit("");
+  }
+  return noncap(alt(first, ...rest));
+};
+
+const fallbackSize = (positives: readonly string[]): number =>
+  positives.reduce((sum, sample) => sum + Array.from(sample).length, 0) +
+  positives.length -
+  1;
+
+const validate = (
+  positives: readonly string[],
+  negatives: readonly string[]
+): string | undefined => {
+  if (positives.length === 0) {
+    return "At least one positive sample is required";
+  }
+  const conflict = negatives.find((negative) => positives.includes(negative));
+  if (conflict !== undefined) {
+    return `Sample ${JSON.stringify(conflict)} is both positive and negative`;
+  }
+  const long = [...positives, ...negatives].find(
+    (sample) => sample.length > MAX_SAMPLE_LENGTH
+  );
+  if (long !== undefined) {
+    return `Samples are limited to ${MAX_SAMPLE_LENGTH} characters`;
+  }
+  return;
+};
+
+/**
+ * Synthesize the smallest pattern that matches every positive sample in
+ * full and none of the negatives
+ *
+ * @param options - Samples, dialect and search limit
+ * @returns Effect yielding the anchored pattern, verified with `testRegex`
+ * @example
+ * ```typescript
+ * const result = await Effect.runPromise(
+ *   synthesize({
+ *     positives: ["555-1234", "555-9876"],
+ *     negatives: ["5551234"],
+ *   })
+ * );
+ * // result.pattern === "^\\d{3}-\\d{4}$"
+ * ```
+ */
+export const synthesize = (
+  options: SynthesisOptions
+): Effect.Effect<SynthesisResult, RegexSynthesisError> =>
+  Effect.gen(function* () {
+    const positives = [...new Set(options.positives)];
+    const negatives = [...new Set(options.negatives ?? [])];
+    const dialect = options.dialect ?? "js";
+    const fail = (reason: string) =>
+      new RegexSynthesisError({ positives, negatives, reason });
+
+    const invalid = validate(positives, negatives);
+    if (invalid !== undefined) {
+      return yield* Effect.fail(fail(invalid));
+    }
+
+    const enumerator = new Enumerator(new SampleSpace(positives, negatives));
+    const found = enumerator.search(options.maxSize ?? DEFAULT_MAX_SIZE);
+    const ast = finish(found?.ast ?? enumerate(positives));
+    const { pattern } = emit(RegexBuilder.fromAst(ast), dialect, true);
+
+    const cases: RegexTestCase[] = [
+      ...positives.map((input) => ({ input, shouldMatch: true })),
+      ...negatives.map((input) => ({ input, shouldMatch: false })),
+    ];
+    const test = yield* testRegex(pattern, cases, TEST_DIALECTS[dialect]);
+    if (test.failed > 0) {
+      return yield* Effect.fail(
+        fail(`Pattern ${pattern} failed ${test.failed} of its samples`)
+      );
+    }
+
+    return {
+      pattern,
+      ast,
+      size: found?.size ?? fallbackSize(positives),
+      fallback: found === undefined,
+      test,
+    };
+  });
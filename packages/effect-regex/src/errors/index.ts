@@ -8,8 +8,11 @@ export type { Dialect, RegexLibraryError } from "@/effect-regex/errors/types.js"
 export {
   DialectIncompatibilityError,
   EmitError,
+  ExtractionError,
   OptimizationError,
   RegexCompilationError,
+  RegexParseError,
+  RegexSynthesisError,
   TestExecutionError,
   ValidationError,
 } from "@/effect-regex/errors/types.js";
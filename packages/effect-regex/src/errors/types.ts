@@ -6,6 +6,7 @@
  */
 
 import { Data } from "effect";
+import type { ParseError } from "effect/ParseResult";
 import type { Ast } from "@/effect-regex/core/ast.js";
 import type { LintIssue } from "@/effect-regex/core/linter.js";
 import type { RegexTestCase } from "@/effect-regex/core/tester.js";
@@ -91,6 +92,51 @@ export class EmitError extends Data.TaggedError("EmitError")<{
   readonly cause: unknown;
 }> {}
 
+/**
+ * Error for regex pattern parsing
+ *
+ * Thrown when a pattern string is not valid syntax for its dialect or
+ * uses flags the dialect does not support. The position (source offsets,
+ * end exclusive) is absent for flag errors.
+ */
+export class RegexParseError extends Data.TaggedError("RegexParseError")<{
+  readonly pattern: string;
+  readonly flags: string;
+  readonly dialect: Dialect;
+  readonly reason: string;
+  readonly message: string;
+  readonly position?: { readonly start: number; readonly end: number };
+}> {}
+
+/**
+ * Error for regex synthesis failures
+ *
+ * Thrown when the samples cannot be synthesized into a pattern (no
+ * positives, a sample listed as both positive and negative, oversized
+ * samples) or the synthesized pattern fails its own samples.
+ */
+export class RegexSynthesisError extends Data.TaggedError(
+  "RegexSynthesisError"
+)<{
+  readonly positives: readonly string[];
+  readonly negatives: readonly string[];
+  readonly reason: string;
+}> {}
+
+/**
+ * Error for structured extraction failures
+ *
+ * Thrown when the named captures of a match do not decode with the
+ * schema given to `extractAll`. The index is the match's offset in the
+ * input.
+ */
+export class ExtractionError extends Data.TaggedError("ExtractionError")<{
+  readonly pattern: string;
+  readonly index: number;
+  readonly match: string;
+  readonly cause: ParseError;
+}> {}
+
 /**
  * Union of all library errors
  *
@@ -103,4 +149,7 @@ export type RegexLibraryError =
   | TestExecutionError
   | ValidationError
   | DialectIncompatibilityError
-  | EmitError;
+  | EmitError
+  | RegexParseError
+  | RegexSynthesisError
+  | ExtractionError;
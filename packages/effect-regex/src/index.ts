@@ -6,10 +6,40 @@
 
 // Core Types & Builders
 export * from "./core/ast.js";
-export { RegexBuilder } from "./core/builder.js";
+export { type CaptureNames, RegexBuilder } from "./core/builder.js";
 export type { Dialect } from "./core/emitter.js";
 // Pattern Emission & Dialects
 export { emit as emitPattern } from "./core/emitter.js";
+// Extraction
+export {
+  type Captures,
+  type ExtractOptions,
+  extract,
+  extractAll,
+  type Match,
+  makeScanner,
+  type PatternSource,
+  replace,
+  type ScanMatch,
+  type Scanner,
+  type SourceCaptures,
+} from "./core/extractor.js";
+// Pattern Parsing
+export { parseRegex } from "./core/parser.js";
+// ReDoS Analysis
+export {
+  analyzeRedos,
+  type RedosAnalysis,
+  type RedosAttack,
+  type RedosComplexity,
+  type RedosOptions,
+} from "./core/redos.js";
+// Synthesis from Examples
+export {
+  type SynthesisOptions,
+  type SynthesisResult,
+  synthesize,
+} from "./core/synthesizer.js";
 // Errors
 export * from "./errors/index.js";
 // Services (Dependency Injection)
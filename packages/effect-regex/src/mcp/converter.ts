@@ -7,7 +7,7 @@
  * - This is a string-based conversion (no full AST parser for regex strings)
  * - Complex patterns may not convert perfectly
  * - Some features are detected heuristically
- * - Full string→AST parsing is deferred to post-1.0
+ * - Conversion does not yet go through the string→AST parser (core/parser)
  */
 
 export type Dialect = "js" | "re2" | "pcre";
@@ -159,18 +159,87 @@ export const LINT_REGEX_SCHEMA: ToolDefinition = {
     properties: {
       pattern: {
         type: "string",
-        description: "Pattern string or AST to lint",
+        description: "Regex pattern string to lint",
       },
       dialect: {
         enum: ["js", "re2", "pcre"],
         default: "js",
         description: "Target dialect for linting",
       },
+      flags: {
+        type: "string",
+        default: "",
+        description: 'Pattern flags (e.g. "iu" for JS, "x" for PCRE)',
+      },
+    },
+    required: ["pattern"],
+  },
+};
+
+/**
+ * Audit regex tool schema
+ *
+ * Analyzes patterns for ReDoS and generates attack strings
+ */
+export const AUDIT_REGEX_SCHEMA: ToolDefinition = {
+  name: "audit_regex",
+  description:
+    "Analyze a regex pattern for catastrophic backtracking (ReDoS): classifies worst-case matching time as linear, polynomial or exponential and returns an attack string for vulnerable patterns",
+  inputSchema: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description: "Regex pattern string to audit",
+      },
+      dialect: {
+        enum: ["js", "re2", "pcre"],
+        default: "js",
+        description: "Dialect the pattern is written for",
+      },
+      flags: {
+        type: "string",
+        default: "",
+        description: 'Pattern flags (e.g. "i" or "s")',
+      },
     },
     required: ["pattern"],
   },
 };
 
+/**
+ * Synthesize regex tool schema
+ *
+ * Infers the smallest pattern consistent with example strings
+ */
+export const SYNTHESIZE_REGEX_SCHEMA: ToolDefinition = {
+  name: "synthesize_regex",
+  description:
+    "Synthesize the smallest anchored regex that matches every positive example in full and none of the negative examples, verified against the examples",
+  inputSchema: {
+    type: "object",
+    properties: {
+      positives: {
+        type: "array",
+        items: { type: "string" },
+        description: "Strings the pattern must match",
+      },
+      negatives: {
+        type: "array",
+        items: { type: "string" },
+        default: [],
+        description: "Strings the pattern must not match",
+      },
+      dialect: {
+        enum: ["js", "re2", "pcre"],
+        default: "js",
+        description: "Dialect to emit the pattern for",
+      },
+    },
+    required: ["positives"],
+  },
+};
+
 /**
  * Convert regex tool schema
  *
@@ -226,6 +295,11 @@ export const EXPLAIN_REGEX_SCHEMA: ToolDefinition = {
         default: "js",
         description: "Dialect context",
       },
+      flags: {
+        type: "string",
+        default: "",
+        description: "Pattern flags",
+      },
     },
     required: ["pattern"],
   },
@@ -291,9 +365,9 @@ export const OPTIMIZE_PATTERN_SCHEMA: ToolDefinition = {
               type: { const: "pattern" },
               pattern: {
                 type: "string",
-                description:
-                  "Regex pattern string (limited optimization without AST)",
+                description: "Regex pattern string, parsed with the dialect",
               },
+              flags: { type: "string", description: "Pattern flags" },
             },
             required: ["type", "pattern"],
           },
@@ -326,6 +400,8 @@ export const ALL_TOOLS: readonly ToolDefinition[] = [
   BUILD_REGEX_SCHEMA,
   TEST_REGEX_SCHEMA,
   LINT_REGEX_SCHEMA,
+  AUDIT_REGEX_SCHEMA,
+  SYNTHESIZE_REGEX_SCHEMA,
   CONVERT_REGEX_SCHEMA,
   EXPLAIN_REGEX_SCHEMA,
   LIBRARY_LIST_SCHEMA,
@@ -3,12 +3,14 @@
 /**
  * Effect Regex MCP Server - Model Context Protocol server for regex tools
  *
- * This server provides 7 tools for regex pattern development:
+ * This server provides 9 tools for regex pattern development:
  * - build_regex: Build patterns from AST, standard library, or CommandSpec
  * - test_regex: Test patterns against test cases with timeout protection
- * - lint_regex: Validate patterns for safety and compatibility
+ * - lint_regex: Parse and lint patterns for safety and compatibility
+ * - audit_regex: Detect ReDoS and generate attack strings
+ * - synthesize_regex: Infer patterns from positive and negative examples
  * - convert_regex: Convert patterns between dialects (js, re2, pcre)
- * - explain_regex: Generate human-readable explanations (stub)
+ * - explain_regex: Generate human-readable explanations of any pattern
  * - library_list: List patterns in the standard library
  * - optimize_pattern: Apply AST optimization passes
  *
@@ -32,12 +34,14 @@ import {
 import { Effect } from "effect";
 import { ALL_TOOLS } from "./schemas.js";
 import {
+  handleAuditRegex,
   handleBuildRegex,
   handleConvertRegex,
   handleExplainRegex,
   handleLibraryList,
   handleLintRegex,
   handleOptimizePattern,
+  handleSynthesizeRegex,
   handleTestRegex,
 } from "./tools/index.js";
 
@@ -94,6 +98,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "lint_regex":
         result = await Effect.runPromise(handleLintRegex(toolArgs));
         break;
+      case "audit_regex":
+        result = await Effect.runPromise(handleAuditRegex(toolArgs));
+        break;
+      case "synthesize_regex":
+        result = await Effect.runPromise(handleSynthesizeRegex(toolArgs));
+        break;
       case "convert_regex":
         result = await Effect.runPromise(handleConvertRegex(toolArgs));
         break;
@@ -0,0 +1,50 @@
+/**
+ * Audit Regex Tool - Check regex patterns for ReDoS
+ *
+ * @module mcp/tools/audit-regex
+ */
+
+import { Effect } from "effect";
+import { analyzeRedos } from "@/effect-regex/core/redos.js";
+import type { AuditRegexArgs, ToolHandler } from "@/effect-regex/mcp/types.js";
+import {
+  parsePatternEffect,
+  toMcpError,
+  validateInputEffect,
+} from "@/effect-regex/mcp/utils/validation.js";
+
+/**
+ * Handle audit_regex tool requests
+ *
+ * Parses the pattern in its dialect and analyzes it for catastrophic
+ * backtracking:
+ * - Worst-case complexity (linear, polynomial with its degree, exponential)
+ * - For vulnerable patterns, an attack string proving the blowup
+ * - Notes on approximations made (lookarounds, backreferences, ...)
+ *
+ * Syntax errors fail with InvalidParams and the error position.
+ *
+ * @param args - Pattern, flags and dialect
+ * @returns Complexity, vulnerability and attack string
+ */
+export const handleAuditRegex: ToolHandler<AuditRegexArgs, any> = (args) => {
+  return Effect.gen(function* () {
+    yield* validateInputEffect(args);
+
+    const { pattern: patternStr, dialect = "js", flags = "" } = args;
+
+    const ast = yield* parsePatternEffect(patternStr, flags, dialect);
+    const analysis = analyzeRedos(ast, {
+      dialect: dialect === "universal" ? "re2" : dialect,
+      flags,
+    });
+
+    return {
+      pattern: patternStr,
+      dialect,
+      ...analysis,
+    };
+  }).pipe(
+    Effect.catchAll((error) => Effect.fail(toMcpError(error, "Audit failed")))
+  );
+};
@@ -4,10 +4,12 @@
  * @module mcp/tools
  */
 
+export { handleAuditRegex } from "@/effect-regex/mcp/tools/audit-regex.js";
 export { handleBuildRegex } from "@/effect-regex/mcp/tools/build-regex.js";
 export { handleConvertRegex } from "@/effect-regex/mcp/tools/convert-regex.js";
 export { handleExplainRegex } from "@/effect-regex/mcp/tools/explain-regex.js";
 export { handleLibraryList } from "@/effect-regex/mcp/tools/library-list.js";
 export { handleLintRegex } from "@/effect-regex/mcp/tools/lint-regex.js";
 export { handleOptimizePattern } from "@/effect-regex/mcp/tools/optimize-pattern.js";
+export { handleSynthesizeRegex } from "@/effect-regex/mcp/tools/synthesize-regex.js";
 export { handleTestRegex } from "@/effect-regex/mcp/tools/test-regex.js";
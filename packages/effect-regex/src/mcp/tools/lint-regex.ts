@@ -5,53 +5,44 @@
  */
 
 import { Effect } from "effect";
+import { lint } from "@/effect-regex/core/linter.js";
 import type { LintRegexArgs, ToolHandler } from "@/effect-regex/mcp/types.js";
 import { toMcpError, validateInputEffect } from "@/effect-regex/mcp/utils/validation.js";
 
 /**
  * Handle lint_regex tool requests
  *
- * Validates regex patterns by:
- * - Checking if pattern compiles successfully
- * - Reporting syntax errors with details
+ * Parses the pattern in its dialect and lints the resulting AST:
+ * - Syntax errors, with their position in the pattern
+ * - Dialect compatibility (e.g. lookbehind or backreferences in RE2)
+ * - Catastrophic backtracking, empty alternatives, undefined backreferences
  *
- * Note: Full AST-based linting (catastrophic backtracking, dialect compatibility)
- * requires regex string parsing which is planned for post-1.0.
+ * Syntax errors are reported as issues of type "syntax"; all other
+ * issues have type "lint".
  *
- * @param args - Pattern and dialect
+ * @param args - Pattern, flags and dialect
  * @returns Lint result with valid flag and issues array
  */
 export const handleLintRegex: ToolHandler<LintRegexArgs, any> = (args) => {
   return Effect.gen(function* () {
     yield* validateInputEffect(args);
 
-    const { pattern: patternStr } = args;
+    const { pattern: patternStr, dialect = "js", flags = "" } = args;
 
-    // Try to compile the regex - if it throws, catch it and return invalid result
-    const validationResult = yield* Effect.try(
-      () => new RegExp(patternStr)
-    ).pipe(
-      Effect.map(() => ({
-        valid: true,
-        issues: [],
-      })),
-      Effect.catchAll((error) => {
-        // If regex compilation failed, return success with validation error
-        return Effect.succeed({
-          valid: false,
-          issues: [
-            {
-              type: "syntax",
-              severity: "error",
-              message: (error as Error).message,
-              pattern: patternStr,
-            },
-          ],
-        });
-      })
+    const result = lint(
+      patternStr,
+      dialect === "universal" ? "re2" : dialect,
+      flags
     );
 
-    return validationResult;
+    return {
+      valid: result.valid,
+      issues: result.issues.map((issue) => ({
+        type: issue.code === "SYNTAX_ERROR" ? "syntax" : "lint",
+        ...issue,
+        pattern: patternStr,
+      })),
+    };
   }).pipe(
     Effect.catchAll((error) => Effect.fail(toMcpError(error, "Lint failed")))
   );
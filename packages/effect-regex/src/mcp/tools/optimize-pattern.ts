@@ -11,7 +11,11 @@ import { emit, RegexBuilder } from "@/effect-regex/core/builder.js";
 import { optimize } from "@/effect-regex/core/optimizer.js";
 import { STANDARD_PATTERNS } from "@/effect-regex/std/patterns.js";
 import type { OptimizePatternArgs, ToolHandler } from "@/effect-regex/mcp/types.js";
-import { toMcpError, validateInputEffect } from "@/effect-regex/mcp/utils/validation.js";
+import {
+  parsePatternEffect,
+  toMcpError,
+  validateInputEffect,
+} from "@/effect-regex/mcp/utils/validation.js";
 
 /**
  * Handle optimize_pattern tool requests
@@ -22,8 +26,8 @@ import { toMcpError, validateInputEffect } from "@/effect-regex/mcp/utils/valida
  * - Character class merging (e.g., [a-z][0-9] → [a-z0-9])
  * - Alternation deduplication (removes duplicate branches)
  *
- * Note: Optimization requires AST. Currently only works with standard library patterns.
- * String pattern optimization requires regex parsing (planned for post-1.0).
+ * Pattern strings are parsed in the requested dialect first; syntax
+ * errors fail with InvalidParams.
  *
  * @param args - Pattern source, optimization options, and dialect
  * @returns Before/after patterns with optimization statistics
@@ -53,13 +57,8 @@ export const handleOptimizePattern: ToolHandler<OptimizePatternArgs, any> = (
       ast = stdPattern.pattern.getAst();
       patternName = input.name;
     } else {
-      // For pattern strings, we can't optimize without parsing
-      return yield* Effect.fail(
-        new McpError(
-          ErrorCode.InvalidParams,
-          "Pattern string optimization not yet supported. Use standard library patterns or provide AST directly."
-        )
-      );
+      ast = yield* parsePatternEffect(input.pattern, input.flags ?? "", dialect);
+      patternName = input.pattern;
     }
 
     // Emit before optimization
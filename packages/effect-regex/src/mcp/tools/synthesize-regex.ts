@@ -0,0 +1,60 @@
+/**
+ * Synthesize Regex Tool - Infer patterns from example strings
+ *
+ * @module mcp/tools/synthesize-regex
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Effect } from "effect";
+import { synthesize } from "@/effect-regex/core/synthesizer.js";
+import type {
+  SynthesizeRegexArgs,
+  ToolHandler,
+} from "@/effect-regex/mcp/types.js";
+import {
+  toMcpError,
+  validateExamples,
+  validateInputEffect,
+} from "@/effect-regex/mcp/utils/validation.js";
+
+/**
+ * Handle synthesize_regex tool requests
+ *
+ * Searches for the smallest pattern that matches every positive example
+ * in full and none of the negatives:
+ * - Built from literals, character classes, quantifiers, alternation and
+ *   groups
+ * - Anchored, emitted for the requested dialect
+ * - Verified against the examples with test_regex semantics
+ *
+ * Contradictory examples fail with InvalidParams.
+ *
+ * @param args - Positive and negative examples and dialect
+ * @returns Pattern, its AST, search size and test results
+ */
+export const handleSynthesizeRegex: ToolHandler<SynthesizeRegexArgs, any> = (
+  args
+) => {
+  return Effect.gen(function* () {
+    yield* validateInputEffect(args);
+
+    const { positives, negatives = [], dialect = "js" } = args;
+    yield* validateExamples(positives, negatives);
+
+    const result = yield* synthesize({
+      positives,
+      negatives,
+      dialect: dialect === "universal" ? "re2" : dialect,
+    }).pipe(
+      Effect.mapError(
+        (error) => new McpError(ErrorCode.InvalidParams, error.reason)
+      )
+    );
+
+    return { dialect, ...result };
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.fail(toMcpError(error, "Synthesis failed"))
+    )
+  );
+};
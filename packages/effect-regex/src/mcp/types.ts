@@ -92,6 +92,25 @@ export interface TestRegexArgs {
 export interface LintRegexArgs {
   readonly pattern: string;
   readonly dialect?: RegexDialect;
+  readonly flags?: string;
+}
+
+/**
+ * Audit regex tool arguments
+ */
+export interface AuditRegexArgs {
+  readonly pattern: string;
+  readonly dialect?: RegexDialect;
+  readonly flags?: string;
+}
+
+/**
+ * Synthesize regex tool arguments
+ */
+export interface SynthesizeRegexArgs {
+  readonly positives: readonly string[];
+  readonly negatives?: readonly string[];
+  readonly dialect?: RegexDialect;
 }
 
 /**
@@ -111,6 +130,7 @@ export interface ExplainRegexArgs {
   readonly pattern: string;
   readonly format?: ExplanationFormat;
   readonly dialect?: RegexDialect;
+  readonly flags?: string;
 }
 
 /**
@@ -141,7 +161,11 @@ export interface ProposePatternArgs {
 export interface OptimizePatternArgs {
   readonly input:
     | { readonly type: "std"; readonly name: string }
-    | { readonly type: "pattern"; readonly pattern: string };
+    | {
+        readonly type: "pattern";
+        readonly pattern: string;
+        readonly flags?: string;
+      };
   readonly options?: {
     readonly constantFolding?: boolean;
     readonly quantifierSimplification?: boolean;
@@ -9,7 +9,10 @@
 
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { Effect } from "effect";
-import { LIMITS } from "@/effect-regex/mcp/types.js";
+import type { Ast } from "@/effect-regex/core/ast.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
+import { RegexParseError } from "@/effect-regex/errors/types.js";
+import { LIMITS, type RegexDialect } from "@/effect-regex/mcp/types.js";
 
 /**
  * Validate general tool input constraints
@@ -90,6 +93,35 @@ export function validatePattern(
   });
 }
 
+/**
+ * Parse a regex pattern string into an AST
+ *
+ * Syntax errors become InvalidParams errors carrying the error position.
+ * "universal" patterns are parsed with RE2 syntax, the portable subset.
+ *
+ * @param pattern - Pattern string to parse
+ * @param flags - Pattern flags
+ * @param dialect - Dialect whose syntax to accept
+ * @returns Effect that succeeds with the AST or fails with McpError
+ */
+export function parsePatternEffect(
+  pattern: string,
+  flags: string,
+  dialect: RegexDialect
+): Effect.Effect<Ast, McpError, never> {
+  return Effect.try({
+    try: () =>
+      parseRegex(pattern, flags, dialect === "universal" ? "re2" : dialect),
+    catch: (error) =>
+      error instanceof RegexParseError
+        ? new McpError(ErrorCode.InvalidParams, error.message, {
+            reason: error.reason,
+            position: error.position,
+          })
+        : toMcpError(error, "Parse failed"),
+  });
+}
+
 /**
  * Validate examples array for AI pattern proposal
  *
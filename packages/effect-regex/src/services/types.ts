@@ -14,16 +14,21 @@ import type {
   OptimizationResult,
 } from "@/effect-regex/core/optimizer.js";
 import type { RegexTestCase, TestResult } from "@/effect-regex/core/tester.js";
-import { EmitError, TestExecutionError } from "@/effect-regex/errors/types.js";
+import {
+  EmitError,
+  RegexParseError,
+  TestExecutionError,
+} from "@/effect-regex/errors/types.js";
 import { emit as coreEmit } from "@/effect-regex/core/emitter.js";
 import { lint as coreLint } from "@/effect-regex/core/linter.js";
 import { optimize as coreOptimize } from "@/effect-regex/core/optimizer.js";
+import { parseRegex } from "@/effect-regex/core/parser.js";
 import { testRegex as coreTestRegex } from "@/effect-regex/core/tester.js";
 
 /**
  * Service for regex pattern building and emission
  *
- * Provides core regex operations: emit, lint, optimize
+ * Provides core regex operations: parse, emit, lint, optimize
  */
 export class RegexBuilderService extends Effect.Service<RegexBuilderService>()(
   "RegexBuilderService",
@@ -31,6 +36,30 @@ export class RegexBuilderService extends Effect.Service<RegexBuilderService>()(
     accessors: true,
     effect: Effect.gen(function* () {
       return {
+        /**
+         * Parse a regex pattern string into an AST
+         *
+         * @throws RegexParseError when the pattern is not valid syntax
+         */
+        parse: (
+          source: string,
+          flags = "",
+          dialect: "js" | "re2" | "pcre" = "js"
+        ): Effect.Effect<Ast, RegexParseError> =>
+          Effect.try({
+            try: () => parseRegex(source, flags, dialect),
+            catch: (error) =>
+              error instanceof RegexParseError
+                ? error
+                : new RegexParseError({
+                    pattern: source,
+                    flags,
+                    dialect,
+                    reason: String(error),
+                    message: String(error),
+                  }),
+          }),
+
         /**
          * Emit a regex pattern from builder
          *
@@ -91,6 +91,7 @@ export const usSSN = digit()
  */
 export const creditCard = digit()
   .then(RegexBuilder.charClass(" -").optional())
+  .group()
   .between(13, 19) // Accounts for digits and separators
   .group("creditCard");
 
@@ -125,7 +126,7 @@ export const decimal = digit()
 export const signedNumber = RegexBuilder.charClass("+-")
   .optional()
   .then(digit().zeroOrMore())
-  .then(RegexBuilder.lit(".").then(digit().oneOrMore()).optional())
+  .then(RegexBuilder.lit(".").then(digit().oneOrMore()).group().optional())
   .group("signedNum");
 
 /**
@@ -186,6 +187,7 @@ export const intlPhone = RegexBuilder.lit("+")
   .then(
     RegexBuilder.lit("x")
       .then(RegexBuilder.charClass("0-9 ").oneOrMore())
+      .group()
       .optional() // Extension
   )
   .group("intlPhone");
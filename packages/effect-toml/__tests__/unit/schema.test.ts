@@ -0,0 +1,189 @@
+/**
+ * Schema-validated parse/stringify tests for effect-toml
+ *
+ * Covers parseSchema/stringifySchema and the source positions attached to
+ * TomlParseError and TomlValidationError.
+ */
+
+import { Effect, Either, Schema } from "effect";
+import { describe, expect, it } from "vitest";
+import { parseSchema, stringifySchema } from "../../src/api.js";
+import { locateKeys } from "../../src/positions.js";
+
+const ServerConfig = Schema.Struct({
+  title: Schema.String,
+  database: Schema.Struct({
+    server: Schema.String,
+    enabled: Schema.Boolean,
+    ports: Schema.Array(Schema.BigIntFromSelf),
+  }),
+  servers: Schema.Array(
+    Schema.Struct({
+      name: Schema.String,
+      port: Schema.BigIntFromSelf,
+    })
+  ),
+});
+
+const validToml = `title = "Example"
+
+[database]
+server = "192.168.1.1"
+enabled = true
+ports = [ 8001, 8002 ]
+
+[[servers]]
+name = "alpha"
+port = 80
+
+[[servers]]
+name = "beta"
+port = 81
+`;
+
+describe("TOML schema API", () => {
+  describe("parseSchema", () => {
+    it("should decode a valid document", async () => {
+      const result = await Effect.runPromise(
+        parseSchema(ServerConfig, validToml)
+      );
+
+      expect(result.title).toBe("Example");
+      expect(result.database.ports).toEqual([8001n, 8002n]);
+      expect(result.servers.map((server) => server.name)).toEqual([
+        "alpha",
+        "beta",
+      ]);
+    });
+
+    it("should report line and column for syntax errors", async () => {
+      const text = `title = "ok"\n\n[database]\n  server = \n`;
+      const result = await Effect.runPromise(
+        Effect.either(parseSchema(ServerConfig, text))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("TomlParseError");
+        if (result.left._tag === "TomlParseError") {
+          expect(result.left.line).toBe(4);
+          expect(result.left.column).toBe(3);
+          expect(result.left.key).toBe("database.server");
+        }
+      }
+    });
+
+    it("should report the key of a duplicate definition", async () => {
+      const text = "title = 1\ntitle = 2\n";
+      const result = await Effect.runPromise(
+        Effect.either(parseSchema(ServerConfig, text))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result) && result.left._tag === "TomlParseError") {
+        expect(result.left.line).toBe(2);
+        expect(result.left.key).toBe("title");
+      }
+    });
+
+    it("should map validation errors to key path and source line", async () => {
+      const text = validToml.replace('name = "beta"', "name = 42");
+      const result = await Effect.runPromise(
+        Effect.either(parseSchema(ServerConfig, text))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("TomlValidationError");
+        if (result.left._tag === "TomlValidationError") {
+          expect(result.left.keyPath).toBe("servers.1.name");
+          expect(result.left.line).toBe(13);
+          expect(result.left.column).toBe(1);
+        }
+      }
+    });
+
+    it("should fall back to the nearest declared key for array elements", async () => {
+      const text = validToml.replace("[ 8001, 8002 ]", '[ 8001, "x" ]');
+      const result = await Effect.runPromise(
+        Effect.either(parseSchema(ServerConfig, text))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result) && result.left._tag === "TomlValidationError") {
+        expect(result.left.keyPath).toBe("database.ports.1");
+        expect(result.left.line).toBe(6);
+      }
+    });
+
+    it("should report missing keys at the enclosing table", async () => {
+      const text = validToml.replace("enabled = true\n", "");
+      const result = await Effect.runPromise(
+        Effect.either(parseSchema(ServerConfig, text))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result) && result.left._tag === "TomlValidationError") {
+        expect(result.left.keyPath).toBe("database.enabled");
+        expect(result.left.line).toBe(3);
+      }
+    });
+  });
+
+  describe("stringifySchema", () => {
+    const Settings = Schema.Struct({
+      name: Schema.String,
+      retries: Schema.NumberFromString,
+    });
+
+    it("should encode before stringifying", async () => {
+      const result = await Effect.runPromise(
+        stringifySchema(Settings, { name: "svc", retries: 3 })
+      );
+
+      expect(result).toContain("name = 'svc'");
+      expect(result).toContain("retries = '3'");
+    });
+
+    it("should fail with key path when encoding fails", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          stringifySchema(Settings, {
+            name: 1 as unknown as string,
+            retries: 3,
+          })
+        )
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result) && result.left._tag === "TomlValidationError") {
+        expect(result.left.keyPath).toBe("name");
+        expect(result.left.line).toBeUndefined();
+      }
+    });
+  });
+
+  describe("locateKeys", () => {
+    it("should handle dotted, quoted and multi-line values", () => {
+      const positions = locateKeys(
+        [
+          'site."google.com".enabled = true',
+          'bio = """',
+          "fake = value",
+          '"""',
+          "list = [",
+          "  1,",
+          "]",
+          "after = 1",
+        ].join("\n")
+      );
+
+      expect(positions.get("site.google.com.enabled")).toEqual({
+        line: 1,
+        column: 1,
+      });
+      expect(positions.has("fake")).toBe(false);
+      expect(positions.get("after")).toEqual({ line: 8, column: 1 });
+    });
+  });
+});
@@ -1,6 +1,11 @@
-import { Effect } from "effect";
+import { Effect, type Schema } from "effect";
 import { TomlBackend, TomlBackendLayer } from "./backends/TomlBackend.js";
-import { TomlParseError, TomlStringifyError } from "./errors.js";
+import type {
+  TomlParseError,
+  TomlStringifyError,
+  TomlValidationError,
+} from "./errors.js";
+import { encodeForStringify, validateAgainstSchema } from "./schema.js";
 
 /**
  * Parses a TOML string into a JavaScript object.
@@ -33,3 +38,48 @@ export const stringify = (
     }),
     TomlBackendLayer
   );
+
+/**
+ * Parses a TOML string and validates the result against a schema.
+ *
+ * Parse failures carry the `line`/`column` of the offending statement;
+ * validation failures carry the TOML `keyPath` of the failing value and the
+ * source position where that key is declared.
+ *
+ * TOML integers are parsed as `bigint`; use `Schema.BigIntFromSelf` for
+ * integer fields.
+ *
+ * @example
+ * ```typescript
+ * const Config = Schema.Struct({
+ *   title: Schema.String,
+ *   database: Schema.Struct({ enabled: Schema.Boolean }),
+ * });
+ *
+ * const config = await Effect.runPromise(parseSchema(Config, text));
+ * ```
+ *
+ * @param schema The schema to validate the parsed document against.
+ * @param text The TOML string to parse.
+ * @returns An `Effect` that resolves to the decoded value or fails with a `TomlParseError` or `TomlValidationError`.
+ */
+export const parseSchema = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  text: string
+): Effect.Effect<A, TomlParseError | TomlValidationError, R> =>
+  parse(text).pipe(
+    Effect.flatMap((data) => validateAgainstSchema(schema, data, text))
+  );
+
+/**
+ * Encodes a value with a schema and stringifies the result into TOML.
+ *
+ * @param schema The schema used to encode the value.
+ * @param value The value to stringify.
+ * @returns An `Effect` that resolves to the TOML string or fails with a `TomlValidationError` or `TomlStringifyError`.
+ */
+export const stringifySchema = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  value: A
+): Effect.Effect<string, TomlValidationError | TomlStringifyError, R> =>
+  encodeForStringify(schema, value).pipe(Effect.flatMap(stringify));
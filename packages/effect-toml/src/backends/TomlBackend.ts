@@ -1,16 +1,21 @@
 import TOML from "@ltd/j-toml";
 import { Effect } from "effect";
 import { TomlParseError, TomlStringifyError } from "../errors.js";
+import { locateParseError } from "../positions.js";
 
 export class TomlBackend extends Effect.Service<TomlBackend>()("TomlBackend", {
   succeed: {
     parse: (text: string): Effect.Effect<unknown, TomlParseError> =>
       Effect.try({
         try: () => TOML.parse(text, { joiner: "\n" }),
-        catch: (error) =>
-          new TomlParseError({
-            message: error instanceof Error ? error.message : "Unknown error",
-          }),
+        catch: (error) => {
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          return new TomlParseError({
+            message,
+            ...locateParseError(text, message),
+          });
+        },
       }),
     stringify: (value: unknown): Effect.Effect<string, TomlStringifyError> =>
       Effect.try({
@@ -2,9 +2,16 @@ import { Data } from "effect";
 
 /**
  * Represents an error that occurs when parsing a TOML string.
+ *
+ * When the backend reports where parsing stopped, `line` and `column`
+ * (1-indexed) point at the offending statement and `key` holds its full
+ * dotted key path.
  */
 export class TomlParseError extends Data.TaggedError("TomlParseError")<{
   readonly message: string;
+  readonly line?: number | undefined;
+  readonly column?: number | undefined;
+  readonly key?: string | undefined;
 }> {}
 
 /**
@@ -13,3 +20,23 @@ export class TomlParseError extends Data.TaggedError("TomlParseError")<{
 export class TomlStringifyError extends Data.TaggedError("TomlStringifyError")<{
   readonly message: string;
 }> {}
+
+/**
+ * Represents a schema validation failure for TOML data.
+ *
+ * `keyPath` is the dotted TOML key path of the failing value (e.g.
+ * `servers.0.port`). When validating parsed source text, `line` and
+ * `column` locate the declaration of that key (or its nearest declared
+ * ancestor) in the original document.
+ */
+export class TomlValidationError extends Data.TaggedError(
+  "TomlValidationError"
+)<{
+  readonly message: string;
+  readonly keyPath: string;
+  readonly line?: number | undefined;
+  readonly column?: number | undefined;
+  readonly expected: unknown;
+  readonly actual: unknown;
+  readonly cause?: Error | undefined;
+}> {}
@@ -5,10 +5,18 @@
  */
 
 // Convenience Functions
-export { parse, stringify } from "./api.js";
-
-// Errors
-export { TomlParseError, TomlStringifyError } from "./errors.js";
-
+export { parse, parseSchema, stringify, stringifySchema } from "./api.js";
 // Backends (for advanced usage)
 export { TomlBackend } from "./backends/TomlBackend.js";
+// Errors
+export {
+  TomlParseError,
+  TomlStringifyError,
+  TomlValidationError,
+} from "./errors.js";
+// Source positions
+export {
+  findKeyPosition,
+  locateKeys,
+  type TomlSourcePosition,
+} from "./positions.js";
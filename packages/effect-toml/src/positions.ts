@@ -0,0 +1,280 @@
+/**
+ * Source position tracking for TOML documents.
+ *
+ * The backend parser returns plain values without location data, so this
+ * module performs a lightweight line scan of the source text to map every
+ * table header and key assignment back to the line/column where it was
+ * declared. It is deliberately tolerant: it only needs to be accurate for
+ * documents the backend has already accepted.
+ */
+
+/**
+ * A 1-indexed line/column location in a TOML source string.
+ */
+export interface TomlSourcePosition {
+  readonly line: number;
+  readonly column: number;
+}
+
+const LINE_NUMBER_PATTERN = /at line (\d+)/;
+const ARRAY_TABLE_PATTERN = /^\[\[(.+?)\]\]/;
+const TABLE_PATTERN = /^\[(.+?)\]/;
+const LINE_SPLIT_PATTERN = /\r?\n/;
+
+/**
+ * Join key path segments into the dotted form used across EffectTalk
+ * validation errors (e.g. `servers.0.ip`).
+ */
+export const formatKeyPath = (path: readonly PropertyKey[]): string =>
+  path.map((segment) => String(segment)).join(".");
+
+/**
+ * Read a quoted string starting at `start` (the opening quote). Basic
+ * strings (`"..."`) honour backslash escapes; literal strings do not.
+ */
+const readQuoted = (
+  source: string,
+  start: number
+): { readonly text: string; readonly end: number } => {
+  const quote = source[start];
+  let text = "";
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (quote === '"' && source[i] === "\\" && i + 1 < source.length) {
+      i++;
+    }
+    text += source[i];
+    i++;
+  }
+  return { text, end: i };
+};
+
+/**
+ * Split a raw TOML key (`a."b.c".d`) into its segments, honouring basic
+ * and literal quoted keys.
+ */
+export const splitKey = (raw: string): string[] => {
+  const segments: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"' || char === "'") {
+      const quoted = readQuoted(raw, i);
+      current += quoted.text;
+      i = quoted.end;
+    } else if (char === ".") {
+      segments.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current.trim());
+  return segments;
+};
+
+/**
+ * Find the index of the first `=` outside of a quoted key, or -1.
+ */
+const findAssignment = (line: string): number => {
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' || char === "'") {
+      i = readQuoted(line, i).end;
+    } else if (char === "=") {
+      return i;
+    } else if (char === "#") {
+      return -1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Tracks whether a value spans multiple lines (multi-line strings and
+ * bracketed arrays / inline tables) so continuation lines are not mistaken
+ * for key assignments.
+ */
+interface ValueState {
+  multilineString: '"""' | "'''" | undefined;
+  depth: number;
+}
+
+const MULTILINE_DELIMITERS = ['"""', "'''"] as const;
+
+/**
+ * Advance past one token of `value` starting at `i`, updating `state`, and
+ * return the next index (or `value.length` to stop scanning the line).
+ */
+const scanToken = (value: string, i: number, state: ValueState): number => {
+  if (state.multilineString) {
+    const end = value.indexOf(state.multilineString, i);
+    if (end === -1) {
+      return value.length;
+    }
+    state.multilineString = undefined;
+    return end + 3;
+  }
+  const delimiter = MULTILINE_DELIMITERS.find((candidate) =>
+    value.startsWith(candidate, i)
+  );
+  if (delimiter) {
+    state.multilineString = delimiter;
+    return i + 3;
+  }
+  const char = value[i];
+  if (char === "#") {
+    return value.length;
+  }
+  if (char === '"' || char === "'") {
+    return readQuoted(value, i).end + 1;
+  }
+  if (char === "[" || char === "{") {
+    state.depth++;
+  } else if (char === "]" || char === "}") {
+    state.depth = Math.max(0, state.depth - 1);
+  }
+  return i + 1;
+};
+
+const scanValue = (value: string, state: ValueState): void => {
+  let i = 0;
+  while (i < value.length) {
+    i = scanToken(value, i, state);
+  }
+};
+
+interface Declaration {
+  readonly path: readonly string[];
+  readonly position: TomlSourcePosition;
+}
+
+/**
+ * Walk `text` line by line and collect every table header and key
+ * assignment in declaration order, duplicates included.
+ */
+const scanDeclarations = (text: string): Declaration[] => {
+  const declarations: Declaration[] = [];
+  const arrayCounts = new Map<string, number>();
+  const state: ValueState = { multilineString: undefined, depth: 0 };
+  let prefix: string[] = [];
+
+  text.split(LINE_SPLIT_PATTERN).forEach((rawLine, index) => {
+    const line = index + 1;
+    if (state.multilineString || state.depth > 0) {
+      scanValue(rawLine, state);
+      return;
+    }
+
+    const trimmed = rawLine.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      return;
+    }
+    const position = {
+      line,
+      column: rawLine.length - rawLine.trimStart().length + 1,
+    };
+
+    const arrayTable = ARRAY_TABLE_PATTERN.exec(trimmed);
+    if (arrayTable?.[1] !== undefined) {
+      const tablePath = splitKey(arrayTable[1]);
+      const tableKey = formatKeyPath(tablePath);
+      const nextIndex = arrayCounts.get(tableKey) ?? 0;
+      arrayCounts.set(tableKey, nextIndex + 1);
+      prefix = [...tablePath, String(nextIndex)];
+      declarations.push({ path: tablePath, position });
+      declarations.push({ path: prefix, position });
+      return;
+    }
+
+    const table = TABLE_PATTERN.exec(trimmed);
+    if (table?.[1] !== undefined) {
+      prefix = splitKey(table[1]);
+      declarations.push({ path: prefix, position });
+      return;
+    }
+
+    const equals = findAssignment(rawLine);
+    if (equals === -1) {
+      return;
+    }
+    declarations.push({
+      path: [...prefix, ...splitKey(rawLine.slice(0, equals))],
+      position,
+    });
+    scanValue(rawLine.slice(equals + 1), state);
+  });
+
+  return declarations;
+};
+
+/**
+ * Build a map from dotted key path to the position where that key (or
+ * table header) is first declared in `text`.
+ *
+ * Arrays of tables (`[[servers]]`) are indexed, so the second block is
+ * reported as `servers.1`.
+ */
+export const locateKeys = (
+  text: string
+): ReadonlyMap<string, TomlSourcePosition> => {
+  const positions = new Map<string, TomlSourcePosition>();
+  for (const { path, position } of scanDeclarations(text)) {
+    const key = formatKeyPath(path);
+    if (!positions.has(key)) {
+      positions.set(key, position);
+    }
+  }
+  return positions;
+};
+
+/**
+ * Resolve the closest declared position for `path`.
+ *
+ * Validation failures often point inside a value (an array element, an
+ * inline table field) that has no declaration of its own; in that case the
+ * nearest declared ancestor is used.
+ */
+export const findKeyPosition = (
+  positions: ReadonlyMap<string, TomlSourcePosition>,
+  path: readonly PropertyKey[]
+): TomlSourcePosition | undefined => {
+  for (let length = path.length; length > 0; length--) {
+    const position = positions.get(formatKeyPath(path.slice(0, length)));
+    if (position) {
+      return position;
+    }
+  }
+  return;
+};
+
+/**
+ * Extract the offending line, column and key from a backend parse error
+ * message such as `"... at line 2: b = "`.
+ *
+ * The key is reported as a full dotted path, including the enclosing
+ * table, when the offending line declares one.
+ */
+export const locateParseError = (
+  text: string,
+  message: string
+): { line?: number; column?: number; key?: string } => {
+  const match = LINE_NUMBER_PATTERN.exec(message);
+  if (!match?.[1]) {
+    return {};
+  }
+  const line = Number(match[1]);
+  const lines = text.split(LINE_SPLIT_PATTERN);
+  const source = lines[line - 1];
+  if (source === undefined) {
+    return { line };
+  }
+  const column = source.length - source.trimStart().length + 1;
+  const declaration = scanDeclarations(lines.slice(0, line).join("\n"))
+    .filter((candidate) => candidate.position.line === line)
+    .at(-1);
+  return declaration
+    ? { line, column, key: formatKeyPath(declaration.path) }
+    : { line, column };
+};
@@ -0,0 +1,59 @@
+import { Effect, ParseResult, Schema } from "effect";
+import { extractExpected, formatParseError } from "effect-schema-utils";
+import { TomlValidationError } from "./errors.js";
+import { findKeyPosition, formatKeyPath, locateKeys } from "./positions.js";
+
+/**
+ * Path of the first failing value in a ParseError, as raw segments.
+ */
+const issuePath = (
+  parseError: ParseResult.ParseError
+): readonly PropertyKey[] =>
+  ParseResult.ArrayFormatter.formatErrorSync(parseError)[0]?.path ?? [];
+
+/**
+ * Validate parsed TOML data against schema (for parsing)
+ *
+ * `text` is the source the data was parsed from; it is used to map the
+ * failing key path back to a line and column.
+ */
+export const validateAgainstSchema = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  data: unknown,
+  text: string
+): Effect.Effect<A, TomlValidationError, R> =>
+  Schema.decodeUnknown(schema)(data).pipe(
+    Effect.mapError((parseError) => {
+      const path = issuePath(parseError);
+      const position = findKeyPosition(locateKeys(text), path);
+      return new TomlValidationError({
+        message: `Schema validation failed: ${formatParseError(parseError)}`,
+        keyPath: path.length > 0 ? formatKeyPath(path) : "unknown",
+        line: position?.line,
+        column: position?.column,
+        expected: extractExpected(parseError),
+        actual: data,
+        cause: parseError as unknown as Error | undefined,
+      });
+    })
+  );
+
+/**
+ * Encode a value through schema before stringification
+ */
+export const encodeForStringify = <A, I, R>(
+  schema: Schema.Schema<A, I, R>,
+  value: A
+): Effect.Effect<I, TomlValidationError, R> =>
+  Schema.encode(schema)(value).pipe(
+    Effect.mapError((parseError) => {
+      const path = issuePath(parseError);
+      return new TomlValidationError({
+        message: `Encode validation failed: ${formatParseError(parseError)}`,
+        keyPath: path.length > 0 ? formatKeyPath(path) : "unknown",
+        expected: extractExpected(parseError),
+        actual: value,
+        cause: parseError as unknown as Error | undefined,
+      });
+    })
+  );
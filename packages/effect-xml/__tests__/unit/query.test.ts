@@ -0,0 +1,149 @@
+/**
+ * Query tests for effect-xml
+ *
+ * Tests the XPath-subset select API and namespace resolution
+ */
+
+import { Effect, Either, Option } from "effect";
+import { describe, expect, it } from "vitest";
+import * as xml from "../../src/api.js";
+import {
+  resolveAttributeName,
+  resolveElementName,
+  scopeFor,
+} from "../../src/namespaces.js";
+import { select, selectFirst, textContent } from "../../src/query.js";
+import type { XmlElement } from "../../src/types.js";
+
+const ATOM = "http://www.w3.org/2005/Atom";
+
+const feed = `<feed xmlns="${ATOM}" xmlns:media="http://search.yahoo.com/mrss/">
+  <title>Example</title>
+  <entry id="1"><title>First</title><media:thumbnail url="a.png"/></entry>
+  <entry><title>No id</title></entry>
+  <entry id="3"><title>Third</title><category term="news"/></entry>
+</feed>`;
+
+const parse = (text: string) => Effect.runPromise(xml.parseStringDefault(text));
+const names = (selections: readonly unknown[]) =>
+  selections.map((s) => textContent(s as XmlElement));
+
+describe("XML query", () => {
+  it("should select by absolute path with attribute predicate", async () => {
+    const doc = await parse(feed);
+    const titles = await Effect.runPromise(
+      select(doc, "/feed/entry[@id]/title")
+    );
+    expect(names(titles)).toEqual(["First", "Third"]);
+  });
+
+  it("should select descendants", async () => {
+    const doc = await parse(feed);
+    const titles = await Effect.runPromise(select(doc, "//title"));
+    expect(names(titles)).toEqual(["Example", "First", "No id", "Third"]);
+  });
+
+  it("should support positional and last() predicates", async () => {
+    const doc = await parse(feed);
+    const second = await Effect.runPromise(select(doc, "/feed/entry[2]/title"));
+    const last = await Effect.runPromise(
+      select(doc, "/feed/entry[last()]/title")
+    );
+    expect(names(second)).toEqual(["No id"]);
+    expect(names(last)).toEqual(["Third"]);
+  });
+
+  it("should support attribute value, child and text predicates", async () => {
+    const doc = await parse(feed);
+    const byId = await Effect.runPromise(select(doc, "//entry[@id='3']/@id"));
+    const withCategory = await Effect.runPromise(
+      select(doc, "//entry[category]/title/text()")
+    );
+    const byTitle = await Effect.runPromise(
+      select(doc, "//entry[title='First']/@id")
+    );
+    const byText = await Effect.runPromise(
+      select(doc, "//title[text()='Third']")
+    );
+
+    expect(byId).toEqual(["3"]);
+    expect(withCategory).toEqual(["Third"]);
+    expect(byTitle).toEqual(["1"]);
+    expect(names(byText)).toEqual(["Third"]);
+  });
+
+  it("should match prefixed names by namespace URI", async () => {
+    const doc = await parse(feed);
+    const urls = await Effect.runPromise(
+      select(doc, "//m:thumbnail/@url", {
+        namespaces: { m: "http://search.yahoo.com/mrss/" },
+      })
+    );
+    const atomEntries = await Effect.runPromise(
+      select(doc, "/a:feed/a:entry", { namespaces: { a: ATOM } })
+    );
+    const literal = await Effect.runPromise(select(doc, "//media:*"));
+
+    expect(urls).toEqual(["a.png"]);
+    expect(atomEntries).toHaveLength(3);
+    expect(literal).toHaveLength(1);
+  });
+
+  it("should return the first match as an Option", async () => {
+    const doc = await parse(feed);
+    const first = await Effect.runPromise(selectFirst(doc, "//entry/@id"));
+    const none = await Effect.runPromise(selectFirst(doc, "//missing"));
+    expect(first).toEqual(Option.some("1"));
+    expect(Option.isNone(none)).toBe(true);
+  });
+
+  it("should report syntax errors with a position", async () => {
+    const doc = await parse(feed);
+    const result = await Effect.runPromise(
+      Effect.either(select(doc, "/feed/entry[@id"))
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("XmlQueryError");
+      expect(result.left.expression).toBe("/feed/entry[@id");
+      expect(result.left.position).toBe(15);
+    }
+  });
+
+  it("should reject steps after an attribute step", async () => {
+    const doc = await parse(feed);
+    const result = await Effect.runPromise(
+      Effect.either(select(doc, "/feed/@id/title"))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+
+  describe("namespace resolution", () => {
+    it("should resolve element and attribute names in scope", async () => {
+      const doc = await parse(
+        '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><use xlink:href="#a" x="1"/></svg>'
+      );
+      const rootScope = scopeFor(doc.root);
+      const use = doc.root.children[0] as XmlElement;
+      const useScope = scopeFor(use, rootScope);
+
+      expect(resolveElementName(use.name, useScope)).toEqual({
+        prefix: "",
+        localName: "use",
+        namespaceURI: "http://www.w3.org/2000/svg",
+      });
+      expect(resolveAttributeName("xlink:href", useScope).namespaceURI).toBe(
+        "http://www.w3.org/1999/xlink"
+      );
+      expect(resolveAttributeName("x", useScope).namespaceURI).toBeUndefined();
+    });
+
+    it("should honour default namespace undeclaration", async () => {
+      const doc = await parse('<a xmlns="urn:a"><b xmlns=""/></a>');
+      const b = doc.root.children[0] as XmlElement;
+      const scope = scopeFor(b, scopeFor(doc.root));
+      expect(resolveElementName(b.name, scope).namespaceURI).toBeUndefined();
+    });
+  });
+});
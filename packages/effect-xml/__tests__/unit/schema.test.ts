@@ -0,0 +1,164 @@
+/**
+ * Schema combinator tests for effect-xml
+ *
+ * Tests decoding XmlDocument trees into typed values and encoding them back
+ */
+
+import { Effect, Either, Option, Schema } from "effect";
+import { formatParseError } from "effect-schema-utils";
+import { describe, expect, it } from "vitest";
+import { parseStringDefault, stringifyDefault } from "../../src/api.js";
+import { XmlBackendLayer } from "../../src/backends/XmlBackend.js";
+import * as Xml from "../../src/schema.js";
+
+const Author = Xml.element("author", {
+  name: Xml.childText("name"),
+  email: Xml.optional(Xml.childText("email")),
+});
+
+const Entry = Xml.element("entry", {
+  id: Xml.attr("id", Schema.NumberFromString),
+  lang: Xml.optional(Xml.attr("lang")),
+  title: Xml.childText("title"),
+  author: Xml.child(Author),
+  tags: Xml.children(Xml.element("tag", { value: Xml.text() })),
+});
+
+const Feed = Xml.element("feed", {
+  title: Xml.childText("title"),
+  entries: Xml.children(Entry),
+});
+
+const feedXml = `<feed>
+  <title>Example</title>
+  <entry id="1" lang="en">
+    <title>First</title>
+    <author><name>Ada</name><email>ada@example.com</email></author>
+    <tag>news</tag><tag>tech</tag>
+  </entry>
+  <entry id="2">
+    <title>Second</title>
+    <author><name>Grace</name></author>
+  </entry>
+</feed>`;
+
+const decodeFeed = (text: string) =>
+  Effect.runPromise(
+    Effect.either(
+      Xml.decodeString(Feed)(text).pipe(Effect.provide(XmlBackendLayer))
+    )
+  );
+
+describe("XML schema combinators", () => {
+  it("should decode attributes, child text, children and optionals", async () => {
+    const result = await decodeFeed(feedXml);
+
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      const [first, second] = result.right.entries;
+      expect(result.right.title).toBe("Example");
+      expect(first?.id).toBe(1);
+      expect(first?.lang).toEqual(Option.some("en"));
+      expect(first?.author.email).toEqual(Option.some("ada@example.com"));
+      expect(first?.tags.map((tag) => tag.value)).toEqual(["news", "tech"]);
+      expect(second?.lang).toEqual(Option.none());
+      expect(second?.author.email).toEqual(Option.none());
+      expect(second?.tags).toEqual([]);
+    }
+  });
+
+  it("should report schema failures with the element path", async () => {
+    const result = await decodeFeed(feedXml.replace('id="2"', 'id="two"'));
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("XmlParseError");
+      expect(result.left.path).toBe("/feed/entry[2]/@id");
+    }
+  });
+
+  it("should report missing children with the element path", async () => {
+    const result = await decodeFeed(
+      feedXml.replace("<author><name>Grace</name></author>", "")
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.path).toBe("/feed/entry[2]/author");
+      expect(result.left.message).toContain("<author>");
+    }
+  });
+
+  it("should reject a root element with the wrong name", async () => {
+    const result = await decodeFeed("<rss/>");
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.path).toBe("/rss");
+    }
+  });
+
+  it("should encode values and round-trip them", async () => {
+    const decoded = await decodeFeed(feedXml);
+    if (Either.isLeft(decoded)) {
+      throw new Error("expected decode to succeed");
+    }
+
+    const document = await Effect.runPromise(
+      Xml.encodeDocument(Feed)(decoded.right)
+    );
+    const text = await Effect.runPromise(stringifyDefault(document));
+    const reparsed = await Effect.runPromise(parseStringDefault(text));
+    const again = await Effect.runPromise(Xml.decode(Feed)(reparsed));
+
+    expect(text).toContain('<entry id="1" lang="en"><title>First</title>');
+    expect(text).toContain('<entry id="2"><title>Second</title>');
+    expect(again).toEqual(decoded.right);
+  });
+
+  it("should work as an Effect schema", async () => {
+    const Tag = Xml.element("tag", { value: Xml.text() });
+    const elements = [
+      { name: "tag", attributes: {}, children: ["news"] },
+      { name: "tag", attributes: {}, children: ["tech"] },
+    ];
+
+    const tags = await Effect.runPromise(
+      Schema.decodeUnknown(Schema.Array(Tag))(elements)
+    );
+    const encoded = await Effect.runPromise(
+      Schema.encode(Schema.Array(Tag))(tags)
+    );
+    const invalid = await Effect.runPromise(
+      Effect.either(
+        Schema.decodeUnknown(Schema.Array(Tag))([
+          { name: "label", attributes: {}, children: [] },
+        ])
+      )
+    );
+
+    expect(tags).toEqual([{ value: "news" }, { value: "tech" }]);
+    expect(encoded).toEqual(elements);
+    expect(Either.isLeft(invalid)).toBe(true);
+    if (Either.isLeft(invalid)) {
+      expect(formatParseError(invalid.left)).toContain(
+        "Expected <tag> at /label but found <label>"
+      );
+    }
+  });
+
+  it("should fail encoding values the schema rejects", async () => {
+    const Item = Xml.element("item", {
+      count: Xml.attr("count", Schema.NumberFromString.pipe(Schema.int())),
+    });
+    const result = await Effect.runPromise(
+      Effect.either(Xml.encode(Item)({ count: 1.5 }))
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("XmlStringifyError");
+      expect(result.left.message).toContain("/item/@count");
+    }
+  });
+});
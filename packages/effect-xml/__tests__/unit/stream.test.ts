@@ -0,0 +1,171 @@
+/**
+ * Streaming parser tests for effect-xml
+ *
+ * Tests SAX-style events, chunk boundaries and element subtree streaming
+ */
+
+import { Chunk, Effect, Either, Stream } from "effect";
+import { describe, expect, it } from "vitest";
+import { parseStringDefault } from "../../src/api.js";
+import { parseStream, streamElements } from "../../src/stream.js";
+
+const DOCTYPE_PATTERN = /<!DOCTYPE[^\]]*\]>/;
+
+const chunked = (text: string, size: number) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return Stream.fromIterable(chunks);
+};
+
+const collect = <A, E>(stream: Stream.Stream<A, E>) =>
+  Effect.runPromise(Stream.runCollect(stream).pipe(Effect.map(Chunk.toArray)));
+
+const rss = `<?xml version="1.0"?>
+<!DOCTYPE rss [ <!ENTITY x "y"> ]>
+<rss version="2.0">
+  <!-- channel -->
+  <channel>
+    <item id="1"><title>Tom &amp; Jerry</title><![CDATA[<raw>]]></item>
+    <item id="2"><title>Caf&apos;s</title><link href='a?b=1&amp;c=2'/></item>
+  </channel>
+</rss>`;
+
+describe("XML streaming", () => {
+  describe("parseStream", () => {
+    it("should emit open, text and close events", async () => {
+      const events = await collect(
+        parseStream(Stream.make('<a x="1">hi<b/></a>'))
+      );
+
+      expect(events).toEqual([
+        {
+          _tag: "OpenTag",
+          name: "a",
+          attributes: { x: "1" },
+          selfClosing: false,
+          depth: 0,
+        },
+        { _tag: "Text", text: "hi", depth: 1 },
+        {
+          _tag: "OpenTag",
+          name: "b",
+          attributes: {},
+          selfClosing: true,
+          depth: 1,
+        },
+        { _tag: "CloseTag", name: "b", depth: 1 },
+        { _tag: "CloseTag", name: "a", depth: 0 },
+      ]);
+    });
+
+    it("should produce the same events regardless of chunk size", async () => {
+      const whole = await collect(parseStream(Stream.make(rss)));
+      const merged = (events: typeof whole) => {
+        const result: typeof whole = [];
+        for (const event of events) {
+          const last = result.at(-1);
+          if (event._tag === "Text" && last?._tag === "Text") {
+            result[result.length - 1] = {
+              ...last,
+              text: last.text + event.text,
+            };
+          } else {
+            result.push(event);
+          }
+        }
+        return result;
+      };
+
+      for (const size of [1, 3, 7]) {
+        const events = await collect(parseStream(chunked(rss, size)));
+        expect(merged(events)).toEqual(merged(whole));
+      }
+    });
+
+    it("should decode character references", async () => {
+      const events = await collect(
+        parseStream(chunked("<a>Caf&#233; &#x2603; &lt;</a>", 4))
+      );
+      const text = events
+        .map((event) => (event._tag === "Text" ? event.text : ""))
+        .join("");
+      expect(text).toBe("Café ☃ <");
+    });
+
+    it("should fail on mismatched tags with a position", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          Stream.runDrain(parseStream(Stream.make("<a>\n  <b></a>")))
+        )
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("XmlParseError");
+        expect(result.left.message).toContain("Expected </b>");
+        expect(result.left.message).toContain("line 2");
+      }
+    });
+
+    it("should fail on truncated input", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(Stream.runDrain(parseStream(Stream.make("<a><b>"))))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.message).toContain("Unclosed element <b>");
+      }
+    });
+
+    it("should propagate upstream failures", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          Stream.runDrain(parseStream(Stream.fail("read failed" as const)))
+        )
+      );
+      expect(result).toEqual(Either.left("read failed"));
+    });
+  });
+
+  describe("streamElements", () => {
+    it("should build the same subtrees as parseString", async () => {
+      const items = await collect(streamElements("item")(chunked(rss, 5)));
+      const doc = await Effect.runPromise(
+        parseStringDefault(rss.replace(DOCTYPE_PATTERN, ""))
+      );
+      const channel = doc.root.children.find(
+        (child) => typeof child !== "string"
+      );
+      const expected =
+        channel && typeof channel !== "string"
+          ? channel.children.filter((child) => typeof child !== "string")
+          : [];
+
+      expect(items).toHaveLength(2);
+      expect(items).toEqual(expected);
+      expect(items[0]?.children).toEqual([
+        { name: "title", attributes: {}, children: ["Tom & Jerry"] },
+        "<raw>",
+      ]);
+    });
+
+    it("should pull input lazily", async () => {
+      let pulled = 0;
+      const source = Stream.fromIterable(
+        Array.from({ length: 1000 }, (_, i) =>
+          i === 0 ? "<urlset>" : `<url><loc>${i}</loc></url>`
+        )
+      ).pipe(Stream.tap(() => Effect.sync(() => pulled++)));
+
+      const first = await collect(
+        streamElements("url")(source).pipe(Stream.take(3))
+      );
+
+      expect(first).toHaveLength(3);
+      expect(pulled).toBeLessThan(10);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Serialization tests for effect-xml
+ *
+ * Tests round-tripping, ordered mixed content, escaping and declarations
+ */
+
+import { Effect, Either } from "effect";
+import { describe, expect, it } from "vitest";
+import * as xml from "../../src/api.js";
+import type { XmlDocument } from "../../src/types.js";
+
+const roundTrip = async (text: string) => {
+  const doc = await Effect.runPromise(xml.parseStringDefault(text));
+  const output = await Effect.runPromise(xml.stringifyDefault(doc));
+  const reparsed = await Effect.runPromise(xml.parseStringDefault(output));
+  return { doc, output, reparsed };
+};
+
+describe("XML stringify", () => {
+  it("should reproduce compact documents exactly", async () => {
+    const source =
+      '<feed xmlns="http://www.w3.org/2005/Atom"><entry id="1"><title>Hello</title></entry></feed>';
+    const { output } = await roundTrip(source);
+    expect(output).toBe(source);
+  });
+
+  it("should keep text interleaved with elements in order", async () => {
+    const { doc, output } = await roundTrip(
+      "<p>Hello <b>bold</b> and <i>italic</i>!</p>"
+    );
+
+    expect(doc.root.children).toEqual([
+      "Hello ",
+      { name: "b", attributes: {}, children: ["bold"] },
+      " and ",
+      { name: "i", attributes: {}, children: ["italic"] },
+      "!",
+    ]);
+    expect(output).toBe("<p>Hello <b>bold</b> and <i>italic</i>!</p>");
+  });
+
+  it("should preserve attribute order and namespace prefixes", async () => {
+    const source =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="10" height="20"><use xlink:href="#a"/></svg>';
+    const { doc, output } = await roundTrip(source);
+
+    expect(Object.keys(doc.root.attributes)).toEqual([
+      "xmlns",
+      "xmlns:xlink",
+      "width",
+      "height",
+    ]);
+    expect(output).toBe(source);
+  });
+
+  it("should escape special characters and round-trip them", async () => {
+    const { doc, reparsed, output } = await roundTrip(
+      '<a title="&quot;x&quot; &amp; y">1 &lt; 2 &amp;&amp; 3 &gt; 2</a>'
+    );
+
+    expect(doc.root.children).toEqual(["1 < 2 && 3 > 2"]);
+    expect(doc.root.attributes.title).toBe('"x" & y');
+    expect(output).toBe(
+      '<a title="&quot;x&quot; &amp; y">1 &lt; 2 &amp;&amp; 3 &gt; 2</a>'
+    );
+    expect(reparsed).toEqual(doc);
+  });
+
+  it("should decode character references and round-trip them", async () => {
+    const { doc, reparsed, output } = await roundTrip(
+      '<a v="&#65;&#x42;">&#65;&#x1F600; &amp;#65; <![CDATA[&#65;]]></a>'
+    );
+
+    expect(doc.root.children).toEqual(["A\u{1F600} &#65; &#65;"]);
+    expect(doc.root.attributes.v).toBe("AB");
+    expect(output).toBe('<a v="AB">A\u{1F600} &amp;#65; &amp;#65;</a>');
+    expect(reparsed).toEqual(doc);
+  });
+
+  it("should drop comments", async () => {
+    const { doc, output } = await roundTrip("<a>x<!-- note -->y</a>");
+
+    expect(doc.root.children).toEqual(["xy"]);
+    expect(output).toBe("<a>xy</a>");
+  });
+
+  it("should keep the XML declaration", async () => {
+    const source = '<?xml version="1.0" encoding="UTF-8"?>\n<root/>';
+    const { doc, output } = await roundTrip(source);
+
+    expect(doc.declaration).toEqual({ version: "1.0", encoding: "UTF-8" });
+    expect(output).toBe(source);
+  });
+
+  it("should omit the declaration when asked", async () => {
+    const doc = await Effect.runPromise(
+      xml.parseStringDefault('<?xml version="1.0"?><root/>')
+    );
+    const output = await Effect.runPromise(
+      xml.stringifyDefault(doc, { declaration: false })
+    );
+    expect(output).toBe("<root/>");
+  });
+
+  it("should round-trip whitespace between elements", async () => {
+    const source = "<list>\n  <item>1</item>\n  <item>2</item>\n</list>";
+    const { output } = await roundTrip(source);
+    expect(output).toBe(source);
+  });
+
+  it("should indent element-only content", async () => {
+    const doc: XmlDocument = {
+      root: {
+        name: "list",
+        attributes: {},
+        children: [
+          { name: "item", attributes: {}, children: ["1"] },
+          {
+            name: "group",
+            attributes: {},
+            children: [{ name: "item", attributes: {}, children: [] }],
+          },
+        ],
+      },
+    };
+    const output = await Effect.runPromise(
+      xml.stringifyDefault(doc, { indent: "  " })
+    );
+
+    expect(output).toBe(
+      "<list>\n  <item>1</item>\n  <group>\n    <item/>\n  </group>\n</list>"
+    );
+  });
+
+  it("should fail on invalid element names", async () => {
+    const doc: XmlDocument = {
+      root: { name: "not valid", attributes: {}, children: [] },
+    };
+    const result = await Effect.runPromise(
+      Effect.either(xml.stringifyDefault(doc))
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("XmlStringifyError");
+      expect(result.left.message).toContain("not valid");
+    }
+  });
+});
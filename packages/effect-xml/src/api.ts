@@ -1,8 +1,19 @@
 import { Effect } from "effect";
-import { XmlBackend, XmlBackendLayer } from "@/effect-xml/backends/XmlBackend.js";
-import { XmlParseError } from "@/effect-xml/errors.js";
+import {
+  XmlBackend,
+  XmlBackendLayer,
+} from "@/effect-xml/backends/XmlBackend.js";
+import type { XmlParseError, XmlStringifyError } from "@/effect-xml/errors.js";
+import type { XmlStringifyOptions } from "@/effect-xml/serializer.js";
 import type { XmlDocument } from "@/effect-xml/types.js";
 
+/**
+ * Parses an XML string into an `XmlDocument`.
+ *
+ * Entity and character references are decoded and CDATA sections become
+ * text. Comments, processing instructions and the DOCTYPE are not part of
+ * the document model and are dropped.
+ */
 export const parseString = (
   text: string
 ): Effect.Effect<XmlDocument, XmlParseError, XmlBackend> =>
@@ -12,3 +23,23 @@ export const parseStringDefault = (
   text: string
 ): Effect.Effect<XmlDocument, XmlParseError> =>
   parseString(text).pipe(Effect.provide(XmlBackendLayer));
+
+/**
+ * Serializes an `XmlDocument` to a string.
+ *
+ * Attribute order, namespace prefixes and mixed content are written as
+ * stored, so `parseString(stringify(doc))` yields an equal document.
+ */
+export const stringify = (
+  document: XmlDocument,
+  options?: XmlStringifyOptions
+): Effect.Effect<string, XmlStringifyError, XmlBackend> =>
+  XmlBackend.pipe(
+    Effect.flatMap((backend) => backend.stringify(document, options))
+  );
+
+export const stringifyDefault = (
+  document: XmlDocument,
+  options?: XmlStringifyOptions
+): Effect.Effect<string, XmlStringifyError> =>
+  stringify(document, options).pipe(Effect.provide(XmlBackendLayer));
@@ -1,99 +1,144 @@
 import { Effect } from "effect";
 import { XMLParser, XMLValidator } from "fast-xml-parser";
-import { XmlParseError } from "@/effect-xml/errors.js";
-import type { XmlDocument, XmlElement } from "@/effect-xml/types.js";
-
-type ParsedNode = unknown;
-
-const normalizeToElement = (name: string, node: ParsedNode): XmlElement => {
-  if (node === null || node === undefined) {
-    return {
-      name,
-      attributes: {},
-      children: [],
-    };
-  }
-
-  if (typeof node === "string") {
-    return {
-      name,
-      attributes: {},
-      children: node.length > 0 ? [node] : [],
-    };
-  }
+import { XmlParseError, XmlStringifyError } from "@/effect-xml/errors.js";
+import {
+  decodeEntities,
+  serializeDocument,
+  type XmlStringifyOptions,
+} from "@/effect-xml/serializer.js";
+import type {
+  XmlDeclaration,
+  XmlDocument,
+  XmlElement,
+  XmlNode,
+} from "@/effect-xml/types.js";
+
+/**
+ * A node as produced by fast-xml-parser in `preserveOrder` mode: a single
+ * tag-name key holding the ordered children, plus an optional `:@` group of
+ * attributes. Text nodes use the `#text` key and CDATA sections `#cdata`.
+ * Entities are left as written and decoded here in a single pass, since the
+ * parser does not decode character references such as `&#65;`.
+ */
+type OrderedNode = Record<string, unknown>;
+
+const ATTRIBUTES_KEY = ":@";
+const TEXT_KEY = "#text";
+const CDATA_KEY = "#cdata";
+const DECLARATION_KEY = "?xml";
+
+const nodeName = (node: OrderedNode): string | undefined =>
+  Object.keys(node).find((key) => key !== ATTRIBUTES_KEY);
+
+const normalizeAttributes = (node: OrderedNode): Record<string, string> => {
+  const attributesRaw = node[ATTRIBUTES_KEY];
+  return attributesRaw && typeof attributesRaw === "object"
+    ? Object.fromEntries(
+        Object.entries(attributesRaw as Record<string, unknown>).map(
+          ([k, v]) => [k, decodeEntities(typeof v === "string" ? v : String(v))]
+        )
+      )
+    : {};
+};
 
-  if (typeof node === "number" || typeof node === "boolean") {
-    return {
-      name,
-      attributes: {},
-      children: [String(node)],
-    };
+/** Text of a text node (decoded) or of a CDATA section (verbatim) */
+const textOf = (name: string, node: OrderedNode): string | undefined => {
+  if (name === TEXT_KEY) {
+    return decodeEntities(String(node[TEXT_KEY]));
   }
-
-  if (typeof node !== "object") {
-    return {
-      name,
-      attributes: {},
-      children: [],
-    };
+  if (name === CDATA_KEY) {
+    const [section] = node[CDATA_KEY] as OrderedNode[];
+    return section ? String(section[TEXT_KEY]) : "";
   }
+  return;
+};
 
-  const record = node as Record<string, unknown>;
-  const attributesRaw = record[":@"];
-
-  const attributes: Record<string, string> =
-    attributesRaw && typeof attributesRaw === "object"
-      ? Object.fromEntries(
-          Object.entries(attributesRaw as Record<string, unknown>).map(
-            ([k, v]) => [k, typeof v === "string" ? v : String(v)]
-          )
-        )
-      : {};
-
-  const children: Array<XmlElement | string> = [];
-
-  const text = record["#text"];
-  if (typeof text === "string" && text.length > 0) {
-    children.push(text);
+const normalizeChildren = (nodes: unknown): XmlNode[] => {
+  const children: XmlNode[] = [];
+  if (!Array.isArray(nodes)) {
+    return children;
   }
 
-  for (const [k, v] of Object.entries(record)) {
-    if (k === ":@" || k === "#text") continue;
+  for (const item of nodes as OrderedNode[]) {
+    const name = nodeName(item);
+    if (name === undefined || name.startsWith("?") || name === "#comment") {
+      continue;
+    }
 
-    if (Array.isArray(v)) {
-      for (const item of v) {
-        children.push(normalizeToElement(k, item));
+    const text = textOf(name, item);
+    if (text !== undefined) {
+      if (text.length === 0) {
+        continue;
+      }
+      // Adjacent text and CDATA sections collapse into a single text node
+      const last = children.at(-1);
+      if (typeof last === "string") {
+        children[children.length - 1] = last + text;
+      } else {
+        children.push(text);
       }
       continue;
     }
 
-    children.push(normalizeToElement(k, v));
+    children.push(normalizeElement(name, item));
   }
 
+  return children;
+};
+
+const normalizeElement = (name: string, node: OrderedNode): XmlElement => ({
+  name,
+  attributes: normalizeAttributes(node),
+  children: normalizeChildren(node[name]),
+});
+
+const normalizeDeclaration = (
+  node: OrderedNode | undefined
+): XmlDeclaration | undefined => {
+  if (!node) {
+    return;
+  }
+  const attributes = normalizeAttributes(node);
   return {
-    name,
-    attributes,
-    children,
+    version: attributes.version ?? "1.0",
+    ...(attributes.encoding === undefined
+      ? {}
+      : { encoding: attributes.encoding }),
+    ...(attributes.standalone === undefined
+      ? {}
+      : { standalone: attributes.standalone }),
   };
 };
 
 const normalizeParsed = (parsed: unknown): XmlDocument => {
-  if (parsed === null || typeof parsed !== "object") {
+  if (!Array.isArray(parsed)) {
     throw new Error("XML did not parse into an object");
   }
 
-  const record = parsed as Record<string, unknown>;
-  const keys = Object.keys(record);
-
-  if (keys.length !== 1) {
+  const nodes = parsed as OrderedNode[];
+  const elements = nodes.filter((node) => {
+    const name = nodeName(node);
+    return (
+      name !== undefined &&
+      name !== TEXT_KEY &&
+      name !== CDATA_KEY &&
+      name !== "#comment" &&
+      !name.startsWith("?")
+    );
+  });
+
+  if (elements.length !== 1) {
     throw new Error("XML must have exactly one root element");
   }
 
-  const rootName = keys[0]!;
-  const rootNode = record[rootName];
+  const rootNode = elements[0] as OrderedNode;
+  const declaration = normalizeDeclaration(
+    nodes.find((node) => nodeName(node) === DECLARATION_KEY)
+  );
 
   return {
-    root: normalizeToElement(rootName, rootNode),
+    ...(declaration ? { declaration } : {}),
+    root: normalizeElement(nodeName(rootNode) as string, rootNode),
   };
 };
 
@@ -110,11 +155,14 @@ export class XmlBackend extends Effect.Service<XmlBackend>()("XmlBackend", {
           const parser = new XMLParser({
             ignoreAttributes: false,
             attributeNamePrefix: "",
-            attributesGroupName: ":@",
-            textNodeName: "#text",
+            attributesGroupName: ATTRIBUTES_KEY,
+            textNodeName: TEXT_KEY,
             trimValues: false,
             parseTagValue: false,
             parseAttributeValue: false,
+            processEntities: false,
+            cdataPropName: CDATA_KEY,
+            preserveOrder: true,
           });
 
           const parsed = parser.parse(text);
@@ -125,6 +173,17 @@ export class XmlBackend extends Effect.Service<XmlBackend>()("XmlBackend", {
             message: error instanceof Error ? error.message : "Unknown error",
           }),
       }),
+    stringify: (
+      document: XmlDocument,
+      options?: XmlStringifyOptions
+    ): Effect.Effect<string, XmlStringifyError> =>
+      Effect.try({
+        try: () => serializeDocument(document, options),
+        catch: (error) =>
+          new XmlStringifyError({
+            message: error instanceof Error ? error.message : "Unknown error",
+          }),
+      }),
   },
 }) {}
 
@@ -1,5 +1,21 @@
 import { Data } from "effect";
 
+/**
+ * Raised when XML cannot be parsed, or when a parsed element does not match
+ * a schema. Schema failures carry the element `path` of the offending node
+ * (e.g. `/feed/entry[2]/@id`).
+ */
 export class XmlParseError extends Data.TaggedError("XmlParseError")<{
   readonly message: string;
+  readonly path?: string | undefined;
+}> {}
+
+export class XmlStringifyError extends Data.TaggedError("XmlStringifyError")<{
+  readonly message: string;
+}> {}
+
+export class XmlQueryError extends Data.TaggedError("XmlQueryError")<{
+  readonly message: string;
+  readonly expression: string;
+  readonly position?: number | undefined;
 }> {}
@@ -5,11 +5,48 @@
  */
 
 // Convenience Functions
-export { parseString, parseStringDefault } from "./api.js";
+export {
+  parseString,
+  parseStringDefault,
+  stringify,
+  stringifyDefault,
+} from "./api.js";
 // Backends (for advanced usage)
 export { XmlBackend } from "./backends/XmlBackend.js";
 
 // Errors
-export { XmlParseError } from "./errors.js";
+export { XmlParseError, XmlQueryError, XmlStringifyError } from "./errors.js";
+// Namespaces
+export {
+  getAttributeNS,
+  resolveAttributeName,
+  resolveElementName,
+  rootScope,
+  scopeFor,
+  splitQName,
+  XML_NAMESPACE,
+  XMLNS_NAMESPACE,
+  type XmlNamespaceScope,
+} from "./namespaces.js";
+// Queries
+export {
+  select,
+  selectFirst,
+  textContent,
+  type XmlQueryOptions,
+  type XmlSelection,
+} from "./query.js";
+// Schema combinators
+export * as Xml from "./schema.js";
+export type { XmlStringifyOptions } from "./serializer.js";
+// Streaming
+export { parseStream, streamElements, type XmlEvent } from "./stream.js";
 // Types
-export type { XmlDocument } from "./types.js";
+export type {
+  XmlDeclaration,
+  XmlDocument,
+  XmlElement,
+  XmlNode,
+  XmlQName,
+  XmlText,
+} from "./types.js";
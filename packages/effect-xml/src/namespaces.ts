@@ -0,0 +1,109 @@
+import type { XmlElement, XmlQName } from "@/effect-xml/types.js";
+
+/**
+ * In-scope namespace bindings: prefix (`""` for the default namespace) to
+ * namespace URI.
+ */
+export type XmlNamespaceScope = ReadonlyMap<string, string>;
+
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+export const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+
+/**
+ * The scope in effect above the root element: only the reserved `xml`
+ * prefix is bound.
+ */
+export const rootScope: XmlNamespaceScope = new Map([["xml", XML_NAMESPACE]]);
+
+/**
+ * Split a qualified name into prefix and local name.
+ */
+export const splitQName = (
+  name: string
+): { readonly prefix: string; readonly localName: string } => {
+  const index = name.indexOf(":");
+  return index === -1
+    ? { prefix: "", localName: name }
+    : { prefix: name.slice(0, index), localName: name.slice(index + 1) };
+};
+
+/**
+ * Extend `parent` with the `xmlns` / `xmlns:prefix` declarations on
+ * `element`.
+ */
+export const scopeFor = (
+  element: XmlElement,
+  parent: XmlNamespaceScope = rootScope
+): XmlNamespaceScope => {
+  let scope: Map<string, string> | undefined;
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (name === "xmlns" || name.startsWith("xmlns:")) {
+      scope ??= new Map(parent);
+      const prefix = name === "xmlns" ? "" : name.slice("xmlns:".length);
+      // An empty default declaration (xmlns="") un-declares the namespace
+      if (value === "" && prefix === "") {
+        scope.delete("");
+      } else {
+        scope.set(prefix, value);
+      }
+    }
+  }
+  return scope ?? parent;
+};
+
+/**
+ * Resolve an element name against its in-scope namespaces. Unprefixed
+ * element names take the default namespace.
+ *
+ * `scope` must already include the element's own declarations (see
+ * `scopeFor`).
+ */
+export const resolveElementName = (
+  name: string,
+  scope: XmlNamespaceScope
+): XmlQName => {
+  const { prefix, localName } = splitQName(name);
+  return { prefix, localName, namespaceURI: scope.get(prefix) };
+};
+
+/**
+ * Resolve an attribute name against its element's in-scope namespaces.
+ * Unprefixed attributes are never in a namespace; `xmlns` declarations
+ * belong to the reserved xmlns namespace.
+ */
+export const resolveAttributeName = (
+  name: string,
+  scope: XmlNamespaceScope
+): XmlQName => {
+  const { prefix, localName } = splitQName(name);
+  if (name === "xmlns" || prefix === "xmlns") {
+    return { prefix, localName, namespaceURI: XMLNS_NAMESPACE };
+  }
+  return {
+    prefix,
+    localName,
+    namespaceURI: prefix === "" ? undefined : scope.get(prefix),
+  };
+};
+
+/**
+ * Read an attribute by namespace URI and local name, regardless of the
+ * prefix the document uses for it.
+ */
+export const getAttributeNS = (
+  element: XmlElement,
+  scope: XmlNamespaceScope,
+  namespaceURI: string | undefined,
+  localName: string
+): string | undefined => {
+  for (const [name, value] of Object.entries(element.attributes)) {
+    const resolved = resolveAttributeName(name, scope);
+    if (
+      resolved.localName === localName &&
+      resolved.namespaceURI === namespaceURI
+    ) {
+      return value;
+    }
+  }
+  return;
+};
@@ -0,0 +1,463 @@
+import { Effect, Option } from "effect";
+import { XmlQueryError } from "@/effect-xml/errors.js";
+import {
+  resolveAttributeName,
+  resolveElementName,
+  rootScope,
+  scopeFor,
+  splitQName,
+  type XmlNamespaceScope,
+} from "@/effect-xml/namespaces.js";
+import type { XmlDocument, XmlElement, XmlText } from "@/effect-xml/types.js";
+
+/**
+ * A query result: elements for element steps, strings for trailing
+ * `@attr` and `text()` steps.
+ */
+export type XmlSelection = XmlElement | XmlText;
+
+export interface XmlQueryOptions {
+  /**
+   * Prefix to namespace URI bindings for the expression. A prefixed name
+   * test whose prefix is bound here matches by namespace URI, whatever
+   * prefix the document itself uses. Unbound prefixes match literally.
+   */
+  readonly namespaces?: Readonly<Record<string, string>> | undefined;
+}
+
+type NameTest =
+  | { readonly kind: "any" }
+  | { readonly kind: "name"; readonly name: string }
+  | { readonly kind: "prefixAny"; readonly prefix: string };
+
+type Predicate =
+  | { readonly kind: "position"; readonly index: number }
+  | { readonly kind: "last" }
+  | {
+      readonly kind: "attribute";
+      readonly name: string;
+      readonly value: string | undefined;
+    }
+  | {
+      readonly kind: "child";
+      readonly test: NameTest;
+      readonly value: string | undefined;
+    }
+  | { readonly kind: "text"; readonly value: string };
+
+type Axis = "child" | "descendant";
+
+type Step =
+  | {
+      readonly kind: "element";
+      readonly axis: Axis;
+      readonly test: NameTest;
+      readonly predicates: readonly Predicate[];
+    }
+  | { readonly kind: "attribute"; readonly axis: Axis; readonly name: string }
+  | { readonly kind: "text"; readonly axis: Axis }
+  | { readonly kind: "self" };
+
+interface Context {
+  readonly element: XmlElement;
+  readonly scope: XmlNamespaceScope;
+}
+
+class QuerySyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const NAME_CHAR_PATTERN = /[\p{L}\p{N}_.:-]/u;
+const POSITION_PATTERN = /^\d+/;
+
+/**
+ * Parse the supported XPath subset:
+ *
+ * - `/` (child) and `//` (descendant) steps, `.` for the context node
+ * - name tests: `name`, `prefix:name`, `*`, `prefix:*`
+ * - trailing `@attr` and `text()` steps
+ * - predicates: `[2]`, `[last()]`, `[@attr]`, `[@attr='v']`, `[child]`,
+ *   `[child='v']`, `[text()='v']`
+ */
+const parseExpression = (expression: string): readonly Step[] => {
+  let pos = 0;
+  const steps: Step[] = [];
+
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, pos);
+  };
+  const peek = (text: string) => expression.startsWith(text, pos);
+  const skipSpaces = () => {
+    while (expression[pos] === " ") {
+      pos++;
+    }
+  };
+  const expect = (text: string) => {
+    skipSpaces();
+    if (!peek(text)) {
+      fail(`Expected "${text}"`);
+    }
+    pos += text.length;
+  };
+
+  const readName = (): string => {
+    const start = pos;
+    while (
+      pos < expression.length &&
+      NAME_CHAR_PATTERN.test(expression[pos] as string)
+    ) {
+      pos++;
+    }
+    if (pos === start) {
+      fail("Expected a name");
+    }
+    return expression.slice(start, pos);
+  };
+
+  const readNameTest = (): NameTest => {
+    if (peek("*")) {
+      pos++;
+      return { kind: "any" };
+    }
+    const name = readName();
+    if (name.endsWith(":") && peek("*")) {
+      pos++;
+      return { kind: "prefixAny", prefix: name.slice(0, -1) };
+    }
+    return { kind: "name", name };
+  };
+
+  const readLiteral = (): string => {
+    skipSpaces();
+    const quote = expression[pos];
+    if (quote !== "'" && quote !== '"') {
+      return fail("Expected a quoted string");
+    }
+    const end = expression.indexOf(quote, pos + 1);
+    if (end === -1) {
+      fail("Unterminated string literal");
+    }
+    const value = expression.slice(pos + 1, end);
+    pos = end + 1;
+    return value;
+  };
+
+  const readOptionalValue = (): string | undefined => {
+    skipSpaces();
+    if (!peek("=")) {
+      return;
+    }
+    pos++;
+    return readLiteral();
+  };
+
+  const readPredicate = (): Predicate => {
+    skipSpaces();
+    let predicate: Predicate;
+    const digits = POSITION_PATTERN.exec(expression.slice(pos));
+    if (digits) {
+      pos += digits[0].length;
+      const index = Number(digits[0]);
+      if (index < 1) {
+        fail("Positions start at 1");
+      }
+      predicate = { kind: "position", index };
+    } else if (peek("last()")) {
+      pos += "last()".length;
+      predicate = { kind: "last" };
+    } else if (peek("@")) {
+      pos++;
+      const name = readName();
+      predicate = { kind: "attribute", name, value: readOptionalValue() };
+    } else if (peek("text()")) {
+      pos += "text()".length;
+      expect("=");
+      predicate = { kind: "text", value: readLiteral() };
+    } else {
+      const test = readNameTest();
+      predicate = { kind: "child", test, value: readOptionalValue() };
+    }
+    expect("]");
+    return predicate;
+  };
+
+  const readStep = (axis: Axis): Step => {
+    if (peek("@")) {
+      pos++;
+      return { kind: "attribute", axis, name: readName() };
+    }
+    if (peek("text()")) {
+      pos += "text()".length;
+      return { kind: "text", axis };
+    }
+    if (peek(".") && !peek("..")) {
+      pos++;
+      return { kind: "self" };
+    }
+    const test = readNameTest();
+    const predicates: Predicate[] = [];
+    while (peek("[")) {
+      pos++;
+      predicates.push(readPredicate());
+    }
+    return { kind: "element", axis, test, predicates };
+  };
+
+  if (expression.trim() === "") {
+    fail("Expression must not be empty");
+  }
+
+  const readAxis = (): Axis | undefined => {
+    if (peek("//")) {
+      pos += 2;
+      return "descendant";
+    }
+    if (peek("/")) {
+      pos++;
+      return "child";
+    }
+    return;
+  };
+
+  let axis: Axis = readAxis() ?? "child";
+  for (;;) {
+    const step = readStep(axis);
+    steps.push(step);
+    if (pos >= expression.length) {
+      break;
+    }
+    if (step.kind === "attribute" || step.kind === "text") {
+      fail(`"${step.kind === "text" ? "text()" : "@"}" must be the last step`);
+    }
+    axis = readAxis() ?? fail(`Unexpected "${expression[pos]}"`);
+  }
+
+  return steps;
+};
+
+const elementChildren = (context: Context): Context[] =>
+  context.element.children
+    .filter((child): child is XmlElement => typeof child !== "string")
+    .map((element) => ({ element, scope: scopeFor(element, context.scope) }));
+
+const descendantsOrSelf = (context: Context): Context[] => [
+  context,
+  ...elementChildren(context).flatMap(descendantsOrSelf),
+];
+
+/**
+ * Concatenated text of an element and all of its descendants.
+ */
+export const textContent = (element: XmlElement): string =>
+  element.children
+    .map((child) => (typeof child === "string" ? child : textContent(child)))
+    .join("");
+
+const matchesPrefixed = (
+  resolved: {
+    readonly localName: string;
+    readonly namespaceURI: string | undefined;
+  },
+  name: string,
+  rawName: string,
+  options: XmlQueryOptions
+): boolean => {
+  const { prefix, localName } = splitQName(name);
+  const uri = prefix === "" ? undefined : options.namespaces?.[prefix];
+  if (uri === undefined) {
+    return rawName === name;
+  }
+  return resolved.namespaceURI === uri && resolved.localName === localName;
+};
+
+const matchesTest = (
+  test: NameTest,
+  context: Context,
+  options: XmlQueryOptions
+): boolean => {
+  const resolved = resolveElementName(context.element.name, context.scope);
+  switch (test.kind) {
+    case "any":
+      return true;
+    case "prefixAny": {
+      const uri = options.namespaces?.[test.prefix];
+      return uri === undefined
+        ? resolved.prefix === test.prefix
+        : resolved.namespaceURI === uri;
+    }
+    case "name":
+      return matchesPrefixed(
+        resolved,
+        test.name,
+        context.element.name,
+        options
+      );
+    default:
+      return false;
+  }
+};
+
+const attributeValue = (
+  context: Context,
+  name: string,
+  options: XmlQueryOptions
+): string | undefined => {
+  for (const [rawName, value] of Object.entries(context.element.attributes)) {
+    const resolved = resolveAttributeName(rawName, context.scope);
+    if (matchesPrefixed(resolved, name, rawName, options)) {
+      return value;
+    }
+  }
+  return;
+};
+
+const applyPredicate = (
+  candidates: readonly Context[],
+  predicate: Predicate,
+  options: XmlQueryOptions
+): Context[] => {
+  switch (predicate.kind) {
+    case "position": {
+      const candidate = candidates[predicate.index - 1];
+      return candidate ? [candidate] : [];
+    }
+    case "last":
+      return candidates.slice(-1);
+    case "attribute":
+      return candidates.filter((candidate) => {
+        const value = attributeValue(candidate, predicate.name, options);
+        return predicate.value === undefined
+          ? value !== undefined
+          : value === predicate.value;
+      });
+    case "text":
+      return candidates.filter(
+        (candidate) => textContent(candidate.element) === predicate.value
+      );
+    case "child":
+      return candidates.filter((candidate) =>
+        elementChildren(candidate).some(
+          (child) =>
+            matchesTest(predicate.test, child, options) &&
+            (predicate.value === undefined ||
+              textContent(child.element) === predicate.value)
+        )
+      );
+    default:
+      return [];
+  }
+};
+
+const unique = <A>(items: readonly A[], key: (item: A) => unknown): A[] => {
+  const seen = new Set<unknown>();
+  return items.filter((item) => {
+    const id = key(item);
+    if (seen.has(id)) {
+      return false;
+    }
+    seen.add(id);
+    return true;
+  });
+};
+
+const evaluate = (
+  document: XmlDocument,
+  steps: readonly Step[],
+  options: XmlQueryOptions
+): XmlSelection[] => {
+  // The document node: its only child is the root element
+  let contexts: Context[] = [
+    {
+      element: { name: "#document", attributes: {}, children: [document.root] },
+      scope: rootScope,
+    },
+  ];
+
+  for (const step of steps) {
+    if (step.kind === "self") {
+      continue;
+    }
+    const bases =
+      step.axis === "descendant"
+        ? unique(contexts.flatMap(descendantsOrSelf), (c) => c.element)
+        : contexts;
+
+    if (step.kind === "attribute") {
+      return bases.flatMap((context) => {
+        const value = attributeValue(context, step.name, options);
+        return value === undefined ? [] : [value];
+      });
+    }
+    if (step.kind === "text") {
+      return bases.flatMap((context) =>
+        context.element.children.filter(
+          (child): child is XmlText => typeof child === "string"
+        )
+      );
+    }
+
+    contexts = unique(
+      bases.flatMap((context) =>
+        step.predicates.reduce(
+          (candidates, predicate) =>
+            applyPredicate(candidates, predicate, options),
+          elementChildren(context).filter((child) =>
+            matchesTest(step.test, child, options)
+          )
+        )
+      ),
+      (c) => c.element
+    );
+  }
+
+  return contexts.map((context) => context.element);
+};
+
+/**
+ * Select nodes from a document with an XPath-style expression.
+ *
+ * Supports `/` and `//` steps, `*` and `prefix:*` wildcards, positional,
+ * attribute, child and text predicates, and a trailing `@attr` or `text()`
+ * step. Relative expressions are evaluated from the document node, so
+ * `feed/entry` and `/feed/entry` are equivalent.
+ *
+ * @example
+ * ```typescript
+ * const titles = yield* select(doc, "/feed/entry[@id]/title")
+ * const links = yield* select(doc, "//atom:link/@href", {
+ *   namespaces: { atom: "http://www.w3.org/2005/Atom" },
+ * })
+ * ```
+ */
+export const select = (
+  document: XmlDocument,
+  expression: string,
+  options: XmlQueryOptions = {}
+): Effect.Effect<readonly XmlSelection[], XmlQueryError> =>
+  Effect.try({
+    try: () => evaluate(document, parseExpression(expression), options),
+    catch: (error) =>
+      new XmlQueryError({
+        message: error instanceof Error ? error.message : "Unknown error",
+        expression,
+        position:
+          error instanceof QuerySyntaxError ? error.position : undefined,
+      }),
+  });
+
+/**
+ * Select the first matching node, if any.
+ */
+export const selectFirst = (
+  document: XmlDocument,
+  expression: string,
+  options: XmlQueryOptions = {}
+): Effect.Effect<Option.Option<XmlSelection>, XmlQueryError> =>
+  select(document, expression, options).pipe(
+    Effect.map((selections) => Option.fromNullable(selections[0]))
+  );
@@ -0,0 +1,404 @@
+/**
+ * Schema combinators that map Effect schemas onto XML elements, attributes
+ * and text nodes.
+ *
+ * @example
+ * ```typescript
+ * import { Xml } from "effect-xml"
+ *
+ * const Entry = Xml.element("entry", {
+ *   id: Xml.attr("id", Schema.NumberFromString),
+ *   title: Xml.childText("title"),
+ *   tags: Xml.children(Xml.element("tag", { value: Xml.text() })),
+ * })
+ *
+ * const entry = yield* Xml.decode(Entry)(element)
+ * const element = yield* Xml.encode(Entry)(entry)
+ * const entries = yield* Schema.decodeUnknown(Schema.Array(Entry))(elements)
+ * ```
+ */
+
+import { Effect, Option, ParseResult, Schema } from "effect";
+import { formatParseError } from "effect-schema-utils";
+import { XmlBackend } from "@/effect-xml/backends/XmlBackend.js";
+import { XmlParseError, XmlStringifyError } from "@/effect-xml/errors.js";
+import { textContent } from "@/effect-xml/query.js";
+import type { XmlDocument, XmlElement, XmlNode } from "@/effect-xml/types.js";
+
+/**
+ * A schema that reads from and writes to an XML string value.
+ */
+export type XmlValueSchema<A> = Schema.Schema<A, string, never>;
+
+interface DecodeContext {
+  readonly element: XmlElement;
+  readonly path: string;
+}
+
+interface EncodeTarget {
+  readonly attributes: Record<string, string>;
+  readonly children: XmlNode[];
+  readonly path: string;
+}
+
+/**
+ * A single mapping from part of an element to a value of type `A`.
+ */
+export interface XmlField<A> {
+  readonly _tag: "XmlField";
+  /** Whether the element has the node this field reads */
+  readonly isPresent: (element: XmlElement) => boolean;
+  readonly decode: (context: DecodeContext) => Effect.Effect<A, XmlParseError>;
+  readonly encode: (
+    value: A,
+    target: EncodeTarget
+  ) => Effect.Effect<void, XmlStringifyError>;
+}
+
+/**
+ * A schema for a whole element: decodes an `XmlElement` with the element's
+ * name into `A`, and encodes `A` back. It works anywhere in
+ * `effect/Schema`, failing with a `ParseError`; `decode` and `encode` below
+ * report failures as XML errors carrying the element path instead.
+ */
+export interface XmlElementSchema<A> extends Schema.Schema<A, XmlElement> {
+  readonly elementName: string;
+  readonly decodeElement: (
+    element: XmlElement,
+    path: string
+  ) => Effect.Effect<A, XmlParseError>;
+  readonly encodeElement: (
+    value: A,
+    path: string
+  ) => Effect.Effect<XmlElement, XmlStringifyError>;
+}
+
+const isXmlElement = (input: unknown): input is XmlElement =>
+  typeof input === "object" &&
+  input !== null &&
+  typeof (input as XmlElement).name === "string" &&
+  typeof (input as XmlElement).attributes === "object" &&
+  Array.isArray((input as XmlElement).children);
+
+/**
+ * Element trees as produced by the parser. Only the element itself is
+ * checked; its children are checked by the fields that read them.
+ */
+const XmlElementFromSelf = Schema.declare(isXmlElement, {
+  identifier: "XmlElement",
+});
+
+// biome-ignore lint/suspicious/noExplicitAny: field value types are heterogeneous
+type XmlFields = Readonly<Record<string, XmlField<any>>>;
+
+type FieldsType<F extends XmlFields> = {
+  readonly [K in keyof F]: F[K] extends XmlField<infer A> ? A : never;
+};
+
+const childElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && child.name === name
+  );
+
+const decodeValue = <A>(
+  schema: XmlValueSchema<A>,
+  raw: string,
+  path: string
+): Effect.Effect<A, XmlParseError> =>
+  Schema.decodeUnknown(schema)(raw).pipe(
+    Effect.mapError(
+      (error) =>
+        new XmlParseError({
+          message: `Invalid value at ${path}: ${formatParseError(error)}`,
+          path,
+        })
+    )
+  );
+
+const encodeValue = <A>(
+  schema: XmlValueSchema<A>,
+  value: A,
+  path: string
+): Effect.Effect<string, XmlStringifyError> =>
+  Schema.encode(schema)(value).pipe(
+    Effect.mapError(
+      (error) =>
+        new XmlStringifyError({
+          message: `Invalid value at ${path}: ${formatParseError(error)}`,
+        })
+    )
+  );
+
+const missing = (path: string, what: string) =>
+  Effect.fail(
+    new XmlParseError({ message: `Missing ${what} at ${path}`, path })
+  );
+
+/**
+ * Map an attribute of the current element.
+ */
+export const attr = <A = string>(
+  name: string,
+  schema: XmlValueSchema<A> = Schema.String as unknown as XmlValueSchema<A>
+): XmlField<A> => ({
+  _tag: "XmlField",
+  isPresent: (element) => element.attributes[name] !== undefined,
+  decode: ({ element, path }) => {
+    const raw = element.attributes[name];
+    const attributePath = `${path}/@${name}`;
+    return raw === undefined
+      ? missing(attributePath, `attribute "${name}"`)
+      : decodeValue(schema, raw, attributePath);
+  },
+  encode: (value, target) =>
+    encodeValue(schema, value, `${target.path}/@${name}`).pipe(
+      Effect.flatMap((raw) =>
+        Effect.sync(() => {
+          target.attributes[name] = raw;
+        })
+      )
+    ),
+});
+
+/**
+ * Map the text content of the current element.
+ */
+export const text = <A = string>(
+  schema: XmlValueSchema<A> = Schema.String as unknown as XmlValueSchema<A>
+): XmlField<A> => ({
+  _tag: "XmlField",
+  isPresent: () => true,
+  decode: ({ element, path }) =>
+    decodeValue(schema, textContent(element), `${path}/text()`),
+  encode: (value, target) =>
+    encodeValue(schema, value, `${target.path}/text()`).pipe(
+      Effect.flatMap((raw) =>
+        Effect.sync(() => {
+          if (raw.length > 0) {
+            target.children.push(raw);
+          }
+        })
+      )
+    ),
+});
+
+/**
+ * Map the text content of the first child element named `name`.
+ */
+export const childText = <A = string>(
+  name: string,
+  schema: XmlValueSchema<A> = Schema.String as unknown as XmlValueSchema<A>
+): XmlField<A> => ({
+  _tag: "XmlField",
+  isPresent: (element) => childElements(element, name).length > 0,
+  decode: ({ element, path }) => {
+    const [child] = childElements(element, name);
+    const childPath = `${path}/${name}`;
+    return child === undefined
+      ? missing(childPath, `element <${name}>`)
+      : decodeValue(schema, textContent(child), childPath);
+  },
+  encode: (value, target) =>
+    encodeValue(schema, value, `${target.path}/${name}`).pipe(
+      Effect.flatMap((raw) =>
+        Effect.sync(() => {
+          target.children.push({
+            name,
+            attributes: {},
+            children: raw.length > 0 ? [raw] : [],
+          });
+        })
+      )
+    ),
+});
+
+/**
+ * Map the first child element matching `schema`.
+ */
+export const child = <A>(schema: XmlElementSchema<A>): XmlField<A> => ({
+  _tag: "XmlField",
+  isPresent: (element) => childElements(element, schema.elementName).length > 0,
+  decode: ({ element, path }) => {
+    const [first] = childElements(element, schema.elementName);
+    const childPath = `${path}/${schema.elementName}`;
+    return first === undefined
+      ? missing(childPath, `element <${schema.elementName}>`)
+      : schema.decodeElement(first, childPath);
+  },
+  encode: (value, target) =>
+    schema.encodeElement(value, `${target.path}/${schema.elementName}`).pipe(
+      Effect.flatMap((element) =>
+        Effect.sync(() => {
+          target.children.push(element);
+        })
+      )
+    ),
+});
+
+/**
+ * Map every child element matching `schema`, in document order.
+ */
+export const children = <A>(
+  schema: XmlElementSchema<A>
+): XmlField<readonly A[]> => ({
+  _tag: "XmlField",
+  isPresent: () => true,
+  decode: ({ element, path }) =>
+    Effect.forEach(childElements(element, schema.elementName), (item, index) =>
+      schema.decodeElement(item, `${path}/${schema.elementName}[${index + 1}]`)
+    ),
+  encode: (values, target) =>
+    Effect.forEach(
+      values,
+      (value, index) =>
+        schema
+          .encodeElement(
+            value,
+            `${target.path}/${schema.elementName}[${index + 1}]`
+          )
+          .pipe(
+            Effect.flatMap((element) =>
+              Effect.sync(() => {
+                target.children.push(element);
+              })
+            )
+          ),
+      { discard: true }
+    ),
+});
+
+/**
+ * Make a field optional: a missing attribute or child decodes to
+ * `Option.none()`, and `Option.none()` is omitted when encoding.
+ */
+export const optional = <A>(
+  field: XmlField<A>
+): XmlField<Option.Option<A>> => ({
+  _tag: "XmlField",
+  isPresent: () => true,
+  decode: (context) =>
+    field.isPresent(context.element)
+      ? field.decode(context).pipe(Effect.map(Option.some))
+      : Effect.succeed(Option.none()),
+  encode: (value, target) =>
+    Option.match(value, {
+      onNone: () => Effect.void,
+      onSome: (inner) => field.encode(inner, target),
+    }),
+});
+
+/**
+ * Define an element schema from its name and a struct of fields.
+ *
+ * Fields are encoded in declaration order, so the struct also determines
+ * the order of attributes and child elements in the output.
+ */
+export const element = <F extends XmlFields>(
+  name: string,
+  fields: F
+): XmlElementSchema<FieldsType<F>> => {
+  const decodeElement = (
+    input: XmlElement,
+    path: string
+  ): Effect.Effect<FieldsType<F>, XmlParseError> => {
+    if (input.name !== name) {
+      return Effect.fail(
+        new XmlParseError({
+          message: `Expected <${name}> at ${path} but found <${input.name}>`,
+          path,
+        })
+      );
+    }
+    const context: DecodeContext = { element: input, path };
+    return Effect.all(
+      Object.fromEntries(
+        Object.entries(fields).map(([key, field]) => [
+          key,
+          field.decode(context),
+        ])
+      )
+    ) as Effect.Effect<FieldsType<F>, XmlParseError>;
+  };
+
+  const encodeElement = (
+    value: FieldsType<F>,
+    path: string
+  ): Effect.Effect<XmlElement, XmlStringifyError> => {
+    const target: EncodeTarget = { attributes: {}, children: [], path };
+    return Effect.forEach(
+      Object.entries(fields),
+      ([key, field]) => field.encode(value[key], target),
+      { discard: true }
+    ).pipe(
+      Effect.as<XmlElement>({
+        name,
+        attributes: target.attributes,
+        children: target.children,
+      })
+    );
+  };
+
+  const schema = Schema.transformOrFail(
+    XmlElementFromSelf,
+    Schema.Any as Schema.Schema<FieldsType<F>>,
+    {
+      strict: true,
+      decode: (input, _, ast) =>
+        decodeElement(input, `/${input.name}`).pipe(
+          Effect.mapError(
+            (error) => new ParseResult.Type(ast, input, error.message)
+          )
+        ),
+      encode: (value, _, ast) =>
+        encodeElement(value, `/${name}`).pipe(
+          Effect.mapError(
+            (error) => new ParseResult.Type(ast, value, error.message)
+          )
+        ),
+    }
+  );
+
+  return Object.assign(schema, {
+    elementName: name,
+    decodeElement,
+    encodeElement,
+  });
+};
+
+/**
+ * Decode an element (or a document's root element) with `schema`.
+ */
+export const decode =
+  <A>(schema: XmlElementSchema<A>) =>
+  (input: XmlDocument | XmlElement): Effect.Effect<A, XmlParseError> => {
+    const root = "root" in input ? input.root : input;
+    return schema.decodeElement(root, `/${root.name}`);
+  };
+
+/**
+ * Parse an XML string and decode its root element with `schema`.
+ */
+export const decodeString =
+  <A>(schema: XmlElementSchema<A>) =>
+  (text: string): Effect.Effect<A, XmlParseError, XmlBackend> =>
+    XmlBackend.pipe(
+      Effect.flatMap((backend) => backend.parseString(text)),
+      Effect.flatMap(decode(schema))
+    );
+
+/**
+ * Encode a value to an element with `schema`.
+ */
+export const encode =
+  <A>(schema: XmlElementSchema<A>) =>
+  (value: A): Effect.Effect<XmlElement, XmlStringifyError> =>
+    schema.encodeElement(value, `/${schema.elementName}`);
+
+/**
+ * Encode a value to a document whose root element is described by `schema`.
+ */
+export const encodeDocument =
+  <A>(schema: XmlElementSchema<A>) =>
+  (value: A): Effect.Effect<XmlDocument, XmlStringifyError> =>
+    encode(schema)(value).pipe(Effect.map((root) => ({ root })));
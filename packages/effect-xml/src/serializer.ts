@@ -0,0 +1,145 @@
+import type {
+  XmlDeclaration,
+  XmlDocument,
+  XmlElement,
+  XmlNode,
+} from "@/effect-xml/types.js";
+
+/**
+ * Options for serializing an `XmlDocument`.
+ */
+export interface XmlStringifyOptions {
+  /**
+   * Emit the `<?xml ...?>` declaration. Defaults to `true` when the document
+   * has one.
+   */
+  readonly declaration?: boolean | undefined;
+  /**
+   * Indent element-only content with this string. Whitespace-only text
+   * between elements is replaced by the indentation; mixed content is left
+   * untouched. When omitted, text is written exactly as parsed.
+   */
+  readonly indent?: string | undefined;
+}
+
+const NAME_PATTERN =
+  /^[\p{L}_][\p{L}\p{N}_.-]*(?::[\p{L}_][\p{L}\p{N}_.-]*)?$/u;
+const WHITESPACE_PATTERN = /^\s*$/;
+const ENTITY_PATTERN = /&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g;
+
+const NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const assertName = (name: string): void => {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid XML name: "${name}"`);
+  }
+};
+
+/**
+ * Decodes the predefined entities and character references in one pass,
+ * the inverse of `escapeText` and `escapeAttribute`. Other entity
+ * references are left as written.
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(ENTITY_PATTERN, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+
+export const escapeText = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const escapeAttribute = (value: string): string =>
+  escapeText(value).replace(/"/g, "&quot;");
+
+const serializeAttributes = (element: XmlElement): string =>
+  Object.entries(element.attributes)
+    .map(([name, value]) => {
+      assertName(name);
+      return ` ${name}="${escapeAttribute(value)}"`;
+    })
+    .join("");
+
+const isElementOnly = (children: readonly XmlNode[]): boolean =>
+  children.some((child) => typeof child !== "string") &&
+  children.every(
+    (child) => typeof child !== "string" || WHITESPACE_PATTERN.test(child)
+  );
+
+const serializeElement = (
+  element: XmlElement,
+  indent: string | undefined,
+  depth: number
+): string => {
+  assertName(element.name);
+  const open = `<${element.name}${serializeAttributes(element)}`;
+  if (element.children.length === 0) {
+    return `${open}/>`;
+  }
+
+  if (indent !== undefined && isElementOnly(element.children)) {
+    const inner = element.children
+      .filter((child): child is XmlElement => typeof child !== "string")
+      .map(
+        (child) =>
+          `\n${indent.repeat(depth + 1)}${serializeElement(child, indent, depth + 1)}`
+      )
+      .join("");
+    return `${open}>${inner}\n${indent.repeat(depth)}</${element.name}>`;
+  }
+
+  const inner = element.children
+    .map((child) =>
+      typeof child === "string"
+        ? escapeText(child)
+        : serializeElement(child, indent, depth + 1)
+    )
+    .join("");
+  return `${open}>${inner}</${element.name}>`;
+};
+
+const serializeDeclaration = (declaration: XmlDeclaration): string => {
+  const encoding =
+    declaration.encoding === undefined
+      ? ""
+      : ` encoding="${escapeAttribute(declaration.encoding)}"`;
+  const standalone =
+    declaration.standalone === undefined
+      ? ""
+      : ` standalone="${escapeAttribute(declaration.standalone)}"`;
+  return `<?xml version="${escapeAttribute(declaration.version)}"${encoding}${standalone}?>`;
+};
+
+/**
+ * Serialize a document to an XML string.
+ *
+ * Element and attribute names are written exactly as stored (including any
+ * namespace prefix), so `xmlns` declarations round-trip unchanged.
+ *
+ * @throws Error if an element or attribute name is not a valid XML name
+ */
+export const serializeDocument = (
+  document: XmlDocument,
+  options: XmlStringifyOptions = {}
+): string => {
+  const body = serializeElement(document.root, options.indent, 0);
+  const includeDeclaration = options.declaration ?? true;
+  if (includeDeclaration && document.declaration) {
+    return `${serializeDeclaration(document.declaration)}\n${body}`;
+  }
+  if (options.declaration === true) {
+    return `${serializeDeclaration({ version: "1.0", encoding: "UTF-8" })}\n${body}`;
+  }
+  return body;
+};
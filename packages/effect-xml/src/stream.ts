@@ -0,0 +1,392 @@
+import { Effect, Stream } from "effect";
+import { XmlParseError } from "@/effect-xml/errors.js";
+import { decodeEntities } from "@/effect-xml/serializer.js";
+import type { XmlElement, XmlNode } from "@/effect-xml/types.js";
+
+/**
+ * A parse event emitted by `parseStream`.
+ *
+ * Self-closing tags produce an `OpenTag` with `selfClosing: true` followed
+ * by a matching `CloseTag`. CDATA sections are reported as `Text`;
+ * comments, processing instructions and DOCTYPE declarations are skipped.
+ */
+export type XmlEvent =
+  | {
+      readonly _tag: "OpenTag";
+      readonly name: string;
+      readonly attributes: Readonly<Record<string, string>>;
+      readonly selfClosing: boolean;
+      /** Nesting depth, 0 for the root element */
+      readonly depth: number;
+    }
+  | { readonly _tag: "CloseTag"; readonly name: string; readonly depth: number }
+  | { readonly _tag: "Text"; readonly text: string; readonly depth: number };
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const TAG_NAME_PATTERN = /^[^\s/>]+/;
+const WHITESPACE_PATTERN = /^\s*$/;
+
+/**
+ * Index of the `>` that closes a start tag beginning at `start`, skipping
+ * quoted attribute values, or -1 if the buffer does not contain it yet.
+ */
+const findTagEnd = (buffer: string, start: number): number => {
+  let quote: string | undefined;
+  for (let i = start; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Incremental tokenizer. `push` consumes as much of the buffered input as
+ * forms complete tokens and keeps the remainder for the next chunk.
+ */
+class XmlTokenizer {
+  private buffer = "";
+  private line = 1;
+  private column = 1;
+  private sawRoot = false;
+  private readonly open: string[] = [];
+  private events: XmlEvent[] = [];
+
+  push(chunk: string): XmlEvent[] {
+    this.buffer += chunk;
+    return this.drain(false);
+  }
+
+  end(): XmlEvent[] {
+    const events = this.drain(true);
+    if (this.open.length > 0) {
+      this.fail(`Unclosed element <${this.open.at(-1)}>`);
+    }
+    if (!this.sawRoot) {
+      this.fail("XML must have exactly one root element");
+    }
+    return events;
+  }
+
+  private fail(message: string): never {
+    throw new XmlParseError({
+      message: `${message} (line ${this.line}, column ${this.column})`,
+    });
+  }
+
+  private advance(length: number): void {
+    const consumed = this.buffer.slice(0, length);
+    const lastNewline = consumed.lastIndexOf("\n");
+    if (lastNewline === -1) {
+      this.column += consumed.length;
+    } else {
+      this.line += consumed.split("\n").length - 1;
+      this.column = consumed.length - lastNewline;
+    }
+    this.buffer = this.buffer.slice(length);
+  }
+
+  private drain(final: boolean): XmlEvent[] {
+    this.events = [];
+    while (this.buffer.length > 0) {
+      const consumed = this.buffer.startsWith("<")
+        ? this.markup()
+        : this.textRun(final);
+      if (!consumed) {
+        if (final) {
+          this.fail("Unexpected end of input inside markup");
+        }
+        break;
+      }
+    }
+    return this.events;
+  }
+
+  /**
+   * Consume character data up to the next `<`. A trailing partial entity
+   * is held back until the next chunk arrives.
+   */
+  private textRun(final: boolean): boolean {
+    const lt = this.buffer.indexOf("<");
+    let available = lt === -1 ? this.buffer.length : lt;
+    if (lt === -1 && !final) {
+      const amp = this.buffer.lastIndexOf("&");
+      if (amp !== -1 && !this.buffer.includes(";", amp)) {
+        available = amp;
+      }
+    }
+    if (available === 0) {
+      return false;
+    }
+    this.text(decodeEntities(this.buffer.slice(0, available)));
+    this.advance(available);
+    return true;
+  }
+
+  private text(raw: string): void {
+    if (raw.length === 0) {
+      return;
+    }
+    if (this.open.length === 0) {
+      if (!WHITESPACE_PATTERN.test(raw)) {
+        this.fail("Text is not allowed outside the root element");
+      }
+      return;
+    }
+    this.events.push({ _tag: "Text", text: raw, depth: this.open.length });
+  }
+
+  /**
+   * Consume a `prefix ... suffix` construct, or return false if the
+   * buffer does not contain the suffix yet.
+   */
+  private delimited(
+    prefix: string,
+    suffix: string,
+    onMatch?: (content: string) => void
+  ): boolean {
+    const end = this.buffer.indexOf(suffix, prefix.length);
+    if (end === -1) {
+      return false;
+    }
+    onMatch?.(this.buffer.slice(prefix.length, end));
+    this.advance(end + suffix.length);
+    return true;
+  }
+
+  /**
+   * Consume one markup construct at the start of the buffer. Returns false
+   * when more input is needed.
+   */
+  private markup(): boolean {
+    const buffer = this.buffer;
+    if (buffer.startsWith("<!--")) {
+      return this.delimited("<!--", "-->");
+    }
+    if (buffer.startsWith("<![CDATA[")) {
+      return this.delimited("<![CDATA[", "]]>", (content) =>
+        this.text(content)
+      );
+    }
+    if (buffer.startsWith("<?")) {
+      return this.delimited("<?", "?>");
+    }
+    if (buffer.startsWith("<!")) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = buffer.indexOf("[");
+      const close = buffer.indexOf(">");
+      return bracket !== -1 && (close === -1 || bracket < close)
+        ? this.delimited("<!", "]>")
+        : this.delimited("<!", ">");
+    }
+    const end = buffer.length < 2 ? -1 : findTagEnd(buffer, 1);
+    if (end === -1) {
+      return false;
+    }
+    const inner = buffer.slice(1, end);
+    if (inner.startsWith("/")) {
+      this.endTag(inner);
+    } else {
+      this.startTag(inner);
+    }
+    this.advance(end + 1);
+    return true;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const rest = source.replace(
+      ATTRIBUTE_PATTERN,
+      (_, name: string, double?: string, single?: string) => {
+        if (name in attributes) {
+          this.fail(`Duplicate attribute "${name}"`);
+        }
+        attributes[name] = decodeEntities(double ?? single ?? "");
+        return "";
+      }
+    );
+    if (!WHITESPACE_PATTERN.test(rest)) {
+      this.fail(`Malformed attributes "${rest.trim()}"`);
+    }
+    return attributes;
+  }
+
+  private startTag(inner: string): void {
+    const selfClosing = inner.endsWith("/");
+    const body = selfClosing ? inner.slice(0, -1) : inner;
+    const name =
+      TAG_NAME_PATTERN.exec(body)?.[0] ?? this.fail("Missing tag name");
+    if (this.open.length === 0) {
+      if (this.sawRoot) {
+        this.fail("XML must have exactly one root element");
+      }
+      this.sawRoot = true;
+    }
+    const depth = this.open.length;
+    this.events.push({
+      _tag: "OpenTag",
+      name,
+      attributes: this.parseAttributes(body.slice(name.length)),
+      selfClosing,
+      depth,
+    });
+    if (selfClosing) {
+      this.events.push({ _tag: "CloseTag", name, depth });
+    } else {
+      this.open.push(name);
+    }
+  }
+
+  private endTag(inner: string): void {
+    const name = inner.slice(1).trim();
+    const expected = this.open.pop();
+    if (expected === undefined) {
+      this.fail(`Unexpected closing tag </${name}>`);
+    }
+    if (expected !== name) {
+      this.fail(`Expected </${expected}> but found </${name}>`);
+    }
+    this.events.push({ _tag: "CloseTag", name, depth: this.open.length });
+  }
+}
+
+const toParseError = (error: unknown): XmlParseError =>
+  error instanceof XmlParseError
+    ? error
+    : new XmlParseError({
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+
+/**
+ * Parse a stream of XML text into SAX-style events without loading the
+ * whole document into memory.
+ *
+ * Chunks may split tags, entities or CDATA sections at any point. Events
+ * are produced as soon as the markup that forms them is complete, and input
+ * is only pulled as downstream consumers request more events.
+ *
+ * @example
+ * ```typescript
+ * const events = parseStream(
+ *   Stream.fromReadableStream(() => file.stream(), toError).pipe(Stream.decodeText())
+ * )
+ * ```
+ */
+export const parseStream = <E, R>(
+  input: Stream.Stream<string, E, R>
+): Stream.Stream<XmlEvent, XmlParseError | E, R> =>
+  Stream.suspend(() => {
+    const tokenizer = new XmlTokenizer();
+    return input.pipe(
+      Stream.mapConcatEffect((chunk) =>
+        Effect.try({ try: () => tokenizer.push(chunk), catch: toParseError })
+      ),
+      Stream.concat(
+        Stream.fromIterableEffect(
+          Effect.try({ try: () => tokenizer.end(), catch: toParseError })
+        )
+      )
+    );
+  });
+
+interface PendingElement {
+  readonly name: string;
+  readonly attributes: Readonly<Record<string, string>>;
+  readonly children: XmlNode[];
+}
+
+/**
+ * Assembles subtrees for elements named `name` from parse events, keeping
+ * only the subtree under construction.
+ */
+class SubtreeBuilder {
+  private readonly name: string;
+  private readonly stack: PendingElement[] = [];
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  onEvent(event: XmlEvent): XmlElement[] {
+    switch (event._tag) {
+      case "OpenTag":
+        this.open(event.name, event.attributes);
+        return [];
+      case "Text":
+        this.text(event.text);
+        return [];
+      case "CloseTag":
+        return this.close();
+      default:
+        return [];
+    }
+  }
+
+  private open(name: string, attributes: Readonly<Record<string, string>>) {
+    if (this.stack.length > 0 || name === this.name) {
+      this.stack.push({ name, attributes, children: [] });
+    }
+  }
+
+  private text(text: string) {
+    const children = this.stack.at(-1)?.children;
+    if (!children) {
+      return;
+    }
+    const last = children.at(-1);
+    if (typeof last === "string") {
+      children[children.length - 1] = last + text;
+    } else {
+      children.push(text);
+    }
+  }
+
+  private close(): XmlElement[] {
+    const finished = this.stack.pop();
+    if (!finished) {
+      return [];
+    }
+    const parent = this.stack.at(-1);
+    if (parent) {
+      parent.children.push(finished);
+      return [];
+    }
+    return [finished];
+  }
+}
+
+/**
+ * Collect every element named `name` from an XML text stream as a fully
+ * built `XmlElement` subtree.
+ *
+ * Only the subtree currently being built is held in memory, which makes
+ * this suitable for large files built from a repeated record element (RSS
+ * `item`s, sitemap `url`s, export rows). Matching elements nested inside
+ * another match are part of the outer subtree rather than emitted on their
+ * own.
+ *
+ * @example
+ * ```typescript
+ * const urls = streamElements("url")(sitemapText).pipe(
+ *   Stream.mapEffect((url) => Xml.decode(SitemapUrl)(url))
+ * )
+ * ```
+ */
+export const streamElements =
+  (name: string) =>
+  <E, R>(
+    input: Stream.Stream<string, E, R>
+  ): Stream.Stream<XmlElement, XmlParseError | E, R> =>
+    Stream.suspend(() => {
+      const builder = new SubtreeBuilder(name);
+      return parseStream(input).pipe(
+        Stream.mapConcat((event) => builder.onEvent(event))
+      );
+    });
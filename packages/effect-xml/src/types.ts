@@ -6,6 +6,30 @@ export type XmlElement = {
   readonly children: ReadonlyArray<XmlElement | XmlText>;
 };
 
+export type XmlNode = XmlElement | XmlText;
+
+/**
+ * The `<?xml ...?>` declaration, when the source document has one.
+ */
+export type XmlDeclaration = {
+  readonly version: string;
+  readonly encoding?: string | undefined;
+  readonly standalone?: string | undefined;
+};
+
 export type XmlDocument = {
+  readonly declaration?: XmlDeclaration | undefined;
   readonly root: XmlElement;
 };
+
+/**
+ * A namespace-resolved element or attribute name.
+ *
+ * `prefix` is `""` for unprefixed names; `namespaceURI` is `undefined` when
+ * the name is not in any namespace.
+ */
+export type XmlQName = {
+  readonly prefix: string;
+  readonly localName: string;
+  readonly namespaceURI: string | undefined;
+};
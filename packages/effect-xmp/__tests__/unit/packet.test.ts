@@ -0,0 +1,326 @@
+import { deflateSync } from "node:zlib";
+import { Effect, Either } from "effect";
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import {
+  parseDefault,
+  readXmpDefault,
+  writeXmpDefault,
+} from "../../src/api.js";
+import { XmpBackend, XmpBackendLayer } from "../../src/backends/xmp-backend.js";
+import { XmpParseError, XmpWriteError } from "../../src/errors.js";
+import type { XmpPacket } from "../../src/schemas.js";
+
+const segment = (marker: number, payload: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// SOI, JFIF APP0, a quantization table, then a stub scan and EOI
+const scan = Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+const jpeg = Buffer.concat([
+  Buffer.from([0xff, 0xd8]),
+  segment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1")),
+  segment(0xdb, Buffer.alloc(65)),
+  scan,
+]);
+
+const chunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // CRC is not checked by the reader; zeros keep the fixture short
+  return Buffer.concat([
+    length,
+    Buffer.from(type, "latin1"),
+    data,
+    Buffer.alloc(4),
+  ]);
+};
+
+const ihdr = Buffer.from([0, 0, 0, 1, 0, 0, 0, 1, 8, 0, 0, 0, 0]);
+const png = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  chunk("IHDR", ihdr),
+  chunk("IDAT", deflateSync(Buffer.from([0, 0]))),
+  chunk("IEND", Buffer.alloc(0)),
+]);
+
+const makePdf = async () => {
+  const document = await PDFDocument.create();
+  document.addPage([200, 200]);
+  return Buffer.from(await document.save());
+};
+
+const packet: XmpPacket = {
+  dc: {
+    title: { "x-default": "Sunset", "fr-FR": "Coucher de soleil" },
+    creator: ["Ada Lovelace", "Charles Babbage"],
+    subject: ["sky", "sea & sand"],
+    rights: { "x-default": "© 2026 Example Corp" },
+  },
+  xmp: {
+    CreatorTool: "asset-pipeline",
+    CreateDate: "2026-10-19T12:00:00Z",
+    Rating: 4,
+  },
+  xmpRights: {
+    Marked: true,
+    WebStatement: "https://example.com/license",
+    UsageTerms: { "x-default": "Editorial use only" },
+  },
+  photoshop: { Credit: "Example Corp", DateCreated: "2026-10" },
+  Iptc4xmpCore: {
+    Location: "Pier 39",
+    CreatorContactInfo: { CiEmailWork: "ada@example.com", CiAdrCity: "London" },
+  },
+};
+
+const count = (buffer: Buffer, text: string) =>
+  buffer.toString("latin1").split(text).length - 1;
+
+describe("readXmp / writeXmp", () => {
+  it("should round-trip a typed packet through a JPEG", async () => {
+    const written = await Effect.runPromise(writeXmpDefault(jpeg, packet));
+    const read = await Effect.runPromise(readXmpDefault(written));
+    expect(read).toEqual(packet);
+  });
+
+  it("should keep the JPEG headers and image data intact", async () => {
+    const written = await Effect.runPromise(writeXmpDefault(jpeg, packet));
+    expect(written.subarray(0, 20)).toEqual(jpeg.subarray(0, 20));
+    expect(written.subarray(-scan.length)).toEqual(scan);
+    // The XMP segment follows the JFIF header
+    expect(written.subarray(20, 22)).toEqual(Buffer.from([0xff, 0xe1]));
+  });
+
+  it("should replace an existing JPEG packet", async () => {
+    const first = await Effect.runPromise(writeXmpDefault(jpeg, packet));
+    const second = await Effect.runPromise(
+      writeXmpDefault(first, { dc: { title: { "x-default": "Dawn" } } })
+    );
+    expect(count(second, "http://ns.adobe.com/xap/1.0/\0")).toBe(1);
+    const read = await Effect.runPromise(readXmpDefault(second));
+    expect(read).toEqual({ dc: { title: { "x-default": "Dawn" } } });
+  });
+
+  it("should write packets other readers understand", async () => {
+    const written = await Effect.runPromise(writeXmpDefault(jpeg, packet));
+    const tags = (await Effect.runPromise(parseDefault(written))) as {
+      xmp: Record<string, { description: string }>;
+    };
+    expect(tags.xmp.CreatorTool?.description).toBe("asset-pipeline");
+    expect(tags.xmp.Credit?.description).toBe("Example Corp");
+  });
+
+  it("should round-trip a packet through a PNG", async () => {
+    const written = await Effect.runPromise(writeXmpDefault(png, packet));
+    // The iTXt chunk directly follows IHDR
+    expect(written.toString("latin1", 37, 41)).toBe("iTXt");
+    const rewritten = await Effect.runPromise(
+      writeXmpDefault(written, { xmp: { Rating: 5 } })
+    );
+    expect(count(rewritten, "XML:com.adobe.xmp")).toBe(1);
+    expect(await Effect.runPromise(readXmpDefault(rewritten))).toEqual({
+      xmp: { Rating: 5 },
+    });
+  });
+
+  it("should round-trip a packet through a PDF", async () => {
+    const pdf = await makePdf();
+    const written = await Effect.runPromise(writeXmpDefault(pdf, packet));
+    expect(await Effect.runPromise(readXmpDefault(written))).toEqual(packet);
+
+    const rewritten = await Effect.runPromise(
+      writeXmpDefault(written, { photoshop: { Headline: "Updated" } })
+    );
+    expect(await Effect.runPromise(readXmpDefault(rewritten))).toEqual({
+      photoshop: { Headline: "Updated" },
+    });
+    const document = await PDFDocument.load(rewritten);
+    expect(document.getPageCount()).toBe(1);
+  });
+
+  it("should append PDF updates after the original bytes", async () => {
+    for (const useObjectStreams of [true, false]) {
+      const document = await PDFDocument.create();
+      document.addPage([200, 200]);
+      const pdf = Buffer.from(await document.save({ useObjectStreams }));
+
+      const written = await Effect.runPromise(writeXmpDefault(pdf, packet));
+      const rewritten = await Effect.runPromise(
+        writeXmpDefault(written, { xmp: { Rating: 1 } })
+      );
+      expect(written.subarray(0, pdf.length).equals(pdf)).toBe(true);
+      expect(rewritten.subarray(0, written.length).equals(written)).toBe(true);
+      expect(count(rewritten, "startxref")).toBe(count(pdf, "startxref") + 2);
+      expect(await Effect.runPromise(readXmpDefault(rewritten))).toEqual({
+        xmp: { Rating: 1 },
+      });
+      expect((await PDFDocument.load(rewritten)).getPageCount()).toBe(1);
+    }
+  });
+
+  it("should reject encrypted PDFs", async () => {
+    const document = await PDFDocument.create();
+    document.addPage([200, 200]);
+    const pdf = Buffer.from(
+      Buffer.from(await document.save({ useObjectStreams: false }))
+        .toString("latin1")
+        .replace(
+          "trailer\n<<",
+          "trailer\n<<\n/Encrypt << /Filter /Standard >>"
+        ),
+      "latin1"
+    );
+
+    const result = await Effect.runPromise(
+      Effect.either(writeXmpDefault(pdf, packet))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(XmpWriteError);
+      expect(result.left.message).toContain("Encrypted");
+    }
+  });
+
+  it("should return an empty packet when a file has none", async () => {
+    expect(await Effect.runPromise(readXmpDefault(jpeg))).toEqual({});
+    expect(await Effect.runPromise(readXmpDefault(png))).toEqual({});
+    expect(await Effect.runPromise(readXmpDefault(await makePdf()))).toEqual(
+      {}
+    );
+  });
+
+  it("should read attribute-form properties across descriptions", async () => {
+    const xml = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmp:Rating="3" xmp:Label="Red"/>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:ex="http://example.com/ns/">
+      <dc:format>image/jpeg</dc:format>
+      <dc:creator><rdf:Seq><rdf:li>Grace</rdf:li></rdf:Seq></dc:creator>
+      <ex:Unknown>ignored</ex:Unknown>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>`;
+    const program = Effect.gen(function* () {
+      const backend = yield* XmpBackend;
+      return yield* backend.writePacket(jpeg, xml);
+    }).pipe(Effect.provide(XmpBackendLayer));
+    const written = await Effect.runPromise(program);
+
+    expect(await Effect.runPromise(readXmpDefault(written))).toEqual({
+      xmp: { Rating: 3, Label: "Red" },
+      dc: { format: "image/jpeg", creator: ["Grace"] },
+    });
+  });
+
+  it("should fail to read values that do not match the schema", async () => {
+    const xml = `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"
+      xmpRights:Marked="yes"/>
+</rdf:RDF>`;
+    const written = await Effect.runPromise(
+      Effect.gen(function* () {
+        const backend = yield* XmpBackend;
+        return yield* backend.writePacket(png, xml);
+      }).pipe(Effect.provide(XmpBackendLayer))
+    );
+
+    const result = await Effect.runPromise(
+      Effect.either(readXmpDefault(written))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(XmpParseError);
+      expect(result.left.message).toContain("Marked");
+    }
+  });
+
+  it("should reject invalid values before writing", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(writeXmpDefault(jpeg, { xmp: { Rating: 9 } }))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(XmpWriteError);
+    }
+  });
+
+  it("should reject unsupported formats", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(writeXmpDefault(Buffer.from("GIF89a"), packet))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(XmpWriteError);
+      expect(result.left.message).toContain("Unsupported file format");
+    }
+  });
+
+  it("should keep properties outside the modelled namespaces", async () => {
+    const xml = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+        xmlns:tiff="http://ns.adobe.com/tiff/1.0/"
+        xmp:Rating="2" xmp:Private="kept" xmpMM:DocumentID="xmp.did:1234"
+        tiff:Orientation="6">
+      <dc:title xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <rdf:Alt><rdf:li xml:lang="x-default">Old</rdf:li></rdf:Alt>
+      </dc:title>
+      <xmpMM:History><rdf:Seq><rdf:li>created</rdf:li></rdf:Seq></xmpMM:History>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>`;
+    for (const file of [png, jpeg]) {
+      const original = await Effect.runPromise(
+        Effect.gen(function* () {
+          const backend = yield* XmpBackend;
+          return yield* backend.writePacket(file, xml);
+        }).pipe(Effect.provide(XmpBackendLayer))
+      );
+
+      const read = await Effect.runPromise(readXmpDefault(original));
+      const written = await Effect.runPromise(
+        writeXmpDefault(original, {
+          ...read,
+          dc: { title: { "x-default": "New" } },
+        })
+      );
+
+      expect(await Effect.runPromise(readXmpDefault(written))).toEqual({
+        xmp: { Rating: 2 },
+        dc: { title: { "x-default": "New" } },
+      });
+      const tags = (await Effect.runPromise(parseDefault(written))) as {
+        xmp: Record<string, { value: unknown; description: string }>;
+      };
+      expect(tags.xmp.DocumentID?.description).toBe("xmp.did:1234");
+      expect(tags.xmp.Orientation?.value).toBe("6");
+      expect(tags.xmp.Private?.description).toBe("kept");
+      expect(tags.xmp.History?.description).toBe("created");
+      expect(written.toString("latin1")).not.toContain("Old");
+    }
+  });
+
+  it("should write packets too large for a JPEG segment as extended XMP", async () => {
+    const large: XmpPacket = {
+      ...packet,
+      dc: { description: { "x-default": "x".repeat(150_000) } },
+    };
+    const written = await Effect.runPromise(writeXmpDefault(jpeg, large));
+    expect(count(written, "http://ns.adobe.com/xmp/extension/\0")).toBe(3);
+    expect(await Effect.runPromise(readXmpDefault(written))).toEqual(large);
+
+    const rewritten = await Effect.runPromise(
+      writeXmpDefault(written, { xmp: { Rating: 3 } })
+    );
+    expect(count(rewritten, "http://ns.adobe.com/xmp/extension/\0")).toBe(0);
+    expect(await Effect.runPromise(readXmpDefault(rewritten))).toEqual({
+      xmp: { Rating: 3 },
+    });
+  });
+});
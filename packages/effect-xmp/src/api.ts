@@ -1,6 +1,12 @@
-import { Effect } from "effect";
+import { Effect, Option, Schema } from "effect";
+import { formatParseError } from "effect-schema-utils";
 import { XmpBackend, XmpBackendLayer } from "./backends/xmp-backend.js";
-import type { XmpParseError } from "./errors.js";
+import { XmpParseError, XmpWriteError } from "./errors.js";
+import { parsePacket, type RawXmpPacket, serializePacket } from "./rdf.js";
+import { XmpPacket } from "./schemas.js";
+
+/** Whitespace left in written packets so other tools can edit in place */
+const PACKET_PADDING = 2048;
 
 /**
  * Parses XMP data from a file buffer.
@@ -17,3 +23,113 @@ export const parseDefault = (
   buffer: Buffer
 ): Effect.Effect<unknown, XmpParseError> =>
   parse(buffer).pipe(Effect.provide(XmpBackendLayer));
+
+/**
+ * Reads the XMP packet from a file buffer into the typed `XmpPacket` model.
+ *
+ * Files without a packet yield an empty packet. Properties outside the
+ * modelled namespaces are ignored, and kept in the file by `writeXmp`.
+ *
+ * @param buffer The file buffer to read.
+ * @returns An `Effect` that resolves to the packet or fails with an `XmpParseError`
+ * when the file or packet is malformed, or a value does not match its schema.
+ */
+export const readXmp = (
+  buffer: Buffer
+): Effect.Effect<XmpPacket, XmpParseError, XmpBackend> =>
+  XmpBackend.pipe(
+    Effect.flatMap((backend) => backend.readPacket(buffer)),
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.succeed({}),
+        onSome: (xml) =>
+          Effect.try({
+            try: () => parsePacket(xml),
+            catch: (error) =>
+              new XmpParseError({
+                message: `Invalid XMP packet: ${error instanceof Error ? error.message : "Unknown error"}`,
+              }),
+          }),
+      })
+    ),
+    Effect.flatMap((raw) =>
+      Schema.decodeUnknown(XmpPacket)(raw).pipe(
+        Effect.mapError(
+          (error) =>
+            new XmpParseError({
+              message: `Invalid XMP value: ${formatParseError(error)}`,
+            })
+        )
+      )
+    )
+  );
+
+export const readXmpDefault = (
+  buffer: Buffer
+): Effect.Effect<XmpPacket, XmpParseError> =>
+  readXmp(buffer).pipe(Effect.provide(XmpBackendLayer));
+
+/**
+ * The file's packet with the modelled properties of `raw` in place of its
+ * own. Packets that do not parse are replaced outright.
+ */
+const updatedPacket = (
+  backend: XmpBackend,
+  buffer: Buffer,
+  raw: RawXmpPacket
+): Effect.Effect<string> =>
+  backend.readPacket(buffer).pipe(
+    Effect.orElseSucceed(() => Option.none<string>()),
+    Effect.map((existing) =>
+      Option.match(existing, {
+        onNone: () => serializePacket(raw, PACKET_PADDING),
+        onSome: (xml) => {
+          try {
+            return serializePacket(raw, PACKET_PADDING, xml);
+          } catch {
+            return serializePacket(raw, PACKET_PADDING);
+          }
+        },
+      })
+    )
+  );
+
+/**
+ * Embeds an XMP packet in a JPEG, PNG or PDF file, replacing any packet
+ * already present. The rest of the file is copied unchanged; PDFs get an
+ * incremental update appended to the original bytes, and encrypted PDFs are
+ * rejected. JPEG packets too large for one segment are written as extended
+ * XMP.
+ *
+ * The modelled namespaces are written as a whole: read the existing packet
+ * with `readXmp` and spread your changes over it to keep other fields.
+ * Properties of the existing packet outside the modelled namespaces are
+ * kept.
+ *
+ * @param buffer The file buffer to update.
+ * @param packet The packet to embed.
+ * @returns An `Effect` that resolves to the updated file or fails with an `XmpWriteError`.
+ */
+export const writeXmp = (
+  buffer: Buffer,
+  packet: XmpPacket
+): Effect.Effect<Buffer, XmpWriteError, XmpBackend> =>
+  Effect.gen(function* () {
+    const raw = yield* Schema.encode(XmpPacket)(packet).pipe(
+      Effect.mapError(
+        (error) =>
+          new XmpWriteError({
+            message: `Invalid XMP value: ${formatParseError(error)}`,
+          })
+      )
+    );
+    const backend = yield* XmpBackend;
+    const xml = yield* updatedPacket(backend, buffer, raw);
+    return yield* backend.writePacket(buffer, xml);
+  });
+
+export const writeXmpDefault = (
+  buffer: Buffer,
+  packet: XmpPacket
+): Effect.Effect<Buffer, XmpWriteError> =>
+  writeXmp(buffer, packet).pipe(Effect.provide(XmpBackendLayer));
@@ -1,27 +1,81 @@
-import { Effect } from "effect";
+import { Effect, Option } from "effect";
 import ExifReader from "exifreader";
-import { XmpParseError } from "../errors.js";
+import { detectFormat, readPacket, writePacket } from "../containers.js";
+import { XmpParseError, XmpWriteError } from "../errors.js";
 
 export interface XmpBackendSchema {
   readonly parse: (buffer: Buffer) => Effect.Effect<unknown, XmpParseError>;
+  /**
+   * The serialized XMP packet embedded in a file. JPEG, PNG and PDF are
+   * read directly; other formats fall back to ExifReader.
+   */
+  readonly readPacket: (
+    buffer: Buffer
+  ) => Effect.Effect<Option.Option<string>, XmpParseError>;
+  /**
+   * Embed a serialized XMP packet in a JPEG, PNG or PDF file, replacing
+   * any existing packet.
+   */
+  readonly writePacket: (
+    buffer: Buffer,
+    xml: string
+  ) => Effect.Effect<Buffer, XmpWriteError>;
 }
 
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unknown error";
+
+const parse = (buffer: Buffer) =>
+  Effect.try({
+    try: () =>
+      ExifReader.load(
+        // biome-ignore lint/suspicious/noExplicitAny: ExifReader's typings do not accept a Node Buffer
+        buffer as any,
+        // biome-ignore lint/suspicious/noExplicitAny: `expanded` is missing from ExifReader's option typings
+        { xmp: true, expanded: true } as any
+      ),
+    catch: (error) => new XmpParseError({ message: errorMessage(error) }),
+  });
+
 export class XmpBackend extends Effect.Service<XmpBackend>()("XmpBackend", {
   succeed: {
-    parse: (buffer: Buffer) =>
-      Effect.try({
-        try: () => {
-          // biome-ignore lint/suspicious/noExplicitAny
-          return ExifReader.load(
-            buffer as any,
-            { xmp: true, expanded: true } as any
-          );
-        },
+    parse,
+    readPacket: (buffer: Buffer) => {
+      const format = Buffer.isBuffer(buffer) ? detectFormat(buffer) : undefined;
+      if (format === undefined) {
+        return parse(buffer).pipe(
+          Effect.map((tags) =>
+            Option.fromNullable(
+              (tags as { xmp?: { _raw?: string } }).xmp?._raw || undefined
+            )
+          )
+        );
+      }
+      return Effect.tryPromise({
+        try: () => readPacket(buffer, format),
         catch: (error) =>
           new XmpParseError({
-            message: error instanceof Error ? error.message : "Unknown error",
+            message: `Invalid ${format.toUpperCase()} file: ${errorMessage(error)}`,
+          }),
+      }).pipe(Effect.map(Option.fromNullable));
+    },
+    writePacket: (buffer: Buffer, xml: string) => {
+      const format = Buffer.isBuffer(buffer) ? detectFormat(buffer) : undefined;
+      if (format === undefined) {
+        return Effect.fail(
+          new XmpWriteError({
+            message: "Unsupported file format: expected JPEG, PNG or PDF",
+          })
+        );
+      }
+      return Effect.tryPromise({
+        try: () => writePacket(buffer, format, xml),
+        catch: (error) =>
+          new XmpWriteError({
+            message: `Cannot write XMP to ${format.toUpperCase()}: ${errorMessage(error)}`,
           }),
-      }),
+      });
+    },
   },
 }) {}
 
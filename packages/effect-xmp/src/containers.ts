@@ -0,0 +1,512 @@
+import { createHash } from "node:crypto";
+import { inflateSync } from "node:zlib";
+import {
+  decodePDFRawStream,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+import { extendedXmpGuid, extendedXmpStub, mergeExtendedXmp } from "./rdf.js";
+
+/**
+ * File formats `writeXmp` can embed a packet into.
+ */
+export type XmpContainerFormat = "jpeg" | "png" | "pdf";
+
+const JPEG_XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+const JPEG_EXTENDED_XMP_HEADER = Buffer.from(
+  "http://ns.adobe.com/xmp/extension/\0",
+  "latin1"
+);
+const JPEG_EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+/** Largest payload of a single marker segment (length field included) */
+const JPEG_MAX_SEGMENT = 0xff_ff;
+/** Extended XMP segments start with a GUID, the full length and an offset */
+const JPEG_GUID_LENGTH = 32;
+const JPEG_EXTENDED_PREFIX =
+  JPEG_EXTENDED_XMP_HEADER.length + JPEG_GUID_LENGTH + 8;
+const JPEG_EXTENDED_CHUNK = JPEG_MAX_SEGMENT - 2 - JPEG_EXTENDED_PREFIX;
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp";
+
+const PDF_HEADER = Buffer.from("%PDF-", "latin1");
+
+export const detectFormat = (
+  buffer: Buffer
+): XmpContainerFormat | undefined => {
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return "jpeg";
+  }
+  if (buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return "png";
+  }
+  // The header may follow a few bytes of junk
+  if (buffer.subarray(0, 1024).includes(PDF_HEADER)) {
+    return "pdf";
+  }
+  return;
+};
+
+// JPEG
+
+interface JpegSegment {
+  readonly marker: number;
+  /** Offset of the 0xFF marker byte */
+  readonly start: number;
+  /** Offset just past the segment */
+  readonly end: number;
+}
+
+const hasHeader = (buffer: Buffer, segment: JpegSegment, header: Buffer) =>
+  buffer
+    .subarray(segment.start + 4, segment.start + 4 + header.length)
+    .equals(header);
+
+const isStandalone = (marker: number): boolean =>
+  marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
+
+/**
+ * Walk the marker segments before the image data. Returns the segments and
+ * the offset where the scan (or end of image) begins.
+ */
+const jpegSegments = (
+  buffer: Buffer
+): { readonly segments: readonly JpegSegment[]; readonly body: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 1 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error(`Invalid JPEG marker at offset ${offset}`);
+    }
+    const marker = buffer[offset + 1] as number;
+    if (marker === 0xff) {
+      offset++;
+    } else if (marker === JPEG_SOS || marker === JPEG_EOI) {
+      break;
+    } else if (isStandalone(marker)) {
+      offset += 2;
+    } else {
+      if (offset + 4 > buffer.length) {
+        throw new Error("Truncated JPEG segment");
+      }
+      const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+      segments.push({ marker, start: offset, end });
+      offset = end;
+    }
+  }
+  return { segments, body: offset };
+};
+
+const isXmpSegment = (buffer: Buffer, segment: JpegSegment): boolean =>
+  segment.marker === JPEG_APP1 &&
+  (hasHeader(buffer, segment, JPEG_XMP_HEADER) ||
+    hasHeader(buffer, segment, JPEG_EXTENDED_XMP_HEADER));
+
+/**
+ * Reassemble the extended XMP named `guid` from its segments, or undefined
+ * when parts are missing
+ */
+const readExtendedXmp = (
+  buffer: Buffer,
+  segments: readonly JpegSegment[],
+  guid: string
+): string | undefined => {
+  let data: Buffer | undefined;
+  let received = 0;
+  for (const segment of segments) {
+    if (
+      segment.marker !== JPEG_APP1 ||
+      !hasHeader(buffer, segment, JPEG_EXTENDED_XMP_HEADER)
+    ) {
+      continue;
+    }
+    const start = segment.start + 4 + JPEG_EXTENDED_XMP_HEADER.length;
+    if (buffer.toString("latin1", start, start + JPEG_GUID_LENGTH) !== guid) {
+      continue;
+    }
+    const length = buffer.readUInt32BE(start + JPEG_GUID_LENGTH);
+    const offset = buffer.readUInt32BE(start + JPEG_GUID_LENGTH + 4);
+    const part = buffer.subarray(start + JPEG_GUID_LENGTH + 8, segment.end);
+    data ??= Buffer.alloc(length);
+    if (offset + part.length > data.length) {
+      throw new Error("Extended XMP segment exceeds its declared length");
+    }
+    part.copy(data, offset);
+    received += part.length;
+  }
+  return data && received >= data.length ? data.toString("utf8") : undefined;
+};
+
+/**
+ * The standard XMP segment, merged with its extended XMP when the packet
+ * names one
+ */
+const readJpeg = (buffer: Buffer): string | undefined => {
+  const { segments } = jpegSegments(buffer);
+  const segment = segments.find(
+    (candidate) =>
+      candidate.marker === JPEG_APP1 &&
+      hasHeader(buffer, candidate, JPEG_XMP_HEADER)
+  );
+  if (!segment) {
+    return;
+  }
+  const standard = buffer
+    .subarray(segment.start + 4 + JPEG_XMP_HEADER.length, segment.end)
+    .toString("utf8");
+  const guid = standard.includes("HasExtendedXMP")
+    ? extendedXmpGuid(standard)
+    : undefined;
+  const extended =
+    guid === undefined ? undefined : readExtendedXmp(buffer, segments, guid);
+  return extended === undefined
+    ? standard
+    : mergeExtendedXmp(standard, extended);
+};
+
+const appSegment = (payload: Buffer): Buffer[] => {
+  const header = Buffer.alloc(4);
+  header.writeUInt8(0xff, 0);
+  header.writeUInt8(JPEG_APP1, 1);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return [header, payload];
+};
+
+/**
+ * APP1 segments holding `xml`. Packets too large for one segment are
+ * written as extended XMP: a standard packet naming the MD5 GUID of the
+ * full packet, which follows split across extension segments.
+ */
+const xmpSegments = (xml: string): Buffer[] => {
+  const standard = Buffer.concat([JPEG_XMP_HEADER, Buffer.from(xml, "utf8")]);
+  if (standard.length + 2 <= JPEG_MAX_SEGMENT) {
+    return appSegment(standard);
+  }
+
+  const extended = Buffer.from(xml, "utf8");
+  const guid = createHash("md5").update(extended).digest("hex").toUpperCase();
+  const segments = appSegment(
+    Buffer.concat([JPEG_XMP_HEADER, Buffer.from(extendedXmpStub(guid), "utf8")])
+  );
+  for (
+    let offset = 0;
+    offset < extended.length;
+    offset += JPEG_EXTENDED_CHUNK
+  ) {
+    const position = Buffer.alloc(8);
+    position.writeUInt32BE(extended.length, 0);
+    position.writeUInt32BE(offset, 4);
+    segments.push(
+      ...appSegment(
+        Buffer.concat([
+          JPEG_EXTENDED_XMP_HEADER,
+          Buffer.from(guid, "latin1"),
+          position,
+          extended.subarray(offset, offset + JPEG_EXTENDED_CHUNK),
+        ])
+      )
+    );
+  }
+  return segments;
+};
+
+/**
+ * Replace any XMP segments with APP1 segments holding `xml`, placed after
+ * the JFIF and Exif headers.
+ */
+const writeJpeg = (buffer: Buffer, xml: string): Buffer => {
+  const { segments, body } = jpegSegments(buffer);
+  const kept = segments.filter((segment) => !isXmpSegment(buffer, segment));
+  const insertAt = kept.findIndex(
+    (segment) =>
+      !(
+        segment.marker === JPEG_APP0 ||
+        (segment.marker === JPEG_APP1 &&
+          hasHeader(buffer, segment, JPEG_EXIF_HEADER))
+      )
+  );
+  const slices = kept.map((segment) =>
+    buffer.subarray(segment.start, segment.end)
+  );
+  slices.splice(
+    insertAt === -1 ? slices.length : insertAt,
+    0,
+    ...xmpSegments(xml)
+  );
+  return Buffer.concat([
+    buffer.subarray(0, 2),
+    ...slices,
+    buffer.subarray(body),
+  ]);
+};
+
+// PNG
+
+interface PngChunk {
+  readonly type: string;
+  readonly start: number;
+  readonly data: Buffer;
+  readonly end: number;
+}
+
+// biome-ignore-start lint/suspicious/noBitwiseOperators: CRC-32 as specified for PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xed_b8_83_20 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Buffer): number => {
+  let crc = 0xff_ff_ff_ff;
+  for (const byte of bytes) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xff_ff_ff_ff) >>> 0;
+};
+// biome-ignore-end lint/suspicious/noBitwiseOperators: CRC-32 as specified for PNG chunks
+
+const pngChunks = (buffer: Buffer): readonly PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset < buffer.length) {
+    if (offset + 12 > buffer.length) {
+      throw new Error("Truncated PNG chunk");
+    }
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > buffer.length) {
+      throw new Error(`Truncated PNG chunk ${type}`);
+    }
+    chunks.push({
+      type,
+      start: offset,
+      data: buffer.subarray(offset + 8, offset + 8 + length),
+      end,
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+const isXmpChunk = (chunk: PngChunk): boolean =>
+  chunk.type === "iTXt" &&
+  chunk.data.toString("latin1", 0, PNG_XMP_KEYWORD.length + 1) ===
+    `${PNG_XMP_KEYWORD}\0`;
+
+/**
+ * Decode the text of an iTXt chunk: keyword, compression flag and method,
+ * language tag and translated keyword precede the UTF-8 text.
+ */
+const iTXtText = (data: Buffer): string => {
+  const keywordEnd = data.indexOf(0);
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  const text = data.subarray(translatedEnd + 1);
+  return (compressed ? inflateSync(text) : text).toString("utf8");
+};
+
+const readPng = (buffer: Buffer): string | undefined => {
+  const chunk = pngChunks(buffer).find(isXmpChunk);
+  return chunk ? iTXtText(chunk.data) : undefined;
+};
+
+const makeChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Replace any XMP iTXt chunk with an uncompressed one right after IHDR,
+ * as the XMP specification recommends.
+ */
+const writePng = (buffer: Buffer, xml: string): Buffer => {
+  const chunks = pngChunks(buffer);
+  const [header] = chunks;
+  if (header?.type !== "IHDR") {
+    throw new Error("PNG does not start with an IHDR chunk");
+  }
+  const xmp = makeChunk(
+    "iTXt",
+    Buffer.concat([
+      Buffer.from(`${PNG_XMP_KEYWORD}\0\0\0\0\0`, "latin1"),
+      Buffer.from(xml, "utf8"),
+    ])
+  );
+  return Buffer.concat([
+    buffer.subarray(0, header.end),
+    xmp,
+    ...chunks
+      .slice(1)
+      .filter((chunk) => !isXmpChunk(chunk))
+      .map((chunk) => buffer.subarray(chunk.start, chunk.end)),
+  ]);
+};
+
+// PDF
+
+const METADATA = PDFName.of("Metadata");
+
+const loadPdf = (buffer: Buffer) =>
+  PDFDocument.load(buffer, { updateMetadata: false, ignoreEncryption: true });
+
+/**
+ * Read the document-level metadata stream referenced from the catalog.
+ */
+const readPdf = async (buffer: Buffer): Promise<string | undefined> => {
+  const document = await loadPdf(buffer);
+  const stream = document.catalog.lookupMaybe(METADATA, PDFStream);
+  if (!stream) {
+    return;
+  }
+  const bytes =
+    stream instanceof PDFRawStream
+      ? decodePDFRawStream(stream).decode()
+      : stream.getContents();
+  return Buffer.from(bytes).toString("utf8");
+};
+
+const START_XREF = /startxref\s+(\d+)/g;
+
+const xrefEntry = (offset: number, generation: number): string =>
+  `${String(offset).padStart(10, "0")} ${String(generation).padStart(5, "0")} n\r\n`;
+
+/**
+ * Store `xml` as the catalog's uncompressed metadata stream in an
+ * incremental update: the original bytes are kept as they are and a new
+ * metadata object, xref section and trailer are appended, so earlier
+ * revisions and signatures stay intact. The existing metadata object number
+ * is reused when there is one; otherwise the catalog is updated as well.
+ */
+const writePdf = async (buffer: Buffer, xml: string): Promise<Buffer> => {
+  const document = await loadPdf(buffer);
+  if (document.isEncrypted) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+  const previous = [
+    ...buffer.subarray(-1024).toString("latin1").matchAll(START_XREF),
+  ].at(-1);
+  const { context, catalog } = document;
+  const root = context.trailerInfo.Root;
+  if (!(previous && root instanceof PDFRef)) {
+    throw new Error("Missing PDF trailer");
+  }
+
+  const objects: [ref: PDFRef, body: Buffer][] = [];
+  const content = Buffer.from(xml, "utf8");
+  const existing = catalog.get(METADATA);
+  const metadata = existing instanceof PDFRef ? existing : context.nextRef();
+  objects.push([
+    metadata,
+    Buffer.concat([
+      Buffer.from(
+        `<< /Type /Metadata /Subtype /XML /Length ${content.length} >>\nstream\n`,
+        "latin1"
+      ),
+      content,
+      Buffer.from("\nendstream", "latin1"),
+    ]),
+  ]);
+  if (!(existing instanceof PDFRef)) {
+    const updated = catalog.clone(context);
+    updated.set(METADATA, metadata);
+    objects.push([root, Buffer.from(updated.toString(), "latin1")]);
+  }
+
+  const parts: Buffer[] = [buffer];
+  let offset = buffer.length;
+  const append = (part: Buffer | string) => {
+    const bytes = typeof part === "string" ? Buffer.from(part, "latin1") : part;
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+  if (buffer.at(-1) !== 0x0a && buffer.at(-1) !== 0x0d) {
+    append("\n");
+  }
+
+  const entries: [objectNumber: number, entry: string][] = [];
+  for (const [ref, body] of objects) {
+    entries.push([
+      ref.objectNumber,
+      `${ref.objectNumber} 1\n${xrefEntry(offset, ref.generationNumber)}`,
+    ]);
+    append(`${ref.objectNumber} ${ref.generationNumber} obj\n`);
+    append(body);
+    append("\nendobj\n");
+  }
+
+  const { Info, ID } = context.trailerInfo;
+  const trailer = [
+    `/Size ${context.largestObjectNumber + 1}`,
+    `/Root ${root.toString()}`,
+    Info ? `/Info ${Info.toString()}` : "",
+    ID ? `/ID ${ID.toString()}` : "",
+    `/Prev ${previous[1]}`,
+  ].filter((entry) => entry !== "");
+  const xref = entries
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .join("");
+  const xrefOffset = offset;
+  append(
+    `xref\n${xref}trailer\n<< ${trailer.join(" ")} >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+  return Buffer.concat(parts);
+};
+
+/**
+ * Find the serialized XMP packet in a JPEG, PNG or PDF file.
+ *
+ * @returns `undefined` when the file has no packet
+ * @throws Error if the file structure is malformed
+ */
+export const readPacket = (
+  buffer: Buffer,
+  format: XmpContainerFormat
+): Promise<string | undefined> => {
+  switch (format) {
+    case "jpeg":
+      return Promise.resolve(readJpeg(buffer));
+    case "png":
+      return Promise.resolve(readPng(buffer));
+    default:
+      return readPdf(buffer);
+  }
+};
+
+/**
+ * Embed a serialized XMP packet, replacing any packet already present.
+ *
+ * @throws Error if the file structure is malformed or the packet does not
+ *   fit the container
+ */
+export const writePacket = (
+  buffer: Buffer,
+  format: XmpContainerFormat,
+  xml: string
+): Promise<Buffer> => {
+  switch (format) {
+    case "jpeg":
+      return Promise.resolve(writeJpeg(buffer, xml));
+    case "png":
+      return Promise.resolve(writePng(buffer, xml));
+    default:
+      return writePdf(buffer, xml);
+  }
+};
@@ -6,3 +6,11 @@ import { Data } from "effect";
 export class XmpParseError extends Data.TaggedError("XmpParseError")<{
   readonly message: string;
 }> {}
+
+/**
+ * Represents an error that occurs when encoding an XMP packet or embedding
+ * it in a file.
+ */
+export class XmpWriteError extends Data.TaggedError("XmpWriteError")<{
+  readonly message: string;
+}> {}
@@ -5,10 +5,36 @@
  */
 
 // Convenience Functions
-export { parse, parseDefault } from "./api.js";
-
-// Errors
-export { XmpParseError } from "./errors.js";
-
+export {
+  parse,
+  parseDefault,
+  readXmp,
+  readXmpDefault,
+  writeXmp,
+  writeXmpDefault,
+} from "./api.js";
 // Backends (for advanced usage)
 export { XmpBackend } from "./backends/xmp-backend.js";
+// Errors
+export { XmpParseError, XmpWriteError } from "./errors.js";
+
+// Namespaces
+export {
+  XMP_NAMESPACES,
+  type XmpNamespace,
+  type XmpNamespaceKey,
+  type XmpPropertyKind,
+} from "./namespaces.js";
+// Schemas
+export {
+  CreatorContactInfo,
+  DublinCore,
+  IptcCore,
+  LangAlt,
+  Photoshop,
+  XmpBasic,
+  XmpBoolean,
+  XmpDate,
+  XmpPacket,
+  XmpRights,
+} from "./schemas.js";
@@ -0,0 +1,106 @@
+/**
+ * How a property value is laid out in RDF/XML.
+ *
+ * - `text`: a simple literal (`<dc:format>image/png</dc:format>`)
+ * - `langAlt`: an `rdf:Alt` of `xml:lang`-tagged alternatives
+ * - `seq` / `bag`: an ordered / unordered `rdf:Seq` / `rdf:Bag` of literals
+ * - `struct`: a nested resource whose fields are simple literals
+ */
+export type XmpPropertyKind = "text" | "langAlt" | "seq" | "bag" | "struct";
+
+export interface XmpNamespace {
+  readonly uri: string;
+  readonly prefix: string;
+  readonly properties: Readonly<Record<string, XmpPropertyKind>>;
+}
+
+export const RDF_NAMESPACE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+export const X_NAMESPACE = "adobe:ns:meta/";
+
+/**
+ * Namespaces modelled by `XmpPacket`, keyed by their field in the packet.
+ * Properties not listed here are ignored when reading.
+ */
+export const XMP_NAMESPACES = {
+  dc: {
+    uri: "http://purl.org/dc/elements/1.1/",
+    prefix: "dc",
+    properties: {
+      contributor: "bag",
+      coverage: "text",
+      creator: "seq",
+      date: "seq",
+      description: "langAlt",
+      format: "text",
+      identifier: "text",
+      language: "bag",
+      publisher: "bag",
+      relation: "bag",
+      rights: "langAlt",
+      source: "text",
+      subject: "bag",
+      title: "langAlt",
+      type: "bag",
+    },
+  },
+  xmp: {
+    uri: "http://ns.adobe.com/xap/1.0/",
+    prefix: "xmp",
+    properties: {
+      CreateDate: "text",
+      CreatorTool: "text",
+      Identifier: "bag",
+      Label: "text",
+      MetadataDate: "text",
+      ModifyDate: "text",
+      Nickname: "text",
+      Rating: "text",
+    },
+  },
+  xmpRights: {
+    uri: "http://ns.adobe.com/xap/1.0/rights/",
+    prefix: "xmpRights",
+    properties: {
+      Certificate: "text",
+      Marked: "text",
+      Owner: "bag",
+      UsageTerms: "langAlt",
+      WebStatement: "text",
+    },
+  },
+  photoshop: {
+    uri: "http://ns.adobe.com/photoshop/1.0/",
+    prefix: "photoshop",
+    properties: {
+      AuthorsPosition: "text",
+      CaptionWriter: "text",
+      Category: "text",
+      City: "text",
+      Country: "text",
+      Credit: "text",
+      DateCreated: "text",
+      Headline: "text",
+      Instructions: "text",
+      Source: "text",
+      State: "text",
+      SupplementalCategories: "bag",
+      TransmissionReference: "text",
+      Urgency: "text",
+    },
+  },
+  Iptc4xmpCore: {
+    uri: "http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/",
+    prefix: "Iptc4xmpCore",
+    properties: {
+      CountryCode: "text",
+      CreatorContactInfo: "struct",
+      IntellectualGenre: "text",
+      Location: "text",
+      Scene: "bag",
+      SubjectCode: "bag",
+    },
+  },
+} as const satisfies Readonly<Record<string, XmpNamespace>>;
+
+export type XmpNamespaceKey = keyof typeof XMP_NAMESPACES;
@@ -0,0 +1,464 @@
+import {
+  DOMParser,
+  type Document,
+  type Element,
+  type Node,
+  onErrorStopParsing,
+  XMLSerializer,
+} from "@xmldom/xmldom";
+import {
+  RDF_NAMESPACE,
+  X_NAMESPACE,
+  XML_NAMESPACE,
+  XMP_NAMESPACES,
+  type XmpNamespaceKey,
+  type XmpPropertyKind,
+} from "./namespaces.js";
+
+/**
+ * Property values in XMP lexical form, grouped by namespace. This is the
+ * encoded side of the `XmpPacket` schema.
+ */
+export type RawXmpPacket = {
+  [K in XmpNamespaceKey]?: Record<string, unknown> | undefined;
+};
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const XMP_NOTE_NAMESPACE = "http://ns.adobe.com/xmp/note/";
+const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+const PACKET_HEADER =
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>';
+const PACKET_TRAILER = '<?xpacket end="w"?>';
+const DEFAULT_LANG = "x-default";
+const CONTAINERS: ReadonlySet<string> = new Set(["Alt", "Seq", "Bag"]);
+const BOM_PATTERN = /^\uFEFF/;
+const PADDING_LINE = " ".repeat(99);
+
+const namespaceByUri: ReadonlyMap<
+  string,
+  {
+    readonly key: XmpNamespaceKey;
+    readonly properties: Readonly<Record<string, XmpPropertyKind>>;
+  }
+> = new Map(
+  Object.entries(XMP_NAMESPACES).map(([key, namespace]) => [
+    namespace.uri,
+    { key: key as XmpNamespaceKey, properties: namespace.properties },
+  ])
+);
+
+const childElements = (element: Element): Element[] =>
+  Array.from(element.childNodes).filter(
+    (child): child is Element => child.nodeType === ELEMENT_NODE
+  );
+
+const isRdf = (element: Element, localName: string): boolean =>
+  element.namespaceURI === RDF_NAMESPACE && element.localName === localName;
+
+const textOf = (element: Element): string => element.textContent ?? "";
+
+const listItems = (element: Element): Element[] => {
+  const container = childElements(element).find(
+    (child) =>
+      child.namespaceURI === RDF_NAMESPACE &&
+      CONTAINERS.has(child.localName ?? "")
+  );
+  return container
+    ? childElements(container).filter((child) => isRdf(child, "li"))
+    : [];
+};
+
+const readLangAlt = (element: Element): Record<string, string> => {
+  const items = listItems(element);
+  if (items.length === 0) {
+    return { [DEFAULT_LANG]: textOf(element) };
+  }
+  return Object.fromEntries(
+    items.map((item) => [
+      item.getAttributeNS(XML_NAMESPACE, "lang") || DEFAULT_LANG,
+      textOf(item),
+    ])
+  );
+};
+
+const readArray = (element: Element): string[] => {
+  const items = listItems(element);
+  return items.length === 0 ? [textOf(element)] : items.map(textOf);
+};
+
+/**
+ * Fields of a struct value: either `rdf:parseType="Resource"` on the
+ * property element, or a nested `rdf:Description`.
+ */
+const readStruct = (element: Element): Record<string, string> => {
+  const description = childElements(element).find((child) =>
+    isRdf(child, "Description")
+  );
+  const source = description ?? element;
+  const fields: Record<string, string> = {};
+  for (const attribute of Array.from(source.attributes)) {
+    if (
+      attribute.namespaceURI !== RDF_NAMESPACE &&
+      attribute.prefix !== "xmlns"
+    ) {
+      fields[attribute.localName ?? attribute.name] = attribute.value;
+    }
+  }
+  for (const child of childElements(source)) {
+    fields[child.localName ?? child.nodeName] = textOf(child);
+  }
+  return fields;
+};
+
+const readText = (element: Element): string => {
+  const resource = element.getAttributeNS(RDF_NAMESPACE, "resource");
+  if (resource !== null && resource !== "") {
+    return resource;
+  }
+  const [first] = listItems(element);
+  return first ? textOf(first) : textOf(element);
+};
+
+const readProperty = (element: Element, kind: XmpPropertyKind): unknown => {
+  switch (kind) {
+    case "langAlt":
+      return readLangAlt(element);
+    case "seq":
+    case "bag":
+      return readArray(element);
+    case "struct":
+      return readStruct(element);
+    default:
+      return readText(element);
+  }
+};
+
+const assign = (
+  packet: RawXmpPacket,
+  namespaceURI: string | null,
+  localName: string | null,
+  read: (kind: XmpPropertyKind) => unknown
+): void => {
+  const namespace = namespaceByUri.get(namespaceURI ?? "");
+  const kind = namespace?.properties[localName ?? ""];
+  if (!(namespace && localName && kind)) {
+    return;
+  }
+  const properties = packet[namespace.key] ?? {};
+  properties[localName] = read(kind);
+  packet[namespace.key] = properties;
+};
+
+const isModelled = (
+  namespaceURI: string | null,
+  localName: string | null
+): boolean =>
+  namespaceByUri.get(namespaceURI ?? "")?.properties[localName ?? ""] !==
+  undefined;
+
+const parseXml = (xml: string): Document =>
+  new DOMParser({
+    onError: onErrorStopParsing,
+  }).parseFromString(xml.replace(BOM_PATTERN, ""), "text/xml");
+
+const rdfOf = (document: Document): Element => {
+  const rdf = document.getElementsByTagNameNS(RDF_NAMESPACE, "RDF")[0];
+  if (!rdf) {
+    throw new Error("XMP packet has no rdf:RDF element");
+  }
+  return rdf;
+};
+
+const descriptionsOf = (rdf: Element): Element[] =>
+  childElements(rdf).filter((child) => isRdf(child, "Description"));
+
+/** Attributes holding property values, not RDF syntax or declarations */
+const propertyAttributes = (description: Element) =>
+  Array.from(description.attributes).filter(
+    (attribute) =>
+      attribute.namespaceURI !== RDF_NAMESPACE &&
+      attribute.namespaceURI !== XMLNS_NAMESPACE
+  );
+
+/**
+ * Read the modelled namespaces from serialized XMP. Properties may use
+ * either attribute or element form, across any number of
+ * `rdf:Description`s. Unknown namespaces and properties are skipped.
+ *
+ * @throws Error if the packet is not well-formed or has no `rdf:RDF`
+ */
+export const parsePacket = (xml: string): RawXmpPacket => {
+  const packet: RawXmpPacket = {};
+  for (const description of descriptionsOf(rdfOf(parseXml(xml)))) {
+    for (const attribute of Array.from(description.attributes)) {
+      assign(packet, attribute.namespaceURI, attribute.localName, (kind) =>
+        kind === "text" ? attribute.value : undefined
+      );
+    }
+    for (const property of childElements(description)) {
+      assign(packet, property.namespaceURI, property.localName, (kind) =>
+        readProperty(property, kind)
+      );
+    }
+  }
+  return packet;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const writeList = (
+  container: string,
+  items: readonly string[],
+  indent: string
+): string[] => [
+  `${indent}<rdf:${container}>`,
+  ...items.map((item) => `${indent}  <rdf:li>${escapeXml(item)}</rdf:li>`),
+  `${indent}</rdf:${container}>`,
+];
+
+const writeValue = (
+  kind: XmpPropertyKind,
+  value: unknown,
+  prefix: string,
+  indent: string
+): string[] => {
+  switch (kind) {
+    case "langAlt":
+      return [
+        `${indent}<rdf:Alt>`,
+        ...Object.entries(value as Record<string, string>).map(
+          ([lang, text]) =>
+            `${indent}  <rdf:li xml:lang="${escapeXml(lang)}">${escapeXml(text)}</rdf:li>`
+        ),
+        `${indent}</rdf:Alt>`,
+      ];
+    case "seq":
+      return writeList("Seq", value as readonly string[], indent);
+    case "bag":
+      return writeList("Bag", value as readonly string[], indent);
+    case "struct":
+      return Object.entries(value as Record<string, string | undefined>)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(
+          ([name, field]) =>
+            `${indent}<${prefix}:${name}>${escapeXml(field)}</${prefix}:${name}>`
+        );
+    default:
+      return [];
+  }
+};
+
+const writeNamespace = (
+  key: XmpNamespaceKey,
+  values: Record<string, unknown>
+): string[] => {
+  const { prefix, properties } = XMP_NAMESPACES[key];
+  const lines: string[] = [];
+  for (const [name, kind] of Object.entries(properties)) {
+    const value = values[name];
+    if (value === undefined) {
+      continue;
+    }
+    const tag = `${prefix}:${name}`;
+    if (kind === "text") {
+      lines.push(`      <${tag}>${escapeXml(String(value))}</${tag}>`);
+    } else {
+      const open = kind === "struct" ? `${tag} rdf:parseType="Resource"` : tag;
+      lines.push(
+        `      <${open}>`,
+        ...writeValue(kind, value, prefix, "        "),
+        `      </${tag}>`
+      );
+    }
+  }
+  return lines;
+};
+
+const paddingLines = (padding: number): string[] =>
+  Array.from(
+    { length: Math.ceil(padding / (PADDING_LINE.length + 1)) },
+    () => PADDING_LINE
+  );
+
+/** The `x:xmpmeta` element of a packet holding only the modelled namespaces */
+const modelledXml = (packet: RawXmpPacket): string[] => {
+  const keys = (Object.keys(XMP_NAMESPACES) as XmpNamespaceKey[]).filter(
+    (key) => packet[key] !== undefined
+  );
+  const declarations = keys.map(
+    (key) =>
+      `\n        xmlns:${XMP_NAMESPACES[key].prefix}="${XMP_NAMESPACES[key].uri}"`
+  );
+  const body = keys.flatMap((key) => writeNamespace(key, packet[key] ?? {}));
+  return [
+    `<x:xmpmeta xmlns:x="${X_NAMESPACE}">`,
+    `  <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+    `    <rdf:Description rdf:about=""${declarations.join("")}>`,
+    ...body,
+    "    </rdf:Description>",
+    "  </rdf:RDF>",
+    "</x:xmpmeta>",
+  ];
+};
+
+const isBlank = (node: Node | null): boolean =>
+  node?.nodeType === TEXT_NODE && (node.nodeValue ?? "").trim() === "";
+
+/** Remove an element along with the indentation before it */
+const removeElement = (element: Element): void => {
+  if (isBlank(element.previousSibling)) {
+    element.parentNode?.removeChild(element.previousSibling as Node);
+  }
+  element.parentNode?.removeChild(element);
+};
+
+/**
+ * Remove the modelled properties of a description, and the description
+ * itself once nothing is left in it
+ */
+const removeModelled = (description: Element): void => {
+  for (const attribute of propertyAttributes(description)) {
+    if (isModelled(attribute.namespaceURI, attribute.localName)) {
+      description.removeAttributeNode(attribute);
+    }
+  }
+  for (const property of childElements(description)) {
+    if (isModelled(property.namespaceURI, property.localName)) {
+      removeElement(property);
+    }
+  }
+  if (
+    propertyAttributes(description).length === 0 &&
+    childElements(description).length === 0
+  ) {
+    removeElement(description);
+  }
+};
+
+/** Append the modelled properties of `packet` as a new description */
+const appendModelled = (
+  document: Document,
+  rdf: Element,
+  packet: RawXmpPacket,
+  about: string
+): void => {
+  const [modelled] = descriptionsOf(
+    rdfOf(parseXml(modelledXml(packet).join("\n")))
+  );
+  if (!(modelled && childElements(modelled).length > 0)) {
+    return;
+  }
+  const imported = document.importNode(modelled, true) as Element;
+  imported.setAttributeNS(RDF_NAMESPACE, "rdf:about", about);
+  // Indent like the descriptions before it, ahead of the closing tag
+  const closing = isBlank(rdf.lastChild) ? rdf.lastChild : null;
+  rdf.insertBefore(document.createTextNode("\n    "), closing);
+  rdf.insertBefore(imported, closing);
+  if (closing === null) {
+    rdf.appendChild(document.createTextNode("\n  "));
+  }
+};
+
+/**
+ * Serialize `existing` with the modelled properties of `packet` in place of
+ * its own, keeping every other property and namespace declaration.
+ */
+const mergeInto = (existing: string, packet: RawXmpPacket): string => {
+  const document = parseXml(existing);
+  const rdf = rdfOf(document);
+  const descriptions = descriptionsOf(rdf);
+  // Every description of a packet describes the same resource
+  const about = descriptions[0]?.getAttributeNS(RDF_NAMESPACE, "about") ?? "";
+  for (const description of descriptions) {
+    removeModelled(description);
+  }
+  appendModelled(document, rdf, packet, about);
+
+  const root = document.documentElement;
+  return root && root !== rdf
+    ? new XMLSerializer().serializeToString(root)
+    : `<x:xmpmeta xmlns:x="${X_NAMESPACE}">${new XMLSerializer().serializeToString(rdf)}</x:xmpmeta>`;
+};
+
+/**
+ * Serialize a packet to RDF/XML wrapped in `<?xpacket?>` processing
+ * instructions. `padding` bytes of whitespace are added before the
+ * trailer so other tools can edit the packet in place.
+ *
+ * Given the `existing` packet of a file, its properties outside the
+ * modelled namespaces are kept and the modelled ones replaced.
+ *
+ * @throws Error if `existing` is not well-formed or has no `rdf:RDF`
+ */
+export const serializePacket = (
+  packet: RawXmpPacket,
+  padding = 0,
+  existing?: string
+): string =>
+  [
+    PACKET_HEADER,
+    ...(existing === undefined
+      ? modelledXml(packet)
+      : [mergeInto(existing, packet)]),
+    ...paddingLines(padding),
+    PACKET_TRAILER,
+  ].join("\n");
+
+/**
+ * GUID naming the extended XMP of a JPEG packet (`xmpNote:HasExtendedXMP`),
+ * if it has one
+ */
+export const extendedXmpGuid = (xml: string): string | undefined => {
+  for (const description of descriptionsOf(rdfOf(parseXml(xml)))) {
+    const attribute = description.getAttributeNS(
+      XMP_NOTE_NAMESPACE,
+      "HasExtendedXMP"
+    );
+    const element = childElements(description).find(
+      (child) =>
+        child.namespaceURI === XMP_NOTE_NAMESPACE &&
+        child.localName === "HasExtendedXMP"
+    );
+    const guid = attribute || (element && textOf(element));
+    if (guid) {
+      return guid.trim();
+    }
+  }
+  return;
+};
+
+/**
+ * The standard part of a JPEG packet whose properties are all held in the
+ * extended XMP named by `guid`
+ */
+export const extendedXmpStub = (guid: string): string =>
+  [
+    PACKET_HEADER,
+    `<x:xmpmeta xmlns:x="${X_NAMESPACE}">`,
+    `  <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+    `    <rdf:Description rdf:about="" xmlns:xmpNote="${XMP_NOTE_NAMESPACE}" xmpNote:HasExtendedXMP="${escapeXml(guid)}"/>`,
+    "  </rdf:RDF>",
+    "</x:xmpmeta>",
+    PACKET_TRAILER,
+  ].join("\n");
+
+/**
+ * Add the descriptions of a JPEG's extended XMP to its standard packet
+ */
+export const mergeExtendedXmp = (
+  standard: string,
+  extended: string
+): string => {
+  const document = parseXml(standard);
+  const rdf = rdfOf(document);
+  for (const description of descriptionsOf(rdfOf(parseXml(extended)))) {
+    rdf.appendChild(document.importNode(description, true));
+  }
+  return new XMLSerializer().serializeToString(document);
+};
@@ -0,0 +1,165 @@
+import { Schema } from "effect";
+
+const DATE_PATTERN =
+  /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/**
+ * An XMP date: ISO 8601 with optional precision, from `2024` down to
+ * fractional seconds with a time zone. Kept as a string so partial dates
+ * round-trip unchanged.
+ */
+export const XmpDate = Schema.String.pipe(
+  Schema.pattern(DATE_PATTERN, {
+    message: () => "Expected an XMP date such as 2024-05-01T12:00:00Z",
+  })
+);
+
+/**
+ * XMP booleans are the literals `True` and `False`.
+ */
+export const XmpBoolean = Schema.transform(
+  Schema.Literal("True", "False"),
+  Schema.Boolean,
+  {
+    strict: true,
+    decode: (value) => value === "True",
+    encode: (value) => (value ? "True" : "False"),
+  }
+);
+
+/**
+ * Language alternatives keyed by `xml:lang`. The default value is stored
+ * under `x-default`.
+ */
+export const LangAlt = Schema.Record({
+  key: Schema.String,
+  value: Schema.String,
+});
+
+export type LangAlt = Schema.Schema.Type<typeof LangAlt>;
+
+const OptionalText = Schema.optional(Schema.String);
+const OptionalDate = Schema.optional(XmpDate);
+const OptionalList = Schema.optional(Schema.Array(Schema.String));
+const OptionalAlt = Schema.optional(LangAlt);
+
+/**
+ * Dublin Core (`dc`) properties.
+ */
+export const DublinCore = Schema.Struct({
+  contributor: OptionalList,
+  coverage: OptionalText,
+  creator: OptionalList,
+  date: Schema.optional(Schema.Array(XmpDate)),
+  description: OptionalAlt,
+  format: OptionalText,
+  identifier: OptionalText,
+  language: OptionalList,
+  publisher: OptionalList,
+  relation: OptionalList,
+  rights: OptionalAlt,
+  source: OptionalText,
+  subject: OptionalList,
+  title: OptionalAlt,
+  type: OptionalList,
+});
+
+export type DublinCore = Schema.Schema.Type<typeof DublinCore>;
+
+/**
+ * XMP Basic (`xmp`) properties.
+ */
+export const XmpBasic = Schema.Struct({
+  CreateDate: OptionalDate,
+  CreatorTool: OptionalText,
+  Identifier: OptionalList,
+  Label: OptionalText,
+  MetadataDate: OptionalDate,
+  ModifyDate: OptionalDate,
+  Nickname: OptionalText,
+  /** -1 for rejected, 0 for unrated, otherwise 1 to 5 */
+  Rating: Schema.optional(Schema.NumberFromString.pipe(Schema.between(-1, 5))),
+});
+
+export type XmpBasic = Schema.Schema.Type<typeof XmpBasic>;
+
+/**
+ * XMP Rights Management (`xmpRights`) properties.
+ */
+export const XmpRights = Schema.Struct({
+  Certificate: OptionalText,
+  /** `true` for rights-managed, `false` for public domain */
+  Marked: Schema.optional(XmpBoolean),
+  Owner: OptionalList,
+  UsageTerms: OptionalAlt,
+  WebStatement: OptionalText,
+});
+
+export type XmpRights = Schema.Schema.Type<typeof XmpRights>;
+
+/**
+ * Photoshop (`photoshop`) properties, used by most IPTC-aware tools.
+ */
+export const Photoshop = Schema.Struct({
+  AuthorsPosition: OptionalText,
+  CaptionWriter: OptionalText,
+  Category: OptionalText,
+  City: OptionalText,
+  Country: OptionalText,
+  Credit: OptionalText,
+  DateCreated: OptionalDate,
+  Headline: OptionalText,
+  Instructions: OptionalText,
+  Source: OptionalText,
+  State: OptionalText,
+  SupplementalCategories: OptionalList,
+  TransmissionReference: OptionalText,
+  Urgency: Schema.optional(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(0, 8))
+  ),
+});
+
+export type Photoshop = Schema.Schema.Type<typeof Photoshop>;
+
+export const CreatorContactInfo = Schema.Struct({
+  CiAdrCity: OptionalText,
+  CiAdrCtry: OptionalText,
+  CiAdrExtadr: OptionalText,
+  CiAdrPcode: OptionalText,
+  CiAdrRegion: OptionalText,
+  CiEmailWork: OptionalText,
+  CiTelWork: OptionalText,
+  CiUrlWork: OptionalText,
+});
+
+/**
+ * IPTC Core (`Iptc4xmpCore`) properties.
+ */
+export const IptcCore = Schema.Struct({
+  CountryCode: OptionalText,
+  CreatorContactInfo: Schema.optional(CreatorContactInfo),
+  IntellectualGenre: OptionalText,
+  Location: OptionalText,
+  Scene: OptionalList,
+  SubjectCode: OptionalList,
+});
+
+export type IptcCore = Schema.Schema.Type<typeof IptcCore>;
+
+/**
+ * The typed contents of an XMP packet. Each namespace is optional, and so
+ * is every property within it.
+ *
+ * The encoded side is the XMP lexical form (strings, arrays of strings and
+ * language maps), so `Schema.encode(XmpPacket)` yields exactly what is
+ * written to the file.
+ */
+export const XmpPacket = Schema.Struct({
+  dc: Schema.optional(DublinCore),
+  xmp: Schema.optional(XmpBasic),
+  xmpRights: Schema.optional(XmpRights),
+  photoshop: Schema.optional(Photoshop),
+  Iptc4xmpCore: Schema.optional(IptcCore),
+});
+
+export type XmpPacket = Schema.Schema.Type<typeof XmpPacket>;
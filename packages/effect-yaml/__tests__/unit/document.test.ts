@@ -0,0 +1,227 @@
+/**
+ * Document-level YAML editing tests
+ *
+ * Tests comment/format preservation, multi-document streams and alias modes
+ */
+
+import { Effect, Either, Option } from "effect";
+import { describe, expect, it } from "vitest";
+import {
+  type YamlBackend,
+  YamlBackendLayer,
+} from "../../src/backends/YamlBackend.js";
+import * as yaml from "../../src/document.js";
+
+const run = <A, E>(effect: Effect.Effect<A, E, YamlBackend>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(YamlBackendLayer)));
+
+const config = `# Service configuration
+name: api # service name
+replicas: 2
+
+# Database settings
+database:
+  host: localhost
+  port: 5432 # default port
+`;
+
+describe("YAML documents", () => {
+  describe("round-trip editing", () => {
+    it("should reproduce the source when unchanged", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      expect(await Effect.runPromise(yaml.toString(doc))).toBe(config);
+    });
+
+    it("should keep comments when setting scalars", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      const edited = await Effect.runPromise(
+        yaml.setIn(doc, ["database", "port"], 6543)
+      );
+      const output = await Effect.runPromise(yaml.toString(edited));
+
+      expect(output).toBe(config.replace("5432", "6543"));
+    });
+
+    it("should add new keys and create intermediate collections", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      const edited = await Effect.runPromise(
+        yaml.setIn(doc, ["cache", "ttl"], 60)
+      );
+      const output = await Effect.runPromise(yaml.toString(edited));
+
+      expect(output.startsWith(config)).toBe(true);
+      expect(output).toContain("cache:\n  ttl: 60");
+    });
+
+    it("should delete keys and leave the rest untouched", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      const edited = await Effect.runPromise(yaml.deleteIn(doc, ["replicas"]));
+      const output = await Effect.runPromise(yaml.toString(edited));
+
+      expect(output).toBe(config.replace("replicas: 2\n", ""));
+    });
+
+    it("should not mutate the original document", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      await Effect.runPromise(yaml.setIn(doc, ["name"], "worker"));
+
+      expect(await Effect.runPromise(yaml.getIn(doc, ["name"]))).toEqual(
+        Option.some("api")
+      );
+    });
+
+    it("should create the root map of an empty document", async () => {
+      const doc = await run(yaml.parseDocument(""));
+      const edited = await Effect.runPromise(
+        yaml.setIn(doc, ["database", "port"], 5432)
+      );
+      const output = await Effect.runPromise(yaml.toString(edited));
+
+      expect(output).toBe("database:\n  port: 5432\n");
+    });
+
+    it("should leave documents unchanged when deleting missing paths", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      const edited = await Effect.runPromise(
+        yaml.deleteIn(doc, ["missing", "key"])
+      );
+
+      expect(await Effect.runPromise(yaml.toString(edited))).toBe(config);
+    });
+
+    it("should fail when setting beneath a scalar", async () => {
+      const doc = await run(yaml.parseDocument(config));
+      const result = await Effect.runPromise(
+        Effect.either(yaml.setIn(doc, ["name", "first"], "x"))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("YamlEditError");
+        expect(result.left.path).toEqual(["name", "first"]);
+      }
+    });
+  });
+
+  describe("reading", () => {
+    it("should read values and comments", async () => {
+      const doc = await run(yaml.parseDocument(config));
+
+      expect(await Effect.runPromise(yaml.getIn(doc, ["database"]))).toEqual(
+        Option.some({ host: "localhost", port: 5432 })
+      );
+      expect(
+        await Effect.runPromise(yaml.getIn(doc, ["missing", "key"]))
+      ).toEqual(Option.none());
+      expect(yaml.getCommentIn(doc, ["database", "port"])).toEqual(
+        Option.some(" default port")
+      );
+    });
+  });
+
+  describe("multi-document streams", () => {
+    const stream = "a: 1\n---\n# second\nb: 2\n";
+
+    it("should parse every document", async () => {
+      const docs = await run(yaml.parseAllDocuments(stream));
+
+      expect(docs).toHaveLength(2);
+      expect(
+        await Effect.runPromise(yaml.getIn(docs[1] as yaml.YamlDocument, ["b"]))
+      ).toEqual(Option.some(2));
+    });
+
+    it("should round-trip the stream", async () => {
+      const docs = await run(yaml.parseAllDocuments(stream));
+      const edited = await Effect.runPromise(
+        yaml.setIn(docs[1] as yaml.YamlDocument, ["b"], 3)
+      );
+      const output = await Effect.runPromise(
+        yaml.toStringAll([docs[0] as yaml.YamlDocument, edited])
+      );
+
+      expect(output).toBe("a: 1\n---\n# second\nb: 3\n");
+    });
+
+    it("should report the position of parse errors", async () => {
+      const result = await run(
+        Effect.either(yaml.parseAllDocuments("a: 1\n---\nb: [1,\nc: 2\n"))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.line).toBe(4);
+      }
+    });
+  });
+
+  describe("aliases", () => {
+    const anchored = "base: &base\n  timeout: 30\nservice: *base\n";
+
+    it("should preserve aliases and follow them on read", async () => {
+      const doc = await run(yaml.parseDocument(anchored));
+
+      expect(
+        await Effect.runPromise(yaml.getIn(doc, ["service", "timeout"]))
+      ).toEqual(Option.some(30));
+      expect(await Effect.runPromise(yaml.toString(doc))).toBe(anchored);
+    });
+
+    it("should inline aliases in resolve mode", async () => {
+      const doc = await run(
+        yaml.parseDocument(anchored, { aliases: "resolve" })
+      );
+      const edited = await Effect.runPromise(
+        yaml.setIn(doc, ["service", "timeout"], 60)
+      );
+
+      expect(
+        await Effect.runPromise(yaml.getIn(edited, ["base", "timeout"]))
+      ).toEqual(Option.some(30));
+      expect(
+        await Effect.runPromise(yaml.getIn(edited, ["service", "timeout"]))
+      ).toEqual(Option.some(60));
+    });
+
+    it("should reject aliases in forbid mode", async () => {
+      const result = await run(
+        Effect.either(yaml.parseDocument(anchored, { aliases: "forbid" }))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.message).toContain("*base");
+        expect(result.left.line).toBe(3);
+      }
+    });
+
+    it("should fail reads that expand too many aliases", async () => {
+      const doc = await run(
+        yaml.parseDocument(
+          "a: &a [x, x]\nb: &b [*a, *a]\nc: &c [*b, *b]\nd: [*c, *c]\n",
+          { maxAliasCount: 2 }
+        )
+      );
+      const result = await Effect.runPromise(
+        Effect.either(yaml.getIn(doc, ["d"]))
+      );
+
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("YamlParseError");
+      }
+    });
+
+    it("should honour merge keys when enabled", async () => {
+      const doc = await run(
+        yaml.parseDocument("base: &b\n  a: 1\nchild:\n  <<: *b\n  c: 2\n", {
+          merge: true,
+        })
+      );
+
+      expect(await Effect.runPromise(yaml.getIn(doc, ["child"]))).toEqual(
+        Option.some({ a: 1, c: 2 })
+      );
+    });
+  });
+});
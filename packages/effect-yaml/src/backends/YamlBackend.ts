@@ -2,6 +2,30 @@ import { Effect } from "effect";
 import YAML from "yaml";
 import { YamlParseError, YamlStringifyError } from "@/effect-yaml/errors.js";
 
+/**
+ * Options forwarded to the `yaml` library when parsing documents.
+ */
+export interface YamlBackendDocumentOptions {
+  readonly merge?: boolean | undefined;
+}
+
+const toParseError = (error: YAML.YAMLError): YamlParseError =>
+  new YamlParseError({
+    message: error.message,
+    line: error.linePos?.[0].line,
+    column: error.linePos?.[0].col,
+  });
+
+const checkDocument = (
+  document: YAML.Document.Parsed
+): Effect.Effect<YAML.Document.Parsed, YamlParseError> => {
+  const [error] = document.errors;
+  return error ? Effect.fail(toParseError(error)) : Effect.succeed(document);
+};
+
+const documentOptions = (options?: YamlBackendDocumentOptions) =>
+  options?.merge === undefined ? {} : { merge: options.merge };
+
 export class YamlBackend extends Effect.Service<YamlBackend>()("YamlBackend", {
   succeed: {
     parse: (text: string): Effect.Effect<unknown, YamlParseError> =>
@@ -20,6 +44,19 @@ export class YamlBackend extends Effect.Service<YamlBackend>()("YamlBackend", {
             message: error instanceof Error ? error.message : "Unknown error",
           }),
       }),
+    parseDocument: (
+      text: string,
+      options?: YamlBackendDocumentOptions
+    ): Effect.Effect<YAML.Document.Parsed, YamlParseError> =>
+      checkDocument(YAML.parseDocument(text, documentOptions(options))),
+    parseAllDocuments: (
+      text: string,
+      options?: YamlBackendDocumentOptions
+    ): Effect.Effect<readonly YAML.Document.Parsed[], YamlParseError> =>
+      Effect.forEach(
+        YAML.parseAllDocuments(text, documentOptions(options)),
+        checkDocument
+      ),
   },
 }) {}
 
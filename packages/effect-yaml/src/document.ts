@@ -0,0 +1,375 @@
+import { Effect, Option } from "effect";
+import YAML from "yaml";
+import { YamlBackend } from "@/effect-yaml/backends/YamlBackend.js";
+import {
+  YamlEditError,
+  YamlParseError,
+  YamlStringifyError,
+} from "@/effect-yaml/errors.js";
+
+/**
+ * A key path into a YAML document. Strings address mapping keys and numbers
+ * address sequence indices.
+ */
+export type YamlPath = readonly (string | number)[];
+
+/**
+ * How `*alias` references are treated when a document is parsed.
+ *
+ * - `"preserve"` keeps aliases as references; reads follow them and
+ *   `toString` writes them back unchanged.
+ * - `"resolve"` replaces every alias with a copy of its anchored node, so
+ *   later edits only affect the copy that was edited.
+ * - `"forbid"` fails parsing if the document contains any alias.
+ */
+export type YamlAliasMode = "preserve" | "resolve" | "forbid";
+
+/**
+ * Options for document-level parsing.
+ */
+export interface YamlDocumentOptions {
+  /** Alias handling, defaults to `"preserve"` */
+  readonly aliases?: YamlAliasMode;
+  /** Maximum alias expansions when reading values, defaults to 100 */
+  readonly maxAliasCount?: number;
+  /** Enable YAML 1.1 `<<` merge keys */
+  readonly merge?: boolean;
+}
+
+/**
+ * A parsed YAML document that keeps comments, anchors, key order and
+ * formatting so edits can be written back with minimal changes.
+ *
+ * Documents are treated as immutable values: `setIn` and `deleteIn` return
+ * a new document and leave their input untouched.
+ */
+export interface YamlDocument {
+  readonly _tag: "YamlDocument";
+  /** The underlying `yaml` document; treat it as read-only */
+  readonly document: YAML.Document;
+  readonly options: YamlDocumentOptions;
+}
+
+const DEFAULT_MAX_ALIAS_COUNT = 100;
+
+const makeDocument = (
+  document: YAML.Document,
+  options: YamlDocumentOptions
+): YamlDocument => ({ _tag: "YamlDocument", document, options });
+
+/**
+ * Apply the configured alias mode to a freshly parsed document.
+ */
+const applyAliasMode = (
+  text: string,
+  document: YAML.Document.Parsed,
+  options: YamlDocumentOptions
+): Effect.Effect<YamlDocument, YamlParseError> => {
+  const mode = options.aliases ?? "preserve";
+  if (mode === "preserve") {
+    return Effect.succeed(makeDocument(document, options));
+  }
+
+  let alias: YAML.Alias | undefined;
+  YAML.visit(document, {
+    Alias: (_, node) => {
+      alias = node;
+      if (mode === "forbid") {
+        return YAML.visit.BREAK;
+      }
+      const target = node.resolve(document);
+      if (!target) {
+        return;
+      }
+      const copy = target.clone() as YAML.Node;
+      (copy as { anchor?: string | undefined }).anchor = undefined;
+      return copy;
+    },
+  });
+
+  if (mode === "forbid" && alias) {
+    const line = alias.range
+      ? text.slice(0, alias.range[0]).split("\n").length
+      : undefined;
+    return Effect.fail(
+      new YamlParseError({
+        message: `Aliases are not allowed (found *${alias.source})`,
+        line,
+      })
+    );
+  }
+  return Effect.succeed(makeDocument(document, options));
+};
+
+/**
+ * Parses a single YAML document, preserving comments and formatting.
+ *
+ * @param text The YAML string to parse.
+ * @param options Alias and merge-key handling.
+ * @returns An `Effect` that resolves to a `YamlDocument` or fails with a `YamlParseError`.
+ */
+export const parseDocument = (
+  text: string,
+  options: YamlDocumentOptions = {}
+): Effect.Effect<YamlDocument, YamlParseError, YamlBackend> =>
+  YamlBackend.pipe(
+    Effect.flatMap((backend) =>
+      backend.parseDocument(text, { merge: options.merge })
+    ),
+    Effect.flatMap((document) => applyAliasMode(text, document, options))
+  );
+
+/**
+ * Parses a multi-document stream (documents separated by `---`).
+ *
+ * @param text The YAML stream to parse.
+ * @param options Alias and merge-key handling, applied to every document.
+ * @returns An `Effect` that resolves to the documents in order or fails with a `YamlParseError`.
+ */
+export const parseAllDocuments = (
+  text: string,
+  options: YamlDocumentOptions = {}
+): Effect.Effect<readonly YamlDocument[], YamlParseError, YamlBackend> =>
+  YamlBackend.pipe(
+    Effect.flatMap((backend) =>
+      backend.parseAllDocuments(text, { merge: options.merge })
+    ),
+    Effect.flatMap((documents) =>
+      Effect.forEach(documents, (document) =>
+        applyAliasMode(text, document, options)
+      )
+    )
+  );
+
+/**
+ * Follow an alias to its anchored node.
+ */
+const deref = (document: YAML.Document, node: unknown): unknown =>
+  YAML.isAlias(node) ? node.resolve(document) : node;
+
+/**
+ * Walk `path` from the document root, following aliases. Returns the node
+ * at the end of the path, or `undefined` if any segment is missing.
+ */
+const resolveNode = (document: YAML.Document, path: YamlPath): unknown => {
+  let node: unknown = document.contents;
+  for (const key of path) {
+    node = deref(document, node);
+    if (!YAML.isCollection(node)) {
+      return;
+    }
+    node = node.get(key, true);
+  }
+  return deref(document, node);
+};
+
+/**
+ * Reads the value at `path`, following aliases.
+ *
+ * @param doc The document to read from.
+ * @param path The key path to read.
+ * @returns An `Effect` that resolves to the value as plain JavaScript, or `Option.none()` if the path does not exist, or fails with a `YamlParseError` if the value expands more than `maxAliasCount` aliases.
+ */
+export const getIn = (
+  doc: YamlDocument,
+  path: YamlPath
+): Effect.Effect<Option.Option<unknown>, YamlParseError> =>
+  Effect.suspend(() => {
+    const node = resolveNode(doc.document, path);
+    if (node === undefined) {
+      return Effect.succeed(Option.none());
+    }
+    if (!YAML.isNode(node)) {
+      return Effect.succeed(Option.some(node));
+    }
+    const maxAliasCount = doc.options.maxAliasCount ?? DEFAULT_MAX_ALIAS_COUNT;
+    return Effect.try({
+      try: () => Option.some(node.toJS(doc.document, { maxAliasCount })),
+      catch: (error) =>
+        new YamlParseError({
+          message: error instanceof Error ? error.message : "Unknown error",
+        }),
+    });
+  });
+
+/**
+ * Reads the comment attached to the node at `path`, if any.
+ *
+ * @param doc The document to read from.
+ * @param path The key path of the node.
+ * @returns The trailing comment (or leading comment when there is none).
+ */
+export const getCommentIn = (
+  doc: YamlDocument,
+  path: YamlPath
+): Option.Option<string> => {
+  const node = resolveNode(doc.document, path);
+  if (!YAML.isNode(node)) {
+    return Option.none();
+  }
+  return Option.fromNullable(node.comment ?? node.commentBefore ?? undefined);
+};
+
+const isPrimitive = (value: unknown): boolean =>
+  value === null ||
+  ["string", "number", "boolean", "bigint"].includes(typeof value);
+
+/**
+ * Locate the collection that owns the last segment of `path`. When
+ * `create` is set, a missing root or intermediate collection is created;
+ * otherwise the result is `undefined`.
+ */
+const editTarget = (
+  document: YAML.Document,
+  path: YamlPath,
+  create: boolean
+): YAML.YAMLMap | YAML.YAMLSeq | string | undefined => {
+  const emptyCollection = (key: string | number | undefined) =>
+    document.createNode(typeof key === "number" ? [] : {});
+  if (document.contents === null) {
+    if (!create) {
+      return;
+    }
+    document.contents = emptyCollection(path[0]);
+  }
+
+  let node: unknown = document.contents;
+  for (const [index, key] of path.slice(0, -1).entries()) {
+    node = deref(document, node);
+    if (!YAML.isCollection(node)) {
+      return `Expected a YAML collection at ${path.slice(0, index).join(".") || "<root>"}`;
+    }
+    const next = node.get(key, true);
+    if (next === undefined) {
+      if (!create) {
+        return;
+      }
+      node.set(key, emptyCollection(path[index + 1]));
+    }
+    node = node.get(key, true);
+  }
+  node = deref(document, node);
+  return YAML.isMap(node) || YAML.isSeq(node)
+    ? node
+    : `Expected a YAML collection at ${path.slice(0, -1).join(".") || "<root>"}`;
+};
+
+const edit = (
+  doc: YamlDocument,
+  path: YamlPath,
+  create: boolean,
+  apply: (
+    document: YAML.Document,
+    target: YAML.YAMLMap | YAML.YAMLSeq,
+    key: string | number
+  ) => void
+): Effect.Effect<YamlDocument, YamlEditError> =>
+  Effect.suspend(() => {
+    const key = path.at(-1);
+    if (key === undefined) {
+      return Effect.fail(
+        new YamlEditError({ message: "Path must not be empty", path })
+      );
+    }
+    const document = doc.document.clone();
+    const target = editTarget(document, path, create);
+    if (target === undefined) {
+      return Effect.succeed(doc);
+    }
+    if (typeof target === "string") {
+      return Effect.fail(new YamlEditError({ message: target, path }));
+    }
+    return Effect.try({
+      try: () => {
+        apply(document, target, key);
+        return makeDocument(document, doc.options);
+      },
+      catch: (error) =>
+        new YamlEditError({
+          message: error instanceof Error ? error.message : "Unknown error",
+          path,
+        }),
+    });
+  });
+
+/**
+ * Sets the value at `path`, creating the root and intermediate collections
+ * as needed.
+ *
+ * Replacing a scalar with another scalar updates it in place, so comments
+ * and quoting style attached to the value survive. Paths that pass through
+ * an alias edit the anchored node.
+ *
+ * @param doc The document to edit.
+ * @param path The key path to set.
+ * @param value The new value.
+ * @returns An `Effect` that resolves to the edited copy of the document or fails with a `YamlEditError`.
+ */
+export const setIn = (
+  doc: YamlDocument,
+  path: YamlPath,
+  value: unknown
+): Effect.Effect<YamlDocument, YamlEditError> =>
+  edit(doc, path, true, (document, target, key) => {
+    const existing = target.get(key, true);
+    if (YAML.isScalar(existing) && isPrimitive(value)) {
+      existing.value = value;
+      return;
+    }
+    target.set(key, document.createNode(value));
+  });
+
+/**
+ * Removes the value at `path`. Deleting a path that does not exist is a
+ * no-op.
+ *
+ * @param doc The document to edit.
+ * @param path The key path to remove.
+ * @returns An `Effect` that resolves to the edited copy of the document or fails with a `YamlEditError`.
+ */
+export const deleteIn = (
+  doc: YamlDocument,
+  path: YamlPath
+): Effect.Effect<YamlDocument, YamlEditError> =>
+  edit(doc, path, false, (_, target, key) => {
+    target.delete(key);
+  });
+
+/**
+ * Serializes a document back to YAML, keeping its comments and formatting.
+ *
+ * @param doc The document to serialize.
+ * @param options Formatting options forwarded to the `yaml` library.
+ * @returns An `Effect` that resolves to the YAML string or fails with a `YamlStringifyError`.
+ */
+// biome-ignore lint/suspicious/noShadowRestrictedNames: mirrors Document.toString
+export const toString = (
+  doc: YamlDocument,
+  options?: YAML.ToStringOptions
+): Effect.Effect<string, YamlStringifyError> =>
+  Effect.try({
+    try: () => doc.document.toString(options),
+    catch: (error) =>
+      new YamlStringifyError({
+        message: error instanceof Error ? error.message : "Unknown error",
+      }),
+  });
+
+/**
+ * Serializes a multi-document stream, separating documents with `---`.
+ *
+ * @param docs The documents to serialize, in order.
+ * @param options Formatting options forwarded to the `yaml` library.
+ * @returns An `Effect` that resolves to the YAML stream or fails with a `YamlStringifyError`.
+ */
+export const toStringAll = (
+  docs: readonly YamlDocument[],
+  options?: YAML.ToStringOptions
+): Effect.Effect<string, YamlStringifyError> =>
+  Effect.forEach(docs, (doc, index) =>
+    toString(doc, options).pipe(
+      Effect.map((text) =>
+        index > 0 && !doc.document.directives?.docStart ? `---\n${text}` : text
+      )
+    )
+  ).pipe(Effect.map((parts) => parts.join("")));
@@ -2,9 +2,14 @@ import { Data } from "effect";
 
 /**
  * Represents an error that occurs when parsing a YAML string.
+ *
+ * Document-level parsing reports the 1-indexed `line` and `column` where the
+ * first problem was found.
  */
 export class YamlParseError extends Data.TaggedError("YamlParseError")<{
   readonly message: string;
+  readonly line?: number | undefined;
+  readonly column?: number | undefined;
 }> {}
 
 /**
@@ -13,3 +18,12 @@ export class YamlParseError extends Data.TaggedError("YamlParseError")<{
 export class YamlStringifyError extends Data.TaggedError("YamlStringifyError")<{
   readonly message: string;
 }> {}
+
+/**
+ * Represents an error that occurs when editing a YAML document, such as
+ * setting a key beneath a scalar value.
+ */
+export class YamlEditError extends Data.TaggedError("YamlEditError")<{
+  readonly message: string;
+  readonly path: readonly (string | number)[];
+}> {}
@@ -8,5 +8,20 @@
 export { parse, parseDefault, stringify, stringifyDefault } from "./api.js";
 // Backends (for advanced usage)
 export { YamlBackend } from "./backends/YamlBackend.js";
+// Documents (comment- and format-preserving editing)
+export {
+  deleteIn,
+  getCommentIn,
+  getIn,
+  parseAllDocuments,
+  parseDocument,
+  setIn,
+  toString,
+  toStringAll,
+  type YamlAliasMode,
+  type YamlDocument,
+  type YamlDocumentOptions,
+  type YamlPath,
+} from "./document.js";
 // Errors
-export { YamlParseError, YamlStringifyError } from "./errors.js";
+export { YamlEditError, YamlParseError, YamlStringifyError } from "./errors.js";